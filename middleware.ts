@@ -1,55 +1,131 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { USER_ID_HEADER, USER_ROLE_HEADER, requiresAdmin } from '@/lib/authz';
 
-export function middleware(request: NextRequest) {
+interface ResolvedSession {
+  id: number;
+  username: string;
+  role: string;
+  mustChangePassword?: boolean;
+  twoFactorSetupRequired?: boolean;
+}
+
+// Middleware runs on the edge runtime, which can't reach the database driver directly,
+// so the session is resolved through the Node.js validate endpoint.
+async function resolveSession(request: NextRequest, token: string): Promise<ResolvedSession | null> {
+  try {
+    const response = await fetch(new URL('/api/auth/login', request.url), {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'user-agent': request.headers.get('user-agent') || '',
+        'x-forwarded-for': request.headers.get('x-forwarded-for') || '',
+      },
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      return null;
+    }
+
+    const data = await response.json();
+    return data.user ?? null;
+  } catch (error) {
+    console.error('Middleware session lookup failed:', error);
+    return null;
+  }
+}
+
+function denyUnauthenticated(request: NextRequest, isApi: boolean, code: string) {
+  if (isApi) {
+    return NextResponse.json(
+      { error: 'Authentication required', code },
+      { status: 401 }
+    );
+  }
+
+  const response = NextResponse.redirect(new URL('/login', request.url));
+  response.cookies.delete('auth_token');
+  return response;
+}
+
+function denyForbidden(request: NextRequest, isApi: boolean) {
+  if (isApi) {
+    return NextResponse.json(
+      { error: 'Admin access required', code: 'FORBIDDEN' },
+      { status: 403 }
+    );
+  }
+
+  return NextResponse.redirect(new URL('/access-denied', request.url));
+}
+
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
+  const isApi = pathname.startsWith('/api');
+
+  // Identity headers are only ever set here; never trust a client-supplied copy
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.delete(USER_ID_HEADER);
+  requestHeaders.delete(USER_ROLE_HEADER);
 
   // Public routes that don't require authentication
-  const publicRoutes = ['/login', '/api/auth/login', '/api/auth/init', '/age-verification', '/access-denied'];
-  
-  if (publicRoutes.includes(pathname)) {
-    return NextResponse.next();
+  const publicRoutes = ['/login', '/age-verification', '/access-denied'];
+
+  // Auth endpoints validate their own tokens
+  if (publicRoutes.includes(pathname) || pathname.startsWith('/api/auth')) {
+    return NextResponse.next({ request: { headers: requestHeaders } });
   }
 
   // Check for auth token in cookie or header
-  const authToken = request.cookies.get('auth_token')?.value || 
-                   request.headers.get('Authorization')?.replace('Bearer ', '');
+  const authToken = request.headers.get('Authorization')?.replace('Bearer ', '') ||
+                   request.cookies.get('auth_token')?.value;
 
-  // For client-side navigation (same-origin requests), allow through
-  // The client-side auth will handle redirects
-  const isClientNavigation = request.headers.get('referer')?.startsWith(request.nextUrl.origin);
+  if (!authToken) {
+    return denyUnauthenticated(request, isApi, 'UNAUTHORIZED');
+  }
 
-  // Protect admin routes
-  if (pathname.startsWith('/admin')) {
-    if (!authToken && !isClientNavigation) {
-      return NextResponse.redirect(new URL('/login', request.url));
-    }
+  const session = await resolveSession(request, authToken);
+
+  if (!session) {
+    return denyUnauthenticated(request, isApi, 'INVALID_TOKEN');
   }
 
-  // Protect marketplace routes
-  if (pathname.startsWith('/marketplace')) {
-    if (!authToken && !isClientNavigation) {
-      return NextResponse.redirect(new URL('/login', request.url));
+  // Accounts created or reset by an admin must pick their own password before doing anything else
+  if (session.mustChangePassword) {
+    if (isApi) {
+      return NextResponse.json(
+        { error: 'Password change required', code: 'PASSWORD_CHANGE_REQUIRED' },
+        { status: 403 }
+      );
     }
+    return NextResponse.redirect(new URL('/change-password', request.url));
   }
 
-  // Protect API routes (except auth endpoints)
-  if (pathname.startsWith('/api') && !pathname.startsWith('/api/auth')) {
-    if (!authToken) {
+  if (session.twoFactorSetupRequired) {
+    if (isApi) {
       return NextResponse.json(
-        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
-        { status: 401 }
+        { error: 'Two-factor authentication must be set up', code: 'TWO_FACTOR_SETUP_REQUIRED' },
+        { status: 403 }
       );
     }
+    return NextResponse.redirect(new URL('/two-factor-setup', request.url));
   }
 
-  return NextResponse.next();
+  if (requiresAdmin(pathname, request.method) && session.role !== 'admin') {
+    return denyForbidden(request, isApi);
+  }
+
+  requestHeaders.set(USER_ID_HEADER, String(session.id));
+  requestHeaders.set(USER_ROLE_HEADER, session.role);
+
+  return NextResponse.next({ request: { headers: requestHeaders } });
 }
 
 export const config = {
   matcher: [
     '/admin/:path*',
     '/marketplace/:path*',
+    '/store/:path*',
     '/api/:path*',
   ],
-};
\ No newline at end of file
+};
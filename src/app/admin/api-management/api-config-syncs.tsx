@@ -0,0 +1,370 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { RefreshCw, Play, Activity, Clock, Tags } from 'lucide-react';
+import { toast } from 'sonner';
+import { SyncProgressDialog } from '@/components/admin/sync-progress-dialog';
+import { CategoryRulesEditor } from './category-rules-editor';
+import { parseCronExpression, nextCronMatch } from '@/lib/cron';
+
+interface ApiConfig {
+  id: number;
+  name: string;
+  type: string;
+  sourceType: string;
+  isActive: boolean | null;
+  isTestMode: boolean | null;
+  autoSyncEnabled: boolean | null;
+  syncIntervalMinutes: number | null;
+  syncWindow: string | null;
+  discontinueAfterHours: number | null;
+  categoryMappingRules: string | null;
+  lastSyncedAt: string | null;
+  nextSyncAt: string | null;
+}
+
+interface ScheduleForm {
+  autoSyncEnabled: boolean;
+  syncIntervalMinutes: string;
+  syncWindow: string;
+  discontinueAfterHours: string;
+}
+
+interface SyncJobSummary {
+  id: number;
+  configId: number;
+  status: 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+  processedProducts: number;
+  totalProducts: number;
+  stale: boolean;
+  createdAt: string;
+}
+
+interface ApiConfigSyncsProps {
+  onSyncComplete?: () => void;
+}
+
+const STATUS_VARIANTS: Record<SyncJobSummary['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  queued: 'outline',
+  running: 'secondary',
+  succeeded: 'default',
+  failed: 'destructive',
+  cancelled: 'outline',
+};
+
+// Server-side syncs of saved API configurations, run as resumable sync jobs
+export function ApiConfigSyncs({ onSyncComplete }: ApiConfigSyncsProps) {
+  const [configs, setConfigs] = useState<ApiConfig[]>([]);
+  const [latestJobs, setLatestJobs] = useState<Record<number, SyncJobSummary>>({});
+  const [startingId, setStartingId] = useState<number | null>(null);
+  const [dialogConfig, setDialogConfig] = useState<ApiConfig | null>(null);
+  const [scheduleConfig, setScheduleConfig] = useState<ApiConfig | null>(null);
+  const [scheduleForm, setScheduleForm] = useState<ScheduleForm>({ autoSyncEnabled: false, syncIntervalMinutes: '', syncWindow: '', discontinueAfterHours: '' });
+  const [isSavingSchedule, setIsSavingSchedule] = useState(false);
+  const [rulesConfig, setRulesConfig] = useState<ApiConfig | null>(null);
+
+  useEffect(() => {
+    fetchConfigs();
+  }, []);
+
+  const fetchConfigs = async () => {
+    try {
+      const token = localStorage.getItem('auth_token');
+      const headers = { 'Authorization': `Bearer ${token}` };
+      const [configsRes, jobsRes] = await Promise.all([
+        fetch('/api/admin/api-configs?limit=100', { headers }),
+        fetch('/api/admin/sync-jobs?limit=100', { headers }),
+      ]);
+
+      if (configsRes.ok) {
+        setConfigs(await configsRes.json());
+      }
+      if (jobsRes.ok) {
+        const jobs: SyncJobSummary[] = await jobsRes.json();
+        // Jobs come newest first, so the first one seen per configuration is its latest
+        const latest: Record<number, SyncJobSummary> = {};
+        for (const job of jobs) {
+          if (!latest[job.configId]) latest[job.configId] = job;
+        }
+        setLatestJobs(latest);
+      }
+    } catch (error) {
+      console.error('Failed to fetch API configurations:', error);
+    }
+  };
+
+  const startSync = async (config: ApiConfig) => {
+    setStartingId(config.id);
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/admin/api-configs/${config.id}/sync`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to start sync');
+        return;
+      }
+
+      toast.success(data.message);
+      setDialogConfig(config);
+    } catch (error) {
+      console.error('Failed to start sync:', error);
+      toast.error('Failed to start sync');
+    } finally {
+      setStartingId(null);
+    }
+  };
+
+  const openSchedule = (config: ApiConfig) => {
+    setScheduleForm({
+      autoSyncEnabled: !!config.autoSyncEnabled,
+      syncIntervalMinutes: config.syncIntervalMinutes ? String(config.syncIntervalMinutes) : '',
+      syncWindow: config.syncWindow ?? '',
+      discontinueAfterHours: config.discontinueAfterHours !== null ? String(config.discontinueAfterHours) : '',
+    });
+    setScheduleConfig(config);
+  };
+
+  // Checked as the admin types, with the window's next opening as a sanity check
+  const windowCheck = (() => {
+    const expression = scheduleForm.syncWindow.trim();
+    if (!expression) return null;
+    const parsed = parseCronExpression(expression);
+    if (!parsed.ok) return { error: parsed.error, next: null };
+    return { error: null, next: nextCronMatch(parsed.schedule, new Date()) };
+  })();
+
+  const saveSchedule = async () => {
+    if (!scheduleConfig) return;
+    setIsSavingSchedule(true);
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/admin/api-configs?id=${scheduleConfig.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({
+          autoSyncEnabled: scheduleForm.autoSyncEnabled,
+          syncIntervalMinutes: scheduleForm.syncIntervalMinutes ? parseInt(scheduleForm.syncIntervalMinutes) : null,
+          syncWindow: scheduleForm.syncWindow.trim() || null,
+          discontinueAfterHours: scheduleForm.discontinueAfterHours ? parseInt(scheduleForm.discontinueAfterHours) : null,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save schedule');
+        return;
+      }
+
+      toast.success(data.nextSyncAt
+        ? `Next sync ${new Date(data.nextSyncAt).toLocaleString()}`
+        : 'Schedule saved');
+      setScheduleConfig(null);
+      fetchConfigs();
+    } catch (error) {
+      console.error('Failed to save schedule:', error);
+      toast.error('Failed to save schedule');
+    } finally {
+      setIsSavingSchedule(false);
+    }
+  };
+
+  const closeDialog = () => {
+    setDialogConfig(null);
+    fetchConfigs();
+    onSyncComplete?.();
+  };
+
+  if (configs.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>API Sources</CardTitle>
+            <CardDescription>Sync saved configurations on the server; interrupted syncs resume from their last batch</CardDescription>
+          </div>
+          <Button size="sm" variant="outline" onClick={fetchConfigs}>
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {configs.map((config) => {
+            const job = latestJobs[config.id];
+            const jobInFlight = job && (job.status === 'queued' || job.status === 'running');
+
+            return (
+              <div key={config.id} className="flex items-center justify-between gap-4 border rounded-lg p-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-sm truncate">{config.name}</p>
+                    <Badge variant="outline">{config.type.toUpperCase()}</Badge>
+                    {config.isTestMode && <Badge variant="secondary">Dry run</Badge>}
+                  </div>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground mt-1">
+                    <span>
+                      {config.lastSyncedAt ? `Last synced ${new Date(config.lastSyncedAt).toLocaleString()}` : 'Never synced'}
+                    </span>
+                    <span>•</span>
+                    <span>
+                      {!config.autoSyncEnabled
+                        ? 'Auto-sync off'
+                        : config.nextSyncAt
+                          ? `Next run ${new Date(config.nextSyncAt).toLocaleString()}`
+                          : config.isActive ? 'No upcoming run' : 'Auto-sync paused (inactive)'}
+                    </span>
+                    {job && (
+                      <>
+                        <span>•</span>
+                        <Badge variant={job.stale ? 'destructive' : STATUS_VARIANTS[job.status]} className="text-[10px]">
+                          {job.stale ? 'interrupted' : job.status}
+                        </Badge>
+                        {job.totalProducts > 0 && (
+                          <span>{job.processedProducts} / {job.totalProducts}</span>
+                        )}
+                      </>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Button size="sm" variant="ghost" onClick={() => setRulesConfig(config)}>
+                    <Tags className="h-4 w-4 mr-1" />
+                    Categories
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => openSchedule(config)}>
+                    <Clock className="h-4 w-4 mr-1" />
+                    Schedule
+                  </Button>
+                  {job && (
+                    <Button size="sm" variant="ghost" onClick={() => setDialogConfig(config)}>
+                      <Activity className="h-4 w-4 mr-1" />
+                      Progress
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    onClick={() => startSync(config)}
+                    disabled={startingId === config.id || (jobInFlight && !job.stale)}
+                  >
+                    <Play className="h-4 w-4 mr-1" />
+                    {job?.stale ? 'Resume' : 'Sync Now'}
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+
+      <SyncProgressDialog
+        open={!!dialogConfig}
+        configId={dialogConfig?.id ?? null}
+        configName={dialogConfig?.name ?? ''}
+        onClose={closeDialog}
+      />
+
+      <CategoryRulesEditor
+        config={rulesConfig}
+        onClose={() => setRulesConfig(null)}
+        onSaved={fetchConfigs}
+      />
+
+      <Dialog open={!!scheduleConfig} onOpenChange={(open) => !open && setScheduleConfig(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Auto-sync: {scheduleConfig?.name}</DialogTitle>
+            <DialogDescription>
+              The server syncs active configurations on this schedule. Runs never overlap; a slot that comes up while a sync is still going is skipped.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="autoSyncEnabled">Auto-sync</Label>
+              <Switch
+                id="autoSyncEnabled"
+                checked={scheduleForm.autoSyncEnabled}
+                onCheckedChange={(checked) => setScheduleForm({ ...scheduleForm, autoSyncEnabled: checked })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="syncIntervalMinutes">Interval (minutes)</Label>
+              <Input
+                id="syncIntervalMinutes"
+                type="number"
+                min="1"
+                value={scheduleForm.syncIntervalMinutes}
+                onChange={(e) => setScheduleForm({ ...scheduleForm, syncIntervalMinutes: e.target.value })}
+                placeholder="e.g., 60"
+              />
+              <p className="text-xs text-muted-foreground">
+                Without an interval the configuration syncs once and then waits
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="syncWindow">Window (cron, optional)</Label>
+              <Input
+                id="syncWindow"
+                value={scheduleForm.syncWindow}
+                onChange={(e) => setScheduleForm({ ...scheduleForm, syncWindow: e.target.value })}
+                placeholder="e.g., * 0-5 * * * for overnight only"
+                className="font-mono"
+              />
+              {windowCheck?.error ? (
+                <p className="text-xs text-destructive">{windowCheck.error}</p>
+              ) : windowCheck ? (
+                <p className="text-xs text-muted-foreground">
+                  {windowCheck.next ? `Window next opens ${windowCheck.next.toLocaleString()} (server time)` : 'This window never opens'}
+                </p>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  minute hour day-of-month month day-of-week; due syncs wait until the window is open
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="discontinueAfterHours">Mark missing products unavailable after (hours)</Label>
+              <Input
+                id="discontinueAfterHours"
+                type="number"
+                min="0"
+                value={scheduleForm.discontinueAfterHours}
+                onChange={(e) => setScheduleForm({ ...scheduleForm, discontinueAfterHours: e.target.value })}
+                placeholder="24"
+              />
+              <p className="text-xs text-muted-foreground">
+                Products the feed stops listing are discontinued once a full sync finds them missing this long (24 hours when empty)
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setScheduleConfig(null)}>
+              Cancel
+            </Button>
+            <Button onClick={saveSchedule} disabled={isSavingSchedule || !!windowCheck?.error}>
+              {isSavingSchedule ? 'Saving...' : 'Save Schedule'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
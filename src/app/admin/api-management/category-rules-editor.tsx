@@ -0,0 +1,357 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Plus, Trash2, ArrowUp, ArrowDown, ArrowRight } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  CATEGORY_RULE_FIELDS,
+  MAIN_CATEGORIES,
+  CategoryMappingRule,
+  CategoryRuleField,
+  CategoryRuleMatch,
+  FetchedProductSample,
+  matchCategoryRule,
+  parseCategoryMappingRules,
+  validateCategoryMappingRules,
+} from '@/lib/category-rules';
+
+interface CategoryRulesEditorProps {
+  config: { id: number; name: string; categoryMappingRules: string | null } | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// Priority is kept as typed so a half-entered number doesn't jump around
+interface DraftRule {
+  field: CategoryRuleField;
+  match: CategoryRuleMatch;
+  pattern: string;
+  priority: string;
+  mainCategory: string;
+  subCategory: string;
+}
+
+const FIELD_LABELS: Record<CategoryRuleField, string> = {
+  any: 'Any field',
+  name: 'Name',
+  description: 'Description',
+  brand: 'Brand',
+  category: 'Source category',
+};
+
+const PREVIEW_LIMIT = 100;
+
+const emptyRule = (): DraftRule => ({
+  field: 'name',
+  match: 'contains',
+  pattern: '',
+  priority: '0',
+  mainCategory: MAIN_CATEGORIES[0],
+  subCategory: '',
+});
+
+const toDraft = (rule: CategoryMappingRule): DraftRule => ({
+  ...rule,
+  priority: String(rule.priority),
+  subCategory: rule.subCategory ?? '',
+});
+
+const fromDraft = (rule: DraftRule) => ({
+  ...rule,
+  priority: rule.priority.trim() === '' ? 0 : Number(rule.priority),
+  subCategory: rule.subCategory.trim() || null,
+});
+
+// Edits a configuration's category mapping rules, previewed live against its last fetched feed
+export function CategoryRulesEditor({ config, onClose, onSaved }: CategoryRulesEditorProps) {
+  const [rules, setRules] = useState<DraftRule[]>([]);
+  const [sample, setSample] = useState<FetchedProductSample[]>([]);
+  const [fetchedAt, setFetchedAt] = useState<string | null>(null);
+  const [changedOnly, setChangedOnly] = useState(true);
+  const [search, setSearch] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!config) return;
+    const stored = parseCategoryMappingRules(config.categoryMappingRules);
+    setRules(stored.ok ? stored.rules.map(toDraft) : []);
+    if (!stored.ok) {
+      toast.error(`Stored rules were ignored: ${stored.error}`);
+    }
+    setSearch('');
+    fetchSample(config.id);
+  }, [config?.id]);
+
+  const fetchSample = async (configId: number) => {
+    setSample([]);
+    setFetchedAt(null);
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/admin/api-configs/${configId}/fetched-products`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setSample(data.products);
+        setFetchedAt(data.fetchedAt);
+      }
+    } catch (error) {
+      console.error('Failed to fetch last feed:', error);
+    }
+  };
+
+  const validation = validateCategoryMappingRules(rules.map(fromDraft));
+
+  // Only a valid rule set is previewed; matches point back at the rule's position in the list
+  const preview = sample.map(product => {
+    const match = validation.ok ? matchCategoryRule(validation.rules, product) : null;
+    return {
+      product,
+      ruleIndex: match?.index ?? null,
+      mainCategory: match?.rule.mainCategory ?? product.mainCategory,
+      subCategory: match?.rule.subCategory ?? product.subCategory,
+    };
+  });
+  const matchedCount = preview.filter(row => row.ruleIndex !== null).length;
+  const changedCount = preview.filter(row => row.mainCategory !== row.product.mainCategory || row.subCategory !== row.product.subCategory).length;
+
+  const query = search.trim().toLowerCase();
+  const visibleRows = preview
+    .filter(row => !changedOnly || row.ruleIndex !== null)
+    .filter(row => !query || row.product.name.toLowerCase().includes(query));
+
+  const updateRule = (index: number, changes: Partial<DraftRule>) => {
+    setRules(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    setRules(next);
+  };
+
+  const saveRules = async () => {
+    if (!config || !validation.ok) return;
+    setIsSaving(true);
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/admin/api-configs?id=${config.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({
+          categoryMappingRules: validation.rules.length > 0 ? JSON.stringify(validation.rules) : null,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save category rules');
+        return;
+      }
+
+      toast.success('Category rules saved; they apply from the next sync');
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error('Failed to save category rules:', error);
+      toast.error('Failed to save category rules');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!config} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Category Rules: {config?.name}</DialogTitle>
+          <DialogDescription>
+            The highest priority matching rule sets the category; equal priorities go to the rule listed first.
+            Products no rule matches keep the category detected from the feed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {rules.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">No rules yet</p>
+          )}
+          {rules.map((rule, index) => (
+            <div key={index} className="flex flex-wrap items-end gap-2 border rounded-lg p-3">
+              <span className="text-xs font-medium text-muted-foreground w-6 pb-2">#{index + 1}</span>
+              <div className="space-y-1">
+                <Label className="text-xs">Field</Label>
+                <Select value={rule.field} onValueChange={(value) => updateRule(index, { field: value as CategoryRuleField })}>
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CATEGORY_RULE_FIELDS.map(field => (
+                      <SelectItem key={field} value={field}>{FIELD_LABELS[field]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Match</Label>
+                <Select value={rule.match} onValueChange={(value) => updateRule(index, { match: value as CategoryRuleMatch })}>
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="contains">Contains</SelectItem>
+                    <SelectItem value="regex">Regex</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1 flex-1 min-w-40">
+                <Label className="text-xs">Pattern</Label>
+                <Input
+                  value={rule.pattern}
+                  onChange={(e) => updateRule(index, { pattern: e.target.value })}
+                  placeholder={rule.match === 'regex' ? 'e.g., \\b(aio|all.in.one)\\b' : 'e.g., gummies'}
+                  className={rule.match === 'regex' ? 'font-mono' : undefined}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Priority</Label>
+                <Input
+                  type="number"
+                  value={rule.priority}
+                  onChange={(e) => updateRule(index, { priority: e.target.value })}
+                  className="w-20"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Main category</Label>
+                <Select value={rule.mainCategory} onValueChange={(value) => updateRule(index, { mainCategory: value })}>
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MAIN_CATEGORIES.map(category => (
+                      <SelectItem key={category} value={category}>{category}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Sub category</Label>
+                <Input
+                  value={rule.subCategory}
+                  onChange={(e) => updateRule(index, { subCategory: e.target.value })}
+                  placeholder="Optional"
+                  className="w-32"
+                />
+              </div>
+              <div className="flex items-center">
+                <Button size="icon" variant="ghost" onClick={() => moveRule(index, -1)} disabled={index === 0}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="ghost" onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1}>
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="ghost" onClick={() => setRules(rules.filter((_, i) => i !== index))}>
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          <div className="flex items-center justify-between gap-4">
+            <Button size="sm" variant="outline" onClick={() => setRules([...rules, emptyRule()])}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Rule
+            </Button>
+            {!validation.ok && <p className="text-xs text-destructive">{validation.error}</p>}
+          </div>
+        </div>
+
+        <div className="border-t pt-4 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <p className="text-sm font-medium">Preview</p>
+              <p className="text-xs text-muted-foreground">
+                {fetchedAt
+                  ? `${matchedCount} of ${sample.length} products matched, ${changedCount} change category · feed fetched ${new Date(fetchedAt).toLocaleString()}`
+                  : 'Run a sync of this configuration to preview rules against its feed'}
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search products"
+                className="w-48"
+              />
+              <div className="flex items-center gap-2">
+                <Switch id="changedOnly" checked={changedOnly} onCheckedChange={setChangedOnly} />
+                <Label htmlFor="changedOnly" className="text-xs">Matched only</Label>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-1 max-h-72 overflow-y-auto">
+            {visibleRows.slice(0, PREVIEW_LIMIT).map(row => {
+              const changed = row.mainCategory !== row.product.mainCategory || row.subCategory !== row.product.subCategory;
+              return (
+                <div key={row.product.sourceId} className="flex items-center justify-between gap-4 text-sm border rounded px-3 py-2">
+                  <div className="min-w-0">
+                    <p className="truncate">{row.product.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {[row.product.brand, row.product.category].filter(Boolean).join(' · ') || '—'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {changed && (
+                      <>
+                        <span className="text-xs text-muted-foreground line-through">
+                          {row.product.mainCategory}{row.product.subCategory && ` / ${row.product.subCategory}`}
+                        </span>
+                        <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                      </>
+                    )}
+                    <Badge variant={changed ? 'default' : 'outline'}>
+                      {row.mainCategory}{row.subCategory && ` / ${row.subCategory}`}
+                    </Badge>
+                    {row.ruleIndex !== null && (
+                      <Badge variant="secondary" className="text-[10px]">#{row.ruleIndex + 1}</Badge>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+            {visibleRows.length === 0 && sample.length > 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">No products to show</p>
+            )}
+            {visibleRows.length > PREVIEW_LIMIT && (
+              <p className="text-xs text-muted-foreground text-center py-2">
+                Showing {PREVIEW_LIMIT} of {visibleRows.length}; search to narrow it down
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={saveRules} disabled={isSaving || !validation.ok}>
+            {isSaving ? 'Saving...' : 'Save Rules'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
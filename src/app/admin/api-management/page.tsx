@@ -9,6 +9,8 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { RefreshCw, Package, Settings } from 'lucide-react';
 import { ProductJSONSync } from './product-json-sync';
+import { ApiConfigSyncs } from './api-config-syncs';
+import { SyncChangesetReview } from './sync-changeset-review';
 import { useInactivityLogout } from '@/hooks/use-inactivity-logout';
 import { InactivityWarning } from '@/components/auth/inactivity-warning';
 import Link from 'next/link';
@@ -23,6 +25,7 @@ interface ApiLog {
   productsProcessed: number | null;
   productsCreated: number | null;
   productsUpdated: number | null;
+  productsDiscontinued: number | null;
   createdAt: string;
 }
 
@@ -31,6 +34,7 @@ export default function AdminApiManagementPage() {
   const router = useRouter();
   const [logs, setLogs] = useState<ApiLog[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [syncRuns, setSyncRuns] = useState(0);
 
   const { showWarning, secondsRemaining, dismissWarning } = useInactivityLogout(!!user);
 
@@ -102,6 +106,17 @@ export default function AdminApiManagementPage() {
           }}
         />
 
+        {/* Saved API configurations and their sync jobs */}
+        <ApiConfigSyncs
+          onSyncComplete={() => {
+            fetchLogs();
+            setSyncRuns(runs => runs + 1);
+          }}
+        />
+
+        {/* Dry-run changesets awaiting review */}
+        <SyncChangesetReview refreshKey={syncRuns} onApplied={fetchLogs} />
+
         {/* Recent Import Logs */}
         <Card className="mt-6">
           <CardHeader>
@@ -163,6 +178,14 @@ export default function AdminApiManagementPage() {
                           </span>
                         </>
                       )}
+                      {log.productsDiscontinued !== null && log.productsDiscontinued > 0 && (
+                        <>
+                          <span>•</span>
+                          <span className="text-orange-600 dark:text-orange-400 font-medium">
+                            {log.productsDiscontinued} discontinued
+                          </span>
+                        </>
+                      )}
                     </div>
                   </div>
                 ))}
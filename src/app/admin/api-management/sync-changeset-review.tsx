@@ -0,0 +1,404 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ClipboardCheck, RefreshCw, ArrowRight } from 'lucide-react';
+import { toast } from 'sonner';
+
+type ChangeKind = 'create' | 'update' | 'remove';
+
+interface ChangesetSummary {
+  id: number;
+  configId: number;
+  configName: string;
+  status: string;
+  createCount: number;
+  updateCount: number;
+  removeCount: number;
+  createdAt: string;
+}
+
+interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+interface ChangeItem {
+  id: number;
+  kind: ChangeKind;
+  productId: number | null;
+  sourceId: string | null;
+  name: string;
+  changes: FieldChange[];
+  preview: { price: number; mainCategory: string; subCategory: string | null; stockQuantity: number; variantCount: number } | null;
+}
+
+interface SyncChangesetReviewProps {
+  // Bumped by the page whenever a sync finishes, so new dry runs show up
+  refreshKey?: number;
+  onApplied?: () => void;
+}
+
+const PAGE_SIZE = 50;
+
+const KIND_LABELS: Record<ChangeKind, string> = {
+  create: 'New',
+  update: 'Changed',
+  remove: 'Removed',
+};
+
+function formatValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return `${value.length} ${value.length === 1 ? 'entry' : 'entries'}`;
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (field === 'price' && typeof value === 'number') return `$${value.toFixed(2)}`;
+  return String(value);
+}
+
+// Review of stored dry-run changesets: approve items and fields, then apply or discard
+export function SyncChangesetReview({ refreshKey, onApplied }: SyncChangesetReviewProps) {
+  const [changesets, setChangesets] = useState<ChangesetSummary[]>([]);
+  const [reviewing, setReviewing] = useState<ChangesetSummary | null>(null);
+  const [items, setItems] = useState<ChangeItem[]>([]);
+  // Approved item ids, mapped to the approved fields for updates
+  const [selection, setSelection] = useState<Record<number, string[]>>({});
+  const [visible, setVisible] = useState<Record<ChangeKind, number>>({ create: PAGE_SIZE, update: PAGE_SIZE, remove: PAGE_SIZE });
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchChangesets();
+  }, [refreshKey]);
+
+  const fetchChangesets = async () => {
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch('/api/admin/sync-changesets?status=pending&limit=50', {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      if (response.ok) {
+        setChangesets(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to fetch changesets:', error);
+    }
+  };
+
+  const openReview = async (changeset: ChangesetSummary) => {
+    setReviewing(changeset);
+    setItems([]);
+    setSelection({});
+    setVisible({ create: PAGE_SIZE, update: PAGE_SIZE, remove: PAGE_SIZE });
+    setIsLoading(true);
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/admin/sync-changesets/${changeset.id}`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load changeset');
+        setReviewing(null);
+        return;
+      }
+
+      const loaded: ChangeItem[] = data.items;
+      setItems(loaded);
+      // Everything starts approved; the admin unticks what shouldn't go live
+      setSelection(Object.fromEntries(loaded.map(item => [item.id, item.changes.map(c => c.field)])));
+    } catch (error) {
+      console.error('Failed to load changeset:', error);
+      toast.error('Failed to load changeset');
+      setReviewing(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleItem = (item: ChangeItem, checked: boolean) => {
+    setSelection(prev => {
+      const next = { ...prev };
+      if (checked) {
+        next[item.id] = item.changes.map(c => c.field);
+      } else {
+        delete next[item.id];
+      }
+      return next;
+    });
+  };
+
+  const toggleField = (item: ChangeItem, field: string, checked: boolean) => {
+    setSelection(prev => {
+      const fields = (prev[item.id] ?? []).filter(f => f !== field);
+      if (checked) fields.push(field);
+      const next = { ...prev };
+      if (fields.length > 0) {
+        next[item.id] = fields;
+      } else {
+        delete next[item.id];
+      }
+      return next;
+    });
+  };
+
+  const toggleKind = (kind: ChangeKind, checked: boolean) => {
+    setSelection(prev => {
+      const next = { ...prev };
+      for (const item of items.filter(i => i.kind === kind)) {
+        if (checked) {
+          next[item.id] = item.changes.map(c => c.field);
+        } else {
+          delete next[item.id];
+        }
+      }
+      return next;
+    });
+  };
+
+  const closeReview = () => {
+    setReviewing(null);
+    setItems([]);
+    setSelection({});
+  };
+
+  const applySelected = async () => {
+    if (!reviewing) return;
+    setIsSubmitting(true);
+    try {
+      const token = localStorage.getItem('auth_token');
+      const approvals = items
+        .filter(item => selection[item.id])
+        .map(item => item.kind === 'update'
+          ? { itemId: item.id, fields: selection[item.id] }
+          : { itemId: item.id });
+
+      const response = await fetch(`/api/admin/sync-changesets/${reviewing.id}/apply`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ approvals }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to apply changes');
+        return;
+      }
+
+      const summary = `${data.created} new, ${data.updated} updated, ${data.removed} removed`;
+      if (data.errors.length > 0) {
+        toast.warning(`Applied with ${data.errors.length} errors: ${summary}`);
+      } else {
+        toast.success(`Applied: ${summary}`);
+      }
+      closeReview();
+      fetchChangesets();
+      onApplied?.();
+    } catch (error) {
+      console.error('Failed to apply changes:', error);
+      toast.error('Failed to apply changes');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const discard = async () => {
+    if (!reviewing) return;
+    if (!confirm('Discard this dry run? Nothing in it will be written to the catalog.')) return;
+    setIsSubmitting(true);
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/admin/sync-changesets/${reviewing.id}/discard`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to discard changes');
+        return;
+      }
+
+      toast.success('Dry run discarded');
+      closeReview();
+      fetchChangesets();
+    } catch (error) {
+      console.error('Failed to discard changes:', error);
+      toast.error('Failed to discard changes');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderItem = (item: ChangeItem) => {
+    const approvedFields = selection[item.id];
+
+    return (
+      <div key={item.id} className="border rounded-lg p-3 space-y-2">
+        <div className="flex items-start gap-3">
+          <Checkbox
+            checked={!!approvedFields}
+            onCheckedChange={(checked) => toggleItem(item, checked === true)}
+            className="mt-0.5"
+          />
+          <div className="min-w-0 flex-1">
+            <p className="font-medium text-sm truncate">{item.name}</p>
+            <p className="text-xs text-muted-foreground">
+              {item.sourceId ? `Source ID ${item.sourceId}` : 'No source ID'}
+              {item.productId && ` • Product #${item.productId}`}
+            </p>
+            {item.preview && (
+              <p className="text-xs text-muted-foreground mt-1">
+                ${item.preview.price.toFixed(2)} • {item.preview.mainCategory}
+                {item.preview.subCategory && ` / ${item.preview.subCategory}`} • {item.preview.stockQuantity} in stock
+                {item.preview.variantCount > 0 && ` • ${item.preview.variantCount} variants`}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {item.kind === 'update' && (
+          <div className="pl-7 space-y-1">
+            {item.changes.map(change => (
+              <label key={change.field} className="flex items-center gap-2 text-xs cursor-pointer">
+                <Checkbox
+                  checked={!!approvedFields?.includes(change.field)}
+                  onCheckedChange={(checked) => toggleField(item, change.field, checked === true)}
+                />
+                <span className="font-mono w-28 shrink-0">{change.field}</span>
+                <span className="text-muted-foreground truncate">{formatValue(change.field, change.before)}</span>
+                <ArrowRight className="h-3 w-3 shrink-0" />
+                <span className="truncate">{formatValue(change.field, change.after)}</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderKind = (kind: ChangeKind) => {
+    const kindItems = items.filter(i => i.kind === kind);
+    const approvedCount = kindItems.filter(i => selection[i.id]).length;
+
+    if (kindItems.length === 0) {
+      return <p className="text-sm text-muted-foreground text-center py-6">No {KIND_LABELS[kind].toLowerCase()} products</p>;
+    }
+
+    return (
+      <div className="space-y-3">
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <Checkbox
+            checked={approvedCount === kindItems.length ? true : approvedCount > 0 ? 'indeterminate' : false}
+            onCheckedChange={(checked) => toggleKind(kind, checked === true)}
+          />
+          Approve all ({approvedCount} of {kindItems.length} selected)
+        </label>
+        {kindItems.slice(0, visible[kind]).map(renderItem)}
+        {kindItems.length > visible[kind] && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={() => setVisible({ ...visible, [kind]: visible[kind] + PAGE_SIZE })}
+          >
+            Show more ({kindItems.length - visible[kind]} remaining)
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  if (changesets.length === 0) {
+    return null;
+  }
+
+  const selectedCount = Object.keys(selection).length;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Pending Reviews</CardTitle>
+            <CardDescription>Dry-run syncs waiting for approval before they touch the catalog</CardDescription>
+          </div>
+          <Button size="sm" variant="outline" onClick={fetchChangesets}>
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {changesets.map((changeset) => (
+            <div key={changeset.id} className="flex items-center justify-between gap-4 border rounded-lg p-3">
+              <div className="min-w-0">
+                <p className="font-medium text-sm truncate">{changeset.configName}</p>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground mt-1">
+                  <span>Dry run {new Date(changeset.createdAt).toLocaleString()}</span>
+                  <span>•</span>
+                  <Badge variant="default" className="text-[10px]">{changeset.createCount} new</Badge>
+                  <Badge variant="secondary" className="text-[10px]">{changeset.updateCount} changed</Badge>
+                  <Badge variant="destructive" className="text-[10px]">{changeset.removeCount} removed</Badge>
+                </div>
+              </div>
+              <Button size="sm" onClick={() => openReview(changeset)}>
+                <ClipboardCheck className="h-4 w-4 mr-1" />
+                Review
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && closeReview()}>
+        <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Review dry run: {reviewing?.configName}</DialogTitle>
+            <DialogDescription>
+              Untick products or fields to leave them as they are. Anything not approved is rejected when you apply.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Loading changes...</p>
+          ) : (
+            <Tabs defaultValue="update" className="flex-1 min-h-0 flex flex-col">
+              <TabsList className="grid w-full grid-cols-3">
+                {(['create', 'update', 'remove'] as ChangeKind[]).map(kind => (
+                  <TabsTrigger key={kind} value={kind}>
+                    {KIND_LABELS[kind]} ({items.filter(i => i.kind === kind).length})
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+              {(['create', 'update', 'remove'] as ChangeKind[]).map(kind => (
+                <TabsContent key={kind} value={kind} className="overflow-y-auto flex-1 min-h-0 pr-1">
+                  {renderKind(kind)}
+                </TabsContent>
+              ))}
+            </Tabs>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={discard} disabled={isSubmitting || isLoading}>
+              Discard
+            </Button>
+            <Button onClick={applySelected} disabled={isSubmitting || isLoading || selectedCount === 0}>
+              {isSubmitting ? 'Applying...' : `Apply Selected (${selectedCount})`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -23,6 +23,10 @@ interface CryptoAddress {
   label: string | null;
   logoUrl: string | null;
   isActive: boolean;
+  xpub: string | null;
+  nextDerivationIndex: number;
+  usesHdWallet: boolean;
+  nextAddress: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -40,6 +44,7 @@ export default function CryptoAddressesPage() {
     label: '',
     logoUrl: '',
     isActive: true,
+    xpub: '',
   });
   const [isSaving, setIsSaving] = useState(false);
   const [debugTxId, setDebugTxId] = useState('');
@@ -90,6 +95,7 @@ export default function CryptoAddressesPage() {
         label: address.label || '',
         logoUrl: address.logoUrl || '',
         isActive: address.isActive,
+        xpub: address.xpub || '',
       });
     } else {
       setEditingAddress(null);
@@ -99,6 +105,7 @@ export default function CryptoAddressesPage() {
         label: '',
         logoUrl: '',
         isActive: true,
+        xpub: '',
       });
     }
     setShowDialog(true);
@@ -122,6 +129,7 @@ export default function CryptoAddressesPage() {
             label: formData.label || null,
             logoUrl: formData.logoUrl || null,
             isActive: formData.isActive,
+            xpub: formData.xpub.trim() || null,
           }),
         });
       } else {
@@ -131,6 +139,7 @@ export default function CryptoAddressesPage() {
           body: JSON.stringify({
             ...formData,
             logoUrl: formData.logoUrl || null,
+            xpub: formData.xpub.trim() || null,
           }),
         });
       }
@@ -577,6 +586,9 @@ export default function CryptoAddressesPage() {
                       </div>
                     </div>
                     <div className="flex items-center gap-2">
+                      {address.usesHdWallet && (
+                        <Badge variant="outline">HD Wallet</Badge>
+                      )}
                       <Badge variant={address.isActive ? 'default' : 'secondary'}>
                         {address.isActive ? 'Active' : 'Inactive'}
                       </Badge>
@@ -604,6 +616,17 @@ export default function CryptoAddressesPage() {
                       {address.address}
                     </code>
                   </div>
+                  {address.usesHdWallet && (
+                    <div className="mt-4 space-y-2">
+                      <Label>Next Deposit Address (index {address.nextDerivationIndex})</Label>
+                      <code className="block bg-muted px-3 py-2 rounded text-sm break-all">
+                        {address.nextAddress ?? 'Could not derive an address from the extended public key'}
+                      </code>
+                      <p className="text-xs text-muted-foreground">
+                        Each new deposit is given the next address from the extended public key. Check that it matches receive address #{address.nextDerivationIndex} in your wallet.
+                      </p>
+                    </div>
+                  )}
                   {address.logoUrl && (
                     <div className="mt-4">
                       <Label>Logo URL</Label>
@@ -668,6 +691,19 @@ export default function CryptoAddressesPage() {
                 onChange={(e) => setFormData({ ...formData, address: e.target.value })}
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="xpub">Extended Public Key (Optional)</Label>
+              <Input
+                id="xpub"
+                placeholder="zpub6r..."
+                value={formData.xpub}
+                onChange={(e) => setFormData({ ...formData, xpub: e.target.value })}
+                className="font-mono text-sm"
+              />
+              <p className="text-xs text-muted-foreground">
+                Account-level zpub or xpub for Bitcoin, dgub or xpub for Dogecoin. When set, every deposit gets its own address and payments are matched automatically.
+              </p>
+            </div>
             <div className="space-y-2">
               <Label htmlFor="label">Label (Optional)</Label>
               <Input
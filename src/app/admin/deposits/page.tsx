@@ -14,6 +14,7 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Loader2, CheckCircle2, XCircle, Clock, Eye, AlertCircle, RefreshCw, ExternalLink } from 'lucide-react';
 import { toast } from 'sonner';
+import { DepositQuote } from '@/components/marketplace/deposit-quote';
 
 interface CryptoAddress {
   id: number;
@@ -38,6 +39,12 @@ interface Deposit {
   verificationError: string | null;
   credits: number;
   notes: string | null;
+  quotedUsd: number | null;
+  expectedAmount: number | null;
+  quoteRate: number | null;
+  quoteExpiresAt: string | null;
+  quoteStatus: string | null;
+  paymentSeenAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -321,8 +328,8 @@ export default function AdminDepositsPage() {
                   <CardContent>
                     <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                       <div>
-                        <p className="text-sm text-muted-foreground">Amount</p>
-                        <p className="font-semibold">${deposit.amount.toFixed(2)}</p>
+                        <p className="text-sm text-muted-foreground">Amount Sent</p>
+                        <p className="font-semibold">{deposit.amount.toFixed(8)} {deposit.cryptocurrency.toUpperCase()}</p>
                       </div>
                       <div>
                         <p className="text-sm text-muted-foreground">Credits</p>
@@ -396,8 +403,8 @@ export default function AdminDepositsPage() {
                   </div>
                 </div>
                 <div>
-                  <Label>Amount</Label>
-                  <Input value={`$${selectedDeposit.amount.toFixed(2)}`} readOnly />
+                  <Label>Amount Sent</Label>
+                  <Input value={`${selectedDeposit.amount.toFixed(8)} ${selectedDeposit.cryptocurrency.toUpperCase()}`} readOnly />
                 </div>
                 <div>
                   <Label>Credits</Label>
@@ -405,6 +412,8 @@ export default function AdminDepositsPage() {
                 </div>
               </div>
               
+              <DepositQuote deposit={selectedDeposit} />
+
               <div>
                 <Label>Wallet Address</Label>
                 <Input value={selectedDeposit.walletAddress} readOnly className="font-mono text-sm" />
@@ -100,7 +100,7 @@ export default function ManualCreditPage() {
     try {
       const res = await fetch('/api/admin/users', {
         headers: {
-          Authorization: `Bearer ${localStorage.getItem('bearer_token')}`,
+          Authorization: `Bearer ${localStorage.getItem('auth_token')}`,
         },
       });
       if (res.ok) {
@@ -119,7 +119,7 @@ export default function ManualCreditPage() {
     try {
       const res = await fetch('/api/admin/manual-credit', {
         headers: {
-          Authorization: `Bearer ${localStorage.getItem('bearer_token')}`,
+          Authorization: `Bearer ${localStorage.getItem('auth_token')}`,
         },
       });
       if (res.ok) {
@@ -162,7 +162,7 @@ export default function ManualCreditPage() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${localStorage.getItem('bearer_token')}`,
+          Authorization: `Bearer ${localStorage.getItem('auth_token')}`,
         },
         body: JSON.stringify({
           userId: formData.userId,
@@ -10,8 +10,11 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
-import { Package, Truck, ArrowLeft, Edit } from 'lucide-react';
+import { Package, Truck, ArrowLeft, Edit, History } from 'lucide-react';
 import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+import { getNextStatuses } from '@/lib/order-status';
+import { OrderTimeline, OrderStatusChange } from '@/components/marketplace/order-timeline';
 
 interface Order {
   id: number;
@@ -20,6 +23,7 @@ interface Order {
   totalAmount: number;
   shippingAddress: string;
   notes: string;
+  approvalStatus: string | null;
   createdAt: string;
 }
 
@@ -37,6 +41,8 @@ export default function AdminOrdersPage() {
   const router = useRouter();
   const [orders, setOrders] = useState<Order[]>([]);
   const [tracking, setTracking] = useState<{ [key: number]: TrackingInfo }>({});
+  const [history, setHistory] = useState<Record<number, OrderStatusChange[]>>({});
+  const [expandedHistory, setExpandedHistory] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [isTrackingDialogOpen, setIsTrackingDialogOpen] = useState(false);
@@ -53,6 +59,7 @@ export default function AdminOrdersPage() {
 
   // Status form
   const [newStatus, setNewStatus] = useState('');
+  const [statusNote, setStatusNote] = useState('');
 
   useEffect(() => {
     if (!authLoading && (!user || user.role !== 'admin')) {
@@ -78,6 +85,8 @@ export default function AdminOrdersPage() {
         for (const order of data) {
           fetchTracking(order.id);
         }
+
+        fetchHistory(data.map((order: Order) => order.id));
       }
     } catch (error) {
       console.error('Error fetching orders:', error);
@@ -104,6 +113,29 @@ export default function AdminOrdersPage() {
     }
   };
 
+  const fetchHistory = async (orderIds: number[]) => {
+    if (orderIds.length === 0) return;
+
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/order-status-history?orderIds=${orderIds.join(',')}`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+
+      if (response.ok) {
+        const entries: OrderStatusChange[] = await response.json();
+        const byOrder: Record<number, OrderStatusChange[]> = {};
+        for (const entry of entries) {
+          if (!byOrder[entry.orderId]) byOrder[entry.orderId] = [];
+          byOrder[entry.orderId].push(entry);
+        }
+        setHistory(byOrder);
+      }
+    } catch (error) {
+      console.error('Error fetching order history:', error);
+    }
+  };
+
   const handleAddTracking = async () => {
     if (!selectedOrder || !trackingForm.trackingNumber.trim()) return;
 
@@ -148,15 +180,17 @@ export default function AdminOrdersPage() {
         });
       }
 
-      // Update order status to shipped if adding tracking
-      await fetch(`/api/orders/${selectedOrder.id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify({ status: 'shipped' }),
-      });
+      // Adding tracking ships an order that is being processed
+      if (selectedOrder.status === 'processing') {
+        await fetch(`/api/orders?id=${selectedOrder.id}`, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`,
+          },
+          body: JSON.stringify({ status: 'shipped', statusNote: 'Tracking added' }),
+        });
+      }
 
       setIsTrackingDialogOpen(false);
       fetchOrders();
@@ -178,19 +212,26 @@ export default function AdminOrdersPage() {
     try {
       const token = localStorage.getItem('auth_token');
       
-      await fetch(`/api/orders?id=${selectedOrder.id}`, {
+      const response = await fetch(`/api/orders?id=${selectedOrder.id}`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`,
         },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify({ status: newStatus, statusNote: statusNote.trim() || undefined }),
       });
 
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.error || 'Failed to update status');
+        return;
+      }
+
       setIsStatusDialogOpen(false);
       fetchOrders();
     } catch (error) {
       console.error('Error updating status:', error);
+      toast.error('Failed to update status');
     }
   };
 
@@ -211,7 +252,8 @@ export default function AdminOrdersPage() {
 
   const openStatusDialog = (order: Order) => {
     setSelectedOrder(order);
-    setNewStatus(order.status);
+    setNewStatus(getNextStatuses(order.status)[0] ?? '');
+    setStatusNote('');
     setIsStatusDialogOpen(true);
   };
 
@@ -251,9 +293,14 @@ export default function AdminOrdersPage() {
                       User ID: {order.userId} • {new Date(order.createdAt).toLocaleDateString()}
                     </p>
                   </div>
-                  <Badge variant={order.status === 'delivered' ? 'default' : 'secondary'}>
-                    {order.status}
-                  </Badge>
+                  <div className="flex flex-col items-end gap-1">
+                    <Badge variant={order.status === 'delivered' ? 'default' : 'secondary'}>
+                      {order.status}
+                    </Badge>
+                    {order.approvalStatus === 'awaiting' && order.status === 'pending' && (
+                      <Badge variant="outline">awaiting approval</Badge>
+                    )}
+                  </div>
                 </div>
               </CardHeader>
               <CardContent>
@@ -291,11 +338,19 @@ export default function AdminOrdersPage() {
                   </div>
                 )}
 
+                {expandedHistory === order.id && (
+                  <div className="border rounded-md p-3 mb-4">
+                    <p className="text-sm font-medium mb-3">Status History</p>
+                    <OrderTimeline entries={history[order.id] || []} />
+                  </div>
+                )}
+
                 <div className="flex gap-2">
                   <Button
                     size="sm"
                     variant="outline"
                     onClick={() => openStatusDialog(order)}
+                    disabled={getNextStatuses(order.status).length === 0}
                   >
                     <Edit className="h-4 w-4 mr-2" />
                     Update Status
@@ -308,6 +363,14 @@ export default function AdminOrdersPage() {
                     <Truck className="h-4 w-4 mr-2" />
                     {tracking[order.id] ? 'Edit' : 'Add'} Tracking
                   </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setExpandedHistory(expandedHistory === order.id ? null : order.id)}
+                  >
+                    <History className="h-4 w-4 mr-2" />
+                    {expandedHistory === order.id ? 'Hide' : 'Show'} History
+                  </Button>
                 </div>
               </CardContent>
             </Card>
@@ -399,19 +462,32 @@ export default function AdminOrdersPage() {
           <div className="space-y-4">
             <div>
               <Label htmlFor="status">Order Status</Label>
+              <p className="text-sm text-muted-foreground mb-2">
+                Currently <span className="font-medium">{selectedOrder?.status}</span>
+              </p>
               <Select value={newStatus} onValueChange={setNewStatus}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="pending">Pending</SelectItem>
-                  <SelectItem value="processing">Processing</SelectItem>
-                  <SelectItem value="shipped">Shipped</SelectItem>
-                  <SelectItem value="delivered">Delivered</SelectItem>
-                  <SelectItem value="cancelled">Cancelled</SelectItem>
+                  {getNextStatuses(selectedOrder?.status ?? '').map(status => (
+                    <SelectItem key={status} value={status} className="capitalize">
+                      {status}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
+            <div>
+              <Label htmlFor="statusNote">Note (optional)</Label>
+              <Textarea
+                id="statusNote"
+                value={statusNote}
+                onChange={(e) => setStatusNote(e.target.value)}
+                placeholder="Shown in the order timeline"
+                rows={2}
+              />
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsStatusDialogOpen(false)}>
@@ -4,10 +4,16 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/hooks/use-auth';
 import { AdminTabs } from '@/components/admin/admin-tabs';
-import { Loader2, Wallet, Users, Package, Coins, TicketCheck, Store, Settings, Database, DollarSign, ShoppingCart, Clock, TrendingUp, AlertTriangle, Activity, Eye, Archive, CheckCircle, CreditCard, Percent } from 'lucide-react';
+import { LedgerReconciliationCard } from '@/components/admin/ledger-reconciliation-card';
+import { Loader2, Wallet, Users, Package, Coins, TicketCheck, Store, Settings, Database, DollarSign, ShoppingCart, Clock, TrendingUp, AlertTriangle, Activity, Eye, Archive, CheckCircle, CreditCard, Percent, SlidersHorizontal, Trash2, TrendingDown } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { toast } from 'sonner';
 
 interface AdminStats {
   totalRevenue: number;
@@ -34,9 +40,43 @@ interface LowStockProduct {
   name: string;
   stockQuantity: number;
   totalVariantsStock: number;
+  totalStock: number;
+  threshold: number;
   price: number;
 }
 
+interface StockThreshold {
+  id: number;
+  productId: number | null;
+  productName: string | null;
+  mainCategory: string | null;
+  threshold: number;
+}
+
+interface PriceAlert {
+  id: number;
+  productId: number;
+  productName: string;
+  variantType: string | null;
+  variantName: string | null;
+  price: number;
+  previousPrice: number | null;
+  changePercent: number | null;
+  configName: string | null;
+  createdAt: string;
+}
+
+interface PriceAlertConfig {
+  id: number;
+  name: string;
+  priceAlertPercent: number | null;
+}
+
+const MAIN_CATEGORIES = [
+  'Cartridges', 'Disposables', 'Concentrates', 'Edibles',
+  'Flower', 'Pre Rolls', 'Accessories', 'Topicals', 'BYOB'
+];
+
 export default function AdminDashboard() {
   const { user, isLoading } = useAuth();
   const router = useRouter();
@@ -44,6 +84,16 @@ export default function AdminDashboard() {
   const [isLoadingStats, setIsLoadingStats] = useState(true);
   const [recentOrders, setRecentOrders] = useState<RecentOrder[]>([]);
   const [lowStockProducts, setLowStockProducts] = useState<LowStockProduct[]>([]);
+  const [thresholds, setThresholds] = useState<StockThreshold[]>([]);
+  const [defaultThreshold, setDefaultThreshold] = useState(10);
+  const [isThresholdDialogOpen, setIsThresholdDialogOpen] = useState(false);
+  const [thresholdCategory, setThresholdCategory] = useState(MAIN_CATEGORIES[0]);
+  const [thresholdValue, setThresholdValue] = useState('');
+  const [priceAlerts, setPriceAlerts] = useState<PriceAlert[]>([]);
+  const [priceAlertConfigs, setPriceAlertConfigs] = useState<PriceAlertConfig[]>([]);
+  const [defaultAlertPercent, setDefaultAlertPercent] = useState(10);
+  const [alertPercentInputs, setAlertPercentInputs] = useState<Record<number, string>>({});
+  const [isPriceAlertDialogOpen, setIsPriceAlertDialogOpen] = useState(false);
 
   useEffect(() => {
     if (!isLoading) {
@@ -73,6 +123,29 @@ export default function AdminDashboard() {
         setRecentOrders(ordersData);
       }
 
+      // Low stock uses each product's configured threshold
+      let lowStock: LowStockProduct[] = [];
+      const alertsRes = await fetch('/api/admin/stock-alerts');
+      if (alertsRes.ok) {
+        const alertsData = await alertsRes.json();
+        lowStock = alertsData.lowStock;
+        setLowStockProducts(lowStock.slice(0, 3)); // Only show 3 items
+        setThresholds(alertsData.thresholds);
+        setDefaultThreshold(alertsData.defaultThreshold);
+      }
+
+      // Supplier price moves big enough to revisit markups
+      const priceAlertsRes = await fetch('/api/admin/price-alerts?limit=5');
+      if (priceAlertsRes.ok) {
+        const priceAlertsData = await priceAlertsRes.json();
+        setPriceAlerts(priceAlertsData.alerts);
+        setPriceAlertConfigs(priceAlertsData.configs);
+        setDefaultAlertPercent(priceAlertsData.defaultPercent);
+        setAlertPercentInputs(Object.fromEntries(priceAlertsData.configs.map((c: PriceAlertConfig) => [
+          c.id, c.priceAlertPercent !== null ? c.priceAlertPercent.toString() : '',
+        ])));
+      }
+
       // Fetch all products to calculate statistics
       const productsRes = await fetch('/api/products?limit=10000');
       if (productsRes.ok) {
@@ -86,21 +159,6 @@ export default function AdminDashboard() {
         }).length;
         const outOfStock = totalProducts - inStock;
         
-        // Find low stock products (stock between 1-10)
-        const lowStock = productsData
-          .filter((p: any) => {
-            const totalStock = p.stockQuantity + (p.totalVariantsStock || 0);
-            return totalStock > 0 && totalStock <= 10;
-          })
-          .sort((a: any, b: any) => {
-            const stockA = a.stockQuantity + (a.totalVariantsStock || 0);
-            const stockB = b.stockQuantity + (b.totalVariantsStock || 0);
-            return stockA - stockB;
-          })
-          .slice(0, 3); // Only show 3 items
-        
-        setLowStockProducts(lowStock);
-        
         // Update stats with product counts
         setStats(prev => prev ? {
           ...prev,
@@ -117,6 +175,96 @@ export default function AdminDashboard() {
     }
   };
 
+  const saveCategoryThreshold = async () => {
+    const threshold = parseInt(thresholdValue);
+    if (isNaN(threshold) || threshold < 0) {
+      toast.error('Enter a threshold of 0 or more');
+      return;
+    }
+
+    try {
+      const response = await fetch('/api/admin/stock-alerts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mainCategory: thresholdCategory, threshold }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.error || 'Failed to save threshold');
+        return;
+      }
+
+      setThresholdValue('');
+      toast.success(`Low-stock threshold for ${thresholdCategory} set to ${threshold}`);
+      fetchAllData();
+    } catch (error) {
+      console.error('Failed to save threshold:', error);
+      toast.error('Failed to save threshold');
+    }
+  };
+
+  const removeThreshold = async (id: number) => {
+    try {
+      const response = await fetch(`/api/admin/stock-alerts?id=${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        toast.error('Failed to remove threshold');
+        return;
+      }
+      fetchAllData();
+    } catch (error) {
+      console.error('Failed to remove threshold:', error);
+      toast.error('Failed to remove threshold');
+    }
+  };
+
+  const dismissPriceAlerts = async () => {
+    try {
+      const response = await fetch('/api/admin/price-alerts', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      if (!response.ok) {
+        toast.error('Failed to dismiss price alerts');
+        return;
+      }
+      setPriceAlerts([]);
+    } catch (error) {
+      console.error('Failed to dismiss price alerts:', error);
+      toast.error('Failed to dismiss price alerts');
+    }
+  };
+
+  const saveAlertPercent = async (config: PriceAlertConfig) => {
+    const input = (alertPercentInputs[config.id] ?? '').trim();
+    const percent = input === '' ? null : parseFloat(input);
+    if (percent !== null && (isNaN(percent) || percent <= 0)) {
+      toast.error('Enter a percentage above 0, or leave it empty for the default');
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/api-configs?id=${config.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ priceAlertPercent: percent }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.error || 'Failed to save alert percentage');
+        return;
+      }
+
+      toast.success(`${config.name} alerts at ${percent ?? defaultAlertPercent}%`);
+      fetchAllData();
+    } catch (error) {
+      console.error('Failed to save alert percentage:', error);
+      toast.error('Failed to save alert percentage');
+    }
+  };
+
   const getStatusColor = (status: string) => {
     const colors: Record<string, string> = {
       pending: 'bg-yellow-500/10 text-yellow-700 dark:text-yellow-400 border-yellow-500/20',
@@ -281,7 +429,7 @@ export default function AdminDashboard() {
                       {stats.lowStockProducts || 0}
                     </div>
                     <p className="text-xs text-muted-foreground mt-1">
-                      10 or fewer items
+                      At or below their alert threshold
                     </p>
                   </CardContent>
                 </Card>
@@ -351,29 +499,38 @@ export default function AdminDashboard() {
                     <AlertTriangle className="h-4 w-4 text-orange-500" />
                     Low Stock Alert
                   </CardTitle>
-                  <Button variant="ghost" size="sm" onClick={() => router.push('/admin/products')} className="h-8 text-xs">
-                    <Eye className="h-3 w-3 mr-1" />
-                    View All
-                  </Button>
+                  <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => setIsThresholdDialogOpen(true)} className="h-8 text-xs">
+                      <SlidersHorizontal className="h-3 w-3 mr-1" />
+                      Thresholds
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => router.push('/admin/products')} className="h-8 text-xs">
+                      <Eye className="h-3 w-3 mr-1" />
+                      View All
+                    </Button>
+                  </div>
                 </div>
               </CardHeader>
               <CardContent>
                 <div className="space-y-2">
                   {lowStockProducts.length > 0 ? (
-                    lowStockProducts.map((product) => {
-                      const totalStock = product.stockQuantity + (product.totalVariantsStock || 0);
-                      return (
-                        <div key={product.id} className="flex items-center justify-between p-2 border border-border rounded-md hover:bg-muted/50 transition-colors">
-                          <div className="flex-1 min-w-0">
-                            <p className="font-medium text-sm line-clamp-1">{product.name}</p>
-                            <p className="text-xs text-muted-foreground">${product.price.toFixed(2)}</p>
-                          </div>
-                          <Badge variant="outline" className="bg-orange-500/10 text-orange-700 dark:text-orange-400 border-orange-500/20 ml-2 text-xs py-0 h-5 shrink-0">
-                            {totalStock} left
-                          </Badge>
+                    lowStockProducts.map((product) => (
+                      <div
+                        key={product.id}
+                        onClick={() => router.push(`/admin/products/${product.id}`)}
+                        className="flex items-center justify-between p-2 border border-border rounded-md hover:bg-muted/50 transition-colors cursor-pointer"
+                      >
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium text-sm line-clamp-1">{product.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            ${product.price.toFixed(2)} · alert at {product.threshold}
+                          </p>
                         </div>
-                      );
-                    })
+                        <Badge variant="outline" className="bg-orange-500/10 text-orange-700 dark:text-orange-400 border-orange-500/20 ml-2 text-xs py-0 h-5 shrink-0">
+                          {product.totalStock} left
+                        </Badge>
+                      </div>
+                    ))
                   ) : (
                     <p className="text-sm text-muted-foreground text-center py-3">No low stock items</p>
                   )}
@@ -382,6 +539,70 @@ export default function AdminDashboard() {
             </Card>
           </div>
 
+          {/* Supplier Price Alerts */}
+          <Card className="mb-6">
+            <CardHeader className="pb-3">
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-base font-semibold flex items-center gap-2">
+                  <TrendingDown className="h-4 w-4" />
+                  Supplier Price Changes
+                </CardTitle>
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => setIsPriceAlertDialogOpen(true)} className="h-8 text-xs">
+                    <SlidersHorizontal className="h-3 w-3 mr-1" />
+                    Alert Levels
+                  </Button>
+                  {priceAlerts.length > 0 && (
+                    <Button variant="ghost" size="sm" onClick={dismissPriceAlerts} className="h-8 text-xs">
+                      <CheckCircle className="h-3 w-3 mr-1" />
+                      Dismiss All
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => router.push('/admin/markups')} className="h-8 text-xs">
+                    <Percent className="h-3 w-3 mr-1" />
+                    Markups
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {priceAlerts.length > 0 ? (
+                  priceAlerts.map((alert) => (
+                    <div
+                      key={alert.id}
+                      onClick={() => router.push(`/admin/products/${alert.productId}`)}
+                      className="flex items-center justify-between p-2 border border-border rounded-md hover:bg-muted/50 transition-colors cursor-pointer"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-sm line-clamp-1">
+                          {alert.productName}
+                          {alert.variantName && <span className="text-muted-foreground"> · {alert.variantName}</span>}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          ${alert.previousPrice?.toFixed(2)} → ${alert.price.toFixed(2)}
+                          {alert.configName && ` · ${alert.configName}`} · {new Date(alert.createdAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <Badge
+                        variant="outline"
+                        className={`ml-2 text-xs py-0 h-5 shrink-0 ${(alert.changePercent ?? 0) > 0
+                          ? 'bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/20'
+                          : 'bg-green-500/10 text-green-700 dark:text-green-400 border-green-500/20'}`}
+                      >
+                        {(alert.changePercent ?? 0) > 0 ? '+' : ''}{alert.changePercent}%
+                      </Badge>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-sm text-muted-foreground text-center py-3">No unusual supplier price changes</p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <LedgerReconciliationCard />
+
           {/* Quick Actions */}
           <Card>
             <CardHeader>
@@ -407,6 +628,112 @@ export default function AdminDashboard() {
           </Card>
         </div>
       </div>
+
+      <Dialog open={isThresholdDialogOpen} onOpenChange={setIsThresholdDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Low-Stock Thresholds</DialogTitle>
+            <DialogDescription>
+              Products at or below their threshold show up as low stock. A product&apos;s own threshold
+              (set on its edit page) wins over its category&apos;s; everything else uses {defaultThreshold}.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <Label>Category</Label>
+                <Select value={thresholdCategory} onValueChange={setThresholdCategory}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MAIN_CATEGORIES.map(category => (
+                      <SelectItem key={category} value={category}>{category}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="w-28">
+                <Label htmlFor="thresholdValue">Alert at</Label>
+                <Input
+                  id="thresholdValue"
+                  type="number"
+                  min="0"
+                  value={thresholdValue}
+                  onChange={(e) => setThresholdValue(e.target.value)}
+                  placeholder={defaultThreshold.toString()}
+                />
+              </div>
+              <Button onClick={saveCategoryThreshold}>Save</Button>
+            </div>
+
+            <div className="space-y-2">
+              {thresholds.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-3">No custom thresholds yet</p>
+              ) : (
+                thresholds.map(threshold => (
+                  <div key={threshold.id} className="flex items-center justify-between p-2 border border-border rounded-md text-sm">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Badge variant="outline" className="shrink-0">
+                        {threshold.productId ? 'Product' : 'Category'}
+                      </Badge>
+                      <span className="truncate">
+                        {threshold.productId ? threshold.productName || `#${threshold.productId}` : threshold.mainCategory}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <span className="font-medium">{threshold.threshold}</span>
+                      <Button variant="ghost" size="sm" onClick={() => removeThreshold(threshold.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isPriceAlertDialogOpen} onOpenChange={setIsPriceAlertDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Price Alert Levels</DialogTitle>
+            <DialogDescription>
+              A sync that moves a price up or down by at least this much raises an alert. Leave a
+              source empty to use the default of {defaultAlertPercent}%.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            {priceAlertConfigs.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-3">No API sources configured</p>
+            ) : (
+              priceAlertConfigs.map(config => (
+                <div key={config.id} className="flex items-center justify-between gap-2 p-2 border border-border rounded-md text-sm">
+                  <span className="truncate">{config.name}</span>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      className="w-24 h-8"
+                      value={alertPercentInputs[config.id] ?? ''}
+                      onChange={(e) => setAlertPercentInputs({ ...alertPercentInputs, [config.id]: e.target.value })}
+                      placeholder={defaultAlertPercent.toString()}
+                    />
+                    <span className="text-muted-foreground">%</span>
+                    <Button size="sm" variant="outline" onClick={() => saveAlertPercent(config)}>
+                      Save
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -8,7 +8,9 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Package, Search, Edit2, Save, X, Trash2, ArrowLeft } from 'lucide-react';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Package, Search, Edit2, Save, X, Trash2, ArrowLeft, AlertTriangle, EyeOff } from 'lucide-react';
 import { toast } from 'sonner';
 import { useInactivityLogout } from '@/hooks/use-inactivity-logout';
 import { InactivityWarning } from '@/components/auth/inactivity-warning';
@@ -30,28 +32,148 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { MAIN_CATEGORIES } from '@/lib/category-rules';
+
+type OverrideField = 'name' | 'description' | 'brand' | 'volume' | 'mainCategory' | 'subCategory' | 'images';
+
+interface CorrectionConflict {
+  field: OverrideField;
+  previous: unknown;
+  current: unknown;
+  detectedAt: string;
+}
+
+interface ProductCorrection {
+  id: number;
+  sourceProductId: string;
+  correctedCategory: string | null;
+  correctedName: string | null;
+  correctedDescription: string | null;
+  correctedBrand: string | null;
+  correctedVolume: string | null;
+  correctedSubCategory: string | null;
+  correctedImages: string[] | null;
+  priceFloor: number | null;
+  priceCeiling: number | null;
+  isHidden: boolean;
+  notes: string | null;
+  upstreamValues: Partial<Record<OverrideField, unknown>>;
+  conflicts: CorrectionConflict[];
+  overriddenFields: OverrideField[];
+}
 
 interface Product {
   id: number;
   name: string;
+  description: string | null;
   category: string;
   mainCategory: string;
+  subCategory: string | null;
   price: number;
   stockQuantity: number;
   inStock: boolean;
+  isAvailable: boolean;
   hasCorrection: boolean;
   correctedCategory: string | null;
   correctedName: string | null;
   brand: string | null;
+  volume: string | null;
   sourceType: string;
   sourceId: string | null;
+  correction: ProductCorrection | null;
 }
 
-interface ProductCorrection {
-  id: number;
-  sourceProductId: string;
-  correctedCategory: string | null;
-  correctedName: string | null;
+// Text inputs as typed; blank means the feed's value stands
+interface CorrectionForm {
+  correctedName: string;
+  correctedDescription: string;
+  correctedBrand: string;
+  correctedVolume: string;
+  correctedCategory: string;
+  correctedSubCategory: string;
+  correctedImages: string;
+  priceFloor: string;
+  priceCeiling: string;
+  isHidden: boolean;
+  notes: string;
+}
+
+const EMPTY_FORM: CorrectionForm = {
+  correctedName: '',
+  correctedDescription: '',
+  correctedBrand: '',
+  correctedVolume: '',
+  correctedCategory: '',
+  correctedSubCategory: '',
+  correctedImages: '',
+  priceFloor: '',
+  priceCeiling: '',
+  isHidden: false,
+  notes: '',
+};
+
+const FIELD_LABELS: Record<OverrideField, string> = {
+  name: 'Name',
+  description: 'Description',
+  brand: 'Brand',
+  volume: 'Volume',
+  mainCategory: 'Category',
+  subCategory: 'Sub Category',
+  images: 'Images',
+};
+
+// Clearing a field's override is done by nulling the column that holds it
+const FIELD_COLUMNS: Record<OverrideField, keyof CorrectionForm> = {
+  name: 'correctedName',
+  description: 'correctedDescription',
+  brand: 'correctedBrand',
+  volume: 'correctedVolume',
+  mainCategory: 'correctedCategory',
+  subCategory: 'correctedSubCategory',
+  images: 'correctedImages',
+};
+
+const NO_OVERRIDE = '__feed__';
+
+function formatFeedValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (Array.isArray(value)) return `${value.length} ${value.length === 1 ? 'image' : 'images'}`;
+  const text = String(value);
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+}
+
+function toForm(correction: ProductCorrection | null): CorrectionForm {
+  if (!correction) return EMPTY_FORM;
+  return {
+    correctedName: correction.correctedName ?? '',
+    correctedDescription: correction.correctedDescription ?? '',
+    correctedBrand: correction.correctedBrand ?? '',
+    correctedVolume: correction.correctedVolume ?? '',
+    correctedCategory: correction.correctedCategory ?? '',
+    correctedSubCategory: correction.correctedSubCategory ?? '',
+    correctedImages: (correction.correctedImages ?? []).join('\n'),
+    priceFloor: correction.priceFloor !== null ? String(correction.priceFloor) : '',
+    priceCeiling: correction.priceCeiling !== null ? String(correction.priceCeiling) : '',
+    isHidden: correction.isHidden,
+    notes: correction.notes ?? '',
+  };
+}
+
+function toPayload(form: CorrectionForm) {
+  const images = form.correctedImages.split('\n').map(url => url.trim()).filter(Boolean);
+  return {
+    correctedName: form.correctedName.trim() || null,
+    correctedDescription: form.correctedDescription.trim() || null,
+    correctedBrand: form.correctedBrand.trim() || null,
+    correctedVolume: form.correctedVolume.trim() || null,
+    correctedCategory: form.correctedCategory || null,
+    correctedSubCategory: form.correctedSubCategory.trim() || null,
+    correctedImages: images.length > 0 ? images : null,
+    priceFloor: form.priceFloor ? parseFloat(form.priceFloor) : null,
+    priceCeiling: form.priceCeiling ? parseFloat(form.priceCeiling) : null,
+    isHidden: form.isHidden,
+    notes: form.notes.trim() || null,
+  };
 }
 
 export default function ProductCorrectionsPage() {
@@ -61,9 +183,10 @@ export default function ProductCorrectionsPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [categoryFilter, setCategoryFilter] = useState<string>('all');
+  const [conflictsOnly, setConflictsOnly] = useState(false);
+  const [conflictCount, setConflictCount] = useState(0);
   const [editingProductId, setEditingProductId] = useState<number | null>(null);
-  const [editedCategory, setEditedCategory] = useState('');
-  const [editedName, setEditedName] = useState('');
+  const [form, setForm] = useState<CorrectionForm>(EMPTY_FORM);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [productToDelete, setProductToDelete] = useState<number | null>(null);
 
@@ -79,7 +202,7 @@ export default function ProductCorrectionsPage() {
     if (user?.role === 'admin') {
       fetchProducts();
     }
-  }, [user, searchQuery, categoryFilter]);
+  }, [user, searchQuery, categoryFilter, conflictsOnly]);
 
   const fetchProducts = async () => {
     try {
@@ -88,10 +211,20 @@ export default function ProductCorrectionsPage() {
       params.append('limit', '100');
       if (searchQuery) params.append('search', searchQuery);
       if (categoryFilter && categoryFilter !== 'all') params.append('category', categoryFilter);
+      if (conflictsOnly) params.append('conflicts', 'true');
 
-      const response = await fetch(`/api/admin/products/list?${params.toString()}`, {
-        headers: { 'Authorization': `Bearer ${token}` }
-      });
+      const [response, conflictsResponse] = await Promise.all([
+        fetch(`/api/admin/products/list?${params.toString()}`, {
+          headers: { 'Authorization': `Bearer ${token}` }
+        }),
+        fetch('/api/admin/product-corrections?conflicts=true&limit=100', {
+          headers: { 'Authorization': `Bearer ${token}` }
+        }),
+      ]);
+
+      if (conflictsResponse.ok) {
+        setConflictCount((await conflictsResponse.json()).length);
+      }
 
       if (response.ok) {
         const data = await response.json();
@@ -111,14 +244,37 @@ export default function ProductCorrectionsPage() {
 
   const startEditing = (product: Product) => {
     setEditingProductId(product.id);
-    setEditedCategory(product.correctedCategory || product.mainCategory);
-    setEditedName(product.correctedName || product.name);
+    setForm(toForm(product.correction));
   };
 
   const cancelEditing = () => {
     setEditingProductId(null);
-    setEditedCategory('');
-    setEditedName('');
+    setForm(EMPTY_FORM);
+  };
+
+  const updateCorrection = async (correction: ProductCorrection, body: Record<string, unknown>, successMessage: string) => {
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/admin/product-corrections?id=${correction.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (response.ok) {
+        toast.success(successMessage);
+        fetchProducts();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to update correction');
+      }
+    } catch (error) {
+      console.error('Failed to update correction:', error);
+      toast.error('Failed to update correction');
+    }
   };
 
   const saveCorrection = async (product: Product) => {
@@ -127,19 +283,15 @@ export default function ProductCorrectionsPage() {
       return;
     }
 
+    const payload = toPayload(form);
+    if (payload.priceFloor !== null && payload.priceCeiling !== null && payload.priceFloor > payload.priceCeiling) {
+      toast.error('The price floor cannot be above the ceiling');
+      return;
+    }
+
     try {
       const token = localStorage.getItem('auth_token');
-
-      // Check if correction exists
-      const existingCorrection = await fetch(
-        `/api/admin/product-corrections?search=${product.sourceId}`,
-        {
-          headers: { 'Authorization': `Bearer ${token}` }
-        }
-      );
-
-      const existingData = await existingCorrection.json();
-      const correction = existingData.find((c: ProductCorrection) => c.sourceProductId === product.sourceId);
+      const correction = product.correction;
 
       let response;
       if (correction) {
@@ -150,10 +302,7 @@ export default function ProductCorrectionsPage() {
             'Content-Type': 'application/json',
             'Authorization': `Bearer ${token}`
           },
-          body: JSON.stringify({
-            correctedCategory: editedCategory !== product.mainCategory ? editedCategory : null,
-            correctedName: editedName !== product.name ? editedName : null,
-          }),
+          body: JSON.stringify(payload),
         });
       } else {
         // Create new correction
@@ -165,8 +314,7 @@ export default function ProductCorrectionsPage() {
           },
           body: JSON.stringify({
             sourceProductId: product.sourceId,
-            correctedCategory: editedCategory !== product.mainCategory ? editedCategory : null,
-            correctedName: editedName !== product.name ? editedName : null,
+            ...payload,
           }),
         });
       }
@@ -196,18 +344,7 @@ export default function ProductCorrectionsPage() {
     try {
       const token = localStorage.getItem('auth_token');
       const product = products.find(p => p.id === productToDelete);
-      if (!product || !product.sourceId) return;
-
-      // Find the correction ID
-      const existingCorrection = await fetch(
-        `/api/admin/product-corrections?search=${product.sourceId}`,
-        {
-          headers: { 'Authorization': `Bearer ${token}` }
-        }
-      );
-
-      const existingData = await existingCorrection.json();
-      const correction = existingData.find((c: ProductCorrection) => c.sourceProductId === product.sourceId);
+      const correction = product?.correction;
 
       if (correction) {
         const response = await fetch(`/api/admin/product-corrections?id=${correction.id}`, {
@@ -231,7 +368,7 @@ export default function ProductCorrectionsPage() {
     }
   };
 
-  const uniqueCategories = Array.from(new Set(products.map(p => p.mainCategory))).sort();
+  const uniqueCategories = Array.from(new Set([...MAIN_CATEGORIES, ...products.map(p => p.mainCategory)])).sort();
 
   if (authLoading || isLoading) {
     return (
@@ -260,12 +397,26 @@ export default function ProductCorrectionsPage() {
               <div>
                 <h1 className="text-4xl font-bold">Product Corrections</h1>
                 <p className="text-muted-foreground mt-2">
-                  Manually correct product categories and names. Changes persist across API syncs.
+                  Override product details from the feed, limit prices or hide products. Corrections are re-applied on every API sync.
                 </p>
               </div>
             </div>
           </div>
 
+          {conflictCount > 0 && (
+            <div className="flex items-center justify-between gap-4 border border-orange-300 bg-orange-50 dark:bg-orange-950 rounded-lg p-4 mb-4">
+              <div className="flex items-center gap-2 text-sm">
+                <AlertTriangle className="h-4 w-4 text-orange-600" />
+                <span>
+                  The feed changed underneath {conflictCount} {conflictCount === 1 ? 'correction' : 'corrections'}. Check the overrides are still right.
+                </span>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => setConflictsOnly(!conflictsOnly)}>
+                {conflictsOnly ? 'Show All' : 'Review'}
+              </Button>
+            </div>
+          )}
+
           {/* Filters */}
           <Card>
             <CardContent className="pt-6">
@@ -306,7 +457,7 @@ export default function ProductCorrectionsPage() {
           <CardHeader>
             <CardTitle>API-Imported Products ({products.length})</CardTitle>
             <CardDescription>
-              Click Edit to correct category or name. Changes apply to future syncs. Only showing products imported from API.
+              Click Edit to override fields; leave a field blank to keep the feed's value. Changes apply from the next sync. Only showing products imported from API.
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -338,61 +489,207 @@ export default function ProductCorrectionsPage() {
                       <div className="flex items-start justify-between gap-4">
                         <div className="flex-1 space-y-3">
                           {/* Product Name */}
-                          {isEditing ? (
-                            <div className="space-y-2">
-                              <label className="text-xs font-medium text-muted-foreground">Product Name</label>
-                              <Input
-                                value={editedName}
-                                onChange={(e) => setEditedName(e.target.value)}
-                                className="font-semibold"
-                              />
-                            </div>
-                          ) : (
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <Package className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                            <p className="font-semibold">
+                              {product.name}
+                            </p>
+                            <span className="text-xs text-muted-foreground">
+                              (ID: {product.sourceId})
+                            </span>
+                            {product.correction?.isHidden && (
+                              <Badge variant="secondary" className="text-xs">
+                                <EyeOff className="h-3 w-3 mr-1" />
+                                Hidden
+                              </Badge>
+                            )}
+                          </div>
+
+                          {/* Category */}
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <Badge variant={product.hasCorrection ? "default" : "outline"}>
+                              {product.mainCategory}{product.subCategory && ` / ${product.subCategory}`}
+                            </Badge>
+                            {product.brand && (
+                              <span className="text-xs text-muted-foreground">• Brand: {product.brand}</span>
+                            )}
+                            {product.volume && (
+                              <span className="text-xs text-muted-foreground">• {product.volume}</span>
+                            )}
+                            {!product.inStock && (
+                              <Badge variant="destructive" className="text-xs">Out of Stock</Badge>
+                            )}
+                          </div>
+
+                          {/* Overridden fields, with what the feed says underneath */}
+                          {product.correction && !isEditing && (
                             <div className="flex items-center gap-2 flex-wrap">
-                              <Package className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                              <p className="font-semibold">
-                                {product.correctedName || product.name}
-                              </p>
-                              {product.correctedName && (
-                                <Badge variant="secondary" className="text-xs">Name Corrected</Badge>
+                              <span className="text-xs text-muted-foreground">Overrides:</span>
+                              {product.correction.overriddenFields.map(field => (
+                                <Badge
+                                  key={field}
+                                  variant="secondary"
+                                  className="text-xs"
+                                  title={field in product.correction!.upstreamValues
+                                    ? `Feed: ${formatFeedValue(product.correction!.upstreamValues[field])}`
+                                    : 'Feed value not seen yet - applies from the next sync'}
+                                >
+                                  {FIELD_LABELS[field]}
+                                </Badge>
+                              ))}
+                              {(product.correction.priceFloor !== null || product.correction.priceCeiling !== null) && (
+                                <Badge variant="secondary" className="text-xs">
+                                  Price {product.correction.priceFloor !== null ? `$${product.correction.priceFloor.toFixed(2)}` : '…'}
+                                  {' – '}
+                                  {product.correction.priceCeiling !== null ? `$${product.correction.priceCeiling.toFixed(2)}` : '…'}
+                                </Badge>
                               )}
-                              <span className="text-xs text-muted-foreground">
-                                (ID: {product.sourceId})
-                              </span>
                             </div>
                           )}
 
-                          {/* Category */}
-                          {isEditing ? (
-                            <div className="space-y-2">
-                              <label className="text-xs font-medium text-muted-foreground">Category</label>
-                              <Select value={editedCategory} onValueChange={setEditedCategory}>
-                                <SelectTrigger className="w-[250px]">
-                                  <SelectValue />
-                                </SelectTrigger>
-                                <SelectContent>
-                                  {uniqueCategories.map(cat => (
-                                    <SelectItem key={cat} value={cat}>{cat}</SelectItem>
-                                  ))}
-                                </SelectContent>
-                              </Select>
+                          {product.correction && product.correction.conflicts.length > 0 && !isEditing && (
+                            <div className="border border-orange-300 bg-orange-50 dark:bg-orange-950 rounded-md p-3 space-y-2">
+                              {product.correction.conflicts.map(conflict => (
+                                <div key={conflict.field} className="flex items-center justify-between gap-4 text-xs">
+                                  <span>
+                                    <AlertTriangle className="h-3 w-3 text-orange-600 inline mr-1" />
+                                    Feed {FIELD_LABELS[conflict.field].toLowerCase()} changed: {formatFeedValue(conflict.previous)} → {formatFeedValue(conflict.current)}
+                                  </span>
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="h-7 text-xs"
+                                    onClick={() => updateCorrection(
+                                      product.correction!,
+                                      { [FIELD_COLUMNS[conflict.field]]: null },
+                                      `${FIELD_LABELS[conflict.field]} now follows the feed from the next sync`
+                                    )}
+                                  >
+                                    Use Feed Value
+                                  </Button>
+                                </div>
+                              ))}
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="h-7 text-xs"
+                                onClick={() => updateCorrection(product.correction!, { resolveConflicts: true }, 'Overrides kept')}
+                              >
+                                Keep Overrides
+                              </Button>
                             </div>
-                          ) : (
-                            <div className="flex items-center gap-2 flex-wrap">
-                              <Badge variant={product.hasCorrection ? "default" : "outline"}>
-                                {product.correctedCategory || product.mainCategory}
-                              </Badge>
-                              {product.correctedCategory && (
-                                <span className="text-xs text-muted-foreground">
-                                  (was: {product.mainCategory})
-                                </span>
-                              )}
-                              {product.brand && (
-                                <span className="text-xs text-muted-foreground">• Brand: {product.brand}</span>
-                              )}
-                              {!product.inStock && (
-                                <Badge variant="destructive" className="text-xs">Out of Stock</Badge>
-                              )}
+                          )}
+
+                          {isEditing && (
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                              <div className="space-y-1">
+                                <label className="text-xs font-medium text-muted-foreground">Name</label>
+                                <Input
+                                  value={form.correctedName}
+                                  onChange={(e) => setForm({ ...form, correctedName: e.target.value })}
+                                  placeholder="Feed value"
+                                />
+                              </div>
+                              <div className="space-y-1">
+                                <label className="text-xs font-medium text-muted-foreground">Brand</label>
+                                <Input
+                                  value={form.correctedBrand}
+                                  onChange={(e) => setForm({ ...form, correctedBrand: e.target.value })}
+                                  placeholder="Feed value"
+                                />
+                              </div>
+                              <div className="space-y-1">
+                                <label className="text-xs font-medium text-muted-foreground">Category</label>
+                                <Select
+                                  value={form.correctedCategory || NO_OVERRIDE}
+                                  onValueChange={(value) => setForm({ ...form, correctedCategory: value === NO_OVERRIDE ? '' : value })}
+                                >
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value={NO_OVERRIDE}>Feed value</SelectItem>
+                                    {uniqueCategories.map(cat => (
+                                      <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                              <div className="space-y-1">
+                                <label className="text-xs font-medium text-muted-foreground">Sub Category</label>
+                                <Input
+                                  value={form.correctedSubCategory}
+                                  onChange={(e) => setForm({ ...form, correctedSubCategory: e.target.value })}
+                                  placeholder="Feed value"
+                                />
+                              </div>
+                              <div className="space-y-1">
+                                <label className="text-xs font-medium text-muted-foreground">Volume</label>
+                                <Input
+                                  value={form.correctedVolume}
+                                  onChange={(e) => setForm({ ...form, correctedVolume: e.target.value })}
+                                  placeholder="Feed value"
+                                />
+                              </div>
+                              <div className="grid grid-cols-2 gap-2">
+                                <div className="space-y-1">
+                                  <label className="text-xs font-medium text-muted-foreground">Price Floor</label>
+                                  <Input
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    value={form.priceFloor}
+                                    onChange={(e) => setForm({ ...form, priceFloor: e.target.value })}
+                                    placeholder="None"
+                                  />
+                                </div>
+                                <div className="space-y-1">
+                                  <label className="text-xs font-medium text-muted-foreground">Price Ceiling</label>
+                                  <Input
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    value={form.priceCeiling}
+                                    onChange={(e) => setForm({ ...form, priceCeiling: e.target.value })}
+                                    placeholder="None"
+                                  />
+                                </div>
+                              </div>
+                              <div className="space-y-1 md:col-span-2">
+                                <label className="text-xs font-medium text-muted-foreground">Description</label>
+                                <Textarea
+                                  value={form.correctedDescription}
+                                  onChange={(e) => setForm({ ...form, correctedDescription: e.target.value })}
+                                  placeholder="Feed value"
+                                  rows={3}
+                                />
+                              </div>
+                              <div className="space-y-1 md:col-span-2">
+                                <label className="text-xs font-medium text-muted-foreground">Images (one URL per line, first is the main image)</label>
+                                <Textarea
+                                  value={form.correctedImages}
+                                  onChange={(e) => setForm({ ...form, correctedImages: e.target.value })}
+                                  placeholder="Feed images"
+                                  rows={2}
+                                  className="font-mono text-xs"
+                                />
+                              </div>
+                              <div className="space-y-1 md:col-span-2">
+                                <label className="text-xs font-medium text-muted-foreground">Notes</label>
+                                <Input
+                                  value={form.notes}
+                                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                                  placeholder="Why this correction exists"
+                                />
+                              </div>
+                              <div className="flex items-center gap-2">
+                                <Switch
+                                  id={`hidden-${product.id}`}
+                                  checked={form.isHidden}
+                                  onCheckedChange={(checked) => setForm({ ...form, isHidden: checked })}
+                                />
+                                <label htmlFor={`hidden-${product.id}`} className="text-sm">Hide this product</label>
+                              </div>
                             </div>
                           )}
                         </div>
@@ -448,8 +745,8 @@ export default function ProductCorrectionsPage() {
           <AlertDialogHeader>
             <AlertDialogTitle>Remove Correction</AlertDialogTitle>
             <AlertDialogDescription>
-              This will remove the manual correction and revert to the original API values.
-              The product will use the original category and name from the next sync.
+              This will remove all overrides, price limits and the hidden flag for this product.
+              It will use the values from the API feed again from the next sync.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -43,6 +43,8 @@ import {
 } from '@/components/ui/table';
 import { ArrowLeft, Save, Trash2, Plus, Star, Package, User } from 'lucide-react';
 import { useAuth } from '@/hooks/use-auth';
+import { PriceHistoryCard } from '@/components/admin/price-history-card';
+import { SupplierOffersCard } from '@/components/admin/supplier-offers-card';
 
 interface Product {
   id: number;
@@ -57,6 +59,7 @@ interface Product {
   stockQuantity: number;
   isAvailable: boolean;
   isLocalOnly: boolean;
+  discontinuedAt: string | null;
 }
 
 interface Review {
@@ -69,6 +72,19 @@ interface Review {
   createdAt: string;
 }
 
+interface InventoryMovement {
+  id: number;
+  variantId: number | null;
+  variantName: string | null;
+  change: number;
+  quantityAfter: number;
+  reason: string;
+  orderId: number | null;
+  username: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
 interface User {
   id: number;
   name: string;
@@ -89,6 +105,10 @@ export default function AdminProductEditPage() {
   const [product, setProduct] = useState<Product | null>(null);
   const [reviews, setReviews] = useState<Review[]>([]);
   const [users, setUsers] = useState<User[]>([]);
+  const [movements, setMovements] = useState<InventoryMovement[]>([]);
+  const [stockThreshold, setStockThreshold] = useState<{ threshold: number; source: string; overrideId: number | null } | null>(null);
+  const [thresholdInput, setThresholdInput] = useState('');
+  const [saveCount, setSaveCount] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
@@ -129,6 +149,8 @@ export default function AdminProductEditPage() {
       fetchProduct();
       fetchReviews();
       fetchUsers();
+      fetchMovements();
+      fetchStockThreshold();
     }
   }, [user, productId]);
 
@@ -184,6 +206,72 @@ export default function AdminProductEditPage() {
     }
   };
 
+  const fetchMovements = async () => {
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/admin/inventory-movements?productId=${productId}&limit=50`, {
+        headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setMovements(data);
+      }
+    } catch (error) {
+      console.error('Error fetching stock movements:', error);
+    }
+  };
+
+  const fetchStockThreshold = async () => {
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/admin/stock-alerts?productId=${productId}`, {
+        headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        const override = data.thresholds.find((t: { productId: number | null }) => t.productId === parseInt(productId));
+        setStockThreshold({ ...data.productThreshold, overrideId: override?.id ?? null });
+        setThresholdInput(override ? override.threshold.toString() : '');
+      }
+    } catch (error) {
+      console.error('Error fetching stock threshold:', error);
+    }
+  };
+
+  const saveStockThreshold = async () => {
+    const token = localStorage.getItem('auth_token');
+    const headers = {
+      'Content-Type': 'application/json',
+      ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+    };
+
+    try {
+      // An empty value drops the product's own threshold so the category's applies again
+      const response = thresholdInput.trim() === ''
+        ? stockThreshold?.overrideId
+          ? await fetch(`/api/admin/stock-alerts?id=${stockThreshold.overrideId}`, { method: 'DELETE', headers })
+          : null
+        : await fetch('/api/admin/stock-alerts', {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ productId: parseInt(productId), threshold: parseInt(thresholdInput) }),
+        });
+
+      if (response && !response.ok) {
+        const data = await response.json().catch(() => ({}));
+        alert(`Failed to save threshold: ${data.error || 'Unknown error'}`);
+        return;
+      }
+
+      fetchStockThreshold();
+    } catch (error) {
+      console.error('Error saving stock threshold:', error);
+      alert('Failed to save threshold');
+    }
+  };
+
   const fetchUsers = async () => {
     try {
       const token = localStorage.getItem('auth_token');
@@ -228,6 +316,8 @@ export default function AdminProductEditPage() {
       if (response.ok) {
         alert('Product updated successfully!');
         fetchProduct();
+        fetchMovements();
+        setSaveCount(count => count + 1);
       } else {
         const data = await response.json();
         alert(`Failed to update product: ${data.error || 'Unknown error'}`);
@@ -591,6 +681,69 @@ export default function AdminProductEditPage() {
                 )}
               </CardContent>
             </Card>
+
+            {/* Stock Movements */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Stock Movements</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-end gap-2 mb-4 pb-4 border-b">
+                  <div className="flex-1">
+                    <Label htmlFor="lowStockThreshold">Low-stock alert at</Label>
+                    <Input
+                      id="lowStockThreshold"
+                      type="number"
+                      min="0"
+                      value={thresholdInput}
+                      onChange={(e) => setThresholdInput(e.target.value)}
+                      placeholder={stockThreshold ? `${stockThreshold.threshold} (${stockThreshold.source === 'category' ? 'category' : 'default'})` : ''}
+                    />
+                  </div>
+                  <Button variant="outline" onClick={saveStockThreshold}>
+                    Save
+                  </Button>
+                </div>
+                {movements.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-8">No stock changes recorded yet</p>
+                ) : (
+                  <div className="space-y-2">
+                    {movements.map((movement) => (
+                      <div key={movement.id} className="flex items-start justify-between gap-4 border-b pb-2 last:border-0 text-sm">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline" className="capitalize">{movement.reason}</Badge>
+                            <span className="text-muted-foreground">
+                              {movement.variantId
+                                ? movement.variantName || `Variant #${movement.variantId} (replaced)`
+                                : 'Product stock'}
+                            </span>
+                          </div>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {new Date(movement.createdAt).toLocaleString()}
+                            {movement.orderId && ` · Order #${movement.orderId}`}
+                            {movement.username && ` · ${movement.username}`}
+                            {movement.note && ` · ${movement.note}`}
+                          </p>
+                        </div>
+                        <div className="text-right shrink-0">
+                          <p className={`font-semibold ${movement.change < 0 ? 'text-destructive' : 'text-green-600'}`}>
+                            {movement.change > 0 ? '+' : ''}{movement.change}
+                          </p>
+                          <p className="text-xs text-muted-foreground">{movement.quantityAfter} left</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Price History */}
+            <PriceHistoryCard productId={productId} refreshKey={saveCount} />
+
+            {/* Supplier Offers */}
+            <SupplierOffersCard productId={productId} refreshKey={saveCount} />
           </div>
 
           {/* Product Preview */}
@@ -636,6 +789,12 @@ export default function AdminProductEditPage() {
                       {formData.isAvailable ? 'Available' : 'Unavailable'}
                     </Badge>
                   </div>
+                  {product?.discontinuedAt && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Left the feed:</span>
+                      <Badge variant="destructive">{new Date(product.discontinuedAt).toLocaleDateString()}</Badge>
+                    </div>
+                  )}
                   {formData.isLocalOnly && (
                     <div className="flex justify-between text-sm">
                       <span className="text-muted-foreground">Pickup:</span>
@@ -9,7 +9,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
-import { Package, ArrowLeft, UserPlus, Trash2, RefreshCw, Copy, Check, MapPin } from 'lucide-react';
+import { Package, ArrowLeft, UserPlus, Trash2, RefreshCw, Copy, Check, MapPin, MonitorSmartphone, LogOut, KeyRound, Lock, Unlock, History } from 'lucide-react';
 
 interface User {
   id: number;
@@ -17,9 +17,53 @@ interface User {
   role: string;
   isActive: boolean;
   hasLocalAccess: boolean;
+  mustChangePassword: boolean;
   createdAt: string;
 }
 
+interface LoginAttempt {
+  id: number;
+  username: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  success: boolean;
+  reason: string;
+  createdAt: string;
+}
+
+interface LoginBlock {
+  id: number;
+  scope: 'username' | 'ip';
+  key: string;
+  failures: number;
+  blockedUntil: string;
+}
+
+interface UserSession {
+  id: number;
+  ipAddress: string | null;
+  userAgent: string | null;
+  lastSeenAt: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
+function generatePassword(): string {
+  // Generate cryptographically secure random password
+  const length = 24;
+  const charset = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789!@#$%^&*()_+-=[]{}|;:,.<>?';
+  
+  // Use crypto.getRandomValues for cryptographic security
+  const randomValues = new Uint32Array(length);
+  crypto.getRandomValues(randomValues);
+  
+  let password = '';
+  for (let i = 0; i < length; i++) {
+    password += charset[randomValues[i] % charset.length];
+  }
+  return password;
+}
+
 export default function AdminUsersPage() {
   const { user, isLoading: authLoading } = useAuth();
   const router = useRouter();
@@ -27,6 +71,15 @@ export default function AdminUsersPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [copiedPassword, setCopiedPassword] = useState(false);
+  const [sessionsUser, setSessionsUser] = useState<User | null>(null);
+  const [userSessions, setUserSessions] = useState<UserSession[]>([]);
+  const [isLoadingSessions, setIsLoadingSessions] = useState(false);
+  const [resetUser, setResetUser] = useState<User | null>(null);
+  const [resetPassword, setResetPassword] = useState('');
+  const [loginBlocks, setLoginBlocks] = useState<LoginBlock[]>([]);
+  const [historyFilter, setHistoryFilter] = useState<{ title: string; username?: string } | null>(null);
+  const [loginHistory, setLoginHistory] = useState<LoginAttempt[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
   
   const [userForm, setUserForm] = useState({
     username: '',
@@ -54,6 +107,15 @@ export default function AdminUsersPage() {
         const data = await response.json();
         setUsers(data);
       }
+
+      const attemptsResponse = await fetch('/api/admin/login-attempts?limit=1', {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+
+      if (attemptsResponse.ok) {
+        const data = await attemptsResponse.json();
+        setLoginBlocks(data.blocks);
+      }
     } catch (error) {
       console.error('Error fetching users:', error);
     } finally {
@@ -62,20 +124,7 @@ export default function AdminUsersPage() {
   };
 
   const generateSecurePassword = () => {
-    // Generate cryptographically secure random password
-    const length = 24;
-    const charset = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789!@#$%^&*()_+-=[]{}|;:,.<>?';
-    
-    // Use crypto.getRandomValues for cryptographic security
-    const randomValues = new Uint32Array(length);
-    crypto.getRandomValues(randomValues);
-    
-    let password = '';
-    for (let i = 0; i < length; i++) {
-      password += charset[randomValues[i] % charset.length];
-    }
-    
-    setUserForm({ ...userForm, password });
+    setUserForm({ ...userForm, password: generatePassword() });
     setCopiedPassword(false);
   };
 
@@ -194,6 +243,141 @@ export default function AdminUsersPage() {
     }
   };
 
+  const fetchSessions = async (target: User) => {
+    setSessionsUser(target);
+    setIsLoadingSessions(true);
+
+    try {
+      const token = localStorage.getItem('auth_token');
+      
+      const response = await fetch(`/api/admin/users/${target.id}/sessions`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+
+      if (response.ok) {
+        setUserSessions(await response.json());
+      } else {
+        const data = await response.json();
+        alert(data.error || 'Failed to load sessions');
+      }
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+    } finally {
+      setIsLoadingSessions(false);
+    }
+  };
+
+  const handleRevokeSession = async (sessionId?: number) => {
+    if (!sessionsUser) return;
+
+    try {
+      const token = localStorage.getItem('auth_token');
+      const query = sessionId ? `?sessionId=${sessionId}` : '';
+      
+      const response = await fetch(`/api/admin/users/${sessionsUser.id}/sessions${query}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+
+      if (response.ok) {
+        fetchSessions(sessionsUser);
+      } else {
+        const data = await response.json();
+        alert(data.error || 'Failed to revoke session');
+      }
+    } catch (error) {
+      console.error('Error revoking session:', error);
+      alert('An error occurred while revoking the session');
+    }
+  };
+
+  const getUsernameBlock = (username: string) =>
+    loginBlocks.find(block => block.scope === 'username' && block.key === username);
+
+  const handleUnlock = async (userId: number) => {
+    try {
+      const token = localStorage.getItem('auth_token');
+      
+      const response = await fetch(`/api/admin/users/${userId}/unlock`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+
+      if (response.ok) {
+        fetchUsers();
+      } else {
+        const data = await response.json();
+        alert(data.error || 'Failed to unlock user');
+      }
+    } catch (error) {
+      console.error('Error unlocking user:', error);
+      alert('An error occurred while unlocking the user');
+    }
+  };
+
+  const fetchLoginHistory = async (filter: { title: string; username?: string }) => {
+    setHistoryFilter(filter);
+    setIsLoadingHistory(true);
+
+    try {
+      const token = localStorage.getItem('auth_token');
+      const query = filter.username
+        ? `username=${encodeURIComponent(filter.username)}`
+        : 'failedOnly=true';
+      
+      const response = await fetch(`/api/admin/login-attempts?limit=100&${query}`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setLoginHistory(data.attempts);
+        setLoginBlocks(data.blocks);
+      } else {
+        const data = await response.json();
+        alert(data.error || 'Failed to load login history');
+      }
+    } catch (error) {
+      console.error('Error fetching login history:', error);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  };
+
+  const openResetPassword = (target: User) => {
+    setResetUser(target);
+    setResetPassword(generatePassword());
+  };
+
+  const handleResetPassword = async () => {
+    if (!resetUser) return;
+
+    try {
+      const token = localStorage.getItem('auth_token');
+      
+      const response = await fetch(`/api/admin/users/${resetUser.id}/reset-password`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ password: resetPassword }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setResetUser(null);
+        fetchUsers();
+      } else {
+        alert(data.error || 'Failed to reset password');
+      }
+    } catch (error) {
+      console.error('Error resetting password:', error);
+      alert('An error occurred while resetting the password');
+    }
+  };
+
   if (authLoading || isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -219,10 +403,16 @@ export default function AdminUsersPage() {
 
         <div className="flex justify-between items-center mb-8">
           <h1 className="text-3xl font-bold">User Management</h1>
-          <Button onClick={() => setIsDialogOpen(true)}>
-            <UserPlus className="h-4 w-4 mr-2" />
-            Create User
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => fetchLoginHistory({ title: 'Recent Failed Logins' })}>
+              <History className="h-4 w-4 mr-2" />
+              Failed Logins
+            </Button>
+            <Button onClick={() => setIsDialogOpen(true)}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              Create User
+            </Button>
+          </div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -238,6 +428,18 @@ export default function AdminUsersPage() {
                     <Badge variant={u.isActive ? 'default' : 'secondary'}>
                       {u.isActive ? 'Active' : 'Inactive'}
                     </Badge>
+                    {getUsernameBlock(u.username) && (
+                      <Badge variant="destructive" className="gap-1">
+                        <Lock className="h-3 w-3" />
+                        Locked
+                      </Badge>
+                    )}
+                    {u.mustChangePassword && (
+                      <Badge variant="outline" className="gap-1">
+                        <KeyRound className="h-3 w-3" />
+                        Password Reset
+                      </Badge>
+                    )}
                     {u.hasLocalAccess && (
                       <Badge variant="outline" className="gap-1">
                         <MapPin className="h-3 w-3" />
@@ -263,6 +465,50 @@ export default function AdminUsersPage() {
                   </div>
                 </div>
 
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => fetchSessions(u)}
+                  className="w-full gap-2 mb-2"
+                >
+                  <MonitorSmartphone className="h-4 w-4" />
+                  Sessions
+                </Button>
+
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => fetchLoginHistory({ title: `Login History — @${u.username}`, username: u.username })}
+                  className="w-full gap-2 mb-2"
+                >
+                  <History className="h-4 w-4" />
+                  Login History
+                </Button>
+
+                {getUsernameBlock(u.username) && (
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => handleUnlock(u.id)}
+                    className="w-full gap-2 mb-2"
+                  >
+                    <Unlock className="h-4 w-4" />
+                    Unlock ({getUsernameBlock(u.username)?.failures} failed attempts)
+                  </Button>
+                )}
+
+                {u.id !== user?.id && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => openResetPassword(u)}
+                    className="w-full gap-2 mb-2"
+                  >
+                    <KeyRound className="h-4 w-4" />
+                    Reset Password
+                  </Button>
+                )}
+
                 {u.role !== 'admin' && (
                   <div className="space-y-2">
                     <div className="flex gap-2">
@@ -299,6 +545,144 @@ export default function AdminUsersPage() {
         </div>
       </div>
 
+      {/* Sessions Dialog */}
+      <Dialog open={sessionsUser !== null} onOpenChange={(open) => !open && setSessionsUser(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Active Sessions — @{sessionsUser?.username}</DialogTitle>
+          </DialogHeader>
+          {isLoadingSessions ? (
+            <p className="text-sm text-muted-foreground">Loading sessions...</p>
+          ) : userSessions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No active sessions</p>
+          ) : (
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {userSessions.map((session) => (
+                <div key={session.id} className="flex items-start justify-between gap-2 p-3 border rounded-md">
+                  <div className="min-w-0 text-sm">
+                    <p className="font-medium truncate">{session.userAgent || 'Unknown device'}</p>
+                    <p className="text-xs text-muted-foreground">IP: {session.ipAddress || 'unknown'}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Last seen {new Date(session.lastSeenAt).toLocaleString()} · Signed in {new Date(session.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleRevokeSession(session.id)}
+                    title="Revoke session"
+                  >
+                    <LogOut className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSessionsUser(null)}>
+              Close
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => handleRevokeSession()}
+              disabled={userSessions.length === 0}
+            >
+              Revoke All
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Login History Dialog */}
+      <Dialog open={historyFilter !== null} onOpenChange={(open) => !open && setHistoryFilter(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{historyFilter?.title}</DialogTitle>
+          </DialogHeader>
+          {!historyFilter?.username && loginBlocks.length > 0 && (
+            <div className="space-y-1 p-3 border rounded-md bg-destructive/5">
+              <p className="text-sm font-medium">Currently blocked</p>
+              {loginBlocks.map((block) => (
+                <p key={block.id} className="text-xs text-muted-foreground">
+                  {block.scope === 'ip' ? 'IP' : 'User'} {block.key} · {block.failures} failures · until {new Date(block.blockedUntil).toLocaleTimeString()}
+                </p>
+              ))}
+            </div>
+          )}
+          {isLoadingHistory ? (
+            <p className="text-sm text-muted-foreground">Loading login history...</p>
+          ) : loginHistory.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No login attempts recorded</p>
+          ) : (
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {loginHistory.map((attempt) => (
+                <div key={attempt.id} className="flex items-start justify-between gap-2 p-3 border rounded-md text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium">
+                      @{attempt.username} · <span className="text-muted-foreground">{attempt.reason.replace(/_/g, ' ')}</span>
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      IP: {attempt.ipAddress || 'unknown'} · {attempt.userAgent || 'Unknown device'}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{new Date(attempt.createdAt).toLocaleString()}</p>
+                  </div>
+                  <Badge variant={attempt.success ? 'default' : 'destructive'}>
+                    {attempt.success ? 'Success' : 'Failed'}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setHistoryFilter(null)}>
+              Close
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reset Password Dialog */}
+      <Dialog open={resetUser !== null} onOpenChange={(open) => !open && setResetUser(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reset Password — @{resetUser?.username}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reset-password">Temporary Password</Label>
+            <div className="flex gap-2">
+              <Input
+                id="reset-password"
+                type="text"
+                value={resetPassword}
+                onChange={(e) => setResetPassword(e.target.value)}
+                autoComplete="new-password"
+                className="font-mono text-sm"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                onClick={() => setResetPassword(generatePassword())}
+                title="Generate secure password"
+              >
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              The user is signed out of every device and must choose a new password at next login.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResetUser(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleResetPassword} disabled={!resetPassword}>
+              Reset Password
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Create User Dialog */}
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
         <DialogContent className="max-w-md">
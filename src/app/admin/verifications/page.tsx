@@ -121,6 +121,8 @@ export default function AdminVerificationsPage() {
       case 'BTC':
         return `https://mempool.space/tx/${txid}`;
       case 'ETH':
+      case 'USDT':
+      case 'USDC':
         return `https://etherscan.io/tx/${txid}`;
       case 'DOGE':
         return `https://dogechain.info/tx/${txid}`;
@@ -164,6 +166,8 @@ export default function AdminVerificationsPage() {
                 <option value="BTC">Bitcoin (BTC)</option>
                 <option value="ETH">Ethereum (ETH)</option>
                 <option value="DOGE">Dogecoin (DOGE)</option>
+                <option value="USDT">Tether (USDT)</option>
+                <option value="USDC">USD Coin (USDC)</option>
               </select>
             </div>
 
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { apiConfigurations } from '@/db/schema';
 import { eq, and, ne } from 'drizzle-orm';
+import { refreshNextSyncAt } from '@/lib/sync-scheduler';
 
 export async function POST(
   request: NextRequest,
@@ -47,7 +48,8 @@ export async function POST(
     const deactivated = await db
       .update(apiConfigurations)
       .set({ 
-        isActive: false
+        isActive: false,
+        nextSyncAt: null
       })
       .where(
         and(
@@ -79,6 +81,7 @@ export async function POST(
     }
 
     const activatedConfig = activated[0];
+    await refreshNextSyncAt(configId);
 
     return NextResponse.json(
       {
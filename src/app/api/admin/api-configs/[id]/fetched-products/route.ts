@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { apiConfigurations } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+
+// Products of the configuration's last fetched feed with their detected categories, for previewing mapping rules
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const configId = parseInt(params.id);
+
+    if (isNaN(configId)) {
+      return NextResponse.json({ error: 'Valid ID is required', code: 'INVALID_ID' }, { status: 400 });
+    }
+
+    const [config] = await db.select({
+      lastFetchedProducts: apiConfigurations.lastFetchedProducts,
+      lastFetchedAt: apiConfigurations.lastFetchedAt,
+    })
+      .from(apiConfigurations)
+      .where(eq(apiConfigurations.id, configId))
+      .limit(1);
+
+    if (!config) {
+      return NextResponse.json({ error: 'Configuration not found', code: 'NOT_FOUND' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      fetchedAt: config.lastFetchedAt,
+      products: config.lastFetchedProducts ? JSON.parse(config.lastFetchedProducts) : [],
+    });
+
+  } catch (error) {
+    console.error('GET fetched products error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { db } from '@/db';
 import { apiConfigurations, apiLogs, products } from '@/db/schema';
 import { eq } from 'drizzle-orm';
 import { parseJSONProducts, parseHTMLProducts, normalizeProducts } from '@/lib/api-parsers';
+import { parseCategoryMappingRules, applyCategoryMappingRules } from '@/lib/category-rules';
 
 interface PreviewProduct {
   action: 'create' | 'update';
@@ -182,8 +183,12 @@ export async function POST(
       );
     }
 
-    // Normalize products
-    const normalizedProducts = normalizeProducts(parseResult.products);
+    // Normalize products, then categorize them the way a sync would
+    let normalizedProducts = normalizeProducts(parseResult.products);
+    const mappingRules = parseCategoryMappingRules(configuration.categoryMappingRules);
+    if (mappingRules.ok) {
+      normalizedProducts = applyCategoryMappingRules(normalizedProducts, mappingRules.rules).products;
+    }
 
     // Fetch all existing products for this API configuration
     const existingProducts = await db
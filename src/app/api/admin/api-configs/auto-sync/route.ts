@@ -1,75 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { apiConfigurations, apiLogs } from '@/db/schema';
-import { eq, and, lt, sql } from 'drizzle-orm';
+import { apiConfigurations } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { runSchedulerTick } from '@/lib/sync-scheduler';
+import { listSyncJobs } from '@/lib/sync-jobs';
 
 /**
  * Auto-sync API route
- * Checks for configurations with autoSyncEnabled and syncs if interval has passed
- * Can be called by a cron job or scheduled task
+ * The built-in scheduler already does this every minute; POST runs one pass
+ * immediately, e.g. from an external cron where the server doesn't stay up
  */
 export async function POST(request: NextRequest) {
   try {
-    // Get all active configurations with auto-sync enabled
-    const configs = await db
-      .select()
-      .from(apiConfigurations)
-      .where(
-        and(
-          eq(apiConfigurations.isActive, true),
-          eq(apiConfigurations.autoSyncEnabled, true)
-        )
-      );
-
-    if (configs.length === 0) {
-      return NextResponse.json({
-        message: 'No configurations with auto-sync enabled',
-        synced: []
-      });
-    }
-
-    const now = new Date();
-    const syncResults = [];
-
-    for (const config of configs) {
-      try {
-        // Check if enough time has passed since last sync
-        const shouldSync = !config.lastSyncedAt || 
-          (config.syncIntervalMinutes && 
-           new Date(config.lastSyncedAt).getTime() + (config.syncIntervalMinutes * 60 * 1000) <= now.getTime());
-
-        if (!shouldSync) {
-          continue;
-        }
-
-        // Trigger sync
-        const syncRes = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/api/admin/api-configs/${config.id}/sync`, {
-          method: 'POST'
-        });
-
-        const syncData = await syncRes.json();
-
-        syncResults.push({
-          configId: config.id,
-          configName: config.name,
-          success: syncRes.ok,
-          ...syncData
-        });
-
-      } catch (error) {
-        syncResults.push({
-          configId: config.id,
-          configName: config.name,
-          success: false,
-          error: error instanceof Error ? error.message : 'Unknown error'
-        });
-      }
-    }
+    const result = await runSchedulerTick();
 
     return NextResponse.json({
-      message: `Auto-sync completed for ${syncResults.length} configurations`,
-      synced: syncResults,
-      timestamp: now.toISOString()
+      message: `Auto-sync queued for ${result.queued.length} configurations`,
+      ...result,
+      timestamp: new Date().toISOString()
     });
 
   } catch (error) {
@@ -94,29 +42,22 @@ export async function GET(request: NextRequest) {
         isActive: apiConfigurations.isActive,
         autoSyncEnabled: apiConfigurations.autoSyncEnabled,
         syncIntervalMinutes: apiConfigurations.syncIntervalMinutes,
-        lastSyncedAt: apiConfigurations.lastSyncedAt
+        syncWindow: apiConfigurations.syncWindow,
+        lastSyncedAt: apiConfigurations.lastSyncedAt,
+        nextSyncAt: apiConfigurations.nextSyncAt
       })
       .from(apiConfigurations)
       .where(eq(apiConfigurations.autoSyncEnabled, true));
 
-    const now = new Date();
-    const status = configs.map(config => {
-      let nextSyncAt = null;
-      let timeUntilNextSync = null;
+    const activeJobs = [
+      ...await listSyncJobs({ status: 'running', limit: 100 }),
+      ...await listSyncJobs({ status: 'queued', limit: 100 }),
+    ];
 
-      if (config.lastSyncedAt && config.syncIntervalMinutes) {
-        const lastSync = new Date(config.lastSyncedAt);
-        const nextSync = new Date(lastSync.getTime() + (config.syncIntervalMinutes * 60 * 1000));
-        nextSyncAt = nextSync.toISOString();
-        timeUntilNextSync = Math.max(0, Math.floor((nextSync.getTime() - now.getTime()) / 1000 / 60)); // minutes
-      }
-
-      return {
-        ...config,
-        nextSyncAt,
-        timeUntilNextSync: timeUntilNextSync ? `${timeUntilNextSync} minutes` : 'Ready to sync'
-      };
-    });
+    const status = configs.map(config => ({
+      ...config,
+      activeJobId: activeJobs.find(job => job.configId === config.id)?.id ?? null
+    }));
 
     return NextResponse.json({
       configurations: status,
@@ -130,4 +71,4 @@ export async function GET(request: NextRequest) {
       code: 'INTERNAL_ERROR'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
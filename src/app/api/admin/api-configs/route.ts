@@ -1,7 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { apiConfigurations, apiLogs, products, productVariants, productImages, bulkPricingRules, orderItems, productReviews, reviewImages } from '@/db/schema';
+import { apiConfigurations, apiLogs, products, productVariants, productImages, bulkPricingRules, orderItems, productReviews, reviewImages, stockReservations, inventoryMovements, stockAlertThresholds, stockSubscriptions, priceHistory, syncJobs, syncChangesets, syncChangeItems } from '@/db/schema';
 import { eq, desc, and, or, inArray } from 'drizzle-orm';
+import { parseCronExpression } from '@/lib/cron';
+import { refreshNextSyncAt } from '@/lib/sync-scheduler';
+import { validateCategoryMappingRules } from '@/lib/category-rules';
+
+// Schedule windows are cron expressions; returns an error message when invalid
+function validateSyncWindow(syncWindow: unknown): string | null {
+  if (typeof syncWindow !== 'string') {
+    return 'Sync window must be a cron expression string';
+  }
+  const parsed = parseCronExpression(syncWindow);
+  return parsed.ok ? null : `Invalid sync window: ${parsed.error}`;
+}
+
+// Supplier price changes of at least this many percent raise an alert
+function isValidAlertPercent(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+// Products missing from the feed for this many hours are discontinued; 0 does it on the next full sync
+function isValidDiscontinueAfterHours(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+// The fetched-products sample can be large and only the rule editor needs it, from its own endpoint
+function withoutFetchedProducts(config: typeof apiConfigurations.$inferSelect) {
+  const { lastFetchedProducts, ...rest } = config;
+  return rest;
+}
 
 export async function GET(request: NextRequest) {
   try {
@@ -30,7 +58,7 @@ export async function GET(request: NextRequest) {
         );
       }
 
-      return NextResponse.json(config[0], { status: 200 });
+      return NextResponse.json(withoutFetchedProducts(config[0]), { status: 200 });
     }
 
     // List with pagination and filtering
@@ -68,7 +96,7 @@ export async function GET(request: NextRequest) {
       .limit(limit)
       .offset(offset);
 
-    return NextResponse.json(results, { status: 200 });
+    return NextResponse.json(results.map(withoutFetchedProducts), { status: 200 });
   } catch (error) {
     console.error('GET error:', error);
     return NextResponse.json(
@@ -81,7 +109,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { name, type, sourceType, sourceUrl, sourceContent, syncIntervalMinutes, lastSyncedAt, isActive, isTestMode, autoSyncEnabled, loadImages, enableDuplicateMerging, categoryMappingRules } = body;
+    const { name, type, sourceType, sourceUrl, sourceContent, syncIntervalMinutes, syncWindow, lastSyncedAt, isActive, isTestMode, autoSyncEnabled, loadImages, enableDuplicateMerging, categoryMappingRules, priceAlertPercent, discontinueAfterHours } = body;
 
     // Validate required fields
     if (!name || typeof name !== 'string' || name.trim() === '') {
@@ -149,8 +177,33 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Validate categoryMappingRules if provided (must be valid JSON string or null)
-    if (categoryMappingRules !== undefined && categoryMappingRules !== null) {
+    if (syncWindow !== undefined && syncWindow !== null && syncWindow !== '') {
+      const windowError = validateSyncWindow(syncWindow);
+      if (windowError) {
+        return NextResponse.json(
+          { error: windowError, code: 'INVALID_SYNC_WINDOW' },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (priceAlertPercent !== undefined && priceAlertPercent !== null && !isValidAlertPercent(priceAlertPercent)) {
+      return NextResponse.json(
+        { error: 'Price alert percent must be a number greater than 0', code: 'INVALID_PRICE_ALERT_PERCENT' },
+        { status: 400 }
+      );
+    }
+
+    if (discontinueAfterHours !== undefined && discontinueAfterHours !== null && !isValidDiscontinueAfterHours(discontinueAfterHours)) {
+      return NextResponse.json(
+        { error: 'Discontinue after hours must be a whole number of 0 or more', code: 'INVALID_DISCONTINUE_AFTER_HOURS' },
+        { status: 400 }
+      );
+    }
+
+    // Validate categoryMappingRules if provided (must be a JSON string of rules or null)
+    let mappingRules: string | null = null;
+    if (categoryMappingRules !== undefined && categoryMappingRules !== null && categoryMappingRules !== '') {
       if (typeof categoryMappingRules !== 'string') {
         return NextResponse.json(
           { error: 'Category mapping rules must be a JSON string', code: 'INVALID_CATEGORY_MAPPING_RULES' },
@@ -158,14 +211,23 @@ export async function POST(request: NextRequest) {
         );
       }
       // Validate it's valid JSON
+      let decoded: unknown;
       try {
-        JSON.parse(categoryMappingRules);
+        decoded = JSON.parse(categoryMappingRules);
       } catch {
         return NextResponse.json(
           { error: 'Category mapping rules must be valid JSON', code: 'INVALID_JSON_FORMAT' },
           { status: 400 }
         );
       }
+      const validated = validateCategoryMappingRules(decoded);
+      if (!validated.ok) {
+        return NextResponse.json(
+          { error: validated.error, code: 'INVALID_CATEGORY_MAPPING_RULES' },
+          { status: 400 }
+        );
+      }
+      mappingRules = validated.rules.length > 0 ? JSON.stringify(validated.rules) : null;
     }
 
     // Prepare insert data
@@ -179,10 +241,13 @@ export async function POST(request: NextRequest) {
       isTestMode: isTestMode !== undefined ? Boolean(isTestMode) : true,
       autoSyncEnabled: autoSyncEnabled !== undefined ? Boolean(autoSyncEnabled) : false,
       syncIntervalMinutes: syncIntervalMinutes !== undefined && syncIntervalMinutes !== null ? parseInt(syncIntervalMinutes) : null,
+      syncWindow: syncWindow ? syncWindow.trim() : null,
       lastSyncedAt: lastSyncedAt || null,
       loadImages: loadImages !== undefined ? Boolean(loadImages) : true,
       enableDuplicateMerging: enableDuplicateMerging !== undefined ? Boolean(enableDuplicateMerging) : true,
-      categoryMappingRules: categoryMappingRules || null,
+      categoryMappingRules: mappingRules,
+      priceAlertPercent: priceAlertPercent ?? null,
+      discontinueAfterHours: discontinueAfterHours ?? null,
       createdAt: new Date().toISOString(),
     };
 
@@ -191,7 +256,9 @@ export async function POST(request: NextRequest) {
       .values(insertData)
       .returning();
 
-    return NextResponse.json(newConfig[0], { status: 201 });
+    const nextSyncAt = await refreshNextSyncAt(newConfig[0].id);
+
+    return NextResponse.json({ ...newConfig[0], nextSyncAt }, { status: 201 });
   } catch (error) {
     console.error('POST error:', error);
     return NextResponse.json(
@@ -228,7 +295,7 @@ export async function PUT(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { name, type, sourceType, sourceUrl, sourceContent, isActive, isTestMode, autoSyncEnabled, syncIntervalMinutes, lastSyncedAt, loadImages, enableDuplicateMerging, categoryMappingRules } = body;
+    const { name, type, sourceType, sourceUrl, sourceContent, isActive, isTestMode, autoSyncEnabled, syncIntervalMinutes, syncWindow, lastSyncedAt, loadImages, enableDuplicateMerging, categoryMappingRules, priceAlertPercent, discontinueAfterHours } = body;
 
     const updates: any = {};
 
@@ -298,6 +365,43 @@ export async function PUT(request: NextRequest) {
       }
     }
 
+    if (syncWindow !== undefined) {
+      if (syncWindow === null || syncWindow === '') {
+        updates.syncWindow = null;
+      } else {
+        const windowError = validateSyncWindow(syncWindow);
+        if (windowError) {
+          return NextResponse.json(
+            { error: windowError, code: 'INVALID_SYNC_WINDOW' },
+            { status: 400 }
+          );
+        }
+        updates.syncWindow = syncWindow.trim();
+      }
+    }
+
+    // Null goes back to the default alert percentage
+    if (priceAlertPercent !== undefined) {
+      if (priceAlertPercent !== null && !isValidAlertPercent(priceAlertPercent)) {
+        return NextResponse.json(
+          { error: 'Price alert percent must be a number greater than 0', code: 'INVALID_PRICE_ALERT_PERCENT' },
+          { status: 400 }
+        );
+      }
+      updates.priceAlertPercent = priceAlertPercent;
+    }
+
+    // Null goes back to the default grace period
+    if (discontinueAfterHours !== undefined) {
+      if (discontinueAfterHours !== null && !isValidDiscontinueAfterHours(discontinueAfterHours)) {
+        return NextResponse.json(
+          { error: 'Discontinue after hours must be a whole number of 0 or more', code: 'INVALID_DISCONTINUE_AFTER_HOURS' },
+          { status: 400 }
+        );
+      }
+      updates.discontinueAfterHours = discontinueAfterHours;
+    }
+
     if (lastSyncedAt !== undefined) {
       updates.lastSyncedAt = lastSyncedAt || null;
     }
@@ -311,7 +415,7 @@ export async function PUT(request: NextRequest) {
     }
 
     if (categoryMappingRules !== undefined) {
-      if (categoryMappingRules === null) {
+      if (categoryMappingRules === null || categoryMappingRules === '') {
         updates.categoryMappingRules = null;
       } else {
         if (typeof categoryMappingRules !== 'string') {
@@ -321,15 +425,24 @@ export async function PUT(request: NextRequest) {
           );
         }
         // Validate it's valid JSON
+        let decoded: unknown;
         try {
-          JSON.parse(categoryMappingRules);
+          decoded = JSON.parse(categoryMappingRules);
         } catch {
           return NextResponse.json(
             { error: 'Category mapping rules must be valid JSON', code: 'INVALID_JSON_FORMAT' },
             { status: 400 }
           );
         }
-        updates.categoryMappingRules = categoryMappingRules;
+        const validated = validateCategoryMappingRules(decoded);
+        if (!validated.ok) {
+          return NextResponse.json(
+            { error: validated.error, code: 'INVALID_CATEGORY_MAPPING_RULES' },
+            { status: 400 }
+          );
+        }
+        // An empty list is the same as no rules
+        updates.categoryMappingRules = validated.rules.length > 0 ? JSON.stringify(validated.rules) : null;
       }
     }
 
@@ -361,7 +474,15 @@ export async function PUT(request: NextRequest) {
       .where(eq(apiConfigurations.id, parseInt(id)))
       .returning();
 
-    return NextResponse.json(updated[0], { status: 200 });
+    const scheduleChanged = ['isActive', 'autoSyncEnabled', 'syncIntervalMinutes', 'syncWindow', 'lastSyncedAt']
+      .some(field => field in updates);
+
+    if (scheduleChanged) {
+      const nextSyncAt = await refreshNextSyncAt(updated[0].id);
+      return NextResponse.json({ ...withoutFetchedProducts(updated[0]), nextSyncAt }, { status: 200 });
+    }
+
+    return NextResponse.json(withoutFetchedProducts(updated[0]), { status: 200 });
   } catch (error) {
     console.error('PUT error:', error);
     return NextResponse.json(
@@ -411,12 +532,25 @@ export async function DELETE(request: Request) {
       
       // 6. Delete bulk pricing rules (references products)
       await db.delete(bulkPricingRules).where(inArray(bulkPricingRules.productId, productIds));
+
+      // 6b. Delete stock reservations, the inventory ledger, stock alerts and price history (references products)
+      await db.delete(stockReservations).where(inArray(stockReservations.productId, productIds));
+      await db.delete(inventoryMovements).where(inArray(inventoryMovements.productId, productIds));
+      await db.delete(stockAlertThresholds).where(inArray(stockAlertThresholds.productId, productIds));
+      await db.delete(stockSubscriptions).where(inArray(stockSubscriptions.productId, productIds));
+      await db.delete(priceHistory).where(inArray(priceHistory.productId, productIds));
       
       // 7. Delete products (references apiConfigurations)
       await db.delete(products).where(eq(products.apiConfigId, id));
     }
 
-    // 8. Delete API logs (references apiConfigurations)
+    // 8. Delete dry-run changesets, sync jobs, then API logs (all reference apiConfigurations)
+    const changesetIds = (await db.select({ id: syncChangesets.id }).from(syncChangesets).where(eq(syncChangesets.configId, id))).map(c => c.id);
+    if (changesetIds.length > 0) {
+      await db.delete(syncChangeItems).where(inArray(syncChangeItems.changesetId, changesetIds));
+      await db.delete(syncChangesets).where(inArray(syncChangesets.id, changesetIds));
+    }
+    await db.delete(syncJobs).where(eq(syncJobs.configId, id));
     await db.delete(apiLogs).where(eq(apiLogs.configId, id));
 
     // 9. Finally delete the configuration itself
@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { products, productImages, bulkPricingRules, productVariants, apiConfigurations, productCorrections } from '@/db/schema';
-import { eq } from 'drizzle-orm';
+import { eq, inArray } from 'drizzle-orm';
+import { recordStockChange } from '@/lib/inventory';
+import { recordPriceChange } from '@/lib/price-history';
+import { notifyBackInStock } from '@/lib/stock-alerts';
+import { parseCategoryMappingRules, matchCategoryRule, CategoryMappingRule } from '@/lib/category-rules';
+import { correctIncomingProduct, clampPrice, CorrectableProduct } from '@/lib/product-corrections';
+import { productMatchKey } from '@/lib/api-parsers';
 
 // CRITICAL: Process in smaller batches to avoid timeouts
 const BATCH_SIZE = 50; // Process 50 products at a time
@@ -12,6 +18,8 @@ export async function POST(request: NextRequest) {
     const { apiConfigId, products: requestProducts, batchIndex = 0 } = body;
 
     let validatedApiConfigId: number | null = null;
+    let priceAlertPercent: number | null = null;
+    let mappingRules: CategoryMappingRule[] = [];
 
     if (apiConfigId) {
       if (typeof apiConfigId !== 'number' || apiConfigId <= 0) {
@@ -34,6 +42,11 @@ export async function POST(request: NextRequest) {
       }
 
       validatedApiConfigId = apiConfigId;
+      priceAlertPercent = configExists[0].priceAlertPercent;
+      const parsedRules = parseCategoryMappingRules(configExists[0].categoryMappingRules);
+      if (parsedRules.ok) {
+        mappingRules = parsedRules.rules;
+      }
     }
 
     if (!requestProducts || !Array.isArray(requestProducts) || requestProducts.length === 0) {
@@ -51,6 +64,7 @@ export async function POST(request: NextRequest) {
 
     let productsCreated = 0;
     let productsUpdated = 0;
+    const restockedProductIds: number[] = [];
     let tiersCreated = 0;
     let imagesCreated = 0;
     let variantsCreated = 0;
@@ -70,44 +84,60 @@ export async function POST(request: NextRequest) {
         .where(eq(productCorrections.sourceProductId, sourceId.toString()))
         .limit(1);
 
-      // Apply corrections if they exist
-      let finalCategory = product.mainCategory || product.category || 'Uncategorized';
-      let finalName = product.name || 'Unnamed Product';
-
-      if (correction.length > 0) {
-        const correctionData = correction[0];
-        if (correctionData.correctedCategory) {
-          finalCategory = correctionData.correctedCategory;
-        }
-        if (correctionData.correctedName) {
-          finalName = correctionData.correctedName;
-        }
-      }
+      // The configuration's category mapping rules win over the category the client detected
+      const ruleMatch = matchCategoryRule(mappingRules, {
+        name: product.name || '',
+        description: product.description,
+        brand: product.brand,
+        category: product.category,
+      });
 
       const existingProduct = await db.select()
         .from(products)
         .where(eq(products.sourceId, sourceId.toString()))
         .limit(1);
 
+      // Apply corrections if they exist
+      const incoming: CorrectableProduct = {
+        name: product.name || 'Unnamed Product',
+        description: product.description || null,
+        brand: product.brand || null,
+        volume: product.volume || null,
+        mainCategory: ruleMatch?.rule.mainCategory || product.mainCategory || product.category || 'Uncategorized',
+        subCategory: ruleMatch?.rule.subCategory || product.subCategory || null,
+        imageUrl: product.imageUrl || product.image || null,
+        images: Array.isArray(product.images) ? product.images : [],
+        price: product.price !== undefined ? product.price : (existingProduct[0]?.price ?? 0),
+        isAvailable: product.stockQuantity === 0 ? false : true,
+      };
+      const final = correction.length > 0
+        ? (await correctIncomingProduct(correction[0], incoming)).product
+        : incoming;
+
       let productId: number;
+      // Variants are updated in place below, matched by type and name, so their ids survive the sync
+      const previousVariants = new Map<string, { id: number; stockQuantity: number | null; price: number }>();
+      const keptVariantIds = new Set<number>();
+      let productPrice: number;
 
       if (existingProduct.length === 0) {
         const newProductData = {
-          name: finalName,
-          description: product.description || null,
-          price: product.price || 0,
-          imageUrl: product.imageUrl || product.image || null,
+          name: final.name,
+          description: final.description,
+          price: final.price,
+          imageUrl: final.imageUrl,
           category: product.category || null,
-          mainCategory: finalCategory,
-          subCategory: product.subCategory || null,
-          brand: product.brand || null,
-          volume: product.volume || null,
+          mainCategory: final.mainCategory,
+          subCategory: final.subCategory,
+          brand: final.brand,
+          volume: final.volume,
           stockQuantity: product.stockQuantity !== undefined ? product.stockQuantity : 100,
-          isAvailable: product.stockQuantity === 0 ? false : true,
+          isAvailable: final.isAvailable,
           sourceType: validatedApiConfigId ? 'api' : 'manual',
           sourceId: sourceId.toString(),
           apiConfigId: validatedApiConfigId,
           isLocalOnly: false,
+          matchKey: productMatchKey(final),
           createdAt: new Date().toISOString()
         };
 
@@ -116,27 +146,69 @@ export async function POST(request: NextRequest) {
           .returning();
 
         productId = insertedProduct.id;
+        productPrice = insertedProduct.price;
         productsCreated++;
+
+        await recordStockChange(db, {
+          productId,
+          before: 0,
+          after: insertedProduct.stockQuantity,
+          reason: 'sync',
+          note: 'JSON sync',
+        });
+
+        await recordPriceChange(db, {
+          productId,
+          before: null,
+          after: insertedProduct.price,
+          source: 'sync',
+          apiConfigId: validatedApiConfigId,
+          alertPercent: priceAlertPercent,
+        });
       } else {
         productId = existingProduct[0].id;
+        restockedProductIds.push(productId);
 
         const updateData = {
-          name: finalName,
-          description: product.description || existingProduct[0].description,
-          price: product.price !== undefined ? product.price : existingProduct[0].price,
-          imageUrl: product.imageUrl || product.image || existingProduct[0].imageUrl,
+          name: final.name,
+          description: final.description || existingProduct[0].description,
+          price: final.price,
+          imageUrl: final.imageUrl || existingProduct[0].imageUrl,
           category: product.category || existingProduct[0].category,
-          mainCategory: finalCategory,
-          subCategory: product.subCategory || existingProduct[0].subCategory,
-          brand: product.brand || existingProduct[0].brand,
-          volume: product.volume || existingProduct[0].volume,
+          mainCategory: final.mainCategory,
+          subCategory: final.subCategory || existingProduct[0].subCategory,
+          brand: final.brand || existingProduct[0].brand,
+          volume: final.volume || existingProduct[0].volume,
+          matchKey: productMatchKey({
+            name: final.name,
+            brand: final.brand || existingProduct[0].brand,
+            volume: final.volume || existingProduct[0].volume,
+          }),
           stockQuantity: product.stockQuantity !== undefined ? product.stockQuantity : (existingProduct[0].stockQuantity || 100),
-          isAvailable: product.stockQuantity === 0 ? false : true
+          isAvailable: final.isAvailable
         };
 
         await db.update(products)
           .set(updateData)
           .where(eq(products.id, productId));
+        productPrice = updateData.price;
+
+        await recordStockChange(db, {
+          productId,
+          before: existingProduct[0].stockQuantity,
+          after: updateData.stockQuantity,
+          reason: 'sync',
+          note: 'JSON sync',
+        });
+
+        await recordPriceChange(db, {
+          productId,
+          before: existingProduct[0].price,
+          after: updateData.price,
+          source: 'sync',
+          apiConfigId: validatedApiConfigId,
+          alertPercent: priceAlertPercent,
+        });
 
         await db.delete(productImages)
           .where(eq(productImages.productId, productId));
@@ -144,21 +216,30 @@ export async function POST(request: NextRequest) {
         await db.delete(bulkPricingRules)
           .where(eq(bulkPricingRules.productId, productId));
 
-        await db.delete(productVariants)
+        const currentVariants = await db.select()
+          .from(productVariants)
           .where(eq(productVariants.productId, productId));
+        for (const old of currentVariants) {
+          previousVariants.set(`${old.variantType}:${old.variantName}`, {
+            id: old.id,
+            stockQuantity: old.stockQuantity,
+            price: existingProduct[0].price + (old.priceModifier ?? 0),
+          });
+        }
 
         productsUpdated++;
       }
 
       // Insert product images
-      if (product.images && Array.isArray(product.images) && product.images.length > 0) {
-        for (let i = 0; i < product.images.length; i++) {
-          const imageUrl = product.images[i];
+      if (final.images.length > 0) {
+        for (let i = 0; i < final.images.length; i++) {
+          const imageUrl = final.images[i];
           if (imageUrl && typeof imageUrl === 'string') {
             await db.insert(productImages).values({
               productId: productId,
               imageUrl: imageUrl,
-              isPrimary: i === 0 && !product.imageUrl && !product.image,
+              // Corrected images replace the feed's main image too, so the first one leads
+              isPrimary: i === 0 && (final.images !== incoming.images || (!product.imageUrl && !product.image)),
               displayOrder: i,
               createdAt: new Date().toISOString()
             });
@@ -171,18 +252,53 @@ export async function POST(request: NextRequest) {
       if (product.variants && Array.isArray(product.variants) && product.variants.length > 0) {
         for (const variant of product.variants) {
           if (variant.variantName) {
-            const [insertedVariant] = await db.insert(productVariants).values({
-              productId: productId,
-              variantName: variant.variantName,
-              variantType: variant.variantType || 'option',
+            const variantType = variant.variantType || 'option';
+            const previousVariant = previousVariants.get(`${variantType}:${variant.variantName}`);
+            const variantValues = {
               stockQuantity: variant.stockQuantity || 0,
-              priceModifier: variant.priceModifier || 0,
+              // A corrected price range holds for every variant, not just the base price
+              priceModifier: correction.length > 0
+                ? clampPrice(correction[0], productPrice + (variant.priceModifier || 0)) - productPrice
+                : variant.priceModifier || 0,
               isAvailable: variant.isAvailable !== false,
               sourceId: variant.sourceId || null,
-              createdAt: new Date().toISOString()
-            }).returning();
+            };
+
+            const [insertedVariant] = previousVariant
+              ? await db.update(productVariants)
+                .set(variantValues)
+                .where(eq(productVariants.id, previousVariant.id))
+                .returning()
+              : await db.insert(productVariants).values({
+                productId: productId,
+                variantName: variant.variantName,
+                variantType,
+                ...variantValues,
+                createdAt: new Date().toISOString()
+              }).returning();
+            keptVariantIds.add(insertedVariant.id);
             variantsCreated++;
 
+            await recordStockChange(db, {
+              productId,
+              variantId: insertedVariant.id,
+              before: previousVariant?.stockQuantity ?? 0,
+              after: insertedVariant.stockQuantity,
+              reason: 'sync',
+              note: 'JSON sync',
+            });
+
+            await recordPriceChange(db, {
+              productId,
+              variantType: insertedVariant.variantType,
+              variantName: insertedVariant.variantName,
+              before: previousVariant?.price ?? null,
+              after: productPrice + (insertedVariant.priceModifier ?? 0),
+              source: 'sync',
+              apiConfigId: validatedApiConfigId,
+              alertPercent: priceAlertPercent,
+            });
+
             if (variant.tiers && Array.isArray(variant.tiers) && variant.tiers.length > 0) {
               for (const tier of variant.tiers) {
                 if (tier.minQuantity !== undefined && tier.price !== undefined) {
@@ -219,10 +335,21 @@ export async function POST(request: NextRequest) {
           }
         }
       }
+
+      // Variants the JSON no longer lists are removed, as a full replace would
+      const droppedVariantIds = [...previousVariants.values()]
+        .map(v => v.id)
+        .filter(id => !keptVariantIds.has(id));
+      if (droppedVariantIds.length > 0) {
+        await db.delete(productVariants).where(inArray(productVariants.id, droppedVariantIds));
+      }
     }
 
+    const backInStockNotifications = await notifyBackInStock(restockedProductIds);
+
     return NextResponse.json({
       success: true,
+      backInStockNotifications,
       productsCreated,
       productsUpdated,
       tiersCreated,
@@ -2,9 +2,46 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { cryptoWalletAddresses } from '@/db/schema';
 import { eq, and, asc, desc } from 'drizzle-orm';
+import { getRequestUser, isAdmin } from '@/lib/authz';
+import { validateExtendedPublicKey, deriveReceiveAddress } from '@/lib/hd-wallet';
+
+type WalletAddress = typeof cryptoWalletAddresses.$inferSelect;
+
+// Customers read this list for deposits; the xpub would reveal every deposit address, so only admins see it
+function toResponse(record: WalletAddress, admin: boolean) {
+  const { xpub, ...rest } = record;
+  if (!admin) {
+    return { ...rest, usesHdWallet: !!xpub };
+  }
+  return {
+    ...record,
+    usesHdWallet: !!xpub,
+    nextAddress: xpub ? nextDepositAddress(record.cryptocurrency, xpub, record.nextDerivationIndex) : null,
+  };
+}
+
+// A key saved before validation tightened shouldn't break the listing
+function nextDepositAddress(currency: string, xpub: string, index: number): string | null {
+  try {
+    return deriveReceiveAddress(currency, xpub, index);
+  } catch {
+    return null;
+  }
+}
+
+// Undefined leaves the key alone, null or '' removes it; otherwise it must suit the currency
+function parseXpub(cryptocurrency: string, xpub: unknown): { value: string | null | undefined } | { error: string } {
+  if (xpub === undefined) return { value: undefined };
+  if (xpub === null || xpub === '') return { value: null };
+  if (typeof xpub !== 'string') return { error: 'xpub must be a string' };
+
+  const result = validateExtendedPublicKey(cryptocurrency, xpub);
+  return result.ok ? { value: xpub.trim() } : { error: result.error };
+}
 
 export async function GET(request: NextRequest) {
   try {
+    const admin = isAdmin(getRequestUser(request));
     const searchParams = request.nextUrl.searchParams;
     const id = searchParams.get('id');
     const cryptocurrency = searchParams.get('cryptocurrency');
@@ -34,7 +71,7 @@ export async function GET(request: NextRequest) {
         );
       }
 
-      return NextResponse.json(record[0], { status: 200 });
+      return NextResponse.json(toResponse(record[0], admin), { status: 200 });
     }
 
     // List with filters and pagination
@@ -62,7 +99,7 @@ export async function GET(request: NextRequest) {
       .limit(limit)
       .offset(offset);
 
-    return NextResponse.json(results, { status: 200 });
+    return NextResponse.json(results.map(record => toResponse(record, admin)), { status: 200 });
   } catch (error) {
     console.error('GET error:', error);
     return NextResponse.json(
@@ -75,7 +112,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { cryptocurrency, address, label, logoUrl, isActive } = body;
+    const { cryptocurrency, address, label, logoUrl, isActive, xpub } = body;
 
     // Validate required fields
     if (!cryptocurrency || typeof cryptocurrency !== 'string' || cryptocurrency.trim() === '') {
@@ -123,6 +160,14 @@ export async function POST(request: NextRequest) {
     const normalizedCrypto = cryptocurrency.trim().toLowerCase();
     const trimmedAddress = address.trim();
 
+    const parsedXpub = parseXpub(normalizedCrypto, xpub);
+    if ('error' in parsedXpub) {
+      return NextResponse.json(
+        { error: parsedXpub.error, code: 'INVALID_XPUB' },
+        { status: 400 }
+      );
+    }
+
     // Check if wallet address already exists for this cryptocurrency
     const existing = await db
       .select()
@@ -141,12 +186,13 @@ export async function POST(request: NextRequest) {
           label: label?.trim() || existing[0].label,
           logoUrl: logoUrl !== undefined ? (logoUrl ? logoUrl.trim() : null) : existing[0].logoUrl,
           isActive: isActive !== undefined ? isActive : existing[0].isActive,
+          xpub: parsedXpub.value !== undefined ? parsedXpub.value : existing[0].xpub,
           updatedAt: now,
         })
         .where(eq(cryptoWalletAddresses.cryptocurrency, normalizedCrypto))
         .returning();
 
-      return NextResponse.json(updated[0], { status: 200 });
+      return NextResponse.json(toResponse(updated[0], true), { status: 200 });
     } else {
       // Create new record
       const newRecord = await db
@@ -157,12 +203,13 @@ export async function POST(request: NextRequest) {
           label: label?.trim() || null,
           logoUrl: logoUrl ? logoUrl.trim() : null,
           isActive: isActive !== undefined ? isActive : true,
+          xpub: parsedXpub.value ?? null,
           createdAt: now,
           updatedAt: now,
         })
         .returning();
 
-      return NextResponse.json(newRecord[0], { status: 201 });
+      return NextResponse.json(toResponse(newRecord[0], true), { status: 201 });
     }
   } catch (error) {
     console.error('POST error:', error);
@@ -187,7 +234,7 @@ export async function PUT(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { address, label, logoUrl, isActive } = body;
+    const { address, label, logoUrl, isActive, xpub } = body;
 
     // Validate address if provided
     if (address !== undefined && (typeof address !== 'string' || address.trim() === '')) {
@@ -259,6 +306,18 @@ export async function PUT(request: NextRequest) {
       updates.isActive = isActive;
     }
 
+    // The derivation index is kept when the key changes, so going back to an earlier key never reissues an address
+    const parsedXpub = parseXpub(existing[0].cryptocurrency, xpub);
+    if ('error' in parsedXpub) {
+      return NextResponse.json(
+        { error: parsedXpub.error, code: 'INVALID_XPUB' },
+        { status: 400 }
+      );
+    }
+    if (parsedXpub.value !== undefined) {
+      updates.xpub = parsedXpub.value;
+    }
+
     // Update record
     const updated = await db
       .update(cryptoWalletAddresses)
@@ -266,7 +325,7 @@ export async function PUT(request: NextRequest) {
       .where(eq(cryptoWalletAddresses.id, parseInt(id)))
       .returning();
 
-    return NextResponse.json(updated[0], { status: 200 });
+    return NextResponse.json(toResponse(updated[0], true), { status: 200 });
   } catch (error) {
     console.error('PUT error:', error);
     return NextResponse.json(
@@ -312,7 +371,7 @@ export async function DELETE(request: NextRequest) {
     return NextResponse.json(
       {
         message: 'Crypto wallet address deleted successfully',
-        deleted: deleted[0],
+        deleted: toResponse(deleted[0], true),
       },
       { status: 200 }
     );
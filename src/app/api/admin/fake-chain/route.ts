@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { chainNetwork, chainToken, getConfiguredFakeChain } from '@/lib/chains';
+
+function fakeChainFor(currency: unknown, address?: string | null) {
+  if (!currency || typeof currency !== 'string') {
+    return { error: NextResponse.json({ error: 'currency is required', code: 'MISSING_CURRENCY' }, { status: 400 }) };
+  }
+
+  const network = chainNetwork(currency.trim().toUpperCase(), address);
+  const chain = getConfiguredFakeChain(network);
+  if (!chain) {
+    return {
+      error: NextResponse.json({
+        error: `${network} is not using the fake chain (set CHAIN_PROVIDERS_${network}=fake)`,
+        code: 'FAKE_CHAIN_NOT_CONFIGURED'
+      }, { status: 404 })
+    };
+  }
+  return { chain };
+}
+
+// The fake chain's tip for a currency
+export async function GET(request: NextRequest) {
+  try {
+    const { chain, error } = fakeChainFor(request.nextUrl.searchParams.get('currency'));
+    if (error) return error;
+
+    return NextResponse.json({
+      network: chain.network,
+      provider: chain.name,
+      height: await chain.getTipHeight(),
+    }, { status: 200 });
+  } catch (error) {
+    console.error('GET fake chain error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Drive the fake chain by hand while testing deposits:
+ * { action: 'send', currency, address, amount } broadcasts a payment (a token
+ * transfer for USDT/USDC), { action: 'mine', currency, blocks } confirms
+ * everything in the mempool.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { action, currency, address, amount, blocks } = body;
+
+    if (action === 'send') {
+      if (!address || typeof address !== 'string') {
+        return NextResponse.json({ error: 'address is required', code: 'MISSING_ADDRESS' }, { status: 400 });
+      }
+      if (typeof amount !== 'number' || !(amount > 0)) {
+        return NextResponse.json({ error: 'amount must be a positive number', code: 'INVALID_AMOUNT' }, { status: 400 });
+      }
+
+      const { chain, error } = fakeChainFor(currency, address.trim());
+      if (error) return error;
+
+      // A token's payment is a transfer of its contract on the network's fake chain
+      const tx = chain.send([{ address: address.trim(), amount, token: chainToken(currency)?.contract }]);
+      return NextResponse.json({ network: chain.network, txid: tx.txid }, { status: 201 });
+    }
+
+    if (action === 'mine') {
+      const count = blocks === undefined ? 1 : blocks;
+      if (typeof count !== 'number' || !Number.isInteger(count) || count < 1 || count > 100) {
+        return NextResponse.json({ error: 'blocks must be an integer from 1 to 100', code: 'INVALID_BLOCKS' }, { status: 400 });
+      }
+
+      const { chain, error } = fakeChainFor(currency);
+      if (error) return error;
+
+      return NextResponse.json({ network: chain.network, height: chain.mine(count) }, { status: 200 });
+    }
+
+    return NextResponse.json({ error: "action must be 'send' or 'mine'", code: 'INVALID_ACTION' }, { status: 400 });
+  } catch (error) {
+    console.error('POST fake chain error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getInventoryMovements, MovementReason } from '@/lib/inventory';
+
+const MOVEMENT_REASONS: MovementReason[] = ['order', 'cancel', 'sync', 'manual'];
+
+// Stock ledger, newest first, optionally narrowed to a product, an order or a reason
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const productId = parseInt(searchParams.get('productId') || '');
+    const orderId = parseInt(searchParams.get('orderId') || '');
+    const reason = searchParams.get('reason');
+    const limitParam = searchParams.get('limit');
+    const offsetParam = searchParams.get('offset');
+
+    if (reason && !MOVEMENT_REASONS.includes(reason as MovementReason)) {
+      return NextResponse.json(
+        { error: `reason must be one of: ${MOVEMENT_REASONS.join(', ')}`, code: 'INVALID_REASON' },
+        { status: 400 }
+      );
+    }
+
+    const limit = limitParam ? Math.min(Math.max(parseInt(limitParam) || 50, 1), 200) : 50;
+    const offset = offsetParam ? Math.max(parseInt(offsetParam) || 0, 0) : 0;
+
+    const movements = await getInventoryMovements({
+      productId: productId > 0 ? productId : undefined,
+      orderId: orderId > 0 ? orderId : undefined,
+      reason: (reason as MovementReason) || undefined,
+      limit,
+      offset,
+    });
+
+    return NextResponse.json(movements, { status: 200 });
+  } catch (error) {
+    console.error('GET inventory movements error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getReconciliations, runReconciliation } from '@/lib/ledger-reconciliation';
+
+// Recent reconciliation reports, newest first
+export async function GET() {
+  try {
+    const reports = await getReconciliations();
+
+    return NextResponse.json({ reports }, { status: 200 });
+  } catch (error) {
+    console.error('GET ledger reconciliation error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
+
+// Reconcile now rather than waiting for the nightly run
+export async function POST() {
+  try {
+    const report = await runReconciliation('manual');
+
+    return NextResponse.json(report, { status: 201 });
+  } catch (error) {
+    console.error('POST ledger reconciliation error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { loginAttempts } from '@/db/schema';
+import { eq, desc, and, SQL } from 'drizzle-orm';
+import { getActiveLoginBlocks } from '@/lib/login-throttle';
+
+// Sign-in history plus the usernames and IPs currently backing off or locked out
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const username = searchParams.get('username');
+    const ipAddress = searchParams.get('ip');
+    const failedOnly = searchParams.get('failedOnly') === 'true';
+    const limitParam = searchParams.get('limit');
+    const offsetParam = searchParams.get('offset');
+
+    const limit = limitParam ? Math.min(Math.max(parseInt(limitParam) || 50, 1), 200) : 50;
+    const offset = offsetParam ? Math.max(parseInt(offsetParam) || 0, 0) : 0;
+
+    const conditions: SQL[] = [];
+    if (username) {
+      conditions.push(eq(loginAttempts.username, username.toLowerCase().trim()));
+    }
+    if (ipAddress) {
+      conditions.push(eq(loginAttempts.ipAddress, ipAddress));
+    }
+    if (failedOnly) {
+      conditions.push(eq(loginAttempts.success, false));
+    }
+
+    const attempts = await db.select()
+      .from(loginAttempts)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(loginAttempts.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    const blocks = await getActiveLoginBlocks();
+
+    return NextResponse.json({ attempts, blocks }, { status: 200 });
+  } catch (error) {
+    console.error('GET login attempts error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
@@ -2,31 +2,24 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { manualCredits, users, deposits } from '@/db/schema';
 import { eq, and, or, desc, sql } from 'drizzle-orm';
+import { getRequestUser } from '@/lib/authz';
+import { postLedgerEntry, SYSTEM_ACCOUNTS } from '@/lib/ledger';
 
 async function getAuthenticatedAdmin(request: NextRequest) {
-  const authHeader = request.headers.get('authorization');
-  
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+  // Identity comes from the session resolved in middleware
+  const requestUser = getRequestUser(request);
+
+  if (!requestUser) {
     return null;
   }
 
-  const token = authHeader.substring(7);
-  
-  // In a real implementation, you would verify the JWT token here
-  // For now, we'll query the user directly assuming token contains user ID
-  // This is a simplified version - replace with proper JWT verification
   try {
-    const userId = parseInt(token);
-    if (isNaN(userId)) {
-      return null;
-    }
-
     const user = await db.select()
       .from(users)
-      .where(eq(users.id, userId))
+      .where(eq(users.id, requestUser.id))
       .limit(1);
 
-    if (user.length === 0 || user[0].role !== 'admin') {
+    if (user.length === 0) {
       return null;
     }
 
@@ -352,31 +345,37 @@ export async function POST(request: NextRequest) {
       finalReferenceNumber = referenceNumber;
     }
 
-    // Credit user account
-    const currentUser = userRecord[0];
-    const currentCredits = currentUser.credits || 0;
-    const newCredits = currentCredits + numAmount;
-
-    await db.update(users)
-      .set({ credits: newCredits })
-      .where(eq(users.id, parseInt(userId)));
-
-    console.log('[MANUAL CREDIT] User ID:', userId, 'Amount:', numAmount, 'Type:', creditType, 'Admin ID:', admin.id, 'New Balance:', newCredits);
-
-    // Create manual credit record
-    const newManualCredit = await db.insert(manualCredits)
-      .values({
-        adminId: admin.id,
+    // Record the credit and move the balance through the ledger together
+    const newManualCredit = await db.transaction(async (tx) => {
+      const [manualCredit] = await tx.insert(manualCredits)
+        .values({
+          adminId: admin.id,
+          userId: parseInt(userId),
+          amount: numAmount,
+          creditType,
+          transactionId: finalTransactionId,
+          referenceNumber: finalReferenceNumber,
+          notes: notes.trim(),
+          verified,
+          createdAt: new Date().toISOString(),
+        })
+        .returning();
+
+      const newCredits = await postLedgerEntry(tx, {
         userId: parseInt(userId),
+        direction: 'credit',
         amount: numAmount,
-        creditType,
-        transactionId: finalTransactionId,
-        referenceNumber: finalReferenceNumber,
-        notes: notes.trim(),
-        verified,
-        createdAt: new Date().toISOString(),
-      })
-      .returning();
+        counterAccount: SYSTEM_ACCOUNTS.adjustments,
+        referenceType: 'manual_credit',
+        referenceId: manualCredit.id,
+        description: `Manual credit (${creditType === 'crypto_transaction' ? 'crypto transaction' : 'local cash'})`,
+        createdById: admin.id,
+      });
+
+      console.log('[MANUAL CREDIT] User ID:', userId, 'Amount:', numAmount, 'Type:', creditType, 'Admin ID:', admin.id, 'New Balance:', newCredits);
+
+      return [manualCredit];
+    });
 
     return NextResponse.json(newManualCredit[0], { status: 201 });
 
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { apiConfigurations } from '@/db/schema';
+import { asc } from 'drizzle-orm';
+import { getPriceAlerts, acknowledgePriceAlerts, DEFAULT_PRICE_ALERT_PERCENT } from '@/lib/price-history';
+
+// Supplier price changes over their configuration's alert percentage, plus each configuration's setting
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const includeAcknowledged = searchParams.get('includeAcknowledged') === 'true';
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam ? Math.min(Math.max(parseInt(limitParam) || 50, 1), 200) : 50;
+
+    const [alerts, configs] = await Promise.all([
+      getPriceAlerts({ includeAcknowledged, limit }),
+      db.select({
+        id: apiConfigurations.id,
+        name: apiConfigurations.name,
+        priceAlertPercent: apiConfigurations.priceAlertPercent,
+      })
+        .from(apiConfigurations)
+        .orderBy(asc(apiConfigurations.name)),
+    ]);
+
+    return NextResponse.json(
+      { alerts, configs, defaultPercent: DEFAULT_PRICE_ALERT_PERCENT },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('GET price alerts error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
+
+// Acknowledge alerts ({ ids? }); all open alerts when ids is omitted
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const ids = body.ids;
+
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some((id: unknown) => !Number.isInteger(id)))) {
+      return NextResponse.json(
+        { error: 'ids must be an array of integers', code: 'INVALID_IDS' },
+        { status: 400 }
+      );
+    }
+
+    await acknowledgePriceAlerts(ids);
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error('PUT price alerts error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
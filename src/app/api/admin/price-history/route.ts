@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPriceHistory } from '@/lib/price-history';
+
+// A product's price changes, oldest first, for the product and each of its variants
+export async function GET(request: NextRequest) {
+  try {
+    const productId = parseInt(request.nextUrl.searchParams.get('productId') || '');
+
+    if (!productId || productId <= 0) {
+      return NextResponse.json(
+        { error: 'Valid productId is required', code: 'INVALID_PRODUCT_ID' },
+        { status: 400 }
+      );
+    }
+
+    const history = await getPriceHistory(productId);
+
+    return NextResponse.json(history, { status: 200 });
+  } catch (error) {
+    console.error('GET price history error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
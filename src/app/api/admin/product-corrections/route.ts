@@ -1,7 +1,75 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { productCorrections } from '@/db/schema';
-import { eq, or, like, desc, sql } from 'drizzle-orm';
+import { eq, and, or, like, desc, sql, isNotNull } from 'drizzle-orm';
+import { pruneTracking, toCorrectionResponse } from '@/lib/product-corrections';
+
+type CorrectionFields = Partial<Pick<
+  typeof productCorrections.$inferInsert,
+  'correctedCategory' | 'correctedName' | 'correctedDescription' | 'correctedBrand' | 'correctedVolume'
+  | 'correctedSubCategory' | 'correctedImages' | 'priceFloor' | 'priceCeiling' | 'isHidden' | 'notes'
+>>;
+
+const TEXT_FIELDS = ['correctedCategory', 'correctedName', 'correctedDescription', 'correctedBrand', 'correctedVolume', 'correctedSubCategory', 'notes'] as const;
+
+// Reads the correction fields present in the body; blank text and empty image lists clear an override
+function parseCorrectionFields(body: any): { fields: CorrectionFields } | { error: string; code: string } {
+  const fields: CorrectionFields = {};
+
+  for (const field of TEXT_FIELDS) {
+    if (!(field in body)) continue;
+    const value = body[field];
+    if (value !== null && typeof value !== 'string') {
+      return { error: `${field} must be a string or null`, code: 'INVALID_FIELD' };
+    }
+    fields[field] = value ? value.trim() || null : null;
+  }
+
+  if ('correctedImages' in body) {
+    const images = body.correctedImages;
+    if (images !== null && (!Array.isArray(images) || images.some((url: unknown) => typeof url !== 'string' || url.trim() === ''))) {
+      return { error: 'correctedImages must be an array of image URLs or null', code: 'INVALID_IMAGES' };
+    }
+    fields.correctedImages = images && images.length > 0 ? JSON.stringify(images.map((url: string) => url.trim())) : null;
+  }
+
+  for (const field of ['priceFloor', 'priceCeiling'] as const) {
+    if (!(field in body)) continue;
+    const value = body[field];
+    if (value !== null && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      return { error: `${field} must be a number of 0 or more, or null`, code: 'INVALID_PRICE_LIMIT' };
+    }
+    fields[field] = value;
+  }
+
+  if ('isHidden' in body) {
+    if (typeof body.isHidden !== 'boolean') {
+      return { error: 'isHidden must be a boolean', code: 'INVALID_FIELD' };
+    }
+    fields.isHidden = body.isHidden;
+  }
+
+  return { fields };
+}
+
+function hasOverride(correction: CorrectionFields): boolean {
+  return !!(
+    correction.correctedCategory || correction.correctedName || correction.correctedDescription
+    || correction.correctedBrand || correction.correctedVolume || correction.correctedSubCategory
+    || correction.correctedImages || correction.priceFloor != null || correction.priceCeiling != null
+    || correction.isHidden
+  );
+}
+
+function priceRangeError(correction: CorrectionFields) {
+  if (correction.priceFloor != null && correction.priceCeiling != null && correction.priceFloor > correction.priceCeiling) {
+    return NextResponse.json({
+      error: "priceFloor cannot be above priceCeiling",
+      code: "INVALID_PRICE_RANGE"
+    }, { status: 400 });
+  }
+  return null;
+}
 
 export async function GET(request: NextRequest) {
   try {
@@ -28,18 +96,21 @@ export async function GET(request: NextRequest) {
         }, { status: 404 });
       }
 
-      return NextResponse.json(correction[0], { status: 200 });
+      return NextResponse.json(toCorrectionResponse(correction[0]), { status: 200 });
     }
 
     const limit = Math.min(parseInt(searchParams.get('limit') ?? '50'), 100);
     const offset = parseInt(searchParams.get('offset') ?? '0');
     const search = searchParams.get('search');
+    // Only corrections whose overridden fields changed in the feed since they were last reviewed
+    const conflictsOnly = searchParams.get('conflicts') === 'true';
 
     let query = db.select().from(productCorrections);
+    const conditions = [];
 
     if (search) {
       const searchTerm = `%${search}%`;
-      query = query.where(
+      conditions.push(
         or(
           like(productCorrections.sourceProductId, searchTerm),
           sql`${productCorrections.correctedCategory} LIKE ${searchTerm}`,
@@ -48,12 +119,20 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (conflictsOnly) {
+      conditions.push(isNotNull(productCorrections.conflicts));
+    }
+
+    if (conditions.length > 0) {
+      query = query.where(and(...conditions));
+    }
+
     const results = await query
       .orderBy(desc(productCorrections.createdAt))
       .limit(limit)
       .offset(offset);
 
-    return NextResponse.json(results, { status: 200 });
+    return NextResponse.json(results.map(toCorrectionResponse), { status: 200 });
   } catch (error) {
     console.error('GET error:', error);
     return NextResponse.json({ 
@@ -65,7 +144,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { sourceProductId, correctedCategory, correctedName, notes } = body;
+    const { sourceProductId } = body;
 
     if (!sourceProductId || typeof sourceProductId !== 'string') {
       return NextResponse.json({ 
@@ -82,17 +161,23 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    const trimmedCorrectedCategory = correctedCategory ? correctedCategory.trim() : null;
-    const trimmedCorrectedName = correctedName ? correctedName.trim() : null;
-    const trimmedNotes = notes ? notes.trim() : null;
+    const parsed = parseCorrectionFields(body);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error, code: parsed.code }, { status: 400 });
+    }
 
-    if (!trimmedCorrectedCategory && !trimmedCorrectedName) {
+    if (!hasOverride(parsed.fields)) {
       return NextResponse.json({ 
-        error: "At least one of correctedCategory or correctedName must be provided",
+        error: "At least one field must be corrected, limited or hidden",
         code: "MISSING_CORRECTION_FIELDS" 
       }, { status: 400 });
     }
 
+    const rangeError = priceRangeError(parsed.fields);
+    if (rangeError) {
+      return rangeError;
+    }
+
     const existingCorrection = await db.select()
       .from(productCorrections)
       .where(eq(productCorrections.sourceProductId, trimmedSourceProductId))
@@ -108,16 +193,14 @@ export async function POST(request: NextRequest) {
     const now = new Date().toISOString();
     const newCorrection = await db.insert(productCorrections)
       .values({
+        ...parsed.fields,
         sourceProductId: trimmedSourceProductId,
-        correctedCategory: trimmedCorrectedCategory,
-        correctedName: trimmedCorrectedName,
-        notes: trimmedNotes,
         createdAt: now,
         updatedAt: now
       })
       .returning();
 
-    return NextResponse.json(newCorrection[0], { status: 201 });
+    return NextResponse.json(toCorrectionResponse(newCorrection[0]), { status: 201 });
   } catch (error) {
     console.error('POST error:', error);
     return NextResponse.json({ 
@@ -159,33 +242,30 @@ export async function PUT(request: NextRequest) {
       }, { status: 404 });
     }
 
-    const updates: {
-      correctedCategory?: string | null;
-      correctedName?: string | null;
-      notes?: string | null;
-      updatedAt: string;
-    } = {
-      updatedAt: new Date().toISOString()
-    };
-
-    if ('correctedCategory' in body) {
-      updates.correctedCategory = body.correctedCategory ? body.correctedCategory.trim() : null;
+    const parsed = parseCorrectionFields(body);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error, code: parsed.code }, { status: 400 });
     }
 
-    if ('correctedName' in body) {
-      updates.correctedName = body.correctedName ? body.correctedName.trim() : null;
-    }
-
-    if ('notes' in body) {
-      updates.notes = body.notes ? body.notes.trim() : null;
+    const merged = { ...existingCorrection[0], ...parsed.fields };
+    const rangeError = priceRangeError(merged);
+    if (rangeError) {
+      return rangeError;
     }
 
+    // Cleared overrides stop being tracked; resolving accepts the feed's current values as the new baseline
+    const tracking = pruneTracking(merged);
     const updated = await db.update(productCorrections)
-      .set(updates)
+      .set({
+        ...parsed.fields,
+        upstreamValues: tracking.upstreamValues,
+        conflicts: body.resolveConflicts === true ? null : tracking.conflicts,
+        updatedAt: new Date().toISOString()
+      })
       .where(eq(productCorrections.id, parseInt(id)))
       .returning();
 
-    return NextResponse.json(updated[0], { status: 200 });
+    return NextResponse.json(toCorrectionResponse(updated[0]), { status: 200 });
   } catch (error) {
     console.error('PUT error:', error);
     return NextResponse.json({ 
@@ -224,7 +304,7 @@ export async function DELETE(request: NextRequest) {
 
     return NextResponse.json({
       message: 'Product correction deleted successfully',
-      correction: deleted[0]
+      correction: toCorrectionResponse(deleted[0])
     }, { status: 200 });
   } catch (error) {
     console.error('DELETE error:', error);
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOfferSummary } from '@/lib/product-offers';
+
+// Supplier offers on a product and the source picked for its price and each variant
+export async function GET(request: NextRequest) {
+  try {
+    const productId = parseInt(request.nextUrl.searchParams.get('productId') || '');
+
+    if (!productId || productId <= 0) {
+      return NextResponse.json(
+        { error: 'Valid productId is required', code: 'INVALID_PRODUCT_ID' },
+        { status: 400 }
+      );
+    }
+
+    const summary = await getOfferSummary(productId);
+
+    return NextResponse.json(summary, { status: 200 });
+  } catch (error) {
+    console.error('GET product offers error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { products, productCorrections } from '@/db/schema';
-import { eq, like, desc, sql } from 'drizzle-orm';
+import { eq, and, desc, sql, isNotNull } from 'drizzle-orm';
+import { getCorrectionsBySourceIds, toCorrectionResponse } from '@/lib/product-corrections';
 
 export async function GET(request: NextRequest) {
   try {
@@ -28,6 +29,7 @@ export async function GET(request: NextRequest) {
     const offsetParam = searchParams.get('offset');
     const searchQuery = searchParams.get('search');
     const categoryFilter = searchParams.get('category');
+    const conflictsOnly = searchParams.get('conflicts') === 'true';
 
     // Validate and set pagination parameters
     let limit = 10;
@@ -84,49 +86,26 @@ export async function GET(request: NextRequest) {
         eq(products.sourceId, productCorrections.sourceProductId)
       );
 
+    const conditions = [];
+
     // Apply search filter (case-insensitive)
     if (searchQuery && searchQuery.trim().length > 0) {
       const searchTerm = searchQuery.trim();
-      query = query.where(
-        sql`LOWER(${products.name}) LIKE LOWER(${`%${searchTerm}%`})`
-      );
+      conditions.push(sql`LOWER(${products.name}) LIKE LOWER(${`%${searchTerm}%`})`);
     }
 
     // Apply category filter
     if (categoryFilter && categoryFilter.trim().length > 0) {
-      const existingCondition = searchQuery 
-        ? sql`LOWER(${products.name}) LIKE LOWER(${`%${searchQuery.trim()}%`}) AND ${products.mainCategory} = ${categoryFilter.trim()}`
-        : eq(products.mainCategory, categoryFilter.trim());
-      
-      query = db
-        .select({
-          id: products.id,
-          name: products.name,
-          description: products.description,
-          price: products.price,
-          imageUrl: products.imageUrl,
-          category: products.category,
-          mainCategory: products.mainCategory,
-          subCategory: products.subCategory,
-          brand: products.brand,
-          volume: products.volume,
-          stockQuantity: products.stockQuantity,
-          isAvailable: products.isAvailable,
-          sourceType: products.sourceType,
-          sourceId: products.sourceId,
-          apiConfigId: products.apiConfigId,
-          isLocalOnly: products.isLocalOnly,
-          createdAt: products.createdAt,
-          correctedCategory: productCorrections.correctedCategory,
-          correctedName: productCorrections.correctedName,
-          correctionId: productCorrections.id,
-        })
-        .from(products)
-        .leftJoin(
-          productCorrections,
-          eq(products.sourceId, productCorrections.sourceProductId)
-        )
-        .where(existingCondition);
+      conditions.push(eq(products.mainCategory, categoryFilter.trim()));
+    }
+
+    // Only products whose correction has feed changes waiting for review
+    if (conflictsOnly) {
+      conditions.push(isNotNull(productCorrections.conflicts));
+    }
+
+    if (conditions.length > 0) {
+      query = query.where(and(...conditions));
     }
 
     // Apply ordering and pagination
@@ -135,27 +114,36 @@ export async function GET(request: NextRequest) {
       .limit(limit)
       .offset(offset);
 
+    const corrections = await getCorrectionsBySourceIds(
+      results.filter(row => row.correctionId !== null).map(row => row.sourceId!)
+    );
+
     // Transform results to match response format
-    const transformedProducts = results.map((row) => ({
-      id: row.id,
-      name: row.name,
-      category: row.mainCategory,
-      mainCategory: row.mainCategory,
-      subCategory: row.subCategory,
-      price: row.price,
-      stockQuantity: row.stockQuantity ?? 0,
-      inStock: (row.stockQuantity ?? 0) > 0,
-      isAvailable: row.isAvailable ?? false,
-      sourceType: row.sourceType,
-      sourceId: row.sourceId,
-      apiConfigId: row.apiConfigId,
-      brand: row.brand,
-      volume: row.volume,
-      imageUrl: row.imageUrl,
-      hasCorrection: row.correctionId !== null,
-      correctedCategory: row.correctedCategory,
-      correctedName: row.correctedName,
-    }));
+    const transformedProducts = results.map((row) => {
+      const correction = row.sourceId ? corrections.get(row.sourceId) : undefined;
+      return {
+        id: row.id,
+        name: row.name,
+        description: row.description,
+        category: row.mainCategory,
+        mainCategory: row.mainCategory,
+        subCategory: row.subCategory,
+        price: row.price,
+        stockQuantity: row.stockQuantity ?? 0,
+        inStock: (row.stockQuantity ?? 0) > 0,
+        isAvailable: row.isAvailable ?? false,
+        sourceType: row.sourceType,
+        sourceId: row.sourceId,
+        apiConfigId: row.apiConfigId,
+        brand: row.brand,
+        volume: row.volume,
+        imageUrl: row.imageUrl,
+        hasCorrection: row.correctionId !== null,
+        correctedCategory: row.correctedCategory,
+        correctedName: row.correctedName,
+        correction: correction ? toCorrectionResponse(correction) : null,
+      };
+    });
 
     return NextResponse.json(transformedProducts, { status: 200 });
 
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getLowStockProducts,
+  getThresholds,
+  getProductThreshold,
+  saveThreshold,
+  deleteThreshold,
+  DEFAULT_LOW_STOCK_THRESHOLD,
+} from '@/lib/stock-alerts';
+
+// Products at or below their low-stock threshold, plus the configured thresholds
+export async function GET(request: NextRequest) {
+  try {
+    const productId = parseInt(request.nextUrl.searchParams.get('productId') || '');
+
+    const [lowStock, thresholds] = await Promise.all([getLowStockProducts(), getThresholds()]);
+    const productThreshold = productId > 0 ? await getProductThreshold(productId) : undefined;
+
+    return NextResponse.json(
+      { lowStock, thresholds, defaultThreshold: DEFAULT_LOW_STOCK_THRESHOLD, productThreshold },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('GET stock alerts error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
+
+// Set the threshold for a product ({ productId }) or a main category ({ mainCategory })
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const threshold = Number(body.threshold);
+    const productId = body.productId !== undefined && body.productId !== null ? Number(body.productId) : undefined;
+    const mainCategory = typeof body.mainCategory === 'string' ? body.mainCategory.trim() : undefined;
+
+    if (!Number.isInteger(threshold) || threshold < 0) {
+      return NextResponse.json(
+        { error: 'threshold must be a non-negative integer', code: 'INVALID_THRESHOLD' },
+        { status: 400 }
+      );
+    }
+
+    if ((productId === undefined) === !mainCategory) {
+      return NextResponse.json(
+        { error: 'Provide either productId or mainCategory', code: 'INVALID_TARGET' },
+        { status: 400 }
+      );
+    }
+
+    if (productId !== undefined) {
+      if (!Number.isInteger(productId) || productId <= 0) {
+        return NextResponse.json(
+          { error: 'productId must be a valid integer', code: 'INVALID_PRODUCT_ID' },
+          { status: 400 }
+        );
+      }
+      await saveThreshold({ productId, threshold });
+    } else {
+      await saveThreshold({ mainCategory: mainCategory as string, threshold });
+    }
+
+    return NextResponse.json({ thresholds: await getThresholds() }, { status: 200 });
+  } catch (error) {
+    console.error('POST stock alerts error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = parseInt(request.nextUrl.searchParams.get('id') || '');
+
+    if (!id || id <= 0) {
+      return NextResponse.json(
+        { error: 'Valid ID is required', code: 'INVALID_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await deleteThreshold(id))) {
+      return NextResponse.json(
+        { error: 'Threshold not found', code: 'THRESHOLD_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ thresholds: await getThresholds() }, { status: 200 });
+  } catch (error) {
+    console.error('DELETE stock alerts error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applyChangeset, CHANGE_FIELDS, ChangeField, ItemApproval } from '@/lib/sync-changesets';
+import { getRequestUser } from '@/lib/authz';
+
+function parseApprovals(value: unknown): ItemApproval[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const approvals: ItemApproval[] = [];
+  for (const entry of value) {
+    const itemId = entry?.itemId;
+    if (!Number.isInteger(itemId) || itemId <= 0) {
+      return null;
+    }
+    if (entry.fields !== undefined) {
+      if (!Array.isArray(entry.fields) || entry.fields.some((f: unknown) => !CHANGE_FIELDS.includes(f as ChangeField))) {
+        return null;
+      }
+    }
+    approvals.push({ itemId, fields: entry.fields });
+  }
+  return approvals;
+}
+
+// Body: { approvals: [{ itemId, fields? }] }; anything not listed is rejected
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const changesetId = parseInt(id);
+
+    if (isNaN(changesetId)) {
+      return NextResponse.json({ error: 'Valid ID is required', code: 'INVALID_ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const approvals = parseApprovals(body.approvals);
+
+    if (!approvals) {
+      return NextResponse.json(
+        { error: `approvals must be a list of { itemId, fields? } with fields from: ${CHANGE_FIELDS.join(', ')}`, code: 'INVALID_APPROVALS' },
+        { status: 400 }
+      );
+    }
+
+    const result = await applyChangeset(changesetId, getRequestUser(request)?.id ?? null, approvals);
+
+    if (result.status === 'not_found') {
+      return NextResponse.json({ error: 'Changeset not found', code: 'NOT_FOUND' }, { status: 404 });
+    }
+
+    if (result.status === 'not_pending') {
+      return NextResponse.json(
+        { error: `Changeset is already ${result.changesetStatus}`, code: 'CHANGESET_NOT_PENDING' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error('POST apply changeset error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { discardChangeset } from '@/lib/sync-changesets';
+import { getRequestUser } from '@/lib/authz';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const changesetId = parseInt(id);
+
+    if (isNaN(changesetId)) {
+      return NextResponse.json({ error: 'Valid ID is required', code: 'INVALID_ID' }, { status: 400 });
+    }
+
+    const result = await discardChangeset(changesetId, getRequestUser(request)?.id ?? null);
+
+    if (result.status === 'not_found') {
+      return NextResponse.json({ error: 'Changeset not found', code: 'NOT_FOUND' }, { status: 404 });
+    }
+
+    if (result.status === 'not_pending') {
+      return NextResponse.json(
+        { error: `Changeset is already ${result.changesetStatus}`, code: 'CHANGESET_NOT_PENDING' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ discarded: true }, { status: 200 });
+  } catch (error) {
+    console.error('POST discard changeset error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
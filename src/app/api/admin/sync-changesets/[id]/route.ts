@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getChangeset } from '@/lib/sync-changesets';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const changesetId = parseInt(id);
+
+    if (isNaN(changesetId)) {
+      return NextResponse.json({ error: 'Valid ID is required', code: 'INVALID_ID' }, { status: 400 });
+    }
+
+    const result = await getChangeset(changesetId);
+
+    if (!result) {
+      return NextResponse.json({ error: 'Changeset not found', code: 'NOT_FOUND' }, { status: 404 });
+    }
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error('GET sync changeset error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listChangesets, ChangesetStatus } from '@/lib/sync-changesets';
+
+const CHANGESET_STATUSES: ChangesetStatus[] = ['pending', 'applied', 'discarded', 'superseded'];
+
+// Dry-run changesets, newest first, optionally narrowed to a configuration or a status
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const configId = parseInt(searchParams.get('configId') || '');
+    const status = searchParams.get('status');
+    const limitParam = searchParams.get('limit');
+
+    if (status && !CHANGESET_STATUSES.includes(status as ChangesetStatus)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${CHANGESET_STATUSES.join(', ')}`, code: 'INVALID_STATUS' },
+        { status: 400 }
+      );
+    }
+
+    const limit = limitParam ? Math.min(Math.max(parseInt(limitParam) || 20, 1), 100) : 20;
+
+    const changesets = await listChangesets({
+      configId: configId > 0 ? configId : undefined,
+      status: (status as ChangesetStatus) || undefined,
+      limit,
+    });
+
+    return NextResponse.json(changesets, { status: 200 });
+  } catch (error) {
+    console.error('GET sync changesets error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelSyncJob } from '@/lib/sync-jobs';
+
+// Queued jobs stop immediately; running jobs stop at the end of their current batch
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const jobId = parseInt(id);
+
+    if (isNaN(jobId)) {
+      return NextResponse.json({ error: 'Valid ID is required', code: 'INVALID_ID' }, { status: 400 });
+    }
+
+    const result = await cancelSyncJob(jobId);
+
+    if (result.status === 'not_found') {
+      return NextResponse.json({ error: 'Sync job not found', code: 'NOT_FOUND' }, { status: 404 });
+    }
+
+    if (result.status === 'not_active') {
+      return NextResponse.json(
+        { error: `Sync job has already ${result.job.status}`, code: 'JOB_NOT_ACTIVE', job: result.job },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error('POST cancel sync job error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSyncJob } from '@/lib/sync-jobs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const jobId = parseInt(id);
+
+    if (isNaN(jobId)) {
+      return NextResponse.json({ error: 'Valid ID is required', code: 'INVALID_ID' }, { status: 400 });
+    }
+
+    const job = await getSyncJob(jobId);
+
+    if (!job) {
+      return NextResponse.json({ error: 'Sync job not found', code: 'NOT_FOUND' }, { status: 404 });
+    }
+
+    return NextResponse.json(job, { status: 200 });
+  } catch (error) {
+    console.error('GET sync job error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
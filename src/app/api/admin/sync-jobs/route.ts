@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listSyncJobs, SyncJobStatus } from '@/lib/sync-jobs';
+
+const JOB_STATUSES: SyncJobStatus[] = ['queued', 'running', 'succeeded', 'failed', 'cancelled'];
+
+// Sync jobs, newest first, optionally narrowed to a configuration or a status
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const configId = parseInt(searchParams.get('configId') || '');
+    const status = searchParams.get('status');
+    const limitParam = searchParams.get('limit');
+
+    if (status && !JOB_STATUSES.includes(status as SyncJobStatus)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${JOB_STATUSES.join(', ')}`, code: 'INVALID_STATUS' },
+        { status: 400 }
+      );
+    }
+
+    const limit = limitParam ? Math.min(Math.max(parseInt(limitParam) || 20, 1), 100) : 20;
+
+    const jobs = await listSyncJobs({
+      configId: configId > 0 ? configId : undefined,
+      status: (status as SyncJobStatus) || undefined,
+      limit,
+    });
+
+    return NextResponse.json(jobs, { status: 200 });
+  } catch (error) {
+    console.error('GET sync jobs error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
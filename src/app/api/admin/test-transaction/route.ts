@@ -1,16 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-interface MempoolTransaction {
-  txid: string;
-  status: {
-    confirmed: boolean;
-    block_height?: number;
-  };
-  vout: Array<{
-    value: number;
-    scriptpubkey_address: string;
-  }>;
-}
+import { getChainProvider } from '@/lib/chains';
+import { getConfirmations, SATOSHIS_PER_COIN, type ChainTx } from '@/lib/chain-provider';
 
 export async function POST(request: NextRequest) {
   try {
@@ -50,50 +40,45 @@ export async function POST(request: NextRequest) {
     }
 
     console.log('[TEST-TX] ✓ Transaction ID format is valid');
-    console.log('[TEST-TX] Fetching from mempool.space...');
+    const provider = getChainProvider('BTC', normalizedExpectedAddress);
+    if (!provider) {
+      return NextResponse.json({ 
+        error: 'No blockchain provider is configured for BTC',
+        code: 'CURRENCY_NOT_CONFIGURED' 
+      }, { status: 501 });
+    }
 
-    // Fetch transaction data from mempool.space API
-    let txData: MempoolTransaction;
+    console.log('[TEST-TX] Fetching from', provider.name);
+
+    let txData: ChainTx;
     try {
-      const txResponse = await fetch(`https://mempool.space/api/tx/${txid}`, {
-        headers: {
-          'User-Agent': 'CryptoMarketplace/1.0',
-          'Accept': 'application/json'
-        }
-      });
-      
-      console.log('[TEST-TX] Mempool API response status:', txResponse.status);
+      const transaction = await provider.getTx(txid);
       
-      if (!txResponse.ok) {
-        if (txResponse.status === 404) {
-          console.log('[TEST-TX] ❌ Transaction not found on blockchain');
-          return NextResponse.json({ 
-            error: 'Transaction not found on the blockchain. Please verify:\n1. The transaction ID is correct\n2. The transaction has been broadcast\n3. Try checking on mempool.space directly',
-            code: 'TRANSACTION_NOT_FOUND',
-            mempoolUrl: `https://mempool.space/tx/${txid}`
-          }, { status: 404 });
-        }
-        const errorText = await txResponse.text();
-        console.log('[TEST-TX] ❌ Mempool API error:', errorText);
-        throw new Error(`Mempool API error: ${txResponse.status}`);
+      if (!transaction) {
+        console.log('[TEST-TX] ❌ Transaction not found on blockchain');
+        return NextResponse.json({ 
+          error: 'Transaction not found on the blockchain. Please verify:\n1. The transaction ID is correct\n2. The transaction has been broadcast\n3. Try checking on mempool.space directly',
+          code: 'TRANSACTION_NOT_FOUND',
+          mempoolUrl: `https://mempool.space/tx/${txid}`
+        }, { status: 404 });
       }
 
-      txData = await txResponse.json();
+      txData = transaction;
       console.log('[TEST-TX] ✓ Transaction found successfully!');
       console.log('[TEST-TX] Transaction ID:', txData.txid);
-      console.log('[TEST-TX] Confirmed:', txData.status.confirmed);
-      console.log('[TEST-TX] Number of outputs:', txData.vout.length);
+      console.log('[TEST-TX] Confirmed:', txData.confirmed);
+      console.log('[TEST-TX] Number of outputs:', txData.outputs.length);
       
       // Log all output addresses for debugging
       console.log('[TEST-TX] All output addresses in this transaction:');
-      txData.vout.forEach((output, index) => {
-        console.log(`  Output ${index}: ${output.scriptpubkey_address} (${output.value} satoshis = ${(output.value / 100000000).toFixed(8)} BTC)`);
+      txData.outputs.forEach((output, index) => {
+        console.log(`  Output ${index}: ${output.address} (${output.amountBase} satoshis = ${output.amount.toFixed(8)} BTC)`);
       });
       
     } catch (error) {
       console.error('[TEST-TX] ❌ Fetch error:', error);
       return NextResponse.json({ 
-        error: 'Failed to fetch transaction from blockchain. The mempool.space API might be temporarily unavailable.',
+        error: 'Failed to fetch transaction from blockchain. The block explorer might be temporarily unavailable.',
         code: 'BLOCKCHAIN_FETCH_ERROR',
         details: error instanceof Error ? error.message : 'Unknown error'
       }, { status: 500 });
@@ -103,8 +88,8 @@ export async function POST(request: NextRequest) {
     console.log('[TEST-TX] Starting address matching...');
     console.log('[TEST-TX] Looking for address:', normalizedExpectedAddress);
     
-    const matchingOutput = txData.vout.find((output, index) => {
-      const outputAddress = output.scriptpubkey_address?.trim();
+    const matchingOutput = txData.outputs.find((output, index) => {
+      const outputAddress = output.address?.trim();
       if (!outputAddress) {
         console.log(`[TEST-TX] Output ${index}: No address (likely OP_RETURN or other script)`);
         return false;
@@ -119,7 +104,7 @@ export async function POST(request: NextRequest) {
       console.log(`  Expected address: "${normalizedExpectedAddress}"`);
       console.log(`  Exact match:      ${exactMatch}`);
       console.log(`  Case-insensitive: ${caseInsensitiveMatch}`);
-      console.log(`  Value:            ${output.value} satoshis (${(output.value / 100000000).toFixed(8)} BTC)`);
+      console.log(`  Value:            ${output.amountBase} satoshis (${output.amount.toFixed(8)} BTC)`);
       
       return caseInsensitiveMatch;
     });
@@ -128,44 +113,38 @@ export async function POST(request: NextRequest) {
       console.log('[TEST-TX] ❌ NO MATCHING OUTPUT FOUND');
       console.log('[TEST-TX] Expected address:', normalizedExpectedAddress);
       console.log('[TEST-TX] All addresses in transaction:');
-      txData.vout.forEach((v, i) => {
-        console.log(`  ${i}: ${v.scriptpubkey_address || '(no address)'}`);
+      txData.outputs.forEach((v, i) => {
+        console.log(`  ${i}: ${v.address || '(no address)'}`);
       });
       
       return NextResponse.json({ 
         error: `Transaction was not sent to address ${normalizedExpectedAddress}`,
         code: 'NO_MATCHING_OUTPUT',
         expectedAddress: normalizedExpectedAddress,
-        actualAddresses: txData.vout.map(v => v.scriptpubkey_address).filter(Boolean),
+        actualAddresses: txData.outputs.map(v => v.address).filter(Boolean),
         hint: 'Please verify:\n1. You copied the correct Bitcoin address from your crypto addresses page\n2. The transaction was actually sent to this specific address\n3. Check the transaction on mempool.space to see where the funds were sent',
         mempoolUrl: `https://mempool.space/tx/${txid}`
       }, { status: 400 });
     }
 
     console.log('[TEST-TX] ✅ MATCH FOUND!');
-    console.log('[TEST-TX] Matched address:', matchingOutput.scriptpubkey_address);
-    console.log('[TEST-TX] Amount (satoshis):', matchingOutput.value);
+    console.log('[TEST-TX] Matched address:', matchingOutput.address);
+    console.log('[TEST-TX] Amount (satoshis):', Math.round(matchingOutput.amount * SATOSHIS_PER_COIN));
 
-    // Convert satoshis to BTC
-    const sentAmountBTC = matchingOutput.value / 100000000;
+    const sentAmountBTC = matchingOutput.amount;
     console.log('[TEST-TX] Amount (BTC):', sentAmountBTC);
 
     // Calculate confirmations
     let confirmations = 0;
     
-    if (txData.status.confirmed && txData.status.block_height) {
+    if (txData.confirmed) {
       try {
-        const tipResponse = await fetch('https://mempool.space/api/blocks/tip/height');
-        if (tipResponse.ok) {
-          const currentHeight = await tipResponse.json();
-          confirmations = currentHeight - txData.status.block_height + 1;
-          console.log('[TEST-TX] Current block height:', currentHeight);
-          console.log('[TEST-TX] Transaction block height:', txData.status.block_height);
-          console.log('[TEST-TX] Confirmations:', confirmations);
-        }
+        confirmations = await getConfirmations(provider, txData);
+        console.log('[TEST-TX] Transaction block height:', txData.blockHeight);
+        console.log('[TEST-TX] Confirmations:', confirmations);
       } catch (error) {
         console.error('[TEST-TX] Failed to fetch current block height:', error);
-        confirmations = txData.status.confirmed ? 1 : 0;
+        confirmations = 1;
       }
     } else {
       console.log('[TEST-TX] Transaction not yet confirmed (0 confirmations)');
@@ -174,10 +153,10 @@ export async function POST(request: NextRequest) {
     console.log('[TEST-TX] ✅ VERIFICATION SUCCESSFUL');
     console.log('[TEST-TX] Summary:');
     console.log(`  - Transaction ID: ${txData.txid}`);
-    console.log(`  - Matched Address: ${matchingOutput.scriptpubkey_address}`);
+    console.log(`  - Matched Address: ${matchingOutput.address}`);
     console.log(`  - Amount: ${sentAmountBTC} BTC`);
     console.log(`  - Confirmations: ${confirmations}`);
-    console.log(`  - Confirmed: ${txData.status.confirmed}`);
+    console.log(`  - Confirmed: ${txData.confirmed}`);
     console.log('==========================================');
 
     return NextResponse.json({ 
@@ -185,9 +164,9 @@ export async function POST(request: NextRequest) {
       amount: sentAmountBTC,
       confirmations,
       address: normalizedExpectedAddress,
-      matchedAddress: matchingOutput.scriptpubkey_address,
+      matchedAddress: matchingOutput.address,
       txid: txData.txid,
-      isConfirmed: txData.status.confirmed,
+      isConfirmed: txData.confirmed,
       mempoolUrl: `https://mempool.space/tx/${txid}`
     }, { status: 200 });
 
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { hashPassword, validatePasswordStrength, revokeUserSessions } from '@/lib/auth';
+
+// Set a temporary password for a user. They are signed out everywhere and must change it on next login.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const userId = parseInt(id);
+
+    if (!id || isNaN(userId) || userId <= 0) {
+      return NextResponse.json(
+        { error: 'Valid positive integer ID is required', code: 'INVALID_ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const passwordError = validatePasswordStrength(body.password);
+
+    if (passwordError) {
+      return NextResponse.json(
+        { error: passwordError, code: 'WEAK_PASSWORD' },
+        { status: 400 }
+      );
+    }
+
+    const updatedUser = await db.update(users)
+      .set({
+        passwordHash: await hashPassword(body.password),
+        mustChangePassword: true,
+      })
+      .where(eq(users.id, userId))
+      .returning({
+        id: users.id,
+        username: users.username,
+        mustChangePassword: users.mustChangePassword,
+      });
+
+    if (updatedUser.length === 0) {
+      return NextResponse.json(
+        { error: 'User not found', code: 'USER_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const revoked = await revokeUserSessions(userId);
+
+    return NextResponse.json({ user: updatedUser[0], revoked }, { status: 200 });
+  } catch (error) {
+    console.error('POST reset-password error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { users, productReviews, reviewImages, orders, orderItems, supportTickets, ticketMessages, trackingInfo, userRewardTiers } from '@/db/schema';
+import { users, productReviews, reviewImages, orders, orderItems, supportTickets, ticketMessages, trackingInfo, userRewardTiers, sessions, carts, cartItems, recoveryCodes, twoFactorChallenges, loginAttempts, subUserLimits, orderStatusHistory, stockReservations, inventoryMovements, stockSubscriptions, notifications, syncChangesets, priceHistory } from '@/db/schema';
 import { eq, inArray } from 'drizzle-orm';
 
 export async function DELETE(
@@ -50,7 +50,9 @@ export async function DELETE(
       trackingInfo: 0,
       orderItems: 0,
       orders: 0,
-      userRewardTiers: 0
+      userRewardTiers: 0,
+      sessions: 0,
+      cartItems: 0
     };
 
     // Step 1: Get user's order IDs for cascade deletion
@@ -122,6 +124,17 @@ export async function DELETE(
       console.log(`Deleted ${deletedRecords.orderItems} order items`);
     }
 
+    if (orderIds.length > 0) {
+      await db.delete(orderStatusHistory).where(inArray(orderStatusHistory.orderId, orderIds));
+      // The stock changes really happened, so the ledger keeps them without the order
+      await db.update(inventoryMovements).set({ orderId: null }).where(inArray(inventoryMovements.orderId, orderIds));
+    }
+    // Changes this user made to other people's orders stay in their timelines
+    await db.update(orderStatusHistory).set({ changedById: null }).where(eq(orderStatusHistory.changedById, userId));
+    await db.update(inventoryMovements).set({ userId: null }).where(eq(inventoryMovements.userId, userId));
+    await db.update(priceHistory).set({ userId: null }).where(eq(priceHistory.userId, userId));
+    await db.update(syncChangesets).set({ decidedById: null }).where(eq(syncChangesets.decidedById, userId));
+
     // Step 8: Delete orders (references users)
     console.log('Step 8: Deleting orders...');
     const deletedOrders = await db.delete(orders)
@@ -138,8 +151,47 @@ export async function DELETE(
     deletedRecords.userRewardTiers = deletedRewardTiers.length;
     console.log(`Deleted ${deletedRecords.userRewardTiers} user reward tier records`);
 
-    // Step 10: Finally delete the user record itself
-    console.log('Step 10: Deleting user record...');
+    // Step 10: Delete sessions, 2FA records and cart (reference users)
+    console.log('Step 10: Deleting sessions and cart...');
+    const deletedSessions = await db.delete(sessions)
+      .where(eq(sessions.userId, userId))
+      .returning();
+    deletedRecords.sessions = deletedSessions.length;
+
+    // Two-factor state has no value on its own, so it isn't counted
+    await db.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+    await db.delete(twoFactorChallenges).where(eq(twoFactorChallenges.userId, userId));
+
+    // Keep the sign-in history for auditing; it's still findable by username
+    await db.update(loginAttempts).set({ userId: null }).where(eq(loginAttempts.userId, userId));
+
+    // Other customers' orders and carts placed through this user's storefront stay, unattributed
+    await db.update(orders).set({ resellerId: null }).where(eq(orders.resellerId, userId));
+    await db.update(carts).set({ resellerId: null }).where(eq(carts.resellerId, userId));
+
+    // Sub-users can't spend without their parent, so a deleted parent's sub-users are suspended and detached
+    await db.update(users).set({ parentId: null, isActive: false }).where(eq(users.parentId, userId));
+    await db.update(orders).set({ payerId: null }).where(eq(orders.payerId, userId));
+    await db.delete(subUserLimits).where(eq(subUserLimits.userId, userId));
+    await db.delete(stockReservations).where(eq(stockReservations.userId, userId));
+    await db.delete(stockSubscriptions).where(eq(stockSubscriptions.userId, userId));
+    await db.delete(notifications).where(eq(notifications.userId, userId));
+
+    const userCarts = await db.select({ id: carts.id })
+      .from(carts)
+      .where(eq(carts.userId, userId));
+
+    if (userCarts.length > 0) {
+      const deletedCartItems = await db.delete(cartItems)
+        .where(inArray(cartItems.cartId, userCarts.map(cart => cart.id)))
+        .returning();
+      deletedRecords.cartItems = deletedCartItems.length;
+      await db.delete(carts).where(eq(carts.userId, userId));
+    }
+    console.log(`Deleted ${deletedRecords.sessions} sessions and ${deletedRecords.cartItems} cart items`);
+
+    // Step 11: Finally delete the user record itself
+    console.log('Step 11: Deleting user record...');
     const deletedUser = await db.delete(users)
       .where(eq(users.id, userId))
       .returning();
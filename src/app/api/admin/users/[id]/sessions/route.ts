@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { sessions } from '@/db/schema';
+import { eq, and, isNull, gt, desc } from 'drizzle-orm';
+import { revokeUserSessions } from '@/lib/auth';
+
+function parseUserId(id: string): number | null {
+  const userId = parseInt(id);
+  return !id || isNaN(userId) || userId <= 0 ? null : userId;
+}
+
+// List a user's active sessions (token hashes are never returned)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const userId = parseUserId(id);
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Valid positive integer ID is required', code: 'INVALID_ID' },
+        { status: 400 }
+      );
+    }
+
+    const activeSessions = await db.select({
+      id: sessions.id,
+      ipAddress: sessions.ipAddress,
+      userAgent: sessions.userAgent,
+      lastSeenAt: sessions.lastSeenAt,
+      expiresAt: sessions.expiresAt,
+      createdAt: sessions.createdAt,
+    })
+      .from(sessions)
+      .where(and(
+        eq(sessions.userId, userId),
+        isNull(sessions.revokedAt),
+        gt(sessions.expiresAt, new Date().toISOString())
+      ))
+      .orderBy(desc(sessions.lastSeenAt));
+
+    return NextResponse.json(activeSessions, { status: 200 });
+  } catch (error) {
+    console.error('GET sessions error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
+
+// Revoke one session (?sessionId=) or, without it, every session for the user
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const userId = parseUserId(id);
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Valid positive integer ID is required', code: 'INVALID_ID' },
+        { status: 400 }
+      );
+    }
+
+    const sessionId = request.nextUrl.searchParams.get('sessionId');
+
+    if (sessionId) {
+      if (isNaN(parseInt(sessionId))) {
+        return NextResponse.json(
+          { error: 'Valid session ID is required', code: 'INVALID_SESSION_ID' },
+          { status: 400 }
+        );
+      }
+
+      const revoked = await db.update(sessions)
+        .set({ revokedAt: new Date().toISOString() })
+        .where(and(
+          eq(sessions.id, parseInt(sessionId)),
+          eq(sessions.userId, userId),
+          isNull(sessions.revokedAt)
+        ))
+        .returning({ id: sessions.id });
+
+      if (revoked.length === 0) {
+        return NextResponse.json(
+          { error: 'Session not found', code: 'SESSION_NOT_FOUND' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({ message: 'Session revoked', revoked: 1 }, { status: 200 });
+    }
+
+    const revoked = await revokeUserSessions(userId);
+    return NextResponse.json({ message: 'All sessions revoked', revoked }, { status: 200 });
+  } catch (error) {
+    console.error('DELETE sessions error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { unlockUsername } from '@/lib/login-throttle';
+
+// Clear a username's failed-login backoff or lockout before it expires
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const userId = parseInt(id);
+
+    if (!id || isNaN(userId) || userId <= 0) {
+      return NextResponse.json(
+        { error: 'Valid positive integer ID is required', code: 'INVALID_ID' },
+        { status: 400 }
+      );
+    }
+
+    const user = await db.select({ username: users.username })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (user.length === 0) {
+      return NextResponse.json(
+        { error: 'User not found', code: 'USER_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const wasLocked = await unlockUsername(user[0].username);
+
+    return NextResponse.json({ unlocked: wasLocked }, { status: 200 });
+  } catch (error) {
+    console.error('POST unlock error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import {
+  getRequestToken,
+  validateSession,
+  verifyPassword,
+  hashPassword,
+  validatePasswordStrength,
+  revokeUserSessions,
+} from '@/lib/auth';
+
+// Change the current user's password. Clears mustChangePassword and signs out every other device.
+export async function POST(request: NextRequest) {
+  try {
+    const token = getRequestToken(request);
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'No token provided', code: 'NO_TOKEN' },
+        { status: 401 }
+      );
+    }
+
+    const session = await validateSession(token);
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token', code: 'INVALID_TOKEN' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { currentPassword, newPassword } = body;
+
+    if (!currentPassword || !newPassword) {
+      return NextResponse.json(
+        { error: 'Current and new password are required', code: 'MISSING_PASSWORD' },
+        { status: 400 }
+      );
+    }
+
+    const passwordError = validatePasswordStrength(newPassword);
+    if (passwordError) {
+      return NextResponse.json(
+        { error: passwordError, code: 'WEAK_PASSWORD' },
+        { status: 400 }
+      );
+    }
+
+    if (currentPassword === newPassword) {
+      return NextResponse.json(
+        { error: 'New password must be different from the current password', code: 'PASSWORD_UNCHANGED' },
+        { status: 400 }
+      );
+    }
+
+    const user = await db.select()
+      .from(users)
+      .where(eq(users.id, session.userId))
+      .limit(1);
+
+    if (user.length === 0 || !(await verifyPassword(currentPassword, user[0].passwordHash))) {
+      return NextResponse.json(
+        { error: 'Current password is incorrect', code: 'INVALID_CREDENTIALS' },
+        { status: 401 }
+      );
+    }
+
+    await db.update(users)
+      .set({
+        passwordHash: await hashPassword(newPassword),
+        mustChangePassword: false,
+      })
+      .where(eq(users.id, session.userId));
+
+    const revoked = await revokeUserSessions(session.userId, session.sessionId);
+
+    return NextResponse.json({ message: 'Password changed successfully', revoked });
+  } catch (error) {
+    console.error('Change password error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    );
+  }
+}
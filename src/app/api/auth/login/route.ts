@@ -3,15 +3,16 @@ import { db } from '@/db';
 import { users } from '@/db/schema';
 import { eq } from 'drizzle-orm';
 import bcrypt from 'bcrypt';
-import { generateSessionToken } from '@/lib/auth';
-
-// In-memory session store (in production, use Redis or database)
-const sessions = new Map<string, {
-  userId: number;
-  username: string;
-  role: string;
-  expiresAt: number;
-}>();
+import { validateSession, getRequestMeta, createLoginResponse } from '@/lib/auth';
+import { createTwoFactorChallenge } from '@/lib/two-factor';
+import {
+  countLoginAttempt,
+  forgiveLoginAttempt,
+  recordLoginSuccess,
+  recordLoginAttempt,
+  throttledResponse,
+  LoginAttemptReason,
+} from '@/lib/login-throttle';
 
 export async function POST(request: NextRequest) {
   try {
@@ -26,13 +27,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const normalizedUsername = username.toLowerCase().trim();
+    const meta = getRequestMeta(request);
+    const logAttempt = (success: boolean, reason: LoginAttemptReason, userId?: number) =>
+      recordLoginAttempt({ username: normalizedUsername, userId, ...meta, success, reason });
+
+    // Counted as a failure up front; refused outright while this username or IP is backing off or locked out
+    const throttle = await countLoginAttempt(normalizedUsername, meta.ipAddress);
+    if (throttle) {
+      await logAttempt(false, throttle.locked ? 'locked' : 'throttled');
+      return throttledResponse(throttle);
+    }
+
     // Find user by username
     const user = await db.select()
       .from(users)
-      .where(eq(users.username, username.toLowerCase().trim()))
+      .where(eq(users.username, normalizedUsername))
       .limit(1);
 
     if (user.length === 0) {
+      await logAttempt(false, 'unknown_user');
       return NextResponse.json(
         { error: 'Invalid credentials', code: 'INVALID_CREDENTIALS' },
         { status: 401 }
@@ -43,6 +57,7 @@ export async function POST(request: NextRequest) {
 
     // Check if user is active
     if (!foundUser.isActive) {
+      await logAttempt(false, 'account_disabled', foundUser.id);
       return NextResponse.json(
         { error: 'Account is disabled', code: 'ACCOUNT_DISABLED' },
         { status: 403 }
@@ -53,34 +68,29 @@ export async function POST(request: NextRequest) {
     const isValidPassword = await bcrypt.compare(password, foundUser.passwordHash);
 
     if (!isValidPassword) {
+      await logAttempt(false, 'invalid_password', foundUser.id);
       return NextResponse.json(
         { error: 'Invalid credentials', code: 'INVALID_CREDENTIALS' },
         { status: 401 }
       );
     }
 
-    // Generate session token
-    const sessionToken = generateSessionToken();
-    const expiresAt = Date.now() + (7 * 24 * 60 * 60 * 1000); // 7 days
+    // With 2FA on, the password alone only earns a short-lived challenge for the code step
+    if (foundUser.totpEnabled) {
+      await forgiveLoginAttempt(normalizedUsername, meta.ipAddress);
+      const challenge = await createTwoFactorChallenge(foundUser.id);
 
-    // Store session
-    sessions.set(sessionToken, {
-      userId: foundUser.id,
-      username: foundUser.username,
-      role: foundUser.role,
-      expiresAt,
-    });
+      return NextResponse.json({
+        requiresTwoFactor: true,
+        challengeToken: challenge.token,
+        expiresAt: challenge.expiresAt,
+      });
+    }
 
-    // Return session data
-    return NextResponse.json({
-      token: sessionToken,
-      user: {
-        id: foundUser.id,
-        username: foundUser.username,
-        role: foundUser.role,
-      },
-      expiresAt,
-    });
+    await recordLoginSuccess(normalizedUsername, meta.ipAddress);
+    await logAttempt(true, 'success', foundUser.id);
+
+    return await createLoginResponse(foundUser, request);
 
   } catch (error) {
     console.error('Login error:', error);
@@ -104,19 +114,11 @@ export async function GET(request: NextRequest) {
     }
 
     const token = authHeader.substring(7);
-    const session = sessions.get(token);
+    const session = await validateSession(token, getRequestMeta(request));
 
     if (!session) {
       return NextResponse.json(
-        { error: 'Invalid token', code: 'INVALID_TOKEN' },
-        { status: 401 }
-      );
-    }
-
-    if (Date.now() > session.expiresAt) {
-      sessions.delete(token);
-      return NextResponse.json(
-        { error: 'Token expired', code: 'TOKEN_EXPIRED' },
+        { error: 'Invalid or expired token', code: 'INVALID_TOKEN' },
         { status: 401 }
       );
     }
@@ -127,6 +129,8 @@ export async function GET(request: NextRequest) {
         id: session.userId,
         username: session.username,
         role: session.role,
+        mustChangePassword: session.mustChangePassword,
+        twoFactorSetupRequired: session.twoFactorSetupRequired,
       },
     });
 
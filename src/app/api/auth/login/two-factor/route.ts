@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createLoginResponse, getRequestMeta } from '@/lib/auth';
+import { completeTwoFactorChallenge, getChallengeUser } from '@/lib/two-factor';
+import {
+  countLoginAttempt,
+  recordLoginSuccess,
+  recordLoginAttempt,
+  throttledResponse,
+} from '@/lib/login-throttle';
+
+// Second login step: exchange the challenge from the password step plus a TOTP or recovery code for a session
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { challengeToken, code } = body;
+
+    if (!challengeToken || !code || typeof code !== 'string') {
+      return NextResponse.json(
+        { error: 'Challenge token and code are required', code: 'MISSING_CODE' },
+        { status: 400 }
+      );
+    }
+
+    const meta = getRequestMeta(request);
+
+    // The username isn't known until the challenge resolves, but the IP limit applies up front
+    const ipThrottle = await countLoginAttempt(null, meta.ipAddress);
+    if (ipThrottle) {
+      return throttledResponse(ipThrottle);
+    }
+
+    // Throttle on the challenge's user before the code is tried, so a blocked account spends no codes
+    const challengeUser = await getChallengeUser(challengeToken);
+    if (!challengeUser) {
+      return NextResponse.json(
+        { error: 'Login attempt expired. Please sign in again.', code: 'INVALID_CHALLENGE' },
+        { status: 401 }
+      );
+    }
+
+    const throttle = await countLoginAttempt(challengeUser.username, null);
+    if (throttle) {
+      await recordLoginAttempt({ username: challengeUser.username, userId: challengeUser.id, ...meta, success: false, reason: throttle.locked ? 'locked' : 'throttled' });
+      return throttledResponse(throttle);
+    }
+
+    const result = await completeTwoFactorChallenge(challengeToken, code);
+
+    if (result.status === 'invalid_challenge') {
+      return NextResponse.json(
+        { error: 'Login attempt expired. Please sign in again.', code: 'INVALID_CHALLENGE' },
+        { status: 401 }
+      );
+    }
+
+    const { user } = result;
+
+    if (result.status === 'invalid_code') {
+      await recordLoginAttempt({ username: user.username, userId: user.id, ...meta, success: false, reason: 'invalid_code' });
+      return NextResponse.json(
+        { error: 'Invalid authentication code', code: 'INVALID_CODE' },
+        { status: 401 }
+      );
+    }
+
+    if (!user.isActive) {
+      return NextResponse.json(
+        { error: 'Account is disabled', code: 'ACCOUNT_DISABLED' },
+        { status: 403 }
+      );
+    }
+
+    await recordLoginSuccess(user.username, meta.ipAddress);
+    await recordLoginAttempt({ username: user.username, userId: user.id, ...meta, success: true, reason: 'success' });
+
+    return await createLoginResponse(user, request);
+
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    );
+  }
+}
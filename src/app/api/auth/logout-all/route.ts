@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestToken, validateSession, revokeUserSessions } from '@/lib/auth';
+
+// Log out every device for the current user. Pass { keepCurrent: true } to stay signed in here.
+export async function POST(request: NextRequest) {
+  try {
+    const token = getRequestToken(request);
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'No token provided', code: 'NO_TOKEN' },
+        { status: 401 }
+      );
+    }
+
+    const session = await validateSession(token);
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token', code: 'INVALID_TOKEN' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const revoked = await revokeUserSessions(
+      session.userId,
+      body.keepCurrent ? session.sessionId : undefined
+    );
+
+    const response = NextResponse.json({ message: 'Logged out of all devices', revoked });
+    if (!body.keepCurrent) {
+      response.cookies.delete('auth_token');
+    }
+    return response;
+  } catch (error) {
+    console.error('Logout all error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    );
+  }
+}
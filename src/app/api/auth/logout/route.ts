@@ -1,18 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-// Same session store as login (in production, use shared store)
-const sessions = new Map();
+import { getRequestToken, revokeSession } from '@/lib/auth';
 
 export async function POST(request: NextRequest) {
   try {
-    const authHeader = request.headers.get('Authorization');
-    
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      const token = authHeader.substring(7);
-      sessions.delete(token);
+    const token = getRequestToken(request);
+
+    if (token) {
+      await revokeSession(token);
     }
 
-    return NextResponse.json({ message: 'Logged out successfully' });
+    const response = NextResponse.json({ message: 'Logged out successfully' });
+    response.cookies.delete('auth_token');
+    return response;
   } catch (error) {
     console.error('Logout error:', error);
     return NextResponse.json(
@@ -20,4 +19,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { hasAdminUser, getEnvAdminCredentials, hashPassword, validatePasswordStrength } from '@/lib/auth';
+
+// Setup status for the first-run wizard
+export async function GET() {
+  try {
+    const setupRequired = !(await hasAdminUser());
+
+    return NextResponse.json({
+      setupRequired,
+      envConfigured: setupRequired && getEnvAdminCredentials() !== null,
+    });
+  } catch (error) {
+    console.error('Setup status error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create the first admin account. Refuses to run once any admin exists.
+export async function POST(request: NextRequest) {
+  try {
+    if (await hasAdminUser()) {
+      return NextResponse.json(
+        { error: 'Setup has already been completed', code: 'SETUP_COMPLETE' },
+        { status: 409 }
+      );
+    }
+
+    // With SETUP_ADMIN_USERNAME / SETUP_ADMIN_PASSWORD set, those are the only admin setup creates,
+    // whatever an anonymous caller posts
+    const envCredentials = getEnvAdminCredentials();
+    const useEnv = envCredentials !== null;
+    const body = useEnv ? {} : await request.json().catch(() => ({}));
+    const username = useEnv ? envCredentials.username : String(body.username ?? '').trim().toLowerCase();
+    const password = useEnv ? envCredentials.password : body.password;
+
+    const usernameRegex = /^[a-z0-9_-]{3,20}$/;
+    if (!usernameRegex.test(username)) {
+      return NextResponse.json(
+        {
+          error: 'Username must be 3-20 characters and contain only letters, numbers, underscore, or hyphen',
+          code: 'INVALID_USERNAME_FORMAT'
+        },
+        { status: 400 }
+      );
+    }
+
+    const passwordError = validatePasswordStrength(password);
+    if (passwordError) {
+      return NextResponse.json(
+        { error: passwordError, code: 'WEAK_PASSWORD' },
+        { status: 400 }
+      );
+    }
+
+    const passwordHash = await hashPassword(password);
+
+    // Checked again inside the write transaction, so two concurrent setups can't both create an admin
+    const result = await db.transaction(async (tx) => {
+      if (await hasAdminUser(tx)) {
+        return { status: 'setup_complete' as const };
+      }
+
+      const existingUser = await tx.select({ id: users.id })
+        .from(users)
+        .where(eq(users.username, username))
+        .limit(1);
+
+      if (existingUser.length > 0) {
+        return { status: 'username_taken' as const };
+      }
+
+      const [admin] = await tx.insert(users)
+        .values({
+          username,
+          passwordHash,
+          role: 'admin',
+          isActive: true,
+          // A password read from the environment sits in deployment config, so rotate it on first login
+          mustChangePassword: useEnv,
+          createdAt: new Date().toISOString(),
+        })
+        .returning({
+          id: users.id,
+          username: users.username,
+          role: users.role,
+        });
+
+      return { status: 'ok' as const, admin };
+    });
+
+    if (result.status === 'setup_complete') {
+      return NextResponse.json(
+        { error: 'Setup has already been completed', code: 'SETUP_COMPLETE' },
+        { status: 409 }
+      );
+    }
+
+    if (result.status === 'username_taken') {
+      return NextResponse.json(
+        { error: 'Username already exists', code: 'USERNAME_ALREADY_EXISTS' },
+        { status: 409 }
+      );
+    }
+
+    console.log(`✅ Initial admin user "${username}" created${useEnv ? ' from environment' : ''}`);
+
+    return NextResponse.json({ user: result.admin }, { status: 201 });
+  } catch (error) {
+    console.error('Setup error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    );
+  }
+}
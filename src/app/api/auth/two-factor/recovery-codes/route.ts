@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { getRequestSession } from '@/lib/auth';
+import { verifySecondFactor, regenerateRecoveryCodes } from '@/lib/two-factor';
+
+// Replace the recovery codes; requires a current authentication code
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getRequestSession(request);
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token', code: 'INVALID_TOKEN' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { code } = body;
+
+    if (!code || typeof code !== 'string') {
+      return NextResponse.json(
+        { error: 'Authentication code is required', code: 'MISSING_CODE' },
+        { status: 400 }
+      );
+    }
+
+    const user = await db.select()
+      .from(users)
+      .where(eq(users.id, session.userId))
+      .limit(1);
+
+    if (user.length === 0 || !user[0].totpEnabled) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is not enabled', code: 'NOT_ENABLED' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await verifySecondFactor(user[0], code))) {
+      return NextResponse.json(
+        { error: 'Invalid authentication code', code: 'INVALID_CODE' },
+        { status: 401 }
+      );
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(session.userId);
+
+    return NextResponse.json({ recoveryCodes });
+  } catch (error) {
+    console.error('Recovery codes error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { getRequestSession, verifyPassword, isTwoFactorRequired } from '@/lib/auth';
+import { countRemainingRecoveryCodes, verifySecondFactor, disableTwoFactor } from '@/lib/two-factor';
+
+// Two-factor status for the current user
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getRequestSession(request);
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token', code: 'INVALID_TOKEN' },
+        { status: 401 }
+      );
+    }
+
+    const user = await db.select({ totpEnabled: users.totpEnabled })
+      .from(users)
+      .where(eq(users.id, session.userId))
+      .limit(1);
+
+    const enabled = !!user[0]?.totpEnabled;
+
+    return NextResponse.json({
+      enabled,
+      required: isTwoFactorRequired(session),
+      recoveryCodesRemaining: enabled ? await countRemainingRecoveryCodes(session.userId) : 0,
+    });
+  } catch (error) {
+    console.error('Two-factor status error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    );
+  }
+}
+
+// Turn 2FA off. Needs the password and a current code; not allowed where 2FA is mandatory.
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getRequestSession(request);
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token', code: 'INVALID_TOKEN' },
+        { status: 401 }
+      );
+    }
+
+    if (isTwoFactorRequired(session)) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is mandatory for this account', code: 'TWO_FACTOR_MANDATORY' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { password, code } = body;
+
+    if (!password || !code) {
+      return NextResponse.json(
+        { error: 'Password and authentication code are required', code: 'MISSING_CREDENTIALS' },
+        { status: 400 }
+      );
+    }
+
+    const user = await db.select()
+      .from(users)
+      .where(eq(users.id, session.userId))
+      .limit(1);
+
+    if (user.length === 0 || !(await verifyPassword(password, user[0].passwordHash))) {
+      return NextResponse.json(
+        { error: 'Password is incorrect', code: 'INVALID_CREDENTIALS' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await verifySecondFactor(user[0], code))) {
+      return NextResponse.json(
+        { error: 'Invalid authentication code', code: 'INVALID_CODE' },
+        { status: 401 }
+      );
+    }
+
+    await disableTwoFactor(session.userId);
+
+    return NextResponse.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    console.error('Two-factor disable error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    );
+  }
+}
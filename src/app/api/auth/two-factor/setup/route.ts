@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import QRCode from 'qrcode';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { getRequestSession } from '@/lib/auth';
+import { generateTotpSecret, buildOtpauthUrl } from '@/lib/totp';
+import { TOTP_ISSUER } from '@/lib/two-factor';
+
+// Start enrollment: store a pending secret and return it as text and as a QR code
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getRequestSession(request);
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token', code: 'INVALID_TOKEN' },
+        { status: 401 }
+      );
+    }
+
+    const user = await db.select({ totpEnabled: users.totpEnabled })
+      .from(users)
+      .where(eq(users.id, session.userId))
+      .limit(1);
+
+    if (user[0]?.totpEnabled) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled', code: 'ALREADY_ENABLED' },
+        { status: 409 }
+      );
+    }
+
+    // The live secret only changes once the user proves their app has the new one
+    const secret = generateTotpSecret();
+    await db.update(users)
+      .set({ totpPendingSecret: secret })
+      .where(eq(users.id, session.userId));
+
+    const otpauthUrl = buildOtpauthUrl(TOTP_ISSUER, session.username, secret);
+    const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl);
+
+    return NextResponse.json({ secret, otpauthUrl, qrCodeDataUrl });
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { getRequestSession } from '@/lib/auth';
+import { verifyUserTotp, regenerateRecoveryCodes } from '@/lib/two-factor';
+
+// Finish enrollment: a valid code for the pending secret turns 2FA on and returns the recovery codes once
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getRequestSession(request);
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token', code: 'INVALID_TOKEN' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { code } = body;
+
+    if (!code || typeof code !== 'string') {
+      return NextResponse.json(
+        { error: 'Authentication code is required', code: 'MISSING_CODE' },
+        { status: 400 }
+      );
+    }
+
+    const user = await db.select()
+      .from(users)
+      .where(eq(users.id, session.userId))
+      .limit(1);
+
+    const pendingSecret = user[0]?.totpPendingSecret;
+
+    if (!pendingSecret) {
+      return NextResponse.json(
+        { error: 'Start two-factor setup first', code: 'NO_PENDING_SETUP' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await verifyUserTotp(user[0], pendingSecret, code))) {
+      return NextResponse.json(
+        { error: 'Invalid authentication code', code: 'INVALID_CODE' },
+        { status: 400 }
+      );
+    }
+
+    await db.update(users)
+      .set({
+        totpSecret: pendingSecret,
+        totpPendingSecret: null,
+        totpEnabled: true,
+      })
+      .where(eq(users.id, session.userId));
+
+    const recoveryCodes = await regenerateRecoveryCodes(session.userId);
+
+    return NextResponse.json({ enabled: true, recoveryCodes });
+  } catch (error) {
+    console.error('Two-factor verify error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrCreateCart, acknowledgeCartPrices, buildCartView } from '@/lib/cart-store';
+import { getRequestUser, canAccessUser, forbiddenResponse } from '@/lib/authz';
+
+// Customer has seen the price changes flagged on their cart; record the current prices as the new baseline
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const userId = Number(body.userId);
+
+    if (!Number.isInteger(userId) || userId <= 0) {
+      return NextResponse.json(
+        { error: 'Valid userId is required', code: 'INVALID_USER_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!canAccessUser(getRequestUser(request), userId)) {
+      return forbiddenResponse();
+    }
+
+    const cart = await getOrCreateCart(userId);
+    await acknowledgeCartPrices(cart.id);
+
+    const view = await buildCartView(cart.id);
+    return NextResponse.json(view, { status: 200 });
+  } catch (error) {
+    console.error('POST /api/cart/acknowledge-prices error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
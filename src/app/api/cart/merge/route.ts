@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrCreateCart, addCartLine, buildCartView } from '@/lib/cart-store';
+import { getRequestUser, canAccessUser, forbiddenResponse } from '@/lib/authz';
+
+// Merge a cart kept on the device (pre-login or legacy localStorage) into the user's database cart
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const userId = Number(body.userId);
+    const items = body.items;
+
+    if (!Number.isInteger(userId) || userId <= 0) {
+      return NextResponse.json(
+        { error: 'Valid userId is required', code: 'INVALID_USER_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!canAccessUser(getRequestUser(request), userId)) {
+      return forbiddenResponse();
+    }
+
+    if (!Array.isArray(items)) {
+      return NextResponse.json(
+        { error: 'items must be an array', code: 'INVALID_ITEMS' },
+        { status: 400 }
+      );
+    }
+
+    const cart = await getOrCreateCart(userId);
+    let merged = 0;
+    let skipped = 0;
+
+    for (const item of items) {
+      const productId = Number(item?.productId);
+      const quantity = Number(item?.quantity);
+      const variantIds: number[] = Array.isArray(item?.variantIds) ? item.variantIds.map(Number) : [];
+
+      const isValid = Number.isInteger(productId) && productId > 0
+        && Number.isInteger(quantity) && quantity > 0
+        && variantIds.every(id => Number.isInteger(id) && id > 0);
+
+      if (isValid && await addCartLine(cart.id, { productId, variantIds, quantity })) {
+        merged++;
+      } else {
+        skipped++;
+      }
+    }
+
+    const view = await buildCartView(cart.id);
+    return NextResponse.json({ ...view, merged, skipped }, { status: 200 });
+  } catch (error) {
+    console.error('POST /api/cart/merge error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,247 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { carts, cartItems, products } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { getOrCreateCart, addCartLine, buildCartView, setCartStore } from '@/lib/cart-store';
+import { getStorefrontBySlug } from '@/lib/storefront';
+import { getSubUserPolicy, isCategoryAllowed } from '@/lib/sub-users';
+import { getRequestUser, canAccessUser, forbiddenResponse } from '@/lib/authz';
+
+function parseUserId(value: unknown): number | null {
+  const userId = typeof value === 'number' ? value : parseInt(String(value ?? ''));
+  return Number.isInteger(userId) && userId > 0 ? userId : null;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = parseUserId(request.nextUrl.searchParams.get('userId'));
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Valid userId is required', code: 'INVALID_USER_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!canAccessUser(getRequestUser(request), userId)) {
+      return forbiddenResponse();
+    }
+
+    const cart = await getOrCreateCart(userId);
+    const view = await buildCartView(cart.id);
+
+    return NextResponse.json(view, { status: 200 });
+  } catch (error) {
+    console.error('GET /api/cart error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const userId = parseUserId(body.userId);
+    const productId = Number(body.productId);
+    const quantity = Number(body.quantity ?? 1);
+    const variantIds: number[] = Array.isArray(body.variantIds) ? body.variantIds.map(Number) : [];
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Valid userId is required', code: 'INVALID_USER_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!canAccessUser(getRequestUser(request), userId)) {
+      return forbiddenResponse();
+    }
+
+    if (!Number.isInteger(productId) || productId <= 0) {
+      return NextResponse.json(
+        { error: 'Valid productId is required', code: 'INVALID_PRODUCT_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      return NextResponse.json(
+        { error: 'quantity must be a positive integer', code: 'INVALID_QUANTITY' },
+        { status: 400 }
+      );
+    }
+
+    if (variantIds.some(id => !Number.isInteger(id) || id <= 0)) {
+      return NextResponse.json(
+        { error: 'variantIds must contain valid integers', code: 'INVALID_VARIANT_ID' },
+        { status: 400 }
+      );
+    }
+
+    // Checkout enforces this too; rejecting here saves the sub-user a surprise at the end
+    const subUser = await getSubUserPolicy(userId);
+    if (subUser?.allowedCategories) {
+      const [product] = await db.select({ mainCategory: products.mainCategory })
+        .from(products)
+        .where(eq(products.id, productId))
+        .limit(1);
+
+      if (product && !isCategoryAllowed(subUser, product.mainCategory)) {
+        return NextResponse.json(
+          { error: 'This product is not in a category your account can order from', code: 'CATEGORY_NOT_ALLOWED' },
+          { status: 403 }
+        );
+      }
+    }
+
+    // Items added from a reseller storefront attribute the cart to that store
+    let resellerId: number | null = null;
+    if (body.storeSlug) {
+      const store = await getStorefrontBySlug(String(body.storeSlug));
+      if (!store) {
+        return NextResponse.json(
+          { error: 'Store not found', code: 'STORE_NOT_FOUND' },
+          { status: 404 }
+        );
+      }
+      // Resellers buying from their own store pay the regular price
+      resellerId = store.id === userId ? null : store.id;
+    }
+
+    const cart = await getOrCreateCart(userId);
+    if (cart.resellerId !== resellerId) {
+      await setCartStore(cart.id, resellerId);
+    }
+
+    const added = await addCartLine(cart.id, { productId, variantIds, quantity });
+
+    if (!added) {
+      return NextResponse.json(
+        { error: 'Product or selected variant is not available', code: 'PRODUCT_UNAVAILABLE' },
+        { status: 400 }
+      );
+    }
+
+    const view = await buildCartView(cart.id);
+    return NextResponse.json(view, { status: 201 });
+  } catch (error) {
+    console.error('POST /api/cart error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+
+    if (!id || isNaN(parseInt(id))) {
+      return NextResponse.json(
+        { error: 'Valid ID is required', code: 'INVALID_ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const userId = parseUserId(body.userId);
+    const quantity = Number(body.quantity);
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Valid userId is required', code: 'INVALID_USER_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!canAccessUser(getRequestUser(request), userId)) {
+      return forbiddenResponse();
+    }
+
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      return NextResponse.json(
+        { error: 'quantity must be a non-negative integer', code: 'INVALID_QUANTITY' },
+        { status: 400 }
+      );
+    }
+
+    const cart = await getOrCreateCart(userId);
+    const lineCondition = and(eq(cartItems.id, parseInt(id)), eq(cartItems.cartId, cart.id));
+
+    const existing = await db.select().from(cartItems).where(lineCondition).limit(1);
+    if (existing.length === 0) {
+      return NextResponse.json(
+        { error: 'Cart item not found', code: 'CART_ITEM_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const timestamp = new Date().toISOString();
+
+    if (quantity === 0) {
+      await db.delete(cartItems).where(lineCondition);
+    } else {
+      await db.update(cartItems).set({ quantity, updatedAt: timestamp }).where(lineCondition);
+    }
+
+    await db.update(carts).set({ updatedAt: timestamp }).where(eq(carts.id, cart.id));
+
+    const view = await buildCartView(cart.id);
+    return NextResponse.json(view, { status: 200 });
+  } catch (error) {
+    console.error('PUT /api/cart error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const id = searchParams.get('id');
+    const userId = parseUserId(searchParams.get('userId'));
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Valid userId is required', code: 'INVALID_USER_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!canAccessUser(getRequestUser(request), userId)) {
+      return forbiddenResponse();
+    }
+
+    if (id && isNaN(parseInt(id))) {
+      return NextResponse.json(
+        { error: 'Valid ID is required', code: 'INVALID_ID' },
+        { status: 400 }
+      );
+    }
+
+    const cart = await getOrCreateCart(userId);
+
+    // Without an id the whole cart is cleared
+    if (id) {
+      await db.delete(cartItems).where(and(eq(cartItems.id, parseInt(id)), eq(cartItems.cartId, cart.id)));
+    } else {
+      await db.delete(cartItems).where(eq(cartItems.cartId, cart.id));
+    }
+
+    await db.update(carts).set({ updatedAt: new Date().toISOString() }).where(eq(carts.id, cart.id));
+
+    const view = await buildCartView(cart.id);
+    return NextResponse.json(view, { status: 200 });
+  } catch (error) {
+    console.error('DELETE /api/cart error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { reserveCartStock, releaseReservations, RESERVATION_MINUTES } from '@/lib/inventory';
+import { getRequestUser, canAccessUser, forbiddenResponse } from '@/lib/authz';
+
+function parseUserId(value: unknown): number | null {
+  const userId = typeof value === 'number' ? value : parseInt(String(value ?? ''));
+  return Number.isInteger(userId) && userId > 0 ? userId : null;
+}
+
+// Called when checkout starts: holds the stock for the whole server cart
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const userId = parseUserId(body.userId);
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'userId must be a valid integer', code: 'INVALID_USER_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!canAccessUser(getRequestUser(request), userId)) {
+      return forbiddenResponse();
+    }
+
+    const result = await reserveCartStock(userId);
+
+    if (result.status === 'insufficient') {
+      return NextResponse.json(
+        { error: 'Some items do not have enough stock', code: 'INSUFFICIENT_STOCK', shortages: result.shortages },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { expiresAt: result.expiresAt, holdMinutes: RESERVATION_MINUTES },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('POST reserve error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
+
+// Gives the hold back early when checkout is abandoned or fails
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = parseUserId(request.nextUrl.searchParams.get('userId'));
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'userId must be a valid integer', code: 'INVALID_USER_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!canAccessUser(getRequestUser(request), userId)) {
+      return forbiddenResponse();
+    }
+
+    await releaseReservations(db, userId);
+
+    return NextResponse.json({ released: true }, { status: 200 });
+  } catch (error) {
+    console.error('DELETE reserve error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,321 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { users, products, productVariants, bulkPricingRules, orders, orderItems, carts, cartItems } from '@/db/schema';
+import { eq, and, or, inArray, sql } from 'drizzle-orm';
+import { loadActiveMarkups, priceLine, roundCurrency, applyStoreMarkup } from '@/lib/pricing';
+import { getStorefrontById } from '@/lib/storefront';
+import { getSubUserPolicy, isCategoryAllowed, getMonthlySpend } from '@/lib/sub-users';
+import { SHIPPING_RATES, ShippingMethod } from '@/lib/shipping';
+import { recordStatusChange } from '@/lib/order-history';
+import { commitOrderStock } from '@/lib/inventory';
+import { getRequestUser, canAccessUser, forbiddenResponse } from '@/lib/authz';
+import { postLedgerEntry, SYSTEM_ACCOUNTS } from '@/lib/ledger';
+import { toVariantKey } from '@/lib/cart';
+
+interface CheckoutLine {
+  productId: number;
+  variantIds: number[];
+  quantity: number;
+}
+
+// Thrown inside the transaction so drizzle rolls it back; mapped to a JSON response below
+class CheckoutError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status: number = 400,
+    public details: Record<string, unknown> = {}
+  ) {
+    super(message);
+  }
+}
+
+function parseLines(items: unknown): CheckoutLine[] {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new CheckoutError('items must be a non-empty array', 'MISSING_ITEMS');
+  }
+
+  return items.map((item: any, index: number) => {
+    const productId = Number(item?.productId);
+    const quantity = Number(item?.quantity);
+    const variantIds = Array.isArray(item?.variantIds) ? item.variantIds.map(Number) : [];
+
+    if (!Number.isInteger(productId) || productId <= 0) {
+      throw new CheckoutError(`items[${index}].productId must be a valid integer`, 'INVALID_PRODUCT_ID');
+    }
+
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new CheckoutError(`items[${index}].quantity must be a positive integer`, 'INVALID_QUANTITY');
+    }
+
+    if (variantIds.some((id: number) => !Number.isInteger(id) || id <= 0)) {
+      throw new CheckoutError(`items[${index}].variantIds must contain valid integers`, 'INVALID_VARIANT_ID');
+    }
+
+    // Each variant's price modifier counts once; a repeated id would apply it again
+    if (new Set(variantIds).size !== variantIds.length) {
+      throw new CheckoutError(`items[${index}].variantIds must not repeat a variant`, 'DUPLICATE_VARIANT_ID');
+    }
+
+    return { productId, quantity, variantIds };
+  });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userId, items, shippingAddress, shippingMethod = 'standard', notes } = body;
+
+    if (!userId || typeof userId !== 'number' || isNaN(userId)) {
+      return NextResponse.json(
+        { error: 'userId must be a valid integer', code: 'INVALID_USER_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!canAccessUser(getRequestUser(request), userId)) {
+      return forbiddenResponse();
+    }
+
+    if (!shippingAddress || typeof shippingAddress !== 'string' || !shippingAddress.trim()) {
+      return NextResponse.json(
+        { error: 'shippingAddress is required', code: 'MISSING_SHIPPING_ADDRESS' },
+        { status: 400 }
+      );
+    }
+
+    if (!(shippingMethod in SHIPPING_RATES)) {
+      return NextResponse.json(
+        { error: `shippingMethod must be one of: ${Object.keys(SHIPPING_RATES).join(', ')}`, code: 'INVALID_SHIPPING_METHOD' },
+        { status: 400 }
+      );
+    }
+
+    const lines = parseLines(items);
+    const shipping = SHIPPING_RATES[shippingMethod as ShippingMethod];
+    const activeMarkups = await loadActiveMarkups();
+
+    // A cart shopped through a reseller storefront is priced, and the order attributed, to that store
+    const [userCartRow] = await db.select().from(carts).where(eq(carts.userId, userId)).limit(1);
+    const store = userCartRow?.resellerId ? await getStorefrontById(userCartRow.resellerId) : null;
+
+    // Sub-users spend their parent's credits, within the limits the parent set
+    const subUser = await getSubUserPolicy(userId);
+    if (subUser && !subUser.parentActive) {
+      return NextResponse.json(
+        { error: 'Purchasing is disabled for this account', code: 'SUB_USER_DISABLED' },
+        { status: 403 }
+      );
+    }
+    const payerId = subUser ? subUser.parentId : userId;
+    const monthlySpend = subUser?.monthlyCap != null ? await getMonthlySpend(userId) : 0;
+
+    const result = await db.transaction(async (tx) => {
+      const productIds = [...new Set(lines.map(l => l.productId))];
+      const variantIds = [...new Set(lines.flatMap(l => l.variantIds))];
+
+      const productRows = await tx.select().from(products).where(inArray(products.id, productIds));
+      const variantRows = variantIds.length > 0
+        ? await tx.select().from(productVariants).where(inArray(productVariants.id, variantIds))
+        : [];
+      const ruleRows = await tx.select().from(bulkPricingRules).where(inArray(bulkPricingRules.productId, productIds));
+
+      // Re-price every line from the database; nothing the client sent about price is trusted
+      const pricedLines = lines.map(line => {
+        const product = productRows.find(p => p.id === line.productId);
+
+        if (!product || !product.isAvailable) {
+          throw new CheckoutError(`Product ${line.productId} is not available`, 'PRODUCT_UNAVAILABLE', 400, {
+            productId: line.productId,
+          });
+        }
+
+        if (!isCategoryAllowed(subUser, product.mainCategory)) {
+          throw new CheckoutError(`${product.name} is not in a category this account can order from`, 'CATEGORY_NOT_ALLOWED', 403, {
+            productId: product.id,
+          });
+        }
+
+        const selectedVariants = line.variantIds.map(id => {
+          const variant = variantRows.find(v => v.id === id);
+          if (!variant || variant.productId !== product.id) {
+            throw new CheckoutError(`Variant ${id} does not belong to product ${product.id}`, 'INVALID_VARIANT_ID', 400, {
+              productId: product.id,
+              variantId: id,
+            });
+          }
+          if (!variant.isAvailable) {
+            throw new CheckoutError(`Variant ${variant.variantName} is not available`, 'VARIANT_UNAVAILABLE', 400, {
+              productId: product.id,
+              variantId: id,
+            });
+          }
+          return variant;
+        });
+
+        // One choice per option (size, colour...); modifiers can be negative, so stacking them would discount the line
+        const variantTypes = selectedVariants.map(v => v.variantType);
+        if (new Set(variantTypes).size !== variantTypes.length) {
+          throw new CheckoutError(`Only one variant of each type can be chosen for ${product.name}`, 'DUPLICATE_VARIANT_TYPE', 400, {
+            productId: product.id,
+          });
+        }
+
+        const basePrice = priceLine(product, selectedVariants, line.variantIds, line.quantity, ruleRows, activeMarkups);
+        const unitPrice = applyStoreMarkup(basePrice, store?.storeMarkup);
+
+        if (!(unitPrice > 0)) {
+          throw new CheckoutError(`${product.name} has no valid price`, 'INVALID_PRICE', 400, {
+            productId: product.id,
+          });
+        }
+
+        return {
+          ...line,
+          unitPrice,
+          lineTotal: roundCurrency(unitPrice * line.quantity),
+          margin: roundCurrency((unitPrice - basePrice) * line.quantity),
+        };
+      });
+
+      const subtotal = roundCurrency(pricedLines.reduce((sum, l) => sum + l.lineTotal, 0));
+      const resellerMargin = roundCurrency(pricedLines.reduce((sum, l) => sum + l.margin, 0));
+      const totalAmount = roundCurrency(subtotal + shipping.cost);
+
+      if (!(totalAmount > 0)) {
+        throw new CheckoutError('Order total must be positive', 'INVALID_TOTAL_AMOUNT');
+      }
+
+      if (subUser?.monthlyCap != null && monthlySpend + totalAmount > subUser.monthlyCap) {
+        throw new CheckoutError('This order would exceed your monthly spending limit', 'MONTHLY_CAP_EXCEEDED', 403, {
+          monthlyCap: subUser.monthlyCap,
+          spentThisMonth: monthlySpend,
+          remaining: roundCurrency(Math.max(subUser.monthlyCap - monthlySpend, 0)),
+        });
+      }
+
+      const needsApproval = subUser?.approvalThreshold != null && totalAmount > subUser.approvalThreshold;
+
+      const userRecords = await tx.select().from(users).where(eq(users.id, payerId)).limit(1);
+      if (userRecords.length === 0) {
+        throw new CheckoutError('User not found', 'USER_NOT_FOUND');
+      }
+
+      const user = userRecords[0];
+      const currentCredits = user.credits || 0;
+
+      if (currentCredits < totalAmount) {
+        throw new CheckoutError('Insufficient credits', 'INSUFFICIENT_CREDITS', 400, {
+          required: totalAmount,
+          available: currentCredits,
+          shortfall: roundCurrency(totalAmount - currentCredits),
+        });
+      }
+
+      const timestamp = new Date().toISOString();
+      const orderNotes = `${typeof notes === 'string' ? notes.trim() : ''}\n\nShipping: ${shipping.label} ($${shipping.cost.toFixed(2)})`.trim();
+
+      const [order] = await tx.insert(orders).values({
+        userId,
+        totalAmount,
+        status: 'pending',
+        shippingAddress: shippingAddress.trim(),
+        notes: orderNotes,
+        resellerId: store?.id ?? null,
+        resellerMarkup: store ? store.storeMarkup : null,
+        resellerMargin: store ? resellerMargin : null,
+        payerId: subUser ? payerId : null,
+        approvalStatus: needsApproval ? 'awaiting' : null,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      }).returning();
+
+      // Guarded debit: comes back null if a concurrent checkout already spent the balance
+      const newBalance = await postLedgerEntry(tx, {
+        userId: payerId,
+        direction: 'debit',
+        amount: totalAmount,
+        counterAccount: SYSTEM_ACCOUNTS.sales,
+        referenceType: 'order',
+        referenceId: order.id,
+        description: `Order #${order.id}`,
+        createdById: userId,
+        requireFunds: true,
+      });
+
+      if (newBalance === null) {
+        throw new CheckoutError('Insufficient credits', 'INSUFFICIENT_CREDITS', 400, {
+          required: totalAmount,
+        });
+      }
+
+      await tx.update(users)
+        .set({ totalSpent: sql`coalesce(${users.totalSpent}, 0) + ${totalAmount}` })
+        .where(eq(users.id, payerId));
+
+      await recordStatusChange(tx, {
+        orderId: order.id,
+        fromStatus: null,
+        toStatus: order.status,
+        changedById: userId,
+        note: needsApproval ? 'Waiting for approval from the account owner' : null,
+      });
+
+      const createdItems = await tx.insert(orderItems).values(
+        pricedLines.map(line => ({
+          orderId: order.id,
+          productId: line.productId,
+          quantity: line.quantity,
+          priceAtPurchase: line.unitPrice,
+          variantIds: line.variantIds.length > 0 ? JSON.stringify(line.variantIds) : null,
+          createdAt: timestamp,
+        }))
+      ).returning();
+
+      // Checked last so a shortage rolls back the debit and order along with the stock
+      const shortages = await commitOrderStock(tx, { orderId: order.id, userId, lines });
+      if (shortages.length > 0) {
+        throw new CheckoutError('Some items no longer have enough stock', 'INSUFFICIENT_STOCK', 409, { shortages });
+      }
+
+      // Take the purchased lines out of the server cart in the same transaction; anything else stays
+      const userCart = await tx.select().from(carts).where(eq(carts.userId, userId)).limit(1);
+      if (userCart.length > 0) {
+        await tx.delete(cartItems).where(and(
+          eq(cartItems.cartId, userCart[0].id),
+          or(...lines.map(line => and(
+            eq(cartItems.productId, line.productId),
+            eq(cartItems.variantKey, toVariantKey(line.variantIds))
+          )))
+        ));
+      }
+
+      return {
+        order,
+        items: createdItems,
+        subtotal,
+        shippingCost: shipping.cost,
+        creditsDeducted: totalAmount,
+        newBalance,
+        requiresApproval: needsApproval,
+      };
+    });
+
+    console.log('[CHECKOUT] Order', result.order.id, 'created for user', userId, 'total', result.creditsDeducted);
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof CheckoutError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, ...error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('[CHECKOUT ERROR] POST error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error, code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    );
+  }
+}
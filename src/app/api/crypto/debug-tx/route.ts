@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getChainProvider } from '@/lib/chains';
+import { getConfirmations, type ChainTx } from '@/lib/chain-provider';
 
 /**
  * Debug endpoint to show full transaction details
@@ -23,62 +25,60 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Fetch transaction from mempool.space
-    const response = await fetch(`https://mempool.space/api/tx/${txid}`);
-    
-    if (!response.ok) {
-      if (response.status === 404) {
-        return NextResponse.json({
-          error: 'Transaction not found on the Bitcoin blockchain',
-          txid,
-          note: 'This transaction does not exist or has not been broadcast yet'
-        }, { status: 404 });
-      }
-      
+    const provider = getChainProvider('BTC');
+    if (!provider) {
       return NextResponse.json({
-        error: `Blockchain API error: ${response.status} ${response.statusText}`
-      }, { status: response.status });
+        error: 'No blockchain provider is configured for BTC'
+      }, { status: 501 });
     }
 
-    const txData = await response.json();
+    let txData: ChainTx | null;
+    try {
+      txData = await provider.getTx(txid);
+    } catch (error) {
+      return NextResponse.json({
+        error: `Blockchain API error: ${error instanceof Error ? error.message : error}`
+      }, { status: 502 });
+    }
+
+    if (!txData) {
+      return NextResponse.json({
+        error: 'Transaction not found on the Bitcoin blockchain',
+        txid,
+        note: 'This transaction does not exist or has not been broadcast yet'
+      }, { status: 404 });
+    }
 
     // Extract all output addresses and amounts
-    const outputs = txData.vout.map((output: any) => ({
-      address: output.scriptpubkey_address || 'N/A',
-      amountBTC: output.value / 100000000,
-      amountSats: output.value,
-      scriptType: output.scriptpubkey_type
+    const outputs = txData.outputs.map(output => ({
+      address: output.address || 'N/A',
+      amountBTC: output.amount,
+      amountSats: Number(output.amountBase),
+      scriptType: output.scriptType
     }));
 
     // Calculate confirmations
     let confirmations = 0;
-    if (txData.status.confirmed && txData.status.block_height) {
-      try {
-        const heightResponse = await fetch('https://mempool.space/api/blocks/tip/height');
-        if (heightResponse.ok) {
-          const currentHeight = await heightResponse.json();
-          confirmations = currentHeight - txData.status.block_height + 1;
-        }
-      } catch (error) {
-        console.error('Error fetching block height:', error);
-      }
+    try {
+      confirmations = await getConfirmations(provider, txData);
+    } catch (error) {
+      console.error('Error fetching block height:', error);
     }
 
     return NextResponse.json({
       success: true,
       txid: txData.txid,
       status: {
-        confirmed: txData.status.confirmed,
+        confirmed: txData.confirmed,
         confirmations,
-        blockHeight: txData.status.block_height,
-        blockHash: txData.status.block_hash,
-        blockTime: txData.status.block_time
+        blockHeight: txData.blockHeight,
+        blockHash: txData.blockHash,
+        blockTime: txData.blockTime
       },
       outputs,
       totalOutputs: outputs.length,
-      fee: txData.fee / 100000000,
-      size: txData.size,
-      weight: txData.weight,
+      fee: txData.fee,
+      provider: provider.name,
       note: 'Check if any of the output addresses match your configured wallet addresses'
     }, { status: 200 });
 
@@ -41,7 +41,11 @@ export async function GET(request: NextRequest) {
     // Order by cryptocurrency ascending for consistent ordering
     const results = await query.orderBy(asc(cryptoWalletAddresses.cryptocurrency));
 
-    return NextResponse.json(results, { status: 200 });
+    // The extended public key would reveal every deposit address; customers only need to know one is used
+    return NextResponse.json(
+      results.map(({ xpub, ...address }) => ({ ...address, usesHdWallet: !!xpub })),
+      { status: 200 }
+    );
 
   } catch (error) {
     console.error('GET error:', error);
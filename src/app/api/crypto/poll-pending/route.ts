@@ -1,49 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { incomingVerifications, cryptoWalletAddresses, users } from '@/db/schema';
+import { deposits, incomingVerifications } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
-
-interface MempoolTransaction {
-  txid: string;
-  status: {
-    confirmed: boolean;
-    block_height?: number;
-  };
-  vout: Array<{
-    value: number;
-    scriptpubkey_address: string;
-  }>;
-}
-
-interface EtherscanResponse {
-  status: string;
-  message: string;
-  result: {
-    blockNumber: string;
-    confirmations: string;
-    to: string;
-    value: string;
-    gasUsed: string;
-  };
-}
-
-interface SoChainResponse {
-  status: string;
-  data: {
-    txid: string;
-    confirmations: number;
-    outputs: Array<{
-      address: string;
-      value: string;
-    }>;
-  };
-}
+import { scanDepositAddresses, completeMatchedDeposit } from '@/lib/deposit-addresses';
+import { chainToken, getChainProvider, requiredConfirmations } from '@/lib/chains';
+import { getConfirmations, receivedBy, txSummary } from '@/lib/chain-provider';
+import { postLedgerEntry, SYSTEM_ACCOUNTS } from '@/lib/ledger';
+import { describePricing, expireStaleQuotes, priceDepositPayment, priceUnmatchedPayment, type PaymentPricing } from '@/lib/deposit-quotes';
 
 const MAX_RETRIES = 10;
-const BTC_REQUIRED_CONFIRMATIONS = 2;
 
 export async function POST(request: NextRequest) {
   try {
+    // Payments to per-deposit addresses become verifications first, so this pass can confirm them
+    const scan = await scanDepositAddresses();
+    const expiredQuotes = await expireStaleQuotes();
+
     // Fetch all pending or unconfirmed verifications
     const pendingVerifications = await db
       .select()
@@ -60,7 +32,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({
         success: true,
         message: 'No pending verifications to process',
-        processed: 0
+        processed: 0,
+        scan,
+        expiredQuotes
       });
     }
 
@@ -83,24 +57,22 @@ export async function POST(request: NextRequest) {
       const { id, txid, currency, matchedAddress } = verification;
 
       try {
-        // Get wallet address for this currency
-        const walletAddresses = await db
-          .select()
-          .from(cryptoWalletAddresses)
-          .where(
-            and(
-              eq(cryptoWalletAddresses.cryptocurrency, currency),
-              eq(cryptoWalletAddresses.isActive, true)
-            )
-          )
-          .limit(1);
+        // The address the payment was matched to: the static wallet address or a deposit's derived one
+        const ourAddress = matchedAddress;
+        const provider = getChainProvider(currency, ourAddress);
+        if (!provider) {
+          results.skipped++;
+          continue;
+        }
 
-        if (walletAddresses.length === 0) {
+        // Explorer errors fall through to the catch below and count against the retries
+        const transaction = await provider.getTx(txid);
+        if (!transaction) {
           await db
             .update(incomingVerifications)
             .set({
               retryCount: verification.retryCount + 1,
-              errorMessage: `No active wallet address found for ${currency}`,
+              errorMessage: 'Transaction not found on blockchain',
               lastChecked: new Date().toISOString(),
               updatedAt: new Date().toISOString()
             })
@@ -109,152 +81,58 @@ export async function POST(request: NextRequest) {
           continue;
         }
 
-        const ourAddress = walletAddresses[0].address;
-        let txData: any = null;
-        let confirmations = 0;
-        let amountFloat = 0;
-        let amountSats = 0;
-
-        // Verify based on currency
-        if (currency === 'BTC') {
-          // Bitcoin verification via mempool.space
-          const response = await fetch(`https://mempool.space/api/tx/${txid}`);
-          
-          if (!response.ok) {
-            if (response.status === 404) {
-              await db
-                .update(incomingVerifications)
-                .set({
-                  retryCount: verification.retryCount + 1,
-                  errorMessage: 'Transaction not found on blockchain',
-                  lastChecked: new Date().toISOString(),
-                  updatedAt: new Date().toISOString()
-                })
-                .where(eq(incomingVerifications.id, id));
-              results.failed++;
-              continue;
-            }
-            throw new Error(`Mempool API error: ${response.status}`);
-          }
-
-          txData = await response.json() as MempoolTransaction;
-
-          // Find matching output
-          const matchingOutput = txData.vout.find(
-            output => output.scriptpubkey_address === ourAddress
-          );
-
-          if (!matchingOutput) {
-            await db
-              .update(incomingVerifications)
-              .set({
-                retryCount: verification.retryCount + 1,
-                errorMessage: `No output found for address ${ourAddress}`,
-                lastChecked: new Date().toISOString(),
-                updatedAt: new Date().toISOString()
-              })
-              .where(eq(incomingVerifications.id, id));
-            results.failed++;
-            continue;
-          }
-
-          amountSats = matchingOutput.value;
-          amountFloat = amountSats / 100000000;
-
-          // Calculate confirmations
-          if (txData.status.confirmed && txData.status.block_height) {
-            try {
-              const tipResponse = await fetch('https://mempool.space/api/blocks/tip/height');
-              if (tipResponse.ok) {
-                const currentHeight = await tipResponse.json();
-                confirmations = currentHeight - txData.status.block_height + 1;
-              }
-            } catch (error) {
-              console.error('Error fetching tip height:', error);
-              confirmations = 1;
-            }
-          }
-
-        } else if (currency === 'ETH') {
-          // Ethereum verification via Etherscan (requires API key for production)
-          // For now, return not supported
+        // For a token, only its transfers count, not the ether that carried them
+        const received = receivedBy(transaction, ourAddress, chainToken(currency)?.contract);
+        if (!received) {
           await db
             .update(incomingVerifications)
             .set({
               retryCount: verification.retryCount + 1,
-              errorMessage: 'Ethereum verification not yet implemented',
+              errorMessage: `No output found for address ${ourAddress}`,
               lastChecked: new Date().toISOString(),
               updatedAt: new Date().toISOString()
             })
             .where(eq(incomingVerifications.id, id));
           results.failed++;
           continue;
+        }
 
-        } else if (currency === 'DOGE') {
-          // Dogecoin verification via SoChain
-          try {
-            const response = await fetch(`https://sochain.com/api/v2/tx/DOGE/${txid}`);
-            
-            if (!response.ok) {
-              throw new Error(`SoChain API error: ${response.status}`);
-            }
-
-            const soChainData = await response.json() as SoChainResponse;
-            
-            if (soChainData.status !== 'success') {
-              throw new Error('SoChain returned non-success status');
-            }
-
-            txData = soChainData.data;
-            confirmations = txData.confirmations;
+        const amountSats = received.amountSats;
+        const amountFloat = received.amount;
+        const confirmations = await getConfirmations(provider, transaction);
+        const txData = txSummary(transaction, provider);
 
-            // Find matching output
-            const matchingOutput = txData.outputs.find(
-              (output: any) => output.address === ourAddress
-            );
+        // Each chain has its own confirmation threshold
+        const isConfirmed = confirmations >= requiredConfirmations(currency, ourAddress);
+        const now = new Date().toISOString();
 
-            if (!matchingOutput) {
+        if (isConfirmed) {
+          // Priced before anything is written, so a missing rate leaves the payment to the next poll
+          let deposit: typeof deposits.$inferSelect | null = null;
+          let pricing: PaymentPricing | null = null;
+          if (verification.userId && !verification.credited) {
+            try {
+              if (verification.depositId) {
+                [deposit] = await db.select().from(deposits).where(eq(deposits.id, verification.depositId)).limit(1);
+              }
+              // Judged by when the payment was first seen, not when it confirmed
+              pricing = deposit
+                ? await priceDepositPayment(deposit, amountFloat, deposit.paymentSeenAt ?? verification.firstSeen)
+                : await priceUnmatchedPayment(currency, amountFloat);
+            } catch (pricingError: any) {
               await db
                 .update(incomingVerifications)
                 .set({
-                  retryCount: verification.retryCount + 1,
-                  errorMessage: `No output found for address ${ourAddress}`,
-                  lastChecked: new Date().toISOString(),
-                  updatedAt: new Date().toISOString()
+                  errorMessage: `Could not price payment: ${pricingError.message}`,
+                  lastChecked: now,
+                  updatedAt: now
                 })
                 .where(eq(incomingVerifications.id, id));
-              results.failed++;
+              results.stillPending++;
               continue;
             }
-
-            amountFloat = parseFloat(matchingOutput.value);
-            amountSats = Math.floor(amountFloat * 100000000);
-
-          } catch (error: any) {
-            await db
-              .update(incomingVerifications)
-              .set({
-                retryCount: verification.retryCount + 1,
-                errorMessage: `Dogecoin verification error: ${error.message}`,
-                lastChecked: new Date().toISOString(),
-                updatedAt: new Date().toISOString()
-              })
-              .where(eq(incomingVerifications.id, id));
-            results.failed++;
-            continue;
           }
 
-        } else {
-          results.skipped++;
-          continue;
-        }
-
-        // Determine if confirmed based on required confirmations
-        const requiredConfirmations = currency === 'BTC' ? BTC_REQUIRED_CONFIRMATIONS : 2;
-        const isConfirmed = confirmations >= requiredConfirmations;
-        const now = new Date().toISOString();
-
-        if (isConfirmed) {
           // Transaction is confirmed - update record and credit user if applicable
           const updateData: any = {
             confirmed: true,
@@ -265,30 +143,56 @@ export async function POST(request: NextRequest) {
             updatedAt: now,
             retryCount: verification.retryCount + 1,
             errorMessage: null,
-            meta: JSON.stringify({ ...txData, confirmations, verifiedAt: now })
+            meta: JSON.stringify({ ...txData, confirmations, verifiedAt: now, pricing })
           };
 
           // Credit user if userId is set and not already credited
-          if (verification.userId && !verification.credited) {
+          if (verification.userId && !verification.credited && pricing) {
+            const userId = verification.userId;
             try {
-              // Fetch user
-              const userRecords = await db
-                .select()
-                .from(users)
-                .where(eq(users.id, verification.userId))
-                .limit(1);
-
-              if (userRecords.length > 0) {
-                const currentCredits = userRecords[0].credits || 0;
-                
-                // Credit user account (idempotent - only if not already credited)
-                await db
-                  .update(users)
-                  .set({
-                    credits: currentCredits + amountFloat
-                  })
-                  .where(eq(users.id, verification.userId));
-
+              // Completing the deposit, crediting and marking the verification
+              // credited happen together, so a failure retries all of them
+              const credited = await db.transaction(async (tx) => {
+                const [claimed] = await tx
+                  .update(incomingVerifications)
+                  .set({ credited: true, creditedAt: now })
+                  .where(and(eq(incomingVerifications.id, id), eq(incomingVerifications.credited, false)))
+                  .returning({ id: incomingVerifications.id });
+                if (!claimed) {
+                  return false;
+                }
+
+                const completedDeposit = deposit && await completeMatchedDeposit(tx, deposit.id, {
+                  txid,
+                  amountFloat,
+                  confirmations,
+                  pricing,
+                  notes: describePricing(deposit, amountFloat, pricing)
+                });
+
+                // The deposit was already completed and credited for this very transaction
+                if (deposit && !completedDeposit) {
+                  const [current] = await tx.select().from(deposits).where(eq(deposits.id, deposit.id)).limit(1);
+                  if (current?.status === 'completed' && current.transactionId === txid) {
+                    return true;
+                  }
+                }
+
+                if (pricing.credits > 0) {
+                  await postLedgerEntry(tx, {
+                    userId,
+                    direction: 'credit',
+                    amount: pricing.credits,
+                    counterAccount: SYSTEM_ACCOUNTS.deposits,
+                    referenceType: completedDeposit ? 'deposit' : 'verification',
+                    referenceId: completedDeposit ? deposit!.id : id,
+                    description: `${completedDeposit ? `Deposit #${deposit!.id}` : `Incoming ${currency} payment`}: ${amountFloat.toFixed(8)} ${currency} at $${pricing.rate.toFixed(2)}/${currency}`,
+                  });
+                }
+                return true;
+              });
+
+              if (credited) {
                 updateData.credited = true;
                 updateData.creditedAt = now;
                 results.credited++;
@@ -347,7 +251,9 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       message: 'Polling completed',
-      results
+      results,
+      scan,
+      expiredQuotes
     });
 
   } catch (error: any) {
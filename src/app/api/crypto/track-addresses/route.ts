@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { cryptoWalletAddresses, incomingVerifications } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
+import { getPendingDepositAddresses, findDepositByAddress, recordDepositPayment } from '@/lib/deposit-addresses';
 
 /**
  * Real-time address tracking endpoint
@@ -17,7 +18,10 @@ export async function GET(request: NextRequest) {
         eq(cryptoWalletAddresses.isActive, true)
       ));
 
-    const addresses = btcAddresses.map(addr => addr.address);
+    const addresses = [
+      ...btcAddresses.map(addr => addr.address),
+      ...await getPendingDepositAddresses('BTC'),
+    ];
 
     return NextResponse.json({
       success: true,
@@ -50,12 +54,31 @@ export async function POST(request: NextRequest) {
 
     const now = new Date().toISOString();
 
+    // Payments to a deposit's own address belong to that deposit and are confirmed by the poller
+    const deposit = await findDepositByAddress('BTC', address);
+    if (deposit) {
+      const amountFloat = typeof amount === 'number' ? amount : parseFloat(amount);
+      const recorded = await recordDepositPayment(deposit, {
+        txid,
+        amountSats: Math.round(amountFloat * 100000000),
+        amountFloat,
+        blockHeight: blockHeight ?? null,
+      }, 'websocket');
+
+      return NextResponse.json({
+        success: true,
+        action: recorded ? 'matched' : 'unchanged',
+        depositId: deposit.id
+      }, { status: recorded ? 201 : 200 });
+    }
+
     // Check if this transaction already exists
     const existing = await db.select()
       .from(incomingVerifications)
       .where(and(
         eq(incomingVerifications.txid, txid),
-        eq(incomingVerifications.currency, 'BTC')
+        eq(incomingVerifications.currency, 'BTC'),
+        eq(incomingVerifications.matchedAddress, address)
       ))
       .limit(1);
 
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { incomingVerifications, cryptoWalletAddresses } from '@/db/schema';
-import { eq, and } from 'drizzle-orm';
+import { incomingVerifications } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { chainToken, getChainProvider, requiredConfirmations } from '@/lib/chains';
+import { getConfirmations, receivedBy, txSummary, type ChainTx } from '@/lib/chain-provider';
 
 export async function POST(
   request: NextRequest,
@@ -57,51 +59,11 @@ export async function POST(
 
     const { txid, currency } = record;
 
-    // Fetch crypto wallet address for the currency
-    const walletAddresses = await db
-      .select()
-      .from(cryptoWalletAddresses)
-      .where(
-        and(
-          eq(cryptoWalletAddresses.cryptocurrency, currency),
-          eq(cryptoWalletAddresses.isActive, true)
-        )
-      )
-      .limit(1);
-
-    if (walletAddresses.length === 0) {
-      const errorMessage = `No active wallet address found for currency: ${currency}`;
-      
-      // Update verification record with error
-      const updated = await db
-        .update(incomingVerifications)
-        .set({
-          retryCount: record.retryCount + 1,
-          errorMessage,
-          lastChecked: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-        })
-        .where(eq(incomingVerifications.id, verificationId))
-        .returning();
+    // The address the payment was matched to: the static wallet address or a deposit's derived one
+    const ourAddress = record.matchedAddress;
 
-      return NextResponse.json(
-        {
-          success: false,
-          error: errorMessage,
-          code: 'NO_WALLET_ADDRESS',
-          verification: updated[0],
-        },
-        { status: 400 }
-      );
-    }
-
-    const ourAddress = walletAddresses[0].address;
-
-    // Call mempool.space API to verify transaction
-    let mempoolApiUrl: string;
-    if (currency.toUpperCase() === 'BTC') {
-      mempoolApiUrl = `https://mempool.space/api/tx/${txid}`;
-    } else {
+    const provider = getChainProvider(currency, ourAddress);
+    if (!provider) {
       const errorMessage = `Unsupported currency for verification: ${currency}`;
       
       const updated = await db
@@ -126,15 +88,16 @@ export async function POST(
       );
     }
 
-    let txData: any;
+    let transaction: ChainTx | null;
+    let confirmations = 0;
     try {
-      const response = await fetch(mempoolApiUrl);
-      if (!response.ok) {
-        throw new Error(`Mempool API returned status ${response.status}`);
+      transaction = await provider.getTx(txid);
+      if (!transaction) {
+        throw new Error('Transaction not found on blockchain');
       }
-      txData = await response.json();
+      confirmations = await getConfirmations(provider, transaction);
     } catch (apiError: any) {
-      const errorMessage = `Failed to fetch transaction from mempool.space: ${apiError.message}`;
+      const errorMessage = `Failed to fetch transaction from ${provider.name}: ${apiError.message}`;
       
       const updated = await db
         .update(incomingVerifications)
@@ -158,12 +121,10 @@ export async function POST(
       );
     }
 
-    // Find matching output for our address
-    const matchingOutput = txData.vout?.find((output: any) => 
-      output.scriptpubkey_address === ourAddress
-    );
+    // Find what the transaction paid our address
+    const received = receivedBy(transaction, ourAddress, chainToken(currency)?.contract);
 
-    if (!matchingOutput) {
+    if (!received) {
       const errorMessage = `No output found for address ${ourAddress} in transaction ${txid}`;
       
       const updated = await db
@@ -173,7 +134,7 @@ export async function POST(
           errorMessage,
           lastChecked: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
-          meta: JSON.stringify(txData),
+          meta: JSON.stringify(txSummary(transaction, provider)),
         })
         .where(eq(incomingVerifications.id, verificationId))
         .returning();
@@ -189,25 +150,12 @@ export async function POST(
       );
     }
 
-    // Calculate amount
-    const amountSats = matchingOutput.value;
-    const amountFloat = amountSats / 100000000;
-
-    // Calculate confirmations
-    let confirmations = 0;
-    if (txData.status?.confirmed) {
-      try {
-        const tipHeightResponse = await fetch('https://mempool.space/api/blocks/tip/height');
-        const tipHeight = await tipHeightResponse.json();
-        confirmations = tipHeight - txData.status.block_height + 1;
-      } catch (error) {
-        console.error('Error fetching tip height:', error);
-        confirmations = 0;
-      }
-    }
+    const amountSats = received.amountSats;
+    const amountFloat = received.amount;
 
-    // Determine if confirmed (>= 2 confirmations for BTC)
-    const isConfirmed = confirmations >= 2;
+    // Determine if confirmed by the chain's threshold
+    const required = requiredConfirmations(currency, ourAddress);
+    const isConfirmed = confirmations >= required;
     const now = new Date().toISOString();
 
     // Update the verification record
@@ -220,7 +168,7 @@ export async function POST(
       updatedAt: now,
       errorMessage: null, // Clear error on successful verification
       meta: JSON.stringify({
-        ...txData,
+        ...txSummary(transaction, provider),
         confirmations,
         verifiedAt: now,
       }),
@@ -239,7 +187,7 @@ export async function POST(
 
     const message = isConfirmed
       ? `Transaction verified successfully with ${confirmations} confirmations`
-      : `Transaction found but needs more confirmations (${confirmations}/2)`;
+      : `Transaction found but needs more confirmations (${confirmations}/${required})`;
 
     return NextResponse.json(
       {
@@ -33,9 +33,9 @@ export async function GET(request: NextRequest) {
     const status = searchParams.get('status');
 
     // Validate currency if provided
-    if (currency && !['BTC', 'ETH', 'DOGE'].includes(currency.toUpperCase())) {
+    if (currency && !['BTC', 'ETH', 'DOGE', 'USDT', 'USDC'].includes(currency.toUpperCase())) {
       return NextResponse.json({ 
-        error: 'Invalid currency. Must be one of: BTC, ETH, DOGE',
+        error: 'Invalid currency. Must be one of: BTC, ETH, DOGE, USDT, USDC',
         code: 'INVALID_CURRENCY' 
       }, { status: 400 });
     }
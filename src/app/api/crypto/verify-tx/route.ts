@@ -1,62 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { incomingVerifications, cryptoWalletAddresses } from '@/db/schema';
-import { eq, and } from 'drizzle-orm';
-
-interface MempoolTransaction {
-  txid: string;
-  version: number;
-  locktime: number;
-  vin: Array<{
-    txid: string;
-    vout: number;
-    prevout: {
-      scriptpubkey: string;
-      scriptpubkey_asm: string;
-      scriptpubkey_type: string;
-      scriptpubkey_address: string;
-      value: number;
-    };
-    scriptsig: string;
-    scriptsig_asm: string;
-    witness: string[];
-    is_coinbase: boolean;
-    sequence: number;
-  }>;
-  vout: Array<{
-    scriptpubkey: string;
-    scriptpubkey_asm: string;
-    scriptpubkey_type: string;
-    scriptpubkey_address: string;
-    value: number;
-  }>;
-  size: number;
-  weight: number;
-  fee: number;
-  status: {
-    confirmed: boolean;
-    block_height?: number;
-    block_hash?: string;
-    block_time?: number;
-  };
-}
-
-interface SoChainResponse {
-  status: string;
-  data: {
-    txid: string;
-    confirmations: number;
-    outputs: Array<{
-      address: string;
-      value: string;
-    }>;
-  };
-}
+import { eq, and, isNull } from 'drizzle-orm';
+import { chainToken, getChainProvider, isEvmCurrency, requiredConfirmations } from '@/lib/chains';
+import { getConfirmations, receivedBy, txSummary, type ChainTx } from '@/lib/chain-provider';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { txid, currency = 'BTC' } = body;
+    const { currency = 'BTC' } = body;
+    let { txid } = body;
 
     // Validate txid is provided
     if (!txid) {
@@ -70,7 +23,7 @@ export async function POST(request: NextRequest) {
     const normalizedCurrency = currency.toUpperCase().trim();
 
     // Validate currency is one of supported types
-    const supportedCurrencies = ['BTC', 'ETH', 'DOGE'];
+    const supportedCurrencies = ['BTC', 'ETH', 'DOGE', 'USDT', 'USDC'];
     if (!supportedCurrencies.includes(normalizedCurrency)) {
       return NextResponse.json({
         error: `Currency must be one of: ${supportedCurrencies.join(', ')}`,
@@ -79,7 +32,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate txid format
-    if (normalizedCurrency === 'BTC' || normalizedCurrency === 'DOGE') {
+    if (!isEvmCurrency(normalizedCurrency)) {
       // Bitcoin and Dogecoin: 64 hex characters
       const txidRegex = /^[a-fA-F0-9]{64}$/;
       if (!txidRegex.test(txid)) {
@@ -88,8 +41,8 @@ export async function POST(request: NextRequest) {
           code: 'INVALID_TXID_FORMAT'
         }, { status: 400 });
       }
-    } else if (normalizedCurrency === 'ETH') {
-      // Ethereum: 0x followed by 64 hex characters
+    } else {
+      // Ethereum and its tokens: 0x followed by 64 hex characters
       const ethTxidRegex = /^0x[a-fA-F0-9]{64}$/;
       if (!ethTxidRegex.test(txid)) {
         return NextResponse.json({
@@ -97,14 +50,18 @@ export async function POST(request: NextRequest) {
           code: 'INVALID_TXID_FORMAT'
         }, { status: 400 });
       }
+      // Hashes are case-insensitive, so one payment can't be verified twice under different casing
+      txid = txid.toLowerCase();
     }
 
-    // Check if this (txid, currency) already exists
+    // Check if this (txid, currency) was already verified against our shared addresses;
+    // payments the same transaction made to deposits' own addresses are tracked separately
     const existingVerifications = await db.select()
       .from(incomingVerifications)
       .where(and(
         eq(incomingVerifications.txid, txid),
-        eq(incomingVerifications.currency, normalizedCurrency)
+        eq(incomingVerifications.currency, normalizedCurrency),
+        isNull(incomingVerifications.depositId)
       ))
       .limit(1);
 
@@ -121,7 +78,7 @@ export async function POST(request: NextRequest) {
           matchedAddress: existingVerification.matchedAddress,
           amountFloat: existingVerification.amountFloat,
           confirmed: existingVerification.confirmed,
-          confirmations: 2,
+          confirmations: requiredConfirmations(normalizedCurrency),
           firstSeen: existingVerification.firstSeen,
           lastChecked: existingVerification.lastChecked
         },
@@ -147,147 +104,70 @@ export async function POST(request: NextRequest) {
     // Create array of addresses to check
     const addressesToCheck = walletAddresses.map(w => w.address);
 
-    // Verify transaction based on currency
-    let transactionData: any;
-    let confirmations = 0;
-    let amountSats = 0;
-    let amountFloat = 0;
-    let matchedAddress: string | null = null;
-
-    if (normalizedCurrency === 'BTC') {
-      // Bitcoin verification via mempool.space
-      try {
-        const txResponse = await fetch(`https://mempool.space/api/tx/${txid}`);
-        
-        if (!txResponse.ok) {
-          if (txResponse.status === 404) {
-            return NextResponse.json({
-              success: false,
-              error: 'Transaction not found on blockchain',
-              code: 'TRANSACTION_NOT_FOUND',
-              testedAddresses: addressesToCheck.map(addr => `BTC: ${addr}`)
-            }, { status: 404 });
-          }
-          throw new Error(`Mempool API error: ${txResponse.status} ${txResponse.statusText}`);
-        }
-
-        transactionData = await txResponse.json() as MempoolTransaction;
-      } catch (error) {
-        console.error('Mempool API error:', error);
-        return NextResponse.json({
-          success: false,
-          error: 'Failed to fetch transaction data from blockchain',
-          code: 'BLOCKCHAIN_API_ERROR'
-        }, { status: 500 });
-      }
-
-      // Find matching output from ANY of our addresses
-      for (const address of addressesToCheck) {
-        const matchingOutput = transactionData.vout.find(
-          (output: any) => output.scriptpubkey_address === address
-        );
-
-        if (matchingOutput) {
-          matchedAddress = address;
-          amountSats = matchingOutput.value;
-          amountFloat = amountSats / 100000000;
-          break;
-        }
-      }
-
-      if (!matchedAddress) {
-        return NextResponse.json({
-          success: false,
-          error: 'Transaction was not sent to any of your configured wallet addresses, or the transaction could not be found on the blockchain',
-          code: 'ADDRESS_MISMATCH',
-          testedAddresses: addressesToCheck.map(addr => `BTC: Transaction was not sent to address ${addr}`)
-        }, { status: 400 });
-      }
+    const provider = getChainProvider(normalizedCurrency);
+    if (!provider) {
+      return NextResponse.json({
+        success: false,
+        error: `No blockchain provider is configured for ${normalizedCurrency}`,
+        code: 'CURRENCY_NOT_CONFIGURED'
+      }, { status: 501 });
+    }
 
-      // Calculate confirmations
-      if (transactionData.status.confirmed && transactionData.status.block_height) {
-        try {
-          const heightResponse = await fetch('https://mempool.space/api/blocks/tip/height');
-          
-          if (heightResponse.ok) {
-            const currentHeight = await heightResponse.json();
-            confirmations = currentHeight - transactionData.status.block_height + 1;
-          }
-        } catch (error) {
-          console.error('Error fetching block height:', error);
-          confirmations = transactionData.status.confirmed ? 1 : 0;
-        }
+    // Verify the transaction with the currency's provider
+    let transaction: ChainTx | null;
+    let confirmations = 0;
+    try {
+      transaction = await provider.getTx(txid);
+      if (transaction) {
+        confirmations = await getConfirmations(provider, transaction);
       }
+    } catch (error: any) {
+      console.error(`${normalizedCurrency} provider error:`, error);
+      return NextResponse.json({
+        success: false,
+        error: `Failed to fetch transaction data from blockchain: ${error.message}`,
+        code: 'BLOCKCHAIN_API_ERROR'
+      }, { status: 500 });
+    }
 
-    } else if (normalizedCurrency === 'DOGE') {
-      // Dogecoin verification via SoChain
-      try {
-        const response = await fetch(`https://sochain.com/api/v2/tx/DOGE/${txid}`);
-        
-        if (!response.ok) {
-          if (response.status === 404) {
-            return NextResponse.json({
-              success: false,
-              error: 'Transaction not found on blockchain',
-              code: 'TRANSACTION_NOT_FOUND',
-              testedAddresses: addressesToCheck.map(addr => `DOGE: ${addr}`)
-            }, { status: 404 });
-          }
-          throw new Error(`SoChain API error: ${response.status}`);
-        }
-
-        const soChainData = await response.json() as SoChainResponse;
-        
-        if (soChainData.status !== 'success') {
-          throw new Error('SoChain returned non-success status');
-        }
-
-        transactionData = soChainData.data;
-        confirmations = transactionData.confirmations;
-
-        // Find matching output from ANY of our addresses
-        for (const address of addressesToCheck) {
-          const matchingOutput = transactionData.outputs.find(
-            (output: any) => output.address === address
-          );
-
-          if (matchingOutput) {
-            matchedAddress = address;
-            amountFloat = parseFloat(matchingOutput.value);
-            amountSats = Math.floor(amountFloat * 100000000);
-            break;
-          }
-        }
-
-        if (!matchedAddress) {
-          return NextResponse.json({
-            success: false,
-            error: 'Transaction was not sent to any of your configured wallet addresses',
-            code: 'ADDRESS_MISMATCH',
-            testedAddresses: addressesToCheck.map(addr => `DOGE: Transaction was not sent to address ${addr}`)
-          }, { status: 400 });
-        }
+    if (!transaction) {
+      return NextResponse.json({
+        success: false,
+        error: 'Transaction not found on blockchain',
+        code: 'TRANSACTION_NOT_FOUND',
+        testedAddresses: addressesToCheck.map(addr => `${normalizedCurrency}: ${addr}`)
+      }, { status: 404 });
+    }
 
-      } catch (error: any) {
-        console.error('SoChain API error:', error);
-        return NextResponse.json({
-          success: false,
-          error: `Failed to fetch Dogecoin transaction: ${error.message}`,
-          code: 'BLOCKCHAIN_API_ERROR'
-        }, { status: 500 });
+    // Find matching output from ANY of our addresses
+    let amountSats = 0;
+    let amountFloat = 0;
+    let matchedAddress: string | null = null;
+    const token = chainToken(normalizedCurrency)?.contract;
+    for (const address of addressesToCheck) {
+      const received = receivedBy(transaction, address, token);
+      if (received) {
+        matchedAddress = address;
+        amountSats = received.amountSats;
+        amountFloat = received.amount;
+        break;
       }
+    }
 
-    } else if (normalizedCurrency === 'ETH') {
+    if (!matchedAddress) {
       return NextResponse.json({
         success: false,
-        error: 'Ethereum verification requires API key configuration. Please contact support.',
-        code: 'CURRENCY_NOT_CONFIGURED'
-      }, { status: 501 });
+        error: 'Transaction was not sent to any of your configured wallet addresses',
+        code: 'ADDRESS_MISMATCH',
+        testedAddresses: addressesToCheck.map(addr => `${normalizedCurrency}: Transaction was not sent to address ${addr}`)
+      }, { status: 400 });
     }
 
-    // Determine if confirmed based on required confirmations
-    const requiredConfirmations = normalizedCurrency === 'BTC' ? 2 : 2;
-    const isConfirmed = confirmations >= requiredConfirmations;
+    const transactionData = txSummary(transaction, provider);
+
+    // Determine if confirmed by the chain's threshold
+    const required = requiredConfirmations(normalizedCurrency);
+    const isConfirmed = confirmations >= required;
     const now = new Date().toISOString();
     const metaJson = JSON.stringify({ ...transactionData, confirmations, verifiedAt: now });
 
@@ -324,7 +204,7 @@ export async function POST(request: NextRequest) {
         },
         message: isConfirmed 
           ? `Transaction verified and confirmed with ${confirmations} confirmations`
-          : `Transaction verified but awaiting confirmation (${confirmations}/${requiredConfirmations} confirmations)`
+          : `Transaction verified but awaiting confirmation (${confirmations}/${required} confirmations)`
       }, { status: 200 });
     } else {
       const newVerification = await db.insert(incomingVerifications)
@@ -364,7 +244,7 @@ export async function POST(request: NextRequest) {
         },
         message: isConfirmed 
           ? `Transaction verified and confirmed with ${confirmations} confirmations`
-          : `Transaction verified but awaiting confirmation (${confirmations}/${requiredConfirmations} confirmations)`
+          : `Transaction verified but awaiting confirmation (${confirmations}/${required} confirmations)`
       }, { status: 201 });
     }
   } catch (error) {
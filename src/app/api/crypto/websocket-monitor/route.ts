@@ -2,23 +2,33 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { cryptoWalletAddresses, incomingVerifications } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
+import { getPendingDepositAddresses, findDepositByAddress, recordDepositPayment } from '@/lib/deposit-addresses';
+import { getChainProvider } from '@/lib/chains';
+import { receivedBy, type ChainSubscription, type ChainTx } from '@/lib/chain-provider';
 
 /**
  * Server-side WebSocket monitoring service
- * This endpoint manages the WebSocket connection to mempool.space
- * and tracks all configured Bitcoin addresses in real-time
+ * This endpoint subscribes to the BTC chain provider (a mempool.space
+ * WebSocket by default) and tracks all configured Bitcoin addresses in real-time
  */
 
-// In-memory store for WebSocket connection (in production, use Redis or similar)
-let wsConnection: WebSocket | null = null;
+// In-memory store for the subscription (in production, use Redis or similar)
+let subscription: ChainSubscription | null = null;
 let trackedAddresses = new Set<string>();
-let reconnectTimer: NodeJS.Timeout | null = null;
 
 /**
  * Initialize and start WebSocket monitoring
  */
 export async function POST(request: NextRequest) {
   try {
+    const provider = getChainProvider('BTC');
+    if (!provider) {
+      return NextResponse.json({
+        error: 'No blockchain provider is configured for BTC',
+        code: 'CURRENCY_NOT_CONFIGURED'
+      }, { status: 501 });
+    }
+
     // Get all active Bitcoin addresses
     const btcAddresses = await db.select()
       .from(cryptoWalletAddresses)
@@ -27,91 +37,31 @@ export async function POST(request: NextRequest) {
         eq(cryptoWalletAddresses.isActive, true)
       ));
 
-    if (btcAddresses.length === 0) {
+    // Pending deposits' own addresses are watched alongside the static ones
+    const addresses = [
+      ...btcAddresses.map(addr => addr.address),
+      ...await getPendingDepositAddresses('BTC'),
+    ];
+
+    if (addresses.length === 0) {
       return NextResponse.json({
         error: 'No active Bitcoin addresses configured',
         code: 'NO_ADDRESSES'
       }, { status: 400 });
     }
 
-    const addresses = btcAddresses.map(addr => addr.address);
-
-    // Close existing connection if any
-    if (wsConnection && wsConnection.readyState === WebSocket.OPEN) {
-      wsConnection.close();
-    }
+    // Close existing subscription if any
+    subscription?.close();
 
-    // Create new WebSocket connection
-    wsConnection = new WebSocket('wss://mempool.space/api/v1/ws');
-
-    wsConnection.onopen = () => {
-      console.log('✅ WebSocket connected to mempool.space');
-      
-      // Track all addresses
-      wsConnection!.send(JSON.stringify({
-        'track-addresses': addresses
-      }));
-      
-      trackedAddresses = new Set(addresses);
-      console.log(`📡 Now tracking ${addresses.length} Bitcoin addresses`);
-    };
-
-    wsConnection.onmessage = async (event) => {
-      try {
-        const data = JSON.parse(event.data);
-        
-        // Handle multi-address transaction updates
-        if (data['multi-address-transactions']) {
-          for (const [address, txData] of Object.entries(data['multi-address-transactions'])) {
-            const { mempool, confirmed } = txData as any;
-            
-            // Process confirmed transactions
-            for (const tx of confirmed || []) {
-              await processTransaction(tx, address, true);
-            }
-            
-            // Process mempool (unconfirmed) transactions
-            for (const tx of mempool || []) {
-              await processTransaction(tx, address, false);
-            }
-          }
-        }
-
-        // Handle single address transaction updates
-        if (data['address-transactions']) {
-          for (const [address, txData] of Object.entries(data['address-transactions'])) {
-            const { mempool, confirmed } = txData as any;
-            
-            for (const tx of confirmed || []) {
-              await processTransaction(tx, address, true);
-            }
-            
-            for (const tx of mempool || []) {
-              await processTransaction(tx, address, false);
-            }
-          }
-        }
-      } catch (error) {
-        console.error('Error processing WebSocket message:', error);
-      }
-    };
-
-    wsConnection.onerror = (error) => {
-      console.error('❌ WebSocket error:', error);
-    };
-
-    wsConnection.onclose = () => {
-      console.log('🔌 WebSocket disconnected');
-      // Auto-reconnect after 5 seconds
-      reconnectTimer = setTimeout(() => {
-        console.log('🔄 Attempting to reconnect...');
-        POST(request).catch(console.error);
-      }, 5000);
-    };
+    // The provider reconnects on its own; each update arrives once per tracked address
+    subscription = provider.subscribe(addresses, processTransaction);
+    trackedAddresses = new Set(addresses);
+    console.log(`📡 Now tracking ${addresses.length} Bitcoin addresses via ${provider.name}`);
 
     return NextResponse.json({
       success: true,
       message: 'WebSocket monitoring started',
+      provider: provider.name,
       trackingAddresses: addresses,
       count: addresses.length
     });
@@ -129,13 +79,10 @@ export async function POST(request: NextRequest) {
  * Get WebSocket monitoring status
  */
 export async function GET(request: NextRequest) {
-  const status = wsConnection?.readyState;
-  const statusText = 
-    status === WebSocket.CONNECTING ? 'connecting' :
-    status === WebSocket.OPEN ? 'connected' :
-    status === WebSocket.CLOSING ? 'closing' :
-    status === WebSocket.CLOSED ? 'closed' :
-    'not_initialized';
+  const statusText =
+    !subscription ? 'not_initialized' :
+    subscription.isConnected() ? 'connected' :
+    'connecting';
 
   return NextResponse.json({
     status: statusText,
@@ -148,14 +95,9 @@ export async function GET(request: NextRequest) {
  * Stop WebSocket monitoring
  */
 export async function DELETE(request: NextRequest) {
-  if (reconnectTimer) {
-    clearTimeout(reconnectTimer);
-    reconnectTimer = null;
-  }
-
-  if (wsConnection) {
-    wsConnection.close();
-    wsConnection = null;
+  if (subscription) {
+    subscription.close();
+    subscription = null;
   }
 
   trackedAddresses.clear();
@@ -169,27 +111,38 @@ export async function DELETE(request: NextRequest) {
 /**
  * Process incoming transaction and save to database
  */
-async function processTransaction(tx: any, address: string, confirmed: boolean) {
+async function processTransaction(address: string, tx: ChainTx) {
   try {
-    // Find matching output for this address
-    const matchingOutput = tx.vout.find((output: any) => 
-      output.scriptpubkey_address === address
-    );
+    // Find what this transaction paid the address
+    const received = receivedBy(tx, address);
 
-    if (!matchingOutput) {
+    if (!received) {
       return; // Transaction doesn't involve this address as recipient
     }
 
-    const amountSats = matchingOutput.value;
-    const amountFloat = amountSats / 100000000;
+    const { amountSats, amount: amountFloat } = received;
+    const confirmed = tx.confirmed;
     const now = new Date().toISOString();
 
+    // A deposit's own address: record it for that deposit and leave confirming to the poller
+    const deposit = await findDepositByAddress('BTC', address);
+    if (deposit) {
+      await recordDepositPayment(deposit, {
+        txid: tx.txid,
+        amountSats,
+        amountFloat,
+        blockHeight: tx.blockHeight,
+      }, 'websocket');
+      return;
+    }
+
     // Check if transaction already exists
     const existing = await db.select()
       .from(incomingVerifications)
       .where(and(
         eq(incomingVerifications.txid, tx.txid),
-        eq(incomingVerifications.currency, 'BTC')
+        eq(incomingVerifications.currency, 'BTC'),
+        eq(incomingVerifications.matchedAddress, address)
       ))
       .limit(1);
 
@@ -202,7 +155,7 @@ async function processTransaction(tx: any, address: string, confirmed: boolean)
           lastChecked: now,
           updatedAt: now,
           meta: JSON.stringify({ 
-            ...tx, 
+            ...tx.raw as object, 
             trackingSource: 'websocket',
             updatedAt: now 
           })
@@ -226,7 +179,7 @@ async function processTransaction(tx: any, address: string, confirmed: boolean)
           firstSeen: now,
           lastChecked: now,
           meta: JSON.stringify({ 
-            ...tx, 
+            ...tx.raw as object, 
             trackingSource: 'websocket',
             createdAt: now 
           }),
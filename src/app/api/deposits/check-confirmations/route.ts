@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { deposits, users } from '@/db/schema';
+import { deposits } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
+import { getRequestUser, canAccessUser, forbiddenResponse } from '@/lib/authz';
+import { postLedgerEntry, SYSTEM_ACCOUNTS } from '@/lib/ledger';
+import { describePricing, priceDepositPayment } from '@/lib/deposit-quotes';
+import { chainToken, getChainProvider, requiredConfirmations } from '@/lib/chains';
+import { hdCurrencyCode } from '@/lib/hd-wallet';
+import { getConfirmations, receivedBy } from '@/lib/chain-provider';
 
 export async function GET(request: NextRequest) {
   try {
@@ -40,6 +46,10 @@ export async function GET(request: NextRequest) {
 
     const deposit = depositRecords[0];
 
+    if (!canAccessUser(getRequestUser(request), deposit.userId)) {
+      return forbiddenResponse();
+    }
+
     // Verify the deposit has a transactionId
     if (!deposit.transactionId) {
       return NextResponse.json({
@@ -56,91 +66,84 @@ export async function GET(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Fetch transaction data from mempool.space API
-    const txResponse = await fetch(`https://mempool.space/api/tx/${deposit.transactionId}`);
-    
-    if (!txResponse.ok) {
-      if (txResponse.status === 404) {
-        return NextResponse.json({
-          error: 'Transaction not found on blockchain',
-          code: 'TRANSACTION_NOT_FOUND'
-        }, { status: 400 });
-      }
-      throw new Error(`Mempool.space API error: ${txResponse.status} ${txResponse.statusText}`);
+    const provider = getChainProvider(deposit.cryptocurrency, deposit.walletAddress);
+    if (!provider) {
+      return NextResponse.json({
+        error: `No blockchain provider is configured for ${deposit.cryptocurrency}`,
+        code: 'CURRENCY_NOT_CONFIGURED'
+      }, { status: 501 });
     }
 
-    const txData = await txResponse.json();
-
-    // Calculate confirmations
-    let confirmations = 0;
-    
-    if (txData.status.confirmed === false) {
-      confirmations = 0;
-    } else if (txData.status.confirmed === true && txData.status.block_height) {
-      // Fetch current block height
-      const tipHeightResponse = await fetch('https://mempool.space/api/blocks/tip/height');
-      
-      if (!tipHeightResponse.ok) {
-        throw new Error(`Failed to fetch current block height: ${tipHeightResponse.status}`);
-      }
-      
-      const currentHeight = await tipHeightResponse.json();
-      confirmations = currentHeight - txData.status.block_height + 1;
+    const transaction = await provider.getTx(deposit.transactionId);
+    if (!transaction) {
+      return NextResponse.json({
+        error: 'Transaction not found on blockchain',
+        code: 'TRANSACTION_NOT_FOUND'
+      }, { status: 400 });
     }
 
+    const confirmations = await getConfirmations(provider, transaction);
+    const required = requiredConfirmations(deposit.cryptocurrency, deposit.walletAddress);
+    const code = hdCurrencyCode(deposit.cryptocurrency);
+
     // Update deposit confirmations
     const now = new Date().toISOString();
 
-    // Check if we should approve the deposit (2+ confirmations)
-    if (confirmations >= 2) {
-      // Extract sent amount from matching vout
-      let sentAmountSatoshis = 0;
-      for (const vout of txData.vout) {
-        if (vout.scriptpubkey_address === deposit.walletAddress) {
-          sentAmountSatoshis += vout.value;
+    // Check if we should approve the deposit (the chain's threshold reached)
+    if (confirmations >= required) {
+      const sentAmount = receivedBy(transaction, deposit.walletAddress, chainToken(deposit.cryptocurrency)?.contract)?.amount ?? 0;
+
+      // Submitted transactions were seen when verified; fall back to the block time for older deposits
+      const blockTime = transaction.blockTime ? new Date(transaction.blockTime * 1000).toISOString() : now;
+      const pricing = await priceDepositPayment(deposit, sentAmount, deposit.paymentSeenAt ?? blockTime);
+
+      // Complete the deposit and credit the customer together, unless another check got there first
+      const updatedDeposit = await db.transaction(async (tx) => {
+        const completed = await tx.update(deposits)
+          .set({
+            confirmations,
+            status: 'completed',
+            amount: sentAmount,
+            credits: pricing.credits,
+            settledRate: pricing.rate,
+            ...(pricing.quoteStatus ? { quoteStatus: pricing.quoteStatus } : {}),
+            notes: describePricing(deposit, sentAmount, pricing),
+            verifiedAt: now,
+            verificationError: null,
+            updatedAt: now
+          })
+          .where(and(eq(deposits.id, depositId), eq(deposits.status, 'pending')))
+          .returning();
+
+        if (completed.length > 0 && pricing.credits > 0) {
+          await postLedgerEntry(tx, {
+            userId: deposit.userId,
+            direction: 'credit',
+            amount: pricing.credits,
+            counterAccount: SYSTEM_ACCOUNTS.deposits,
+            referenceType: 'deposit',
+            referenceId: depositId,
+            description: `Deposit #${depositId}: ${sentAmount.toFixed(8)} ${code} at $${pricing.rate.toFixed(2)}/${code}`,
+          });
         }
-      }
-
-      // Convert satoshis to BTC
-      const sentAmountBTC = sentAmountSatoshis / 100000000;
 
-      // Fetch user to update credits
-      const userRecords = await db.select()
-        .from(users)
-        .where(eq(users.id, deposit.userId))
-        .limit(1);
+        return completed;
+      });
 
-      if (userRecords.length === 0) {
-        throw new Error('User not found for deposit');
+      if (updatedDeposit.length === 0) {
+        return NextResponse.json({
+          error: 'Deposit is no longer pending',
+          code: 'INVALID_STATUS'
+        }, { status: 400 });
       }
 
-      const user = userRecords[0];
-      const newCredits = (user.credits || 0) + sentAmountBTC;
-
-      // Update user credits
-      await db.update(users)
-        .set({
-          credits: newCredits
-        })
-        .where(eq(users.id, deposit.userId));
-
-      // Update deposit to completed
-      const updatedDeposit = await db.update(deposits)
-        .set({
-          confirmations,
-          status: 'completed',
-          verifiedAt: now,
-          verificationError: null,
-          updatedAt: now
-        })
-        .where(eq(deposits.id, depositId))
-        .returning();
-
       return NextResponse.json({
         depositId: updatedDeposit[0].id,
         transactionId: updatedDeposit[0].transactionId,
         confirmations,
         status: 'completed',
+        creditsAdded: pricing.credits,
+        quoteStatus: pricing.quoteStatus,
         message: 'Transaction verified and deposit approved'
       }, { status: 200 });
 
@@ -149,7 +152,7 @@ export async function GET(request: NextRequest) {
       const updatedDeposit = await db.update(deposits)
         .set({
           confirmations,
-          verificationError: `Waiting for confirmations (${confirmations}/2)`,
+          verificationError: `Waiting for confirmations (${confirmations}/${required})`,
           updatedAt: now
         })
         .where(eq(deposits.id, depositId))
@@ -160,7 +163,7 @@ export async function GET(request: NextRequest) {
         transactionId: updatedDeposit[0].transactionId,
         confirmations,
         status: 'pending',
-        message: `Waiting for confirmations (${confirmations}/2)`
+        message: `Waiting for confirmations (${confirmations}/${required})`
       }, { status: 200 });
     }
 
@@ -1,10 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { deposits, users, cryptoWalletAddresses } from '@/db/schema';
-import { eq, and, desc } from 'drizzle-orm';
+import { eq, and, ne, desc } from 'drizzle-orm';
+import { getRequestUser, isAdmin, canAccessUser, unauthorizedResponse, forbiddenResponse } from '@/lib/authz';
+import { assignDepositAddress } from '@/lib/deposit-addresses';
+import { isEvmCurrency } from '@/lib/chains';
+import { postLedgerEntry, SYSTEM_ACCOUNTS } from '@/lib/ledger';
+import { createDepositQuote, refreshDepositQuote, MIN_DEPOSIT_USD, type DepositQuote } from '@/lib/deposit-quotes';
 
 export async function GET(request: NextRequest) {
   try {
+    const requestUser = getRequestUser(request);
+    if (!requestUser) {
+      return unauthorizedResponse();
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const id = searchParams.get('id');
     const userId = searchParams.get('userId');
@@ -34,6 +44,10 @@ export async function GET(request: NextRequest) {
         );
       }
 
+      if (!canAccessUser(requestUser, deposit[0].userId)) {
+        return forbiddenResponse();
+      }
+
       return NextResponse.json(deposit[0], { status: 200 });
     }
 
@@ -49,7 +63,13 @@ export async function GET(request: NextRequest) {
           { status: 400 }
         );
       }
+      if (!canAccessUser(requestUser, parseInt(userId))) {
+        return forbiddenResponse();
+      }
       conditions.push(eq(deposits.userId, parseInt(userId)));
+    } else if (!isAdmin(requestUser)) {
+      // Customers only ever list their own deposits
+      conditions.push(eq(deposits.userId, requestUser.id));
     }
 
     if (status) {
@@ -84,7 +104,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { userId, cryptocurrency, agreedToTerms } = body;
+    const { userId, cryptocurrency, agreedToTerms, amountUsd } = body;
 
     // Validate required fields
     if (!userId) {
@@ -101,6 +121,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (typeof amountUsd !== 'number' || !Number.isFinite(amountUsd) || amountUsd < MIN_DEPOSIT_USD) {
+      return NextResponse.json(
+        { error: `amountUsd must be a number of at least ${MIN_DEPOSIT_USD}`, code: 'INVALID_AMOUNT' },
+        { status: 400 }
+      );
+    }
+
     // Validate agreedToTerms is true
     if (agreedToTerms !== true) {
       return NextResponse.json(
@@ -119,6 +146,10 @@ export async function POST(request: NextRequest) {
 
     const userIdInt = parseInt(userId.toString());
 
+    if (!canAccessUser(getRequestUser(request), userIdInt)) {
+      return forbiddenResponse();
+    }
+
     // Check if user exists
     const existingUser = await db
       .select()
@@ -177,6 +208,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // The rate is locked before an address is claimed, so a missing rate doesn't use up an index
+    let quote: DepositQuote;
+    try {
+      quote = await createDepositQuote(cryptocurrency.trim(), Math.round(amountUsd * 100) / 100);
+    } catch (error) {
+      console.error('Deposit quote error:', error);
+      return NextResponse.json(
+        { error: `Could not get a USD rate for ${cryptocurrency}, please try again shortly`, code: 'RATE_UNAVAILABLE' },
+        { status: 503 }
+      );
+    }
+
+    // A currency with an xpub gives each deposit its own address, so its payment is matched automatically
+    const { walletAddress: depositAddress, derivationIndex } = await assignDepositAddress(walletAddress[0]);
+
     // Amount will be auto-detected from blockchain, set to 0 initially
     const amount = 0;
     const credits = 0;
@@ -189,9 +235,11 @@ export async function POST(request: NextRequest) {
         userId: userIdInt,
         amount,
         cryptocurrency: cryptocurrency.trim(),
-        walletAddress: walletAddress[0].address,
+        walletAddress: depositAddress,
+        derivationIndex,
         status: 'pending',
         credits,
+        ...quote,
         transactionHash: null,
         notes: null,
         agreedToTerms: true,
@@ -225,7 +273,7 @@ export async function PUT(request: NextRequest) {
 
     const depositId = parseInt(id);
     const body = await request.json();
-    const { status, transactionHash, transactionId, notes, credits } = body;
+    const { status, transactionHash, transactionId, notes, credits, refreshQuote } = body;
 
     // Validate status if provided
     if (status && !['pending', 'completed', 'cancelled'].includes(status)) {
@@ -245,8 +293,8 @@ export async function PUT(request: NextRequest) {
           { status: 400 }
         );
       }
-      // Validate Bitcoin transaction ID format (64 hexadecimal characters)
-      const txidRegex = /^[a-fA-F0-9]{64}$/;
+      // Validate transaction ID format: 64 hex characters, 0x-prefixed on Ethereum (checked against the deposit below)
+      const txidRegex = /^(0x)?[a-fA-F0-9]{64}$/;
       if (!txidRegex.test(txid)) {
         return NextResponse.json(
           { error: 'Invalid transaction ID format. Must be 64 hexadecimal characters (0-9, a-f)', code: 'INVALID_TXID_FORMAT' },
@@ -280,28 +328,66 @@ export async function PUT(request: NextRequest) {
     }
 
     const deposit = existingDeposit[0];
+    const requestUser = getRequestUser(request);
 
-    // If status is being changed to 'completed', update user's credits
-    if (status === 'completed' && deposit.status !== 'completed') {
-      const creditsToAdd = credits !== undefined ? credits : deposit.credits;
-      
-      // Get current user
-      const user = await db
-        .select()
-        .from(users)
-        .where(eq(users.id, deposit.userId))
-        .limit(1);
+    if (!canAccessUser(requestUser, deposit.userId)) {
+      return forbiddenResponse();
+    }
+
+    if (normalizedTxid !== undefined && isEvmCurrency(deposit.cryptocurrency) !== normalizedTxid.startsWith('0x')) {
+      return NextResponse.json(
+        {
+          error: isEvmCurrency(deposit.cryptocurrency)
+            ? 'Invalid transaction ID format. Ethereum transaction IDs start with 0x followed by 64 hex characters'
+            : 'Invalid transaction ID format. Must be 64 hexadecimal characters (0-9, a-f)',
+          code: 'INVALID_TXID_FORMAT'
+        },
+        { status: 400 }
+      );
+    }
+
+    // Customers may attach a transaction to their own deposit; status and credits are admin decisions
+    if (!isAdmin(requestUser) && (status !== undefined || credits !== undefined)) {
+      return forbiddenResponse('Only admins can change deposit status or credits');
+    }
 
-      if (user.length > 0) {
-        const newCredits = (user[0].credits || 0) + creditsToAdd;
-        
-        await db
-          .update(users)
-          .set({ credits: newCredits })
-          .where(eq(users.id, deposit.userId));
+    // A fresh quote for the same USD amount, once the old one lapsed without a payment
+    if (refreshQuote === true) {
+      if (deposit.status !== 'pending' || deposit.quotedUsd === null || deposit.paymentSeenAt) {
+        return NextResponse.json(
+          { error: 'Only unpaid pending deposits with a quote can be re-quoted', code: 'QUOTE_NOT_REFRESHABLE' },
+          { status: 400 }
+        );
+      }
+      if (deposit.quoteExpiresAt && new Date(deposit.quoteExpiresAt).getTime() > Date.now()) {
+        return NextResponse.json(
+          { error: 'The current quote has not expired yet', code: 'QUOTE_STILL_VALID' },
+          { status: 400 }
+        );
+      }
+
+      let refreshed;
+      try {
+        refreshed = await refreshDepositQuote(deposit);
+      } catch (error) {
+        console.error('Deposit quote error:', error);
+        return NextResponse.json(
+          { error: `Could not get a USD rate for ${deposit.cryptocurrency}, please try again shortly`, code: 'RATE_UNAVAILABLE' },
+          { status: 503 }
+        );
+      }
+
+      if (!refreshed) {
+        return NextResponse.json(
+          { error: 'A payment was seen for this deposit, so its quote can no longer change', code: 'QUOTE_NOT_REFRESHABLE' },
+          { status: 409 }
+        );
       }
+      return NextResponse.json(refreshed, { status: 200 });
     }
 
+    const completing = status === 'completed' && deposit.status !== 'completed';
+
     // If status is being changed to 'cancelled', update user's lastCancelledDepositAt
     if (status === 'cancelled' && deposit.status !== 'cancelled') {
       await db
@@ -321,12 +407,38 @@ export async function PUT(request: NextRequest) {
     if (notes !== undefined) updateData.notes = notes;
     if (credits !== undefined) updateData.credits = credits;
 
-    // Update deposit
-    const updated = await db
-      .update(deposits)
-      .set(updateData)
-      .where(eq(deposits.id, depositId))
-      .returning();
+    // Completing credits the customer in the same transaction, and only if it
+    // wasn't completed in the meantime
+    const updated = await db.transaction(async (tx) => {
+      const rows = await tx
+        .update(deposits)
+        .set(updateData)
+        .where(completing ? and(eq(deposits.id, depositId), ne(deposits.status, 'completed')) : eq(deposits.id, depositId))
+        .returning();
+
+      const creditsToAdd = credits !== undefined ? credits : deposit.credits;
+      if (completing && rows.length > 0 && creditsToAdd > 0) {
+        await postLedgerEntry(tx, {
+          userId: deposit.userId,
+          direction: 'credit',
+          amount: creditsToAdd,
+          counterAccount: SYSTEM_ACCOUNTS.deposits,
+          referenceType: 'deposit',
+          referenceId: depositId,
+          description: `Deposit #${depositId} (${deposit.cryptocurrency.toUpperCase()}) approved`,
+          createdById: requestUser?.id ?? null,
+        });
+      }
+
+      return rows;
+    });
+
+    if (updated.length === 0) {
+      return NextResponse.json(
+        { error: 'Deposit was already completed', code: 'ALREADY_COMPLETED' },
+        { status: 409 }
+      );
+    }
 
     return NextResponse.json(updated[0], { status: 200 });
   } catch (error) {
@@ -340,6 +452,10 @@ export async function PUT(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    if (!isAdmin(getRequestUser(request))) {
+      return forbiddenResponse('Admin access required');
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const id = searchParams.get('id');
 
@@ -1,25 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { deposits, users } from '@/db/schema';
-import { eq, and } from 'drizzle-orm';
-
-interface MempoolTransaction {
-  txid: string;
-  status: {
-    confirmed: boolean;
-    block_height?: number;
-    block_time?: number;
-  };
-  vout: Array<{
-    value: number;
-    scriptpubkey_address: string;
-  }>;
-}
-
-interface MempoolBlock {
-  id: string;
-  timestamp: number;
-}
+import { eq, and, ne } from 'drizzle-orm';
+import { getRequestUser, canAccessUser, forbiddenResponse } from '@/lib/authz';
+import { postLedgerEntry, SYSTEM_ACCOUNTS } from '@/lib/ledger';
+import { assessPayment, describePricing, priceDepositPayment, recordPaymentSeen, type PaymentPricing } from '@/lib/deposit-quotes';
+import { chainToken, getChainProvider, isEvmCurrency, requiredConfirmations } from '@/lib/chains';
+import { hdCurrencyCode } from '@/lib/hd-wallet';
+import { getConfirmations, receivedBy, type ChainTx } from '@/lib/chain-provider';
 
 export async function POST(request: NextRequest) {
   try {
@@ -46,8 +34,8 @@ export async function POST(request: NextRequest) {
 
     const txid = transactionId.trim();
 
-    // Validate Bitcoin transaction ID format
-    const txidRegex = /^[a-fA-F0-9]{64}$/;
+    // Validate transaction ID format: 64 hex characters, 0x-prefixed on Ethereum (checked against the deposit below)
+    const txidRegex = /^(0x)?[a-fA-F0-9]{64}$/;
     if (!txidRegex.test(txid)) {
       return NextResponse.json({ 
         error: 'Invalid transaction ID format. Must be 64 hexadecimal characters (0-9, a-f)',
@@ -99,6 +87,10 @@ export async function POST(request: NextRequest) {
     const deposit = depositRecords[0];
     console.log('[DEPOSIT DEBUG] Found deposit:', deposit);
 
+    if (!canAccessUser(getRequestUser(request), deposit.userId)) {
+      return forbiddenResponse();
+    }
+
     // Verify deposit is in 'pending' status
     if (deposit.status !== 'pending') {
       return NextResponse.json({ 
@@ -107,36 +99,32 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Fetch transaction data from mempool.space API
-    let txData: MempoolTransaction;
-    try {
-      const txResponse = await fetch(`https://mempool.space/api/tx/${normalizedTxid}`);
-      
-      if (!txResponse.ok) {
-        if (txResponse.status === 404) {
-          await db.update(deposits)
-            .set({
-              transactionId: normalizedTxid,
-              verificationError: 'Transaction not found on blockchain',
-              updatedAt: new Date().toISOString()
-            })
-            .where(eq(deposits.id, depositId));
-
-          return NextResponse.json({ 
-            success: false,
-            confirmations: 0,
-            amount: 0,
-            error: 'Transaction not found on blockchain',
-            code: 'TRANSACTION_NOT_FOUND' 
-          }, { status: 400 });
-        }
-        throw new Error(`Mempool API error: ${txResponse.status}`);
-      }
+    if (isEvmCurrency(deposit.cryptocurrency) !== normalizedTxid.startsWith('0x')) {
+      return NextResponse.json({ 
+        error: isEvmCurrency(deposit.cryptocurrency)
+          ? 'Invalid transaction ID format. Ethereum transaction IDs start with 0x followed by 64 hex characters'
+          : 'Invalid transaction ID format. Must be 64 hexadecimal characters (0-9, a-f)',
+        code: 'INVALID_TXID_FORMAT' 
+      }, { status: 400 });
+    }
+
+    const code = hdCurrencyCode(deposit.cryptocurrency);
+    const required = requiredConfirmations(deposit.cryptocurrency, deposit.walletAddress);
+
+    const provider = getChainProvider(deposit.cryptocurrency, deposit.walletAddress);
+    if (!provider) {
+      return NextResponse.json({ 
+        error: `No blockchain provider is configured for ${deposit.cryptocurrency}`,
+        code: 'CURRENCY_NOT_CONFIGURED' 
+      }, { status: 501 });
+    }
 
-      txData = await txResponse.json();
-      console.log('[DEPOSIT DEBUG] Transaction data:', txData);
+    let transaction: ChainTx | null;
+    try {
+      transaction = await provider.getTx(normalizedTxid);
+      console.log('[DEPOSIT DEBUG] Transaction data:', transaction?.raw);
     } catch (error) {
-      console.error('[DEPOSIT DEBUG] Mempool API fetch error:', error);
+      console.error('[DEPOSIT DEBUG] Blockchain fetch error:', error);
       
       await db.update(deposits)
         .set({
@@ -155,12 +143,28 @@ export async function POST(request: NextRequest) {
       }, { status: 500 });
     }
 
-    // Find matching output for wallet address
-    const matchingOutput = txData.vout.find(
-      output => output.scriptpubkey_address === deposit.walletAddress
-    );
+    if (!transaction) {
+      await db.update(deposits)
+        .set({
+          transactionId: normalizedTxid,
+          verificationError: 'Transaction not found on blockchain',
+          updatedAt: new Date().toISOString()
+        })
+        .where(eq(deposits.id, depositId));
 
-    if (!matchingOutput) {
+      return NextResponse.json({ 
+        success: false,
+        confirmations: 0,
+        amount: 0,
+        error: 'Transaction not found on blockchain',
+        code: 'TRANSACTION_NOT_FOUND' 
+      }, { status: 400 });
+    }
+
+    // Find what the transaction paid the wallet address
+    const received = receivedBy(transaction, deposit.walletAddress, chainToken(deposit.cryptocurrency)?.contract);
+
+    if (!received) {
       await db.update(deposits)
         .set({
           transactionId: normalizedTxid,
@@ -178,211 +182,145 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Convert satoshis to BTC
-    const sentAmountBTC = matchingOutput.value / 100000000;
-    console.log('[DEPOSIT DEBUG] Sent amount:', sentAmountBTC, 'BTC');
+    const sentAmount = received.amount;
+    console.log('[DEPOSIT DEBUG] Sent amount:', sentAmount, code);
 
     // Calculate confirmations
     let confirmations = 0;
-    
-    if (txData.status.confirmed && txData.status.block_height) {
-      try {
-        const tipResponse = await fetch('https://mempool.space/api/blocks/tip/height');
-        if (tipResponse.ok) {
-          const currentHeight = await tipResponse.json();
-          confirmations = currentHeight - txData.status.block_height + 1;
-          console.log('[DEPOSIT DEBUG] Confirmations:', confirmations);
-        }
-      } catch (error) {
-        console.error('[DEPOSIT DEBUG] Failed to fetch current block height:', error);
-        confirmations = 1;
-      }
+    try {
+      confirmations = await getConfirmations(provider, transaction);
+      console.log('[DEPOSIT DEBUG] Confirmations:', confirmations);
+    } catch (error) {
+      console.error('[DEPOSIT DEBUG] Failed to fetch current block height:', error);
+      confirmations = transaction.confirmed ? 1 : 0;
     }
 
-    // Get historical BTC price at transaction time
-    let btcPriceUSD = 0;
-    let transactionTimestamp = 0;
-    
-    if (txData.status.confirmed && txData.status.block_height) {
-      try {
-        // Get block data to retrieve timestamp
-        const blockResponse = await fetch(`https://mempool.space/api/block-height/${txData.status.block_height}`);
-        if (blockResponse.ok) {
-          const blockHash = await blockResponse.text();
-          
-          // Get block details with timestamp
-          const blockDetailsResponse = await fetch(`https://mempool.space/api/block/${blockHash}`);
-          if (blockDetailsResponse.ok) {
-            const blockData: MempoolBlock = await blockDetailsResponse.json();
-            transactionTimestamp = blockData.timestamp;
-            console.log('[DEPOSIT DEBUG] Transaction timestamp:', transactionTimestamp, new Date(transactionTimestamp * 1000).toISOString());
-            
-            // Fetch historical price from CoinGecko (free API, no key required)
-            // Convert timestamp to date format DD-MM-YYYY
-            const txDate = new Date(transactionTimestamp * 1000);
-            const day = String(txDate.getUTCDate()).padStart(2, '0');
-            const month = String(txDate.getUTCMonth() + 1).padStart(2, '0');
-            const year = txDate.getUTCFullYear();
-            const dateStr = `${day}-${month}-${year}`;
-            
-            console.log('[DEPOSIT DEBUG] Fetching historical price for date:', dateStr);
-            
-            const priceResponse = await fetch(
-              `https://api.coingecko.com/api/v3/coins/bitcoin/history?date=${dateStr}&localization=false`
-            );
-            
-            if (priceResponse.ok) {
-              const priceData = await priceResponse.json();
-              btcPriceUSD = priceData?.market_data?.current_price?.usd || 0;
-              console.log('[DEPOSIT DEBUG] Historical BTC price on', dateStr, ':', btcPriceUSD, 'USD');
-            } else {
-              console.error('[DEPOSIT DEBUG] Failed to fetch historical price, falling back to current price');
-              // Fallback to current price if historical price unavailable
-              const currentPriceResponse = await fetch('https://mempool.space/api/v1/prices');
-              if (currentPriceResponse.ok) {
-                const currentPriceData = await currentPriceResponse.json();
-                btcPriceUSD = currentPriceData.USD || 0;
-                console.log('[DEPOSIT DEBUG] Using current BTC price as fallback:', btcPriceUSD, 'USD');
-              }
-            }
-          }
-        }
-      } catch (error) {
-        console.error('[DEPOSIT DEBUG] Failed to fetch historical price:', error);
-        // Fallback to current price
-        try {
-          const priceResponse = await fetch('https://mempool.space/api/v1/prices');
-          if (priceResponse.ok) {
-            const priceData = await priceResponse.json();
-            btcPriceUSD = priceData.USD || 0;
-            console.log('[DEPOSIT DEBUG] Using current BTC price as fallback:', btcPriceUSD, 'USD');
-          }
-        } catch (fallbackError) {
-          console.error('[DEPOSIT DEBUG] Failed to fetch current price as fallback:', fallbackError);
-        }
-      }
-    } else {
-      // Transaction not confirmed yet, use current price
+    // The quote is judged by when the payment was first seen: now, or its block time if that is earlier
+    const nowIso = new Date().toISOString();
+    const blockTime = transaction.blockTime ? new Date(transaction.blockTime * 1000).toISOString() : null;
+    const seenAt = deposit.paymentSeenAt ?? (blockTime && blockTime < nowIso ? blockTime : nowIso);
+    await recordPaymentSeen(deposit, sentAmount, seenAt);
+
+    // Process based on confirmations
+    if (confirmations >= required) {
+      let pricing: PaymentPricing;
       try {
-        const priceResponse = await fetch('https://mempool.space/api/v1/prices');
-        if (priceResponse.ok) {
-          const priceData = await priceResponse.json();
-          btcPriceUSD = priceData.USD || 0;
-          console.log('[DEPOSIT DEBUG] Using current BTC price (unconfirmed tx):', btcPriceUSD, 'USD');
-        }
+        pricing = await priceDepositPayment(deposit, sentAmount, seenAt);
       } catch (error) {
-        console.error('[DEPOSIT DEBUG] Failed to fetch current BTC price:', error);
+        console.error('[DEPOSIT DEBUG] Failed to price payment:', error);
+        await db.update(deposits)
+          .set({
+            transactionId: normalizedTxid,
+            confirmations,
+            verificationError: 'Could not get a USD rate, try again shortly',
+            updatedAt: new Date().toISOString()
+          })
+          .where(eq(deposits.id, depositId));
+
+        return NextResponse.json({ 
+          success: false,
+          confirmations,
+          amount: sentAmount,
+          error: 'Could not get a USD rate, try again shortly',
+          code: 'RATE_UNAVAILABLE' 
+        }, { status: 503 });
       }
-    }
-    
-    // Convert sent BTC to USD value at transaction time
-    const sentAmountUSD = btcPriceUSD > 0 ? sentAmountBTC * btcPriceUSD : 0;
-    console.log('[DEPOSIT DEBUG] Sent amount in USD (at transaction time):', sentAmountUSD);
-    
-    // Credits to add (USD value of BTC sent at transaction time)
-    const creditsToAdd = sentAmountUSD > 0 ? sentAmountUSD : sentAmountBTC;
-    console.log('[DEPOSIT DEBUG] Credits to add:', creditsToAdd);
 
-    // Process based on confirmations
-    if (confirmations >= 2) {
-      console.log('[DEPOSIT DEBUG] ✅ Transaction verified! Updating deposit and crediting user...');
+      const creditsToAdd = pricing.credits;
+      console.log('[DEPOSIT DEBUG] ✅ Transaction verified! Crediting', creditsToAdd, 'at', pricing.rate, pricing.rateSource);
       
-      // Update deposit status to 'completed'
-      await db.update(deposits)
-        .set({
-          status: 'completed',
-          transactionId: normalizedTxid,
-          confirmations,
-          verifiedAt: new Date().toISOString(),
-          verificationError: null,
-          credits: creditsToAdd,
-          notes: transactionTimestamp > 0 
-            ? `Sent ${sentAmountBTC.toFixed(8)} BTC ($${sentAmountUSD.toFixed(2)} USD at $${btcPriceUSD.toFixed(2)}/BTC on ${new Date(transactionTimestamp * 1000).toLocaleString()})`
-            : `Sent ${sentAmountBTC.toFixed(8)} BTC ($${sentAmountUSD.toFixed(2)} USD at $${btcPriceUSD.toFixed(2)}/BTC)`,
-          updatedAt: new Date().toISOString()
-        })
-        .where(eq(deposits.id, depositId));
+      // Complete the deposit and credit the customer together; a deposit completed
+      // in the meantime (another verify, the poller) is left alone
+      const credited = await db.transaction(async (tx) => {
+        const completed = await tx.update(deposits)
+          .set({
+            status: 'completed',
+            amount: sentAmount,
+            transactionId: normalizedTxid,
+            confirmations,
+            verifiedAt: new Date().toISOString(),
+            verificationError: null,
+            credits: creditsToAdd,
+            settledRate: pricing.rate,
+            ...(pricing.quoteStatus ? { quoteStatus: pricing.quoteStatus } : {}),
+            notes: describePricing(deposit, sentAmount, pricing),
+            updatedAt: new Date().toISOString()
+          })
+          .where(and(eq(deposits.id, depositId), ne(deposits.status, 'completed')))
+          .returning({ id: deposits.id });
+
+        if (completed.length === 0) {
+          return null;
+        }
 
-      console.log('[DEPOSIT DEBUG] Deposit updated to completed');
+        console.log('[DEPOSIT DEBUG] Deposit updated to completed');
 
-      // Credit user account with the USD value of BTC sent
-      console.log('[DEPOSIT DEBUG] Fetching user with ID:', deposit.userId);
-      
-      const userRecords = await db.select()
-        .from(users)
-        .where(eq(users.id, deposit.userId))
-        .limit(1);
+        const balance = creditsToAdd > 0
+          ? await postLedgerEntry(tx, {
+            userId: deposit.userId,
+            direction: 'credit',
+            amount: creditsToAdd,
+            counterAccount: SYSTEM_ACCOUNTS.deposits,
+            referenceType: 'deposit',
+            referenceId: depositId,
+            description: `Deposit #${depositId}: ${sentAmount.toFixed(8)} ${code} at $${pricing.rate.toFixed(2)}/${code}`,
+          })
+          : (await tx.select({ credits: users.credits }).from(users).where(eq(users.id, deposit.userId)))[0]?.credits ?? 0;
 
-      console.log('[DEPOSIT DEBUG] User query result:', userRecords);
+        return { balance };
+      });
 
-      if (userRecords.length === 0) {
-        console.error('[DEPOSIT DEBUG] ❌ USER NOT FOUND! deposit.userId:', deposit.userId);
+      if (!credited) {
         return NextResponse.json({ 
           success: false,
-          error: 'User not found. Cannot credit account.',
-          code: 'USER_NOT_FOUND' 
-        }, { status: 500 });
+          error: 'This deposit has already been completed',
+          code: 'ALREADY_COMPLETED' 
+        }, { status: 409 });
       }
 
-      const user = userRecords[0];
-      const currentCredits = user.credits || 0;
-      const newCredits = currentCredits + creditsToAdd;
-      
+      const newCredits = credited.balance ?? 0;
+      const currentCredits = newCredits - creditsToAdd;
+
       console.log('[DEPOSIT DEBUG] =====================================');
-      console.log('[DEPOSIT DEBUG] CREDITING USER ACCOUNT');
+      console.log('[DEPOSIT DEBUG] CREDITED USER ACCOUNT');
       console.log('[DEPOSIT DEBUG] User ID:', deposit.userId);
-      console.log('[DEPOSIT DEBUG] Current credits:', currentCredits);
-      console.log('[DEPOSIT DEBUG] Adding credits:', creditsToAdd);
+      console.log('[DEPOSIT DEBUG] Added credits:', creditsToAdd);
       console.log('[DEPOSIT DEBUG] New credits:', newCredits);
       console.log('[DEPOSIT DEBUG] =====================================');
-      
-      // Update user credits
-      const updateResult = await db.update(users)
-        .set({
-          credits: newCredits
-        })
-        .where(eq(users.id, deposit.userId))
-        .returning();
-
-      console.log('[DEPOSIT DEBUG] User update result:', updateResult);
-
-      if (updateResult.length === 0) {
-        console.error('[DEPOSIT DEBUG] ❌ FAILED TO UPDATE USER CREDITS!');
-        return NextResponse.json({ 
-          success: false,
-          error: 'Failed to update user credits',
-          code: 'CREDIT_UPDATE_FAILED' 
-        }, { status: 500 });
-      }
 
       console.log('[DEPOSIT DEBUG] ✅ SUCCESS! User credits updated from', currentCredits, 'to', newCredits);
 
       return NextResponse.json({ 
         success: true,
         confirmations,
-        amount: sentAmountBTC,
-        amountUSD: sentAmountUSD,
-        btcPrice: btcPriceUSD,
+        amount: sentAmount,
+        amountUSD: creditsToAdd,
+        btcPrice: pricing.rate,
+        rateSource: pricing.rateSource,
+        quoteStatus: pricing.quoteStatus,
         creditsAdded: creditsToAdd,
         previousCredits: currentCredits,
         newCredits: newCredits,
         status: 'completed',
-        transactionDate: transactionTimestamp > 0 ? new Date(transactionTimestamp * 1000).toISOString() : null,
-        message: `Credited $${creditsToAdd.toFixed(2)} USD (${sentAmountBTC.toFixed(8)} BTC at $${btcPriceUSD.toFixed(2)}/BTC${transactionTimestamp > 0 ? ' on ' + new Date(transactionTimestamp * 1000).toLocaleDateString() : ''})`
+        message: `Credited $${creditsToAdd.toFixed(2)} USD (${sentAmount.toFixed(8)} ${code} at $${pricing.rate.toFixed(2)}/${code})`
       }, { status: 200 });
 
     } else {
-      // 0-1 confirmations: update but keep pending
-      console.log('[DEPOSIT DEBUG] ⏳ Waiting for confirmations:', confirmations, '/ 2');
+      // Below the chain's threshold: update but keep pending
+      console.log('[DEPOSIT DEBUG] ⏳ Waiting for confirmations:', confirmations, '/', required);
+
+      // What the payment is worth if it confirms, when the locked rate applies to it
+      const quoteStatus = assessPayment(deposit, sentAmount, seenAt);
+      const lockedUSD = quoteStatus !== null && quoteStatus !== 'expired' ? sentAmount * deposit.quoteRate! : null;
       
       await db.update(deposits)
         .set({
           transactionId: normalizedTxid,
           confirmations,
           verificationError: 'Waiting for confirmations',
-          notes: btcPriceUSD > 0 
-            ? `Detected ${sentAmountBTC.toFixed(8)} BTC ($${sentAmountUSD.toFixed(2)} USD at $${btcPriceUSD.toFixed(2)}/BTC) - waiting for confirmations`
-            : `Detected ${sentAmountBTC.toFixed(8)} BTC - waiting for confirmations`,
+          notes: lockedUSD !== null
+            ? `Detected ${sentAmount.toFixed(8)} ${code} ($${lockedUSD.toFixed(2)} USD at the locked $${deposit.quoteRate!.toFixed(2)}/${code}) - waiting for confirmations`
+            : `Detected ${sentAmount.toFixed(8)} ${code} - waiting for confirmations, priced at the rate when it confirms`,
           updatedAt: new Date().toISOString()
         })
         .where(eq(deposits.id, depositId));
@@ -390,12 +328,13 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ 
         success: false,
         confirmations,
-        amount: sentAmountBTC,
-        amountUSD: sentAmountUSD,
-        btcPrice: btcPriceUSD,
+        amount: sentAmount,
+        amountUSD: lockedUSD,
+        btcPrice: lockedUSD !== null ? deposit.quoteRate : null,
+        quoteStatus,
         status: 'pending',
         error: 'Waiting for confirmations',
-        message: `Detected ${sentAmountBTC.toFixed(8)} BTC ($${sentAmountUSD.toFixed(2)} USD) - ${confirmations}/2 confirmations`
+        message: `Detected ${sentAmount.toFixed(8)} ${code}${lockedUSD !== null ? ` ($${lockedUSD.toFixed(2)} USD)` : ''} - ${confirmations}/${required} confirmations`
       }, { status: 200 });
     }
 
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getNotifications, markNotificationsRead } from '@/lib/notifications';
+import { getRequestUser, canAccessUser, forbiddenResponse } from '@/lib/authz';
+
+function parseUserId(value: unknown): number | null {
+  const userId = typeof value === 'number' ? value : parseInt(String(value ?? ''));
+  return Number.isInteger(userId) && userId > 0 ? userId : null;
+}
+
+// Latest notifications and the unread count for the navbar bell
+export async function GET(request: NextRequest) {
+  try {
+    const userId = parseUserId(request.nextUrl.searchParams.get('userId'));
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'userId must be a valid integer', code: 'INVALID_USER_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!canAccessUser(getRequestUser(request), userId)) {
+      return forbiddenResponse();
+    }
+
+    return NextResponse.json(await getNotifications(userId), { status: 200 });
+  } catch (error) {
+    console.error('GET notifications error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
+
+// Mark notifications read: { userId, ids } for specific ones, { userId } for all
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const userId = parseUserId(body.userId);
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'userId must be a valid integer', code: 'INVALID_USER_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!canAccessUser(getRequestUser(request), userId)) {
+      return forbiddenResponse();
+    }
+
+    if (body.ids !== undefined && (!Array.isArray(body.ids) || body.ids.some((id: unknown) => !Number.isInteger(id)))) {
+      return NextResponse.json(
+        { error: 'ids must be an array of integers', code: 'INVALID_IDS' },
+        { status: 400 }
+      );
+    }
+
+    await markNotificationsRead(userId, body.ids);
+
+    return NextResponse.json(await getNotifications(userId), { status: 200 });
+  } catch (error) {
+    console.error('PUT notifications error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
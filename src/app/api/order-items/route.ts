@@ -1,10 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { orderItems } from '@/db/schema';
+import { orderItems, orders } from '@/db/schema';
 import { eq, and, desc } from 'drizzle-orm';
+import { getRequestUser, isAdmin, canAccessUser, unauthorizedResponse, forbiddenResponse, type RequestUser } from '@/lib/authz';
+
+// Items are visible to the order's buyer, its paying parent and admins
+async function canAccessOrder(requestUser: RequestUser, orderId: number): Promise<boolean> {
+  const [order] = await db.select({ userId: orders.userId, payerId: orders.payerId })
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .limit(1);
+
+  if (!order) {
+    return isAdmin(requestUser);
+  }
+  return canAccessUser(requestUser, order.userId) || (order.payerId !== null && canAccessUser(requestUser, order.payerId));
+}
 
 export async function GET(request: NextRequest) {
   try {
+    const requestUser = getRequestUser(request);
+    if (!requestUser) {
+      return unauthorizedResponse();
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const id = searchParams.get('id');
     const orderId = searchParams.get('orderId');
@@ -33,6 +52,10 @@ export async function GET(request: NextRequest) {
         }, { status: 404 });
       }
 
+      if (!(await canAccessOrder(requestUser, record[0].orderId))) {
+        return forbiddenResponse();
+      }
+
       return NextResponse.json(record[0]);
     }
 
@@ -41,6 +64,14 @@ export async function GET(request: NextRequest) {
 
     const conditions = [];
 
+    // Only admins may list items across orders
+    if (!orderId && !isAdmin(requestUser)) {
+      return NextResponse.json({ 
+        error: "Valid order ID is required",
+        code: "INVALID_ORDER_ID" 
+      }, { status: 400 });
+    }
+
     if (orderId) {
       if (isNaN(parseInt(orderId))) {
         return NextResponse.json({ 
@@ -48,6 +79,9 @@ export async function GET(request: NextRequest) {
           code: "INVALID_ORDER_ID" 
         }, { status: 400 });
       }
+      if (!(await canAccessOrder(requestUser, parseInt(orderId)))) {
+        return forbiddenResponse();
+      }
       conditions.push(eq(orderItems.orderId, parseInt(orderId)));
     }
 
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { orders } from '@/db/schema';
+import { inArray } from 'drizzle-orm';
+import { getRequestUser, isAdmin, canAccessUser, unauthorizedResponse, forbiddenResponse } from '@/lib/authz';
+import { getStatusHistory } from '@/lib/order-history';
+
+// Status timelines for ?orderId=1 or ?orderIds=1,2,3 (buyers, paying parents and admins only)
+export async function GET(request: NextRequest) {
+  try {
+    const requestUser = getRequestUser(request);
+    if (!requestUser) {
+      return unauthorizedResponse();
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const raw = searchParams.get('orderIds') ?? searchParams.get('orderId') ?? '';
+    const orderIds = [...new Set(raw.split(',').map(id => parseInt(id.trim())))];
+
+    if (orderIds.length === 0 || orderIds.length > 500 || orderIds.some(id => isNaN(id) || id <= 0)) {
+      return NextResponse.json(
+        { error: 'Valid orderId or orderIds is required', code: 'INVALID_ORDER_ID' },
+        { status: 400 }
+      );
+    }
+
+    const orderRows = await db.select({ id: orders.id, userId: orders.userId, payerId: orders.payerId })
+      .from(orders)
+      .where(inArray(orders.id, orderIds));
+
+    const forbidden = orderRows.some(order =>
+      !canAccessUser(requestUser, order.userId) && !(order.payerId && canAccessUser(requestUser, order.payerId))
+    );
+
+    if (forbidden) {
+      return forbiddenResponse();
+    }
+
+    const history = await getStatusHistory(orderRows.map(o => o.id));
+
+    if (isAdmin(requestUser)) {
+      return NextResponse.json(history, { status: 200 });
+    }
+
+    // Customers see that staff made a change, not which admin account made it
+    return NextResponse.json(
+      history.map(({ changedById, ...entry }) => ({
+        ...entry,
+        changedBy: entry.changedByRole === 'admin' && changedById !== requestUser.id ? 'Staff' : entry.changedBy,
+      })),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('GET order status history error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { orders, users } from '@/db/schema';
-import { eq, desc, and } from 'drizzle-orm';
+import { orders, users, orderStatusHistory, inventoryMovements } from '@/db/schema';
+import { eq, desc, and, sql } from 'drizzle-orm';
+import { getRequestUser, isAdmin, canAccessUser, unauthorizedResponse, forbiddenResponse } from '@/lib/authz';
+import { ORDER_STATUSES, isOrderStatus } from '@/lib/order-status';
+import { transitionOrder, recordStatusChange } from '@/lib/order-history';
+import { postLedgerEntry, SYSTEM_ACCOUNTS } from '@/lib/ledger';
 
-const VALID_STATUSES = ['pending', 'processing', 'shipped', 'delivered', 'cancelled'];
+class InsufficientCreditsError extends Error {}
 
 export async function GET(request: NextRequest) {
   try {
+    const requestUser = getRequestUser(request);
+    if (!requestUser) {
+      return unauthorizedResponse();
+    }
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -32,6 +41,10 @@ export async function GET(request: NextRequest) {
         );
       }
 
+      if (!canAccessUser(requestUser, order[0].userId)) {
+        return forbiddenResponse();
+      }
+
       return NextResponse.json(order[0], { status: 200 });
     }
 
@@ -53,13 +66,19 @@ export async function GET(request: NextRequest) {
           { status: 400 }
         );
       }
+      if (!canAccessUser(requestUser, userIdInt)) {
+        return forbiddenResponse();
+      }
       conditions.push(eq(orders.userId, userIdInt));
+    } else if (!isAdmin(requestUser)) {
+      // Customers only ever list their own orders
+      conditions.push(eq(orders.userId, requestUser.id));
     }
 
     if (status) {
-      if (!VALID_STATUSES.includes(status)) {
+      if (!isOrderStatus(status)) {
         return NextResponse.json(
-          { error: `Status must be one of: ${VALID_STATUSES.join(', ')}`, code: 'INVALID_STATUS' },
+          { error: `Status must be one of: ${ORDER_STATUSES.join(', ')}`, code: 'INVALID_STATUS' },
           { status: 400 }
         );
       }
@@ -86,8 +105,13 @@ export async function GET(request: NextRequest) {
   }
 }
 
+// Admin-entered orders at a given total; customers order through /api/checkout, which prices the cart
 export async function POST(request: NextRequest) {
   try {
+    if (!isAdmin(getRequestUser(request))) {
+      return forbiddenResponse('Orders are placed through checkout');
+    }
+
     const body = await request.json();
     const { userId, totalAmount, shippingAddress, notes, status } = body;
 
@@ -120,10 +144,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate status if provided
-    if (status && !VALID_STATUSES.includes(status)) {
+    // Orders start pending and only move on through the status transitions
+    if (status && status !== 'pending') {
       return NextResponse.json(
-        { error: `Status must be one of: ${VALID_STATUSES.join(', ')}`, code: 'INVALID_STATUS' },
+        { error: "New orders start as 'pending'", code: 'INVALID_STATUS' },
         { status: 400 }
       );
     }
@@ -145,6 +169,14 @@ export async function POST(request: NextRequest) {
     const user = userRecords[0];
     const currentCredits = user.credits || 0;
 
+    // Sub-user orders draw on the parent's credits and limits, which only checkout applies
+    if (user.parentId) {
+      return NextResponse.json(
+        { error: 'Sub-user orders must be placed through checkout', code: 'USE_CHECKOUT' },
+        { status: 403 }
+      );
+    }
+
     // Check if user has sufficient credits
     if (currentCredits < totalAmount) {
       return NextResponse.json(
@@ -164,28 +196,65 @@ export async function POST(request: NextRequest) {
     const insertData = {
       userId,
       totalAmount,
-      status: status || 'pending',
+      status: 'pending',
       shippingAddress: shippingAddress ? shippingAddress.trim() : null,
       notes: notes ? notes.trim() : null,
       createdAt: timestamp,
       updatedAt: timestamp,
     };
 
-    // Create order
-    const newOrder = await db.insert(orders).values(insertData).returning();
+    // Create the order and deduct credits together
+    let created;
+    try {
+      created = await db.transaction(async (tx) => {
+        const [order] = await tx.insert(orders).values(insertData).returning();
+        await recordStatusChange(tx, {
+          orderId: order.id,
+          fromStatus: null,
+          toStatus: order.status,
+          changedById: getRequestUser(request)?.id ?? null,
+        });
+
+        const balance = totalAmount > 0
+          ? await postLedgerEntry(tx, {
+            userId,
+            direction: 'debit',
+            amount: totalAmount,
+            counterAccount: SYSTEM_ACCOUNTS.sales,
+            referenceType: 'order',
+            referenceId: order.id,
+            description: `Order #${order.id}`,
+            createdById: getRequestUser(request)?.id ?? null,
+            requireFunds: true,
+          })
+          : currentCredits;
+
+        // Spent by another order since the check above; rolls the order back
+        if (balance === null) {
+          throw new InsufficientCreditsError();
+        }
+
+        await tx.update(users)
+          .set({ totalSpent: sql`coalesce(${users.totalSpent}, 0) + ${totalAmount}` })
+          .where(eq(users.id, userId));
+
+        return { order, balance };
+      });
+    } catch (error) {
+      if (error instanceof InsufficientCreditsError) {
+        return NextResponse.json(
+          { error: 'Insufficient credits', code: 'INSUFFICIENT_CREDITS', required: totalAmount },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
 
-    // Deduct credits from user account
-    const newCredits = currentCredits - totalAmount;
+    const newOrder = [created.order];
+    const newCredits = created.balance;
     const currentTotalSpent = user.totalSpent || 0;
     const newTotalSpent = currentTotalSpent + totalAmount;
 
-    await db.update(users)
-      .set({
-        credits: newCredits,
-        totalSpent: newTotalSpent
-      })
-      .where(eq(users.id, userId));
-
     console.log('[ORDER DEBUG] Order created and credits deducted');
     console.log('[ORDER DEBUG] Order ID:', newOrder[0].id);
     console.log('[ORDER DEBUG] User ID:', userId);
@@ -209,6 +278,11 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
+    const requestUser = getRequestUser(request);
+    if (!isAdmin(requestUser)) {
+      return forbiddenResponse('Admin access required');
+    }
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -236,22 +310,57 @@ export async function PUT(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { status, shippingAddress, notes, totalAmount } = body;
+    const { status, statusNote, shippingAddress, notes, totalAmount } = body;
 
     // Validate status if provided
-    if (status && !VALID_STATUSES.includes(status)) {
+    if (status && !isOrderStatus(status)) {
       return NextResponse.json(
-        { error: `Status must be one of: ${VALID_STATUSES.join(', ')}`, code: 'INVALID_STATUS' },
+        { error: `Status must be one of: ${ORDER_STATUSES.join(', ')}`, code: 'INVALID_STATUS' },
         { status: 400 }
       );
     }
 
-    // Validate totalAmount if provided
-    if (totalAmount !== undefined && totalAmount !== null) {
-      if (typeof totalAmount !== 'number' || isNaN(totalAmount) || totalAmount < 0) {
+    // Orders waiting on a parent's approval can only be cancelled until the parent decides
+    if (status && status !== 'pending' && status !== 'cancelled' && existingOrder[0].approvalStatus === 'awaiting') {
+      return NextResponse.json(
+        { error: 'This order is waiting for approval from the account owner', code: 'AWAITING_APPROVAL' },
+        { status: 409 }
+      );
+    }
+
+    // The total was debited when the order was placed and is what a cancellation refunds
+    if (totalAmount !== undefined && totalAmount !== existingOrder[0].totalAmount) {
+      return NextResponse.json(
+        { error: 'totalAmount cannot be changed after the order is placed', code: 'TOTAL_AMOUNT_IMMUTABLE' },
+        { status: 400 }
+      );
+    }
+
+    // Status only moves along the order state machine, and each change is recorded
+    if (status !== undefined && status !== existingOrder[0].status) {
+      const result = await transitionOrder(
+        orderId,
+        status,
+        requestUser!.id,
+        typeof statusNote === 'string' && statusNote.trim() ? statusNote.trim() : null
+      );
+
+      if (result.status === 'not_found') {
         return NextResponse.json(
-          { error: 'totalAmount must be a positive number', code: 'INVALID_TOTAL_AMOUNT' },
-          { status: 400 }
+          { error: 'Order not found', code: 'ORDER_NOT_FOUND' },
+          { status: 404 }
+        );
+      }
+
+      if (result.status === 'invalid_transition') {
+        return NextResponse.json(
+          {
+            error: `Cannot change an order from ${result.from} to ${status}`,
+            code: 'INVALID_STATUS_TRANSITION',
+            from: result.from,
+            allowed: result.allowed,
+          },
+          { status: 409 }
         );
       }
     }
@@ -261,10 +370,6 @@ export async function PUT(request: NextRequest) {
       updatedAt: new Date().toISOString(),
     };
 
-    if (status !== undefined) {
-      updateData.status = status;
-    }
-
     if (shippingAddress !== undefined) {
       updateData.shippingAddress = shippingAddress ? shippingAddress.trim() : null;
     }
@@ -273,10 +378,6 @@ export async function PUT(request: NextRequest) {
       updateData.notes = notes ? notes.trim() : null;
     }
 
-    if (totalAmount !== undefined) {
-      updateData.totalAmount = totalAmount;
-    }
-
     const updatedOrder = await db
       .update(orders)
       .set(updateData)
@@ -295,6 +396,10 @@ export async function PUT(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    if (!isAdmin(getRequestUser(request))) {
+      return forbiddenResponse('Admin access required');
+    }
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -321,6 +426,9 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
+    await db.delete(orderStatusHistory).where(eq(orderStatusHistory.orderId, orderId));
+    await db.update(inventoryMovements).set({ orderId: null }).where(eq(inventoryMovements.orderId, orderId));
+
     const deletedOrder = await db
       .delete(orders)
       .where(eq(orders.id, orderId))
@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { productVariants, products } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
+import { recordStockChange } from '@/lib/inventory';
+import { recordPriceChange } from '@/lib/price-history';
+import { notifyBackInStock } from '@/lib/stock-alerts';
+import { getRequestUser } from '@/lib/authz';
 
 export async function PATCH(
   request: NextRequest,
@@ -176,6 +180,33 @@ export async function PATCH(
       )
       .returning();
 
+    if (updates.stockQuantity !== undefined) {
+      await recordStockChange(db, {
+        productId: productIdInt,
+        variantId: variantIdInt,
+        before: variant[0].stockQuantity,
+        after: updated[0].stockQuantity,
+        reason: 'manual',
+        userId: getRequestUser(request)?.id,
+      });
+    }
+
+    if (updates.priceModifier !== undefined) {
+      await recordPriceChange(db, {
+        productId: productIdInt,
+        variantType: updated[0].variantType,
+        variantName: updated[0].variantName,
+        before: product[0].price + (variant[0].priceModifier ?? 0),
+        after: product[0].price + (updated[0].priceModifier ?? 0),
+        source: 'manual',
+        userId: getRequestUser(request)?.id,
+      });
+    }
+
+    if (updates.stockQuantity !== undefined || updates.isAvailable !== undefined) {
+      await notifyBackInStock([productIdInt]);
+    }
+
     return NextResponse.json(updated[0], { status: 200 });
 
   } catch (error) {
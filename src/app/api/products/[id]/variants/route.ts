@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { productVariants, products } from '@/db/schema';
 import { eq, desc } from 'drizzle-orm';
+import { recordStockChange } from '@/lib/inventory';
+import { recordPriceChange } from '@/lib/price-history';
+import { getRequestUser } from '@/lib/authz';
 
 export async function GET(
   request: NextRequest,
@@ -162,6 +165,26 @@ export async function POST(
       })
       .returning();
 
+    await recordStockChange(db, {
+      productId: parsedProductId,
+      variantId: newVariant[0].id,
+      before: 0,
+      after: newVariant[0].stockQuantity,
+      reason: 'manual',
+      userId: getRequestUser(request)?.id,
+      note: 'Initial stock',
+    });
+
+    await recordPriceChange(db, {
+      productId: parsedProductId,
+      variantType: newVariant[0].variantType,
+      variantName: newVariant[0].variantName,
+      before: null,
+      after: product[0].price + (newVariant[0].priceModifier ?? 0),
+      source: 'manual',
+      userId: getRequestUser(request)?.id,
+    });
+
     return NextResponse.json(newVariant[0], { status: 201 });
   } catch (error) {
     console.error('POST error:', error);
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { products, productVariants, apiConfigurations, productReviews, reviewImages, orderItems, productImages, bulkPricingRules } from '@/db/schema';
+import { products, productVariants, apiConfigurations, productReviews, reviewImages, orderItems, productImages, bulkPricingRules, stockReservations, inventoryMovements, stockAlertThresholds, stockSubscriptions, priceHistory } from '@/db/schema';
 import { eq, like, and, or, desc, sql, isNull, inArray } from 'drizzle-orm';
+import { recordStockChange } from '@/lib/inventory';
+import { recordPriceChange } from '@/lib/price-history';
+import { notifyBackInStock } from '@/lib/stock-alerts';
+import { getRequestUser } from '@/lib/authz';
 
 export async function GET(request: NextRequest) {
   try {
@@ -288,6 +292,23 @@ export async function POST(request: NextRequest) {
       .values(insertData)
       .returning();
 
+    await recordStockChange(db, {
+      productId: newProduct[0].id,
+      before: 0,
+      after: newProduct[0].stockQuantity,
+      reason: 'manual',
+      userId: getRequestUser(request)?.id,
+      note: 'Initial stock',
+    });
+
+    await recordPriceChange(db, {
+      productId: newProduct[0].id,
+      before: null,
+      after: newProduct[0].price,
+      source: 'manual',
+      userId: getRequestUser(request)?.id,
+    });
+
     return NextResponse.json(newProduct[0], { status: 201 });
 
   } catch (error) {
@@ -430,6 +451,47 @@ export async function PUT(request: NextRequest) {
       .where(eq(products.id, parseInt(id)))
       .returning();
 
+    if (updateData.stockQuantity !== undefined) {
+      await recordStockChange(db, {
+        productId: updated[0].id,
+        before: existingProduct[0].stockQuantity,
+        after: updated[0].stockQuantity,
+        reason: 'manual',
+        userId: getRequestUser(request)?.id,
+      });
+    }
+
+    // Variant prices are relative to the product's, so they move with it
+    if (updateData.price !== undefined && updated[0].price !== existingProduct[0].price) {
+      await recordPriceChange(db, {
+        productId: updated[0].id,
+        before: existingProduct[0].price,
+        after: updated[0].price,
+        source: 'manual',
+        userId: getRequestUser(request)?.id,
+      });
+
+      const variants = await db.select()
+        .from(productVariants)
+        .where(eq(productVariants.productId, updated[0].id));
+
+      for (const variant of variants) {
+        await recordPriceChange(db, {
+          productId: updated[0].id,
+          variantType: variant.variantType,
+          variantName: variant.variantName,
+          before: existingProduct[0].price + (variant.priceModifier ?? 0),
+          after: updated[0].price + (variant.priceModifier ?? 0),
+          source: 'manual',
+          userId: getRequestUser(request)?.id,
+        });
+      }
+    }
+
+    if (updateData.stockQuantity !== undefined || updateData.isAvailable !== undefined) {
+      await notifyBackInStock([updated[0].id]);
+    }
+
     return NextResponse.json(updated[0], { status: 200 });
 
   } catch (error) {
@@ -501,7 +563,19 @@ export async function DELETE(request: NextRequest) {
     await db.delete(bulkPricingRules)
       .where(eq(bulkPricingRules.productId, productId));
 
-    // 7. Finally, delete the product itself
+    // 7. Delete stock reservations, the inventory ledger, stock alerts and price history
+    await db.delete(stockReservations)
+      .where(eq(stockReservations.productId, productId));
+    await db.delete(inventoryMovements)
+      .where(eq(inventoryMovements.productId, productId));
+    await db.delete(stockAlertThresholds)
+      .where(eq(stockAlertThresholds.productId, productId));
+    await db.delete(stockSubscriptions)
+      .where(eq(stockSubscriptions.productId, productId));
+    await db.delete(priceHistory)
+      .where(eq(priceHistory.productId, productId));
+
+    // 8. Finally, delete the product itself
     const deleted = await db.delete(products)
       .where(eq(products.id, productId))
       .returning();
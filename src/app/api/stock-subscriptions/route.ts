@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { subscribeToRestock, getPendingSubscriptions, cancelSubscription } from '@/lib/stock-alerts';
+import { getRequestUser, canAccessUser, forbiddenResponse } from '@/lib/authz';
+
+function parseId(value: unknown): number | null {
+  const id = typeof value === 'number' ? value : parseInt(String(value ?? ''));
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+// A customer's pending back-in-stock requests, optionally for one product
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const userId = parseId(searchParams.get('userId'));
+    const productId = parseId(searchParams.get('productId'));
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'userId must be a valid integer', code: 'INVALID_USER_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!canAccessUser(getRequestUser(request), userId)) {
+      return forbiddenResponse();
+    }
+
+    const subscriptions = await getPendingSubscriptions(userId, productId ?? undefined);
+
+    return NextResponse.json(subscriptions, { status: 200 });
+  } catch (error) {
+    console.error('GET stock subscriptions error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const userId = parseId(body.userId);
+    const productId = parseId(body.productId);
+    const variantId = body.variantId !== undefined && body.variantId !== null ? parseId(body.variantId) : null;
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'userId must be a valid integer', code: 'INVALID_USER_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!canAccessUser(getRequestUser(request), userId)) {
+      return forbiddenResponse();
+    }
+
+    if (!productId) {
+      return NextResponse.json(
+        { error: 'productId must be a valid integer', code: 'INVALID_PRODUCT_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (body.variantId !== undefined && body.variantId !== null && !variantId) {
+      return NextResponse.json(
+        { error: 'variantId must be a valid integer', code: 'INVALID_VARIANT_ID' },
+        { status: 400 }
+      );
+    }
+
+    const result = await subscribeToRestock(userId, productId, variantId);
+
+    if (result.status === 'not_found') {
+      return NextResponse.json(
+        { error: 'Product not found', code: 'PRODUCT_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    if (result.status === 'invalid_variant') {
+      return NextResponse.json(
+        { error: 'Variant does not belong to this product', code: 'INVALID_VARIANT_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (result.status === 'in_stock') {
+      return NextResponse.json(
+        { error: 'This item is already in stock', code: 'ALREADY_IN_STOCK' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(result.subscription, { status: 201 });
+  } catch (error) {
+    console.error('POST stock subscriptions error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const id = parseId(searchParams.get('id'));
+    const userId = parseId(searchParams.get('userId'));
+
+    if (!id || !userId) {
+      return NextResponse.json(
+        { error: 'Valid id and userId are required', code: 'INVALID_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!canAccessUser(getRequestUser(request), userId)) {
+      return forbiddenResponse();
+    }
+
+    if (!(await cancelSubscription(userId, id))) {
+      return NextResponse.json(
+        { error: 'Subscription not found', code: 'SUBSCRIPTION_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ cancelled: true }, { status: 200 });
+  } catch (error) {
+    console.error('DELETE stock subscriptions error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { products, productVariants } from '@/db/schema';
+import { eq, and, like, or, desc, inArray, sql, SQL } from 'drizzle-orm';
+import { loadActiveMarkups, applyMarkups, applyStoreMarkup } from '@/lib/pricing';
+import { getStorefrontBySlug } from '@/lib/storefront';
+
+// Storefront catalog, priced server-side with the active markups plus the store's markup
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const store = await getStorefrontBySlug(slug);
+
+    if (!store) {
+      return NextResponse.json(
+        { error: 'Store not found', code: 'STORE_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const search = searchParams.get('search');
+    const mainCategory = searchParams.get('mainCategory');
+
+    const conditions: SQL[] = [
+      eq(products.isAvailable, true),
+      eq(products.isLocalOnly, false),
+    ];
+    if (mainCategory) {
+      conditions.push(eq(products.mainCategory, mainCategory));
+    }
+    if (search) {
+      conditions.push(or(like(products.name, `%${search}%`), like(products.brand, `%${search}%`))!);
+    }
+
+    const productRows = await db.select()
+      .from(products)
+      .where(and(...conditions))
+      .orderBy(desc(products.id));
+
+    const variantStock = productRows.length > 0
+      ? await db.select({
+          productId: productVariants.productId,
+          totalStock: sql<number>`coalesce(sum(${productVariants.stockQuantity}), 0)`,
+        })
+          .from(productVariants)
+          .where(inArray(productVariants.productId, productRows.map(p => p.id)))
+          .groupBy(productVariants.productId)
+      : [];
+    const stockByProduct = new Map(variantStock.map(v => [v.productId, Number(v.totalStock)]));
+
+    const activeMarkups = await loadActiveMarkups();
+
+    const catalog = productRows.map(product => {
+      const { finalPrice } = applyMarkups(product.price, product.id, product.mainCategory, 1, activeMarkups);
+
+      return {
+        id: product.id,
+        name: product.name,
+        description: product.description,
+        imageUrl: product.imageUrl,
+        mainCategory: product.mainCategory,
+        brand: product.brand,
+        volume: product.volume,
+        price: applyStoreMarkup(finalPrice, store.storeMarkup),
+        totalStock: (product.stockQuantity || 0) + (stockByProduct.get(product.id) || 0),
+      };
+    });
+
+    return NextResponse.json(catalog, { status: 200 });
+  } catch (error) {
+    console.error('GET store products error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
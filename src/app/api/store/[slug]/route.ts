@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorefrontBySlug } from '@/lib/storefront';
+
+// Public branding for a reseller storefront
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const store = await getStorefrontBySlug(slug);
+
+    if (!store) {
+      return NextResponse.json(
+        { error: 'Store not found', code: 'STORE_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      slug: store.slug,
+      storeName: store.storeName,
+      storeLogo: store.storeLogo,
+      storeMarkup: store.storeMarkup,
+    }, { status: 200 });
+  } catch (error) {
+    console.error('GET store error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { orders } from '@/db/schema';
+import { eq, and, ne, desc, sql } from 'drizzle-orm';
+import { getStorefrontById } from '@/lib/storefront';
+import { getRequestUser, canAccessUser, forbiddenResponse } from '@/lib/authz';
+
+// Orders placed through a reseller's storefront and the margin earned on them; cancelled orders don't count
+export async function GET(request: NextRequest) {
+  try {
+    const userId = request.nextUrl.searchParams.get('userId');
+
+    if (!userId || isNaN(parseInt(userId))) {
+      return NextResponse.json(
+        { error: 'Valid userId is required', code: 'INVALID_USER_ID' },
+        { status: 400 }
+      );
+    }
+
+    const resellerId = parseInt(userId);
+
+    if (!canAccessUser(getRequestUser(request), resellerId)) {
+      return forbiddenResponse();
+    }
+
+    const attributed = and(eq(orders.resellerId, resellerId), ne(orders.status, 'cancelled'));
+
+    const [totals] = await db.select({
+      orderCount: sql<number>`count(*)`,
+      revenue: sql<number>`coalesce(sum(${orders.totalAmount}), 0)`,
+      margin: sql<number>`coalesce(sum(${orders.resellerMargin}), 0)`,
+    })
+      .from(orders)
+      .where(attributed);
+
+    const month = sql<string>`substr(${orders.createdAt}, 1, 7)`;
+    const monthly = await db.select({
+      month,
+      orderCount: sql<number>`count(*)`,
+      revenue: sql<number>`coalesce(sum(${orders.totalAmount}), 0)`,
+      margin: sql<number>`coalesce(sum(${orders.resellerMargin}), 0)`,
+    })
+      .from(orders)
+      .where(attributed)
+      .groupBy(month)
+      .orderBy(desc(month))
+      .limit(12);
+
+    const recentOrders = await db.select({
+      id: orders.id,
+      status: orders.status,
+      totalAmount: orders.totalAmount,
+      resellerMarkup: orders.resellerMarkup,
+      resellerMargin: orders.resellerMargin,
+      createdAt: orders.createdAt,
+    })
+      .from(orders)
+      .where(eq(orders.resellerId, resellerId))
+      .orderBy(desc(orders.createdAt))
+      .limit(50);
+
+    const store = await getStorefrontById(resellerId);
+
+    return NextResponse.json({
+      store,
+      totals: {
+        orderCount: Number(totals.orderCount),
+        revenue: Number(totals.revenue),
+        margin: Number(totals.margin),
+      },
+      monthly: monthly.map(m => ({
+        month: m.month,
+        orderCount: Number(m.orderCount),
+        revenue: Number(m.revenue),
+        margin: Number(m.margin),
+      })),
+      recentOrders,
+    }, { status: 200 });
+  } catch (error) {
+    console.error('GET margin report error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
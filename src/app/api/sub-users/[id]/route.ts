@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { getRequestUser, canAccessUser, forbiddenResponse } from '@/lib/authz';
+import { revokeUserSessions } from '@/lib/auth';
+import { parseSubUserLimits, saveSubUserLimits } from '@/lib/sub-users';
+
+// Change a sub-user's limits or suspend them; only their parent (or an admin) may
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const subUserId = parseInt(id);
+
+    if (!id || isNaN(subUserId) || subUserId <= 0) {
+      return NextResponse.json(
+        { error: 'Valid positive integer ID is required', code: 'INVALID_ID' },
+        { status: 400 }
+      );
+    }
+
+    const [subUser] = await db.select().from(users).where(eq(users.id, subUserId)).limit(1);
+
+    if (!subUser || !subUser.parentId) {
+      return NextResponse.json(
+        { error: 'Sub-user not found', code: 'SUB_USER_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    if (!canAccessUser(getRequestUser(request), subUser.parentId)) {
+      return forbiddenResponse();
+    }
+
+    const body = await request.json();
+
+    const parsed = parseSubUserLimits(body);
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error, code: parsed.code },
+        { status: 400 }
+      );
+    }
+
+    await saveSubUserLimits(subUserId, parsed.limits);
+
+    if (body.isActive !== undefined) {
+      const isActive = Boolean(body.isActive);
+      await db.update(users).set({ isActive }).where(eq(users.id, subUserId));
+
+      // Suspending takes effect immediately rather than at the next login
+      if (!isActive) {
+        await revokeUserSessions(subUserId);
+      }
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error('PUT /api/sub-users/[id] error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { orders } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { getRequestUser, canAccessUser, forbiddenResponse } from '@/lib/authz';
+import { decideApproval } from '@/lib/sub-users';
+
+// Parent sign-off: approve moves the order to processing, reject cancels it and refunds the parent
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params;
+    const id = parseInt(orderId);
+
+    if (!orderId || isNaN(id) || id <= 0) {
+      return NextResponse.json(
+        { error: 'Valid positive integer ID is required', code: 'INVALID_ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const { action } = body;
+
+    if (action !== 'approve' && action !== 'reject') {
+      return NextResponse.json(
+        { error: "action must be 'approve' or 'reject'", code: 'INVALID_ACTION' },
+        { status: 400 }
+      );
+    }
+
+    const [order] = await db.select({ payerId: orders.payerId })
+      .from(orders)
+      .where(eq(orders.id, id))
+      .limit(1);
+
+    if (!order?.payerId) {
+      return NextResponse.json(
+        { error: 'Order not found', code: 'ORDER_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const requestUser = getRequestUser(request);
+    if (!requestUser || !canAccessUser(requestUser, order.payerId)) {
+      return forbiddenResponse();
+    }
+
+    const result = await decideApproval(id, order.payerId, action === 'approve', requestUser.id);
+
+    if (result.status === 'not_found') {
+      return NextResponse.json(
+        { error: 'Order not found', code: 'ORDER_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    if (result.status === 'not_awaiting') {
+      return NextResponse.json(
+        { error: 'This order is no longer waiting for approval', code: 'NOT_AWAITING_APPROVAL' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(result.order, { status: 200 });
+  } catch (error) {
+    console.error('POST /api/sub-users/approvals/[orderId] error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
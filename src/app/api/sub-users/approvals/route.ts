@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { users, orders, orderItems, products } from '@/db/schema';
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import { getRequestUser, canAccessUser, forbiddenResponse } from '@/lib/authz';
+
+// Sub-user orders above their approval threshold, waiting on the parent
+export async function GET(request: NextRequest) {
+  try {
+    const parentId = parseInt(request.nextUrl.searchParams.get('userId') || '');
+
+    if (isNaN(parentId) || parentId <= 0) {
+      return NextResponse.json(
+        { error: 'Valid userId is required', code: 'INVALID_USER_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!canAccessUser(getRequestUser(request), parentId)) {
+      return forbiddenResponse();
+    }
+
+    const pending = await db.select({
+      id: orders.id,
+      userId: orders.userId,
+      username: users.username,
+      status: orders.status,
+      totalAmount: orders.totalAmount,
+      shippingAddress: orders.shippingAddress,
+      notes: orders.notes,
+      createdAt: orders.createdAt,
+    })
+      .from(orders)
+      .innerJoin(users, eq(users.id, orders.userId))
+      .where(and(eq(orders.payerId, parentId), eq(orders.approvalStatus, 'awaiting')))
+      .orderBy(desc(orders.createdAt));
+
+    const items = pending.length > 0
+      ? await db.select({
+          orderId: orderItems.orderId,
+          productId: orderItems.productId,
+          productName: products.name,
+          quantity: orderItems.quantity,
+          priceAtPurchase: orderItems.priceAtPurchase,
+        })
+          .from(orderItems)
+          .leftJoin(products, eq(products.id, orderItems.productId))
+          .where(inArray(orderItems.orderId, pending.map(o => o.id)))
+      : [];
+
+    return NextResponse.json(
+      pending.map(order => ({ ...order, items: items.filter(i => i.orderId === order.id) })),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('GET /api/sub-users/approvals error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
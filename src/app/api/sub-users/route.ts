@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { users, subUserLimits } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { hashPassword, validatePasswordStrength } from '@/lib/auth';
+import { getRequestUser, canAccessUser, forbiddenResponse } from '@/lib/authz';
+import { parseAllowedCategories, parseSubUserLimits, saveSubUserLimits, getMonthlySpend } from '@/lib/sub-users';
+
+function parseUserId(value: unknown): number | null {
+  const userId = typeof value === 'number' ? value : parseInt(String(value ?? ''));
+  return Number.isInteger(userId) && userId > 0 ? userId : null;
+}
+
+// A parent's sub-users with their limits and what they've spent this month
+export async function GET(request: NextRequest) {
+  try {
+    const parentId = parseUserId(request.nextUrl.searchParams.get('userId'));
+
+    if (!parentId) {
+      return NextResponse.json(
+        { error: 'Valid userId is required', code: 'INVALID_USER_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!canAccessUser(getRequestUser(request), parentId)) {
+      return forbiddenResponse();
+    }
+
+    const rows = await db.select({
+      id: users.id,
+      username: users.username,
+      isActive: users.isActive,
+      createdAt: users.createdAt,
+      monthlyCap: subUserLimits.monthlyCap,
+      allowedCategories: subUserLimits.allowedCategories,
+      approvalThreshold: subUserLimits.approvalThreshold,
+    })
+      .from(users)
+      .leftJoin(subUserLimits, eq(subUserLimits.userId, users.id))
+      .where(eq(users.parentId, parentId))
+      .orderBy(users.username);
+
+    const subUsers = await Promise.all(rows.map(async row => ({
+      ...row,
+      allowedCategories: parseAllowedCategories(row.allowedCategories),
+      spentThisMonth: await getMonthlySpend(row.id),
+    })));
+
+    return NextResponse.json(subUsers, { status: 200 });
+  } catch (error) {
+    console.error('GET /api/sub-users error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parentId = parseUserId(body.userId);
+    const { username, password } = body;
+
+    if (!parentId) {
+      return NextResponse.json(
+        { error: 'Valid userId is required', code: 'INVALID_USER_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!canAccessUser(getRequestUser(request), parentId)) {
+      return forbiddenResponse();
+    }
+
+    const [parent] = await db.select().from(users).where(eq(users.id, parentId)).limit(1);
+
+    if (!parent) {
+      return NextResponse.json(
+        { error: 'User not found', code: 'USER_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    // Sub-users can't have sub-users of their own
+    if (!parent.subUsersEnabled || parent.parentId) {
+      return NextResponse.json(
+        { error: 'Sub-users are not enabled for this account', code: 'SUB_USERS_DISABLED' },
+        { status: 403 }
+      );
+    }
+
+    const sanitizedUsername = typeof username === 'string' ? username.trim().toLowerCase() : '';
+    if (!/^[a-z0-9_-]{3,20}$/.test(sanitizedUsername)) {
+      return NextResponse.json(
+        { error: 'Username must be 3-20 characters and contain only letters, numbers, underscore, or hyphen', code: 'INVALID_USERNAME_FORMAT' },
+        { status: 400 }
+      );
+    }
+
+    if (!password || typeof password !== 'string') {
+      return NextResponse.json(
+        { error: 'Password is required', code: 'MISSING_PASSWORD' },
+        { status: 400 }
+      );
+    }
+
+    const passwordError = validatePasswordStrength(password);
+    if (passwordError) {
+      return NextResponse.json(
+        { error: passwordError, code: 'WEAK_PASSWORD' },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseSubUserLimits(body);
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error, code: parsed.code },
+        { status: 400 }
+      );
+    }
+
+    const existingUser = await db.select({ id: users.id })
+      .from(users)
+      .where(eq(users.username, sanitizedUsername))
+      .limit(1);
+
+    if (existingUser.length > 0) {
+      return NextResponse.json(
+        { error: 'Username already exists', code: 'USERNAME_ALREADY_EXISTS' },
+        { status: 409 }
+      );
+    }
+
+    const [subUser] = await db.insert(users)
+      .values({
+        username: sanitizedUsername,
+        passwordHash: await hashPassword(password),
+        role: 'customer',
+        isActive: true,
+        parentId,
+        // The parent knows this password, so the sub-user has to replace it on first login
+        mustChangePassword: true,
+        createdAt: new Date().toISOString(),
+      })
+      .returning({
+        id: users.id,
+        username: users.username,
+        isActive: users.isActive,
+        createdAt: users.createdAt,
+      });
+
+    await saveSubUserLimits(subUser.id, parsed.limits);
+
+    return NextResponse.json({
+      ...subUser,
+      monthlyCap: parsed.limits.monthlyCap ?? null,
+      allowedCategories: parsed.limits.allowedCategories ?? null,
+      approvalThreshold: parsed.limits.approvalThreshold ?? null,
+      spentThisMonth: 0,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('POST /api/sub-users error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { supportTickets } from '@/db/schema';
 import { eq, and, desc } from 'drizzle-orm';
+import { getRequestUser, isAdmin, canAccessUser, unauthorizedResponse, forbiddenResponse } from '@/lib/authz';
 
 const VALID_STATUSES = ['open', 'in_progress', 'resolved', 'closed'];
 const VALID_PRIORITIES = ['low', 'medium', 'high'];
@@ -9,6 +10,11 @@ const VALID_CATEGORIES = ['technical', 'billing', 'order', 'account', 'general']
 
 export async function GET(request: NextRequest) {
   try {
+    const requestUser = getRequestUser(request);
+    if (!requestUser) {
+      return unauthorizedResponse();
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const id = searchParams.get('id');
 
@@ -33,6 +39,10 @@ export async function GET(request: NextRequest) {
         }, { status: 404 });
       }
 
+      if (!canAccessUser(requestUser, ticket[0].userId)) {
+        return forbiddenResponse();
+      }
+
       return NextResponse.json(ticket[0], { status: 200 });
     }
 
@@ -56,7 +66,13 @@ export async function GET(request: NextRequest) {
           code: "INVALID_USER_ID" 
         }, { status: 400 });
       }
+      if (!canAccessUser(requestUser, parseInt(userId))) {
+        return forbiddenResponse();
+      }
       conditions.push(eq(supportTickets.userId, parseInt(userId)));
+    } else if (!isAdmin(requestUser)) {
+      // Customers only ever list their own tickets
+      conditions.push(eq(supportTickets.userId, requestUser.id));
     }
 
     if (status) {
@@ -129,6 +145,10 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    if (!canAccessUser(getRequestUser(request), parseInt(userId))) {
+      return forbiddenResponse();
+    }
+
     if (!subject || typeof subject !== 'string' || subject.trim() === '') {
       return NextResponse.json({ 
         error: "subject is required and must be a non-empty string",
@@ -234,6 +254,10 @@ export async function PUT(request: NextRequest) {
       }, { status: 404 });
     }
 
+    if (!canAccessUser(getRequestUser(request), existingTicket[0].userId)) {
+      return forbiddenResponse();
+    }
+
     const updates: any = {
       updatedAt: new Date().toISOString(),
     };
@@ -309,6 +333,10 @@ export async function PUT(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    if (!isAdmin(getRequestUser(request))) {
+      return forbiddenResponse('Admin access required');
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const id = searchParams.get('id');
 
@@ -1,10 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { ticketMessages } from '@/db/schema';
+import { supportTickets, ticketMessages } from '@/db/schema';
 import { eq, and, asc } from 'drizzle-orm';
+import { getRequestUser, isAdmin, canAccessUser, unauthorizedResponse, forbiddenResponse } from '@/lib/authz';
+
+// The user who opened the ticket, or null when it doesn't exist
+async function getTicketOwner(ticketId: number): Promise<number | null> {
+  const [ticket] = await db.select({ userId: supportTickets.userId })
+    .from(supportTickets)
+    .where(eq(supportTickets.id, ticketId))
+    .limit(1);
+
+  return ticket ? ticket.userId : null;
+}
 
 export async function GET(request: NextRequest) {
   try {
+    const requestUser = getRequestUser(request);
+    if (!requestUser) {
+      return unauthorizedResponse();
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const id = searchParams.get('id');
 
@@ -29,6 +45,11 @@ export async function GET(request: NextRequest) {
         }, { status: 404 });
       }
 
+      const ownerId = await getTicketOwner(message[0].ticketId);
+      if (!canAccessUser(requestUser, ownerId ?? message[0].userId)) {
+        return forbiddenResponse();
+      }
+
       return NextResponse.json(message[0], { status: 200 });
     }
 
@@ -42,6 +63,14 @@ export async function GET(request: NextRequest) {
 
     // Build filter conditions
     const conditions = [];
+
+    // Only admins may list messages across tickets
+    if (!ticketId && !isAdmin(requestUser)) {
+      return NextResponse.json({ 
+        error: "Valid ticketId is required",
+        code: "INVALID_TICKET_ID" 
+      }, { status: 400 });
+    }
     
     if (ticketId) {
       if (isNaN(parseInt(ticketId))) {
@@ -50,6 +79,10 @@ export async function GET(request: NextRequest) {
           code: "INVALID_TICKET_ID" 
         }, { status: 400 });
       }
+      const ownerId = await getTicketOwner(parseInt(ticketId));
+      if (ownerId === null ? !isAdmin(requestUser) : !canAccessUser(requestUser, ownerId)) {
+        return forbiddenResponse();
+      }
       conditions.push(eq(ticketMessages.ticketId, parseInt(ticketId)));
     }
 
@@ -84,6 +117,11 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const requestUser = getRequestUser(request);
+    if (!requestUser) {
+      return unauthorizedResponse();
+    }
+
     const body = await request.json();
     const { ticketId, userId, message } = body;
 
@@ -125,6 +163,19 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // Replies go on tickets the caller can see, under the caller's own name
+    const ownerId = await getTicketOwner(parseInt(ticketId));
+    if (ownerId === null) {
+      return NextResponse.json({ 
+        error: 'Ticket not found',
+        code: 'TICKET_NOT_FOUND' 
+      }, { status: 404 });
+    }
+
+    if (!canAccessUser(requestUser, ownerId) || !canAccessUser(requestUser, parseInt(userId))) {
+      return forbiddenResponse();
+    }
+
     // Trim and validate message
     const trimmedMessage = message.trim();
     if (!trimmedMessage) {
@@ -155,6 +206,11 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
+    const requestUser = getRequestUser(request);
+    if (!requestUser) {
+      return unauthorizedResponse();
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const id = searchParams.get('id');
 
@@ -200,6 +256,12 @@ export async function PUT(request: NextRequest) {
       }, { status: 404 });
     }
 
+    // Only the message's author (or an admin) on a ticket they can see may change it
+    const ownerId = await getTicketOwner(existing[0].ticketId);
+    if (!canAccessUser(requestUser, ownerId ?? existing[0].userId) || !canAccessUser(requestUser, existing[0].userId)) {
+      return forbiddenResponse();
+    }
+
     // Prepare update data
     const updateData: { message?: string } = {};
     
@@ -224,6 +286,11 @@ export async function PUT(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    const requestUser = getRequestUser(request);
+    if (!requestUser) {
+      return unauthorizedResponse();
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const id = searchParams.get('id');
 
@@ -248,6 +315,12 @@ export async function DELETE(request: NextRequest) {
       }, { status: 404 });
     }
 
+    // Only the message's author (or an admin) on a ticket they can see may change it
+    const ownerId = await getTicketOwner(existing[0].ticketId);
+    if (!canAccessUser(requestUser, ownerId ?? existing[0].userId) || !canAccessUser(requestUser, existing[0].userId)) {
+      return forbiddenResponse();
+    }
+
     // Delete ticket message
     const deleted = await db.delete(ticketMessages)
       .where(eq(ticketMessages.id, parseInt(id)))
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { users } from '@/db/schema';
 import { eq } from 'drizzle-orm';
+import { getRequestUser, canAccessUser, forbiddenResponse } from '@/lib/authz';
 
 export async function GET(request: NextRequest) {
   try {
@@ -18,6 +19,10 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (!canAccessUser(getRequestUser(request), parseInt(userId))) {
+      return forbiddenResponse();
+    }
+
     const userRecords = await db.select({
       id: users.id,
       credits: users.credits,
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { users } from '@/db/schema';
-import { eq } from 'drizzle-orm';
+import { eq, and, ne } from 'drizzle-orm';
+import { getRequestUser, canAccessUser, forbiddenResponse } from '@/lib/authz';
+import { STORE_SLUG_PATTERN } from '@/lib/storefront';
+import { getSubUserPolicy, getMonthlySpend } from '@/lib/sub-users';
 
 export async function GET(request: NextRequest) {
   try {
@@ -18,6 +21,10 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (!canAccessUser(getRequestUser(request), parseInt(userId))) {
+      return forbiddenResponse();
+    }
+
     const user = await db.select({
       id: users.id,
       username: users.username,
@@ -25,11 +32,13 @@ export async function GET(request: NextRequest) {
       isActive: users.isActive,
       hasLocalAccess: users.hasLocalAccess,
       storeName: users.storeName,
+      storeSlug: users.storeSlug,
       storeLogo: users.storeLogo,
       storeMarkup: users.storeMarkup,
       totalSpent: users.totalSpent,
       cashbackBalance: users.cashbackBalance,
       subUsersEnabled: users.subUsersEnabled,
+      parentId: users.parentId,
       credits: users.credits,
       createdAt: users.createdAt,
     })
@@ -47,6 +56,21 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Sub-users spend from the parent's balance, within the limits the parent set
+    const subUser = await getSubUserPolicy(user[0].id);
+    if (subUser) {
+      const [parent] = await db.select({ credits: users.credits })
+        .from(users)
+        .where(eq(users.id, subUser.parentId))
+        .limit(1);
+
+      return NextResponse.json({
+        ...user[0],
+        credits: parent?.credits || 0,
+        subUser: { ...subUser, spentThisMonth: await getMonthlySpend(user[0].id) },
+      }, { status: 200 });
+    }
+
     return NextResponse.json(user[0], { status: 200 });
   } catch (error) {
     console.error('GET error:', error);
@@ -74,8 +98,41 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    if (!canAccessUser(getRequestUser(request), parseInt(userId))) {
+      return forbiddenResponse();
+    }
+
     const body = await request.json();
-    const { storeName, storeLogo, storeMarkup, subUsersEnabled } = body;
+    const { storeName, storeSlug, storeLogo, storeMarkup, subUsersEnabled } = body;
+
+    // Validate storeSlug if provided (empty clears it and takes the storefront offline)
+    const normalizedSlug = typeof storeSlug === 'string' ? storeSlug.trim().toLowerCase() : storeSlug;
+    if (normalizedSlug !== undefined && normalizedSlug !== null && normalizedSlug !== '') {
+      if (typeof normalizedSlug !== 'string' || !STORE_SLUG_PATTERN.test(normalizedSlug)) {
+        return NextResponse.json(
+          { 
+            error: 'Store URL must be 3-40 lowercase letters, numbers or hyphens',
+            code: 'INVALID_STORE_SLUG'
+          },
+          { status: 400 }
+        );
+      }
+
+      const slugOwner = await db.select({ id: users.id })
+        .from(users)
+        .where(and(eq(users.storeSlug, normalizedSlug), ne(users.id, parseInt(userId))))
+        .limit(1);
+
+      if (slugOwner.length > 0) {
+        return NextResponse.json(
+          { 
+            error: 'This store URL is already taken',
+            code: 'STORE_SLUG_TAKEN'
+          },
+          { status: 409 }
+        );
+      }
+    }
 
     // Validate storeMarkup if provided
     if (storeMarkup !== undefined) {
@@ -122,6 +179,16 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    if (subUsersEnabled && existingUser[0].parentId) {
+      return NextResponse.json(
+        { 
+          error: 'Sub-users cannot create sub-users of their own',
+          code: 'SUB_USERS_NOT_ALLOWED'
+        },
+        { status: 403 }
+      );
+    }
+
     // Build update object with only provided fields
     const updates: Record<string, any> = {};
     
@@ -129,6 +196,10 @@ export async function PUT(request: NextRequest) {
       updates.storeName = storeName === '' ? null : storeName;
     }
     
+    if (normalizedSlug !== undefined) {
+      updates.storeSlug = normalizedSlug === '' ? null : normalizedSlug;
+    }
+    
     if (storeLogo !== undefined) {
       updates.storeLogo = storeLogo === '' ? null : storeLogo;
     }
@@ -152,11 +223,13 @@ export async function PUT(request: NextRequest) {
         isActive: users.isActive,
         hasLocalAccess: users.hasLocalAccess,
         storeName: users.storeName,
+        storeSlug: users.storeSlug,
         storeLogo: users.storeLogo,
         storeMarkup: users.storeMarkup,
         totalSpent: users.totalSpent,
         cashbackBalance: users.cashbackBalance,
         subUsersEnabled: users.subUsersEnabled,
+        parentId: users.parentId,
         createdAt: users.createdAt,
       });
 
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser, canAccessUser, forbiddenResponse } from '@/lib/authz';
+import { getStatement } from '@/lib/ledger';
+
+// A customer's ledger entries, newest first, with their balance
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = parseInt(searchParams.get('userId') || '');
+
+    if (!userId || userId <= 0) {
+      return NextResponse.json(
+        { error: 'Valid userId is required', code: 'INVALID_USER_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!canAccessUser(getRequestUser(request), userId)) {
+      return forbiddenResponse();
+    }
+
+    const limit = Math.min(parseInt(searchParams.get('limit') ?? '50') || 50, 200);
+    const offset = Math.max(parseInt(searchParams.get('offset') ?? '0') || 0, 0);
+
+    const statement = await getStatement(userId, limit, offset);
+
+    return NextResponse.json(statement, { status: 200 });
+  } catch (error) {
+    console.error('GET statement error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + error },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { db } from '@/db';
 import { users } from '@/db/schema';
 import { eq, like, or, desc } from 'drizzle-orm';
 import bcrypt from 'bcrypt';
+import { validatePasswordStrength } from '@/lib/auth';
 
 export async function GET(request: NextRequest) {
   try {
@@ -24,6 +25,7 @@ export async function GET(request: NextRequest) {
         role: users.role,
         isActive: users.isActive,
         hasLocalAccess: users.hasLocalAccess,
+        mustChangePassword: users.mustChangePassword,
         createdAt: users.createdAt,
       })
         .from(users)
@@ -51,6 +53,7 @@ export async function GET(request: NextRequest) {
       role: users.role,
       isActive: users.isActive,
       hasLocalAccess: users.hasLocalAccess,
+      mustChangePassword: users.mustChangePassword,
       createdAt: users.createdAt,
     }).from(users);
 
@@ -93,6 +96,14 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    const passwordError = validatePasswordStrength(passwordHash);
+    if (passwordError) {
+      return NextResponse.json({ 
+        error: passwordError,
+        code: "WEAK_PASSWORD" 
+      }, { status: 400 });
+    }
+
     // Sanitize inputs
     const sanitizedUsername = username.trim().toLowerCase();
 
@@ -138,6 +149,8 @@ export async function POST(request: NextRequest) {
         passwordHash: hashedPassword,
         role: userRole,
         isActive: isActive !== undefined ? isActive : true,
+        // The admin knows this password, so the user has to replace it on first login
+        mustChangePassword: true,
         createdAt: new Date().toISOString(),
       })
       .returning({
@@ -9,48 +9,82 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { ArrowLeft, Trash2, ShoppingCart, Package, AlertCircle } from 'lucide-react';
+import { ArrowLeft, Trash2, ShoppingCart, Package, AlertCircle, Store } from 'lucide-react';
 import { toast } from 'sonner';
+import { SHIPPING_RATES, ShippingMethod } from '@/lib/shipping';
 
 interface Product {
   id: number;
   name: string;
-  description: string;
-  price: number;
-  imageUrl: string;
-  stockQuantity: number;
+  description: string | null;
+  imageUrl: string | null;
+  stockQuantity: number | null;
 }
 
 interface Variant {
   id: number;
-  productId: number;
   variantName: string;
   variantType: string;
-  stockQuantity: number;
   priceModifier: number;
 }
 
 interface CartItem {
-  product: Product;
+  id: number;
+  productId: number;
+  variantIds: number[];
   quantity: number;
-  variants?: Variant[];
-  cartKey: string;
+  product: Product | null;
+  variants: Variant[];
+  priceAtAdd: number;
+  listPrice: number | null;
+  unitPrice: number | null;
+  lineTotal: number;
+  priceChanged: boolean;
+  isUnavailable: boolean;
+}
+
+interface CartStore {
+  slug: string;
+  storeName: string;
+  storeLogo: string | null;
+}
+
+interface SubUserLimits {
+  parentUsername: string;
+  monthlyCap: number | null;
+  approvalThreshold: number | null;
+  spentThisMonth: number;
+}
+
+interface StockShortage {
+  productId: number;
+  variantId: number | null;
+  requested: number;
+  available: number;
 }
 
-const STANDARD_SHIPPING = 22.99;
-const PRIORITY_SHIPPING = 35.99;
+interface CartResponse {
+  store: CartStore | null;
+  items: CartItem[];
+  subtotal: number;
+  hasIssues: boolean;
+}
 
 export default function CartPage() {
   const { user, isLoading: authLoading } = useAuth();
   const router = useRouter();
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
+  const [subtotal, setSubtotal] = useState(0);
+  const [store, setStore] = useState<CartStore | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [shippingAddress, setShippingAddress] = useState('');
-  const [shippingMethod, setShippingMethod] = useState<'standard' | 'priority'>('standard');
+  const [shippingMethod, setShippingMethod] = useState<ShippingMethod>('standard');
   const [notes, setNotes] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
   const [userCredits, setUserCredits] = useState(0);
+  const [subUser, setSubUser] = useState<SubUserLimits | null>(null);
+  const [shortages, setShortages] = useState<StockShortage[]>([]);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -75,335 +109,122 @@ export default function CartPage() {
       if (response.ok) {
         const data = await response.json();
         setUserCredits(data.credits || 0);
+        setSubUser(data.subUser || null);
       }
     } catch (error) {
       console.error('Error loading user credits:', error);
     }
   };
 
-  const loadCartItems = async () => {
-    console.log('[CART DEBUG] ========== START LOADING CART ==========');
-    
-    try {
-      // Step 1: Get cart from localStorage
-      const savedCart = localStorage.getItem('cart');
-      console.log('[CART DEBUG] Raw localStorage data:', savedCart);
-      
-      if (!savedCart || savedCart === 'null' || savedCart === 'undefined') {
-        console.log('[CART DEBUG] No valid cart data found');
-        setIsLoading(false);
-        setCartItems([]);
-        return;
-      }
-
-      // Step 2: Parse cart JSON
-      let cart: Record<string, number>;
-      try {
-        cart = JSON.parse(savedCart);
-        console.log('[CART DEBUG] Parsed cart object:', cart);
-        
-        // Validate cart structure
-        if (typeof cart !== 'object' || cart === null || Array.isArray(cart)) {
-          console.error('[CART DEBUG] Invalid cart structure, expected object');
-          throw new Error('Invalid cart structure');
-        }
-      } catch (parseError) {
-        console.error('[CART DEBUG] ❌ JSON parse error:', parseError);
-        localStorage.removeItem('cart');
-        toast.error('Cart data was corrupted and has been cleared');
-        setIsLoading(false);
-        setCartItems([]);
-        return;
-      }
-
-      const cartKeys = Object.keys(cart);
-      console.log('[CART DEBUG] Found', cartKeys.length, 'items in cart:', cartKeys);
-      
-      if (cartKeys.length === 0) {
-        console.log('[CART DEBUG] Cart is empty');
-        setIsLoading(false);
-        setCartItems([]);
-        return;
-      }
-
-      // Step 3: Extract product IDs safely
-      const productIds = new Set<number>();
-      const variantMap = new Map<string, number[]>();
-      
-      for (const key of cartKeys) {
-        try {
-          if (key.includes('-variants-')) {
-            const parts = key.split('-variants-');
-            const productId = parseInt(parts[0]);
-            
-            if (!isNaN(productId) && productId > 0) {
-              productIds.add(productId);
-              
-              if (parts[1]) {
-                const variantIds = parts[1].split('-')
-                  .map(id => parseInt(id))
-                  .filter(id => !isNaN(id) && id > 0);
-                variantMap.set(key, variantIds);
-                console.log('[CART DEBUG] Parsed variant key:', key, '-> Product:', productId, 'Variants:', variantIds);
-              }
-            } else {
-              console.warn('[CART DEBUG] Invalid product ID in variant key:', key);
-            }
-          } else {
-            const productId = parseInt(key);
-            if (!isNaN(productId) && productId > 0) {
-              productIds.add(productId);
-              console.log('[CART DEBUG] Parsed simple product key:', key, '-> Product:', productId);
-            } else {
-              console.warn('[CART DEBUG] Invalid simple product key:', key);
-            }
-          }
-        } catch (keyParseError) {
-          console.error('[CART DEBUG] Error parsing cart key:', key, keyParseError);
-        }
-      }
-      
-      console.log('[CART DEBUG] Extracted product IDs:', Array.from(productIds));
-
-      if (productIds.size === 0) {
-        console.warn('[CART DEBUG] No valid product IDs found in cart');
-        localStorage.removeItem('cart');
-        setIsLoading(false);
-        setCartItems([]);
-        return;
-      }
-
-      // Step 4: Fetch products with timeout and retry
-      const token = localStorage.getItem('auth_token');
-      const products: Product[] = [];
-      const failedProductIds: number[] = [];
-
-      for (const productId of Array.from(productIds)) {
-        console.log('[CART DEBUG] Fetching product ID:', productId);
-        
-        try {
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-          
-          const productResponse = await fetch(`/api/products?id=${productId}`, {
-            headers: token ? { 'Authorization': `Bearer ${token}` } : {},
-            signal: controller.signal
-          });
-          
-          clearTimeout(timeoutId);
-          console.log('[CART DEBUG] Product', productId, 'response status:', productResponse.status);
-
-          if (productResponse.ok) {
-            const product = await productResponse.json();
-            
-            if (product && product.id && typeof product.id === 'number') {
-              products.push(product);
-              console.log('[CART DEBUG] ✅ Product', productId, 'loaded successfully');
-            } else {
-              console.warn('[CART DEBUG] ⚠️ Product', productId, 'returned invalid data');
-              failedProductIds.push(productId);
-            }
-          } else {
-            console.warn('[CART DEBUG] ⚠️ Product', productId, 'fetch failed with status:', productResponse.status);
-            failedProductIds.push(productId);
-          }
-        } catch (fetchError) {
-          console.error('[CART DEBUG] ❌ Exception fetching product', productId, ':', fetchError);
-          failedProductIds.push(productId);
-        }
-      }
-      
-      console.log('[CART DEBUG] Successfully loaded', products.length, 'products');
-      console.log('[CART DEBUG] Failed to load', failedProductIds.length, 'products:', failedProductIds);
-
-      // Step 5: Build cart items safely
-      const items: CartItem[] = [];
-      
-      for (const cartKey of cartKeys) {
-        try {
-          const quantity = cart[cartKey];
-          
-          if (typeof quantity !== 'number' || quantity <= 0 || !Number.isFinite(quantity)) {
-            console.warn('[CART DEBUG] Invalid quantity for cart key:', cartKey, quantity);
-            continue;
-          }
-          
-          if (cartKey.includes('-variants-')) {
-            const [productIdStr] = cartKey.split('-variants-');
-            const productId = parseInt(productIdStr);
-            const product = products.find(p => p.id === productId);
-            
-            if (!product) {
-              console.warn('[CART DEBUG] Product', productId, 'not found for variant key:', cartKey);
-              continue;
-            }
-            
-            const variantIds = variantMap.get(cartKey) || [];
-            
-            try {
-              const variantsResponse = await fetch(`/api/products/${productId}/variants`, {
-                headers: token ? { 'Authorization': `Bearer ${token}` } : {},
-              });
-              
-              if (variantsResponse.ok) {
-                const allVariants = await variantsResponse.json();
-                const selectedVariants = allVariants.filter((v: Variant) => 
-                  variantIds.includes(v.id)
-                );
-                
-                items.push({
-                  product,
-                  quantity,
-                  variants: selectedVariants,
-                  cartKey
-                });
-                console.log('[CART DEBUG] ✅ Added variant item:', cartKey);
-              } else {
-                items.push({
-                  product,
-                  quantity,
-                  cartKey
-                });
-                console.log('[CART DEBUG] ⚠️ Added item without variants (fetch failed):', cartKey);
-              }
-            } catch (variantError) {
-              console.error('[CART DEBUG] Error fetching variants:', variantError);
-              items.push({
-                product,
-                quantity,
-                cartKey
-              });
-            }
-          } else {
-            const productId = parseInt(cartKey);
-            const product = products.find(p => p.id === productId);
-            
-            if (!product) {
-              console.warn('[CART DEBUG] Product', productId, 'not found for simple key:', cartKey);
-              continue;
-            }
-            
-            items.push({
-              product,
-              quantity,
-              cartKey
-            });
-            console.log('[CART DEBUG] ✅ Added simple item:', cartKey);
-          }
-        } catch (itemError) {
-          console.error('[CART DEBUG] Error building cart item for key:', cartKey, itemError);
-        }
-      }
+  const applyCart = (data: CartResponse) => {
+    setCartItems(data.items);
+    setSubtotal(data.subtotal);
+    setStore(data.store);
+    setShortages([]);
+  };
 
-      console.log('[CART DEBUG] Built', items.length, 'cart items');
+  const cartRequest = async (url: string, init?: RequestInit): Promise<CartResponse | null> => {
+    const token = localStorage.getItem('auth_token');
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+      },
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || `Cart request failed with status ${response.status}`);
+    }
 
-      // Step 6: Clean up localStorage if needed
-      if (failedProductIds.length > 0 || items.length < cartKeys.length) {
-        console.log('[CART DEBUG] Cleaning up localStorage...');
-        const cleanedCart: Record<string, number> = {};
-        
-        for (const item of items) {
-          cleanedCart[item.cartKey] = item.quantity;
-        }
-        
-        localStorage.setItem('cart', JSON.stringify(cleanedCart));
-        console.log('[CART DEBUG] Cleaned cart saved:', cleanedCart);
-        
-        const removedCount = cartKeys.length - items.length;
-        if (removedCount > 0) {
-          toast.warning(`${removedCount} unavailable item${removedCount > 1 ? 's' : ''} removed from cart`);
-        }
-      }
+    return response.json();
+  };
 
-      setCartItems(items);
-      console.log('[CART DEBUG] ========== CART LOADED SUCCESSFULLY ==========');
-      
+  const loadCartItems = async () => {
+    try {
+      const data = await cartRequest(`/api/cart?userId=${user?.id}`);
+      if (data) applyCart(data);
     } catch (error) {
-      console.error('[CART DEBUG] ❌❌❌ FATAL ERROR IN CART LOADING ❌❌❌');
-      console.error('[CART DEBUG] Error:', error);
-      console.error('[CART DEBUG] Error stack:', error instanceof Error ? error.stack : 'No stack');
-      
-      // Show user-friendly error with recovery option
-      setError('Unable to load cart. This may be due to a network issue or corrupted data.');
-      toast.error(
-        <div className="flex flex-col gap-2">
-          <p className="font-semibold">Cart loading failed</p>
-          <p className="text-sm">There was a problem loading your cart. You can try clearing it to start fresh.</p>
-        </div>,
-        {
-          duration: 10000,
-          action: {
-            label: 'Clear Cart',
-            onClick: () => {
-              localStorage.removeItem('cart');
-              window.location.reload();
-            }
-          }
-        }
-      );
+      console.error('Error loading cart:', error);
+      setError('Unable to load cart. Please refresh the page to try again.');
+      toast.error('Failed to load cart');
     } finally {
       setIsLoading(false);
-      console.log('[CART DEBUG] Loading complete, isLoading set to false');
     }
   };
 
-  const updateQuantity = (cartKey: string, newQuantity: number) => {
+  const updateQuantity = async (itemId: number, newQuantity: number) => {
     if (newQuantity <= 0) {
-      removeItem(cartKey);
+      removeItem(itemId);
       return;
     }
 
     try {
-      const savedCart = localStorage.getItem('cart');
-      if (savedCart) {
-        const cart = JSON.parse(savedCart);
-        cart[cartKey] = newQuantity;
-        localStorage.setItem('cart', JSON.stringify(cart));
-        
-        // Update state immediately for instant UI feedback
-        setCartItems(prev => prev.map(item => 
-          item.cartKey === cartKey ? { ...item, quantity: newQuantity } : item
-        ));
-      }
+      const data = await cartRequest(`/api/cart?id=${itemId}`, {
+        method: 'PUT',
+        body: JSON.stringify({ userId: user?.id, quantity: newQuantity }),
+      });
+      if (data) applyCart(data);
     } catch (error) {
       console.error('Error updating quantity:', error);
       toast.error('Failed to update quantity');
     }
   };
 
-  const removeItem = (cartKey: string) => {
+  const removeItem = async (itemId: number) => {
     try {
-      const savedCart = localStorage.getItem('cart');
-      if (savedCart) {
-        const cart = JSON.parse(savedCart);
-        delete cart[cartKey];
-        localStorage.setItem('cart', JSON.stringify(cart));
-        
-        // Update state immediately for instant UI feedback
-        setCartItems(prev => prev.filter(item => item.cartKey !== cartKey));
-        
-        toast.success('Item removed from cart');
-      }
+      const data = await cartRequest(`/api/cart?id=${itemId}&userId=${user?.id}`, {
+        method: 'DELETE',
+      });
+      if (data) applyCart(data);
+      toast.success('Item removed from cart');
     } catch (error) {
       console.error('Error removing item:', error);
       toast.error('Failed to remove item');
     }
   };
 
-  const getItemPrice = (item: CartItem): number => {
-    let price = item.product.price;
-    if (item.variants) {
-      price += item.variants.reduce((sum, v) => sum + v.priceModifier, 0);
+  const acknowledgePriceChanges = async () => {
+    try {
+      const data = await cartRequest('/api/cart/acknowledge-prices', {
+        method: 'POST',
+        body: JSON.stringify({ userId: user?.id }),
+      });
+      if (data) applyCart(data);
+    } catch (error) {
+      console.error('Error acknowledging price changes:', error);
+      toast.error('Failed to update cart');
     }
-    return price;
   };
 
-  const calculateSubtotal = () => {
-    return cartItems.reduce((sum, item) => sum + (getItemPrice(item) * item.quantity), 0);
+  // Lowest availability among the stock a line draws on, when checkout found it short
+  const getShortage = (item: CartItem) => {
+    const matches = shortages.filter(s => s.productId === item.productId && (
+      s.variantId === null ? item.variantIds.length === 0 : item.variantIds.includes(s.variantId)
+    ));
+    return matches.length > 0 ? Math.min(...matches.map(s => s.available)) : null;
+  };
+
+  const handleShortages = (found: StockShortage[]) => {
+    setShortages(found);
+    setError('Some items do not have enough stock. Lower the quantities shown below to continue.');
+    toast.error('Some items do not have enough stock');
+    setIsSubmitting(false);
+  };
+
+  const releaseStock = async () => {
+    const token = localStorage.getItem('auth_token');
+    await fetch(`/api/checkout/reserve?userId=${user?.id}`, {
+      method: 'DELETE',
+      headers: { 'Authorization': `Bearer ${token}` },
+    }).catch(() => undefined);
   };
 
+  const calculateSubtotal = () => subtotal;
+
   const getShippingCost = () => {
-    return shippingMethod === 'priority' ? PRIORITY_SHIPPING : STANDARD_SHIPPING;
+    return SHIPPING_RATES[shippingMethod].cost;
   };
 
   const calculateTotal = () => {
@@ -417,6 +238,11 @@ export default function CartPage() {
       return;
     }
 
+    if (cartItems.some(item => item.isUnavailable)) {
+      toast.error('Remove unavailable items before placing your order');
+      return;
+    }
+
     const total = calculateTotal();
     
     // Check if user has sufficient credits
@@ -429,15 +255,32 @@ export default function CartPage() {
 
     setIsSubmitting(true);
     setError('');
+    setShortages([]);
 
     try {
       const token = localStorage.getItem('auth_token');
-      const subtotal = calculateSubtotal();
-      const shippingCost = getShippingCost();
-      const totalAmount = calculateTotal();
 
-      // Create order
-      const orderResponse = await fetch('/api/orders', {
+      // Hold the cart's stock so it can't sell out while the order is being placed
+      const reserveResponse = await fetch('/api/checkout/reserve', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ userId: user?.id }),
+      });
+
+      if (!reserveResponse.ok) {
+        const data = await reserveResponse.json().catch(() => ({}));
+        if (data.code === 'INSUFFICIENT_STOCK') {
+          handleShortages(data.shortages || []);
+          return;
+        }
+        throw new Error(data.error || 'Failed to reserve stock');
+      }
+
+      // Prices, credit debit, order and items are all handled server-side in one transaction
+      const checkoutResponse = await fetch('/api/checkout', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -445,40 +288,47 @@ export default function CartPage() {
         },
         body: JSON.stringify({
           userId: user?.id,
-          totalAmount,
+          items: cartItems.map(item => ({
+            productId: item.productId,
+            variantIds: item.variantIds,
+            quantity: item.quantity,
+          })),
           shippingAddress: shippingAddress.trim(),
-          notes: `${notes.trim() || ''}\n\nShipping: ${shippingMethod === 'priority' ? 'USPS Priority Mail' : 'USPS Standard Shipping'} ($${shippingCost.toFixed(2)})`.trim(),
-          status: 'pending',
+          shippingMethod,
+          notes: notes.trim(),
         }),
       });
 
-      if (!orderResponse.ok) {
-        throw new Error('Failed to create order');
+      if (!checkoutResponse.ok) {
+        const data = await checkoutResponse.json().catch(() => ({}));
+        releaseStock();
+        if (data.code === 'INSUFFICIENT_STOCK') {
+          handleShortages(data.shortages || []);
+          return;
+        }
+        if (data.code === 'MONTHLY_CAP_EXCEEDED' || data.code === 'CATEGORY_NOT_ALLOWED' || data.code === 'SUB_USER_DISABLED') {
+          setError(data.error);
+          toast.error(data.error);
+          setIsSubmitting(false);
+          return;
+        }
+        if (data.code === 'INSUFFICIENT_CREDITS') {
+          setError(`Insufficient funds. You need $${(data.shortfall ?? 0).toFixed(2)} more to complete this order.`);
+          toast.error('Insufficient funds! Please add credits to your account.');
+          loadUserCredits();
+          setIsSubmitting(false);
+          return;
+        }
+        throw new Error(data.error || 'Failed to create order');
       }
 
-      const order = await orderResponse.json();
-
-      // Create order items
-      for (const item of cartItems) {
-        await fetch('/api/order-items', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`,
-          },
-          body: JSON.stringify({
-            orderId: order.id,
-            productId: item.product.id,
-            quantity: item.quantity,
-            priceAtPurchase: getItemPrice(item),
-          }),
-        });
+      // The checkout transaction empties the server-side cart
+      const placed = await checkoutResponse.json();
+      if (placed.requiresApproval) {
+        toast.success(`Order placed. It will be processed once ${subUser?.parentUsername || 'the account owner'} approves it.`);
+      } else {
+        toast.success('Order placed successfully!');
       }
-
-      // Clear cart
-      localStorage.removeItem('cart');
-      
-      toast.success('Order placed successfully!');
       router.push('/marketplace/orders');
     } catch (err) {
       console.error('Checkout error:', err);
@@ -513,6 +363,19 @@ export default function CartPage() {
 
         <h1 className="text-2xl sm:text-3xl font-bold mb-4 sm:mb-8">Shopping Cart</h1>
 
+        {store && cartItems.length > 0 && (
+          <div className="flex items-center gap-3 mb-4 p-3 rounded-md border border-border bg-muted/40 text-sm">
+            {store.storeLogo ? (
+              <img src={store.storeLogo} alt={store.storeName} className="h-8 w-8 object-contain rounded" />
+            ) : (
+              <Store className="h-5 w-5 text-primary" />
+            )}
+            <span>
+              Shopping at <span className="font-semibold">{store.storeName}</span>. Prices include the store&apos;s pricing.
+            </span>
+          </div>
+        )}
+
         {cartItems.length === 0 ? (
           <Card>
             <CardContent className="py-12 text-center">
@@ -527,12 +390,20 @@ export default function CartPage() {
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-8">
             {/* Cart Items */}
             <div className="lg:col-span-2 space-y-4">
+              {cartItems.some(item => item.priceChanged) && (
+                <div className="flex items-center justify-between gap-3 p-3 rounded-md border border-amber-500/50 bg-amber-500/10 text-sm">
+                  <span>Some prices changed since you added these items. Totals below use current prices.</span>
+                  <Button variant="outline" size="sm" onClick={acknowledgePriceChanges}>
+                    Got it
+                  </Button>
+                </div>
+              )}
               {cartItems.map((item) => (
-                <Card key={item.cartKey}>
+                <Card key={item.id} className={item.isUnavailable ? 'border-destructive' : undefined}>
                   <CardContent className="p-3 sm:p-4">
                     <div className="flex gap-3 sm:gap-4">
                       <div className="w-20 h-20 sm:w-24 sm:h-24 bg-muted rounded-md flex items-center justify-center flex-shrink-0">
-                        {item.product.imageUrl ? (
+                        {item.product?.imageUrl ? (
                           <img
                             src={item.product.imageUrl}
                             alt={item.product.name}
@@ -544,8 +415,8 @@ export default function CartPage() {
                       </div>
 
                       <div className="flex-1 min-w-0">
-                        <h3 className="font-semibold text-sm sm:text-base truncate">{item.product.name}</h3>
-                        {item.variants && item.variants.length > 0 && (
+                        <h3 className="font-semibold text-sm sm:text-base truncate">{item.product?.name || 'Removed product'}</h3>
+                        {item.variants.length > 0 && (
                           <div className="mt-1 space-y-0.5">
                             {item.variants.map((variant) => (
                               <p key={variant.id} className="text-xs sm:text-sm text-muted-foreground">
@@ -559,14 +430,28 @@ export default function CartPage() {
                             ))}
                           </div>
                         )}
-                        <p className="text-base sm:text-lg font-bold mt-2">${getItemPrice(item).toFixed(2)}</p>
+                        {item.isUnavailable ? (
+                          <p className="text-sm font-semibold text-destructive mt-2">No longer available — remove to continue</p>
+                        ) : (
+                          <p className="text-base sm:text-lg font-bold mt-2">${(item.unitPrice ?? 0).toFixed(2)}</p>
+                        )}
+                        {getShortage(item) !== null && (
+                          <p className="text-xs font-medium text-destructive mt-1">
+                            Only {getShortage(item)} available
+                          </p>
+                        )}
+                        {item.priceChanged && item.listPrice !== null && (
+                          <p className="text-xs text-amber-600 mt-1">
+                            Price changed from ${item.priceAtAdd.toFixed(2)} to ${item.listPrice.toFixed(2)} since you added it
+                          </p>
+                        )}
                       </div>
 
                       <div className="flex flex-col items-end gap-2">
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => removeItem(item.cartKey)}
+                          onClick={() => removeItem(item.id)}
                         >
                           <Trash2 className="h-4 w-4" />
                         </Button>
@@ -575,7 +460,7 @@ export default function CartPage() {
                           <Button
                             variant="outline"
                             size="sm"
-                            onClick={() => updateQuantity(item.cartKey, item.quantity - 1)}
+                            onClick={() => updateQuantity(item.id, item.quantity - 1)}
                           >
                             -
                           </Button>
@@ -583,14 +468,15 @@ export default function CartPage() {
                           <Button
                             variant="outline"
                             size="sm"
-                            onClick={() => updateQuantity(item.cartKey, item.quantity + 1)}
+                            onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                            disabled={item.isUnavailable}
                           >
                             +
                           </Button>
                         </div>
 
                         <p className="text-sm font-semibold">
-                          ${(getItemPrice(item) * item.quantity).toFixed(2)}
+                          ${item.lineTotal.toFixed(2)}
                         </p>
                       </div>
                     </div>
@@ -619,7 +505,7 @@ export default function CartPage() {
 
                   <div className="space-y-2">
                     <Label htmlFor="shippingMethod">Shipping Method</Label>
-                    <Select value={shippingMethod} onValueChange={(value: 'standard' | 'priority') => setShippingMethod(value)}>
+                    <Select value={shippingMethod} onValueChange={(value: ShippingMethod) => setShippingMethod(value)}>
                       <SelectTrigger id="shippingMethod">
                         <SelectValue />
                       </SelectTrigger>
@@ -627,13 +513,13 @@ export default function CartPage() {
                         <SelectItem value="standard">
                           <div className="flex flex-col items-start">
                             <span className="font-medium">USPS Standard Shipping</span>
-                            <span className="text-sm text-muted-foreground">${STANDARD_SHIPPING.toFixed(2)} - 2-5 business days</span>
+                            <span className="text-sm text-muted-foreground">${SHIPPING_RATES.standard.cost.toFixed(2)} - 2-5 business days</span>
                           </div>
                         </SelectItem>
                         <SelectItem value="priority">
                           <div className="flex flex-col items-start">
                             <span className="font-medium">USPS Priority Mail</span>
-                            <span className="text-sm text-muted-foreground">${PRIORITY_SHIPPING.toFixed(2)} - 1-3 business days</span>
+                            <span className="text-sm text-muted-foreground">${SHIPPING_RATES.priority.cost.toFixed(2)} - 1-3 business days</span>
                           </div>
                         </SelectItem>
                       </SelectContent>
@@ -666,12 +552,30 @@ export default function CartPage() {
                     </div>
                     
                     <div className="flex justify-between text-sm pt-2 border-t">
-                      <span className="text-muted-foreground">Your Credits</span>
+                      <span className="text-muted-foreground">
+                        {subUser ? `${subUser.parentUsername}'s Credits` : 'Your Credits'}
+                      </span>
                       <span className={userCredits >= calculateTotal() ? 'text-green-600 font-medium' : 'text-destructive font-medium'}>
                         ${userCredits.toFixed(2)}
                       </span>
                     </div>
                     
+                    {subUser?.monthlyCap != null && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Left This Month</span>
+                        <span className={subUser.monthlyCap - subUser.spentThisMonth >= calculateTotal() ? 'font-medium' : 'text-destructive font-medium'}>
+                          ${Math.max(subUser.monthlyCap - subUser.spentThisMonth, 0).toFixed(2)}
+                        </span>
+                      </div>
+                    )}
+
+                    {subUser?.approvalThreshold != null && calculateTotal() > subUser.approvalThreshold && (
+                      <div className="flex items-start gap-2 p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-xs">
+                        <AlertCircle className="h-4 w-4 text-amber-600 flex-shrink-0 mt-0.5" />
+                        <p>Orders over ${subUser.approvalThreshold.toFixed(2)} need {subUser.parentUsername}&apos;s approval before they are processed.</p>
+                      </div>
+                    )}
+
                     {userCredits < calculateTotal() && (
                       <div className="flex items-start gap-2 p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
                         <AlertCircle className="h-4 w-4 text-destructive flex-shrink-0 mt-0.5" />
@@ -690,7 +594,7 @@ export default function CartPage() {
                 <CardFooter>
                   <Button
                     onClick={handleCheckout}
-                    disabled={isSubmitting || userCredits < calculateTotal()}
+                    disabled={isSubmitting || userCredits < calculateTotal() || cartItems.some(item => item.isUnavailable)}
                     className="w-full"
                   >
                     {isSubmitting ? 'Placing Order...' : 'Place Order'}
@@ -16,6 +16,7 @@ import { Loader2, Wallet, Copy, QrCode, ArrowDownToLine, Clock, CheckCircle2, XC
 import { toast } from 'sonner';
 import { QRCodeCanvas } from 'qrcode.react';
 import { Checkbox } from '@/components/ui/checkbox';
+import { DepositQuote } from '@/components/marketplace/deposit-quote';
 
 interface CryptoAddress {
   id: number;
@@ -40,10 +41,20 @@ interface Deposit {
   verificationError: string | null;
   credits: number;
   notes: string | null;
+  derivationIndex: number | null;
+  quotedUsd: number | null;
+  expectedAmount: number | null;
+  quoteRate: number | null;
+  quoteExpiresAt: string | null;
+  quoteStatus: string | null;
+  paymentSeenAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+// Stablecoins paid as ERC-20 transfers on Ethereum, by ticker or name
+const ERC20_TOKENS = ['USDT', 'TETHER', 'USDC', 'USD-COIN'];
+
 interface CooldownStatus {
   hasCooldown: boolean;
   cooldownEndsAt: string | null;
@@ -58,6 +69,8 @@ export default function DepositsPage() {
   const [deposits, setDeposits] = useState<Deposit[]>([]);
   const [isLoadingData, setIsLoadingData] = useState(true);
   const [selectedCrypto, setSelectedCrypto] = useState<string>('');
+  const [amountUsd, setAmountUsd] = useState<string>('');
+  const [refreshingQuoteId, setRefreshingQuoteId] = useState<number | null>(null);
   const [isCreating, setIsCreating] = useState(false);
   const [showQRDialog, setShowQRDialog] = useState(false);
   const [showTxIdDialog, setShowTxIdDialog] = useState(false);
@@ -147,6 +160,11 @@ export default function DepositsPage() {
       return;
     }
 
+    if (!(parseFloat(amountUsd) >= 1)) {
+      toast.error('Please enter an amount of at least $1.00');
+      return;
+    }
+
     if (cooldownStatus.hasCooldown) {
       toast.error(`You must wait ${cooldownStatus.remainingMinutes} more minutes before creating a new deposit`);
       return;
@@ -169,6 +187,7 @@ export default function DepositsPage() {
         body: JSON.stringify({
           userId: user.id,
           cryptocurrency: selectedCrypto,
+          amountUsd: parseFloat(amountUsd),
           agreedToTerms: true,
         }),
       });
@@ -179,7 +198,8 @@ export default function DepositsPage() {
         setShowTermsDialog(false);
         setShowQRDialog(true);
         setAgreedToTerms(false);
-        toast.success('Deposit created! Send crypto and submit your transaction ID');
+        setAmountUsd('');
+        toast.success(`Deposit created! Send ${newDeposit.expectedAmount} ${newDeposit.cryptocurrency.toUpperCase()} before the quote expires`);
         loadData();
       } else {
         const error = await res.json();
@@ -237,7 +257,12 @@ export default function DepositsPage() {
 
       const verifyData = await verifyRes.json();
 
-      if (verifyData.success) {
+      if (verifyData.code === 'RATE_UNAVAILABLE') {
+        toast.error(verifyData.error);
+        setShowTxIdDialog(false);
+        setTransactionId('');
+        loadData();
+      } else if (verifyData.success) {
         toast.success(`Transaction verified! ${verifyData.confirmations} confirmations. Deposit approved!`);
         setShowTxIdDialog(false);
         setTransactionId('');
@@ -282,13 +307,49 @@ export default function DepositsPage() {
     }
   };
 
+  const handleRefreshQuote = async (depositId: number) => {
+    setRefreshingQuoteId(depositId);
+    try {
+      const res = await fetch(`/api/deposits?id=${depositId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshQuote: true }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success(`New quote: ${data.expectedAmount} ${data.cryptocurrency.toUpperCase()} for $${data.quotedUsd.toFixed(2)}`);
+        if (currentDeposit?.id === depositId) {
+          setCurrentDeposit(data);
+        }
+        loadData();
+      } else {
+        toast.error(data.error || 'Failed to refresh quote');
+      }
+    } catch (error) {
+      console.error('Failed to refresh quote:', error);
+      toast.error('Failed to refresh quote');
+    } finally {
+      setRefreshingQuoteId(null);
+    }
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     toast.success('Copied to clipboard!');
   };
 
-  const getQRCodeValue = (crypto: string, address: string) => {
-    return `${crypto.toLowerCase()}:${address}`;
+  const getQRCodeValue = (crypto: string, address: string, amount?: number | null) => {
+    const code = crypto.toUpperCase();
+    // ERC-20 tokens are sent from the wallet's token screen, so the code carries just the address
+    if (ERC20_TOKENS.includes(code)) {
+      return address;
+    }
+    // EIP-681 payment request, with the amount in wei
+    if (code === 'ETH' || code === 'ETHEREUM') {
+      return amount ? `ethereum:${address}?value=${amount.toFixed(8)}e18` : `ethereum:${address}`;
+    }
+    return amount ? `${crypto.toLowerCase()}:${address}?amount=${amount}` : `${crypto.toLowerCase()}:${address}`;
   };
 
   const getCryptoLogo = (cryptocurrency: string) => {
@@ -403,7 +464,7 @@ export default function DepositsPage() {
               <CardHeader>
                 <CardTitle>Make a Deposit</CardTitle>
                 <CardDescription>
-                  Send cryptocurrency to the generated address - amount is automatically detected
+                  Choose how much to deposit and lock in the exchange rate while you pay
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -430,21 +491,35 @@ export default function DepositsPage() {
                   </Select>
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="amountUsd">Amount (USD)</Label>
+                  <Input
+                    id="amountUsd"
+                    type="number"
+                    min="1"
+                    step="0.01"
+                    placeholder="100.00"
+                    value={amountUsd}
+                    onChange={(e) => setAmountUsd(e.target.value)}
+                    disabled={cooldownStatus.hasCooldown}
+                  />
+                </div>
+
                 {/* Important Notice */}
                 <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-4">
-                  <p className="font-semibold text-blue-600 mb-2">💡 Automatic Amount Detection:</p>
+                  <p className="font-semibold text-blue-600 mb-2">💡 Locked Exchange Rate:</p>
                   <ul className="text-sm space-y-1 text-muted-foreground">
-                    <li>• <strong>No need to enter an amount</strong> - just select your cryptocurrency</li>
-                    <li>• Send any amount you want to the generated address</li>
-                    <li>• System automatically detects the exact amount from the blockchain</li>
-                    <li>• You'll be credited for the USD value at the time of transaction</li>
+                    <li>• You'll be quoted the exact {selectedCrypto ? selectedCrypto.toUpperCase() : 'crypto'} amount for your USD amount</li>
+                    <li>• The rate is locked for 30 minutes - pay within that time to get it</li>
+                    <li>• You're credited for what you actually send, at the locked rate</li>
+                    <li>• Payments seen after the quote expires are credited at the rate when they confirm</li>
                     <li>• Submit your transaction ID after payment for instant verification</li>
                   </ul>
                 </div>
 
                 <Button
                   onClick={handleOpenTermsDialog}
-                  disabled={isCreating || !selectedCrypto || cooldownStatus.hasCooldown}
+                  disabled={isCreating || !selectedCrypto || !amountUsd || cooldownStatus.hasCooldown}
                   className="w-full"
                 >
                   {cooldownStatus.hasCooldown ? (
@@ -497,8 +572,8 @@ export default function DepositsPage() {
                   <CardContent className="space-y-3">
                     <div className="grid grid-cols-2 gap-4">
                       <div>
-                        <p className="text-sm text-muted-foreground">Amount</p>
-                        <p className="font-semibold">${deposit.amount.toFixed(2)}</p>
+                        <p className="text-sm text-muted-foreground">Amount Sent</p>
+                        <p className="font-semibold">{deposit.amount.toFixed(8)} {deposit.cryptocurrency.toUpperCase()}</p>
                       </div>
                       <div>
                         <p className="text-sm text-muted-foreground">Credits</p>
@@ -506,6 +581,12 @@ export default function DepositsPage() {
                       </div>
                     </div>
                     
+                    <DepositQuote
+                      deposit={deposit}
+                      onRefresh={() => handleRefreshQuote(deposit.id)}
+                      isRefreshing={refreshingQuoteId === deposit.id}
+                    />
+
                     <div>
                       <p className="text-sm text-muted-foreground">Wallet Address</p>
                       <div className="flex items-center gap-2 mt-1">
@@ -556,6 +637,12 @@ export default function DepositsPage() {
                       </div>
                     )}
 
+                    {deposit.status === 'pending' && !deposit.transactionId && deposit.derivationIndex !== null && (
+                      <p className="text-xs text-muted-foreground">
+                        This address is unique to this deposit. Your payment will be detected automatically.
+                      </p>
+                    )}
+
                     {deposit.status === 'pending' && !deposit.transactionId && (
                       <Button
                         size="sm"
@@ -626,14 +713,15 @@ export default function DepositsPage() {
               <h4 className="font-semibold">Deposit Terms:</h4>
               <ul className="list-disc list-inside space-y-2 text-muted-foreground">
                 <li>All deposits are final and non-refundable once processed</li>
-                <li>Send any amount to the provided wallet address</li>
-                <li>Credits will be added after 2 blockchain confirmations</li>
+                <li>Each deposit locks a USD exchange rate for 30 minutes; payments seen after that are credited at the rate when they confirm</li>
+                <li>You are credited for the amount actually sent, even if it differs from the quoted amount</li>
+                <li>Credits will be added once the payment is confirmed: 2 confirmations for Bitcoin, 6 for Dogecoin, 12 for Ethereum and its tokens</li>
+                <li>USDT and USDC must be sent as ERC-20 tokens on Ethereum and are credited 1:1 in USD</li>
                 <li>Minimum deposit amount is $1.00 USD equivalent</li>
                 <li>1 USD = 1 Credit conversion rate</li>
-                <li>You must submit a valid transaction ID after making payment</li>
+                <li>You must submit a valid transaction ID after making payment, unless your deposit has an address of its own</li>
                 <li>Transaction verification is automatic via blockchain explorer</li>
                 <li>Amount is automatically detected from the blockchain transaction</li>
-                <li>You'll be credited for the USD value at the time of transaction</li>
                 <li>Deposits sent to incorrect addresses cannot be recovered</li>
                 <li>Each transaction ID can only be used once</li>
                 <li>If you cancel a deposit, you cannot create a new one for 1 hour</li>
@@ -652,7 +740,7 @@ export default function DepositsPage() {
                 <li>Verify the wallet address before sending payment</li>
                 <li>Keep your transaction ID for reference</li>
                 <li>Contact support if you experience issues</li>
-                <li>Ensure you're using the correct cryptocurrency network</li>
+                <li>Ensure you're using the correct cryptocurrency network (Ethereum mainnet for USDT and USDC)</li>
               </ul>
             </div>
 
@@ -704,7 +792,7 @@ export default function DepositsPage() {
             <div className="space-y-4">
               <div className="flex justify-center bg-white p-4 rounded-lg">
                 <QRCodeCanvas
-                  value={getQRCodeValue(currentDeposit.cryptocurrency, currentDeposit.walletAddress)}
+                  value={getQRCodeValue(currentDeposit.cryptocurrency, currentDeposit.walletAddress, currentDeposit.expectedAmount)}
                   size={256}
                   level="H"
                 />
@@ -726,22 +814,22 @@ export default function DepositsPage() {
                   </Button>
                 </div>
               </div>
-              <div className="bg-green-500/10 border border-green-500/20 rounded-lg p-4 text-sm">
-                <p className="font-semibold text-green-600 mb-2">💰 Flexible Payment:</p>
-                <ul className="list-disc list-inside space-y-1 text-muted-foreground">
-                  <li>Send any amount of {currentDeposit.cryptocurrency.toUpperCase()} to the address above</li>
-                  <li>System will auto-detect the exact amount from blockchain</li>
-                  <li>You'll be credited based on USD value at transaction time</li>
-                  <li>No minimum or maximum amount restrictions</li>
-                </ul>
-              </div>
+              <DepositQuote
+                deposit={currentDeposit}
+                onRefresh={() => handleRefreshQuote(currentDeposit.id)}
+                isRefreshing={refreshingQuoteId === currentDeposit.id}
+              />
               <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-4 text-sm">
                 <p className="font-semibold text-blue-600 mb-2">📋 Next Steps:</p>
                 <ol className="list-decimal list-inside space-y-1 text-muted-foreground">
                   <li>Send crypto to the address above</li>
-                  <li>Submit your transaction ID below</li>
+                  {currentDeposit.derivationIndex !== null ? (
+                    <li>Your payment is detected automatically (this address is unique to this deposit)</li>
+                  ) : (
+                    <li>Submit your transaction ID below</li>
+                  )}
                   <li>Wait for 2+ blockchain confirmations</li>
-                  <li>Credits auto-added based on actual USD value</li>
+                  <li>Credits added for what you sent, at the locked rate</li>
                 </ol>
               </div>
               {!currentDeposit.transactionId && (
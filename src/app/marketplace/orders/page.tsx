@@ -11,6 +11,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { ArrowLeft, Package, Truck, CheckCircle, XCircle, Star, RefreshCw } from 'lucide-react';
 import { toast } from 'sonner';
 import Navbar from '@/components/marketplace/navbar';
+import { OrderTimeline, OrderStatusChange } from '@/components/marketplace/order-timeline';
 
 interface Order {
   id: number;
@@ -18,6 +19,7 @@ interface Order {
   totalAmount: number;
   shippingAddress: string;
   notes: string;
+  approvalStatus: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -56,6 +58,7 @@ export default function OrdersPage() {
   const router = useRouter();
   const [orders, setOrders] = useState<OrderWithItems[]>([]);
   const [tracking, setTracking] = useState<{ [key: number]: TrackingInfo }>({});
+  const [history, setHistory] = useState<Record<number, OrderStatusChange[]>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [reviewDialogOpen, setReviewDialogOpen] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<{ productId: number; productName: string } | null>(null);
@@ -128,6 +131,8 @@ export default function OrdersPage() {
         for (const order of ordersData) {
           fetchTracking(order.id, timestamp);
         }
+
+        fetchHistory(ordersData.map((order: Order) => order.id));
         
         if (showRefreshToast) {
           toast.success('Orders refreshed');
@@ -210,6 +215,30 @@ export default function OrdersPage() {
     }
   };
 
+  const fetchHistory = async (orderIds: number[]) => {
+    if (orderIds.length === 0) return;
+
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/order-status-history?orderIds=${orderIds.join(',')}`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+        cache: 'no-store',
+      });
+
+      if (response.ok) {
+        const entries: OrderStatusChange[] = await response.json();
+        const byOrder: Record<number, OrderStatusChange[]> = {};
+        for (const entry of entries) {
+          if (!byOrder[entry.orderId]) byOrder[entry.orderId] = [];
+          byOrder[entry.orderId].push(entry);
+        }
+        setHistory(byOrder);
+      }
+    } catch (error) {
+      console.error('Error fetching order history:', error);
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     const variants: { [key: string]: any } = {
       pending: { variant: 'secondary', icon: Package },
@@ -284,7 +313,12 @@ export default function OrdersPage() {
                           Placed on {new Date(order.createdAt).toLocaleDateString()}
                         </p>
                       </div>
-                      {getStatusBadge(order.status)}
+                      <div className="flex flex-col items-end gap-1">
+                        {getStatusBadge(order.status)}
+                        {order.approvalStatus === 'awaiting' && order.status === 'pending' && (
+                          <Badge variant="outline" className="w-fit">Awaiting approval</Badge>
+                        )}
+                      </div>
                     </div>
                   </CardHeader>
                   <CardContent className="space-y-6">
@@ -382,6 +416,13 @@ export default function OrdersPage() {
                         </div>
                       </div>
                     )}
+
+                    {history[order.id] && (
+                      <div className="border-t pt-4">
+                        <p className="text-sm font-medium mb-3">Order Timeline</p>
+                        <OrderTimeline entries={history[order.id]} />
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               ))}
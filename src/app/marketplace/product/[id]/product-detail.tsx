@@ -1,12 +1,12 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { ChevronLeft, ShoppingCart, Package, Minus, Plus, CheckCircle2, AlertCircle, ChevronRight, ChevronDown } from 'lucide-react';
+import { ChevronLeft, ShoppingCart, Package, Minus, Plus, CheckCircle2, AlertCircle, ChevronRight, ChevronDown, Bell, BellRing } from 'lucide-react';
 import { toast } from 'sonner';
 import { useAuth } from '@/hooks/use-auth';
 import { ProductReviews } from '@/components/marketplace/product-reviews';
@@ -78,12 +78,28 @@ interface PricingTier {
   isActive: boolean;
 }
 
+interface Storefront {
+  slug: string;
+  storeName: string;
+  storeLogo: string | null;
+  storeMarkup: number;
+}
+
+interface RestockSubscription {
+  id: number;
+  variantType: string | null;
+  variantName: string | null;
+}
+
 interface ProductDetailProps {
   productId: string;
 }
 
 export default function ProductDetail({ productId }: ProductDetailProps) {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const storeSlug = searchParams.get('store');
+  const [store, setStore] = useState<Storefront | null>(null);
   const [product, setProduct] = useState<Product | null>(null);
   const [productImages, setProductImages] = useState<ProductImage[]>([]);
   const [variants, setVariants] = useState<Variant[]>([]);
@@ -97,18 +113,37 @@ export default function ProductDetail({ productId }: ProductDetailProps) {
   const [isAddingToCart, setIsAddingToCart] = useState(false);
   const [pricingTiers, setPricingTiers] = useState<PricingTier[]>([]);
   const [showAllTiers, setShowAllTiers] = useState(false);
+  const [restockSubscriptions, setRestockSubscriptions] = useState<RestockSubscription[]>([]);
   const { user } = useAuth();
 
   useEffect(() => {
     fetchProductData();
   }, [productId]);
 
+  useEffect(() => {
+    if (user?.id) {
+      fetchRestockSubscriptions();
+    }
+  }, [user?.id, productId]);
+
+  useEffect(() => {
+    if (!storeSlug) {
+      setStore(null);
+      return;
+    }
+
+    fetch(`/api/store/${encodeURIComponent(storeSlug)}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(setStore)
+      .catch(() => setStore(null));
+  }, [storeSlug]);
+
   useEffect(() => {
     // Recalculate pricing tiers whenever markup or bulk pricing changes
     if (product) {
       calculatePricingTiers();
     }
-  }, [product, markupCalculation, bulkPricingRules, selectedVariants]);
+  }, [product, markupCalculation, bulkPricingRules, selectedVariants, store]);
 
   const calculatePricingTiers = () => {
     if (!product) return;
@@ -137,7 +172,7 @@ export default function ProductDetail({ productId }: ProductDetailProps) {
         minQuantity: minQty,
         pricePerUnit: unitPrice,
         totalPrice: unitPrice * minQty,
-        savings: (baseWithVariants - unitPrice) * minQty,
+        savings: (withStoreMarkup(baseWithVariants) - unitPrice) * minQty,
         isActive: quantity >= minQty
       };
     });
@@ -218,6 +253,57 @@ export default function ProductDetail({ productId }: ProductDetailProps) {
     }
   };
 
+  const fetchRestockSubscriptions = async () => {
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/stock-subscriptions?userId=${user?.id}&productId=${productId}`, {
+        headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+      });
+      if (response.ok) {
+        setRestockSubscriptions(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to fetch restock subscriptions:', error);
+    }
+  };
+
+  const isWaitingForRestock = (variant?: Variant) => {
+    return restockSubscriptions.some(s => variant
+      ? s.variantType === variant.variantType && s.variantName === variant.variantName
+      : s.variantName === null
+    );
+  };
+
+  const requestRestockNotice = async (variant?: Variant) => {
+    if (!user) {
+      router.push('/login');
+      return;
+    }
+
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch('/api/stock-subscriptions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({ userId: user.id, productId: parseInt(productId), variantId: variant?.id ?? null }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to set up notification');
+      }
+
+      toast.success(`We'll let you know when ${variant ? variant.variantName : 'this product'} is back in stock`);
+      fetchRestockSubscriptions();
+    } catch (error) {
+      console.error('Error requesting restock notice:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to set up notification');
+    }
+  };
+
   const groupVariantsByType = (variants: Variant[]): Record<string, Variant[]> => {
     return variants.reduce((acc, variant) => {
       if (!acc[variant.variantType]) {
@@ -264,9 +350,14 @@ export default function ProductDetail({ productId }: ProductDetailProps) {
     return basePrice + variantModifiers;
   };
 
+  // Storefront prices add the store's markup on top of the final unit price, as checkout does
+  const withStoreMarkup = (price: number) => {
+    return store?.storeMarkup ? Math.round(price * (1 + store.storeMarkup / 100) * 100) / 100 : price;
+  };
+
   const calculateBulkPrice = (basePrice: number, qty: number): { price: number; savings: number; appliedRule: BulkPricingRule | null } => {
     if (bulkPricingRules.length === 0) {
-      return { price: basePrice, savings: 0, appliedRule: null };
+      return { price: withStoreMarkup(basePrice), savings: 0, appliedRule: null };
     }
 
     const applicableRules = bulkPricingRules
@@ -274,7 +365,7 @@ export default function ProductDetail({ productId }: ProductDetailProps) {
       .sort((a, b) => b.minQuantity - a.minQuantity);
 
     if (applicableRules.length === 0) {
-      return { price: basePrice, savings: 0, appliedRule: null };
+      return { price: withStoreMarkup(basePrice), savings: 0, appliedRule: null };
     }
 
     const rule = applicableRules[0];
@@ -288,8 +379,8 @@ export default function ProductDetail({ productId }: ProductDetailProps) {
       discountedPrice = Math.max(0, basePrice - rule.discountValue);
     }
 
-    const savings = basePrice - discountedPrice;
-    return { price: discountedPrice, savings, appliedRule: rule };
+    const price = withStoreMarkup(discountedPrice);
+    return { price, savings: withStoreMarkup(basePrice) - price, appliedRule: rule };
   };
 
   const getFinalPrice = () => {
@@ -324,22 +415,26 @@ export default function ProductDetail({ productId }: ProductDetailProps) {
     setIsAddingToCart(true);
     
     try {
-      // Get current cart
-      const cartData = localStorage.getItem('cart');
-      const cart = cartData ? JSON.parse(cartData) : {};
-      
-      // Create unique cart key
-      const selectedVariantIds = Object.values(selectedVariants)
-        .map(v => v.id)
-        .sort()
-        .join('-');
-      const cartKey = selectedVariantIds 
-        ? `${product.id}-variants-${selectedVariantIds}`
-        : `${product.id}`;
-      
-      // Add to cart
-      cart[cartKey] = (cart[cartKey] || 0) + quantity;
-      localStorage.setItem('cart', JSON.stringify(cart));
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch('/api/cart', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({
+          userId: user?.id,
+          productId: product.id,
+          variantIds: Object.values(selectedVariants).map(v => v.id),
+          quantity,
+          ...(store ? { storeSlug: store.slug } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to add to cart');
+      }
       
       // Show success message with action button
       toast.success(
@@ -445,11 +540,11 @@ export default function ProductDetail({ productId }: ProductDetailProps) {
       {/* Back Button */}
       <Button 
         variant="ghost" 
-        onClick={() => router.push('/marketplace')}
+        onClick={() => router.push(store ? `/store/${store.slug}` : '/marketplace')}
         className="mb-6"
       >
         <ChevronLeft className="h-4 w-4 mr-2" />
-        Back to Marketplace
+        {store ? `Back to ${store.storeName}` : 'Back to Marketplace'}
       </Button>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-12">
@@ -594,7 +689,7 @@ export default function ProductDetail({ productId }: ProductDetailProps) {
               /* Single Price - No Tiers */
               <div className="flex items-baseline gap-3">
                 <span className="text-4xl font-bold text-primary">
-                  ${getCurrentPrice().toFixed(2)}
+                  ${withStoreMarkup(getCurrentPrice()).toFixed(2)}
                 </span>
               </div>
             )}
@@ -706,6 +801,30 @@ export default function ProductDetail({ productId }: ProductDetailProps) {
                         {outOfStockCount} {type}{outOfStockCount > 1 ? 's' : ''} currently unavailable
                       </p>
                     )}
+                    {outOfStockCount > 0 && (
+                      <div className="flex flex-wrap items-center gap-1.5">
+                        <span className="text-xs text-muted-foreground">Notify me when back:</span>
+                        {typeVariants.filter(v => v.stockQuantity === 0).map(variant => (
+                          isWaitingForRestock(variant) ? (
+                            <Badge key={variant.id} variant="secondary" className="text-xs gap-1">
+                              <BellRing className="h-3 w-3" />
+                              {variant.variantName}
+                            </Badge>
+                          ) : (
+                            <Button
+                              key={variant.id}
+                              variant="outline"
+                              size="sm"
+                              className="h-6 px-2 text-xs gap-1"
+                              onClick={() => requestRestockNotice(variant)}
+                            >
+                              <Bell className="h-3 w-3" />
+                              {variant.variantName}
+                            </Button>
+                          )
+                        ))}
+                      </div>
+                    )}
                   </div>
                 );
               })}
@@ -758,6 +877,27 @@ export default function ProductDetail({ productId }: ProductDetailProps) {
                 </>
               )}
             </Button>
+
+            {!hasVariants && availableStock === 0 && (
+              <Button
+                variant="outline"
+                className="w-full h-12"
+                onClick={() => requestRestockNotice()}
+                disabled={isWaitingForRestock()}
+              >
+                {isWaitingForRestock() ? (
+                  <>
+                    <BellRing className="h-5 w-5 mr-2" />
+                    We&apos;ll notify you when it&apos;s back
+                  </>
+                ) : (
+                  <>
+                    <Bell className="h-5 w-5 mr-2" />
+                    Notify Me When Available
+                  </>
+                )}
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -10,7 +10,8 @@ import { Switch } from '@/components/ui/switch';
 import { Separator } from '@/components/ui/separator';
 import { useAuth } from '@/hooks/use-auth';
 import Navbar from '@/components/marketplace/navbar';
-import { Loader2, Save, Upload, Moon, Sun, Store, Percent, Users } from 'lucide-react';
+import { TwoFactorSettings } from '@/components/auth/two-factor-settings';
+import { Loader2, Save, Upload, Moon, Sun, Store, Percent, Users, LogOut, ShieldCheck, Link2, BarChart3, Receipt } from 'lucide-react';
 import { toast } from 'sonner';
 
 interface UserProfile {
@@ -18,9 +19,11 @@ interface UserProfile {
   username: string;
   role: string;
   storeName: string | null;
+  storeSlug: string | null;
   storeLogo: string | null;
   storeMarkup: number;
   subUsersEnabled: boolean;
+  parentId: number | null;
 }
 
 interface UserPreferences {
@@ -29,15 +32,17 @@ interface UserPreferences {
 
 export default function SettingsPage() {
   const router = useRouter();
-  const { user, isLoading: authLoading } = useAuth();
+  const { user, isLoading: authLoading, logoutAllDevices } = useAuth();
   
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [preferences, setPreferences] = useState<UserPreferences | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
+  const [isLoggingOutAll, setIsLoggingOutAll] = useState(false);
   
   const [formData, setFormData] = useState({
     storeName: '',
+    storeSlug: '',
     storeLogo: '',
     storeMarkup: '0',
     subUsersEnabled: false,
@@ -62,6 +67,7 @@ export default function SettingsPage() {
         setProfile(profileData);
         setFormData({
           storeName: profileData.storeName || '',
+          storeSlug: profileData.storeSlug || '',
           storeLogo: profileData.storeLogo || '',
           storeMarkup: profileData.storeMarkup?.toString() || '0',
           subUsersEnabled: profileData.subUsersEnabled || false,
@@ -129,6 +135,7 @@ export default function SettingsPage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           storeName: formData.storeName || null,
+          storeSlug: formData.storeSlug.trim().toLowerCase(),
           storeLogo: formData.storeLogo || null,
           storeMarkup: parseFloat(formData.storeMarkup),
           subUsersEnabled: formData.subUsersEnabled,
@@ -152,6 +159,19 @@ export default function SettingsPage() {
     }
   };
 
+  const handleLogoutAllDevices = async () => {
+    if (!confirm('Log out of every device, including this one?')) return;
+
+    try {
+      setIsLoggingOutAll(true);
+      await logoutAllDevices();
+    } catch (error) {
+      console.error('Failed to log out all devices:', error);
+      toast.error('Failed to log out of all devices');
+      setIsLoggingOutAll(false);
+    }
+  };
+
   if (authLoading || isLoading) {
     return (
       <>
@@ -223,6 +243,38 @@ export default function SettingsPage() {
                   </p>
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="storeSlug" className="flex items-center gap-2">
+                    <Link2 className="h-4 w-4" />
+                    Storefront URL
+                  </Label>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-muted-foreground whitespace-nowrap">/store/</span>
+                    <Input
+                      id="storeSlug"
+                      placeholder="my-store"
+                      value={formData.storeSlug}
+                      onChange={(e) => setFormData({ ...formData, storeSlug: e.target.value })}
+                      className="bg-background/50"
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Share this link with your customers. Leave empty to take your storefront offline.
+                  </p>
+                  {profile?.storeSlug && (
+                    <div className="flex flex-wrap gap-2 pt-1">
+                      <Button variant="outline" size="sm" onClick={() => window.open(`/store/${profile.storeSlug}`, '_blank')}>
+                        <Store className="h-4 w-4 mr-2" />
+                        View Storefront
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => router.push('/marketplace/store')}>
+                        <BarChart3 className="h-4 w-4 mr-2" />
+                        Margin Report
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="storeLogo">Store Logo URL</Label>
                   <div className="flex gap-2">
@@ -270,25 +322,32 @@ export default function SettingsPage() {
                     className="bg-background/50"
                   />
                   <p className="text-xs text-muted-foreground">
-                    Set the markup percentage for sub-user purchases (0-100%)
+                    Added to the regular price for purchases through your storefront (0-100%)
                   </p>
                 </div>
 
-                <div className="flex items-center justify-between p-4 border border-border rounded-lg">
-                  <div className="space-y-0.5">
-                    <Label className="flex items-center gap-2">
-                      <Users className="h-4 w-4" />
-                      Enable Sub-Users
-                    </Label>
-                    <p className="text-sm text-muted-foreground">
-                      Allow creation of sub-users with markup pricing
-                    </p>
+                {!profile?.parentId && (
+                  <div className="flex items-center justify-between p-4 border border-border rounded-lg">
+                    <div className="space-y-0.5">
+                      <Label className="flex items-center gap-2">
+                        <Users className="h-4 w-4" />
+                        Enable Sub-Users
+                      </Label>
+                      <p className="text-sm text-muted-foreground">
+                        Create accounts that spend your credits within limits you set
+                      </p>
+                      {profile?.subUsersEnabled && (
+                        <Button variant="link" className="h-auto p-0 text-sm" onClick={() => router.push('/marketplace/sub-users')}>
+                          Manage sub-users and approvals
+                        </Button>
+                      )}
+                    </div>
+                    <Switch
+                      checked={formData.subUsersEnabled}
+                      onCheckedChange={(checked) => setFormData({ ...formData, subUsersEnabled: checked })}
+                    />
                   </div>
-                  <Switch
-                    checked={formData.subUsersEnabled}
-                    onCheckedChange={(checked) => setFormData({ ...formData, subUsersEnabled: checked })}
-                  />
-                </div>
+                )}
 
                 <Button 
                   onClick={handleSaveProfile} 
@@ -327,6 +386,62 @@ export default function SettingsPage() {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Statement */}
+            <Card className="border-border/50 bg-card/50 backdrop-blur">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Receipt className="h-5 w-5" />
+                  Statement
+                </CardTitle>
+                <CardDescription>Every deposit, order, refund and credit that changed your balance</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Button variant="outline" onClick={() => router.push('/marketplace/settings/statement')}>
+                  View Statement
+                </Button>
+              </CardContent>
+            </Card>
+
+            {/* Two-Factor Authentication */}
+            <Card className="border-border/50 bg-card/50 backdrop-blur">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ShieldCheck className="h-5 w-5" />
+                  Two-Factor Authentication
+                </CardTitle>
+                <CardDescription>Require a code from your authenticator app when signing in</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <TwoFactorSettings />
+              </CardContent>
+            </Card>
+
+            {/* Sessions */}
+            <Card className="border-border/50 bg-card/50 backdrop-blur">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <LogOut className="h-5 w-5" />
+                  Sessions
+                </CardTitle>
+                <CardDescription>Sign out everywhere if you used a shared device or lost one</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Button
+                  variant="destructive"
+                  onClick={handleLogoutAllDevices}
+                  disabled={isLoggingOutAll}
+                  className="w-full"
+                >
+                  {isLoggingOutAll ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <LogOut className="h-4 w-4 mr-2" />
+                  )}
+                  Log Out All Devices
+                </Button>
+              </CardContent>
+            </Card>
           </div>
         </div>
       </div>
@@ -0,0 +1,182 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/hooks/use-auth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Wallet, ArrowLeft } from 'lucide-react';
+import { toast } from 'sonner';
+import Navbar from '@/components/marketplace/navbar';
+
+interface StatementEntry {
+  id: number;
+  direction: 'debit' | 'credit';
+  amount: number;
+  balanceAfter: number | null;
+  referenceType: string;
+  referenceId: number | null;
+  description: string;
+  createdAt: string;
+}
+
+interface Statement {
+  entries: StatementEntry[];
+  total: number;
+  balance: number;
+  ledgerBalance: number;
+}
+
+const PAGE_SIZE = 50;
+
+const REFERENCE_LABELS: Record<string, string> = {
+  deposit: 'Deposit',
+  verification: 'Crypto Payment',
+  order: 'Order',
+  order_refund: 'Refund',
+  manual_credit: 'Manual Credit',
+  opening_balance: 'Opening Balance',
+};
+
+export default function StatementPage() {
+  const { user, isLoading: authLoading } = useAuth();
+  const router = useRouter();
+  const [statement, setStatement] = useState<Statement | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login');
+    } else if (user) {
+      fetchStatement();
+    }
+  }, [user, authLoading]);
+
+  const loadPage = async (offset: number): Promise<Statement | null> => {
+    const token = localStorage.getItem('auth_token');
+    const res = await fetch(`/api/user/statement?userId=${user?.id}&limit=${PAGE_SIZE}&offset=${offset}`, {
+      headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+    });
+
+    if (!res.ok) {
+      toast.error('Failed to load statement');
+      return null;
+    }
+    return res.json();
+  };
+
+  const fetchStatement = async () => {
+    try {
+      setIsLoading(true);
+      setStatement(await loadPage(0));
+    } catch (error) {
+      console.error('Failed to fetch statement:', error);
+      toast.error('Failed to load statement');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadMore = async () => {
+    if (!statement) return;
+    try {
+      setIsLoadingMore(true);
+      const next = await loadPage(statement.entries.length);
+      if (next) {
+        setStatement({ ...next, entries: [...statement.entries, ...next.entries] });
+      }
+    } catch (error) {
+      console.error('Failed to fetch statement:', error);
+      toast.error('Failed to load statement');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  if (authLoading || isLoading) {
+    return (
+      <>
+        <Navbar />
+        <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Navbar />
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
+        <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h1 className="text-4xl font-bold text-foreground mb-2">Statement</h1>
+              <p className="text-muted-foreground">Every credit and debit to your balance, newest first</p>
+            </div>
+            <Button variant="outline" onClick={() => router.push('/marketplace/settings')}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Settings
+            </Button>
+          </div>
+
+          <Card className="border-border/50 bg-card/50 backdrop-blur">
+            <CardHeader className="pb-2">
+              <CardDescription className="flex items-center gap-2"><Wallet className="h-4 w-4" />Current Balance</CardDescription>
+              <CardTitle className="text-3xl">${(statement?.balance ?? 0).toFixed(2)}</CardTitle>
+            </CardHeader>
+          </Card>
+
+          <Card className="border-border/50 bg-card/50 backdrop-blur">
+            <CardHeader>
+              <CardTitle>Transactions</CardTitle>
+              <CardDescription>{statement?.total ?? 0} entries</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {statement && statement.entries.length > 0 ? (
+                <div className="space-y-4">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Description</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead className="text-right">Balance</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {statement.entries.map(entry => (
+                        <TableRow key={entry.id}>
+                          <TableCell>{new Date(entry.createdAt).toLocaleString()}</TableCell>
+                          <TableCell>{REFERENCE_LABELS[entry.referenceType] ?? entry.referenceType}</TableCell>
+                          <TableCell className="text-sm">{entry.description}</TableCell>
+                          <TableCell className={`text-right ${entry.direction === 'credit' ? 'text-green-600' : ''}`}>
+                            {entry.direction === 'credit' ? '+' : '-'}${entry.amount.toFixed(2)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {entry.balanceAfter !== null ? `$${entry.balanceAfter.toFixed(2)}` : '—'}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  {statement.entries.length < statement.total && (
+                    <Button variant="outline" className="w-full" onClick={loadMore} disabled={isLoadingMore}>
+                      {isLoadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Load More
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No transactions yet</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </>
+  );
+}
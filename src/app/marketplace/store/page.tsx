@@ -0,0 +1,233 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/hooks/use-auth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Store, DollarSign, ShoppingBag, TrendingUp, Copy, Settings } from 'lucide-react';
+import { toast } from 'sonner';
+import Navbar from '@/components/marketplace/navbar';
+
+interface MarginTotals {
+  orderCount: number;
+  revenue: number;
+  margin: number;
+}
+
+interface MonthlyMargin extends MarginTotals {
+  month: string;
+}
+
+interface StoreOrder {
+  id: number;
+  status: string;
+  totalAmount: number;
+  resellerMarkup: number | null;
+  resellerMargin: number | null;
+  createdAt: string;
+}
+
+interface MarginReport {
+  store: {
+    slug: string;
+    storeName: string;
+    storeMarkup: number;
+  } | null;
+  totals: MarginTotals;
+  monthly: MonthlyMargin[];
+  recentOrders: StoreOrder[];
+}
+
+export default function StoreReportPage() {
+  const { user, isLoading: authLoading } = useAuth();
+  const router = useRouter();
+  const [report, setReport] = useState<MarginReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login');
+    } else if (user) {
+      fetchReport();
+    }
+  }, [user, authLoading]);
+
+  const fetchReport = async () => {
+    try {
+      setIsLoading(true);
+      const token = localStorage.getItem('auth_token');
+      const res = await fetch(`/api/store/margin-report?userId=${user?.id}`, {
+        headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+      });
+
+      if (res.ok) {
+        setReport(await res.json());
+      } else {
+        toast.error('Failed to load margin report');
+      }
+    } catch (error) {
+      console.error('Failed to fetch margin report:', error);
+      toast.error('Failed to load margin report');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const copyStoreLink = () => {
+    if (!report?.store) return;
+    navigator.clipboard.writeText(`${window.location.origin}/store/${report.store.slug}`);
+    toast.success('Store link copied');
+  };
+
+  if (authLoading || isLoading) {
+    return (
+      <>
+        <Navbar />
+        <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Navbar />
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
+        <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h1 className="text-4xl font-bold text-foreground mb-2">My Store</h1>
+              <p className="text-muted-foreground">Orders placed through your storefront and the margin you earned</p>
+            </div>
+            <Button variant="outline" onClick={() => router.push('/marketplace/settings')}>
+              <Settings className="h-4 w-4 mr-2" />
+              Store Settings
+            </Button>
+          </div>
+
+          {report?.store ? (
+            <Card className="border-border/50 bg-card/50 backdrop-blur">
+              <CardContent className="flex items-center justify-between gap-4 py-4">
+                <div className="flex items-center gap-3">
+                  <Store className="h-5 w-5 text-primary" />
+                  <div>
+                    <p className="font-semibold">{report.store.storeName}</p>
+                    <p className="text-sm text-muted-foreground">/store/{report.store.slug} · {report.store.storeMarkup}% markup</p>
+                  </div>
+                </div>
+                <Button variant="outline" size="sm" onClick={copyStoreLink}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy Link
+                </Button>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card className="border-border/50 bg-card/50 backdrop-blur">
+              <CardContent className="py-6 text-sm text-muted-foreground">
+                Your storefront is offline. Choose a storefront URL in settings to start selling.
+              </CardContent>
+            </Card>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <Card className="border-border/50 bg-card/50 backdrop-blur">
+              <CardHeader className="pb-2">
+                <CardDescription className="flex items-center gap-2"><ShoppingBag className="h-4 w-4" />Orders</CardDescription>
+                <CardTitle className="text-3xl">{report?.totals.orderCount ?? 0}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card className="border-border/50 bg-card/50 backdrop-blur">
+              <CardHeader className="pb-2">
+                <CardDescription className="flex items-center gap-2"><DollarSign className="h-4 w-4" />Sales</CardDescription>
+                <CardTitle className="text-3xl">${(report?.totals.revenue ?? 0).toFixed(2)}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card className="border-border/50 bg-card/50 backdrop-blur">
+              <CardHeader className="pb-2">
+                <CardDescription className="flex items-center gap-2"><TrendingUp className="h-4 w-4" />Margin Earned</CardDescription>
+                <CardTitle className="text-3xl text-green-600">${(report?.totals.margin ?? 0).toFixed(2)}</CardTitle>
+              </CardHeader>
+            </Card>
+          </div>
+
+          <Card className="border-border/50 bg-card/50 backdrop-blur">
+            <CardHeader>
+              <CardTitle>Monthly Breakdown</CardTitle>
+              <CardDescription>Cancelled orders are excluded</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {report && report.monthly.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Month</TableHead>
+                      <TableHead className="text-right">Orders</TableHead>
+                      <TableHead className="text-right">Sales</TableHead>
+                      <TableHead className="text-right">Margin</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.monthly.map(month => (
+                      <TableRow key={month.month}>
+                        <TableCell>{month.month}</TableCell>
+                        <TableCell className="text-right">{month.orderCount}</TableCell>
+                        <TableCell className="text-right">${month.revenue.toFixed(2)}</TableCell>
+                        <TableCell className="text-right text-green-600">${month.margin.toFixed(2)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-sm text-muted-foreground">No storefront sales yet</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="border-border/50 bg-card/50 backdrop-blur">
+            <CardHeader>
+              <CardTitle>Recent Orders</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {report && report.recentOrders.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Order</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      <TableHead className="text-right">Margin</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.recentOrders.map(order => (
+                      <TableRow key={order.id}>
+                        <TableCell>#{order.id}</TableCell>
+                        <TableCell>{new Date(order.createdAt).toLocaleDateString()}</TableCell>
+                        <TableCell>
+                          <Badge variant={order.status === 'cancelled' ? 'destructive' : 'secondary'} className="capitalize">
+                            {order.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">${order.totalAmount.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">
+                          {order.status === 'cancelled' ? '—' : `$${(order.resellerMargin ?? 0).toFixed(2)}`}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-sm text-muted-foreground">No orders yet</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </>
+  );
+}
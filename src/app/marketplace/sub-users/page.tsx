@@ -0,0 +1,442 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/hooks/use-auth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Users, UserPlus, Pencil, CheckCircle, XCircle, ClipboardCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import Navbar from '@/components/marketplace/navbar';
+
+const MAIN_CATEGORIES = [
+  'Cartridges',
+  'Disposables',
+  'Concentrates',
+  'Edibles',
+  'Flower',
+  'Pre Rolls',
+  'Accessories',
+  'Topicals',
+  'BYOB',
+];
+
+interface SubUser {
+  id: number;
+  username: string;
+  isActive: boolean;
+  monthlyCap: number | null;
+  allowedCategories: string[] | null;
+  approvalThreshold: number | null;
+  spentThisMonth: number;
+  createdAt: string;
+}
+
+interface PendingApproval {
+  id: number;
+  username: string;
+  totalAmount: number;
+  shippingAddress: string | null;
+  createdAt: string;
+  items: Array<{
+    productId: number;
+    productName: string | null;
+    quantity: number;
+    priceAtPurchase: number;
+  }>;
+}
+
+interface LimitsForm {
+  username: string;
+  password: string;
+  monthlyCap: string;
+  approvalThreshold: string;
+  allowedCategories: string[];
+}
+
+const EMPTY_FORM: LimitsForm = {
+  username: '',
+  password: '',
+  monthlyCap: '',
+  approvalThreshold: '',
+  allowedCategories: [],
+};
+
+export default function SubUsersPage() {
+  const { user, isLoading: authLoading } = useAuth();
+  const router = useRouter();
+  const [subUsers, setSubUsers] = useState<SubUser[]>([]);
+  const [approvals, setApprovals] = useState<PendingApproval[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<SubUser | null>(null);
+  const [form, setForm] = useState<LimitsForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [decidingId, setDecidingId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login');
+    } else if (user) {
+      fetchData();
+    }
+  }, [user, authLoading]);
+
+  const authHeaders = (): HeadersInit => {
+    const token = localStorage.getItem('auth_token');
+    return {
+      'Content-Type': 'application/json',
+      ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+    };
+  };
+
+  const fetchData = async () => {
+    try {
+      setIsLoading(true);
+      const [usersRes, approvalsRes] = await Promise.all([
+        fetch(`/api/sub-users?userId=${user?.id}`, { headers: authHeaders() }),
+        fetch(`/api/sub-users/approvals?userId=${user?.id}`, { headers: authHeaders() }),
+      ]);
+
+      if (usersRes.ok) setSubUsers(await usersRes.json());
+      if (approvalsRes.ok) setApprovals(await approvalsRes.json());
+    } catch (error) {
+      console.error('Failed to load sub-users:', error);
+      toast.error('Failed to load sub-users');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (subUser: SubUser) => {
+    setEditing(subUser);
+    setForm({
+      username: subUser.username,
+      password: '',
+      monthlyCap: subUser.monthlyCap?.toString() ?? '',
+      approvalThreshold: subUser.approvalThreshold?.toString() ?? '',
+      allowedCategories: subUser.allowedCategories ?? [],
+    });
+    setDialogOpen(true);
+  };
+
+  const toggleCategory = (category: string, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      allowedCategories: checked
+        ? [...prev.allowedCategories, category]
+        : prev.allowedCategories.filter(c => c !== category),
+    }));
+  };
+
+  const handleSave = async () => {
+    const limits = {
+      monthlyCap: form.monthlyCap.trim() || null,
+      approvalThreshold: form.approvalThreshold.trim() || null,
+      allowedCategories: form.allowedCategories,
+    };
+
+    try {
+      setIsSaving(true);
+      const res = editing
+        ? await fetch(`/api/sub-users/${editing.id}`, {
+            method: 'PUT',
+            headers: authHeaders(),
+            body: JSON.stringify(limits),
+          })
+        : await fetch('/api/sub-users', {
+            method: 'POST',
+            headers: authHeaders(),
+            body: JSON.stringify({ userId: user?.id, username: form.username, password: form.password, ...limits }),
+          });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        toast.error(data.error || 'Failed to save sub-user');
+        return;
+      }
+
+      toast.success(editing ? 'Limits updated' : `Sub-user ${form.username} created. They'll choose a new password on first sign-in.`);
+      setDialogOpen(false);
+      fetchData();
+    } catch (error) {
+      console.error('Failed to save sub-user:', error);
+      toast.error('Failed to save sub-user');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleActive = async (subUser: SubUser) => {
+    try {
+      const res = await fetch(`/api/sub-users/${subUser.id}`, {
+        method: 'PUT',
+        headers: authHeaders(),
+        body: JSON.stringify({ isActive: !subUser.isActive }),
+      });
+
+      if (res.ok) {
+        toast.success(subUser.isActive ? `${subUser.username} suspended` : `${subUser.username} reactivated`);
+        fetchData();
+      } else {
+        toast.error('Failed to update sub-user');
+      }
+    } catch (error) {
+      console.error('Failed to update sub-user:', error);
+      toast.error('Failed to update sub-user');
+    }
+  };
+
+  const decide = async (orderId: number, action: 'approve' | 'reject') => {
+    try {
+      setDecidingId(orderId);
+      const res = await fetch(`/api/sub-users/approvals/${orderId}`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ action }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        toast.error(data.error || 'Failed to update order');
+      } else {
+        toast.success(action === 'approve' ? `Order #${orderId} approved` : `Order #${orderId} rejected and refunded`);
+      }
+      fetchData();
+    } catch (error) {
+      console.error('Failed to decide approval:', error);
+      toast.error('Failed to update order');
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  const formatLimit = (value: number | null) => (value === null ? 'No limit' : `$${value.toFixed(2)}`);
+
+  if (authLoading || isLoading) {
+    return (
+      <>
+        <Navbar />
+        <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Navbar />
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
+        <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h1 className="text-4xl font-bold text-foreground mb-2">Sub-Users</h1>
+              <p className="text-muted-foreground">Accounts that order with your credits, within the limits you set</p>
+            </div>
+            <Button onClick={openCreate}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              Add Sub-User
+            </Button>
+          </div>
+
+          <Card className="border-border/50 bg-card/50 backdrop-blur">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ClipboardCheck className="h-5 w-5" />
+                Waiting for Approval
+                {approvals.length > 0 && <Badge variant="secondary">{approvals.length}</Badge>}
+              </CardTitle>
+              <CardDescription>
+                These orders are already paid from your credits. Rejecting one cancels it and refunds you.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {approvals.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing to approve</p>
+              ) : (
+                approvals.map(order => (
+                  <div key={order.id} className="p-4 border border-border rounded-lg space-y-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <p className="font-semibold">Order #{order.id} · {order.username}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {new Date(order.createdAt).toLocaleString()}
+                          {order.shippingAddress ? ` · ${order.shippingAddress}` : ''}
+                        </p>
+                      </div>
+                      <p className="text-lg font-bold">${order.totalAmount.toFixed(2)}</p>
+                    </div>
+                    <ul className="text-sm text-muted-foreground space-y-1">
+                      {order.items.map(item => (
+                        <li key={`${order.id}-${item.productId}`}>
+                          {item.quantity} × {item.productName || `Product #${item.productId}`} @ ${item.priceAtPurchase.toFixed(2)}
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="flex gap-2">
+                      <Button size="sm" disabled={decidingId === order.id} onClick={() => decide(order.id, 'approve')}>
+                        <CheckCircle className="h-4 w-4 mr-2" />
+                        Approve
+                      </Button>
+                      <Button size="sm" variant="outline" disabled={decidingId === order.id} onClick={() => decide(order.id, 'reject')}>
+                        <XCircle className="h-4 w-4 mr-2" />
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="border-border/50 bg-card/50 backdrop-blur">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                Your Sub-Users
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {subUsers.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No sub-users yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Username</TableHead>
+                      <TableHead>This Month</TableHead>
+                      <TableHead>Approval Over</TableHead>
+                      <TableHead>Categories</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {subUsers.map(subUser => (
+                      <TableRow key={subUser.id}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            {subUser.username}
+                            {!subUser.isActive && <Badge variant="destructive">Suspended</Badge>}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          ${subUser.spentThisMonth.toFixed(2)}
+                          <span className="text-muted-foreground"> / {formatLimit(subUser.monthlyCap)}</span>
+                        </TableCell>
+                        <TableCell>{formatLimit(subUser.approvalThreshold)}</TableCell>
+                        <TableCell className="max-w-[200px] truncate">
+                          {subUser.allowedCategories ? subUser.allowedCategories.join(', ') : 'All'}
+                        </TableCell>
+                        <TableCell className="text-right space-x-2">
+                          <Button variant="outline" size="sm" onClick={() => openEdit(subUser)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => toggleActive(subUser)}>
+                            {subUser.isActive ? 'Suspend' : 'Reactivate'}
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Limits for ${editing.username}` : 'Add Sub-User'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {!editing && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="subUsername">Username</Label>
+                  <Input
+                    id="subUsername"
+                    value={form.username}
+                    onChange={(e) => setForm({ ...form, username: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="subPassword">Temporary Password</Label>
+                  <Input
+                    id="subPassword"
+                    type="password"
+                    value={form.password}
+                    onChange={(e) => setForm({ ...form, password: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground">At least 12 characters. They&apos;ll replace it on first sign-in.</p>
+                </div>
+              </>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="monthlyCap">Monthly Limit ($)</Label>
+                <Input
+                  id="monthlyCap"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="No limit"
+                  value={form.monthlyCap}
+                  onChange={(e) => setForm({ ...form, monthlyCap: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="approvalThreshold">Approve Orders Over ($)</Label>
+                <Input
+                  id="approvalThreshold"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Never"
+                  value={form.approvalThreshold}
+                  onChange={(e) => setForm({ ...form, approvalThreshold: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Allowed Categories</Label>
+              <p className="text-xs text-muted-foreground">Leave all unchecked to allow every category</p>
+              <div className="grid grid-cols-2 gap-2">
+                {MAIN_CATEGORIES.map(category => (
+                  <label key={category} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.allowedCategories.includes(category)}
+                      onCheckedChange={(checked) => toggleCategory(category, checked === true)}
+                    />
+                    {category}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editing ? 'Save Limits' : 'Create Sub-User'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -120,6 +120,8 @@ export default function VerifyDepositPage() {
               <option value="BTC">Bitcoin (BTC)</option>
               <option value="ETH">Ethereum (ETH)</option>
               <option value="DOGE">Dogecoin (DOGE)</option>
+              <option value="USDT">Tether (USDT, ERC-20)</option>
+              <option value="USDC">USD Coin (USDC, ERC-20)</option>
             </select>
           </div>
 
@@ -139,6 +141,7 @@ export default function VerifyDepositPage() {
               {currency === 'BTC' && 'Bitcoin TXIDs are 64 hexadecimal characters'}
               {currency === 'ETH' && 'Ethereum TXIDs start with 0x followed by 64 hex characters'}
               {currency === 'DOGE' && 'Dogecoin TXIDs are 64 hexadecimal characters'}
+              {(currency === 'USDT' || currency === 'USDC') && 'Use the Ethereum TXID of the token transfer: 0x followed by 64 hex characters. Stablecoins are credited 1:1 in USD'}
             </p>
           </div>
 
@@ -0,0 +1,181 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Shield, UserPlus, Server } from 'lucide-react';
+
+export default function SetupPage() {
+  const router = useRouter();
+  const [isChecking, setIsChecking] = useState(true);
+  const [envConfigured, setEnvConfigured] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [formData, setFormData] = useState({
+    username: '',
+    password: '',
+    confirmPassword: '',
+  });
+
+  useEffect(() => {
+    const checkStatus = async () => {
+      try {
+        const response = await fetch('/api/auth/setup');
+        const data = await response.json();
+
+        if (!data.setupRequired) {
+          router.replace('/login');
+          return;
+        }
+
+        setEnvConfigured(data.envConfigured);
+      } catch (error) {
+        console.error('Setup status error:', error);
+      } finally {
+        setIsChecking(false);
+      }
+    };
+
+    checkStatus();
+  }, [router]);
+
+  const submitSetup = async (payload: Record<string, string>) => {
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/setup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+
+      const data = await response.json();
+
+      if (response.ok || data.code === 'SETUP_COMPLETE') {
+        router.replace('/login');
+      } else {
+        setError(data.error || 'Setup failed');
+        setIsLoading(false);
+      }
+    } catch (error) {
+      console.error('Setup error:', error);
+      setError('An error occurred. Please try again.');
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.password !== formData.confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    submitSetup({ username: formData.username, password: formData.password });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted p-4">
+      <div className="w-full max-w-md">
+        <div className="bg-card border border-border rounded-lg shadow-lg p-8">
+          {/* Header */}
+          <div className="text-center mb-8">
+            <div className="inline-flex items-center justify-center w-16 h-16 bg-primary/10 rounded-full mb-4">
+              <Shield className="h-8 w-8 text-primary" />
+            </div>
+            <h1 className="text-2xl font-bold text-foreground">
+              First-Run Setup
+            </h1>
+            <p className="text-sm text-muted-foreground mt-2">
+              Create the administrator account for this marketplace
+            </p>
+          </div>
+
+          {isChecking ? (
+            <p className="text-center text-sm text-muted-foreground">Checking setup status...</p>
+          ) : envConfigured ? (
+            <div className="space-y-4">
+              <p className="text-center text-sm text-muted-foreground">
+                The admin account is configured in the server environment.
+              </p>
+
+              {error && (
+                <div className="bg-destructive/10 border border-destructive text-destructive px-4 py-3 rounded-md text-sm">
+                  {error}
+                </div>
+              )}
+
+              <Button
+                type="button"
+                className="w-full"
+                disabled={isLoading}
+                onClick={() => submitSetup({})}
+              >
+                <Server className="h-4 w-4 mr-2" />
+                {isLoading ? 'Creating Admin...' : 'Use Credentials From Environment'}
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="username">Admin Username</Label>
+                <Input
+                  id="username"
+                  type="text"
+                  placeholder="3-20 characters"
+                  value={formData.username}
+                  onChange={(e) => setFormData({ ...formData, username: e.target.value })}
+                  required
+                  autoComplete="username"
+                  disabled={isLoading}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="At least 12 characters"
+                  value={formData.password}
+                  onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                  required
+                  autoComplete="new-password"
+                  disabled={isLoading}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm Password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  value={formData.confirmPassword}
+                  onChange={(e) => setFormData({ ...formData, confirmPassword: e.target.value })}
+                  required
+                  autoComplete="new-password"
+                  disabled={isLoading}
+                />
+              </div>
+
+              {error && (
+                <div className="bg-destructive/10 border border-destructive text-destructive px-4 py-3 rounded-md text-sm">
+                  {error}
+                </div>
+              )}
+
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                <UserPlus className="h-4 w-4 mr-2" />
+                {isLoading ? 'Creating Admin...' : 'Create Admin Account'}
+              </Button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { Suspense } from 'react';
+import Storefront from './storefront';
+import Navbar from '@/components/marketplace/navbar';
+
+export default async function StorePage({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}) {
+  const { slug } = await params;
+
+  return (
+    <>
+      <Navbar />
+      <Suspense fallback={<div>Loading...</div>}>
+        <Storefront slug={slug} />
+      </Suspense>
+    </>
+  );
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Search, Package, Store } from 'lucide-react';
+
+interface StoreInfo {
+  slug: string;
+  storeName: string;
+  storeLogo: string | null;
+  storeMarkup: number;
+}
+
+interface StoreProduct {
+  id: number;
+  name: string;
+  description: string | null;
+  imageUrl: string | null;
+  mainCategory: string;
+  brand: string | null;
+  volume: string | null;
+  price: number;
+  totalStock: number;
+}
+
+interface StorefrontProps {
+  slug: string;
+}
+
+export default function Storefront({ slug }: StorefrontProps) {
+  const router = useRouter();
+  const [store, setStore] = useState<StoreInfo | null>(null);
+  const [products, setProducts] = useState<StoreProduct[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selectedCategory, setSelectedCategory] = useState('all');
+
+  useEffect(() => {
+    fetchStore();
+  }, [slug]);
+
+  const fetchStore = async () => {
+    setIsLoading(true);
+    try {
+      const [storeRes, productsRes] = await Promise.all([
+        fetch(`/api/store/${encodeURIComponent(slug)}`),
+        fetch(`/api/store/${encodeURIComponent(slug)}/products`),
+      ]);
+
+      if (!storeRes.ok) {
+        setNotFound(true);
+        return;
+      }
+
+      setStore(await storeRes.json());
+      setProducts(productsRes.ok ? await productsRes.json() : []);
+    } catch (error) {
+      console.error('Failed to load store:', error);
+      setNotFound(true);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const categories = [...new Set(products.map(p => p.mainCategory))].sort();
+
+  const filteredProducts = products.filter(product => {
+    const matchesCategory = selectedCategory === 'all' || product.mainCategory === selectedCategory;
+    const matchesSearch = searchQuery === '' ||
+      product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      (product.brand && product.brand.toLowerCase().includes(searchQuery.toLowerCase()));
+    return matchesCategory && matchesSearch;
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-primary border-r-transparent"></div>
+      </div>
+    );
+  }
+
+  if (notFound || !store) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <Store className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h2 className="text-2xl font-bold mb-2">Store not found</h2>
+          <p className="text-muted-foreground">This storefront doesn&apos;t exist or is no longer open.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 pb-20 lg:pb-8">
+      <div className="border-b border-border/50 bg-card/30 backdrop-blur-sm">
+        <div className="max-w-7xl mx-auto px-4 py-8 flex items-center gap-4">
+          {store.storeLogo ? (
+            <img
+              src={store.storeLogo}
+              alt={store.storeName}
+              className="h-16 w-16 object-contain rounded-lg border border-border/50 bg-background"
+            />
+          ) : (
+            <div className="h-16 w-16 rounded-lg border border-border/50 bg-background flex items-center justify-center">
+              <Store className="h-8 w-8 text-primary" />
+            </div>
+          )}
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">{store.storeName}</h1>
+            <p className="text-muted-foreground">{products.length} products available</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        <div className="mb-6">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder={`Search ${store.storeName}...`}
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10 bg-card/50 border-border/50 backdrop-blur"
+            />
+          </div>
+        </div>
+
+        {categories.length > 1 && (
+          <div className="mb-6">
+            <Tabs value={selectedCategory} onValueChange={setSelectedCategory}>
+              <TabsList className="w-full justify-start overflow-x-auto bg-card/50 border border-border/50 backdrop-blur p-1">
+                <TabsTrigger value="all">All Products</TabsTrigger>
+                {categories.map(category => (
+                  <TabsTrigger key={category} value={category} className="whitespace-nowrap">
+                    {category}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+          </div>
+        )}
+
+        {filteredProducts.length === 0 ? (
+          <Card className="border-border/50 bg-card/50 backdrop-blur">
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <Package className="h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-2">No products found</h3>
+              <p className="text-sm text-muted-foreground">Try adjusting your search</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+            {filteredProducts.map(product => (
+              <Card
+                key={product.id}
+                className="group overflow-hidden border-border/50 bg-card/50 backdrop-blur hover:border-primary/50 transition-all duration-300 cursor-pointer"
+                onClick={() => router.push(`/marketplace/product/${product.id}?store=${store.slug}`)}
+              >
+                <div className="relative aspect-square bg-muted/50">
+                  {product.imageUrl ? (
+                    <img
+                      src={product.imageUrl}
+                      alt={product.name}
+                      className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                    />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center">
+                      <Package className="h-8 w-8 text-muted-foreground/50" />
+                    </div>
+                  )}
+                  {product.totalStock === 0 && (
+                    <Badge className="absolute top-1.5 right-1.5 text-xs bg-destructive/90">Out of stock</Badge>
+                  )}
+                </div>
+                <CardContent className="p-3">
+                  {product.brand && (
+                    <p className="text-xs text-muted-foreground truncate">{product.brand}</p>
+                  )}
+                  <h3 className="font-medium text-sm line-clamp-2 min-h-[2.5rem]">{product.name}</h3>
+                  <p className="text-lg font-bold text-primary mt-1">${product.price.toFixed(2)}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/hooks/use-auth';
+import { TwoFactorSettings } from '@/components/auth/two-factor-settings';
+import { ShieldCheck, Shield } from 'lucide-react';
+
+// Accounts where 2FA is mandatory land here until they enroll
+export default function TwoFactorSetupPage() {
+  const { user, isLoading: authLoading } = useAuth();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login');
+    }
+  }, [user, authLoading, router]);
+
+  if (authLoading || !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Shield className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted p-4">
+      <div className="w-full max-w-md">
+        <div className="bg-card border border-border rounded-lg shadow-lg p-8">
+          {/* Header */}
+          <div className="text-center mb-8">
+            <div className="inline-flex items-center justify-center w-16 h-16 bg-primary/10 rounded-full mb-4">
+              <ShieldCheck className="h-8 w-8 text-primary" />
+            </div>
+            <h1 className="text-2xl font-bold text-foreground">
+              Set Up Two-Factor Authentication
+            </h1>
+            <p className="text-sm text-muted-foreground mt-2">
+              Your account needs an authenticator app before you can continue
+            </p>
+          </div>
+
+          <TwoFactorSettings
+            onEnabled={() => {
+              window.location.href = user.role === 'admin' ? '/admin' : '/marketplace';
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
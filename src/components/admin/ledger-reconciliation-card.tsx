@@ -0,0 +1,128 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Loader2, RefreshCw, Scale } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface BalanceDrift {
+  userId: number;
+  username: string;
+  credits: number;
+  ledgerBalance: number;
+  drift: number;
+}
+
+interface ReconciliationReport {
+  id: number;
+  trigger: string;
+  usersChecked: number;
+  openingBalances: number;
+  driftCount: number;
+  totalDrift: number;
+  drifts: BalanceDrift[];
+  runAt: string;
+}
+
+// The latest check of users.credits against the ledger, with any balances that drifted
+export function LedgerReconciliationCard() {
+  const [reports, setReports] = useState<ReconciliationReport[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  useEffect(() => {
+    fetchReports();
+  }, []);
+
+  const authHeaders = (): Record<string, string> => {
+    const token = localStorage.getItem('auth_token');
+    return token ? { 'Authorization': `Bearer ${token}` } : {};
+  };
+
+  const fetchReports = async () => {
+    try {
+      const response = await fetch('/api/admin/ledger-reconciliation', { headers: authHeaders() });
+      if (response.ok) {
+        const data = await response.json();
+        setReports(data.reports);
+      }
+    } catch (error) {
+      console.error('Error fetching reconciliation reports:', error);
+    }
+  };
+
+  const runNow = async () => {
+    setIsRunning(true);
+    try {
+      const response = await fetch('/api/admin/ledger-reconciliation', { method: 'POST', headers: authHeaders() });
+      if (!response.ok) {
+        const error = await response.json();
+        toast.error(error.error || 'Reconciliation failed');
+        return;
+      }
+
+      const report: ReconciliationReport = await response.json();
+      toast.success(report.driftCount === 0
+        ? 'All balances match the ledger'
+        : `${report.driftCount} balance${report.driftCount === 1 ? '' : 's'} drifted from the ledger`);
+      fetchReports();
+    } catch (error) {
+      console.error('Error running reconciliation:', error);
+      toast.error('Reconciliation failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const latest = reports[0];
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base font-semibold flex items-center gap-2">
+            <Scale className="h-4 w-4" />
+            Ledger Reconciliation
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={runNow} disabled={isRunning} className="h-8 text-xs">
+            {isRunning ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <RefreshCw className="h-3 w-3 mr-1" />}
+            Run Now
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {latest ? (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">
+                {new Date(latest.runAt).toLocaleString()} · {latest.trigger} · {latest.usersChecked} users
+                {latest.openingBalances > 0 && ` · ${latest.openingBalances} opening balances`}
+              </span>
+              {latest.driftCount === 0 ? (
+                <Badge variant="outline" className="bg-green-500/10 text-green-600 border-green-500/20">Balanced</Badge>
+              ) : (
+                <Badge variant="outline" className="bg-red-500/10 text-red-600 border-red-500/20">
+                  {latest.driftCount} drifted · ${latest.totalDrift.toFixed(2)}
+                </Badge>
+              )}
+            </div>
+            {latest.drifts.map(drift => (
+              <div key={drift.userId} className="flex items-center justify-between p-2 border border-border rounded-md text-sm">
+                <span className="font-medium">{drift.username}</span>
+                <span className="text-xs text-muted-foreground">
+                  Balance ${drift.credits.toFixed(2)} · Ledger ${drift.ledgerBalance.toFixed(2)} ·{' '}
+                  <span className={drift.drift > 0 ? 'text-red-600' : 'text-orange-600'}>
+                    {drift.drift > 0 ? '+' : ''}{drift.drift.toFixed(2)}
+                  </span>
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-3">No reconciliation has run yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
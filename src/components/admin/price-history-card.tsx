@@ -0,0 +1,172 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartConfig } from '@/components/ui/chart';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface PriceHistoryEntry {
+  id: number;
+  variantType: string | null;
+  variantName: string | null;
+  price: number;
+  previousPrice: number | null;
+  changePercent: number | null;
+  source: string;
+  configName: string | null;
+  username: string | null;
+  isAlert: boolean | null;
+  createdAt: string;
+}
+
+interface PriceHistoryCardProps {
+  productId: string;
+  // Bumped by the page after a save so manual edits show up straight away
+  refreshKey?: number;
+}
+
+const chartConfig = {
+  price: {
+    label: 'Price',
+    color: 'var(--chart-1)',
+  },
+} satisfies ChartConfig;
+
+// The product's own price is the empty key; variants are keyed by type and name
+const seriesKey = (entry: Pick<PriceHistoryEntry, 'variantType' | 'variantName'>) =>
+  entry.variantName ? `${entry.variantType}:${entry.variantName}` : '';
+
+const formatDate = (time: number) => new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+// Step chart of a product's (or one variant's) price over time, with the latest changes listed below
+export function PriceHistoryCard({ productId, refreshKey }: PriceHistoryCardProps) {
+  const [history, setHistory] = useState<PriceHistoryEntry[]>([]);
+  const [series, setSeries] = useState('');
+
+  useEffect(() => {
+    fetchHistory();
+  }, [productId, refreshKey]);
+
+  const fetchHistory = async () => {
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/admin/price-history?productId=${productId}`, {
+        headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+      });
+
+      if (response.ok) {
+        setHistory(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching price history:', error);
+    }
+  };
+
+  const seriesOptions = [...new Map(history.map(entry => [seriesKey(entry), entry])).values()];
+  const entries = history.filter(entry => seriesKey(entry) === series);
+
+  // The price holds until the next change, so the line runs on to today
+  const chartData = entries.map(entry => ({ time: new Date(entry.createdAt).getTime(), price: entry.price }));
+  if (chartData.length > 0) {
+    chartData.push({ time: Date.now(), price: chartData[chartData.length - 1].price });
+  }
+
+  const changes = entries.filter(entry => entry.previousPrice !== null).reverse().slice(0, 10);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle>Price History</CardTitle>
+          {seriesOptions.length > 1 && (
+            <Select value={series || 'product'} onValueChange={(value) => setSeries(value === 'product' ? '' : value)}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {seriesOptions.map(option => {
+                  const key = seriesKey(option);
+                  return (
+                    <SelectItem key={key || 'product'} value={key || 'product'}>
+                      {key ? `${option.variantType}: ${option.variantName}` : 'Product price'}
+                    </SelectItem>
+                  );
+                })}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No price changes recorded yet</p>
+        ) : (
+          <>
+            <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+              <LineChart data={chartData} margin={{ left: 8, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  scale="time"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={formatDate}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <YAxis
+                  tickFormatter={(value: number) => `$${value}`}
+                  tickLine={false}
+                  axisLine={false}
+                  width={56}
+                  domain={['auto', 'auto']}
+                />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) => new Date(payload[0]?.payload.time).toLocaleString()}
+                      formatter={(value) => `$${Number(value).toFixed(2)}`}
+                    />
+                  }
+                />
+                <Line dataKey="price" type="stepAfter" stroke="var(--color-price)" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartContainer>
+
+            {changes.length > 0 && (
+              <div className="space-y-2 mt-4 pt-4 border-t">
+                {changes.map(change => (
+                  <div key={change.id} className="flex items-start justify-between gap-4 text-sm">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="capitalize">{change.source}</Badge>
+                        {change.isAlert && <Badge variant="destructive">Alert</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {new Date(change.createdAt).toLocaleString()}
+                        {change.configName && ` · ${change.configName}`}
+                        {change.username && ` · ${change.username}`}
+                      </p>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <p className="font-semibold">
+                        ${change.previousPrice!.toFixed(2)} → ${change.price.toFixed(2)}
+                      </p>
+                      {change.changePercent !== null && (
+                        <p className={`text-xs ${change.changePercent > 0 ? 'text-destructive' : 'text-green-600'}`}>
+                          {change.changePercent > 0 ? '+' : ''}{change.changePercent}%
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,133 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+interface OfferVariant {
+  variantType: string;
+  variantName: string;
+  price: number;
+  stockQuantity: number;
+}
+
+interface SupplierOffer {
+  id: number;
+  apiConfigId: number;
+  configName: string | null;
+  sourceId: string;
+  name: string;
+  price: number;
+  stockQuantity: number;
+  isAvailable: boolean | null;
+  variants: OfferVariant[];
+  lastSeenAt: string;
+  isBest: boolean;
+}
+
+interface OfferSummary {
+  offers: SupplierOffer[];
+  variants: Array<OfferVariant & { apiConfigId: number }>;
+}
+
+interface SupplierOffersCardProps {
+  productId: string;
+  refreshKey?: number;
+}
+
+// Every supplier listing linked to the product, with the source picked for its price and each variant
+export function SupplierOffersCard({ productId, refreshKey }: SupplierOffersCardProps) {
+  const [summary, setSummary] = useState<OfferSummary>({ offers: [], variants: [] });
+
+  useEffect(() => {
+    fetchOffers();
+  }, [productId, refreshKey]);
+
+  const fetchOffers = async () => {
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/admin/product-offers?productId=${productId}`, {
+        headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+      });
+
+      if (response.ok) {
+        setSummary(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching supplier offers:', error);
+    }
+  };
+
+  // A single offer is just the product's own source; nothing to compare
+  if (summary.offers.length < 2) {
+    return null;
+  }
+
+  const supplierName = (apiConfigId: number) =>
+    summary.offers.find(offer => offer.apiConfigId === apiConfigId)?.configName ?? `Config #${apiConfigId}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Supplier Offers ({summary.offers.length})</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Supplier</TableHead>
+              <TableHead>Listing</TableHead>
+              <TableHead className="text-right">Price</TableHead>
+              <TableHead className="text-right">Stock</TableHead>
+              <TableHead>Last Seen</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {summary.offers.map(offer => (
+              <TableRow key={offer.id}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{offer.configName ?? `Config #${offer.apiConfigId}`}</span>
+                    {offer.isBest && <Badge>Best</Badge>}
+                    {!offer.isAvailable && <Badge variant="secondary">Unavailable</Badge>}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <p className="text-sm">{offer.name}</p>
+                  <p className="text-xs text-muted-foreground">ID: {offer.sourceId}</p>
+                </TableCell>
+                <TableCell className="text-right">${offer.price.toFixed(2)}</TableCell>
+                <TableCell className="text-right">{offer.stockQuantity}</TableCell>
+                <TableCell className="text-xs text-muted-foreground">
+                  {new Date(offer.lastSeenAt).toLocaleString()}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {summary.variants.length > 0 && (
+          <div className="pt-4 border-t">
+            <p className="text-sm font-medium mb-2">Variant Sources</p>
+            <div className="space-y-1">
+              {summary.variants.map(variant => (
+                <div key={`${variant.variantType}:${variant.variantName}`} className="flex items-center justify-between text-sm">
+                  <span>
+                    {variant.variantType}: {variant.variantName}
+                    {variant.stockQuantity <= 0 && (
+                      <span className="text-xs text-muted-foreground ml-2">(out of stock everywhere)</span>
+                    )}
+                  </span>
+                  <span className="text-muted-foreground">
+                    ${variant.price.toFixed(2)} from {supplierName(variant.apiConfigId)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,8 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { Loader2, CheckCircle2, XCircle, AlertTriangle, Package } from 'lucide-react';
+import { Loader2, CheckCircle2, XCircle, AlertTriangle, Package, Ban } from 'lucide-react';
+import { toast } from 'sonner';
 import {
   Dialog,
   DialogContent,
@@ -14,22 +15,32 @@ import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Button } from '@/components/ui/button';
 
+// Mirrors the sync job record returned by sync-progress
 interface SyncProgress {
+  id: number | null;
+  status: 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
   stage: 'fetching' | 'parsing' | 'processing' | 'complete' | 'error';
   totalProducts: number;
   processedProducts: number;
   createdProducts: number;
   updatedProducts: number;
-  currentProduct?: {
+  discontinuedProducts: number;
+  discontinuedVariants: number;
+  currentProduct: {
     name: string;
     category: string;
     action: 'create' | 'update';
-  };
+  } | null;
   errors: string[];
   warnings: string[];
-  message: string;
+  message: string | null;
+  attempts: number;
+  cancelRequested: boolean;
+  stale: boolean;
 }
 
+const FINISHED_STATUSES: SyncProgress['status'][] = ['succeeded', 'failed', 'cancelled'];
+
 interface SyncProgressDialogProps {
   open: boolean;
   configId: number | null;
@@ -39,15 +50,27 @@ interface SyncProgressDialogProps {
 
 export function SyncProgressDialog({ open, configId, configName, onClose }: SyncProgressDialogProps) {
   const [progress, setProgress] = useState<SyncProgress>({
+    id: null,
+    status: 'queued',
     stage: 'fetching',
     totalProducts: 0,
     processedProducts: 0,
     createdProducts: 0,
     updatedProducts: 0,
+    discontinuedProducts: 0,
+    discontinuedVariants: 0,
+    currentProduct: null,
     errors: [],
     warnings: [],
     message: 'Initializing sync...',
+    attempts: 0,
+    cancelRequested: false,
+    stale: false,
   });
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [isResuming, setIsResuming] = useState(false);
+
+  const isFinished = FINISHED_STATUSES.includes(progress.status);
 
   useEffect(() => {
     if (!open || !configId) return;
@@ -71,17 +94,68 @@ export function SyncProgressDialog({ open, configId, configName, onClose }: Sync
     // Initial fetch
     pollProgress();
 
-    // Poll every 500ms for updates
+    // Poll every 500ms until the job finishes
+    if (isFinished) return;
     const interval = setInterval(pollProgress, 500);
 
     return () => clearInterval(interval);
-  }, [open, configId]);
+  }, [open, configId, isFinished]);
+
+  const handleCancel = async () => {
+    if (!progress.id) return;
+    setIsCancelling(true);
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/admin/sync-jobs/${progress.id}/cancel`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setProgress(data.job);
+      } else {
+        toast.error(data.error || 'Failed to cancel sync');
+      }
+    } catch (error) {
+      console.error('Failed to cancel sync:', error);
+      toast.error('Failed to cancel sync');
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  // Re-posting the sync picks an interrupted job back up from its last checkpoint
+  const handleResume = async () => {
+    if (!configId) return;
+    setIsResuming(true);
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/admin/api-configs/${configId}/sync`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setProgress(data.job);
+      } else {
+        toast.error(data.error || 'Failed to resume sync');
+      }
+    } catch (error) {
+      console.error('Failed to resume sync:', error);
+      toast.error('Failed to resume sync');
+    } finally {
+      setIsResuming(false);
+    }
+  };
 
   const progressPercentage = progress.totalProducts > 0 
     ? Math.round((progress.processedProducts / progress.totalProducts) * 100)
     : 0;
 
   const getStageIcon = () => {
+    if (progress.status === 'cancelled') {
+      return <Ban className="h-6 w-6 text-muted-foreground" />;
+    }
     switch (progress.stage) {
       case 'complete':
         return <CheckCircle2 className="h-6 w-6 text-green-500" />;
@@ -93,6 +167,9 @@ export function SyncProgressDialog({ open, configId, configName, onClose }: Sync
   };
 
   const getStageLabel = () => {
+    if (progress.status === 'cancelled') return 'Sync cancelled';
+    if (progress.stale) return 'Sync was interrupted';
+    if (progress.status === 'queued') return 'Waiting to start...';
     switch (progress.stage) {
       case 'fetching':
         return 'Fetching data...';
@@ -110,7 +187,7 @@ export function SyncProgressDialog({ open, configId, configName, onClose }: Sync
   };
 
   return (
-    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && progress.stage === 'complete' && onClose()}>
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && isFinished && onClose()}>
       <DialogContent className="sm:max-w-2xl">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
@@ -137,7 +214,7 @@ export function SyncProgressDialog({ open, configId, configName, onClose }: Sync
           </div>
 
           {/* Stats */}
-          <div className="grid grid-cols-2 gap-4">
+          <div className="grid grid-cols-3 gap-4">
             <div className="border rounded-lg p-3">
               <div className="text-2xl font-bold text-green-600">
                 {progress.createdProducts}
@@ -150,10 +227,19 @@ export function SyncProgressDialog({ open, configId, configName, onClose }: Sync
               </div>
               <div className="text-xs text-muted-foreground">Updated</div>
             </div>
+            <div className="border rounded-lg p-3">
+              <div className="text-2xl font-bold text-orange-600">
+                {progress.discontinuedProducts}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                Discontinued
+                {progress.discontinuedVariants > 0 && ` (+${progress.discontinuedVariants} variants)`}
+              </div>
+            </div>
           </div>
 
           {/* Current Product */}
-          {progress.currentProduct && progress.stage === 'processing' && (
+          {progress.currentProduct && progress.status === 'running' && (
             <div className="border rounded-lg p-3 bg-blue-50 dark:bg-blue-950">
               <div className="flex items-center gap-2 mb-1">
                 <Package className="h-4 w-4 text-blue-600" />
@@ -172,6 +258,7 @@ export function SyncProgressDialog({ open, configId, configName, onClose }: Sync
           {/* Status Message */}
           <div className="text-sm text-muted-foreground">
             {progress.message}
+            {progress.attempts > 1 && ` (attempt ${progress.attempts})`}
           </div>
 
           {/* Warnings */}
@@ -217,13 +304,27 @@ export function SyncProgressDialog({ open, configId, configName, onClose }: Sync
           )}
 
           {/* Actions */}
-          {(progress.stage === 'complete' || progress.stage === 'error') && (
-            <div className="flex justify-end">
+          <div className="flex justify-end gap-2">
+            {progress.stale && (
+              <Button variant="outline" onClick={handleResume} disabled={isResuming}>
+                {isResuming ? 'Resuming...' : 'Resume'}
+              </Button>
+            )}
+            {!isFinished && progress.id && (
+              <Button
+                variant="outline"
+                onClick={handleCancel}
+                disabled={isCancelling || progress.cancelRequested}
+              >
+                {progress.cancelRequested ? 'Cancelling...' : 'Cancel Sync'}
+              </Button>
+            )}
+            {(isFinished || progress.stale) && (
               <Button onClick={onClose}>
                 Close
               </Button>
-            </div>
-          )}
+            )}
+          </div>
         </div>
       </DialogContent>
     </Dialog>
@@ -1,11 +1,38 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Shield, LogIn } from 'lucide-react';
+import { Shield, LogIn, ShieldCheck } from 'lucide-react';
+import { parseLegacyCart } from '@/lib/cart';
+
+// Carts used to live in localStorage; fold any left on this device into the account's cart
+export async function mergeDeviceCart(userId: number, token: string) {
+  const items = parseLegacyCart(localStorage.getItem('cart'));
+  if (items.length === 0) {
+    localStorage.removeItem('cart');
+    return;
+  }
+
+  try {
+    const response = await fetch('/api/cart/merge', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ userId, items }),
+    });
+
+    if (response.ok) {
+      localStorage.removeItem('cart');
+    }
+  } catch (error) {
+    console.error('Cart merge error:', error);
+  }
+}
 
 export function LoginForm() {
   const router = useRouter();
@@ -15,6 +42,46 @@ export function LoginForm() {
     password: '',
   });
   const [error, setError] = useState('');
+  // Set once the password is accepted for an account with 2FA; the form then asks for the code
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+
+  // Until the first admin exists there is nobody to log in as
+  useEffect(() => {
+    fetch('/api/auth/setup')
+      .then(res => res.ok ? res.json() : null)
+      .then(data => {
+        if (data?.setupRequired) {
+          router.replace('/setup');
+        }
+      })
+      .catch(error => console.error('Setup status error:', error));
+  }, [router]);
+
+  const completeLogin = async (data: any) => {
+    // Store auth token
+    localStorage.setItem('auth_token', data.token);
+
+    // Everything else is blocked until the password is changed; the cart merges afterwards
+    if (data.user.mustChangePassword) {
+      window.location.href = '/change-password';
+      return;
+    }
+
+    if (data.user.twoFactorSetupRequired) {
+      window.location.href = '/two-factor-setup';
+      return;
+    }
+
+    await mergeDeviceCart(data.user.id, data.token);
+    
+    // Force redirect using window.location for better compatibility
+    if (data.user.role === 'admin') {
+      window.location.href = '/admin';
+    } else {
+      window.location.href = '/marketplace';
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -22,30 +89,41 @@ export function LoginForm() {
     setIsLoading(true);
 
     try {
-      const response = await fetch('/api/auth/login', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          username: formData.username,
-          password: formData.password,
-        }),
-      });
+      const response = challengeToken
+        ? await fetch('/api/auth/login/two-factor', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              challengeToken,
+              code: twoFactorCode,
+            }),
+          })
+        : await fetch('/api/auth/login', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              username: formData.username,
+              password: formData.password,
+            }),
+          });
 
       const data = await response.json();
 
-      if (response.ok) {
-        // Store auth token
-        localStorage.setItem('auth_token', data.token);
-        
-        // Force redirect using window.location for better compatibility
-        if (data.user.role === 'admin') {
-          window.location.href = '/admin';
-        } else {
-          window.location.href = '/marketplace';
-        }
+      if (response.ok && data.requiresTwoFactor) {
+        setChallengeToken(data.challengeToken);
+        setTwoFactorCode('');
+        setIsLoading(false);
+      } else if (response.ok) {
+        await completeLogin(data);
       } else {
+        // The challenge expired or ran out of attempts; start over from the password
+        if (data.code === 'INVALID_CHALLENGE') {
+          setChallengeToken(null);
+        }
         setError(data.error || 'Login failed');
         setIsLoading(false);
       }
@@ -56,6 +134,67 @@ export function LoginForm() {
     }
   };
 
+  if (challengeToken) {
+    return (
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="twoFactorCode">Authentication Code</Label>
+          <Input
+            id="twoFactorCode"
+            type="text"
+            placeholder="6-digit code or recovery code"
+            value={twoFactorCode}
+            onChange={(e) => setTwoFactorCode(e.target.value)}
+            required
+            autoFocus
+            autoComplete="one-time-code"
+            disabled={isLoading}
+          />
+          <p className="text-xs text-muted-foreground">
+            Enter the code from your authenticator app, or one of your recovery codes
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-destructive/10 border border-destructive text-destructive px-4 py-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={isLoading}
+        >
+          {isLoading ? (
+            <>
+              <Shield className="h-4 w-4 mr-2 animate-spin" />
+              Verifying...
+            </>
+          ) : (
+            <>
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              Verify
+            </>
+          )}
+        </Button>
+
+        <Button
+          type="button"
+          variant="ghost"
+          className="w-full"
+          onClick={() => {
+            setChallengeToken(null);
+            setError('');
+          }}
+          disabled={isLoading}
+        >
+          Back
+        </Button>
+      </form>
+    );
+  }
+
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       <div className="space-y-2">
@@ -0,0 +1,269 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, ShieldCheck, Copy, Check, KeyRound } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface PendingSetup {
+  secret: string;
+  qrCodeDataUrl: string;
+}
+
+function authRequest(url: string, method: string, body?: unknown) {
+  const token = localStorage.getItem('auth_token');
+
+  return fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+}
+
+interface TwoFactorSettingsProps {
+  // Called once the recovery codes from a fresh enrollment have been acknowledged
+  onEnabled?: () => void;
+}
+
+export function TwoFactorSettings({ onEnabled }: TwoFactorSettingsProps) {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [pendingSetup, setPendingSetup] = useState<PendingSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [copiedCodes, setCopiedCodes] = useState(false);
+  const [justEnabled, setJustEnabled] = useState(false);
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const fetchStatus = async () => {
+    try {
+      const res = await authRequest('/api/auth/two-factor', 'GET');
+      if (res.ok) {
+        setStatus(await res.json());
+      }
+    } catch (error) {
+      console.error('Failed to load two-factor status:', error);
+    }
+  };
+
+  const runAction = async (url: string, method: string, body: unknown, onSuccess: (data: any) => void) => {
+    try {
+      setIsWorking(true);
+      const res = await authRequest(url, method, body);
+      const data = await res.json();
+
+      if (res.ok) {
+        onSuccess(data);
+      } else {
+        toast.error(data.error || 'Request failed');
+      }
+    } catch (error) {
+      console.error('Two-factor request failed:', error);
+      toast.error('Request failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleStartSetup = () => runAction('/api/auth/two-factor/setup', 'POST', {}, (data) => {
+    setPendingSetup({ secret: data.secret, qrCodeDataUrl: data.qrCodeDataUrl });
+    setCode('');
+  });
+
+  const handleVerify = () => runAction('/api/auth/two-factor/verify', 'POST', { code }, (data) => {
+    setPendingSetup(null);
+    setRecoveryCodes(data.recoveryCodes);
+    setJustEnabled(true);
+    setCode('');
+    fetchStatus();
+    toast.success('Two-factor authentication enabled');
+  });
+
+  const handleRegenerateCodes = () => runAction('/api/auth/two-factor/recovery-codes', 'POST', { code }, (data) => {
+    setRecoveryCodes(data.recoveryCodes);
+    setCode('');
+    fetchStatus();
+  });
+
+  const handleDisable = () => {
+    if (!confirm('Turn off two-factor authentication for this account?')) return;
+
+    runAction('/api/auth/two-factor', 'DELETE', { password, code }, () => {
+      setPassword('');
+      setCode('');
+      fetchStatus();
+      toast.success('Two-factor authentication disabled');
+    });
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      setCopiedCodes(true);
+      setTimeout(() => setCopiedCodes(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy recovery codes:', error);
+    }
+  };
+
+  const handleAcknowledgeCodes = () => {
+    setRecoveryCodes(null);
+    if (justEnabled) {
+      setJustEnabled(false);
+      onEnabled?.();
+    }
+  };
+
+  if (!status) {
+    return <Loader2 className="h-5 w-5 animate-spin text-primary" />;
+  }
+
+  // Recovery codes are shown exactly once, right after they are generated
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator app. They won't be shown again.
+        </p>
+        <div className="grid grid-cols-2 gap-2 p-4 rounded-md border bg-muted/50 font-mono text-sm">
+          {recoveryCodes.map((recoveryCode) => (
+            <span key={recoveryCode}>{recoveryCode}</span>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleCopyCodes} className="flex-1">
+            {copiedCodes ? <Check className="h-4 w-4 mr-2 text-green-500" /> : <Copy className="h-4 w-4 mr-2" />}
+            Copy Codes
+          </Button>
+          <Button onClick={handleAcknowledgeCodes} className="flex-1">
+            I've Saved These Codes
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (pendingSetup) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+        </p>
+        <div className="flex justify-center">
+          <img src={pendingSetup.qrCodeDataUrl} alt="Two-factor QR code" className="h-48 w-48 rounded-md border bg-white p-2" />
+        </div>
+        <div className="space-y-1">
+          <Label>Can't scan? Enter this key manually</Label>
+          <p className="font-mono text-sm break-all p-2 rounded-md border bg-muted/50">{pendingSetup.secret}</p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="totp-verify-code">Authentication Code</Label>
+          <Input
+            id="totp-verify-code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            placeholder="123456"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            className="bg-background/50"
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setPendingSetup(null)} disabled={isWorking} className="flex-1">
+            Cancel
+          </Button>
+          <Button onClick={handleVerify} disabled={isWorking || !code} className="flex-1">
+            {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Verify & Enable
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!status.enabled) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {status.required
+            ? 'Two-factor authentication is required for your account.'
+            : 'Add a second step to sign-in using an authenticator app such as Google Authenticator or Authy.'}
+        </p>
+        <Button onClick={handleStartSetup} disabled={isWorking} className="w-full">
+          {isWorking ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ShieldCheck className="h-4 w-4 mr-2" />}
+          Set Up Two-Factor Authentication
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Badge className="gap-1">
+          <ShieldCheck className="h-3 w-3" />
+          Enabled
+        </Badge>
+        <span className="text-sm text-muted-foreground">
+          {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="totp-manage-code">Authentication Code</Label>
+        <Input
+          id="totp-manage-code"
+          autoComplete="one-time-code"
+          placeholder="Code from your app or a recovery code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          className="bg-background/50"
+        />
+      </div>
+
+      {!status.required && (
+        <div className="space-y-2">
+          <Label htmlFor="totp-manage-password">Password (to disable)</Label>
+          <Input
+            id="totp-manage-password"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="bg-background/50"
+          />
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={handleRegenerateCodes} disabled={isWorking || !code} className="flex-1">
+          <KeyRound className="h-4 w-4 mr-2" />
+          New Recovery Codes
+        </Button>
+        {!status.required && (
+          <Button variant="destructive" onClick={handleDisable} disabled={isWorking || !code || !password} className="flex-1">
+            Disable
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
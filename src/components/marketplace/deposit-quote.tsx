@@ -0,0 +1,114 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Loader2, RefreshCw, Timer } from 'lucide-react';
+
+export interface QuotedDeposit {
+  status: string;
+  cryptocurrency: string;
+  quotedUsd: number | null;
+  expectedAmount: number | null;
+  quoteRate: number | null;
+  quoteExpiresAt: string | null;
+  quoteStatus: string | null;
+  paymentSeenAt: string | null;
+}
+
+interface DepositQuoteProps {
+  deposit: QuotedDeposit;
+  onRefresh?: () => void;
+  isRefreshing?: boolean;
+}
+
+const QUOTE_STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  paid: { label: 'Paid in Full', className: 'bg-green-500/10 text-green-600 border-green-500/20' },
+  underpaid: { label: 'Underpaid', className: 'bg-orange-500/10 text-orange-600 border-orange-500/20' },
+  overpaid: { label: 'Overpaid', className: 'bg-blue-500/10 text-blue-600 border-blue-500/20' },
+  expired: { label: 'Quote Expired', className: 'bg-red-500/10 text-red-600 border-red-500/20' },
+};
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+// The USD quote a deposit locked, with a countdown until it expires
+export function DepositQuote({ deposit, onRefresh, isRefreshing }: DepositQuoteProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  const expiresAt = deposit.quoteExpiresAt ? new Date(deposit.quoteExpiresAt).getTime() : null;
+  const isWaiting = deposit.status === 'pending' && !deposit.paymentSeenAt && expiresAt !== null;
+
+  useEffect(() => {
+    if (!isWaiting) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isWaiting]);
+
+  // Deposits from before quotes have nothing to show
+  if (deposit.quotedUsd === null || deposit.expectedAmount === null || deposit.quoteRate === null) {
+    return null;
+  }
+
+  const currency = deposit.cryptocurrency.toUpperCase();
+  const remaining = expiresAt !== null ? expiresAt - now : 0;
+  const hasLapsed = isWaiting && remaining <= 0;
+  const statusKey = hasLapsed ? 'expired' : deposit.quoteStatus;
+  const status = statusKey ? QUOTE_STATUS_LABELS[statusKey] : undefined;
+
+  return (
+    <div className="border rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">Locked Quote</p>
+        {status && (
+          <Badge variant="outline" className={status.className}>{status.label}</Badge>
+        )}
+      </div>
+      <p className="text-sm">
+        <span className="font-semibold">${deposit.quotedUsd.toFixed(2)}</span> ={' '}
+        <span className="font-mono font-semibold">{deposit.expectedAmount.toFixed(8)} {currency}</span>
+        <span className="text-muted-foreground"> at ${deposit.quoteRate.toFixed(2)}/{currency}</span>
+      </p>
+
+      {isWaiting && !hasLapsed && (
+        <div className="flex items-center gap-2 text-sm">
+          <Timer className="w-4 h-4 text-primary" />
+          <span>Rate locked for <span className="font-mono font-semibold">{formatRemaining(remaining)}</span></span>
+        </div>
+      )}
+
+      {hasLapsed && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            Payments seen after the quote expires are credited at the rate when they confirm.
+          </p>
+          {onRefresh && (
+            <Button size="sm" variant="outline" className="w-full" onClick={onRefresh} disabled={isRefreshing}>
+              {isRefreshing ? (
+                <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+              ) : (
+                <RefreshCw className="mr-2 h-3 w-3" />
+              )}
+              Get a New Quote
+            </Button>
+          )}
+        </div>
+      )}
+
+      {deposit.quoteStatus === 'underpaid' && (
+        <p className="text-xs text-muted-foreground">
+          Less than the quoted amount arrived; you are credited for what was sent at the locked rate.
+        </p>
+      )}
+      {deposit.quoteStatus === 'overpaid' && (
+        <p className="text-xs text-muted-foreground">
+          More than the quoted amount arrived; all of it is credited at the locked rate.
+        </p>
+      )}
+    </div>
+  );
+}
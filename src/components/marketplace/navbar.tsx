@@ -20,6 +20,7 @@ import {
 import { useAuth } from '@/hooks/use-auth';
 import { useEffect, useState } from 'react';
 import CryptoTicker from '@/components/marketplace/crypto-ticker';
+import { NotificationsBell } from '@/components/marketplace/notifications-bell';
 
 export default function Navbar() {
   const router = useRouter();
@@ -50,13 +51,8 @@ export default function Navbar() {
     }
   };
 
-  const handleLogout = async () => {
-    try {
-      await fetch('/api/auth/logout', { method: 'POST' });
-      logout();
-    } catch (error) {
-      console.error('Logout failed:', error);
-    }
+  const handleLogout = () => {
+    logout();
   };
 
   const handleNavigation = (path: string) => {
@@ -149,6 +145,8 @@ export default function Navbar() {
                 <span>Rewards Store</span>
               </Button>
 
+              {user && <NotificationsBell userId={user.id} />}
+
               {/* Settings/Menu Dropdown */}
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
@@ -212,121 +210,125 @@ export default function Navbar() {
               <span className="text-base font-bold text-foreground">Marketplace</span>
             </div>
 
-            {/* Menu Button */}
-            <Sheet open={mobileMenuOpen} onOpenChange={setMobileMenuOpen}>
-              <SheetTrigger asChild>
-                <Button variant="ghost" size="sm">
-                  <Menu className="h-5 w-5" />
-                </Button>
-              </SheetTrigger>
-              <SheetContent side="right" className="w-[280px]">
-                <SheetHeader className="mb-4">
-                  <SheetTitle className="text-left">Menu</SheetTitle>
-                </SheetHeader>
-
-                <div className="flex flex-col gap-1">
-                  <Button
-                    variant="ghost"
-                    className="w-full justify-start gap-3 h-11"
-                    onClick={() => handleNavigation('/marketplace')}
-                  >
-                    <Home className="h-5 w-5" />
-                    <span>Home</span>
-                  </Button>
+            <div className="flex items-center gap-1">
+              {user && <NotificationsBell userId={user.id} />}
 
-                  <Button
-                    variant="ghost"
-                    className="w-full justify-start gap-3 h-11"
-                    onClick={() => handleNavigation('/marketplace/browse')}
-                  >
-                    <Store className="h-5 w-5" />
-                    <span>View Products</span>
+              {/* Menu Button */}
+              <Sheet open={mobileMenuOpen} onOpenChange={setMobileMenuOpen}>
+                <SheetTrigger asChild>
+                  <Button variant="ghost" size="sm">
+                    <Menu className="h-5 w-5" />
                   </Button>
+                </SheetTrigger>
+                <SheetContent side="right" className="w-[280px]">
+                  <SheetHeader className="mb-4">
+                    <SheetTitle className="text-left">Menu</SheetTitle>
+                  </SheetHeader>
 
-                  <Button
-                    variant="ghost"
-                    className="w-full justify-start gap-3 h-11"
-                    onClick={() => handleNavigation('/marketplace/cart')}
-                  >
-                    <ShoppingCart className="h-5 w-5" />
-                    <span>Shopping Cart</span>
-                  </Button>
+                  <div className="flex flex-col gap-1">
+                    <Button
+                      variant="ghost"
+                      className="w-full justify-start gap-3 h-11"
+                      onClick={() => handleNavigation('/marketplace')}
+                    >
+                      <Home className="h-5 w-5" />
+                      <span>Home</span>
+                    </Button>
 
-                  <Button
-                    variant="ghost"
-                    className="w-full justify-start gap-3 h-11"
-                    onClick={() => handleNavigation('/marketplace/orders')}
-                  >
-                    <Package className="h-5 w-5" />
-                    <span>My Orders</span>
-                  </Button>
+                    <Button
+                      variant="ghost"
+                      className="w-full justify-start gap-3 h-11"
+                      onClick={() => handleNavigation('/marketplace/browse')}
+                    >
+                      <Store className="h-5 w-5" />
+                      <span>View Products</span>
+                    </Button>
 
-                  <Button
-                    variant="ghost"
-                    className="w-full justify-start gap-3 h-11"
-                    onClick={() => handleNavigation('/marketplace/rewards')}
-                  >
-                    <Award className="h-5 w-5" />
-                    <span>Rewards</span>
-                  </Button>
+                    <Button
+                      variant="ghost"
+                      className="w-full justify-start gap-3 h-11"
+                      onClick={() => handleNavigation('/marketplace/cart')}
+                    >
+                      <ShoppingCart className="h-5 w-5" />
+                      <span>Shopping Cart</span>
+                    </Button>
 
-                  <Button
-                    variant="ghost"
-                    className="w-full justify-start gap-3 h-11"
-                    onClick={() => handleNavigation('/marketplace/verify-deposit')}
-                  >
-                    <CheckCircle className="h-5 w-5" />
-                    <span>Verified Deposit</span>
-                  </Button>
+                    <Button
+                      variant="ghost"
+                      className="w-full justify-start gap-3 h-11"
+                      onClick={() => handleNavigation('/marketplace/orders')}
+                    >
+                      <Package className="h-5 w-5" />
+                      <span>My Orders</span>
+                    </Button>
 
-                  <Button
-                    variant="ghost"
-                    className="w-full justify-start gap-3 h-11"
-                    onClick={() => handleNavigation('/marketplace/settings')}
-                  >
-                    <Settings className="h-5 w-5" />
-                    <span>Settings</span>
-                  </Button>
+                    <Button
+                      variant="ghost"
+                      className="w-full justify-start gap-3 h-11"
+                      onClick={() => handleNavigation('/marketplace/rewards')}
+                    >
+                      <Award className="h-5 w-5" />
+                      <span>Rewards</span>
+                    </Button>
 
-                  <Button
-                    variant="ghost"
-                    className="w-full justify-start gap-3 h-11"
-                    onClick={() => handleNavigation('/marketplace/support')}
-                  >
-                    <HelpCircle className="h-5 w-5" />
-                    <span>Support</span>
-                  </Button>
+                    <Button
+                      variant="ghost"
+                      className="w-full justify-start gap-3 h-11"
+                      onClick={() => handleNavigation('/marketplace/verify-deposit')}
+                    >
+                      <CheckCircle className="h-5 w-5" />
+                      <span>Verified Deposit</span>
+                    </Button>
 
-                  {isAdmin && (
-                    <>
-                      <div className="border-t border-border/50 my-2" />
-                      <Button
-                        variant="ghost"
-                        className="w-full justify-start gap-3 h-11"
-                        onClick={() => handleNavigation('/admin')}
-                      >
-                        <Shield className="h-5 w-5" />
-                        <span>Admin Dashboard</span>
-                      </Button>
-                    </>
-                  )}
+                    <Button
+                      variant="ghost"
+                      className="w-full justify-start gap-3 h-11"
+                      onClick={() => handleNavigation('/marketplace/settings')}
+                    >
+                      <Settings className="h-5 w-5" />
+                      <span>Settings</span>
+                    </Button>
 
-                  <div className="border-t border-border/50 my-2" />
-
-                  <Button
-                    variant="ghost"
-                    className="w-full justify-start gap-3 h-11 text-destructive hover:text-destructive"
-                    onClick={() => {
-                      setMobileMenuOpen(false);
-                      handleLogout();
-                    }}
-                  >
-                    <LogOut className="h-5 w-5" />
-                    <span>Logout</span>
-                  </Button>
-                </div>
-              </SheetContent>
-            </Sheet>
+                    <Button
+                      variant="ghost"
+                      className="w-full justify-start gap-3 h-11"
+                      onClick={() => handleNavigation('/marketplace/support')}
+                    >
+                      <HelpCircle className="h-5 w-5" />
+                      <span>Support</span>
+                    </Button>
+
+                    {isAdmin && (
+                      <>
+                        <div className="border-t border-border/50 my-2" />
+                        <Button
+                          variant="ghost"
+                          className="w-full justify-start gap-3 h-11"
+                          onClick={() => handleNavigation('/admin')}
+                        >
+                          <Shield className="h-5 w-5" />
+                          <span>Admin Dashboard</span>
+                        </Button>
+                      </>
+                    )}
+
+                    <div className="border-t border-border/50 my-2" />
+
+                    <Button
+                      variant="ghost"
+                      className="w-full justify-start gap-3 h-11 text-destructive hover:text-destructive"
+                      onClick={() => {
+                        setMobileMenuOpen(false);
+                        handleLogout();
+                      }}
+                    >
+                      <LogOut className="h-5 w-5" />
+                      <span>Logout</span>
+                    </Button>
+                  </div>
+                </SheetContent>
+              </Sheet>
+            </div>
           </div>
         </div>
 
@@ -0,0 +1,107 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Bell } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+
+interface AppNotification {
+  id: number;
+  title: string;
+  message: string;
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+interface NotificationsBellProps {
+  userId: number;
+}
+
+// Navbar bell with the latest in-app notifications; opening it marks them read
+export function NotificationsBell({ userId }: NotificationsBellProps) {
+  const router = useRouter();
+  const [items, setItems] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [userId]);
+
+  const fetchNotifications = async () => {
+    try {
+      const response = await fetch(`/api/notifications?userId=${userId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setItems(data.notifications);
+        setUnreadCount(data.unreadCount);
+      }
+    } catch (error) {
+      console.error('Failed to fetch notifications:', error);
+    }
+  };
+
+  const markAllRead = async () => {
+    try {
+      await fetch('/api/notifications', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId }),
+      });
+      setUnreadCount(0);
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (open && unreadCount > 0) {
+      markAllRead();
+    } else if (!open) {
+      fetchNotifications();
+    }
+  };
+
+  return (
+    <DropdownMenu onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" aria-label="Notifications">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] leading-4 font-semibold">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {items.length === 0 ? (
+          <p className="px-2 py-6 text-sm text-center text-muted-foreground">Nothing new</p>
+        ) : (
+          items.map(item => (
+            <DropdownMenuItem
+              key={item.id}
+              onClick={() => item.link && router.push(item.link)}
+              className={cn('flex flex-col items-start gap-0.5', !item.readAt && 'bg-primary/5')}
+            >
+              <span className="text-sm font-medium">{item.title}</span>
+              <span className="text-xs text-muted-foreground">{item.message}</span>
+              <span className="text-[11px] text-muted-foreground">{new Date(item.createdAt).toLocaleString()}</span>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+
+export interface OrderStatusChange {
+  id: number;
+  orderId: number;
+  fromStatus: string | null;
+  toStatus: string;
+  changedBy: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+const STATUS_DOT: Record<string, string> = {
+  pending: 'bg-muted-foreground',
+  processing: 'bg-blue-500',
+  shipped: 'bg-primary',
+  delivered: 'bg-green-600',
+  cancelled: 'bg-destructive',
+};
+
+function formatStatus(status: string) {
+  return status.charAt(0).toUpperCase() + status.slice(1);
+}
+
+interface OrderTimelineProps {
+  entries: OrderStatusChange[];
+  className?: string;
+}
+
+// Vertical list of an order's status changes, oldest first
+export function OrderTimeline({ entries, className }: OrderTimelineProps) {
+  if (entries.length === 0) {
+    return <p className={cn('text-sm text-muted-foreground', className)}>No status history recorded</p>;
+  }
+
+  return (
+    <ol className={cn('relative border-l border-border ml-1.5 space-y-3', className)}>
+      {entries.map(entry => (
+        <li key={entry.id} className="ml-4">
+          <span
+            className={cn(
+              'absolute -left-[5px] mt-1.5 h-2.5 w-2.5 rounded-full',
+              STATUS_DOT[entry.toStatus] || 'bg-muted-foreground'
+            )}
+          />
+          <p className="text-sm font-medium">
+            {entry.fromStatus
+              ? `${formatStatus(entry.fromStatus)} → ${formatStatus(entry.toStatus)}`
+              : `Placed as ${formatStatus(entry.toStatus).toLowerCase()}`}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {new Date(entry.createdAt).toLocaleString()}
+            {entry.changedBy ? ` · ${entry.changedBy}` : ''}
+          </p>
+          {entry.note && <p className="text-xs text-muted-foreground mt-0.5">{entry.note}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -1,4 +1,4 @@
-import { sqliteTable, integer, text, real, unique } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, integer, text, real, unique, AnySQLiteColumn } from 'drizzle-orm/sqlite-core';
 
 export const users = sqliteTable('users', {
   id: integer('id').primaryKey({ autoIncrement: true }),
@@ -8,16 +8,84 @@ export const users = sqliteTable('users', {
   isActive: integer('is_active', { mode: 'boolean' }).default(true),
   hasLocalAccess: integer('has_local_access', { mode: 'boolean' }).default(false),
   storeName: text('store_name'),
+  storeSlug: text('store_slug').unique(),
   storeLogo: text('store_logo'),
   storeMarkup: real('store_markup').default(0),
   totalSpent: real('total_spent').default(0),
   cashbackBalance: real('cashback_balance').default(0),
   subUsersEnabled: integer('sub_users_enabled', { mode: 'boolean' }).default(false),
+  parentId: integer('parent_id').references((): AnySQLiteColumn => users.id),
   credits: real('credits').default(0),
   lastCancelledDepositAt: text('last_cancelled_deposit_at'),
+  mustChangePassword: integer('must_change_password', { mode: 'boolean' }).default(false),
+  totpSecret: text('totp_secret'),
+  totpPendingSecret: text('totp_pending_secret'),
+  totpEnabled: integer('totp_enabled', { mode: 'boolean' }).default(false),
+  totpLastUsedStep: integer('totp_last_used_step'),
   createdAt: text('created_at').notNull(),
 });
 
+export const subUserLimits = sqliteTable('sub_user_limits', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().unique().references(() => users.id),
+  monthlyCap: real('monthly_cap'),
+  allowedCategories: text('allowed_categories'),
+  approvalThreshold: real('approval_threshold'),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+});
+
+export const sessions = sqliteTable('sessions', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id),
+  tokenHash: text('token_hash').notNull().unique(),
+  expiresAt: text('expires_at').notNull(),
+  ipAddress: text('ip_address'),
+  userAgent: text('user_agent'),
+  lastSeenAt: text('last_seen_at').notNull(),
+  revokedAt: text('revoked_at'),
+  createdAt: text('created_at').notNull(),
+});
+
+export const recoveryCodes = sqliteTable('recovery_codes', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id),
+  codeHash: text('code_hash').notNull(),
+  usedAt: text('used_at'),
+  createdAt: text('created_at').notNull(),
+});
+
+export const twoFactorChallenges = sqliteTable('two_factor_challenges', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id),
+  tokenHash: text('token_hash').notNull().unique(),
+  attempts: integer('attempts').notNull().default(0),
+  expiresAt: text('expires_at').notNull(),
+  createdAt: text('created_at').notNull(),
+});
+
+export const loginAttempts = sqliteTable('login_attempts', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  username: text('username').notNull(),
+  userId: integer('user_id').references(() => users.id),
+  ipAddress: text('ip_address'),
+  userAgent: text('user_agent'),
+  success: integer('success', { mode: 'boolean' }).notNull(),
+  reason: text('reason').notNull(),
+  createdAt: text('created_at').notNull(),
+});
+
+export const loginThrottles = sqliteTable('login_throttles', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  scope: text('scope').notNull(),
+  key: text('key').notNull(),
+  failures: integer('failures').notNull().default(0),
+  blockedUntil: text('blocked_until'),
+  lastFailureAt: text('last_failure_at').notNull(),
+}, (table) => ({
+  uniqueScopeKey: unique('unique_login_throttle').on(table.scope, table.key),
+}));
+
 export const products = sqliteTable('products', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   name: text('name').notNull(),
@@ -35,6 +103,10 @@ export const products = sqliteTable('products', {
   sourceId: text('source_id'),
   apiConfigId: integer('api_config_id'),
   isLocalOnly: integer('is_local_only', { mode: 'boolean' }).default(false),
+  // Normalized name, brand and volume; other suppliers' listings with the same key become offers on this product
+  matchKey: text('match_key'),
+  lastSeenAt: text('last_seen_at'),
+  discontinuedAt: text('discontinued_at'),
   createdAt: text('created_at').notNull(),
 });
 
@@ -45,19 +117,57 @@ export const orders = sqliteTable('orders', {
   totalAmount: real('total_amount').notNull(),
   shippingAddress: text('shipping_address'),
   notes: text('notes'),
+  resellerId: integer('reseller_id').references(() => users.id),
+  resellerMarkup: real('reseller_markup'),
+  resellerMargin: real('reseller_margin'),
+  payerId: integer('payer_id').references(() => users.id),
+  approvalStatus: text('approval_status'),
+  approvalDecidedAt: text('approval_decided_at'),
   createdAt: text('created_at').notNull(),
   updatedAt: text('updated_at').notNull(),
 });
 
+export const orderStatusHistory = sqliteTable('order_status_history', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  orderId: integer('order_id').notNull().references(() => orders.id),
+  fromStatus: text('from_status'),
+  toStatus: text('to_status').notNull(),
+  changedById: integer('changed_by_id').references(() => users.id),
+  note: text('note'),
+  createdAt: text('created_at').notNull(),
+});
+
 export const orderItems = sqliteTable('order_items', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   orderId: integer('order_id').notNull().references(() => orders.id),
   productId: integer('product_id').notNull().references(() => products.id),
   quantity: integer('quantity').notNull(),
   priceAtPurchase: real('price_at_purchase').notNull(),
+  variantIds: text('variant_ids'),
+  createdAt: text('created_at').notNull(),
+});
+
+export const carts = sqliteTable('carts', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().unique().references(() => users.id),
+  resellerId: integer('reseller_id').references(() => users.id),
   createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
 });
 
+export const cartItems = sqliteTable('cart_items', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  cartId: integer('cart_id').notNull().references(() => carts.id),
+  productId: integer('product_id').notNull().references(() => products.id),
+  variantKey: text('variant_key').notNull().default(''),
+  quantity: integer('quantity').notNull(),
+  priceAtAdd: real('price_at_add').notNull(),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+}, (table) => ({
+  uniqueCartLine: unique('unique_cart_line').on(table.cartId, table.productId, table.variantKey),
+}));
+
 export const trackingInfo = sqliteTable('tracking_info', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   orderId: integer('order_id').notNull().unique().references(() => orders.id),
@@ -99,6 +209,95 @@ export const productVariants = sqliteTable('product_variants', {
   priceModifier: real('price_modifier').default(0),
   isAvailable: integer('is_available', { mode: 'boolean' }).default(false),
   sourceId: text('source_id'),
+  lastSeenAt: text('last_seen_at'),
+  createdAt: text('created_at').notNull(),
+});
+
+export const stockReservations = sqliteTable('stock_reservations', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id),
+  productId: integer('product_id').notNull().references(() => products.id),
+  variantId: integer('variant_id'),
+  quantity: integer('quantity').notNull(),
+  expiresAt: text('expires_at').notNull(),
+  createdAt: text('created_at').notNull(),
+});
+
+export const inventoryMovements = sqliteTable('inventory_movements', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  productId: integer('product_id').notNull().references(() => products.id),
+  variantId: integer('variant_id'),
+  change: integer('change').notNull(),
+  quantityAfter: integer('quantity_after').notNull(),
+  reason: text('reason').notNull(),
+  orderId: integer('order_id').references(() => orders.id),
+  userId: integer('user_id').references(() => users.id),
+  note: text('note'),
+  createdAt: text('created_at').notNull(),
+});
+
+export const priceHistory = sqliteTable('price_history', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  productId: integer('product_id').notNull().references(() => products.id),
+  variantType: text('variant_type'),
+  variantName: text('variant_name'),
+  price: real('price').notNull(),
+  previousPrice: real('previous_price'),
+  changePercent: real('change_percent'),
+  source: text('source').notNull(),
+  apiConfigId: integer('api_config_id'),
+  userId: integer('user_id').references(() => users.id),
+  isAlert: integer('is_alert', { mode: 'boolean' }).default(false),
+  acknowledgedAt: text('acknowledged_at'),
+  createdAt: text('created_at').notNull(),
+});
+
+// What each supplier asks for a product, the product's own source included
+export const productOffers = sqliteTable('product_offers', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  productId: integer('product_id').notNull().references(() => products.id),
+  apiConfigId: integer('api_config_id').notNull().references(() => apiConfigurations.id),
+  sourceId: text('source_id').notNull(),
+  name: text('name').notNull(),
+  price: real('price').notNull(),
+  stockQuantity: integer('stock_quantity').notNull().default(0),
+  isAvailable: integer('is_available', { mode: 'boolean' }).default(true),
+  // JSON array of { variantType, variantName, price, stockQuantity }
+  variants: text('variants'),
+  lastSeenAt: text('last_seen_at').notNull(),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+}, (table) => ({
+  uniqueSourceOffer: unique('unique_source_offer').on(table.apiConfigId, table.sourceId),
+}));
+
+export const stockAlertThresholds = sqliteTable('stock_alert_thresholds', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  productId: integer('product_id').unique().references(() => products.id),
+  mainCategory: text('main_category').unique(),
+  threshold: integer('threshold').notNull(),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+});
+
+export const stockSubscriptions = sqliteTable('stock_subscriptions', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id),
+  productId: integer('product_id').notNull().references(() => products.id),
+  variantType: text('variant_type'),
+  variantName: text('variant_name'),
+  notifiedAt: text('notified_at'),
+  createdAt: text('created_at').notNull(),
+});
+
+export const notifications = sqliteTable('notifications', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id),
+  type: text('type').notNull(),
+  title: text('title').notNull(),
+  message: text('message').notNull(),
+  link: text('link'),
+  readAt: text('read_at'),
   createdAt: text('created_at').notNull(),
 });
 
@@ -113,11 +312,18 @@ export const apiConfigurations = sqliteTable('api_configurations', {
   isTestMode: integer('is_test_mode', { mode: 'boolean' }).default(true),
   autoSyncEnabled: integer('auto_sync_enabled', { mode: 'boolean' }).default(false),
   syncIntervalMinutes: integer('sync_interval_minutes'),
+  syncWindow: text('sync_window'),
+  nextSyncAt: text('next_sync_at'),
   lastSyncedAt: text('last_synced_at'),
   loadImages: integer('load_images', { mode: 'boolean' }).default(true),
   enableDuplicateMerging: integer('enable_duplicate_merging', { mode: 'boolean' }).default(true),
   categoryMappingRules: text('category_mapping_rules'),
+  // Category inputs of the last fetched feed, before rules; previews rule edits
+  lastFetchedProducts: text('last_fetched_products'),
+  lastFetchedAt: text('last_fetched_at'),
   imageProxyDomain: text('image_proxy_domain'),
+  priceAlertPercent: real('price_alert_percent'),
+  discontinueAfterHours: integer('discontinue_after_hours'),
   createdAt: text('created_at').notNull(),
 });
 
@@ -131,6 +337,64 @@ export const apiLogs = sqliteTable('api_logs', {
   productsProcessed: integer('products_processed'),
   productsCreated: integer('products_created'),
   productsUpdated: integer('products_updated'),
+  productsDiscontinued: integer('products_discontinued'),
+  createdAt: text('created_at').notNull(),
+});
+
+export const syncJobs = sqliteTable('sync_jobs', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  configId: integer('config_id').notNull().references(() => apiConfigurations.id),
+  status: text('status').notNull().default('queued'),
+  stage: text('stage').notNull().default('fetching'),
+  trigger: text('trigger').notNull().default('manual'),
+  payload: text('payload'),
+  totalProducts: integer('total_products').notNull().default(0),
+  processedProducts: integer('processed_products').notNull().default(0),
+  createdProducts: integer('created_products').notNull().default(0),
+  updatedProducts: integer('updated_products').notNull().default(0),
+  discontinuedProducts: integer('discontinued_products').notNull().default(0),
+  discontinuedVariants: integer('discontinued_variants').notNull().default(0),
+  currentProduct: text('current_product'),
+  errors: text('errors'),
+  warnings: text('warnings'),
+  restockedProductIds: text('restocked_product_ids'),
+  message: text('message'),
+  attempts: integer('attempts').notNull().default(0),
+  cancelRequestedAt: text('cancel_requested_at'),
+  heartbeatAt: text('heartbeat_at'),
+  startedAt: text('started_at'),
+  finishedAt: text('finished_at'),
+  logId: integer('log_id').references(() => apiLogs.id),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+});
+
+export const syncChangesets = sqliteTable('sync_changesets', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  configId: integer('config_id').notNull().references(() => apiConfigurations.id),
+  jobId: integer('job_id').references(() => syncJobs.id),
+  status: text('status').notNull().default('pending'),
+  createCount: integer('create_count').notNull().default(0),
+  updateCount: integer('update_count').notNull().default(0),
+  removeCount: integer('remove_count').notNull().default(0),
+  appliedCount: integer('applied_count'),
+  decidedById: integer('decided_by_id').references(() => users.id),
+  decidedAt: text('decided_at'),
+  createdAt: text('created_at').notNull(),
+});
+
+export const syncChangeItems = sqliteTable('sync_change_items', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  changesetId: integer('changeset_id').notNull().references(() => syncChangesets.id),
+  kind: text('kind').notNull(),
+  productId: integer('product_id'),
+  sourceId: text('source_id'),
+  name: text('name').notNull(),
+  changes: text('changes'),
+  payload: text('payload'),
+  decision: text('decision').notNull().default('pending'),
+  appliedFields: text('applied_fields'),
+  error: text('error'),
   createdAt: text('created_at').notNull(),
 });
 
@@ -159,6 +423,17 @@ export const productCorrections = sqliteTable('product_corrections', {
   sourceProductId: text('source_product_id').notNull().unique(),
   correctedCategory: text('corrected_category'),
   correctedName: text('corrected_name'),
+  correctedDescription: text('corrected_description'),
+  correctedBrand: text('corrected_brand'),
+  correctedVolume: text('corrected_volume'),
+  correctedSubCategory: text('corrected_sub_category'),
+  correctedImages: text('corrected_images'), // JSON array of image URLs
+  priceFloor: real('price_floor'),
+  priceCeiling: real('price_ceiling'),
+  isHidden: integer('is_hidden', { mode: 'boolean' }).notNull().default(false),
+  // Feed values of the overridden fields as last synced, and changes to them the admin hasn't reviewed
+  upstreamValues: text('upstream_values'),
+  conflicts: text('conflicts'),
   notes: text('notes'),
   createdAt: text('created_at').notNull(),
   updatedAt: text('updated_at').notNull(),
@@ -211,6 +486,9 @@ export const cryptoWalletAddresses = sqliteTable('crypto_wallet_addresses', {
   label: text('label'),
   logoUrl: text('logo_url'),
   isActive: integer('is_active', { mode: 'boolean' }).default(true),
+  // Account-level extended public key; when set each deposit gets its own derived address
+  xpub: text('xpub'),
+  nextDerivationIndex: integer('next_derivation_index').notNull().default(0),
   createdAt: text('created_at').notNull(),
   updatedAt: text('updated_at').notNull(),
 });
@@ -221,6 +499,8 @@ export const deposits = sqliteTable('deposits', {
   amount: real('amount').notNull(),
   cryptocurrency: text('cryptocurrency').notNull(),
   walletAddress: text('wallet_address').notNull(),
+  // Index of walletAddress under the currency's xpub; null for the shared static address
+  derivationIndex: integer('derivation_index'),
   status: text('status').notNull().default('pending'),
   transactionHash: text('transaction_hash'),
   transactionId: text('transaction_id'),
@@ -228,6 +508,19 @@ export const deposits = sqliteTable('deposits', {
   verifiedAt: text('verified_at'),
   verificationError: text('verification_error'),
   credits: real('credits').notNull(),
+  // USD quote locked at creation; null on deposits made before quotes
+  quotedUsd: real('quoted_usd'),
+  expectedAmount: real('expected_amount'),
+  quoteRate: real('quote_rate'),
+  quoteSource: text('quote_source'),
+  quotedAt: text('quoted_at'),
+  quoteExpiresAt: text('quote_expires_at'),
+  // awaiting_payment, paid, underpaid, overpaid or expired
+  quoteStatus: text('quote_status'),
+  // When the payment was first seen; judged against quoteExpiresAt
+  paymentSeenAt: text('payment_seen_at'),
+  // Rate the credits were actually computed at
+  settledRate: real('settled_rate'),
   notes: text('notes'),
   agreedToTerms: integer('agreed_to_terms', { mode: 'boolean' }).default(false),
   agreedToTermsAt: text('agreed_to_terms_at'),
@@ -254,8 +547,11 @@ export const incomingVerifications = sqliteTable('incoming_verifications', {
   userId: integer('user_id').references(() => users.id),
   retryCount: integer('retry_count').default(0).notNull(),
   errorMessage: text('error_message'),
+  // The deposit whose derived address was paid, when the payment was matched automatically
+  depositId: integer('deposit_id').references(() => deposits.id),
 }, (table) => ({
-  uniqueTxidCurrency: unique('unique_txid_currency').on(table.txid, table.currency),
+  // One transaction can pay several of our addresses, e.g. a batched withdrawal
+  uniqueTxidCurrencyAddress: unique('unique_txid_currency_address').on(table.txid, table.currency, table.matchedAddress),
 }));
 
 export const manualCredits = sqliteTable('manual_credits', {
@@ -273,6 +569,40 @@ export const manualCredits = sqliteTable('manual_credits', {
   uniqueTransactionId: unique('unique_transaction_id').on(table.transactionId),
 }));
 
+// Every change to users.credits, as a posting of one debit and one credit of the same amount
+export const ledgerEntries = sqliteTable('ledger_entries', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  // Shared by the two sides of a posting
+  postingId: text('posting_id').notNull(),
+  // user:<id> for a customer balance, system:<name> for the other side
+  account: text('account').notNull(),
+  userId: integer('user_id').references(() => users.id),
+  direction: text('direction').notNull(),
+  amount: real('amount').notNull(),
+  // The customer's balance after this entry; null on system accounts
+  balanceAfter: real('balance_after'),
+  referenceType: text('reference_type').notNull(),
+  referenceId: integer('reference_id'),
+  description: text('description').notNull(),
+  createdById: integer('created_by_id').references(() => users.id),
+  createdAt: text('created_at').notNull(),
+}, (table) => ({
+  // The same deposit, order or credit can't be posted to an account twice
+  uniqueReference: unique('unique_ledger_reference').on(table.account, table.referenceType, table.referenceId),
+}));
+
+export const ledgerReconciliations = sqliteTable('ledger_reconciliations', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  trigger: text('trigger').notNull(),
+  usersChecked: integer('users_checked').notNull(),
+  openingBalances: integer('opening_balances').notNull().default(0),
+  driftCount: integer('drift_count').notNull().default(0),
+  totalDrift: real('total_drift').notNull().default(0),
+  // JSON: [{ userId, username, credits, ledgerBalance, drift }]
+  drifts: text('drifts'),
+  runAt: text('run_at').notNull(),
+});
+
 export const markups = sqliteTable('markups', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   name: text('name').notNull(),
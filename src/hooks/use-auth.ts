@@ -5,6 +5,8 @@ interface User {
   id: number;
   username: string;
   role: string;
+  mustChangePassword?: boolean;
+  twoFactorSetupRequired?: boolean;
 }
 
 export function useAuth() {
@@ -46,11 +48,38 @@ export function useAuth() {
   };
 
   const logout = () => {
+    const token = localStorage.getItem('auth_token');
+    if (token) {
+      // Revoke the server-side session; the local cleanup below doesn't wait on it
+      fetch('/api/auth/logout', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` },
+      }).catch(error => console.error('Logout error:', error));
+    }
+
+    localStorage.removeItem('auth_token');
+    localStorage.removeItem('cart');
+    setUser(null);
+    router.push('/login');
+  };
+
+  const logoutAllDevices = async () => {
+    const token = localStorage.getItem('auth_token');
+
+    const response = await fetch('/api/auth/logout-all', {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${token}` },
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to log out of all devices');
+    }
+
     localStorage.removeItem('auth_token');
     localStorage.removeItem('cart');
     setUser(null);
     router.push('/login');
   };
 
-  return { user, isLoading, logout, validateSession };
+  return { user, isLoading, logout, logoutAllDevices, validateSession };
 }
\ No newline at end of file
@@ -29,6 +29,13 @@ export function useInactivityLogout(isAuthenticated: boolean) {
     if (countdownIntervalRef.current) clearInterval(countdownIntervalRef.current);
 
     // Perform logout
+    const token = localStorage.getItem('auth_token');
+    if (token) {
+      fetch('/api/auth/logout', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` },
+      }).catch(error => console.error('Logout error:', error));
+    }
     localStorage.removeItem('auth_token');
     localStorage.removeItem('cart');
     
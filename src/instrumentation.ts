@@ -0,0 +1,16 @@
+// Runs once when the server starts; the schedulers only make sense in a long-lived Node process
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  if (process.env.SYNC_SCHEDULER_DISABLED !== 'true') {
+    const { startSyncScheduler } = await import('@/lib/sync-scheduler');
+    startSyncScheduler();
+  }
+
+  if (process.env.LEDGER_RECONCILIATION_DISABLED !== 'true') {
+    const { startReconciliationScheduler } = await import('@/lib/ledger-reconciliation');
+    startReconciliationScheduler();
+  }
+}
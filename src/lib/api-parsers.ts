@@ -3,7 +3,7 @@
  * Handles image extraction and product data normalization
  */
 
-interface ParsedProduct {
+export interface ParsedProduct {
   sourceId: string;
   name: string;
   description?: string;
@@ -891,6 +891,25 @@ export function parseHTMLProducts(html: string): ParseResult {
   return result;
 }
 
+function normalizeMatchText(value: string | null | undefined): string {
+  return (value || '').toLowerCase().replace(/[^a-z0-9.]+/g, ' ').trim();
+}
+
+/**
+ * Key that identifies the same item across listings: normalized name, brand
+ * and volume. Punctuation and spacing are ignored, a name that repeats the
+ * brand up front matches one that doesn't, and "1 G" matches "1g".
+ */
+export function productMatchKey(product: { name: string; brand?: string | null; volume?: string | null }): string {
+  const brand = normalizeMatchText(product.brand);
+  let name = normalizeMatchText(product.name);
+  if (brand && name.startsWith(brand + ' ')) {
+    name = name.slice(brand.length + 1);
+  }
+  const volume = normalizeMatchText(product.volume).replace(/ /g, '');
+  return `${name}|${brand}|${volume}`;
+}
+
 /**
  * Merge duplicate products from different sources
  * Prioritizes JSON data for images, HTML data for better organization
@@ -899,9 +918,7 @@ export function mergeDuplicateProducts(products: ParsedProduct[]): ParsedProduct
   const productMap = new Map<string, ParsedProduct>();
 
   for (const product of products) {
-    // Create a normalized key for duplicate detection
-    const normalizedName = product.name.toLowerCase().trim().replace(/\s+/g, ' ');
-    const key = `${normalizedName}-${product.brand?.toLowerCase() || ''}-${product.volume?.toLowerCase() || ''}`;
+    const key = productMatchKey(product);
 
     if (productMap.has(key)) {
       // Merge with existing product
@@ -1,23 +1,28 @@
 import bcrypt from 'bcrypt';
-import { db } from '@/db';
-import { users } from '@/db/schema';
-import { eq } from 'drizzle-orm';
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { db, Database } from '@/db';
+import { users, sessions } from '@/db/schema';
+import { eq, and, isNull, ne } from 'drizzle-orm';
 
-// Hardcoded admin credentials - CHANGE THESE IN PRODUCTION
-export const ADMIN_CREDENTIALS = {
-  username: 'admin',
-  password: 'admin123',
-};
+type Executor = Database | Parameters<Parameters<Database['transaction']>[0]>[0];
 
 // Session management
 export interface Session {
+  sessionId: number;
   userId: number;
   username: string;
   role: string;
-  token: string;
+  mustChangePassword: boolean;
+  twoFactorSetupRequired: boolean;
   expiresAt: number;
 }
 
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// Don't write lastSeenAt on every request; once a minute is plenty for the admin view
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
 // Create a session token
 export function generateSessionToken(): string {
   return Array.from(crypto.getRandomValues(new Uint8Array(32)))
@@ -35,44 +40,193 @@ export async function hashPassword(password: string): Promise<string> {
   return bcrypt.hash(password, 12);
 }
 
-// Initialize admin user if doesn't exist
-export async function initializeAdminUser() {
-  try {
-    const existingAdmin = await db.select()
-      .from(users)
-      .where(eq(users.username, ADMIN_CREDENTIALS.username))
-      .limit(1);
-
-    if (existingAdmin.length === 0) {
-      const passwordHash = await hashPassword(ADMIN_CREDENTIALS.password);
-      
-      await db.insert(users).values({
-        username: ADMIN_CREDENTIALS.username,
-        passwordHash: passwordHash,
-        role: 'admin',
-        isActive: true,
-        createdAt: new Date().toISOString(),
-      });
-
-      console.log('✅ Admin user initialized');
-    }
-  } catch (error) {
-    console.error('Error initializing admin user:', error);
+// Admins can move balances, so they can't use the site until 2FA is on
+export function isTwoFactorRequired(user: { role: string }): boolean {
+  return user.role === 'admin';
+}
+
+export const MIN_PASSWORD_LENGTH = 12;
+
+// Returns a reason the password is unacceptable, or null when it's fine
+export function validatePasswordStrength(password: unknown): string | null {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+// First-run setup is only allowed while no admin account exists
+export async function hasAdminUser(executor: Executor = db): Promise<boolean> {
+  const existingAdmin = await executor.select({ id: users.id })
+    .from(users)
+    .where(eq(users.role, 'admin'))
+    .limit(1);
+
+  return existingAdmin.length > 0;
+}
+
+// Credentials for unattended setup; the wizard falls back to these when both are set
+export function getEnvAdminCredentials(): { username: string; password: string } | null {
+  const username = process.env.SETUP_ADMIN_USERNAME;
+  const password = process.env.SETUP_ADMIN_PASSWORD;
+
+  if (!username || !password) {
+    return null;
   }
+
+  return { username: username.trim().toLowerCase(), password };
+}
+
+// Only a hash of the token is stored, so a leaked sessions table can't be replayed
+export function hashSessionToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Read the session token from the Authorization header or the auth_token cookie
+export function getRequestToken(request: NextRequest): string | null {
+  const authHeader = request.headers.get('Authorization');
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.substring(7);
+  }
+  return request.cookies.get('auth_token')?.value || null;
+}
+
+// The last X-Forwarded-For hop is the one our proxy appended; earlier ones are whatever the client sent
+export function getRequestMeta(request: NextRequest): { ipAddress: string | null; userAgent: string | null } {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  return {
+    ipAddress: forwardedFor?.split(',').pop()?.trim() || request.headers.get('x-real-ip') || null,
+    userAgent: request.headers.get('user-agent'),
+  };
+}
+
+// Create a database-backed session and return the raw token (only ever sent to the client)
+export async function createSession(
+  userId: number,
+  meta: { ipAddress: string | null; userAgent: string | null }
+): Promise<{ token: string; expiresAt: number }> {
+  const token = generateSessionToken();
+  const now = new Date();
+  const expiresAt = now.getTime() + SESSION_TTL_MS;
+
+  await db.insert(sessions).values({
+    userId,
+    tokenHash: hashSessionToken(token),
+    expiresAt: new Date(expiresAt).toISOString(),
+    ipAddress: meta.ipAddress,
+    userAgent: meta.userAgent,
+    lastSeenAt: now.toISOString(),
+    createdAt: now.toISOString(),
+  });
+
+  return { token, expiresAt };
+}
+
+// Create a session for a fully authenticated user and return it as the login response
+export async function createLoginResponse(
+  user: typeof users.$inferSelect,
+  request: NextRequest
+): Promise<NextResponse> {
+  const { token, expiresAt } = await createSession(user.id, getRequestMeta(request));
+
+  const response = NextResponse.json({
+    token,
+    user: {
+      id: user.id,
+      username: user.username,
+      role: user.role,
+      mustChangePassword: !!user.mustChangePassword,
+      twoFactorSetupRequired: isTwoFactorRequired(user) && !user.totpEnabled,
+    },
+    expiresAt,
+  });
+
+  // Page navigations don't carry the Authorization header, so middleware reads the cookie
+  response.cookies.set('auth_token', token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: new Date(expiresAt),
+  });
+
+  return response;
 }
 
 // Validate session token
-export function validateSession(token: string, sessions: Map<string, Session>): Session | null {
-  const session = sessions.get(token);
-  
-  if (!session) {
+export async function validateSession(
+  token: string,
+  meta?: { ipAddress: string | null; userAgent: string | null }
+): Promise<Session | null> {
+  const rows = await db.select({
+    session: sessions,
+    username: users.username,
+    role: users.role,
+    isActive: users.isActive,
+    mustChangePassword: users.mustChangePassword,
+    totpEnabled: users.totpEnabled,
+  })
+    .from(sessions)
+    .innerJoin(users, eq(sessions.userId, users.id))
+    .where(and(eq(sessions.tokenHash, hashSessionToken(token)), isNull(sessions.revokedAt)))
+    .limit(1);
+
+  if (rows.length === 0) {
     return null;
   }
 
-  if (Date.now() > session.expiresAt) {
-    sessions.delete(token);
+  const { session, username, role, isActive, mustChangePassword, totpEnabled } = rows[0];
+  const expiresAt = new Date(session.expiresAt).getTime();
+
+  if (Date.now() > expiresAt || !isActive) {
     return null;
   }
 
-  return session;
-}
\ No newline at end of file
+  if (Date.now() - new Date(session.lastSeenAt).getTime() > LAST_SEEN_RESOLUTION_MS) {
+    await db.update(sessions)
+      .set({
+        lastSeenAt: new Date().toISOString(),
+        ...(meta?.ipAddress ? { ipAddress: meta.ipAddress } : {}),
+        ...(meta?.userAgent ? { userAgent: meta.userAgent } : {}),
+      })
+      .where(eq(sessions.id, session.id));
+  }
+
+  return {
+    sessionId: session.id,
+    userId: session.userId,
+    username,
+    role,
+    mustChangePassword: !!mustChangePassword,
+    twoFactorSetupRequired: isTwoFactorRequired({ role }) && !totpEnabled,
+    expiresAt,
+  };
+}
+
+// Resolve the caller's session from the request's token, if any
+export async function getRequestSession(request: NextRequest): Promise<Session | null> {
+  const token = getRequestToken(request);
+  return token ? validateSession(token) : null;
+}
+
+// Revoke a single session by its raw token
+export async function revokeSession(token: string): Promise<void> {
+  await db.update(sessions)
+    .set({ revokedAt: new Date().toISOString() })
+    .where(and(eq(sessions.tokenHash, hashSessionToken(token)), isNull(sessions.revokedAt)));
+}
+
+// Revoke every active session for a user, optionally keeping the caller's own session
+export async function revokeUserSessions(userId: number, exceptSessionId?: number): Promise<number> {
+  const conditions = [eq(sessions.userId, userId), isNull(sessions.revokedAt)];
+  if (exceptSessionId !== undefined) {
+    conditions.push(ne(sessions.id, exceptSessionId));
+  }
+
+  const revoked = await db.update(sessions)
+    .set({ revokedAt: new Date().toISOString() })
+    .where(and(...conditions))
+    .returning({ id: sessions.id });
+
+  return revoked.length;
+}
@@ -0,0 +1,102 @@
+/**
+ * Request authorization
+ * middleware.ts resolves the session once per request and forwards the caller's
+ * identity to route handlers in trusted headers (any client-sent copies are
+ * stripped first). Kept free of Node-only imports so the middleware can use it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+export const USER_ID_HEADER = 'x-user-id';
+export const USER_ROLE_HEADER = 'x-user-role';
+
+export interface RequestUser {
+  id: number;
+  role: string;
+}
+
+// API routes only admins may call, beyond everything under /api/admin
+export const ADMIN_API_ROUTES = [
+  '/api/seed-products',
+  '/api/crypto/debug-tx',
+  '/api/crypto/websocket-monitor',
+  '/api/crypto/verifications',
+  '/api/crypto/poll-pending',
+  '/api/crypto/track-addresses',
+];
+
+// Catalog and fulfilment endpoints anyone signed in can read but only admins can change
+export const ADMIN_WRITE_API_ROUTES = [
+  /^\/api\/products$/,
+  /^\/api\/products\/[^/]+\/variants(\/|$)/,
+  /^\/api\/tracking-info(\/|$)/,
+  /^\/api\/order-items(\/|$)/,
+];
+
+// Read-only /api/admin endpoints the storefront needs for pricing and deposits
+export const SHARED_ADMIN_READ_ROUTES = [
+  '/api/admin/calculate-markup-price',
+  '/api/admin/bulk-pricing',
+  '/api/admin/crypto-addresses',
+  '/api/admin/product-images',
+];
+
+function matchesRoute(pathname: string, route: string): boolean {
+  return pathname === route || pathname.startsWith(`${route}/`);
+}
+
+export function requiresAdmin(pathname: string, method: string): boolean {
+  if (matchesRoute(pathname, '/admin')) {
+    return true;
+  }
+
+  if (matchesRoute(pathname, '/api/admin')) {
+    const isSharedRead = method === 'GET' && SHARED_ADMIN_READ_ROUTES.some(route => matchesRoute(pathname, route));
+    return !isSharedRead;
+  }
+
+  // The user list is admin-only; /api/users/reward-tier below it is per-user data
+  if (pathname === '/api/users') {
+    return true;
+  }
+
+  if (method !== 'GET' && ADMIN_WRITE_API_ROUTES.some(pattern => pattern.test(pathname))) {
+    return true;
+  }
+
+  return ADMIN_API_ROUTES.some(route => matchesRoute(pathname, route));
+}
+
+export function getRequestUser(request: NextRequest): RequestUser | null {
+  const id = parseInt(request.headers.get(USER_ID_HEADER) || '');
+  const role = request.headers.get(USER_ROLE_HEADER);
+
+  if (isNaN(id) || !role) {
+    return null;
+  }
+
+  return { id, role };
+}
+
+export function isAdmin(user: RequestUser | null): boolean {
+  return user?.role === 'admin';
+}
+
+// Admins can act on anyone's records; everyone else only on their own
+export function canAccessUser(user: RequestUser | null, ownerId: number): boolean {
+  return !!user && (user.role === 'admin' || user.id === ownerId);
+}
+
+export function unauthorizedResponse(message = 'Authentication required') {
+  return NextResponse.json(
+    { error: message, code: 'UNAUTHORIZED' },
+    { status: 401 }
+  );
+}
+
+export function forbiddenResponse(message = 'You do not have access to this resource') {
+  return NextResponse.json(
+    { error: message, code: 'FORBIDDEN' },
+    { status: 403 }
+  );
+}
@@ -0,0 +1,230 @@
+/**
+ * Database-backed cart
+ * One cart per user; lines are unique per product + variant combination.
+ * Reads re-price every line so the client can flag price changes and items
+ * that went unavailable since they were added. A cart shopped through a
+ * reseller storefront is priced with that store's markup.
+ */
+
+import { db } from '@/db';
+import { carts, cartItems, products, productVariants, bulkPricingRules } from '@/db/schema';
+import { eq, and, inArray, sql } from 'drizzle-orm';
+import { loadActiveMarkups, priceLine, roundCurrency, applyStoreMarkup } from '@/lib/pricing';
+import { getStorefrontById, Storefront } from '@/lib/storefront';
+import { CartLineInput, toVariantKey, fromVariantKey } from '@/lib/cart';
+
+export interface CartLineView {
+  id: number;
+  productId: number;
+  variantIds: number[];
+  quantity: number;
+  product: {
+    id: number;
+    name: string;
+    description: string | null;
+    imageUrl: string | null;
+    stockQuantity: number | null;
+  } | null;
+  variants: Array<{
+    id: number;
+    variantName: string;
+    variantType: string;
+    priceModifier: number;
+  }>;
+  priceAtAdd: number;
+  listPrice: number | null;
+  unitPrice: number | null;
+  lineTotal: number;
+  priceChanged: boolean;
+  isUnavailable: boolean;
+}
+
+export interface CartView {
+  cartId: number;
+  store: Pick<Storefront, 'slug' | 'storeName' | 'storeLogo'> | null;
+  items: CartLineView[];
+  subtotal: number;
+  hasIssues: boolean;
+}
+
+export async function getOrCreateCart(userId: number) {
+  const existing = await db.select().from(carts).where(eq(carts.userId, userId)).limit(1);
+  if (existing.length > 0) {
+    return existing[0];
+  }
+
+  const timestamp = new Date().toISOString();
+  const [cart] = await db.insert(carts)
+    .values({ userId, createdAt: timestamp, updatedAt: timestamp })
+    .onConflictDoNothing()
+    .returning();
+
+  // Lost a race with a concurrent insert for the same user
+  if (!cart) {
+    const [raced] = await db.select().from(carts).where(eq(carts.userId, userId)).limit(1);
+    return raced;
+  }
+
+  return cart;
+}
+
+// The storefront the cart is being shopped through, if any
+async function getCartStore(cartId: number): Promise<Storefront | null> {
+  const [cart] = await db.select().from(carts).where(eq(carts.id, cartId)).limit(1);
+  return cart?.resellerId ? getStorefrontById(cart.resellerId) : null;
+}
+
+/**
+ * Attribute the cart to a reseller's storefront, or back to the main marketplace
+ * with null. The whole cart follows the store the latest item was added from;
+ * lines re-price accordingly and show up as price changes.
+ */
+export async function setCartStore(cartId: number, resellerId: number | null): Promise<void> {
+  await db.update(carts)
+    .set({ resellerId, updatedAt: new Date().toISOString() })
+    .where(eq(carts.id, cartId));
+}
+
+/**
+ * Single-unit price of a line right now, before bulk discounts kick in; this is
+ * what priceAtAdd records so later quantity changes don't look like price changes.
+ * Returns null when the product or one of the variants is gone or unavailable.
+ */
+async function currentListPrice(line: CartLineInput, storeMarkup: number): Promise<number | null> {
+  const [product] = await db.select().from(products).where(eq(products.id, line.productId)).limit(1);
+  if (!product || !product.isAvailable) return null;
+
+  const variants = line.variantIds.length > 0
+    ? await db.select().from(productVariants).where(inArray(productVariants.id, line.variantIds))
+    : [];
+  if (variants.length !== line.variantIds.length) return null;
+  if (variants.some(v => v.productId !== product.id || !v.isAvailable)) return null;
+
+  const rules = await db.select().from(bulkPricingRules).where(eq(bulkPricingRules.productId, product.id));
+  const activeMarkups = await loadActiveMarkups();
+
+  return applyStoreMarkup(priceLine(product, variants, line.variantIds, 1, rules, activeMarkups), storeMarkup);
+}
+
+/**
+ * Add a line to the cart, incrementing the quantity if the same
+ * product + variant combination is already there.
+ */
+export async function addCartLine(cartId: number, line: CartLineInput): Promise<boolean> {
+  const store = await getCartStore(cartId);
+  const listPrice = await currentListPrice(line, store?.storeMarkup ?? 0);
+  if (listPrice === null) {
+    return false;
+  }
+
+  const timestamp = new Date().toISOString();
+  await db.insert(cartItems)
+    .values({
+      cartId,
+      productId: line.productId,
+      variantKey: toVariantKey(line.variantIds),
+      quantity: line.quantity,
+      priceAtAdd: listPrice,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    })
+    .onConflictDoUpdate({
+      target: [cartItems.cartId, cartItems.productId, cartItems.variantKey],
+      set: {
+        quantity: sql`${cartItems.quantity} + ${line.quantity}`,
+        updatedAt: timestamp,
+      },
+    });
+
+  await db.update(carts).set({ updatedAt: timestamp }).where(eq(carts.id, cartId));
+  return true;
+}
+
+export async function buildCartView(cartId: number): Promise<CartView> {
+  const lines = await db.select().from(cartItems).where(eq(cartItems.cartId, cartId)).orderBy(cartItems.createdAt);
+  const store = await getCartStore(cartId);
+  const storeView = store ? { slug: store.slug, storeName: store.storeName, storeLogo: store.storeLogo } : null;
+
+  if (lines.length === 0) {
+    return { cartId, store: storeView, items: [], subtotal: 0, hasIssues: false };
+  }
+
+  const productIds = [...new Set(lines.map(l => l.productId))];
+  const variantIds = [...new Set(lines.flatMap(l => fromVariantKey(l.variantKey)))];
+
+  const productRows = await db.select().from(products).where(inArray(products.id, productIds));
+  const variantRows = variantIds.length > 0
+    ? await db.select().from(productVariants).where(inArray(productVariants.id, variantIds))
+    : [];
+  const ruleRows = await db.select().from(bulkPricingRules).where(inArray(bulkPricingRules.productId, productIds));
+  const activeMarkups = await loadActiveMarkups();
+
+  const items = lines.map((line): CartLineView => {
+    const lineVariantIds = fromVariantKey(line.variantKey);
+    const product = productRows.find(p => p.id === line.productId);
+    const variants = variantRows.filter(v => lineVariantIds.includes(v.id));
+
+    const isUnavailable = !product
+      || !product.isAvailable
+      || variants.length !== lineVariantIds.length
+      || variants.some(v => v.productId !== line.productId || !v.isAvailable);
+
+    const unitPrice = !product || isUnavailable
+      ? null
+      : applyStoreMarkup(priceLine(product, variants, lineVariantIds, line.quantity, ruleRows, activeMarkups), store?.storeMarkup);
+    const listPrice = !product || isUnavailable
+      ? null
+      : applyStoreMarkup(priceLine(product, variants, lineVariantIds, 1, ruleRows, activeMarkups), store?.storeMarkup);
+
+    const priceChanged = listPrice !== null && Math.abs(listPrice - line.priceAtAdd) >= 0.01;
+
+    return {
+      id: line.id,
+      productId: line.productId,
+      variantIds: lineVariantIds,
+      quantity: line.quantity,
+      product: product
+        ? {
+            id: product.id,
+            name: product.name,
+            description: product.description,
+            imageUrl: product.imageUrl,
+            stockQuantity: product.stockQuantity,
+          }
+        : null,
+      variants: variants.map(v => ({
+        id: v.id,
+        variantName: v.variantName,
+        variantType: v.variantType,
+        priceModifier: v.priceModifier || 0,
+      })),
+      priceAtAdd: line.priceAtAdd,
+      listPrice,
+      unitPrice,
+      lineTotal: unitPrice === null ? 0 : roundCurrency(unitPrice * line.quantity),
+      priceChanged,
+      isUnavailable,
+    };
+  });
+
+  return {
+    cartId,
+    store: storeView,
+    items,
+    subtotal: roundCurrency(items.reduce((sum, item) => sum + item.lineTotal, 0)),
+    hasIssues: items.some(item => item.isUnavailable || item.priceChanged),
+  };
+}
+
+export async function acknowledgeCartPrices(cartId: number): Promise<void> {
+  const view = await buildCartView(cartId);
+  const timestamp = new Date().toISOString();
+
+  for (const item of view.items) {
+    if (item.priceChanged && item.listPrice !== null) {
+      await db.update(cartItems)
+        .set({ priceAtAdd: item.listPrice, updatedAt: timestamp })
+        .where(and(eq(cartItems.id, item.id), eq(cartItems.cartId, cartId)));
+    }
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Cart line helpers shared by the cart API and the client.
+ * A line is identified by product + the sorted set of selected variant ids.
+ */
+
+export interface CartLineInput {
+  productId: number;
+  variantIds: number[];
+  quantity: number;
+}
+
+export function toVariantKey(variantIds: number[]): string {
+  return [...new Set(variantIds)].sort((a, b) => a - b).join('-');
+}
+
+export function fromVariantKey(variantKey: string): number[] {
+  if (!variantKey) return [];
+  return variantKey.split('-').map(id => parseInt(id)).filter(id => !isNaN(id) && id > 0);
+}
+
+/**
+ * Parse the pre-server-cart localStorage format ({ "12": 1, "12-variants-4-7": 2 })
+ * so it can be merged into the database cart on login.
+ */
+export function parseLegacyCart(raw: string | null): CartLineInput[] {
+  if (!raw || raw === 'null' || raw === 'undefined') return [];
+
+  let cart: unknown;
+  try {
+    cart = JSON.parse(raw);
+  } catch {
+    return [];
+  }
+
+  if (typeof cart !== 'object' || cart === null || Array.isArray(cart)) return [];
+
+  const lines: CartLineInput[] = [];
+  for (const [key, quantity] of Object.entries(cart as Record<string, unknown>)) {
+    if (typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity <= 0) continue;
+
+    const [productPart, variantPart] = key.split('-variants-');
+    const productId = parseInt(productPart);
+    if (isNaN(productId) || productId <= 0) continue;
+
+    lines.push({ productId, variantIds: fromVariantKey(variantPart || ''), quantity });
+  }
+
+  return lines;
+}
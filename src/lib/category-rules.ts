@@ -0,0 +1,215 @@
+/**
+ * Category mapping rules
+ * An API configuration's categoryMappingRules is a JSON array of rules that
+ * categorize its products before the built-in keyword detection gets a say.
+ * A rule matches one product field (or any of them) by case-insensitive
+ * substring or regex; the highest-priority matching rule wins, ties going to
+ * the rule listed first. Products no rule matches keep the category the
+ * parser detected. Kept free of server imports so the rule editor can preview
+ * rules in the browser.
+ */
+
+export const CATEGORY_RULE_FIELDS = ['any', 'name', 'description', 'brand', 'category'] as const;
+export const CATEGORY_RULE_MATCHES = ['contains', 'regex'] as const;
+
+// The storefront's main categories; the sync files anything else under Other
+export const MAIN_CATEGORIES = [
+  'Cartridges', 'Disposables', 'Concentrates', 'Edibles',
+  'Flower', 'Pre Rolls', 'Accessories', 'Topicals', 'BYOB'
+];
+
+const MAX_RULES = 200;
+const MAX_PATTERN_LENGTH = 200;
+
+export type CategoryRuleField = typeof CATEGORY_RULE_FIELDS[number];
+export type CategoryRuleMatch = typeof CATEGORY_RULE_MATCHES[number];
+
+export interface CategoryMappingRule {
+  field: CategoryRuleField;
+  match: CategoryRuleMatch;
+  pattern: string;
+  priority: number;
+  mainCategory: string;
+  subCategory: string | null;
+}
+
+// What a rule can look at; `category` is the category the source itself gave
+export interface CategorizableProduct {
+  name: string;
+  description?: string | null;
+  brand?: string | null;
+  category?: string | null;
+}
+
+// One product of the last fetched feed with the category the parser detected
+export interface FetchedProductSample extends CategorizableProduct {
+  sourceId: string;
+  mainCategory: string;
+  subCategory: string | null;
+}
+
+export type CategoryRulesResult =
+  | { ok: true; rules: CategoryMappingRule[] }
+  | { ok: false; error: string };
+
+/**
+ * Check a decoded categoryMappingRules value, filling in defaults (priority 0,
+ * no sub category). Errors name the offending rule by its 1-based position.
+ */
+export function validateCategoryMappingRules(value: unknown): CategoryRulesResult {
+  if (!Array.isArray(value)) {
+    return { ok: false, error: 'Category mapping rules must be an array of rules' };
+  }
+  if (value.length > MAX_RULES) {
+    return { ok: false, error: `At most ${MAX_RULES} category mapping rules are allowed` };
+  }
+
+  const rules: CategoryMappingRule[] = [];
+  for (let i = 0; i < value.length; i++) {
+    const rule = value[i];
+    const label = `Rule ${i + 1}`;
+
+    if (!rule || typeof rule !== 'object') {
+      return { ok: false, error: `${label} must be an object` };
+    }
+
+    const field = rule.field ?? 'any';
+    if (!CATEGORY_RULE_FIELDS.includes(field)) {
+      return { ok: false, error: `${label}: field must be one of ${CATEGORY_RULE_FIELDS.join(', ')}` };
+    }
+
+    const match = rule.match ?? 'contains';
+    if (!CATEGORY_RULE_MATCHES.includes(match)) {
+      return { ok: false, error: `${label}: match must be contains or regex` };
+    }
+
+    if (typeof rule.pattern !== 'string' || rule.pattern.trim() === '') {
+      return { ok: false, error: `${label}: pattern is required` };
+    }
+    if (rule.pattern.length > MAX_PATTERN_LENGTH) {
+      return { ok: false, error: `${label}: pattern must be at most ${MAX_PATTERN_LENGTH} characters` };
+    }
+    if (match === 'regex') {
+      try {
+        new RegExp(rule.pattern, 'i');
+      } catch (error) {
+        return { ok: false, error: `${label}: invalid regex (${(error as Error).message})` };
+      }
+    }
+
+    const priority = rule.priority ?? 0;
+    if (typeof priority !== 'number' || !Number.isInteger(priority)) {
+      return { ok: false, error: `${label}: priority must be a whole number` };
+    }
+
+    if (!MAIN_CATEGORIES.includes(rule.mainCategory)) {
+      return { ok: false, error: `${label}: main category must be one of ${MAIN_CATEGORIES.join(', ')}` };
+    }
+
+    const subCategory = rule.subCategory ?? null;
+    if (subCategory !== null && typeof subCategory !== 'string') {
+      return { ok: false, error: `${label}: sub category must be text` };
+    }
+
+    rules.push({
+      field,
+      match,
+      pattern: rule.pattern,
+      priority,
+      mainCategory: rule.mainCategory,
+      subCategory: subCategory?.trim() || null,
+    });
+  }
+
+  return { ok: true, rules };
+}
+
+/**
+ * Decode a configuration's stored rules. Null and empty mean no rules; a value
+ * that no longer validates is reported rather than half-applied.
+ */
+export function parseCategoryMappingRules(json: string | null): CategoryRulesResult {
+  if (!json || json.trim() === '') {
+    return { ok: true, rules: [] };
+  }
+
+  try {
+    return validateCategoryMappingRules(JSON.parse(json));
+  } catch {
+    return { ok: false, error: 'Category mapping rules must be valid JSON' };
+  }
+}
+
+function fieldValues(product: CategorizableProduct, field: CategoryRuleField): string[] {
+  if (field === 'any') {
+    return [product.name, product.description, product.brand, product.category]
+      .filter((value): value is string => !!value);
+  }
+  const value = product[field];
+  return value ? [value] : [];
+}
+
+function ruleMatches(rule: CategoryMappingRule, product: CategorizableProduct): boolean {
+  const values = fieldValues(product, rule.field);
+
+  if (rule.match === 'regex') {
+    const regex = new RegExp(rule.pattern, 'i');
+    return values.some(value => regex.test(value));
+  }
+
+  const needle = rule.pattern.toLowerCase();
+  return values.some(value => value.toLowerCase().includes(needle));
+}
+
+// Highest priority first; sort is stable so equal priorities keep their listed order
+function byPriority(rules: CategoryMappingRule[]): CategoryMappingRule[] {
+  return [...rules].sort((a, b) => b.priority - a.priority);
+}
+
+/**
+ * The rule that decides this product's category, with its index in `rules`
+ * so an editor can point at it, or null to fall back to the detected category.
+ */
+export function matchCategoryRule(
+  rules: CategoryMappingRule[],
+  product: CategorizableProduct
+): { rule: CategoryMappingRule; index: number } | null {
+  for (const rule of byPriority(rules)) {
+    if (ruleMatches(rule, product)) {
+      return { rule, index: rules.indexOf(rule) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Recategorize the products a rule matches. Returns new product objects and
+ * how many were matched; the rest are passed through untouched. A rule
+ * without a sub category keeps whatever sub category the source gave.
+ */
+export function applyCategoryMappingRules<T extends CategorizableProduct & { mainCategory: string; subCategory?: string | null }>(
+  products: T[],
+  rules: CategoryMappingRule[]
+): { products: T[]; matched: number } {
+  if (rules.length === 0) {
+    return { products, matched: 0 };
+  }
+
+  const ordered = byPriority(rules);
+  let matched = 0;
+
+  const categorized = products.map(product => {
+    const rule = ordered.find(candidate => ruleMatches(candidate, product));
+    if (!rule) {
+      return product;
+    }
+    matched++;
+    return {
+      ...product,
+      mainCategory: rule.mainCategory,
+      subCategory: rule.subCategory ?? product.subCategory,
+    } as T;
+  });
+
+  return { products: categorized, matched };
+}
@@ -0,0 +1,120 @@
+/**
+ * Esplora chain provider
+ * The REST API behind mempool.space and blockstream.info (and any self-hosted
+ * esplora, e.g. in front of a regtest node). Mempool instances also push
+ * address updates over their WebSocket; plain esplora is polled.
+ */
+
+import { MempoolWebSocket } from '@/lib/mempool-websocket';
+import {
+  fetchJson,
+  pollAddresses,
+  SATOSHIS_PER_COIN,
+  type ChainProvider,
+  type ChainSubscription,
+  type ChainTx,
+  type ChainTxHandler,
+} from '@/lib/chain-provider';
+
+interface EsploraTransaction {
+  txid: string;
+  vout: Array<{
+    scriptpubkey_address?: string;
+    scriptpubkey_type?: string;
+    value: number;
+  }>;
+  fee?: number;
+  status: {
+    confirmed: boolean;
+    block_height?: number;
+    block_hash?: string;
+    block_time?: number;
+  };
+}
+
+interface AddressUpdate {
+  mempool?: EsploraTransaction[];
+  confirmed?: EsploraTransaction[];
+}
+
+function toChainTx(tx: EsploraTransaction): ChainTx {
+  return {
+    txid: tx.txid,
+    confirmed: tx.status.confirmed,
+    blockHeight: tx.status.block_height ?? null,
+    blockHash: tx.status.block_hash ?? null,
+    blockTime: tx.status.block_time ?? null,
+    confirmations: null,
+    outputs: tx.vout.map(output => ({
+      address: output.scriptpubkey_address ?? null,
+      amount: output.value / SATOSHIS_PER_COIN,
+      amountBase: String(output.value),
+      scriptType: output.scriptpubkey_type,
+    })),
+    fee: tx.fee !== undefined ? tx.fee / SATOSHIS_PER_COIN : null,
+    raw: tx,
+  };
+}
+
+export class EsploraProvider implements ChainProvider {
+  readonly name: string;
+
+  // wsUrl is a mempool WebSocket endpoint; without one, subscriptions poll
+  constructor(private baseUrl: string, private wsUrl: string | null = null) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.name = `${wsUrl ? 'mempool' : 'esplora'}:${this.baseUrl}`;
+  }
+
+  async getTx(txid: string): Promise<ChainTx | null> {
+    const tx = await fetchJson<EsploraTransaction>(`${this.baseUrl}/tx/${txid}`, this.name);
+    return tx ? toChainTx(tx) : null;
+  }
+
+  async getTipHeight(): Promise<number> {
+    const response = await fetch(`${this.baseUrl}/blocks/tip/height`);
+    if (!response.ok) {
+      throw new Error(`${this.name} returned ${response.status} for the tip height`);
+    }
+    return parseInt(await response.text(), 10);
+  }
+
+  async getAddressTxs(address: string): Promise<ChainTx[]> {
+    const txs = await fetchJson<EsploraTransaction[]>(`${this.baseUrl}/address/${address}/txs`, this.name);
+    return (txs ?? []).map(toChainTx);
+  }
+
+  subscribe(addresses: string[], onTx: ChainTxHandler): ChainSubscription {
+    if (!this.wsUrl) {
+      return pollAddresses(this, addresses, onTx);
+    }
+
+    const socket = new MempoolWebSocket(this.wsUrl);
+    const unsubscribe = socket.onMessage(message => {
+      // A single tracked address arrives as address-transactions, several as multi-address-transactions
+      const updates = {
+        ...(message['multi-address-transactions'] ?? {}),
+        ...(message['address-transactions'] ?? {}),
+      } as Record<string, AddressUpdate>;
+
+      for (const [address, update] of Object.entries(updates)) {
+        for (const tx of [...(update.confirmed ?? []), ...(update.mempool ?? [])]) {
+          Promise.resolve(onTx(address, toChainTx(tx))).catch(error => {
+            console.error(`${this.name}: handling ${tx.txid} failed:`, error);
+          });
+        }
+      }
+    });
+
+    socket.connect()
+      .then(() => socket.trackAddresses(addresses))
+      .catch(error => console.error(`${this.name}: WebSocket connection failed:`, error));
+
+    return {
+      close: () => {
+        unsubscribe();
+        socket.disconnect();
+      },
+      isConnected: () => socket.isConnected(),
+    };
+  }
+}
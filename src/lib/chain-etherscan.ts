@@ -0,0 +1,223 @@
+/**
+ * Etherscan chain provider
+ * Ethereum through Etherscan's API (or a compatible one, e.g. a testnet
+ * Etherscan). A transaction's first output is its recipient and the ether it
+ * carried; a transaction that reverted carried nothing. ERC-20 transfers of
+ * the tokens the provider is given become further outputs tagged with the
+ * token's contract, decoded from the receipt's Transfer logs once mined and
+ * from the transfer() call while pending. Subscriptions poll.
+ */
+
+import {
+  pollAddresses,
+  type ChainOutput,
+  type ChainProvider,
+  type ChainSubscription,
+  type ChainTx,
+  type ChainTxHandler,
+} from '@/lib/chain-provider';
+
+interface EtherscanEnvelope<T> {
+  status?: string;
+  message?: string;
+  result: T;
+}
+
+interface EthTransaction {
+  hash: string;
+  to: string | null;
+  value: string;
+  input: string;
+  blockNumber: string | null;
+  blockHash: string | null;
+}
+
+interface EthLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+interface EthReceipt {
+  status: string;
+  gasUsed: string;
+  effectiveGasPrice?: string;
+  logs: EthLog[];
+}
+
+interface EthAccountTransaction {
+  hash: string;
+  to: string;
+  value: string;
+  blockNumber: string;
+  blockHash: string;
+  timeStamp: string;
+  confirmations: string;
+  isError: string;
+}
+
+interface EthTokenTransfer {
+  hash: string;
+  to: string;
+  value: string;
+  contractAddress: string;
+  blockNumber: string;
+  blockHash: string;
+  timeStamp: string;
+  confirmations: string;
+}
+
+export const WEI_PER_ETH = 1e18;
+
+// Transactions per address lookup, newest first
+const ADDRESS_TX_LIMIT = 50;
+
+// keccak256("Transfer(address,address,uint256)")
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a116628f55a4df523b3ef';
+// transfer(address,uint256)
+const TRANSFER_SELECTOR = '0xa9059cbb';
+
+const weiToEth = (wei: bigint) => Number(wei) / WEI_PER_ETH;
+
+// An address from the low 20 bytes of a 32-byte word
+const wordToAddress = (word: string) => '0x' + word.slice(-40).toLowerCase();
+
+export class EtherscanProvider implements ChainProvider {
+  readonly name: string;
+
+  // tokens maps lower-cased ERC-20 contracts to their decimals; transfers of other tokens are ignored
+  constructor(private baseUrl: string, private apiKey: string | null = null, private tokens: Record<string, number> = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.name = `etherscan:${this.baseUrl}`;
+  }
+
+  private tokenOutput(contract: string, to: string, value: bigint): ChainOutput | null {
+    const decimals = this.tokens[contract.toLowerCase()];
+    if (decimals === undefined) {
+      return null;
+    }
+    return { address: to, amount: Number(value) / 10 ** decimals, amountBase: value.toString(), token: contract.toLowerCase() };
+  }
+
+  // Token transfers a transaction made: its Transfer logs once mined, else what its transfer() call asks for
+  private tokenOutputs(tx: EthTransaction, receipt: EthReceipt | null): ChainOutput[] {
+    const outputs: Array<ChainOutput | null> = [];
+
+    if (receipt) {
+      for (const log of receipt.logs ?? []) {
+        if (log.topics.length === 3 && log.topics[0].toLowerCase() === TRANSFER_TOPIC && log.data.length > 2) {
+          outputs.push(this.tokenOutput(log.address, wordToAddress(log.topics[2]), BigInt(log.data)));
+        }
+      }
+    } else if (tx.to && tx.input.toLowerCase().startsWith(TRANSFER_SELECTOR) && tx.input.length >= 138) {
+      outputs.push(this.tokenOutput(tx.to, wordToAddress(tx.input.slice(10, 74)), BigInt('0x' + tx.input.slice(74, 138))));
+    }
+
+    return outputs.filter((output): output is ChainOutput => output !== null);
+  }
+
+  private async call<T>(params: Record<string, string>): Promise<EtherscanEnvelope<T>> {
+    const query = new URLSearchParams({ ...params, ...(this.apiKey ? { apikey: this.apiKey } : {}) });
+    const response = await fetch(`${this.baseUrl}?${query}`);
+    if (!response.ok) {
+      throw new Error(`${this.name} returned ${response.status} ${response.statusText}`);
+    }
+
+    const envelope = await response.json() as EtherscanEnvelope<T>;
+    // Errors come back as 200 with status 0 and the reason in result
+    if (envelope.status === '0' && envelope.message !== 'No transactions found') {
+      throw new Error(`${this.name}: ${typeof envelope.result === 'string' ? envelope.result : envelope.message}`);
+    }
+    return envelope;
+  }
+
+  async getTx(txid: string): Promise<ChainTx | null> {
+    const { result: tx } = await this.call<EthTransaction | null>({ module: 'proxy', action: 'eth_getTransactionByHash', txhash: txid });
+    if (!tx) {
+      return null;
+    }
+
+    const blockHeight = tx.blockNumber ? parseInt(tx.blockNumber, 16) : null;
+    let receipt: EthReceipt | null = null;
+    if (blockHeight !== null) {
+      ({ result: receipt } = await this.call<EthReceipt | null>({ module: 'proxy', action: 'eth_getTransactionReceipt', txhash: txid }));
+    }
+
+    const reverted = receipt?.status === '0x0';
+    const value = reverted ? BigInt(0) : BigInt(tx.value);
+
+    return {
+      txid: tx.hash,
+      confirmed: blockHeight !== null,
+      blockHeight,
+      blockHash: tx.blockHash,
+      blockTime: null,
+      confirmations: null,
+      outputs: [
+        ...(tx.to ? [{ address: tx.to, amount: weiToEth(value), amountBase: value.toString() }] : []),
+        // A reverted transaction's receipt has no logs, so it transferred nothing
+        ...this.tokenOutputs(tx, receipt),
+      ],
+      fee: receipt?.effectiveGasPrice ? weiToEth(BigInt(receipt.gasUsed) * BigInt(receipt.effectiveGasPrice)) : null,
+      raw: { transaction: tx, receipt },
+    };
+  }
+
+  async getTipHeight(): Promise<number> {
+    const { result } = await this.call<string>({ module: 'proxy', action: 'eth_blockNumber' });
+    return parseInt(result, 16);
+  }
+
+  // Ether and token payments are listed separately; a transaction in both becomes one ChainTx
+  async getAddressTxs(address: string): Promise<ChainTx[]> {
+    const list = { sort: 'desc', page: '1', offset: String(ADDRESS_TX_LIMIT), address };
+    const { result } = await this.call<EthAccountTransaction[]>({ module: 'account', action: 'txlist', ...list });
+    const txs = new Map<string, ChainTx>();
+
+    for (const tx of Array.isArray(result) ? result : []) {
+      const value = tx.isError === '1' ? BigInt(0) : BigInt(tx.value);
+      txs.set(tx.hash, {
+        txid: tx.hash,
+        confirmed: true,
+        blockHeight: parseInt(tx.blockNumber, 10),
+        blockHash: tx.blockHash,
+        blockTime: parseInt(tx.timeStamp, 10),
+        confirmations: parseInt(tx.confirmations, 10),
+        outputs: [{ address: tx.to, amount: weiToEth(value), amountBase: value.toString() }],
+        fee: null,
+        raw: tx,
+      });
+    }
+
+    if (Object.keys(this.tokens).length > 0) {
+      const { result: transfers } = await this.call<EthTokenTransfer[]>({ module: 'account', action: 'tokentx', ...list });
+      for (const transfer of Array.isArray(transfers) ? transfers : []) {
+        const output = this.tokenOutput(transfer.contractAddress, transfer.to, BigInt(transfer.value));
+        if (!output) continue;
+
+        const existing = txs.get(transfer.hash);
+        if (existing) {
+          existing.outputs.push(output);
+          continue;
+        }
+        txs.set(transfer.hash, {
+          txid: transfer.hash,
+          confirmed: true,
+          blockHeight: parseInt(transfer.blockNumber, 10),
+          blockHash: transfer.blockHash,
+          blockTime: parseInt(transfer.timeStamp, 10),
+          confirmations: parseInt(transfer.confirmations, 10),
+          outputs: [output],
+          fee: null,
+          raw: transfer,
+        });
+      }
+    }
+
+    return Array.from(txs.values()).sort((a, b) => (b.blockHeight ?? 0) - (a.blockHeight ?? 0));
+  }
+
+  subscribe(addresses: string[], onTx: ChainTxHandler): ChainSubscription {
+    return pollAddresses(this, addresses, onTx);
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Fake chain provider
+ * An in-memory chain standing in for a regtest node, so the deposit flow
+ * (address scans, txid verification, confirmations, crediting) runs offline.
+ * Payments are broadcast with send() and confirmed with mine(); subscribers
+ * hear about both. One chain per network lives on globalThis so every route
+ * in the server process sees the same one.
+ */
+
+import { randomBytes } from 'crypto';
+import {
+  SATOSHIS_PER_COIN,
+  type ChainProvider,
+  type ChainSubscription,
+  type ChainTx,
+  type ChainTxHandler,
+} from '@/lib/chain-provider';
+
+// Height of the chain's first block, so confirmation math has room either side
+const GENESIS_HEIGHT = 100;
+
+export interface FakeChainOptions {
+  // Ethereum-style chains use 0x-prefixed txids and 18 decimals
+  txidPrefix?: string;
+  decimals?: number;
+  // Decimals of the ERC-20 tokens it carries, by lower-cased contract
+  tokens?: Record<string, number>;
+}
+
+// Exact for up to 8 decimal places of the amount, whatever the chain's decimals
+function toBaseUnits(amount: number, decimals: number): string {
+  const sats = BigInt(Math.round(amount * SATOSHIS_PER_COIN));
+  return decimals >= 8
+    ? (sats * BigInt(10) ** BigInt(decimals - 8)).toString()
+    : (sats / BigInt(10) ** BigInt(8 - decimals)).toString();
+}
+
+export class FakeChainProvider implements ChainProvider {
+  readonly name: string;
+  private txs = new Map<string, ChainTx>();
+  private height = GENESIS_HEIGHT;
+  private subscribers = new Set<{ addresses: Set<string>; onTx: ChainTxHandler }>();
+
+  constructor(readonly network: string, private options: FakeChainOptions = {}) {
+    this.name = `fake:${network}`;
+  }
+
+  async getTx(txid: string): Promise<ChainTx | null> {
+    return this.txs.get(txid.toLowerCase()) ?? null;
+  }
+
+  async getTipHeight(): Promise<number> {
+    return this.height;
+  }
+
+  async getAddressTxs(address: string): Promise<ChainTx[]> {
+    return Array.from(this.txs.values())
+      .filter(tx => tx.outputs.some(output => output.address?.toLowerCase() === address.toLowerCase()))
+      .reverse();
+  }
+
+  subscribe(addresses: string[], onTx: ChainTxHandler): ChainSubscription {
+    const subscriber = { addresses: new Set(addresses), onTx };
+    this.subscribers.add(subscriber);
+    return {
+      close: () => { this.subscribers.delete(subscriber); },
+      isConnected: () => this.subscribers.has(subscriber),
+    };
+  }
+
+  // Broadcast a payment to the mempool; outputs with a token are transfers of that contract
+  send(outputs: Array<{ address: string; amount: number; token?: string }>): ChainTx {
+    const tx: ChainTx = {
+      txid: (this.options.txidPrefix ?? '') + randomBytes(32).toString('hex'),
+      confirmed: false,
+      blockHeight: null,
+      blockHash: null,
+      blockTime: null,
+      confirmations: null,
+      outputs: outputs.map(output => {
+        if (!output.token) {
+          return { address: output.address, amount: output.amount, amountBase: toBaseUnits(output.amount, this.options.decimals ?? 8) };
+        }
+        const token = output.token.toLowerCase();
+        const decimals = this.options.tokens?.[token];
+        if (decimals === undefined) {
+          throw new Error(`${this.name} doesn't carry token ${token}`);
+        }
+        return { address: output.address, amount: output.amount, amountBase: toBaseUnits(output.amount, decimals), token };
+      }),
+      fee: 0,
+      raw: null,
+    };
+    this.txs.set(tx.txid, tx);
+    this.notify(tx);
+    return tx;
+  }
+
+  // Mine blocks; the first takes every mempool transaction
+  mine(blocks = 1): number {
+    for (let i = 0; i < blocks; i++) {
+      this.height++;
+      const blockHash = randomBytes(32).toString('hex');
+      for (const tx of this.txs.values()) {
+        if (tx.confirmed) continue;
+        tx.confirmed = true;
+        tx.blockHeight = this.height;
+        tx.blockHash = blockHash;
+        tx.blockTime = Math.floor(Date.now() / 1000);
+        this.notify(tx);
+      }
+    }
+    return this.height;
+  }
+
+  private notify(tx: ChainTx): void {
+    // Once per address, however many outputs pay it
+    const addresses = new Set(tx.outputs.map(output => output.address));
+    for (const subscriber of this.subscribers) {
+      for (const address of addresses) {
+        if (address && subscriber.addresses.has(address)) {
+          Promise.resolve(subscriber.onTx(address, tx)).catch(error => {
+            console.error(`${this.name}: handling ${tx.txid} failed:`, error);
+          });
+        }
+      }
+    }
+  }
+}
+
+// Survives dev-server hot reloads, which re-evaluate this module
+const globalForFakeChains = globalThis as unknown as { fakeChains?: Map<string, FakeChainProvider> };
+
+export function getFakeChain(network: string, options: FakeChainOptions = {}): FakeChainProvider {
+  globalForFakeChains.fakeChains ??= new Map();
+  let chain = globalForFakeChains.fakeChains.get(network);
+  if (!chain) {
+    chain = new FakeChainProvider(network, options);
+    globalForFakeChains.fakeChains.set(network, chain);
+  }
+  return chain;
+}
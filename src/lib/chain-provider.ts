@@ -0,0 +1,162 @@
+/**
+ * Chain providers
+ * Everything that reads a blockchain (verifying a txid, counting
+ * confirmations, scanning a deposit address, watching addresses live) goes
+ * through a ChainProvider, which turns one block explorer's responses into a
+ * common ChainTx shape. Implementations live in chain-esplora.ts,
+ * chain-sochain.ts, chain-etherscan.ts and chain-fake.ts; chains.ts picks the
+ * configured ones for a currency and fails over between them.
+ */
+
+export interface ChainOutput {
+  // Null for outputs without an address (OP_RETURN, bare scripts)
+  address: string | null;
+  // In whole coins
+  amount: number;
+  // In the chain's smallest unit (satoshis, wei), exact
+  amountBase: string;
+  // e.g. v0_p2wpkh, when the provider reports it
+  scriptType?: string;
+  // Lower-cased contract of an ERC-20 transfer; absent for the chain's own coin
+  token?: string;
+}
+
+export interface ChainTx {
+  txid: string;
+  confirmed: boolean;
+  blockHeight: number | null;
+  blockHash: string | null;
+  // Unix seconds
+  blockTime: number | null;
+  // Set by providers that report confirmations rather than block heights
+  confirmations: number | null;
+  outputs: ChainOutput[];
+  // In whole coins, when the provider reports it
+  fee: number | null;
+  // The explorer's own response, for debugging
+  raw: unknown;
+}
+
+export interface ChainSubscription {
+  close(): void;
+  isConnected(): boolean;
+}
+
+export type ChainTxHandler = (address: string, tx: ChainTx) => void | Promise<void>;
+
+export interface ChainProvider {
+  // Kind and base URL, shown in verification meta and errors
+  readonly name: string;
+  // Null when the chain doesn't know the transaction; throws when the explorer fails
+  getTx(txid: string): Promise<ChainTx | null>;
+  getTipHeight(): Promise<number>;
+  // Recent transactions paying or spending the address, newest first
+  getAddressTxs(address: string): Promise<ChainTx[]>;
+  // Calls onTx when a transaction to one of the addresses appears or confirms
+  subscribe(addresses: string[], onTx: ChainTxHandler): ChainSubscription;
+}
+
+export const SATOSHIS_PER_COIN = 100000000;
+
+// Poll interval for providers without a push API
+export const SUBSCRIPTION_POLL_MS = 30 * 1000;
+
+/**
+ * What a transaction paid to an address, summed over its outputs; null when it
+ * paid nothing. Counts the chain's own coin, or the given token's transfers.
+ */
+export function receivedBy(tx: ChainTx, address: string, token: string | null = null): { amount: number; amountSats: number } | null {
+  const outputs = tx.outputs.filter(output =>
+    output.address !== null &&
+    output.address.toLowerCase() === address.toLowerCase() &&
+    (output.token ?? null) === token
+  );
+  if (outputs.length === 0) {
+    return null;
+  }
+
+  const amount = outputs.reduce((sum, output) => sum + output.amount, 0);
+  return { amount, amountSats: Math.round(amount * SATOSHIS_PER_COIN) };
+}
+
+export async function getConfirmations(provider: ChainProvider, tx: ChainTx): Promise<number> {
+  if (tx.confirmations !== null) {
+    return tx.confirmations;
+  }
+  if (!tx.confirmed || tx.blockHeight === null) {
+    return 0;
+  }
+  return (await provider.getTipHeight()) - tx.blockHeight + 1;
+}
+
+// A transaction for verification meta, without the explorer's raw response
+export function txSummary(tx: ChainTx, provider: ChainProvider) {
+  return {
+    txid: tx.txid,
+    confirmed: tx.confirmed,
+    blockHeight: tx.blockHeight,
+    blockHash: tx.blockHash,
+    blockTime: tx.blockTime,
+    outputs: tx.outputs,
+    fee: tx.fee,
+    provider: provider.name,
+  };
+}
+
+/**
+ * subscribe() for providers without a push API: look the addresses up every
+ * intervalMs and report transactions not seen before, and again once they confirm.
+ */
+export function pollAddresses(
+  provider: ChainProvider,
+  addresses: string[],
+  onTx: ChainTxHandler,
+  intervalMs = SUBSCRIPTION_POLL_MS
+): ChainSubscription {
+  const seen = new Map<string, boolean>();
+  let polling = false;
+
+  const poll = async () => {
+    if (polling) return;
+    polling = true;
+    try {
+      for (const address of addresses) {
+        try {
+          for (const tx of await provider.getAddressTxs(address)) {
+            const key = `${address}:${tx.txid}`;
+            if (seen.get(key) === tx.confirmed) continue;
+            seen.set(key, tx.confirmed);
+            await onTx(address, tx);
+          }
+        } catch (error) {
+          console.error(`${provider.name}: polling ${address} failed:`, error);
+        }
+      }
+    } finally {
+      polling = false;
+    }
+  };
+
+  const timer = setInterval(poll, intervalMs);
+  void poll();
+
+  let closed = false;
+  return {
+    close: () => {
+      closed = true;
+      clearInterval(timer);
+    },
+    isConnected: () => !closed,
+  };
+}
+
+export async function fetchJson<T>(url: string, providerName: string): Promise<T | null> {
+  const response = await fetch(url);
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`${providerName} returned ${response.status} ${response.statusText}`);
+  }
+  return await response.json() as T;
+}
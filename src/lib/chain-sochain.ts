@@ -0,0 +1,108 @@
+/**
+ * SoChain chain provider
+ * SoChain's v2 API for Dogecoin (and the other coins it indexes). It reports
+ * confirmations directly and has no push API, so subscriptions poll.
+ */
+
+import {
+  fetchJson,
+  pollAddresses,
+  SATOSHIS_PER_COIN,
+  type ChainProvider,
+  type ChainSubscription,
+  type ChainTx,
+  type ChainTxHandler,
+} from '@/lib/chain-provider';
+
+interface SoChainEnvelope<T> {
+  status: string;
+  data: T;
+}
+
+interface SoChainTransaction {
+  txid: string;
+  blockhash?: string | null;
+  block_no: number | null;
+  confirmations: number;
+  time?: number | null;
+  fee?: string | null;
+  outputs: Array<{ address: string; value: string }>;
+}
+
+interface SoChainReceived {
+  txs: Array<{ txid: string; value: string; block_no: number | null; confirmations?: number; time?: number | null }>;
+}
+
+const toCoinOutput = (address: string, value: string) => {
+  const amount = parseFloat(value);
+  return { address, amount, amountBase: String(Math.round(amount * SATOSHIS_PER_COIN)) };
+};
+
+export class SoChainProvider implements ChainProvider {
+  readonly name: string;
+
+  // network is SoChain's code for the chain, e.g. DOGE
+  constructor(private baseUrl: string, private network: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.name = `sochain:${this.baseUrl}`;
+  }
+
+  private async get<T>(path: string): Promise<T | null> {
+    const envelope = await fetchJson<SoChainEnvelope<T>>(`${this.baseUrl}/${path}`, this.name);
+    if (!envelope) {
+      return null;
+    }
+    if (envelope.status !== 'success') {
+      throw new Error(`${this.name} returned status ${envelope.status}`);
+    }
+    return envelope.data;
+  }
+
+  async getTx(txid: string): Promise<ChainTx | null> {
+    const tx = await this.get<SoChainTransaction>(`tx/${this.network}/${txid}`);
+    if (!tx) {
+      return null;
+    }
+
+    return {
+      txid: tx.txid,
+      confirmed: tx.confirmations > 0,
+      blockHeight: tx.block_no ?? null,
+      blockHash: tx.blockhash ?? null,
+      blockTime: tx.time ?? null,
+      confirmations: tx.confirmations,
+      outputs: tx.outputs.map(output => toCoinOutput(output.address, output.value)),
+      fee: tx.fee ? parseFloat(tx.fee) : null,
+      raw: tx,
+    };
+  }
+
+  async getTipHeight(): Promise<number> {
+    const info = await this.get<{ blocks: number }>(`get_info/${this.network}`);
+    if (!info) {
+      throw new Error(`${this.name} has no network ${this.network}`);
+    }
+    return info.blocks;
+  }
+
+  // Only what the address received; SoChain lists each transaction's payment to it
+  async getAddressTxs(address: string): Promise<ChainTx[]> {
+    const received = await this.get<SoChainReceived>(`get_tx_received/${this.network}/${address}`);
+
+    return (received?.txs ?? []).map(tx => ({
+      txid: tx.txid,
+      confirmed: tx.block_no !== null,
+      blockHeight: tx.block_no,
+      blockHash: null,
+      blockTime: tx.time ?? null,
+      confirmations: tx.confirmations ?? null,
+      outputs: [toCoinOutput(address, tx.value)],
+      fee: null,
+      raw: tx,
+    }));
+  }
+
+  subscribe(addresses: string[], onTx: ChainTxHandler): ChainSubscription {
+    return pollAddresses(this, addresses, onTx);
+  }
+}
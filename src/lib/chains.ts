@@ -0,0 +1,228 @@
+/**
+ * Chain provider configuration
+ * Which explorers serve each network, in order of preference, from
+ * CHAIN_PROVIDERS_<NETWORK> (e.g. CHAIN_PROVIDERS_BTC), a comma-separated
+ * list of kind:baseUrl entries. Kinds are mempool (esplora with a WebSocket),
+ * esplora, sochain, etherscan (ETHERSCAN_API_KEY is sent when set) and fake,
+ * the in-memory stand-in for a regtest node, which takes no URL. A network
+ * with several providers fails over: an explorer that errors is skipped for
+ * the next one, and a transaction counts as unknown only when no explorer
+ * that answered has it.
+ *
+ * ERC-20 stablecoins ride on their network's providers: a USDT payment is an
+ * ETH transaction whose Transfer log pays the address. Each network has its
+ * own confirmation threshold, overridable with CONFIRMATIONS_<NETWORK>.
+ */
+
+import { EsploraProvider } from '@/lib/chain-esplora';
+import { EtherscanProvider } from '@/lib/chain-etherscan';
+import { FakeChainProvider, getFakeChain } from '@/lib/chain-fake';
+import { SoChainProvider } from '@/lib/chain-sochain';
+import type { ChainProvider, ChainSubscription, ChainTx, ChainTxHandler } from '@/lib/chain-provider';
+import { hdCurrencyCode } from '@/lib/hd-wallet';
+
+const DEFAULT_PROVIDERS: Record<string, string> = {
+  BTC: 'mempool:https://mempool.space/api,esplora:https://blockstream.info/api',
+  BTC_TESTNET: 'mempool:https://mempool.space/testnet/api,esplora:https://blockstream.info/testnet/api',
+  DOGE: 'sochain:https://sochain.com/api/v2',
+  ETH: 'etherscan:https://api.etherscan.io/api',
+};
+
+// Networks with 0x-prefixed txids and 18 decimals
+const EVM_NETWORKS = ['ETH'];
+
+// Confirmations before a payment is credited, by network
+const REQUIRED_CONFIRMATIONS: Record<string, number> = {
+  BTC: 2,
+  BTC_TESTNET: 2,
+  DOGE: 6,
+  ETH: 12,
+};
+const DEFAULT_REQUIRED_CONFIRMATIONS = 2;
+
+export interface ChainToken {
+  network: string;
+  // Lower-cased
+  contract: string;
+  decimals: number;
+  // Credited 1:1 in USD rather than at a market rate
+  usdPegged: boolean;
+}
+
+// ERC-20 tokens accepted for deposits, by ticker. Contracts are mainnet's;
+// TOKEN_CONTRACT_<TICKER> points one elsewhere, e.g. at a testnet deployment
+const TOKENS: Record<string, ChainToken> = {
+  USDT: { network: 'ETH', contract: '0xdac17f958d2ee523a2206206994597c13d831ec7', decimals: 6, usdPegged: true },
+  USDC: { network: 'ETH', contract: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', decimals: 6, usdPegged: true },
+};
+
+// SoChain's name for a network where it differs from ours
+const SOCHAIN_NETWORKS: Record<string, string> = {
+  BTC_TESTNET: 'BTCTEST',
+};
+
+/**
+ * The network a currency's payments live on. Testnet and regtest Bitcoin
+ * addresses (used when testing with a tpub/vpub) get their own providers.
+ */
+export function chainNetwork(currency: string, address?: string | null): string {
+  const code = hdCurrencyCode(currency);
+  if (TOKENS[code]) {
+    return TOKENS[code].network;
+  }
+  if (code === 'BTC' && address && /^(tb1|bcrt1|[mn2])/.test(address)) {
+    return 'BTC_TESTNET';
+  }
+  return code;
+}
+
+// The ERC-20 token a currency is, or null for a chain's own coin
+export function chainToken(currency: string): ChainToken | null {
+  const code = hdCurrencyCode(currency);
+  const token = TOKENS[code];
+  if (!token) {
+    return null;
+  }
+  const contract = process.env[`TOKEN_CONTRACT_${code}`];
+  return contract ? { ...token, contract: contract.trim().toLowerCase() } : token;
+}
+
+// Decimals of every token on a network, by contract, for providers decoding transfers
+function networkTokens(network: string): Record<string, number> {
+  const tokens: Record<string, number> = {};
+  for (const code of Object.keys(TOKENS)) {
+    const token = chainToken(code)!;
+    if (token.network === network) {
+      tokens[token.contract] = token.decimals;
+    }
+  }
+  return tokens;
+}
+
+// Whether a currency lives on an EVM network, with 0x-prefixed txids and addresses
+export function isEvmCurrency(currency: string): boolean {
+  return EVM_NETWORKS.includes(chainNetwork(currency));
+}
+
+export function requiredConfirmations(currency: string, address?: string | null): number {
+  const network = chainNetwork(currency, address);
+  const configured = parseInt(process.env[`CONFIRMATIONS_${network}`] ?? '', 10);
+  if (configured > 0) {
+    return configured;
+  }
+  return REQUIRED_CONFIRMATIONS[network] ?? DEFAULT_REQUIRED_CONFIRMATIONS;
+}
+
+function createProvider(network: string, entry: string): ChainProvider {
+  const separator = entry.indexOf(':');
+  const kind = (separator === -1 ? entry : entry.slice(0, separator)).trim().toLowerCase();
+  const url = separator === -1 ? '' : entry.slice(separator + 1).trim();
+
+  if (kind === 'fake') {
+    return getFakeChain(network, EVM_NETWORKS.includes(network) ? { txidPrefix: '0x', decimals: 18, tokens: networkTokens(network) } : {});
+  }
+  if (!url) {
+    throw new Error(`Chain provider "${entry}" for ${network} needs a base URL`);
+  }
+
+  switch (kind) {
+    case 'mempool':
+      return new EsploraProvider(url, `${url.replace(/^http/, 'ws').replace(/\/+$/, '')}/v1/ws`);
+    case 'esplora':
+      return new EsploraProvider(url);
+    case 'sochain':
+      return new SoChainProvider(url, SOCHAIN_NETWORKS[network] ?? network);
+    case 'etherscan':
+      return new EtherscanProvider(url, process.env.ETHERSCAN_API_KEY || null, networkTokens(network));
+    default:
+      throw new Error(`Unknown chain provider kind "${kind}" for ${network}`);
+  }
+}
+
+// Tries each provider in turn; see the file comment for what counts as a failure
+class FailoverProvider implements ChainProvider {
+  readonly name: string;
+
+  constructor(private providers: ChainProvider[]) {
+    this.name = providers.map(provider => provider.name).join(', ');
+  }
+
+  private async first<T>(call: (provider: ChainProvider) => Promise<T>): Promise<T> {
+    let lastError: unknown;
+    for (const provider of this.providers) {
+      try {
+        return await call(provider);
+      } catch (error) {
+        console.error(`${provider.name} failed, trying the next provider:`, error);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  async getTx(txid: string): Promise<ChainTx | null> {
+    let answered = false;
+    let lastError: unknown;
+
+    for (const provider of this.providers) {
+      try {
+        const tx = await provider.getTx(txid);
+        if (tx) {
+          return tx;
+        }
+        answered = true;
+      } catch (error) {
+        console.error(`${provider.name} failed, trying the next provider:`, error);
+        lastError = error;
+      }
+    }
+
+    if (answered) {
+      return null;
+    }
+    throw lastError;
+  }
+
+  getTipHeight(): Promise<number> {
+    return this.first(provider => provider.getTipHeight());
+  }
+
+  getAddressTxs(address: string): Promise<ChainTx[]> {
+    return this.first(provider => provider.getAddressTxs(address));
+  }
+
+  // Live updates come from the preferred provider only
+  subscribe(addresses: string[], onTx: ChainTxHandler): ChainSubscription {
+    return this.providers[0].subscribe(addresses, onTx);
+  }
+}
+
+const providerCache = new Map<string, ChainProvider[]>();
+
+function getProviders(network: string): ChainProvider[] {
+  let providers = providerCache.get(network);
+  if (!providers) {
+    const spec = process.env[`CHAIN_PROVIDERS_${network}`] || DEFAULT_PROVIDERS[network] || '';
+    providers = spec.split(',').filter(entry => entry.trim()).map(entry => createProvider(network, entry));
+    providerCache.set(network, providers);
+  }
+  return providers;
+}
+
+/**
+ * The provider for a currency, failing over between its configured explorers.
+ * Pass the address involved so testnet addresses reach testnet explorers.
+ * Null when nothing is configured for the network.
+ */
+export function getChainProvider(currency: string, address?: string | null): ChainProvider | null {
+  const providers = getProviders(chainNetwork(currency, address));
+  if (providers.length === 0) {
+    return null;
+  }
+  return providers.length === 1 ? providers[0] : new FailoverProvider(providers);
+}
+
+// The in-memory chain a network is configured with, for driving it by hand
+export function getConfiguredFakeChain(network: string): FakeChainProvider | null {
+  return getProviders(network).find((provider): provider is FakeChainProvider => provider instanceof FakeChainProvider) ?? null;
+}
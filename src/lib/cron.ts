@@ -0,0 +1,168 @@
+/**
+ * Cron expressions
+ * Standard five-field expressions (minute hour day-of-month month day-of-week)
+ * with `*`, numbers, ranges `a-b`, lists `a,b` and steps `a-b/n` (`*` takes
+ * a step too).
+ * Sync schedules use them as windows: `* 0-5 * * *` allows any minute from
+ * midnight to 05:59. Times are the server's local time. Kept free of server
+ * imports so client components can use it.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Cron ORs day-of-month and day-of-week when both are restricted
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+export type CronParseResult =
+  | { ok: true; schedule: CronSchedule }
+  | { ok: false; error: string };
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+] as const;
+
+// How far ahead nextCronMatch looks before deciding an expression never fires
+const SEARCH_LIMIT_DAYS = 366 * 5;
+
+function parseField(source: string, field: typeof FIELDS[number]): Set<number> | string {
+  const values = new Set<number>();
+
+  for (const part of source.split(',')) {
+    const [rangePart, stepPart, ...rest] = part.split('/');
+    if (rest.length > 0 || rangePart === '') {
+      return `Invalid ${field.name} "${part}"`;
+    }
+
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      return `Invalid step in ${field.name} "${part}"`;
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = Number(from);
+      end = Number(to);
+    } else {
+      start = Number(rangePart);
+      end = stepPart === undefined ? start : field.max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < field.min || end > field.max || start > end) {
+      return `${field.name[0].toUpperCase()}${field.name.slice(1)} must be between ${field.min} and ${field.max} ("${part}")`;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCronExpression(expression: string): CronParseResult {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    return { ok: false, error: 'Expected 5 fields: minute hour day-of-month month day-of-week' };
+  }
+
+  const sets: Set<number>[] = [];
+  for (let i = 0; i < FIELDS.length; i++) {
+    const parsed = parseField(parts[i], FIELDS[i]);
+    if (typeof parsed === 'string') {
+      return { ok: false, error: parsed };
+    }
+    sets.push(parsed);
+  }
+
+  // 7 is an alias for Sunday
+  const daysOfWeek = sets[4];
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    ok: true,
+    schedule: {
+      minutes: sets[0],
+      hours: sets[1],
+      daysOfMonth: sets[2],
+      months: sets[3],
+      daysOfWeek,
+      // As in Vixie cron, a field starting with '*' (like '*/2') doesn't restrict the day
+      dayOfMonthRestricted: !parts[2].startsWith('*'),
+      dayOfWeekRestricted: !parts[4].startsWith('*'),
+    },
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(date.getDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+export function matchesCron(schedule: CronSchedule, date: Date): boolean {
+  return schedule.months.has(date.getMonth() + 1) &&
+    matchesDay(schedule, date) &&
+    schedule.hours.has(date.getHours()) &&
+    schedule.minutes.has(date.getMinutes());
+}
+
+/**
+ * The first whole minute at or after `from` that the schedule matches, or
+ * null if it never does (e.g. 30 February). Skips non-matching months, days
+ * and hours in one step rather than walking every minute.
+ */
+export function nextCronMatch(schedule: CronSchedule, from: Date): Date | null {
+  const date = new Date(from);
+  if (date.getSeconds() > 0 || date.getMilliseconds() > 0) {
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+  }
+
+  const limit = from.getTime() + SEARCH_LIMIT_DAYS * 24 * 60 * 60 * 1000;
+
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  return null;
+}
@@ -0,0 +1,210 @@
+/**
+ * Deposit addresses
+ * A currency with an extended public key gives every new deposit an address
+ * of its own, taken from the key's next derivation index. A payment to such an
+ * address can only belong to that deposit, so the chain is scanned for them
+ * and they are recorded as incoming verifications already tied to the deposit
+ * and its customer; the regular polling confirms and credits them without the
+ * customer submitting a txid. Currencies without a key keep the shared static
+ * address and the txid flow.
+ */
+
+import { db, Database } from '@/db';
+import { cryptoWalletAddresses, deposits, incomingVerifications } from '@/db/schema';
+import { and, desc, eq, inArray, isNotNull, sql } from 'drizzle-orm';
+import { deriveReceiveAddress, hdCurrencyCode, hdCurrencyNames } from '@/lib/hd-wallet';
+import { recordPaymentSeen, type PaymentPricing } from '@/lib/deposit-quotes';
+import { chainToken, getChainProvider } from '@/lib/chains';
+import { receivedBy } from '@/lib/chain-provider';
+
+type Executor = Database | Parameters<Parameters<Database['transaction']>[0]>[0];
+type WalletAddress = typeof cryptoWalletAddresses.$inferSelect;
+type Deposit = typeof deposits.$inferSelect;
+
+// Pending deposits checked per scan, newest first
+const SCAN_LIMIT = 50;
+
+interface AddressPayment {
+  txid: string;
+  amountSats: number;
+  amountFloat: number;
+  blockHeight: number | null;
+}
+
+/**
+ * The address a new deposit should be paid to: the next derived address when
+ * the currency has an xpub (claiming its index), else the static address.
+ */
+export async function assignDepositAddress(wallet: WalletAddress): Promise<{ walletAddress: string; derivationIndex: number | null }> {
+  if (!wallet.xpub) {
+    return { walletAddress: wallet.address, derivationIndex: null };
+  }
+
+  // Claimed in one statement so two deposits created at once never share an index
+  const [claimed] = await db.update(cryptoWalletAddresses)
+    .set({ nextDerivationIndex: sql`${cryptoWalletAddresses.nextDerivationIndex} + 1` })
+    .where(eq(cryptoWalletAddresses.id, wallet.id))
+    .returning({ nextDerivationIndex: cryptoWalletAddresses.nextDerivationIndex });
+
+  const derivationIndex = claimed.nextDerivationIndex - 1;
+  return {
+    walletAddress: deriveReceiveAddress(wallet.cryptocurrency, wallet.xpub, derivationIndex),
+    derivationIndex,
+  };
+}
+
+function isCurrency(currency: string) {
+  return inArray(sql`upper(${deposits.cryptocurrency})`, hdCurrencyNames(currency));
+}
+
+// Addresses of pending deposits with a derived address, for live tracking
+export async function getPendingDepositAddresses(currency: string): Promise<string[]> {
+  const rows = await db.select({ walletAddress: deposits.walletAddress })
+    .from(deposits)
+    .where(and(eq(deposits.status, 'pending'), isNotNull(deposits.derivationIndex), isCurrency(currency)));
+  return rows.map(row => row.walletAddress);
+}
+
+// The pending deposit a derived address belongs to, if any
+export async function findDepositByAddress(currency: string, address: string): Promise<Deposit | null> {
+  const [deposit] = await db.select()
+    .from(deposits)
+    .where(and(
+      eq(deposits.walletAddress, address),
+      eq(deposits.status, 'pending'),
+      isNotNull(deposits.derivationIndex),
+      isCurrency(currency)
+    ))
+    .limit(1);
+  return deposit ?? null;
+}
+
+async function fetchAddressPayments(currency: string, address: string): Promise<AddressPayment[]> {
+  const provider = getChainProvider(currency, address);
+  if (!provider) {
+    return [];
+  }
+
+  const token = chainToken(currency)?.contract;
+  const payments: AddressPayment[] = [];
+  for (const tx of await provider.getAddressTxs(address)) {
+    const received = receivedBy(tx, address, token);
+    if (received && received.amountSats > 0) {
+      payments.push({ txid: tx.txid, amountSats: received.amountSats, amountFloat: received.amount, blockHeight: tx.blockHeight });
+    }
+  }
+  return payments;
+}
+
+/**
+ * Record a payment to a deposit's derived address as an incoming verification
+ * owned by the deposit's customer. Returns false when the transaction's
+ * payment to this address is already known.
+ */
+export async function recordDepositPayment(
+  deposit: Deposit,
+  payment: AddressPayment,
+  trackingSource: string
+): Promise<boolean> {
+  const now = new Date().toISOString();
+  const currency = hdCurrencyCode(deposit.cryptocurrency);
+
+  const inserted = await db.insert(incomingVerifications)
+    .values({
+      txid: payment.txid,
+      currency,
+      matchedAddress: deposit.walletAddress,
+      amountSats: payment.amountSats,
+      amountFloat: payment.amountFloat,
+      confirmed: false,
+      credited: false,
+      firstSeen: now,
+      lastChecked: now,
+      meta: JSON.stringify({ blockHeight: payment.blockHeight, trackingSource, depositId: deposit.id, createdAt: now }),
+      createdAt: now,
+      updatedAt: now,
+      userId: deposit.userId,
+      depositId: deposit.id,
+      retryCount: 0,
+    })
+    .onConflictDoNothing({
+      target: [incomingVerifications.txid, incomingVerifications.currency, incomingVerifications.matchedAddress],
+    })
+    .returning({ id: incomingVerifications.id });
+
+  if (inserted.length === 0) {
+    return false;
+  }
+
+  await recordPaymentSeen(deposit, payment.amountFloat, now);
+
+  // Shows the customer their payment was seen; the first payment wins if several arrive
+  if (!deposit.transactionId) {
+    await db.update(deposits)
+      .set({ transactionId: payment.txid, updatedAt: now })
+      .where(eq(deposits.id, deposit.id));
+  }
+
+  return true;
+}
+
+/**
+ * Look up payments to the derived addresses of pending deposits and record
+ * new ones. One address failing to load doesn't stop the rest.
+ */
+export async function scanDepositAddresses(): Promise<{ scanned: number; matched: number; errors: string[] }> {
+  const pending = await db.select()
+    .from(deposits)
+    .where(and(eq(deposits.status, 'pending'), isNotNull(deposits.derivationIndex)))
+    .orderBy(desc(deposits.createdAt))
+    .limit(SCAN_LIMIT);
+
+  let matched = 0;
+  const errors: string[] = [];
+
+  for (const deposit of pending) {
+    try {
+      const payments = await fetchAddressPayments(hdCurrencyCode(deposit.cryptocurrency), deposit.walletAddress);
+      for (const payment of payments) {
+        if (await recordDepositPayment(deposit, payment, 'address-scan')) {
+          matched++;
+        }
+      }
+    } catch (error) {
+      errors.push(`Deposit ${deposit.id}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return { scanned: pending.length, matched, errors };
+}
+
+/**
+ * Complete the deposit a confirmed payment was matched to. Does nothing when
+ * the deposit is no longer pending, so a second payment doesn't complete it twice.
+ * Runs on the caller's transaction so the completion and the credit land together.
+ */
+export async function completeMatchedDeposit(
+  executor: Executor,
+  depositId: number,
+  payment: { txid: string; amountFloat: number; confirmations: number; pricing: PaymentPricing; notes: string }
+): Promise<boolean> {
+  const now = new Date().toISOString();
+  const completed = await executor.update(deposits)
+    .set({
+      status: 'completed',
+      amount: payment.amountFloat,
+      credits: payment.pricing.credits,
+      settledRate: payment.pricing.rate,
+      ...(payment.pricing.quoteStatus ? { quoteStatus: payment.pricing.quoteStatus } : {}),
+      notes: payment.notes,
+      transactionId: payment.txid,
+      confirmations: payment.confirmations,
+      verifiedAt: now,
+      verificationError: null,
+      updatedAt: now,
+    })
+    .where(and(eq(deposits.id, depositId), eq(deposits.status, 'pending')))
+    .returning({ id: deposits.id });
+
+  return completed.length > 0;
+}
@@ -0,0 +1,262 @@
+/**
+ * Deposit quotes
+ * A deposit locks a USD exchange rate when it is created: the customer says
+ * how many dollars they want to deposit and is quoted the coin amount at the
+ * current rate, valid for QUOTE_TTL_MINUTES. A payment first seen before the
+ * quote expires is credited at the locked rate however far the market moves
+ * before it confirms; one seen later is priced at the rate when it confirms.
+ * Credits are always for what was actually sent, and a payment noticeably
+ * short of or above the quoted amount marks the deposit under- or overpaid.
+ * The lock only covers the quoted amount: whatever an overpayment sends
+ * beyond it is priced at the rate when it confirms.
+ * An unpaid deposit can take a fresh quote once its quote has expired.
+ * USD stablecoins are always priced at exactly $1.
+ */
+
+import { db } from '@/db';
+import { deposits } from '@/db/schema';
+import { and, eq, isNull, lt } from 'drizzle-orm';
+import { hdCurrencyCode } from '@/lib/hd-wallet';
+import { chainToken } from '@/lib/chains';
+
+type Deposit = typeof deposits.$inferSelect;
+
+export const QUOTE_TTL_MINUTES = 30;
+
+// Payments within this fraction of the quoted amount count as exact (fees, rounding)
+export const PAYMENT_TOLERANCE = 0.01;
+
+export const MIN_DEPOSIT_USD = 1;
+
+// awaiting_payment → paid | underpaid | overpaid, or expired when nothing was seen in time
+export type QuoteStatus = 'awaiting_payment' | 'paid' | 'underpaid' | 'overpaid' | 'expired';
+
+export interface UsdRate {
+  rate: number;
+  source: string;
+}
+
+export interface DepositQuote {
+  quotedUsd: number;
+  expectedAmount: number;
+  quoteRate: number;
+  quoteSource: string;
+  quotedAt: string;
+  quoteExpiresAt: string;
+  quoteStatus: QuoteStatus;
+}
+
+export interface PaymentPricing {
+  credits: number;
+  // Averaged over the whole payment when an overpayment's excess was priced separately
+  rate: number;
+  rateSource: string;
+  quoteStatus: QuoteStatus | null;
+  // The part of an overpayment beyond the quote, at the rate when it confirmed
+  excess: { amount: number; rate: number; rateSource: string } | null;
+}
+
+const COINGECKO_IDS: Record<string, string> = {
+  BTC: 'bitcoin',
+  DOGE: 'dogecoin',
+  ETH: 'ethereum',
+  LTC: 'litecoin',
+};
+
+const roundCoins = (amount: number) => Math.round(amount * 100000000) / 100000000;
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * The current USD price of one coin, from CoinGecko with mempool.space as a
+ * fallback for BTC; 1 for stablecoins, which are credited 1:1 whatever their
+ * market price. Throws when no source has a price.
+ */
+export async function fetchUsdRate(currency: string): Promise<UsdRate> {
+  const code = hdCurrencyCode(currency);
+  if (chainToken(code)?.usdPegged) {
+    return { rate: 1, source: 'usd-peg' };
+  }
+
+  const coinGeckoId = COINGECKO_IDS[code];
+
+  if (coinGeckoId) {
+    try {
+      const response = await fetch(`https://api.coingecko.com/api/v3/simple/price?ids=${coinGeckoId}&vs_currencies=usd`);
+      if (response.ok) {
+        const data = await response.json();
+        const rate = data?.[coinGeckoId]?.usd;
+        if (typeof rate === 'number' && rate > 0) {
+          return { rate, source: 'coingecko' };
+        }
+      }
+    } catch (error) {
+      console.error(`CoinGecko price error for ${code}:`, error);
+    }
+  }
+
+  if (code === 'BTC') {
+    const response = await fetch('https://mempool.space/api/v1/prices');
+    if (response.ok) {
+      const data = await response.json();
+      if (typeof data?.USD === 'number' && data.USD > 0) {
+        return { rate: data.USD, source: 'mempool' };
+      }
+    }
+  }
+
+  throw new Error(`No USD rate available for ${code}`);
+}
+
+export function buildQuote(quotedUsd: number, usdRate: UsdRate, now: Date = new Date()): DepositQuote {
+  return {
+    quotedUsd,
+    expectedAmount: roundCoins(quotedUsd / usdRate.rate),
+    quoteRate: usdRate.rate,
+    quoteSource: usdRate.source,
+    quotedAt: now.toISOString(),
+    quoteExpiresAt: new Date(now.getTime() + QUOTE_TTL_MINUTES * 60 * 1000).toISOString(),
+    quoteStatus: 'awaiting_payment',
+  };
+}
+
+export async function createDepositQuote(currency: string, quotedUsd: number): Promise<DepositQuote> {
+  return buildQuote(quotedUsd, await fetchUsdRate(currency));
+}
+
+/**
+ * Whether the locked rate applies to a payment first seen at paidAt. A
+ * payment from before the quote (e.g. one made before a refresh) doesn't get
+ * the newer rate.
+ */
+export function isWithinQuote(deposit: Deposit, paidAt: string): boolean {
+  if (deposit.quoteRate === null || deposit.quotedAt === null || deposit.quoteExpiresAt === null) {
+    return false;
+  }
+  const paid = new Date(paidAt).getTime();
+  return paid >= new Date(deposit.quotedAt).getTime() && paid <= new Date(deposit.quoteExpiresAt).getTime();
+}
+
+/**
+ * The quote state a payment puts the deposit in. Null for deposits created
+ * before quotes, which have nothing to compare against.
+ */
+export function assessPayment(deposit: Deposit, amountFloat: number, paidAt: string): QuoteStatus | null {
+  if (deposit.quoteRate === null || deposit.expectedAmount === null) {
+    return null;
+  }
+  if (!isWithinQuote(deposit, paidAt)) {
+    return 'expired';
+  }
+
+  const ratio = amountFloat / deposit.expectedAmount;
+  if (ratio < 1 - PAYMENT_TOLERANCE) return 'underpaid';
+  if (ratio > 1 + PAYMENT_TOLERANCE) return 'overpaid';
+  return 'paid';
+}
+
+/**
+ * Credits for a payment to a deposit: the amount sent at the locked rate when
+ * it was seen in time, else at the current rate. An overpayment gets the
+ * locked rate for the quoted amount (plus tolerance) and the current rate for
+ * the rest, so a quote can't be used to buy more coin at an old price.
+ */
+export async function priceDepositPayment(deposit: Deposit, amountFloat: number, paidAt: string): Promise<PaymentPricing> {
+  const quoteStatus = assessPayment(deposit, amountFloat, paidAt);
+
+  if (quoteStatus === null || quoteStatus === 'expired') {
+    const usdRate = await fetchUsdRate(deposit.cryptocurrency);
+    return { credits: roundCents(amountFloat * usdRate.rate), rate: usdRate.rate, rateSource: usdRate.source, quoteStatus, excess: null };
+  }
+
+  const locked = { rate: deposit.quoteRate!, source: deposit.quoteSource ?? 'quote' };
+
+  if (quoteStatus !== 'overpaid') {
+    return { credits: roundCents(amountFloat * locked.rate), rate: locked.rate, rateSource: locked.source, quoteStatus, excess: null };
+  }
+
+  const lockedAmount = roundCoins(deposit.expectedAmount! * (1 + PAYMENT_TOLERANCE));
+  const excessAmount = roundCoins(amountFloat - lockedAmount);
+  const current = await fetchUsdRate(deposit.cryptocurrency);
+  const credits = roundCents(lockedAmount * locked.rate + excessAmount * current.rate);
+
+  return {
+    credits,
+    rate: credits / amountFloat,
+    rateSource: locked.source,
+    quoteStatus,
+    excess: { amount: excessAmount, rate: current.rate, rateSource: current.source },
+  };
+}
+
+// A payment not tied to a deposit has no quote and is priced at the current rate
+export async function priceUnmatchedPayment(currency: string, amountFloat: number): Promise<PaymentPricing> {
+  const usdRate = await fetchUsdRate(currency);
+  return { credits: roundCents(amountFloat * usdRate.rate), rate: usdRate.rate, rateSource: usdRate.source, quoteStatus: null, excess: null };
+}
+
+// Deposit notes line describing how a payment was priced
+export function describePricing(deposit: Deposit, amountFloat: number, pricing: PaymentPricing): string {
+  const code = hdCurrencyCode(deposit.cryptocurrency);
+  const rateLabel = pricing.quoteStatus === null || pricing.quoteStatus === 'expired' ? 'rate at confirmation' : 'locked quote';
+  let note = pricing.excess
+    ? `Sent ${amountFloat.toFixed(8)} ${code}, credited $${pricing.credits.toFixed(2)}: ${(amountFloat - pricing.excess.amount).toFixed(8)} ${code} at $${deposit.quoteRate!.toFixed(2)}/${code} (${rateLabel}, ${pricing.rateSource}) and ${pricing.excess.amount.toFixed(8)} ${code} at $${pricing.excess.rate.toFixed(2)}/${code} (rate at confirmation, ${pricing.excess.rateSource})`
+    : `Sent ${amountFloat.toFixed(8)} ${code}, credited $${pricing.credits.toFixed(2)} at $${pricing.rate.toFixed(2)}/${code} (${rateLabel}, ${pricing.rateSource})`;
+
+  if (pricing.quoteStatus === 'underpaid' || pricing.quoteStatus === 'overpaid') {
+    note += ` - ${pricing.quoteStatus}: quoted ${deposit.expectedAmount!.toFixed(8)} ${code} for $${deposit.quotedUsd!.toFixed(2)}`;
+  } else if (pricing.quoteStatus === 'expired') {
+    note += ' - payment was seen outside the quote window';
+  }
+  return note;
+}
+
+/**
+ * Note the first sighting of a deposit's payment: the time its quote is
+ * judged by, and the state it leaves the quote in while it confirms.
+ */
+export async function recordPaymentSeen(deposit: Deposit, amountFloat: number, seenAt: string): Promise<void> {
+  if (deposit.paymentSeenAt) {
+    return;
+  }
+
+  await db.update(deposits)
+    .set({
+      paymentSeenAt: seenAt,
+      quoteStatus: assessPayment(deposit, amountFloat, seenAt) ?? deposit.quoteStatus,
+      updatedAt: new Date().toISOString(),
+    })
+    .where(and(eq(deposits.id, deposit.id), isNull(deposits.paymentSeenAt)));
+}
+
+/**
+ * Re-quote an unpaid deposit at the current rate for the same USD amount.
+ * Returns null when a payment was seen in the meantime.
+ */
+export async function refreshDepositQuote(deposit: Deposit): Promise<Deposit | null> {
+  const quote = await createDepositQuote(deposit.cryptocurrency, deposit.quotedUsd!);
+  const [refreshed] = await db.update(deposits)
+    .set({ ...quote, updatedAt: new Date().toISOString() })
+    .where(and(eq(deposits.id, deposit.id), eq(deposits.status, 'pending'), isNull(deposits.paymentSeenAt)))
+    .returning();
+
+  return refreshed ?? null;
+}
+
+/**
+ * Mark quotes of pending deposits that saw no payment before expiring. A
+ * payment arriving later is still credited, at the rate when it confirms.
+ */
+export async function expireStaleQuotes(): Promise<number> {
+  const now = new Date().toISOString();
+  const expired = await db.update(deposits)
+    .set({ quoteStatus: 'expired', updatedAt: now })
+    .where(and(
+      eq(deposits.status, 'pending'),
+      eq(deposits.quoteStatus, 'awaiting_payment'),
+      isNull(deposits.paymentSeenAt),
+      lt(deposits.quoteExpiresAt, now)
+    ))
+    .returning({ id: deposits.id });
+
+  return expired.length;
+}
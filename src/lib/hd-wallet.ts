@@ -0,0 +1,355 @@
+/**
+ * HD wallet addresses
+ * Derives receive addresses from an account-level extended public key
+ * (BIP32), so every deposit can get an address of its own while the private
+ * keys stay in the admin's wallet. Addresses come from the external chain,
+ * path <account>/0/<index>, which is what wallets scan. The key's prefix picks
+ * the address type: zpub/vpub give native SegWit P2WPKH addresses (BIP84),
+ * xpub/tpub and Dogecoin's dgub give legacy P2PKH ones. Only public
+ * derivation is possible, so hardened indexes are never used.
+ */
+
+import { createHash, createHmac } from 'crypto';
+
+export type HdAddressType = 'p2wpkh' | 'p2pkh';
+
+export interface ExtendedPublicKey {
+  version: number;
+  depth: number;
+  chainCode: Buffer;
+  publicKey: Buffer;
+}
+
+interface KeyFormat {
+  prefix: string;
+  currencies: string[];
+  addressType: HdAddressType;
+  // Bech32 human-readable part for P2WPKH, version byte for P2PKH
+  hrp?: string;
+  pubKeyHash?: number;
+}
+
+// Extended key version bytes and the addresses they stand for
+const KEY_FORMATS: Record<number, KeyFormat> = {
+  0x04b24746: { prefix: 'zpub', currencies: ['BTC'], addressType: 'p2wpkh', hrp: 'bc' },
+  0x045f1cf6: { prefix: 'vpub', currencies: ['BTC'], addressType: 'p2wpkh', hrp: 'tb' },
+  0x0488b21e: { prefix: 'xpub', currencies: ['BTC', 'DOGE'], addressType: 'p2pkh', pubKeyHash: 0x00 },
+  0x043587cf: { prefix: 'tpub', currencies: ['BTC'], addressType: 'p2pkh', pubKeyHash: 0x6f },
+  0x02facafd: { prefix: 'dgub', currencies: ['DOGE'], addressType: 'p2pkh', pubKeyHash: 0x1e },
+};
+
+// Dogecoin wallets often export xpub-versioned keys; the currency decides the address version
+const CURRENCY_PUBKEY_HASH: Record<string, number> = { DOGE: 0x1e };
+
+export const HD_CURRENCIES = ['BTC', 'DOGE'];
+
+// Wallet rows are named by ticker or by name, e.g. "btc" or "bitcoin"
+const CURRENCY_NAMES: Record<string, string[]> = {
+  BTC: ['BTC', 'BITCOIN'],
+  DOGE: ['DOGE', 'DOGECOIN'],
+  ETH: ['ETH', 'ETHEREUM'],
+  USDT: ['USDT', 'TETHER'],
+  USDC: ['USDC', 'USD-COIN'],
+};
+
+// The ticker a wallet row's currency name stands for, upper-cased as is when unknown
+export function hdCurrencyCode(currency: string): string {
+  const name = currency.trim().toUpperCase();
+  return Object.keys(CURRENCY_NAMES).find(code => CURRENCY_NAMES[code].includes(name)) ?? name;
+}
+
+// Every upper-cased name a currency may be stored under
+export function hdCurrencyNames(currency: string): string[] {
+  const code = hdCurrencyCode(currency);
+  return CURRENCY_NAMES[code] ?? [code];
+}
+
+// Child indexes at or above this are hardened and need the private key
+const HARDENED_OFFSET = 0x80000000;
+const RECEIVE_CHAIN = 0;
+
+// Small constants as BigInt() calls; the build target predates bigint literals
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const THREE = BigInt(3);
+const FOUR = BigInt(4);
+const SEVEN = BigInt(7);
+const FIFTY_EIGHT = BigInt(58);
+
+// secp256k1
+const P = BigInt('0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2f');
+const N = BigInt('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141');
+const G = {
+  x: BigInt('0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798'),
+  y: BigInt('0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8'),
+};
+
+type Point = { x: bigint; y: bigint } | null;
+
+function mod(a: bigint, m: bigint = P): bigint {
+  const result = a % m;
+  return result >= ZERO ? result : result + m;
+}
+
+function modPow(base: bigint, exponent: bigint, m: bigint = P): bigint {
+  let result = ONE;
+  let b = mod(base, m);
+  let e = exponent;
+  while (e > ZERO) {
+    if (e & ONE) result = (result * b) % m;
+    b = (b * b) % m;
+    e >>= ONE;
+  }
+  return result;
+}
+
+function modInverse(a: bigint, m: bigint = P): bigint {
+  let [oldR, r] = [mod(a, m), m];
+  let [oldS, s] = [ONE, ZERO];
+  while (r !== ZERO) {
+    const q = oldR / r;
+    [oldR, r] = [r, oldR - q * r];
+    [oldS, s] = [s, oldS - q * s];
+  }
+  return mod(oldS, m);
+}
+
+function pointAdd(a: Point, b: Point): Point {
+  if (!a) return b;
+  if (!b) return a;
+  if (a.x === b.x) {
+    if (mod(a.y + b.y) === ZERO) return null;
+    const slope = mod(THREE * a.x * a.x * modInverse(TWO * a.y));
+    const x = mod(slope * slope - TWO * a.x);
+    return { x, y: mod(slope * (a.x - x) - a.y) };
+  }
+  const slope = mod((b.y - a.y) * modInverse(b.x - a.x));
+  const x = mod(slope * slope - a.x - b.x);
+  return { x, y: mod(slope * (a.x - x) - a.y) };
+}
+
+function pointMultiply(k: bigint, point: Point): Point {
+  let result: Point = null;
+  let addend = point;
+  let n = k;
+  while (n > ZERO) {
+    if (n & ONE) result = pointAdd(result, addend);
+    addend = pointAdd(addend, addend);
+    n >>= ONE;
+  }
+  return result;
+}
+
+function toBigInt(buffer: Buffer): bigint {
+  return BigInt('0x' + (buffer.toString('hex') || '0'));
+}
+
+function compressPoint(point: { x: bigint; y: bigint }): Buffer {
+  const prefix = point.y & ONE ? '03' : '02';
+  return Buffer.from(prefix + point.x.toString(16).padStart(64, '0'), 'hex');
+}
+
+function decompressPoint(publicKey: Buffer): { x: bigint; y: bigint } | null {
+  if (publicKey.length !== 33 || (publicKey[0] !== 2 && publicKey[0] !== 3)) {
+    return null;
+  }
+  const x = toBigInt(publicKey.subarray(1));
+  if (x >= P) return null;
+  const ySquared = mod(x * x * x + SEVEN);
+  // P ≡ 3 (mod 4), so the square root is a single exponentiation
+  let y = modPow(ySquared, (P + ONE) / FOUR);
+  if (mod(y * y) !== ySquared) return null;
+  if ((y & ONE) !== BigInt(publicKey[0] & 1)) y = P - y;
+  return { x, y };
+}
+
+function sha256(data: Buffer): Buffer {
+  return createHash('sha256').update(data).digest();
+}
+
+function hash160(data: Buffer): Buffer {
+  return createHash('ripemd160').update(sha256(data)).digest();
+}
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+function base58Encode(buffer: Buffer): string {
+  let value = toBigInt(buffer);
+  let output = '';
+  while (value > ZERO) {
+    output = BASE58_ALPHABET[Number(value % FIFTY_EIGHT)] + output;
+    value /= FIFTY_EIGHT;
+  }
+  for (const byte of buffer) {
+    if (byte !== 0) break;
+    output = '1' + output;
+  }
+  return output;
+}
+
+function base58Decode(text: string): Buffer | null {
+  let value = ZERO;
+  for (const char of text) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) return null;
+    value = value * FIFTY_EIGHT + BigInt(digit);
+  }
+  const hex = value === ZERO ? '' : value.toString(16);
+  const body = Buffer.from(hex.length % 2 ? '0' + hex : hex, 'hex');
+  const leadingZeros = text.length - text.replace(/^1+/, '').length;
+  return Buffer.concat([Buffer.alloc(leadingZeros), body]);
+}
+
+function base58CheckEncode(payload: Buffer): string {
+  const checksum = sha256(sha256(payload)).subarray(0, 4);
+  return base58Encode(Buffer.concat([payload, checksum]));
+}
+
+function base58CheckDecode(text: string): Buffer | null {
+  const decoded = base58Decode(text);
+  if (!decoded || decoded.length < 5) return null;
+  const payload = decoded.subarray(0, -4);
+  const checksum = sha256(sha256(payload)).subarray(0, 4);
+  return checksum.equals(decoded.subarray(-4)) ? payload : null;
+}
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+function bech32Polymod(values: number[]): number {
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >> i) & 1) checksum ^= BECH32_GENERATOR[i];
+    }
+  }
+  return checksum;
+}
+
+function convertBits(data: Buffer, from: number, to: number): number[] {
+  let accumulator = 0;
+  let bits = 0;
+  const result: number[] = [];
+  for (const value of data) {
+    accumulator = (accumulator << from) | value;
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      result.push((accumulator >> bits) & ((1 << to) - 1));
+    }
+  }
+  if (bits > 0) result.push((accumulator << (to - bits)) & ((1 << to) - 1));
+  return result;
+}
+
+// Segwit v0 address (BIP173); v0 uses plain bech32, not bech32m
+function encodeSegwitAddress(hrp: string, program: Buffer): string {
+  const data = [0, ...convertBits(program, 8, 5)];
+  const expandedHrp = [...hrp].map(c => c.charCodeAt(0) >> 5)
+    .concat([0], [...hrp].map(c => c.charCodeAt(0) & 31));
+  const polymod = bech32Polymod([...expandedHrp, ...data, 0, 0, 0, 0, 0, 0]) ^ 1;
+  const checksum = Array.from({ length: 6 }, (_, i) => (polymod >> (5 * (5 - i))) & 31);
+  return hrp + '1' + [...data, ...checksum].map(value => BECH32_CHARSET[value]).join('');
+}
+
+/**
+ * Decode a base58 extended public key. Returns null for anything that isn't
+ * one: wrong length or checksum, an unknown version, or a key off the curve.
+ */
+export function parseExtendedPublicKey(text: string): ExtendedPublicKey | null {
+  const payload = base58CheckDecode(text.trim());
+  if (!payload || payload.length !== 78) return null;
+
+  const version = payload.readUInt32BE(0);
+  if (!KEY_FORMATS[version]) return null;
+
+  const publicKey = payload.subarray(45, 78);
+  if (!decompressPoint(publicKey)) return null;
+
+  return {
+    version,
+    depth: payload[4],
+    chainCode: payload.subarray(13, 45),
+    publicKey,
+  };
+}
+
+// CKDpub: the non-hardened child of a public key
+function deriveChild(key: ExtendedPublicKey, index: number): ExtendedPublicKey {
+  if (!Number.isInteger(index) || index < 0 || index >= HARDENED_OFFSET) {
+    throw new Error(`Cannot derive index ${index} from a public key`);
+  }
+
+  const data = Buffer.alloc(37);
+  key.publicKey.copy(data, 0);
+  data.writeUInt32BE(index, 33);
+  const I = createHmac('sha512', key.chainCode).update(data).digest();
+
+  const tweak = toBigInt(I.subarray(0, 32));
+  const child = pointAdd(pointMultiply(tweak, G), decompressPoint(key.publicKey));
+  // Vanishingly unlikely; BIP32 says to move on to the next index
+  if (tweak >= N || !child) {
+    throw new Error(`Index ${index} yields an invalid key; skip it`);
+  }
+
+  return {
+    version: key.version,
+    depth: key.depth + 1,
+    chainCode: I.subarray(32),
+    publicKey: compressPoint(child),
+  };
+}
+
+/**
+ * Check that a key is an extended public key this currency can derive
+ * addresses from. Returns the address type it will produce.
+ */
+export function validateExtendedPublicKey(
+  currency: string,
+  text: string
+): { ok: true; addressType: HdAddressType } | { ok: false; error: string } {
+  const normalizedCurrency = hdCurrencyCode(currency);
+  if (!HD_CURRENCIES.includes(normalizedCurrency)) {
+    return { ok: false, error: `Extended public keys are supported for ${HD_CURRENCIES.join(', ')} only` };
+  }
+  if (/^([xyztuv]prv|dgpv)/.test(text.trim())) {
+    return { ok: false, error: 'That is an extended private key - export the public key (xpub/zpub) instead' };
+  }
+
+  const key = parseExtendedPublicKey(text);
+  if (!key) {
+    return { ok: false, error: 'Not a valid extended public key (xpub, zpub, tpub, vpub or dgub)' };
+  }
+
+  const format = KEY_FORMATS[key.version];
+  if (!format.currencies.includes(normalizedCurrency)) {
+    return { ok: false, error: `A ${format.prefix} key cannot be used for ${normalizedCurrency}` };
+  }
+
+  return { ok: true, addressType: format.addressType };
+}
+
+/**
+ * The receive address at `index` of an account-level extended public key.
+ * Throws for a key validateExtendedPublicKey would reject.
+ */
+export function deriveReceiveAddress(currency: string, xpub: string, index: number): string {
+  const key = parseExtendedPublicKey(xpub);
+  if (!key) {
+    throw new Error('Invalid extended public key');
+  }
+
+  const child = deriveChild(deriveChild(key, RECEIVE_CHAIN), index);
+  const pubKeyHash = hash160(child.publicKey);
+  const format = KEY_FORMATS[key.version];
+
+  if (format.addressType === 'p2wpkh') {
+    return encodeSegwitAddress(format.hrp!, pubKeyHash);
+  }
+
+  const version = CURRENCY_PUBKEY_HASH[hdCurrencyCode(currency)] ?? format.pubKeyHash!;
+  return base58CheckEncode(Buffer.concat([Buffer.from([version]), pubKeyHash]));
+}
@@ -0,0 +1,359 @@
+/**
+ * Inventory
+ * A line's stock is held by each of its selected variants, or by the product
+ * itself when no variant is selected. Starting checkout reserves the cart's
+ * stock for a short while so other shoppers can't take it; placing the order
+ * decrements it atomically and cancelling puts back exactly what the order
+ * took. Every change is written to inventory_movements with its reason.
+ */
+
+import { db, Database } from '@/db';
+import { products, productVariants, stockReservations, inventoryMovements, carts, cartItems, users } from '@/db/schema';
+import { eq, and, or, ne, gt, gte, lte, desc, inArray, sql, SQL } from 'drizzle-orm';
+import { fromVariantKey, CartLineInput } from '@/lib/cart';
+
+type Executor = Database | Parameters<Parameters<Database['transaction']>[0]>[0];
+
+export type MovementReason = 'order' | 'cancel' | 'sync' | 'manual';
+
+export const RESERVATION_MINUTES = 15;
+
+export interface StockShortage {
+  productId: number;
+  variantId: number | null;
+  requested: number;
+  available: number;
+}
+
+interface StockUnit {
+  productId: number;
+  variantId: number | null;
+  quantity: number;
+}
+
+// Collapses lines into the stock they draw on; two lines sharing a variant add up
+function toStockUnits(lines: CartLineInput[]): StockUnit[] {
+  const units = new Map<string, StockUnit>();
+
+  for (const line of lines) {
+    const variantIds = line.variantIds.length > 0 ? [...new Set(line.variantIds)] : [null];
+    for (const variantId of variantIds) {
+      const key = unitKey(line.productId, variantId);
+      const unit = units.get(key);
+      if (unit) {
+        unit.quantity += line.quantity;
+      } else {
+        units.set(key, { productId: line.productId, variantId, quantity: line.quantity });
+      }
+    }
+  }
+
+  return [...units.values()];
+}
+
+function unitKey(productId: number, variantId: number | null): string {
+  return `${productId}:${variantId ?? ''}`;
+}
+
+// Unexpired reservations held by everyone except userId, keyed like toStockUnits
+async function getReservedByOthers(executor: Executor, userId: number, productIds: number[]): Promise<Map<string, number>> {
+  const reserved = new Map<string, number>();
+  if (productIds.length === 0) {
+    return reserved;
+  }
+
+  const rows = await executor.select({
+    productId: stockReservations.productId,
+    variantId: stockReservations.variantId,
+    quantity: sql<number>`sum(${stockReservations.quantity})`,
+  })
+    .from(stockReservations)
+    .where(and(
+      inArray(stockReservations.productId, productIds),
+      ne(stockReservations.userId, userId),
+      gt(stockReservations.expiresAt, new Date().toISOString())
+    ))
+    .groupBy(stockReservations.productId, stockReservations.variantId);
+
+  for (const row of rows) {
+    reserved.set(unitKey(row.productId, row.variantId), Number(row.quantity) || 0);
+  }
+  return reserved;
+}
+
+async function getStockLevels(executor: Executor, units: StockUnit[]): Promise<Map<string, number>> {
+  const levels = new Map<string, number>();
+  const productIds = [...new Set(units.filter(u => u.variantId === null).map(u => u.productId))];
+  const variantIds = [...new Set(units.flatMap(u => (u.variantId === null ? [] : [u.variantId])))];
+
+  if (productIds.length > 0) {
+    const rows = await executor.select({ id: products.id, stockQuantity: products.stockQuantity })
+      .from(products)
+      .where(inArray(products.id, productIds));
+    for (const row of rows) {
+      levels.set(unitKey(row.id, null), row.stockQuantity ?? 0);
+    }
+  }
+
+  if (variantIds.length > 0) {
+    const rows = await executor.select({
+      id: productVariants.id,
+      productId: productVariants.productId,
+      stockQuantity: productVariants.stockQuantity,
+    })
+      .from(productVariants)
+      .where(inArray(productVariants.id, variantIds));
+    for (const row of rows) {
+      levels.set(unitKey(row.productId, row.id), row.stockQuantity ?? 0);
+    }
+  }
+
+  return levels;
+}
+
+// Lines asking for more than is in stock once other shoppers' reservations are set aside
+async function findShortages(executor: Executor, userId: number, units: StockUnit[]): Promise<StockShortage[]> {
+  const levels = await getStockLevels(executor, units);
+  const reserved = await getReservedByOthers(executor, userId, [...new Set(units.map(u => u.productId))]);
+
+  return units.flatMap(unit => {
+    const key = unitKey(unit.productId, unit.variantId);
+    const available = Math.max((levels.get(key) ?? 0) - (reserved.get(key) ?? 0), 0);
+    return unit.quantity > available
+      ? [{ productId: unit.productId, variantId: unit.variantId, requested: unit.quantity, available }]
+      : [];
+  });
+}
+
+export async function recordMovement(
+  executor: Executor,
+  movement: {
+    productId: number;
+    variantId?: number | null;
+    change: number;
+    quantityAfter: number;
+    reason: MovementReason;
+    orderId?: number | null;
+    userId?: number | null;
+    note?: string | null;
+  }
+): Promise<void> {
+  await executor.insert(inventoryMovements).values({
+    productId: movement.productId,
+    variantId: movement.variantId ?? null,
+    change: movement.change,
+    quantityAfter: movement.quantityAfter,
+    reason: movement.reason,
+    orderId: movement.orderId ?? null,
+    userId: movement.userId ?? null,
+    note: movement.note ?? null,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+export type ReservationResult =
+  | { status: 'ok'; expiresAt: string | null }
+  | { status: 'insufficient'; shortages: StockShortage[] };
+
+/**
+ * Hold the stock for everything in the user's server cart, replacing any hold
+ * they already had. Nothing is reserved unless the whole cart fits.
+ */
+export async function reserveCartStock(userId: number): Promise<ReservationResult> {
+  return db.transaction(async (tx) => {
+    // Expired holds already don't count toward availability; clearing them here keeps the table small
+    await tx.delete(stockReservations).where(or(
+      eq(stockReservations.userId, userId),
+      lte(stockReservations.expiresAt, new Date().toISOString())
+    ));
+
+    const [cart] = await tx.select().from(carts).where(eq(carts.userId, userId)).limit(1);
+    const items = cart ? await tx.select().from(cartItems).where(eq(cartItems.cartId, cart.id)) : [];
+
+    if (items.length === 0) {
+      return { status: 'ok' as const, expiresAt: null };
+    }
+
+    const units = toStockUnits(items.map(item => ({
+      productId: item.productId,
+      variantIds: fromVariantKey(item.variantKey),
+      quantity: item.quantity,
+    })));
+
+    const shortages = await findShortages(tx, userId, units);
+    if (shortages.length > 0) {
+      return { status: 'insufficient' as const, shortages };
+    }
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + RESERVATION_MINUTES * 60 * 1000).toISOString();
+
+    await tx.insert(stockReservations).values(units.map(unit => ({
+      userId,
+      productId: unit.productId,
+      variantId: unit.variantId,
+      quantity: unit.quantity,
+      expiresAt,
+      createdAt: now.toISOString(),
+    })));
+
+    return { status: 'ok' as const, expiresAt };
+  });
+}
+
+export async function releaseReservations(executor: Executor, userId: number): Promise<void> {
+  await executor.delete(stockReservations).where(eq(stockReservations.userId, userId));
+}
+
+/**
+ * Take an order's stock inside the checkout transaction. Each decrement is
+ * guarded so stock never drops below what other shoppers have reserved; when
+ * any line doesn't fit the shortages are returned and the caller rolls back.
+ */
+export async function commitOrderStock(
+  tx: Executor,
+  order: { orderId: number; userId: number; lines: CartLineInput[] }
+): Promise<StockShortage[]> {
+  const units = toStockUnits(order.lines);
+  const reserved = await getReservedByOthers(tx, order.userId, [...new Set(units.map(u => u.productId))]);
+
+  for (const unit of units) {
+    const floor = unit.quantity + (reserved.get(unitKey(unit.productId, unit.variantId)) ?? 0);
+
+    const [updated] = unit.variantId === null
+      ? await tx.update(products)
+        .set({ stockQuantity: sql`coalesce(${products.stockQuantity}, 0) - ${unit.quantity}` })
+        .where(and(eq(products.id, unit.productId), gte(products.stockQuantity, floor)))
+        .returning({ stockQuantity: products.stockQuantity })
+      : await tx.update(productVariants)
+        .set({ stockQuantity: sql`coalesce(${productVariants.stockQuantity}, 0) - ${unit.quantity}` })
+        .where(and(eq(productVariants.id, unit.variantId), gte(productVariants.stockQuantity, floor)))
+        .returning({ stockQuantity: productVariants.stockQuantity });
+
+    if (!updated) {
+      return findShortages(tx, order.userId, units);
+    }
+
+    await recordMovement(tx, {
+      productId: unit.productId,
+      variantId: unit.variantId,
+      change: -unit.quantity,
+      quantityAfter: updated.stockQuantity ?? 0,
+      reason: 'order',
+      orderId: order.orderId,
+      userId: order.userId,
+    });
+  }
+
+  await releaseReservations(tx, order.userId);
+  return [];
+}
+
+/**
+ * Put back the stock a cancelled order took. Driven by the order's own ledger
+ * entries, so orders that never decremented stock restore nothing and a second
+ * call is a no-op. Variants replaced by a sync since the order are skipped.
+ */
+export async function releaseOrderStock(tx: Executor, orderId: number, userId: number | null): Promise<void> {
+  const movements = await tx.select()
+    .from(inventoryMovements)
+    .where(eq(inventoryMovements.orderId, orderId));
+
+  if (movements.some(m => m.reason === 'cancel')) {
+    return;
+  }
+
+  for (const movement of movements.filter(m => m.reason === 'order')) {
+    const quantity = -movement.change;
+
+    const [updated] = movement.variantId === null
+      ? await tx.update(products)
+        .set({ stockQuantity: sql`coalesce(${products.stockQuantity}, 0) + ${quantity}` })
+        .where(eq(products.id, movement.productId))
+        .returning({ stockQuantity: products.stockQuantity })
+      : await tx.update(productVariants)
+        .set({ stockQuantity: sql`coalesce(${productVariants.stockQuantity}, 0) + ${quantity}` })
+        .where(eq(productVariants.id, movement.variantId))
+        .returning({ stockQuantity: productVariants.stockQuantity });
+
+    if (!updated) {
+      continue;
+    }
+
+    await recordMovement(tx, {
+      productId: movement.productId,
+      variantId: movement.variantId,
+      change: quantity,
+      quantityAfter: updated.stockQuantity ?? 0,
+      reason: 'cancel',
+      orderId,
+      userId,
+    });
+  }
+}
+
+// Records a stock level written elsewhere (sync, admin edits) if it actually changed
+export async function recordStockChange(
+  executor: Executor,
+  change: {
+    productId: number;
+    variantId?: number | null;
+    before: number | null;
+    after: number | null;
+    reason: MovementReason;
+    userId?: number | null;
+    note?: string | null;
+  }
+): Promise<void> {
+  const delta = (change.after ?? 0) - (change.before ?? 0);
+  if (delta === 0) {
+    return;
+  }
+
+  await recordMovement(executor, {
+    productId: change.productId,
+    variantId: change.variantId,
+    change: delta,
+    quantityAfter: change.after ?? 0,
+    reason: change.reason,
+    userId: change.userId,
+    note: change.note,
+  });
+}
+
+export async function getInventoryMovements(filters: {
+  productId?: number;
+  orderId?: number;
+  reason?: MovementReason;
+  limit?: number;
+  offset?: number;
+}) {
+  const conditions: SQL[] = [];
+  if (filters.productId) conditions.push(eq(inventoryMovements.productId, filters.productId));
+  if (filters.orderId) conditions.push(eq(inventoryMovements.orderId, filters.orderId));
+  if (filters.reason) conditions.push(eq(inventoryMovements.reason, filters.reason));
+
+  return db.select({
+    id: inventoryMovements.id,
+    productId: inventoryMovements.productId,
+    productName: products.name,
+    variantId: inventoryMovements.variantId,
+    variantName: productVariants.variantName,
+    change: inventoryMovements.change,
+    quantityAfter: inventoryMovements.quantityAfter,
+    reason: inventoryMovements.reason,
+    orderId: inventoryMovements.orderId,
+    userId: inventoryMovements.userId,
+    username: users.username,
+    note: inventoryMovements.note,
+    createdAt: inventoryMovements.createdAt,
+  })
+    .from(inventoryMovements)
+    .leftJoin(products, eq(products.id, inventoryMovements.productId))
+    .leftJoin(productVariants, eq(productVariants.id, inventoryMovements.variantId))
+    .leftJoin(users, eq(users.id, inventoryMovements.userId))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(inventoryMovements.createdAt), desc(inventoryMovements.id))
+    .limit(filters.limit ?? 100)
+    .offset(filters.offset ?? 0);
+}
@@ -0,0 +1,172 @@
+/**
+ * Ledger reconciliation
+ * Compares every customer's users.credits with what their ledger account adds
+ * up to and stores the result as a report. Customers who never had an entry
+ * get their opening balance first, so only real drift is left: a balance
+ * changed without a posting. Drift is reported to admins, not corrected; the
+ * fix depends on what changed the balance. Runs nightly from the server
+ * process (started from instrumentation.ts) and on demand from the admin
+ * dashboard.
+ */
+
+import { db } from '@/db';
+import { ledgerEntries, ledgerReconciliations, users } from '@/db/schema';
+import { and, desc, eq, gte, isNotNull } from 'drizzle-orm';
+import { getLedgerBalances, recordOpeningBalance } from '@/lib/ledger';
+import { createNotification } from '@/lib/notifications';
+
+export type ReconciliationTrigger = 'nightly' | 'manual';
+
+export interface BalanceDrift {
+  userId: number;
+  username: string;
+  credits: number;
+  ledgerBalance: number;
+  drift: number;
+}
+
+// Local hour the nightly run happens after
+export const RECONCILIATION_HOUR = 3;
+
+const RECONCILIATION_CHECK_MS = 15 * 60 * 1000;
+
+// Differences under a cent are float noise from summing
+const DRIFT_TOLERANCE = 0.005;
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export async function runReconciliation(trigger: ReconciliationTrigger) {
+  const allUsers = await db.select({ id: users.id, username: users.username, credits: users.credits }).from(users);
+
+  const withEntries = new Set(
+    (await db.selectDistinct({ userId: ledgerEntries.userId }).from(ledgerEntries).where(isNotNull(ledgerEntries.userId)))
+      .map(row => row.userId!)
+  );
+
+  let openingBalances = 0;
+  for (const user of allUsers) {
+    if (!withEntries.has(user.id) && (user.credits ?? 0) !== 0) {
+      if (await db.transaction(tx => recordOpeningBalance(tx, user.id))) {
+        openingBalances++;
+      }
+    }
+  }
+
+  const ledgerBalances = await getLedgerBalances();
+  const drifts: BalanceDrift[] = [];
+
+  for (const user of allUsers) {
+    // Re-read: the balance may have moved while opening entries were written
+    const [current] = await db.select({ credits: users.credits }).from(users).where(eq(users.id, user.id)).limit(1);
+    const credits = current?.credits ?? 0;
+    const ledgerBalance = ledgerBalances.get(user.id) ?? 0;
+    const drift = credits - ledgerBalance;
+
+    if (Math.abs(drift) >= DRIFT_TOLERANCE) {
+      drifts.push({
+        userId: user.id,
+        username: user.username,
+        credits,
+        ledgerBalance: roundCents(ledgerBalance),
+        drift: roundCents(drift),
+      });
+    }
+  }
+
+  const [report] = await db.insert(ledgerReconciliations)
+    .values({
+      trigger,
+      usersChecked: allUsers.length,
+      openingBalances,
+      driftCount: drifts.length,
+      totalDrift: roundCents(drifts.reduce((sum, entry) => sum + entry.drift, 0)),
+      drifts: drifts.length > 0 ? JSON.stringify(drifts) : null,
+      runAt: new Date().toISOString(),
+    })
+    .returning();
+
+  if (drifts.length > 0) {
+    await notifyDrift(drifts);
+  }
+
+  return { ...report, drifts };
+}
+
+async function notifyDrift(drifts: BalanceDrift[]): Promise<void> {
+  const admins = await db.select({ id: users.id }).from(users).where(eq(users.role, 'admin'));
+  const names = drifts.slice(0, 3).map(entry => entry.username).join(', ');
+  const more = drifts.length > 3 ? ` and ${drifts.length - 3} more` : '';
+
+  for (const admin of admins) {
+    await createNotification(db, {
+      userId: admin.id,
+      type: 'ledger_drift',
+      title: 'Credit balances out of line with the ledger',
+      message: `${drifts.length} balance${drifts.length === 1 ? '' : 's'} drifted from the ledger: ${names}${more}`,
+      link: '/admin',
+    });
+  }
+}
+
+export async function getReconciliations(limit = 10) {
+  const reports = await db.select()
+    .from(ledgerReconciliations)
+    .orderBy(desc(ledgerReconciliations.runAt), desc(ledgerReconciliations.id))
+    .limit(limit);
+
+  return reports.map(report => ({
+    ...report,
+    drifts: report.drifts ? JSON.parse(report.drifts) as BalanceDrift[] : [],
+  }));
+}
+
+// The latest nightly cutoff that has passed
+export function lastReconciliationCutoff(now = new Date()): Date {
+  const cutoff = new Date(now);
+  cutoff.setHours(RECONCILIATION_HOUR, 0, 0, 0);
+  if (cutoff > now) {
+    cutoff.setDate(cutoff.getDate() - 1);
+  }
+  return cutoff;
+}
+
+// Run the nightly reconciliation if none ran since the last cutoff
+export async function runNightlyReconciliationIfDue(now = new Date()): Promise<boolean> {
+  const cutoff = lastReconciliationCutoff(now).toISOString();
+  const [ran] = await db.select({ id: ledgerReconciliations.id })
+    .from(ledgerReconciliations)
+    .where(and(eq(ledgerReconciliations.trigger, 'nightly'), gte(ledgerReconciliations.runAt, cutoff)))
+    .limit(1);
+
+  if (ran) {
+    return false;
+  }
+
+  await runReconciliation('nightly');
+  return true;
+}
+
+// Survives dev-server hot reloads, which re-evaluate this module
+const globalForReconciliation = globalThis as unknown as { reconciliationTimer?: ReturnType<typeof setInterval> };
+
+export function startReconciliationScheduler(): void {
+  if (globalForReconciliation.reconciliationTimer) {
+    return;
+  }
+
+  let checking = false;
+  const check = async () => {
+    if (checking) return;
+    checking = true;
+    try {
+      await runNightlyReconciliationIfDue();
+    } catch (error) {
+      console.error('Ledger reconciliation error:', error);
+    } finally {
+      checking = false;
+    }
+  };
+
+  globalForReconciliation.reconciliationTimer = setInterval(check, RECONCILIATION_CHECK_MS);
+  void check();
+}
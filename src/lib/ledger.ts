@@ -0,0 +1,208 @@
+/**
+ * Credits ledger
+ * users.credits is never changed on its own: every credit and debit goes
+ * through postLedgerEntry, which moves the balance and records a posting of
+ * two entries of the same amount, one against the customer's account and one
+ * against a system account (deposits, sales, adjustments), tagged with what
+ * caused it. A customer's account therefore replays to their balance, which
+ * the nightly reconciliation checks. Balances from before the ledger are
+ * carried in as an opening entry the first time an account is touched.
+ */
+
+import { randomUUID } from 'crypto';
+import { db, Database } from '@/db';
+import { ledgerEntries, users } from '@/db/schema';
+import { and, desc, eq, gte, sql } from 'drizzle-orm';
+
+type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+export const SYSTEM_ACCOUNTS = {
+  deposits: 'system:deposits',
+  sales: 'system:sales',
+  adjustments: 'system:adjustments',
+  opening: 'system:opening',
+} as const;
+
+export type SystemAccount = typeof SYSTEM_ACCOUNTS[keyof typeof SYSTEM_ACCOUNTS];
+
+// What caused a posting; together with referenceId it points at the row
+export type LedgerReferenceType =
+  | 'deposit'
+  | 'verification'
+  | 'order'
+  | 'order_refund'
+  | 'manual_credit'
+  | 'opening_balance';
+
+export type LedgerDirection = 'debit' | 'credit';
+
+export interface LedgerPosting {
+  userId: number;
+  // Credit adds to the customer's balance, debit takes from it
+  direction: LedgerDirection;
+  amount: number;
+  counterAccount: SystemAccount;
+  referenceType: LedgerReferenceType;
+  referenceId: number;
+  description: string;
+  createdById?: number | null;
+  // Refuse a debit the balance can't cover instead of going negative
+  requireFunds?: boolean;
+}
+
+export function userAccount(userId: number): string {
+  return `user:${userId}`;
+}
+
+const opposite = (direction: LedgerDirection): LedgerDirection => direction === 'credit' ? 'debit' : 'credit';
+
+// Credits minus debits, the way a customer account adds up
+const signedAmount = sql<number>`coalesce(sum(case when ${ledgerEntries.direction} = 'credit' then ${ledgerEntries.amount} else -${ledgerEntries.amount} end), 0)`;
+
+async function insertPosting(
+  tx: Transaction,
+  posting: Omit<LedgerPosting, 'requireFunds' | 'counterAccount'> & { counterAccount: string },
+  balanceAfter: number
+): Promise<void> {
+  const postingId = randomUUID();
+  const createdAt = new Date().toISOString();
+  const shared = {
+    postingId,
+    amount: posting.amount,
+    referenceType: posting.referenceType,
+    referenceId: posting.referenceId,
+    description: posting.description,
+    createdById: posting.createdById ?? null,
+    createdAt,
+  };
+
+  await tx.insert(ledgerEntries).values([
+    { ...shared, account: userAccount(posting.userId), userId: posting.userId, direction: posting.direction, balanceAfter },
+    { ...shared, account: posting.counterAccount, userId: null, direction: opposite(posting.direction), balanceAfter: null },
+  ]);
+}
+
+/**
+ * Carry a balance from before the ledger in as an opening entry, so the
+ * account replays to it. Does nothing once the account has any entry or when
+ * there is no balance to carry. Returns whether an entry was written.
+ */
+export async function recordOpeningBalance(tx: Transaction, userId: number): Promise<boolean> {
+  const [existing] = await tx.select({ id: ledgerEntries.id })
+    .from(ledgerEntries)
+    .where(eq(ledgerEntries.account, userAccount(userId)))
+    .limit(1);
+  if (existing) {
+    return false;
+  }
+
+  const [user] = await tx.select({ credits: users.credits }).from(users).where(eq(users.id, userId)).limit(1);
+  const credits = user?.credits ?? 0;
+  if (credits === 0) {
+    return false;
+  }
+
+  await insertPosting(tx, {
+    userId,
+    direction: credits > 0 ? 'credit' : 'debit',
+    amount: Math.abs(credits),
+    counterAccount: SYSTEM_ACCOUNTS.opening,
+    referenceType: 'opening_balance',
+    referenceId: userId,
+    description: 'Balance carried over from before the ledger',
+  }, credits);
+  return true;
+}
+
+/**
+ * Move a customer's balance and record the posting, inside the caller's
+ * transaction so neither happens without the other. Returns the balance
+ * after the entry, or null when requireFunds was set and the balance was
+ * short. Posting the same reference to an account twice throws.
+ */
+export async function postLedgerEntry(tx: Transaction, posting: LedgerPosting): Promise<number | null> {
+  if (!(posting.amount > 0)) {
+    throw new Error(`Ledger amounts must be positive, got ${posting.amount}`);
+  }
+
+  await recordOpeningBalance(tx, posting.userId);
+
+  const delta = posting.direction === 'credit' ? posting.amount : -posting.amount;
+  const conditions = [eq(users.id, posting.userId)];
+  if (posting.requireFunds) {
+    conditions.push(gte(users.credits, posting.amount));
+  }
+
+  const [updated] = await tx.update(users)
+    .set({ credits: sql`coalesce(${users.credits}, 0) + ${delta}` })
+    .where(and(...conditions))
+    .returning({ credits: users.credits });
+
+  if (!updated) {
+    if (posting.requireFunds) {
+      return null;
+    }
+    throw new Error(`User ${posting.userId} not found`);
+  }
+
+  const balanceAfter = updated.credits ?? 0;
+  await insertPosting(tx, posting, balanceAfter);
+  return balanceAfter;
+}
+
+// postLedgerEntry in a transaction of its own, for callers not already in one
+export async function postToLedger(posting: LedgerPosting): Promise<number | null> {
+  return db.transaction(tx => postLedgerEntry(tx, posting));
+}
+
+// What the customer's account adds up to, to compare against users.credits
+export async function getLedgerBalance(userId: number): Promise<number> {
+  const [row] = await db.select({ balance: signedAmount })
+    .from(ledgerEntries)
+    .where(eq(ledgerEntries.account, userAccount(userId)));
+  return Number(row?.balance ?? 0);
+}
+
+// Ledger balance of every customer account that has entries
+export async function getLedgerBalances(): Promise<Map<number, number>> {
+  const rows = await db.select({ userId: ledgerEntries.userId, balance: signedAmount })
+    .from(ledgerEntries)
+    .where(sql`${ledgerEntries.userId} is not null`)
+    .groupBy(ledgerEntries.userId);
+
+  return new Map(rows.map(row => [row.userId!, Number(row.balance)]));
+}
+
+// A customer's entries, newest first, with their balance for the header
+export async function getStatement(userId: number, limit = 50, offset = 0) {
+  const account = userAccount(userId);
+
+  const entries = await db.select({
+    id: ledgerEntries.id,
+    direction: ledgerEntries.direction,
+    amount: ledgerEntries.amount,
+    balanceAfter: ledgerEntries.balanceAfter,
+    referenceType: ledgerEntries.referenceType,
+    referenceId: ledgerEntries.referenceId,
+    description: ledgerEntries.description,
+    createdAt: ledgerEntries.createdAt,
+  })
+    .from(ledgerEntries)
+    .where(eq(ledgerEntries.account, account))
+    .orderBy(desc(ledgerEntries.id))
+    .limit(limit)
+    .offset(offset);
+
+  const [count] = await db.select({ count: sql<number>`count(*)` })
+    .from(ledgerEntries)
+    .where(eq(ledgerEntries.account, account));
+
+  const [user] = await db.select({ credits: users.credits }).from(users).where(eq(users.id, userId)).limit(1);
+
+  return {
+    entries,
+    total: Number(count?.count || 0),
+    balance: user?.credits ?? 0,
+    ledgerBalance: await getLedgerBalance(userId),
+  };
+}
@@ -0,0 +1,233 @@
+/**
+ * Login rate limiting
+ * Failed sign-ins are counted per username and per IP. After a few free
+ * failures each further one doubles the wait before the next attempt, and
+ * past a hard limit the key is locked out for a fixed period (an admin can
+ * unlock a username early). An attempt counts as a failure from the moment
+ * it starts, so parallel guesses can't all get in before the first is
+ * recorded. Every attempt is written to login_attempts.
+ */
+
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { loginAttempts, loginThrottles } from '@/db/schema';
+import { eq, and, gt, sql, type SQL } from 'drizzle-orm';
+
+export type ThrottleScope = 'username' | 'ip';
+
+interface ThrottlePolicy {
+  freeFailures: number;
+  lockoutFailures: number;
+  lockoutMs: number;
+}
+
+// IPs get more headroom than usernames since many users can share one address
+const THROTTLE_POLICIES: Record<ThrottleScope, ThrottlePolicy> = {
+  username: { freeFailures: 3, lockoutFailures: 10, lockoutMs: 30 * 60 * 1000 },
+  ip: { freeFailures: 10, lockoutFailures: 50, lockoutMs: 60 * 60 * 1000 },
+};
+
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 15 * 60 * 1000;
+
+export type LoginAttemptReason =
+  | 'success'
+  | 'unknown_user'
+  | 'invalid_password'
+  | 'invalid_code'
+  | 'account_disabled'
+  | 'throttled'
+  | 'locked';
+
+export interface ThrottleStatus {
+  scope: ThrottleScope;
+  locked: boolean;
+  retryAfterSeconds: number;
+}
+
+// How long to block after the given number of consecutive failures
+function getBlockDurationMs(scope: ThrottleScope, failures: number): number {
+  const policy = THROTTLE_POLICIES[scope];
+
+  if (failures >= policy.lockoutFailures) {
+    return policy.lockoutMs;
+  }
+
+  if (failures <= policy.freeFailures) {
+    return 0;
+  }
+
+  return Math.min(BACKOFF_BASE_MS * 2 ** (failures - policy.freeFailures - 1), BACKOFF_MAX_MS);
+}
+
+function throttleKeys(username: string | null, ipAddress: string | null): Array<{ scope: ThrottleScope; key: string }> {
+  const keys: Array<{ scope: ThrottleScope; key: string }> = [];
+  if (username) {
+    keys.push({ scope: 'username', key: username });
+  }
+  if (ipAddress) {
+    keys.push({ scope: 'ip', key: ipAddress });
+  }
+  return keys;
+}
+
+// Returns the throttle blocking this key right now, or null
+export async function getThrottleStatus(scope: ThrottleScope, key: string): Promise<ThrottleStatus | null> {
+  const now = Date.now();
+
+  const row = await db.select()
+    .from(loginThrottles)
+    .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.key, key)))
+    .limit(1);
+
+  const blockedUntil = row[0]?.blockedUntil ? new Date(row[0].blockedUntil).getTime() : 0;
+
+  if (blockedUntil <= now) {
+    return null;
+  }
+
+  return {
+    scope,
+    locked: row[0].failures >= THROTTLE_POLICIES[scope].lockoutFailures,
+    retryAfterSeconds: Math.ceil((blockedUntil - now) / 1000),
+  };
+}
+
+export function throttledResponse(throttle: ThrottleStatus) {
+  const minutes = Math.ceil(throttle.retryAfterSeconds / 60);
+
+  return NextResponse.json(
+    {
+      error: throttle.locked
+        ? `Too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`
+        : `Too many failed attempts. Wait ${throttle.retryAfterSeconds} seconds and try again.`,
+      code: throttle.locked ? 'ACCOUNT_LOCKED' : 'TOO_MANY_ATTEMPTS',
+      retryAfter: throttle.retryAfterSeconds,
+    },
+    { status: 429, headers: { 'Retry-After': String(throttle.retryAfterSeconds) } }
+  );
+}
+
+// blocked_until for the count an attempt brings the key to; one CASE arm per count that blocks
+function blockedUntilSql(scope: ThrottleScope, failures: SQL, now: Date): SQL {
+  const policy = THROTTLE_POLICIES[scope];
+  const until = (count: number) => new Date(now.getTime() + getBlockDurationMs(scope, count)).toISOString();
+
+  const arms = [sql`when ${failures} >= ${policy.lockoutFailures} then ${until(policy.lockoutFailures)}`];
+  for (let count = policy.freeFailures + 1; count < policy.lockoutFailures; count++) {
+    arms.push(sql`when ${failures} = ${count} then ${until(count)}`);
+  }
+
+  return sql`(case ${sql.join(arms, sql` `)} else null end)`;
+}
+
+/**
+ * Count an attempt against a key unless it is blocked right now. The check
+ * and the increment are one statement, so concurrent guesses each see the
+ * ones before them instead of all slipping through on the same count.
+ */
+async function countAttempt(scope: ThrottleScope, key: string, now: Date): Promise<boolean> {
+  const policy = THROTTLE_POLICIES[scope];
+
+  // Only reached once any block has passed, so a count at the lockout means it was served and starts over
+  const failures = sql`(case when ${loginThrottles.failures} >= ${policy.lockoutFailures} then 1 else ${loginThrottles.failures} + 1 end)`;
+
+  const counted = await db.insert(loginThrottles)
+    .values({ scope, key, failures: 1, lastFailureAt: now.toISOString(), blockedUntil: blockedUntilSql(scope, sql`1`, now) })
+    .onConflictDoUpdate({
+      target: [loginThrottles.scope, loginThrottles.key],
+      set: {
+        failures,
+        lastFailureAt: now.toISOString(),
+        blockedUntil: blockedUntilSql(scope, failures, now),
+      },
+      setWhere: sql`${loginThrottles.blockedUntil} is null or ${loginThrottles.blockedUntil} <= ${now.toISOString()}`,
+    })
+    .returning({ id: loginThrottles.id });
+
+  return counted.length > 0;
+}
+
+/**
+ * Count a sign-in attempt as a failure before it is checked, and refuse it if
+ * the username or IP is backing off or locked out. An attempt that turns out
+ * fine is taken back with forgiveLoginAttempt or recordLoginSuccess. Either
+ * argument can be null when it isn't known yet.
+ */
+export async function countLoginAttempt(username: string | null, ipAddress: string | null): Promise<ThrottleStatus | null> {
+  const now = new Date();
+  const counted: Array<{ scope: ThrottleScope; key: string }> = [];
+
+  for (const { scope, key } of throttleKeys(username, ipAddress)) {
+    if (await countAttempt(scope, key, now)) {
+      counted.push({ scope, key });
+      continue;
+    }
+
+    // A refused attempt doesn't count against the other key either
+    for (const earlier of counted) {
+      await uncountAttempt(earlier.scope, earlier.key);
+    }
+
+    // Just expired since the insert was refused: treat as the shortest wait
+    return await getThrottleStatus(scope, key) ?? { scope, locked: false, retryAfterSeconds: 1 };
+  }
+
+  return null;
+}
+
+// The key wasn't blocked when the attempt was counted, so clearing the block it set restores it
+async function uncountAttempt(scope: ThrottleScope, key: string): Promise<void> {
+  await db.update(loginThrottles)
+    .set({ failures: sql`max(${loginThrottles.failures} - 1, 0)`, blockedUntil: null })
+    .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.key, key)));
+}
+
+// Take back a counted attempt that wasn't a failure, e.g. a right password awaiting its 2FA code
+export async function forgiveLoginAttempt(username: string | null, ipAddress: string | null): Promise<void> {
+  for (const { scope, key } of throttleKeys(username, ipAddress)) {
+    await uncountAttempt(scope, key);
+  }
+}
+
+// The username counter resets; a working account must not clear an IP that is guessing others
+export async function recordLoginSuccess(username: string, ipAddress: string | null): Promise<void> {
+  await db.delete(loginThrottles)
+    .where(and(eq(loginThrottles.scope, 'username'), eq(loginThrottles.key, username)));
+
+  await forgiveLoginAttempt(null, ipAddress);
+}
+
+export async function unlockUsername(username: string): Promise<boolean> {
+  const deleted = await db.delete(loginThrottles)
+    .where(and(eq(loginThrottles.scope, 'username'), eq(loginThrottles.key, username)))
+    .returning({ id: loginThrottles.id });
+
+  return deleted.length > 0;
+}
+
+// Usernames and IPs currently blocked, for the admin view
+export async function getActiveLoginBlocks() {
+  return db.select()
+    .from(loginThrottles)
+    .where(gt(loginThrottles.blockedUntil, new Date().toISOString()));
+}
+
+export async function recordLoginAttempt(attempt: {
+  username: string;
+  userId?: number | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  success: boolean;
+  reason: LoginAttemptReason;
+}): Promise<void> {
+  await db.insert(loginAttempts).values({
+    username: attempt.username,
+    userId: attempt.userId ?? null,
+    ipAddress: attempt.ipAddress,
+    userAgent: attempt.userAgent,
+    success: attempt.success,
+    reason: attempt.reason,
+    createdAt: new Date().toISOString(),
+  });
+}
@@ -58,6 +58,8 @@ export class MempoolWebSocket {
   private trackedAddresses: Set<string> = new Set();
   private messageHandlers: Array<(message: WebSocketMessage) => void> = [];
   private isConnecting = false;
+  // Set by disconnect() so the close it causes doesn't reconnect
+  private isStopped = false;
 
   constructor(private wsUrl: string = 'wss://mempool.space/api/v1/ws') {}
 
@@ -76,6 +78,7 @@ export class MempoolWebSocket {
     }
 
     this.isConnecting = true;
+    this.isStopped = false;
 
     return new Promise((resolve, reject) => {
       try {
@@ -125,6 +128,10 @@ export class MempoolWebSocket {
    * Handle reconnection with exponential backoff
    */
   private handleReconnect(): void {
+    if (this.isStopped) {
+      return;
+    }
+
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
       console.error('Max reconnect attempts reached');
       return;
@@ -134,6 +141,7 @@ export class MempoolWebSocket {
     console.log(`Reconnecting in ${delay}ms... (attempt ${this.reconnectAttempts + 1}/${this.maxReconnectAttempts})`);
 
     setTimeout(() => {
+      if (this.isStopped) return;
       this.reconnectAttempts++;
       this.connect().catch(console.error);
     }, delay);
@@ -220,6 +228,7 @@ export class MempoolWebSocket {
    * Disconnect from WebSocket
    */
   disconnect(): void {
+    this.isStopped = true;
     if (this.ws) {
       this.ws.close();
       this.ws = null;
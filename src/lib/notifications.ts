@@ -0,0 +1,60 @@
+/**
+ * In-app notifications
+ * Short messages shown in the navbar bell. Anything that needs to tell a
+ * customer something later (e.g. a product coming back in stock) adds a row.
+ */
+
+import { db, Database } from '@/db';
+import { notifications } from '@/db/schema';
+import { eq, and, desc, inArray, isNull, sql } from 'drizzle-orm';
+
+type Executor = Database | Parameters<Parameters<Database['transaction']>[0]>[0];
+
+export type NotificationType = 'back_in_stock' | 'price_alert' | 'ledger_drift';
+
+export async function createNotification(
+  executor: Executor,
+  notification: {
+    userId: number;
+    type: NotificationType;
+    title: string;
+    message: string;
+    link?: string | null;
+  }
+): Promise<void> {
+  await executor.insert(notifications).values({
+    userId: notification.userId,
+    type: notification.type,
+    title: notification.title,
+    message: notification.message,
+    link: notification.link ?? null,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+export async function getNotifications(userId: number, limit = 20) {
+  const items = await db.select()
+    .from(notifications)
+    .where(eq(notifications.userId, userId))
+    .orderBy(desc(notifications.createdAt), desc(notifications.id))
+    .limit(limit);
+
+  const [unread] = await db.select({ count: sql<number>`count(*)` })
+    .from(notifications)
+    .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+
+  return { notifications: items, unreadCount: Number(unread?.count || 0) };
+}
+
+// Marks the given notifications read, or all of them when ids is omitted
+export async function markNotificationsRead(userId: number, ids?: number[]): Promise<void> {
+  const conditions = [eq(notifications.userId, userId), isNull(notifications.readAt)];
+  if (ids) {
+    if (ids.length === 0) return;
+    conditions.push(inArray(notifications.id, ids));
+  }
+
+  await db.update(notifications)
+    .set({ readAt: new Date().toISOString() })
+    .where(and(...conditions));
+}
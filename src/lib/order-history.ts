@@ -0,0 +1,127 @@
+/**
+ * Order status changes
+ * Every status change goes through here so the transition rules in
+ * order-status.ts are enforced in one place and each change lands in
+ * order_status_history with who made it.
+ */
+
+import { db, Database } from '@/db';
+import { orders, orderStatusHistory, users } from '@/db/schema';
+import { eq, and, asc, inArray, sql } from 'drizzle-orm';
+import { canTransition, getNextStatuses, OrderStatus } from '@/lib/order-status';
+import { releaseOrderStock } from '@/lib/inventory';
+import { postLedgerEntry, SYSTEM_ACCOUNTS } from '@/lib/ledger';
+
+type Executor = Database | Parameters<Parameters<Database['transaction']>[0]>[0];
+
+export async function recordStatusChange(
+  executor: Executor,
+  entry: {
+    orderId: number;
+    fromStatus: string | null;
+    toStatus: string;
+    changedById: number | null;
+    note?: string | null;
+  }
+): Promise<void> {
+  await executor.insert(orderStatusHistory).values({
+    orderId: entry.orderId,
+    fromStatus: entry.fromStatus,
+    toStatus: entry.toStatus,
+    changedById: entry.changedById,
+    note: entry.note ?? null,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+export type TransitionResult =
+  | { status: 'ok'; order: typeof orders.$inferSelect }
+  | { status: 'not_found' }
+  | { status: 'invalid_transition'; from: string; allowed: OrderStatus[] };
+
+/**
+ * Move an order to a new status if the state machine allows it. The update is
+ * guarded on the status it was read with, so a concurrent change makes this
+ * report an invalid transition instead of silently overwriting it.
+ * Cancelling returns the order's stock and refunds whoever paid for it.
+ */
+export async function transitionOrder(
+  orderId: number,
+  toStatus: OrderStatus,
+  changedById: number | null,
+  note?: string | null
+): Promise<TransitionResult> {
+  return db.transaction(async (tx) => {
+    const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).limit(1);
+
+    if (!order) {
+      return { status: 'not_found' as const };
+    }
+
+    if (!canTransition(order.status, toStatus)) {
+      return { status: 'invalid_transition' as const, from: order.status, allowed: getNextStatuses(order.status) };
+    }
+
+    const [updated] = await tx.update(orders)
+      .set({ status: toStatus, updatedAt: new Date().toISOString() })
+      .where(and(eq(orders.id, orderId), eq(orders.status, order.status)))
+      .returning();
+
+    if (!updated) {
+      const [current] = await tx.select({ status: orders.status }).from(orders).where(eq(orders.id, orderId)).limit(1);
+      const from = current?.status ?? order.status;
+      return { status: 'invalid_transition' as const, from, allowed: getNextStatuses(from) };
+    }
+
+    await recordStatusChange(tx, { orderId, fromStatus: order.status, toStatus, changedById, note });
+
+    if (toStatus === 'cancelled') {
+      await releaseOrderStock(tx, orderId, changedById);
+
+      // Sub-user orders were paid by the parent
+      const payerId = order.payerId ?? order.userId;
+
+      if (order.totalAmount > 0) {
+        await postLedgerEntry(tx, {
+          userId: payerId,
+          direction: 'credit',
+          amount: order.totalAmount,
+          counterAccount: SYSTEM_ACCOUNTS.sales,
+          referenceType: 'order_refund',
+          referenceId: orderId,
+          description: `Refund for cancelled order #${orderId}`,
+          createdById: changedById,
+        });
+      }
+
+      await tx.update(users)
+        .set({ totalSpent: sql`max(coalesce(${users.totalSpent}, 0) - ${order.totalAmount}, 0)` })
+        .where(eq(users.id, payerId));
+    }
+
+    return { status: 'ok' as const, order: updated };
+  });
+}
+
+// Timelines for one or more orders, oldest change first
+export async function getStatusHistory(orderIds: number[]) {
+  if (orderIds.length === 0) {
+    return [];
+  }
+
+  return db.select({
+    id: orderStatusHistory.id,
+    orderId: orderStatusHistory.orderId,
+    fromStatus: orderStatusHistory.fromStatus,
+    toStatus: orderStatusHistory.toStatus,
+    changedById: orderStatusHistory.changedById,
+    changedBy: users.username,
+    changedByRole: users.role,
+    note: orderStatusHistory.note,
+    createdAt: orderStatusHistory.createdAt,
+  })
+    .from(orderStatusHistory)
+    .leftJoin(users, eq(users.id, orderStatusHistory.changedById))
+    .where(inArray(orderStatusHistory.orderId, orderIds))
+    .orderBy(asc(orderStatusHistory.createdAt), asc(orderStatusHistory.id));
+}
@@ -0,0 +1,31 @@
+/**
+ * Order lifecycle shared by the order routes and the admin and customer pages.
+ * Kept free of server imports so client components can use it.
+ *
+ * pending → processing → shipped → delivered, and cancelled from pending or
+ * processing only. delivered and cancelled are final.
+ */
+
+export const ORDER_STATUSES = ['pending', 'processing', 'shipped', 'delivered', 'cancelled'] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === 'string' && (ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+export function getNextStatuses(status: string): OrderStatus[] {
+  return isOrderStatus(status) ? ORDER_TRANSITIONS[status] : [];
+}
+
+export function canTransition(from: string, to: string): boolean {
+  return getNextStatuses(from).includes(to as OrderStatus);
+}
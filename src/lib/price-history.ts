@@ -0,0 +1,159 @@
+/**
+ * Price history
+ * Syncs and admin edits overwrite product prices and variant modifiers in
+ * place, so every change is also written to price_history. Variant rows hold
+ * the variant's effective price (product price plus modifier) and, like stock
+ * subscriptions, are keyed by variant type and name because syncs recreate
+ * variants. A supplier change bigger than the configuration's
+ * priceAlertPercent (DEFAULT_PRICE_ALERT_PERCENT when unset) is flagged as an
+ * alert for admins to revisit their markups.
+ */
+
+import { db, Database } from '@/db';
+import { priceHistory, products, apiConfigurations, users } from '@/db/schema';
+import { eq, and, asc, desc, gte, inArray, isNull, sql } from 'drizzle-orm';
+import { createNotification } from '@/lib/notifications';
+
+type Executor = Database | Parameters<Parameters<Database['transaction']>[0]>[0];
+
+export type PriceChangeSource = 'sync' | 'manual';
+
+export const DEFAULT_PRICE_ALERT_PERCENT = 10;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Records a price written elsewhere if it actually changed; a null `before` records the first known price
+export async function recordPriceChange(
+  executor: Executor,
+  change: {
+    productId: number;
+    variantType?: string | null;
+    variantName?: string | null;
+    before: number | null;
+    after: number;
+    source: PriceChangeSource;
+    apiConfigId?: number | null;
+    userId?: number | null;
+    // Only supplier (sync) changes are checked against it
+    alertPercent?: number | null;
+  }
+): Promise<void> {
+  const after = round(change.after);
+  const before = change.before === null ? null : round(change.before);
+  if (before === after) {
+    return;
+  }
+
+  const changePercent = before ? round(((after - before) / before) * 100) : null;
+  const isAlert = change.source === 'sync'
+    && changePercent !== null
+    && Math.abs(changePercent) >= (change.alertPercent ?? DEFAULT_PRICE_ALERT_PERCENT);
+
+  await executor.insert(priceHistory).values({
+    productId: change.productId,
+    variantType: change.variantType ?? null,
+    variantName: change.variantName ?? null,
+    price: after,
+    previousPrice: before,
+    changePercent,
+    source: change.source,
+    apiConfigId: change.apiConfigId ?? null,
+    userId: change.userId ?? null,
+    isAlert,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+// Alerts a configuration's syncs raised since the given time, e.g. since a sync job started
+export async function countPriceAlertsSince(apiConfigId: number, since: string): Promise<number> {
+  const [row] = await db.select({ count: sql<number>`count(*)` })
+    .from(priceHistory)
+    .where(and(
+      eq(priceHistory.apiConfigId, apiConfigId),
+      eq(priceHistory.isAlert, true),
+      gte(priceHistory.createdAt, since)
+    ));
+
+  return Number(row?.count || 0);
+}
+
+// Oldest first, so the admin chart can plot it as-is
+export async function getPriceHistory(productId: number) {
+  return db.select({
+    id: priceHistory.id,
+    variantType: priceHistory.variantType,
+    variantName: priceHistory.variantName,
+    price: priceHistory.price,
+    previousPrice: priceHistory.previousPrice,
+    changePercent: priceHistory.changePercent,
+    source: priceHistory.source,
+    configName: apiConfigurations.name,
+    username: users.username,
+    isAlert: priceHistory.isAlert,
+    createdAt: priceHistory.createdAt,
+  })
+    .from(priceHistory)
+    .leftJoin(apiConfigurations, eq(apiConfigurations.id, priceHistory.apiConfigId))
+    .leftJoin(users, eq(users.id, priceHistory.userId))
+    .where(eq(priceHistory.productId, productId))
+    .orderBy(asc(priceHistory.createdAt), asc(priceHistory.id));
+}
+
+// Newest first; acknowledged alerts are left out unless asked for
+export async function getPriceAlerts(filters: { includeAcknowledged?: boolean; limit?: number }) {
+  return db.select({
+    id: priceHistory.id,
+    productId: priceHistory.productId,
+    productName: products.name,
+    variantType: priceHistory.variantType,
+    variantName: priceHistory.variantName,
+    price: priceHistory.price,
+    previousPrice: priceHistory.previousPrice,
+    changePercent: priceHistory.changePercent,
+    configName: apiConfigurations.name,
+    acknowledgedAt: priceHistory.acknowledgedAt,
+    createdAt: priceHistory.createdAt,
+  })
+    .from(priceHistory)
+    .innerJoin(products, eq(products.id, priceHistory.productId))
+    .leftJoin(apiConfigurations, eq(apiConfigurations.id, priceHistory.apiConfigId))
+    .where(and(
+      eq(priceHistory.isAlert, true),
+      filters.includeAcknowledged ? undefined : isNull(priceHistory.acknowledgedAt)
+    ))
+    .orderBy(desc(priceHistory.createdAt), desc(priceHistory.id))
+    .limit(filters.limit ?? 50);
+}
+
+// Acknowledges the given alerts, or all open ones when ids is omitted
+export async function acknowledgePriceAlerts(ids?: number[]): Promise<void> {
+  const conditions = [eq(priceHistory.isAlert, true), isNull(priceHistory.acknowledgedAt)];
+  if (ids) {
+    if (ids.length === 0) return;
+    conditions.push(inArray(priceHistory.id, ids));
+  }
+
+  await db.update(priceHistory)
+    .set({ acknowledgedAt: new Date().toISOString() })
+    .where(and(...conditions));
+}
+
+// One bell notification per admin for a sync that raised alerts, rather than one per price
+export async function notifyPriceAlerts(apiConfig: { name: string; priceAlertPercent: number | null }, alertCount: number): Promise<void> {
+  if (alertCount === 0) {
+    return;
+  }
+
+  const admins = await db.select({ id: users.id }).from(users).where(eq(users.role, 'admin'));
+  const percent = apiConfig.priceAlertPercent ?? DEFAULT_PRICE_ALERT_PERCENT;
+
+  for (const admin of admins) {
+    await createNotification(db, {
+      userId: admin.id,
+      type: 'price_alert',
+      title: 'Supplier prices changed',
+      message: `${alertCount} ${alertCount === 1 ? 'price' : 'prices'} from ${apiConfig.name} moved by ${percent}% or more. Check your markups.`,
+      link: '/admin',
+    });
+  }
+}
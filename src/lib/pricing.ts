@@ -0,0 +1,196 @@
+/**
+ * Server-side pricing
+ * Single source of truth for what a cart line costs: base price → active markups
+ * → variant price modifiers → bulk pricing rules. Mirrors the math the product
+ * page shows so the checkout total never depends on client-supplied prices.
+ */
+
+import { db } from '@/db';
+import { markups, markupTiers, bulkPricingRules } from '@/db/schema';
+import { eq, and, lte, or, isNull, gte, inArray } from 'drizzle-orm';
+
+type Markup = typeof markups.$inferSelect;
+type MarkupTier = typeof markupTiers.$inferSelect;
+type BulkPricingRule = typeof bulkPricingRules.$inferSelect;
+
+export interface AppliedMarkup {
+  id: number;
+  name: string;
+  type: string;
+  markupType: string;
+  markupValue: number;
+  priority: number;
+  compoundStrategy: string;
+  priceAfterMarkup: number;
+}
+
+export interface MarkupResult {
+  basePrice: number;
+  finalPrice: number;
+  appliedMarkups: AppliedMarkup[];
+}
+
+export function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Load every markup that is active right now, with its quantity tiers.
+ * Call once per request and reuse the result for every line.
+ */
+export async function loadActiveMarkups(): Promise<Array<{ markup: Markup; tiers: MarkupTier[] }>> {
+  const now = new Date().toISOString();
+
+  const activeMarkups = await db
+    .select()
+    .from(markups)
+    .where(
+      and(
+        eq(markups.isActive, true),
+        or(isNull(markups.startDate), lte(markups.startDate, now)),
+        or(isNull(markups.endDate), gte(markups.endDate, now))
+      )
+    );
+
+  if (activeMarkups.length === 0) {
+    return [];
+  }
+
+  const tiers = await db
+    .select()
+    .from(markupTiers)
+    .where(inArray(markupTiers.markupId, activeMarkups.map(m => m.id)))
+    .orderBy(markupTiers.minQuantity);
+
+  return activeMarkups.map(markup => ({
+    markup,
+    tiers: tiers.filter(t => t.markupId === markup.id),
+  }));
+}
+
+/**
+ * Apply markups to a base price using the same priority and compound
+ * strategy rules as /api/admin/markups/calculate-price.
+ */
+export function applyMarkups(
+  basePrice: number,
+  productId: number,
+  categoryName: string | null,
+  quantity: number,
+  activeMarkups: Array<{ markup: Markup; tiers: MarkupTier[] }>
+): MarkupResult {
+  const applicable = activeMarkups
+    .filter(({ markup }) => {
+      if (markup.type === 'site_wide') return true;
+      if (markup.type === 'category' && categoryName && markup.targetId === categoryName) return true;
+      if (markup.type === 'product' && markup.targetId === productId.toString()) return true;
+      return false;
+    })
+    .sort((a, b) => (b.markup.priority ?? 0) - (a.markup.priority ?? 0));
+
+  let currentPrice = basePrice;
+  const appliedMarkups: AppliedMarkup[] = [];
+
+  for (const { markup, tiers } of applicable) {
+    let effectiveValue = markup.markupValue;
+
+    if (tiers.length > 0) {
+      const tier = tiers.find(t =>
+        quantity >= t.minQuantity && (t.maxQuantity === null || quantity <= t.maxQuantity)
+      );
+      if (tier) {
+        effectiveValue = tier.markupValue;
+      }
+    }
+
+    // 'replace' starts from the base price, 'add' and 'multiply' compound on the running price
+    const startPrice = markup.compoundStrategy === 'replace' ? basePrice : currentPrice;
+    let priceAfterMarkup = startPrice;
+
+    if (markup.markupType === 'percentage') {
+      priceAfterMarkup = startPrice * (1 + effectiveValue / 100);
+    } else if (markup.markupType === 'fixed_amount') {
+      priceAfterMarkup = startPrice + effectiveValue;
+    }
+
+    priceAfterMarkup = Math.max(0, priceAfterMarkup);
+
+    appliedMarkups.push({
+      id: markup.id,
+      name: markup.name,
+      type: markup.type,
+      markupType: markup.markupType,
+      markupValue: effectiveValue,
+      priority: markup.priority ?? 0,
+      compoundStrategy: markup.compoundStrategy,
+      priceAfterMarkup: roundCurrency(priceAfterMarkup),
+    });
+
+    currentPrice = priceAfterMarkup;
+  }
+
+  return {
+    basePrice: roundCurrency(basePrice),
+    finalPrice: roundCurrency(Math.max(0, currentPrice)),
+    appliedMarkups,
+  };
+}
+
+/**
+ * Pick the bulk pricing rule with the highest minQuantity the line qualifies
+ * for. Rules scoped to a variant only apply when that variant is selected.
+ */
+export function applyBulkPricing(
+  unitPrice: number,
+  quantity: number,
+  rules: BulkPricingRule[],
+  variantIds: number[] = []
+): { price: number; appliedRule: BulkPricingRule | null } {
+  const rule = rules
+    .filter(r => r.minQuantity <= quantity)
+    .filter(r => r.variantId === null || variantIds.includes(r.variantId))
+    .sort((a, b) => b.minQuantity - a.minQuantity)[0];
+
+  if (!rule) {
+    return { price: unitPrice, appliedRule: null };
+  }
+
+  let price = unitPrice;
+  if (rule.finalPrice !== null) {
+    price = rule.finalPrice;
+  } else if (rule.discountType === 'percentage') {
+    price = unitPrice * (1 - rule.discountValue / 100);
+  } else if (rule.discountType === 'fixed_amount') {
+    price = Math.max(0, unitPrice - rule.discountValue);
+  }
+
+  return { price: roundCurrency(price), appliedRule: rule };
+}
+
+/**
+ * Unit price for one cart line: markups on the product base price, plus the
+ * selected variants' price modifiers, then the best bulk pricing rule.
+ */
+export function priceLine(
+  product: { id: number; price: number; mainCategory: string | null },
+  variants: Array<{ priceModifier: number | null }>,
+  variantIds: number[],
+  quantity: number,
+  rules: BulkPricingRule[],
+  activeMarkups: Array<{ markup: Markup; tiers: MarkupTier[] }>
+): number {
+  const { finalPrice } = applyMarkups(product.price, product.id, product.mainCategory, quantity, activeMarkups);
+  const variantModifiers = variants.reduce((sum, v) => sum + (v.priceModifier || 0), 0);
+  const { price } = applyBulkPricing(
+    finalPrice + variantModifiers,
+    quantity,
+    rules.filter(r => r.productId === product.id),
+    variantIds
+  );
+  return price;
+}
+
+// Reseller storefront markup: a percentage on top of the final unit price
+export function applyStoreMarkup(unitPrice: number, storeMarkup: number | null | undefined): number {
+  return storeMarkup ? roundCurrency(unitPrice * (1 + storeMarkup / 100)) : unitPrice;
+}
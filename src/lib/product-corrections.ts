@@ -0,0 +1,286 @@
+/**
+ * Product corrections
+ * Admin overrides for API-imported products, keyed on the source product id
+ * so they survive syncs that rewrite the product. A correction can replace
+ * the name, description, brand, volume, categories and images, clamp the price
+ * (variants included) between a floor and a ceiling, and hide the product.
+ * Every sync re-applies them to the incoming feed before anything is written.
+ * For each overridden field the feed's own value is remembered; when a later
+ * sync brings a different one, the override may be stale and the change is
+ * kept as a conflict until an admin resolves it.
+ */
+
+import { db } from '@/db';
+import { productCorrections } from '@/db/schema';
+import { eq, inArray } from 'drizzle-orm';
+import type { ParsedProduct } from '@/lib/api-parsers';
+
+export type ProductCorrection = typeof productCorrections.$inferSelect;
+
+// The product fields a correction can replace outright
+export const OVERRIDE_FIELDS = ['name', 'description', 'brand', 'volume', 'mainCategory', 'subCategory', 'images'] as const;
+export type OverrideField = typeof OVERRIDE_FIELDS[number];
+
+export interface CorrectionConflict {
+  field: OverrideField;
+  // The feed value the override was made against, and what the feed says now
+  previous: unknown;
+  current: unknown;
+  detectedAt: string;
+}
+
+// A product as the feed describes it, in the shape corrections work on
+export interface CorrectableProduct {
+  name: string;
+  description: string | null;
+  brand: string | null;
+  volume: string | null;
+  mainCategory: string;
+  subCategory: string | null;
+  imageUrl: string | null;
+  images: string[];
+  price: number;
+  isAvailable: boolean;
+}
+
+const QUERY_CHUNK_SIZE = 500;
+
+function parseJson<T>(value: string | null, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+export function getCorrectedImages(correction: ProductCorrection): string[] | null {
+  const images = parseJson<string[] | null>(correction.correctedImages, null);
+  return Array.isArray(images) && images.length > 0 ? images : null;
+}
+
+export function getConflicts(correction: ProductCorrection): CorrectionConflict[] {
+  return parseJson<CorrectionConflict[]>(correction.conflicts, []);
+}
+
+// The override a correction holds for a field, or null when the feed's value stands
+export function getOverride(correction: ProductCorrection, field: OverrideField): string | string[] | null {
+  switch (field) {
+    case 'name': return correction.correctedName;
+    case 'description': return correction.correctedDescription;
+    case 'brand': return correction.correctedBrand;
+    case 'volume': return correction.correctedVolume;
+    case 'mainCategory': return correction.correctedCategory;
+    case 'subCategory': return correction.correctedSubCategory;
+    case 'images': return getCorrectedImages(correction);
+  }
+}
+
+export function getOverriddenFields(correction: ProductCorrection): OverrideField[] {
+  return OVERRIDE_FIELDS.filter(field => getOverride(correction, field) !== null);
+}
+
+export function clampPrice(correction: Pick<ProductCorrection, 'priceFloor' | 'priceCeiling'>, price: number): number {
+  let clamped = price;
+  if (correction.priceFloor !== null && clamped < correction.priceFloor) clamped = correction.priceFloor;
+  if (correction.priceCeiling !== null && clamped > correction.priceCeiling) clamped = correction.priceCeiling;
+  return clamped;
+}
+
+// The feed's value for a field, as compared between syncs
+function upstreamValue(product: CorrectableProduct, field: OverrideField): unknown {
+  if (field === 'images') {
+    return product.images.length > 0 ? product.images : product.imageUrl ? [product.imageUrl] : [];
+  }
+  return product[field] ?? null;
+}
+
+export function applyCorrection(product: CorrectableProduct, correction: ProductCorrection): CorrectableProduct {
+  const images = getCorrectedImages(correction);
+
+  return {
+    name: correction.correctedName ?? product.name,
+    description: correction.correctedDescription ?? product.description,
+    brand: correction.correctedBrand ?? product.brand,
+    volume: correction.correctedVolume ?? product.volume,
+    mainCategory: correction.correctedCategory ?? product.mainCategory,
+    subCategory: correction.correctedSubCategory ?? product.subCategory,
+    imageUrl: images ? images[0] : product.imageUrl,
+    images: images ?? product.images,
+    price: clampPrice(correction, product.price),
+    isAvailable: correction.isHidden ? false : product.isAvailable,
+  };
+}
+
+/**
+ * Compare the feed's values for the overridden fields with the ones seen last
+ * time. Returns the updated tracking columns, or null when nothing changed.
+ * The first sync after an override only records the baseline.
+ */
+export function trackUpstream(
+  correction: ProductCorrection,
+  product: CorrectableProduct
+): { upstreamValues: string | null; conflicts: string | null; newConflicts: number } | null {
+  const stored = parseJson<Partial<Record<OverrideField, unknown>>>(correction.upstreamValues, {});
+  const conflicts = getConflicts(correction);
+  const upstream: Partial<Record<OverrideField, unknown>> = {};
+  let newConflicts = 0;
+
+  for (const field of getOverriddenFields(correction)) {
+    const current = upstreamValue(product, field);
+    upstream[field] = current;
+
+    if (!(field in stored) || JSON.stringify(stored[field]) === JSON.stringify(current)) {
+      continue;
+    }
+
+    // A field that changes again before review keeps the value the override was made against
+    const existing = conflicts.findIndex(conflict => conflict.field === field);
+    const conflict: CorrectionConflict = {
+      field,
+      previous: existing >= 0 ? conflicts[existing].previous : stored[field],
+      current,
+      detectedAt: new Date().toISOString(),
+    };
+    if (existing >= 0) {
+      conflicts[existing] = conflict;
+    } else {
+      conflicts.push(conflict);
+      newConflicts++;
+    }
+  }
+
+  const upstreamValues = Object.keys(upstream).length > 0 ? JSON.stringify(upstream) : null;
+  const conflictValues = conflicts.length > 0 ? JSON.stringify(conflicts) : null;
+  if (upstreamValues === correction.upstreamValues && conflictValues === correction.conflicts) {
+    return null;
+  }
+
+  return { upstreamValues, conflicts: conflictValues, newConflicts };
+}
+
+/**
+ * Drop remembered feed values and conflicts of fields that are no longer
+ * overridden, e.g. after an admin clears an override.
+ */
+export function pruneTracking(correction: ProductCorrection): { upstreamValues: string | null; conflicts: string | null } {
+  const fields = getOverriddenFields(correction);
+  const stored = parseJson<Partial<Record<OverrideField, unknown>>>(correction.upstreamValues, {});
+  const upstream = Object.fromEntries(Object.entries(stored).filter(([field]) => fields.includes(field as OverrideField)));
+  const conflicts = getConflicts(correction).filter(conflict => fields.includes(conflict.field));
+
+  return {
+    upstreamValues: Object.keys(upstream).length > 0 ? JSON.stringify(upstream) : null,
+    conflicts: conflicts.length > 0 ? JSON.stringify(conflicts) : null,
+  };
+}
+
+// API shape of a correction: JSON columns decoded, with the fields it overrides listed
+export function toCorrectionResponse(correction: ProductCorrection) {
+  return {
+    ...correction,
+    correctedImages: getCorrectedImages(correction),
+    upstreamValues: parseJson<Partial<Record<OverrideField, unknown>>>(correction.upstreamValues, {}),
+    conflicts: getConflicts(correction),
+    overriddenFields: getOverriddenFields(correction),
+  };
+}
+
+export async function getCorrectionsBySourceIds(sourceIds: string[]): Promise<Map<string, ProductCorrection>> {
+  const corrections = new Map<string, ProductCorrection>();
+
+  for (let i = 0; i < sourceIds.length; i += QUERY_CHUNK_SIZE) {
+    const chunk = sourceIds.slice(i, i + QUERY_CHUNK_SIZE);
+    const rows = await db.select().from(productCorrections).where(inArray(productCorrections.sourceProductId, chunk));
+    for (const row of rows) {
+      corrections.set(row.sourceProductId, row);
+    }
+  }
+
+  return corrections;
+}
+
+// Whether a correction hides the product listed under sourceId, whatever its offers say
+export async function isHiddenByCorrection(sourceId: string | null): Promise<boolean> {
+  if (!sourceId) {
+    return false;
+  }
+
+  const [correction] = await db.select({ isHidden: productCorrections.isHidden })
+    .from(productCorrections)
+    .where(eq(productCorrections.sourceProductId, sourceId))
+    .limit(1);
+  return correction?.isHidden ?? false;
+}
+
+// Applies one correction to a product the feed sent and records what the feed said underneath it
+export async function correctIncomingProduct(
+  correction: ProductCorrection,
+  product: CorrectableProduct
+): Promise<{ product: CorrectableProduct; newConflicts: number }> {
+  const tracking = trackUpstream(correction, product);
+  if (tracking) {
+    await db.update(productCorrections)
+      .set({ upstreamValues: tracking.upstreamValues, conflicts: tracking.conflicts })
+      .where(eq(productCorrections.id, correction.id));
+  }
+
+  return { product: applyCorrection(product, correction), newConflicts: tracking?.newConflicts ?? 0 };
+}
+
+/**
+ * Re-apply corrections to a parsed feed before a sync writes (or diffs) it.
+ * Variant prices are clamped like the product's.
+ */
+export async function applyProductCorrections(
+  parsedProducts: ParsedProduct[]
+): Promise<{ products: ParsedProduct[]; corrected: number; newConflicts: number }> {
+  const corrections = await getCorrectionsBySourceIds(parsedProducts.map(product => product.sourceId));
+  if (corrections.size === 0) {
+    return { products: parsedProducts, corrected: 0, newConflicts: 0 };
+  }
+
+  let corrected = 0;
+  let newConflicts = 0;
+  const result: ParsedProduct[] = [];
+
+  for (const product of parsedProducts) {
+    const correction = corrections.get(product.sourceId);
+    if (!correction) {
+      result.push(product);
+      continue;
+    }
+
+    const outcome = await correctIncomingProduct(correction, {
+      name: product.name,
+      description: product.description ?? null,
+      brand: product.brand ?? null,
+      volume: product.volume ?? null,
+      mainCategory: product.mainCategory,
+      subCategory: product.subCategory ?? null,
+      imageUrl: product.imageUrl ?? null,
+      images: product.images ?? [],
+      price: product.price,
+      isAvailable: product.isAvailable,
+    });
+    corrected++;
+    newConflicts += outcome.newConflicts;
+
+    result.push({
+      ...product,
+      name: outcome.product.name,
+      description: outcome.product.description ?? undefined,
+      brand: outcome.product.brand ?? undefined,
+      volume: outcome.product.volume ?? undefined,
+      mainCategory: outcome.product.mainCategory,
+      subCategory: outcome.product.subCategory ?? undefined,
+      imageUrl: outcome.product.imageUrl ?? undefined,
+      images: outcome.product.images.length > 0 ? outcome.product.images : undefined,
+      price: outcome.product.price,
+      isAvailable: outcome.product.isAvailable,
+      variants: product.variants?.map(variant => ({ ...variant, price: clampPrice(correction, variant.price) })),
+    });
+  }
+
+  return { products: result, corrected, newConflicts };
+}
@@ -0,0 +1,222 @@
+/**
+ * Supplier offers
+ * Several API configurations can carry the same item. Every synced listing is
+ * kept as an offer (price, stock and variants as its supplier reports them),
+ * and a listing whose match key (normalized name, brand and volume) equals a
+ * product another supplier already provides is linked to that product as an
+ * extra offer instead of becoming a duplicate listing. A product with several
+ * offers is priced from the cheapest in-stock offer, separately per variant.
+ */
+
+import { db } from '@/db';
+import { apiConfigurations, productOffers, products } from '@/db/schema';
+import { and, asc, eq, isNull, ne } from 'drizzle-orm';
+import { productMatchKey, ParsedProduct } from '@/lib/api-parsers';
+
+type ApiConfig = typeof apiConfigurations.$inferSelect;
+
+export type ProductOffer = typeof productOffers.$inferSelect;
+
+export interface OfferVariant {
+  variantType: string;
+  variantName: string;
+  price: number;
+  stockQuantity: number;
+}
+
+// Offer fields the selection looks at, with variants decoded
+export interface OfferPricing {
+  apiConfigId: number;
+  price: number;
+  stockQuantity: number;
+  isAvailable: boolean | null;
+  variants: OfferVariant[];
+}
+
+export interface BestOffers {
+  // Supplier whose offer sets the product's own price and stock
+  apiConfigId: number;
+  price: number;
+  stockQuantity: number;
+  isAvailable: boolean;
+  variants: Array<OfferVariant & { apiConfigId: number }>;
+}
+
+const variantKey = (variant: { variantType: string; variantName: string }) => `${variant.variantType}:${variant.variantName}`;
+
+export function getOfferVariants(offer: ProductOffer): OfferVariant[] {
+  if (!offer.variants) return [];
+  try {
+    const variants = JSON.parse(offer.variants);
+    return Array.isArray(variants) ? variants : [];
+  } catch {
+    return [];
+  }
+}
+
+export function toOfferPricing(offer: ProductOffer): OfferPricing {
+  return {
+    apiConfigId: offer.apiConfigId,
+    price: offer.price,
+    stockQuantity: offer.stockQuantity,
+    isAvailable: offer.isAvailable,
+    variants: getOfferVariants(offer),
+  };
+}
+
+// Cheapest of the candidates that are in stock, else the cheapest overall; ties go to the one listed first
+function cheapest<T extends { price: number }>(candidates: T[], inStock: (candidate: T) => boolean): T {
+  const pool = candidates.some(inStock) ? candidates.filter(inStock) : candidates;
+  return pool.reduce((best, candidate) => candidate.price < best.price ? candidate : best);
+}
+
+/**
+ * Pick the source for the product and for each variant any offer carries.
+ * Offers should be passed oldest first so the original listing wins ties.
+ */
+export function selectBestOffers(offers: OfferPricing[]): BestOffers {
+  const offerInStock = (offer: OfferPricing) => offer.isAvailable !== false && offer.stockQuantity > 0;
+  const best = cheapest(offers, offerInStock);
+
+  const candidates = new Map<string, Array<OfferVariant & { apiConfigId: number; offerAvailable: boolean }>>();
+  for (const offer of offers) {
+    for (const variant of offer.variants) {
+      const key = variantKey(variant);
+      candidates.set(key, [
+        ...(candidates.get(key) ?? []),
+        { ...variant, apiConfigId: offer.apiConfigId, offerAvailable: offer.isAvailable !== false },
+      ]);
+    }
+  }
+
+  const variants = [...candidates.values()].map(options => {
+    const { offerAvailable, ...variant } = cheapest(options, option => option.offerAvailable && option.stockQuantity > 0);
+    return variant;
+  });
+
+  return {
+    apiConfigId: best.apiConfigId,
+    price: best.price,
+    stockQuantity: best.stockQuantity,
+    isAvailable: offers.some(offer => offer.isAvailable !== false),
+    variants,
+  };
+}
+
+// The listing with its price, stock and variants replaced by the best of all offers
+export function withBestOffers(productData: ParsedProduct, best: BestOffers): ParsedProduct {
+  return {
+    ...productData,
+    price: best.price,
+    stockQuantity: best.stockQuantity,
+    isAvailable: best.isAvailable,
+    variants: best.variants.length > 0
+      ? best.variants.map(({ apiConfigId, ...variant }) => variant)
+      : productData.variants,
+  };
+}
+
+export function toOfferPayload(apiConfig: ApiConfig, productData: ParsedProduct): OfferPricing {
+  return {
+    apiConfigId: apiConfig.id,
+    price: productData.price,
+    stockQuantity: productData.stockQuantity,
+    isAvailable: productData.isAvailable,
+    variants: (productData.variants ?? []).map(variant => ({
+      variantType: variant.variantType,
+      variantName: variant.variantName,
+      price: variant.price,
+      stockQuantity: variant.stockQuantity,
+    })),
+  };
+}
+
+export async function getProductOffers(productId: number): Promise<ProductOffer[]> {
+  return db.select()
+    .from(productOffers)
+    .where(eq(productOffers.productId, productId))
+    .orderBy(asc(productOffers.id));
+}
+
+// Stores what the supplier currently asks for this listing, moving it to productId if it was linked elsewhere
+export async function recordOffer(apiConfig: ApiConfig, productId: number, productData: ParsedProduct): Promise<void> {
+  const offer = toOfferPayload(apiConfig, productData);
+  const now = new Date().toISOString();
+  const values = {
+    productId,
+    name: productData.name,
+    price: offer.price,
+    stockQuantity: offer.stockQuantity,
+    isAvailable: offer.isAvailable,
+    variants: offer.variants.length > 0 ? JSON.stringify(offer.variants) : null,
+    lastSeenAt: now,
+    updatedAt: now,
+  };
+
+  await db.insert(productOffers)
+    .values({ ...values, apiConfigId: apiConfig.id, sourceId: productData.sourceId, createdAt: now })
+    .onConflictDoUpdate({ target: [productOffers.apiConfigId, productOffers.sourceId], set: values });
+}
+
+/**
+ * The product another supplier lists that this listing should be an offer on,
+ * or null when it needs a product of its own. A listing stays with the
+ * product it was linked to while that product is live; otherwise the oldest
+ * live product of another configuration with the same match key is used.
+ */
+export async function findOfferTarget(apiConfig: ApiConfig, productData: ParsedProduct): Promise<number | null> {
+  const [linked] = await db.select({ productId: products.id })
+    .from(productOffers)
+    .innerJoin(products, eq(products.id, productOffers.productId))
+    .where(and(
+      eq(productOffers.apiConfigId, apiConfig.id),
+      eq(productOffers.sourceId, productData.sourceId),
+      ne(products.apiConfigId, apiConfig.id),
+      isNull(products.discontinuedAt)
+    ))
+    .limit(1);
+  if (linked) {
+    return linked.productId;
+  }
+
+  const [match] = await db.select({ id: products.id })
+    .from(products)
+    .where(and(
+      eq(products.matchKey, productMatchKey(productData)),
+      ne(products.apiConfigId, apiConfig.id),
+      eq(products.isLocalOnly, false),
+      isNull(products.discontinuedAt)
+    ))
+    .orderBy(asc(products.id))
+    .limit(1);
+
+  return match?.id ?? null;
+}
+
+/**
+ * Every offer on a product with its supplier's name, flagging the one that
+ * sets the product price and, per variant, which supplier's price is used.
+ */
+export async function getOfferSummary(productId: number) {
+  const rows = await db.select({ offer: productOffers, configName: apiConfigurations.name })
+    .from(productOffers)
+    .leftJoin(apiConfigurations, eq(apiConfigurations.id, productOffers.apiConfigId))
+    .where(eq(productOffers.productId, productId))
+    .orderBy(asc(productOffers.id));
+
+  if (rows.length === 0) {
+    return { offers: [], variants: [] };
+  }
+
+  const best = selectBestOffers(rows.map(row => toOfferPricing(row.offer)));
+
+  return {
+    offers: rows.map(({ offer, configName }) => ({
+      ...offer,
+      configName,
+      variants: getOfferVariants(offer),
+      isBest: offer.apiConfigId === best.apiConfigId,
+    })),
+    variants: best.variants,
+  };
+}
@@ -0,0 +1,11 @@
+/**
+ * Shipping rates shared by the cart page and the checkout route.
+ * Kept free of server imports so client components can use it.
+ */
+
+export const SHIPPING_RATES = {
+  standard: { label: 'USPS Standard Shipping', cost: 22.99 },
+  priority: { label: 'USPS Priority Mail', cost: 35.99 },
+} as const;
+
+export type ShippingMethod = keyof typeof SHIPPING_RATES;
@@ -0,0 +1,287 @@
+/**
+ * Stock alerts
+ * Admins see products at or below their low-stock threshold on the dashboard.
+ * A threshold set on the product wins over one set on its main category, and
+ * anything without either uses DEFAULT_LOW_STOCK_THRESHOLD.
+ *
+ * Customers can ask to be told when an out-of-stock product or variant comes
+ * back. Subscriptions remember the variant's type and name rather than its
+ * id, so one still matches if the variant is deleted and listed again.
+ */
+
+import { db } from '@/db';
+import { products, productVariants, stockAlertThresholds, stockSubscriptions } from '@/db/schema';
+import { eq, and, asc, inArray, isNull, sql } from 'drizzle-orm';
+import { createNotification } from '@/lib/notifications';
+
+export const DEFAULT_LOW_STOCK_THRESHOLD = 10;
+
+export interface LowStockProduct {
+  id: number;
+  name: string;
+  price: number;
+  mainCategory: string;
+  stockQuantity: number;
+  totalVariantsStock: number;
+  totalStock: number;
+  threshold: number;
+}
+
+export async function getThresholds() {
+  return db.select({
+    id: stockAlertThresholds.id,
+    productId: stockAlertThresholds.productId,
+    productName: products.name,
+    mainCategory: stockAlertThresholds.mainCategory,
+    threshold: stockAlertThresholds.threshold,
+    updatedAt: stockAlertThresholds.updatedAt,
+  })
+    .from(stockAlertThresholds)
+    .leftJoin(products, eq(products.id, stockAlertThresholds.productId))
+    .orderBy(asc(stockAlertThresholds.mainCategory), asc(products.name));
+}
+
+type ThresholdRow = Awaited<ReturnType<typeof getThresholds>>[number];
+
+function resolveThreshold(rows: ThresholdRow[], productId: number, mainCategory: string | null) {
+  const forProduct = rows.find(r => r.productId === productId);
+  if (forProduct) {
+    return { threshold: forProduct.threshold, source: 'product' as const };
+  }
+
+  const forCategory = rows.find(r => r.mainCategory !== null && r.mainCategory === mainCategory);
+  if (forCategory) {
+    return { threshold: forCategory.threshold, source: 'category' as const };
+  }
+
+  return { threshold: DEFAULT_LOW_STOCK_THRESHOLD, source: 'default' as const };
+}
+
+export async function getProductThreshold(productId: number) {
+  const [product] = await db.select({ mainCategory: products.mainCategory })
+    .from(products)
+    .where(eq(products.id, productId))
+    .limit(1);
+
+  return resolveThreshold(await getThresholds(), productId, product?.mainCategory ?? null);
+}
+
+// Available products that still have some stock but no more than their threshold, lowest first
+export async function getLowStockProducts(): Promise<LowStockProduct[]> {
+  const rows = await db.select({
+    id: products.id,
+    name: products.name,
+    price: products.price,
+    mainCategory: products.mainCategory,
+    stockQuantity: products.stockQuantity,
+    totalVariantsStock: sql<number>`coalesce(sum(${productVariants.stockQuantity}), 0)`,
+  })
+    .from(products)
+    .leftJoin(productVariants, eq(productVariants.productId, products.id))
+    .where(eq(products.isAvailable, true))
+    .groupBy(products.id);
+
+  const thresholds = await getThresholds();
+
+  return rows
+    .map(row => {
+      const stockQuantity = row.stockQuantity ?? 0;
+      const totalVariantsStock = Number(row.totalVariantsStock) || 0;
+      return {
+        ...row,
+        stockQuantity,
+        totalVariantsStock,
+        totalStock: stockQuantity + totalVariantsStock,
+        threshold: resolveThreshold(thresholds, row.id, row.mainCategory).threshold,
+      };
+    })
+    .filter(p => p.totalStock > 0 && p.totalStock <= p.threshold)
+    .sort((a, b) => a.totalStock - b.totalStock);
+}
+
+export type ThresholdInput =
+  | { productId: number; mainCategory?: undefined; threshold: number }
+  | { productId?: undefined; mainCategory: string; threshold: number };
+
+export async function saveThreshold(input: ThresholdInput): Promise<void> {
+  const timestamp = new Date().toISOString();
+
+  if (input.productId !== undefined) {
+    await db.insert(stockAlertThresholds)
+      .values({ productId: input.productId, threshold: input.threshold, createdAt: timestamp, updatedAt: timestamp })
+      .onConflictDoUpdate({
+        target: stockAlertThresholds.productId,
+        set: { threshold: input.threshold, updatedAt: timestamp },
+      });
+    return;
+  }
+
+  await db.insert(stockAlertThresholds)
+    .values({ mainCategory: input.mainCategory, threshold: input.threshold, createdAt: timestamp, updatedAt: timestamp })
+    .onConflictDoUpdate({
+      target: stockAlertThresholds.mainCategory,
+      set: { threshold: input.threshold, updatedAt: timestamp },
+    });
+}
+
+export async function deleteThreshold(id: number): Promise<boolean> {
+  const deleted = await db.delete(stockAlertThresholds)
+    .where(eq(stockAlertThresholds.id, id))
+    .returning();
+  return deleted.length > 0;
+}
+
+function isVariantInStock(variant: typeof productVariants.$inferSelect): boolean {
+  return !!variant.isAvailable && (variant.stockQuantity ?? 0) > 0;
+}
+
+function isProductInStock(
+  product: typeof products.$inferSelect,
+  variants: (typeof productVariants.$inferSelect)[]
+): boolean {
+  return !!product.isAvailable && ((product.stockQuantity ?? 0) > 0 || variants.some(isVariantInStock));
+}
+
+export type SubscribeResult =
+  | { status: 'ok'; subscription: typeof stockSubscriptions.$inferSelect }
+  | { status: 'not_found' }
+  | { status: 'invalid_variant' }
+  | { status: 'in_stock' };
+
+// Ask to be notified when a product, or one of its variants, is back in stock
+export async function subscribeToRestock(userId: number, productId: number, variantId: number | null): Promise<SubscribeResult> {
+  const [product] = await db.select().from(products).where(eq(products.id, productId)).limit(1);
+  if (!product) {
+    return { status: 'not_found' };
+  }
+
+  const variants = await db.select().from(productVariants).where(eq(productVariants.productId, productId));
+
+  let variant: typeof productVariants.$inferSelect | null = null;
+  if (variantId !== null) {
+    variant = variants.find(v => v.id === variantId) ?? null;
+    if (!variant) {
+      return { status: 'invalid_variant' };
+    }
+    if (product.isAvailable && isVariantInStock(variant)) {
+      return { status: 'in_stock' };
+    }
+  } else if (isProductInStock(product, variants)) {
+    return { status: 'in_stock' };
+  }
+
+  const variantType = variant?.variantType ?? null;
+  const variantName = variant?.variantName ?? null;
+
+  const [existing] = await db.select()
+    .from(stockSubscriptions)
+    .where(and(
+      eq(stockSubscriptions.userId, userId),
+      eq(stockSubscriptions.productId, productId),
+      variantType === null ? isNull(stockSubscriptions.variantType) : eq(stockSubscriptions.variantType, variantType),
+      variantName === null ? isNull(stockSubscriptions.variantName) : eq(stockSubscriptions.variantName, variantName),
+      isNull(stockSubscriptions.notifiedAt)
+    ))
+    .limit(1);
+
+  if (existing) {
+    return { status: 'ok', subscription: existing };
+  }
+
+  const [subscription] = await db.insert(stockSubscriptions).values({
+    userId,
+    productId,
+    variantType,
+    variantName,
+    createdAt: new Date().toISOString(),
+  }).returning();
+
+  return { status: 'ok', subscription };
+}
+
+// A customer's pending "notify me" requests, optionally for one product
+export async function getPendingSubscriptions(userId: number, productId?: number) {
+  return db.select({
+    id: stockSubscriptions.id,
+    productId: stockSubscriptions.productId,
+    productName: products.name,
+    variantType: stockSubscriptions.variantType,
+    variantName: stockSubscriptions.variantName,
+    createdAt: stockSubscriptions.createdAt,
+  })
+    .from(stockSubscriptions)
+    .innerJoin(products, eq(products.id, stockSubscriptions.productId))
+    .where(and(
+      eq(stockSubscriptions.userId, userId),
+      isNull(stockSubscriptions.notifiedAt),
+      productId ? eq(stockSubscriptions.productId, productId) : undefined
+    ))
+    .orderBy(asc(stockSubscriptions.createdAt));
+}
+
+export async function cancelSubscription(userId: number, id: number): Promise<boolean> {
+  const deleted = await db.delete(stockSubscriptions)
+    .where(and(eq(stockSubscriptions.id, id), eq(stockSubscriptions.userId, userId)))
+    .returning();
+  return deleted.length > 0;
+}
+
+/**
+ * Notify everyone waiting on these products whose product or variant now has
+ * stock. Call after anything that raises stock levels; returns how many
+ * notifications were sent.
+ */
+export async function notifyBackInStock(productIds: number[]): Promise<number> {
+  const ids = [...new Set(productIds)];
+  if (ids.length === 0) {
+    return 0;
+  }
+
+  const pending = await db.select()
+    .from(stockSubscriptions)
+    .where(and(inArray(stockSubscriptions.productId, ids), isNull(stockSubscriptions.notifiedAt)));
+
+  if (pending.length === 0) {
+    return 0;
+  }
+
+  const waitedOn = [...new Set(pending.map(s => s.productId))];
+  const productRows = await db.select().from(products).where(inArray(products.id, waitedOn));
+  const variantRows = await db.select().from(productVariants).where(inArray(productVariants.productId, waitedOn));
+
+  let sent = 0;
+  for (const subscription of pending) {
+    const product = productRows.find(p => p.id === subscription.productId);
+    if (!product) continue;
+
+    const variants = variantRows.filter(v => v.productId === product.id);
+    const inStock = subscription.variantName === null
+      ? isProductInStock(product, variants)
+      : !!product.isAvailable && variants.some(v =>
+        v.variantType === subscription.variantType &&
+        v.variantName === subscription.variantName &&
+        isVariantInStock(v)
+      );
+
+    if (!inStock) continue;
+
+    const label = subscription.variantName ? `${product.name} (${subscription.variantName})` : product.name;
+
+    await db.transaction(async (tx) => {
+      await tx.update(stockSubscriptions)
+        .set({ notifiedAt: new Date().toISOString() })
+        .where(eq(stockSubscriptions.id, subscription.id));
+
+      await createNotification(tx, {
+        userId: subscription.userId,
+        type: 'back_in_stock',
+        title: 'Back in stock',
+        message: `${label} is available again.`,
+        link: `/marketplace/product/${product.id}`,
+      });
+    });
+    sent++;
+  }
+
+  return sent;
+}
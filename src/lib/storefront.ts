@@ -0,0 +1,61 @@
+/**
+ * Reseller storefronts
+ * A customer who sets a store slug gets a branded catalog at /store/[slug].
+ * Their storeMarkup is a percentage added on top of the regular price, and the
+ * difference is recorded on each order as the reseller's margin.
+ */
+
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+
+export interface Storefront {
+  id: number;
+  slug: string;
+  storeName: string;
+  storeLogo: string | null;
+  storeMarkup: number;
+}
+
+// 3-40 lowercase letters, digits and inner hyphens
+export const STORE_SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{1,38}[a-z0-9]$/;
+
+export function slugifyStoreName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40);
+}
+
+function toStorefront(user: typeof users.$inferSelect): Storefront | null {
+  if (!user.storeSlug || !user.isActive) {
+    return null;
+  }
+
+  return {
+    id: user.id,
+    slug: user.storeSlug,
+    storeName: user.storeName || user.username,
+    storeLogo: user.storeLogo,
+    storeMarkup: user.storeMarkup || 0,
+  };
+}
+
+export async function getStorefrontBySlug(slug: string): Promise<Storefront | null> {
+  const rows = await db.select()
+    .from(users)
+    .where(and(eq(users.storeSlug, slug.toLowerCase()), eq(users.isActive, true)))
+    .limit(1);
+
+  return rows.length > 0 ? toStorefront(rows[0]) : null;
+}
+
+export async function getStorefrontById(userId: number): Promise<Storefront | null> {
+  const rows = await db.select()
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  return rows.length > 0 ? toStorefront(rows[0]) : null;
+}
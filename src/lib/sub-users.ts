@@ -0,0 +1,235 @@
+/**
+ * Sub-user accounts
+ * A parent with subUsersEnabled can create sub-users that spend the parent's
+ * credits. Each sub-user has an optional monthly spending cap, an optional
+ * list of allowed main categories, and an optional approval threshold: orders
+ * above it are paid up front but stay pending until the parent approves them
+ * (moving them to processing) or rejects them (cancelling and refunding).
+ */
+
+import { db } from '@/db';
+import { users, orders, subUserLimits } from '@/db/schema';
+import { eq, and, ne, gte, sql } from 'drizzle-orm';
+import { roundCurrency } from '@/lib/pricing';
+import { recordStatusChange } from '@/lib/order-history';
+import { releaseOrderStock } from '@/lib/inventory';
+import { postLedgerEntry, SYSTEM_ACCOUNTS } from '@/lib/ledger';
+
+export interface SubUserPolicy {
+  userId: number;
+  parentId: number;
+  parentUsername: string;
+  parentActive: boolean;
+  monthlyCap: number | null;
+  allowedCategories: string[] | null;
+  approvalThreshold: number | null;
+}
+
+export function parseAllowedCategories(value: string | null): string[] | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) && parsed.length > 0 ? parsed.map(String) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Limits for a sub-user, or null for a regular account
+export async function getSubUserPolicy(userId: number): Promise<SubUserPolicy | null> {
+  const [user] = await db.select({ parentId: users.parentId })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!user?.parentId) {
+    return null;
+  }
+
+  const [parent] = await db.select()
+    .from(users)
+    .where(eq(users.id, user.parentId))
+    .limit(1);
+
+  const [limits] = await db.select()
+    .from(subUserLimits)
+    .where(eq(subUserLimits.userId, userId))
+    .limit(1);
+
+  return {
+    userId,
+    parentId: user.parentId,
+    parentUsername: parent?.username ?? '',
+    // A parent that is disabled or turned sub-users off suspends every sub-user's spending
+    parentActive: !!parent?.isActive && !!parent?.subUsersEnabled,
+    monthlyCap: limits?.monthlyCap ?? null,
+    allowedCategories: parseAllowedCategories(limits?.allowedCategories ?? null),
+    approvalThreshold: limits?.approvalThreshold ?? null,
+  };
+}
+
+export function isCategoryAllowed(policy: SubUserPolicy | null, category: string | null): boolean {
+  if (!policy?.allowedCategories) {
+    return true;
+  }
+  return !!category && policy.allowedCategories.includes(category);
+}
+
+export function startOfMonth(now: Date = new Date()): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+}
+
+// What a sub-user has ordered so far this calendar month (UTC); cancelled orders don't count
+export async function getMonthlySpend(userId: number): Promise<number> {
+  const [row] = await db.select({
+    total: sql<number>`coalesce(sum(${orders.totalAmount}), 0)`,
+  })
+    .from(orders)
+    .where(and(
+      eq(orders.userId, userId),
+      ne(orders.status, 'cancelled'),
+      gte(orders.createdAt, startOfMonth())
+    ));
+
+  return roundCurrency(Number(row?.total || 0));
+}
+
+export type ApprovalResult =
+  | { status: 'ok'; order: typeof orders.$inferSelect }
+  | { status: 'not_found' }
+  | { status: 'not_awaiting' };
+
+/**
+ * Approve or reject a sub-user order waiting on its parent. Rejection cancels
+ * the order, returns its stock and refunds the parent, who paid at checkout.
+ */
+export async function decideApproval(
+  orderId: number,
+  parentId: number,
+  approve: boolean,
+  decidedById: number
+): Promise<ApprovalResult> {
+  return db.transaction(async (tx) => {
+    const [order] = await tx.select()
+      .from(orders)
+      .where(and(eq(orders.id, orderId), eq(orders.payerId, parentId)))
+      .limit(1);
+
+    if (!order) {
+      return { status: 'not_found' as const };
+    }
+
+    const timestamp = new Date().toISOString();
+
+    // Guarded on the current state so two concurrent decisions can't both apply
+    const [updated] = await tx.update(orders)
+      .set({
+        approvalStatus: approve ? 'approved' : 'rejected',
+        approvalDecidedAt: timestamp,
+        status: approve ? 'processing' : 'cancelled',
+        updatedAt: timestamp,
+      })
+      .where(and(
+        eq(orders.id, orderId),
+        eq(orders.approvalStatus, 'awaiting'),
+        eq(orders.status, 'pending')
+      ))
+      .returning();
+
+    if (!updated) {
+      return { status: 'not_awaiting' as const };
+    }
+
+    await recordStatusChange(tx, {
+      orderId,
+      fromStatus: order.status,
+      toStatus: updated.status,
+      changedById: decidedById,
+      note: approve ? 'Approved by the account owner' : 'Rejected by the account owner; refunded',
+    });
+
+    if (!approve) {
+      await releaseOrderStock(tx, orderId, decidedById);
+
+      if (order.totalAmount > 0) {
+        await postLedgerEntry(tx, {
+          userId: parentId,
+          direction: 'credit',
+          amount: order.totalAmount,
+          counterAccount: SYSTEM_ACCOUNTS.sales,
+          referenceType: 'order_refund',
+          referenceId: orderId,
+          description: `Refund for rejected order #${orderId}`,
+          createdById: decidedById,
+        });
+      }
+
+      await tx.update(users)
+        .set({ totalSpent: sql`max(coalesce(${users.totalSpent}, 0) - ${order.totalAmount}, 0)` })
+        .where(eq(users.id, parentId));
+    }
+
+    return { status: 'ok' as const, order: updated };
+  });
+}
+
+export interface SubUserLimitsInput {
+  monthlyCap?: number | null;
+  allowedCategories?: string[] | null;
+  approvalThreshold?: number | null;
+}
+
+// Validates the limit fields present in a request body; empty values mean "no limit"
+export function parseSubUserLimits(body: Record<string, unknown>): { limits: SubUserLimitsInput } | { error: string; code: string } {
+  const limits: SubUserLimitsInput = {};
+
+  for (const field of ['monthlyCap', 'approvalThreshold'] as const) {
+    const value = body[field];
+    if (value === undefined) continue;
+
+    if (value === null || value === '') {
+      limits[field] = null;
+      continue;
+    }
+
+    const amount = typeof value === 'number' ? value : parseFloat(String(value));
+    if (isNaN(amount) || amount < 0) {
+      return { error: `${field} must be a non-negative number`, code: 'INVALID_LIMIT' };
+    }
+    limits[field] = roundCurrency(amount);
+  }
+
+  if (body.allowedCategories !== undefined) {
+    const categories = body.allowedCategories;
+    if (categories === null || (Array.isArray(categories) && categories.length === 0)) {
+      limits.allowedCategories = null;
+    } else if (Array.isArray(categories) && categories.every(c => typeof c === 'string' && c.trim())) {
+      limits.allowedCategories = [...new Set(categories.map(c => (c as string).trim()))];
+    } else {
+      return { error: 'allowedCategories must be an array of category names', code: 'INVALID_CATEGORIES' };
+    }
+  }
+
+  return { limits };
+}
+
+export async function saveSubUserLimits(userId: number, limits: SubUserLimitsInput): Promise<void> {
+  const timestamp = new Date().toISOString();
+  const values = {
+    ...(limits.monthlyCap !== undefined ? { monthlyCap: limits.monthlyCap } : {}),
+    ...(limits.approvalThreshold !== undefined ? { approvalThreshold: limits.approvalThreshold } : {}),
+    ...(limits.allowedCategories !== undefined
+      ? { allowedCategories: limits.allowedCategories ? JSON.stringify(limits.allowedCategories) : null }
+      : {}),
+  };
+
+  await db.insert(subUserLimits)
+    .values({ userId, ...values, createdAt: timestamp, updatedAt: timestamp })
+    .onConflictDoUpdate({
+      target: subUserLimits.userId,
+      set: { ...values, updatedAt: timestamp },
+    });
+}
@@ -0,0 +1,628 @@
+/**
+ * Sync changesets
+ * A configuration in test mode never writes to the catalog. Its syncs are dry
+ * runs: the source is compared with the configuration's products and the
+ * differences are stored as a changeset of new products, changed fields
+ * (price, categories, stock, variants...) and products that left the source.
+ * An admin approves items and individual fields, then applies what was
+ * approved or discards the lot. A newer dry run supersedes a pending one.
+ * Listings that are offers on products with several suppliers are compared
+ * and applied through their offer, the way a live sync writes them.
+ */
+
+import { db } from '@/db';
+import { apiConfigurations, apiLogs, products, productImages, productOffers, productVariants, bulkPricingRules, syncChangesets, syncChangeItems } from '@/db/schema';
+import { eq, and, asc, desc, inArray, isNull, ne } from 'drizzle-orm';
+import { recordStockChange } from '@/lib/inventory';
+import { notifyBackInStock } from '@/lib/stock-alerts';
+import { recordPriceChange, countPriceAlertsSince, notifyPriceAlerts } from '@/lib/price-history';
+import { toProductPayload, syncProduct, repriceFromOffers, writeProductImages, writeProductVariants, writeBulkPricing } from '@/lib/sync-writer';
+import { productMatchKey, ParsedProduct } from '@/lib/api-parsers';
+import { getOfferVariants, getProductOffers, recordOffer, ProductOffer } from '@/lib/product-offers';
+
+type ApiConfig = typeof apiConfigurations.$inferSelect;
+
+export type ChangeKind = 'create' | 'update' | 'remove';
+export type ChangesetStatus = 'pending' | 'applied' | 'discarded' | 'superseded';
+export type ItemDecision = 'pending' | 'approved' | 'partial' | 'rejected';
+
+const SCALAR_FIELDS = [
+  'name', 'description', 'price', 'imageUrl', 'category', 'mainCategory',
+  'subCategory', 'brand', 'volume', 'stockQuantity', 'isAvailable',
+] as const;
+
+export const CHANGE_FIELDS = [...SCALAR_FIELDS, 'images', 'variants', 'bulkPricing'] as const;
+
+type ScalarField = typeof SCALAR_FIELDS[number];
+export type ChangeField = typeof CHANGE_FIELDS[number];
+
+// What a supplier's offer carries; on a product priced from several offers these go through the offer
+const OFFER_FIELDS: readonly ChangeField[] = ['price', 'stockQuantity', 'isAvailable', 'variants'];
+
+export interface FieldChange {
+  field: ChangeField;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ChangeItem {
+  id: number;
+  kind: ChangeKind;
+  productId: number | null;
+  sourceId: string | null;
+  name: string;
+  changes: FieldChange[];
+  // The incoming product, trimmed to what the review screen shows for new products
+  preview: { price: number; mainCategory: string; subCategory: string | null; stockQuantity: number; variantCount: number } | null;
+  decision: ItemDecision;
+  appliedFields: ChangeField[];
+  error: string | null;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function isScalarField(field: ChangeField): field is ScalarField {
+  return (SCALAR_FIELDS as readonly string[]).includes(field);
+}
+
+interface CurrentProduct {
+  product: typeof products.$inferSelect;
+  // The configuration's offer, when the product is priced from several suppliers' offers
+  offer: ProductOffer | null;
+  // The listing is an offer on a product another configuration provides
+  linked: boolean;
+  images: string[];
+  variants: { variantType: string; variantName: string; price: number; stockQuantity: number; isAvailable: boolean }[];
+  bulkPricing: { minQuantity: number; price: number }[];
+}
+
+function currentValue(current: CurrentProduct, field: ScalarField): unknown {
+  if (field === 'isAvailable') {
+    return current.offer ? current.offer.isAvailable !== false : !!current.product.isAvailable;
+  }
+  if (current.offer && (field === 'price' || field === 'stockQuantity')) {
+    return current.offer[field];
+  }
+  return current.product[field] ?? null;
+}
+
+function toOfferVariants(offer: ProductOffer): CurrentProduct['variants'] {
+  return sortVariants(getOfferVariants(offer).map(v => ({
+    variantType: v.variantType,
+    variantName: v.variantName,
+    price: round(v.price),
+    stockQuantity: v.stockQuantity,
+    isAvailable: true,
+  })));
+}
+
+function sortVariants<T extends { variantType: string; variantName: string }>(variants: T[]): T[] {
+  return [...variants].sort((a, b) => `${a.variantType}:${a.variantName}`.localeCompare(`${b.variantType}:${b.variantName}`));
+}
+
+/**
+ * Only the parts a live sync would write are compared, so fields the source
+ * leaves empty don't show up as removals. A linked listing only writes its
+ * offer, and a product priced from several offers takes price, stock and
+ * variants from them, so those are compared with the configuration's offer.
+ */
+function diffProduct(apiConfig: ApiConfig, current: CurrentProduct, incoming: ParsedProduct): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const payload = toProductPayload(apiConfig, incoming);
+
+  for (const field of SCALAR_FIELDS) {
+    if (current.linked && !OFFER_FIELDS.includes(field)) {
+      continue;
+    }
+    const before = currentValue(current, field);
+    const after = payload[field] ?? null;
+    if (before !== after) {
+      changes.push({ field, before, after });
+    }
+  }
+
+  if (!current.linked && incoming.images && incoming.images.length > 1 && JSON.stringify(current.images) !== JSON.stringify(incoming.images)) {
+    changes.push({ field: 'images', before: current.images, after: incoming.images });
+  }
+
+  if (incoming.variants && incoming.variants.length > 0) {
+    const after = sortVariants(incoming.variants.map(v => ({
+      variantType: v.variantType,
+      variantName: v.variantName,
+      price: round(v.price),
+      stockQuantity: v.stockQuantity,
+    })));
+    // Variants already discontinued for dropping out of the feed aren't coming back with this write
+    const incomingKeys = new Set(after.map(v => `${v.variantType}:${v.variantName}`));
+    const before = current.variants
+      .filter(v => v.isAvailable || incomingKeys.has(`${v.variantType}:${v.variantName}`))
+      .map(v => ({ variantType: v.variantType, variantName: v.variantName, price: v.price, stockQuantity: v.stockQuantity }));
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      changes.push({ field: 'variants', before, after });
+    }
+  }
+
+  if (!current.linked && incoming.bulkPricing && incoming.bulkPricing.length > 0) {
+    const after = [...incoming.bulkPricing]
+      .sort((a, b) => a.minQuantity - b.minQuantity)
+      .map(t => ({ minQuantity: t.minQuantity, price: round(t.price) }));
+    if (JSON.stringify(current.bulkPricing) !== JSON.stringify(after)) {
+      changes.push({ field: 'bulkPricing', before: current.bulkPricing, after });
+    }
+  }
+
+  return changes;
+}
+
+// The configuration's products and its offers on live products of other configurations, by source id
+async function loadCurrentProducts(configId: number): Promise<Map<string, CurrentProduct>> {
+  const current = new Map<string, CurrentProduct>();
+
+  const linkedRows = await db.select({ offer: productOffers, product: products })
+    .from(productOffers)
+    .innerJoin(products, eq(products.id, productOffers.productId))
+    .where(and(
+      eq(productOffers.apiConfigId, configId),
+      ne(products.apiConfigId, configId),
+      isNull(products.discontinuedAt)
+    ));
+  for (const { offer, product } of linkedRows) {
+    current.set(offer.sourceId, {
+      product,
+      offer,
+      linked: true,
+      images: [],
+      variants: toOfferVariants(offer),
+      bulkPricing: [],
+    });
+  }
+
+  const rows = await db.select().from(products).where(eq(products.apiConfigId, configId));
+  const ids = rows.map(p => p.id);
+  if (ids.length === 0) {
+    return current;
+  }
+
+  const imageRows = await db.select().from(productImages)
+    .where(inArray(productImages.productId, ids))
+    .orderBy(asc(productImages.displayOrder));
+  const variantRows = await db.select().from(productVariants).where(inArray(productVariants.productId, ids));
+  const tierRows = await db.select().from(bulkPricingRules)
+    .where(inArray(bulkPricingRules.productId, ids))
+    .orderBy(asc(bulkPricingRules.minQuantity));
+  const offerRows = await db.select().from(productOffers).where(inArray(productOffers.productId, ids));
+
+  for (const product of rows) {
+    const offers = offerRows.filter(o => o.productId === product.id);
+    const ownOffer = offers.find(o => o.apiConfigId === configId && o.sourceId === product.sourceId);
+    const offer = ownOffer && offers.length > 1 ? ownOffer : null;
+
+    current.set(product.sourceId || '', {
+      product,
+      offer,
+      linked: false,
+      images: imageRows.filter(i => i.productId === product.id).map(i => i.imageUrl),
+      variants: offer ? toOfferVariants(offer) : sortVariants(variantRows.filter(v => v.productId === product.id).map(v => ({
+        variantType: v.variantType,
+        variantName: v.variantName,
+        price: round(product.price + (v.priceModifier ?? 0)),
+        stockQuantity: v.stockQuantity ?? 0,
+        isAvailable: !!v.isAvailable,
+      }))),
+      bulkPricing: tierRows.filter(t => t.productId === product.id).map(t => ({
+        minQuantity: t.minQuantity,
+        price: round(t.finalPrice ?? product.price),
+      })),
+    });
+  }
+
+  return current;
+}
+
+/**
+ * Compare a dry run's products with the catalog and store the result. Older
+ * pending changesets for the configuration are marked superseded.
+ */
+export async function createChangeset(apiConfig: ApiConfig, jobId: number, incoming: ParsedProduct[]) {
+  const current = await loadCurrentProducts(apiConfig.id);
+  const timestamp = new Date().toISOString();
+
+  const items: (typeof syncChangeItems.$inferInsert)[] = [];
+  const seen = new Set<string>();
+
+  for (const productData of incoming) {
+    seen.add(productData.sourceId);
+    const existing = current.get(productData.sourceId);
+
+    if (!existing) {
+      items.push({
+        changesetId: 0,
+        kind: 'create',
+        sourceId: productData.sourceId,
+        name: productData.name,
+        payload: JSON.stringify(productData),
+        createdAt: timestamp,
+      });
+      continue;
+    }
+
+    const changes = diffProduct(apiConfig, existing, productData);
+    if (changes.length > 0) {
+      items.push({
+        changesetId: 0,
+        kind: 'update',
+        productId: existing.product.id,
+        sourceId: productData.sourceId,
+        name: existing.product.name,
+        changes: JSON.stringify(changes),
+        payload: JSON.stringify(productData),
+        createdAt: timestamp,
+      });
+    }
+  }
+
+  // Products already hidden have nothing left to remove, and neither do offers already withdrawn
+  for (const [sourceId, existing] of current) {
+    const isAvailable = existing.linked ? existing.offer?.isAvailable !== false : existing.product.isAvailable;
+    if (!seen.has(sourceId) && isAvailable) {
+      items.push({
+        changesetId: 0,
+        kind: 'remove',
+        productId: existing.product.id,
+        sourceId: sourceId || null,
+        name: existing.product.name,
+        changes: JSON.stringify([{ field: 'isAvailable', before: true, after: false }]),
+        createdAt: timestamp,
+      });
+    }
+  }
+
+  return db.transaction(async (tx) => {
+    await tx.update(syncChangesets)
+      .set({ status: 'superseded' })
+      .where(and(eq(syncChangesets.configId, apiConfig.id), eq(syncChangesets.status, 'pending')));
+
+    const [changeset] = await tx.insert(syncChangesets).values({
+      configId: apiConfig.id,
+      jobId,
+      status: 'pending',
+      createCount: items.filter(i => i.kind === 'create').length,
+      updateCount: items.filter(i => i.kind === 'update').length,
+      removeCount: items.filter(i => i.kind === 'remove').length,
+      createdAt: timestamp,
+    }).returning();
+
+    for (let i = 0; i < items.length; i += 100) {
+      await tx.insert(syncChangeItems).values(
+        items.slice(i, i + 100).map(item => ({ ...item, changesetId: changeset.id }))
+      );
+    }
+
+    return changeset;
+  });
+}
+
+export async function listChangesets(filters: { configId?: number; status?: ChangesetStatus; limit?: number }) {
+  return db.select({
+    id: syncChangesets.id,
+    configId: syncChangesets.configId,
+    configName: apiConfigurations.name,
+    jobId: syncChangesets.jobId,
+    status: syncChangesets.status,
+    createCount: syncChangesets.createCount,
+    updateCount: syncChangesets.updateCount,
+    removeCount: syncChangesets.removeCount,
+    appliedCount: syncChangesets.appliedCount,
+    decidedAt: syncChangesets.decidedAt,
+    createdAt: syncChangesets.createdAt,
+  })
+    .from(syncChangesets)
+    .innerJoin(apiConfigurations, eq(apiConfigurations.id, syncChangesets.configId))
+    .where(and(
+      filters.configId ? eq(syncChangesets.configId, filters.configId) : undefined,
+      filters.status ? eq(syncChangesets.status, filters.status) : undefined
+    ))
+    .orderBy(desc(syncChangesets.id))
+    .limit(filters.limit ?? 20);
+}
+
+function toChangeItem(row: typeof syncChangeItems.$inferSelect): ChangeItem {
+  const payload: ParsedProduct | null = row.kind === 'create' && row.payload ? JSON.parse(row.payload) : null;
+  return {
+    id: row.id,
+    kind: row.kind as ChangeKind,
+    productId: row.productId,
+    sourceId: row.sourceId,
+    name: row.name,
+    changes: row.changes ? JSON.parse(row.changes) : [],
+    preview: payload && {
+      price: payload.price,
+      mainCategory: payload.mainCategory,
+      subCategory: payload.subCategory ?? null,
+      stockQuantity: payload.stockQuantity,
+      variantCount: payload.variants?.length ?? 0,
+    },
+    decision: row.decision as ItemDecision,
+    appliedFields: row.appliedFields ? JSON.parse(row.appliedFields) : [],
+    error: row.error,
+  };
+}
+
+export async function getChangeset(id: number) {
+  const [changeset] = await db.select().from(syncChangesets).where(eq(syncChangesets.id, id)).limit(1);
+  if (!changeset) {
+    return null;
+  }
+
+  const items = await db.select().from(syncChangeItems)
+    .where(eq(syncChangeItems.changesetId, id))
+    .orderBy(asc(syncChangeItems.id));
+
+  return { changeset, items: items.map(toChangeItem) };
+}
+
+export interface ItemApproval {
+  itemId: number;
+  // For updates, the fields to take from the source; omitted means all of them
+  fields?: ChangeField[];
+}
+
+export type ApplyResult =
+  | { status: 'ok'; created: number; updated: number; removed: number; errors: string[] }
+  | { status: 'not_found' }
+  | { status: 'not_pending'; changesetStatus: string };
+
+// The listing as its offer should now stand: approved fields from the source, the rest as last recorded
+async function toApprovedOffer(
+  current: typeof products.$inferSelect,
+  ownOffer: ProductOffer | undefined,
+  incoming: ParsedProduct,
+  fields: ChangeField[]
+): Promise<ParsedProduct> {
+  // Products synced before offers were recorded have only their own row to go on
+  const variants = ownOffer
+    ? getOfferVariants(ownOffer)
+    : (await db.select().from(productVariants).where(eq(productVariants.productId, current.id)))
+      .filter(v => v.isAvailable)
+      .map(v => ({
+        variantType: v.variantType,
+        variantName: v.variantName,
+        price: current.price + (v.priceModifier ?? 0),
+        stockQuantity: v.stockQuantity ?? 0,
+      }));
+
+  return {
+    ...incoming,
+    price: fields.includes('price') ? incoming.price : ownOffer?.price ?? current.price,
+    stockQuantity: fields.includes('stockQuantity') ? incoming.stockQuantity : ownOffer?.stockQuantity ?? current.stockQuantity ?? 0,
+    isAvailable: fields.includes('isAvailable') ? incoming.isAvailable : (ownOffer ?? current).isAvailable !== false,
+    variants: fields.includes('variants') ? incoming.variants : variants,
+  };
+}
+
+async function applyUpdate(apiConfig: ApiConfig, productId: number, incoming: ParsedProduct, fields: ChangeField[]): Promise<void> {
+  const [current] = await db.select().from(products).where(eq(products.id, productId)).limit(1);
+  if (!current) {
+    throw new Error('Product no longer exists');
+  }
+
+  // A linked listing, or a product other suppliers also offer, is priced from the best of its offers
+  const offers = await getProductOffers(productId);
+  const ownOffer = offers.find(offer => offer.apiConfigId === apiConfig.id && offer.sourceId === incoming.sourceId);
+  const pricedFromOffers = current.apiConfigId !== apiConfig.id || offers.some(offer => offer !== ownOffer);
+
+  const payload = toProductPayload(apiConfig, incoming);
+  const updates: Partial<typeof products.$inferInsert> = {};
+  for (const field of fields) {
+    if (isScalarField(field) && !(pricedFromOffers && OFFER_FIELDS.includes(field))) {
+      Object.assign(updates, { [field]: payload[field] });
+    }
+  }
+
+  if (Object.keys(updates).length > 0) {
+    updates.matchKey = productMatchKey({
+      name: updates.name ?? current.name,
+      brand: updates.brand !== undefined ? updates.brand : current.brand,
+      volume: updates.volume !== undefined ? updates.volume : current.volume,
+    });
+    await db.update(products).set(updates).where(eq(products.id, productId));
+  }
+
+  if (!pricedFromOffers && fields.includes('stockQuantity')) {
+    await recordStockChange(db, {
+      productId,
+      before: current.stockQuantity,
+      after: payload.stockQuantity,
+      reason: 'sync',
+      note: `Reviewed sync from ${apiConfig.name}`,
+    });
+  }
+
+  if (!pricedFromOffers && fields.includes('price')) {
+    await recordPriceChange(db, {
+      productId,
+      before: current.price,
+      after: payload.price,
+      source: 'sync',
+      apiConfigId: apiConfig.id,
+      alertPercent: apiConfig.priceAlertPercent,
+    });
+  }
+
+  // Variant and tier prices are stored relative to the product price the catalog will end up with
+  const basePrice = fields.includes('price') ? incoming.price : current.price;
+
+  if (fields.includes('images')) {
+    await writeProductImages(productId, incoming.images ?? [], true);
+  }
+  if (!pricedFromOffers && fields.includes('variants')) {
+    await writeProductVariants(apiConfig, productId, { price: basePrice, variants: incoming.variants }, true, current.price);
+  }
+
+  if (fields.some(field => OFFER_FIELDS.includes(field))) {
+    await recordOffer(apiConfig, productId, await toApprovedOffer(current, ownOffer, incoming, fields));
+    if (pricedFromOffers) {
+      await repriceFromOffers(apiConfig, productId);
+    }
+  }
+
+  if (fields.includes('variants')) {
+    // The admin has already reviewed the dropped variants, so they don't wait out a grace period
+    const keptVariants = pricedFromOffers
+      ? (await getProductOffers(productId)).flatMap(getOfferVariants)
+      : incoming.variants ?? [];
+    const incomingKeys = new Set(keptVariants.map(v => `${v.variantType}:${v.variantName}`));
+    const droppedIds = (await db.select().from(productVariants).where(eq(productVariants.productId, productId)))
+      .filter(v => !incomingKeys.has(`${v.variantType}:${v.variantName}`))
+      .map(v => v.id);
+    if (droppedIds.length > 0) {
+      await db.update(productVariants).set({ isAvailable: false }).where(inArray(productVariants.id, droppedIds));
+    }
+  }
+  if (fields.includes('bulkPricing')) {
+    await writeBulkPricing(productId, { price: basePrice, bulkPricing: incoming.bulkPricing }, true);
+  }
+}
+
+// A linked listing that left the source withdraws its offer; the product stays with its own supplier
+async function applyRemoval(apiConfig: ApiConfig, productId: number, sourceId: string | null, timestamp: string): Promise<void> {
+  const [current] = await db.select().from(products).where(eq(products.id, productId)).limit(1);
+  if (current && current.apiConfigId !== apiConfig.id && sourceId) {
+    await db.update(productOffers)
+      .set({ isAvailable: false, stockQuantity: 0, variants: null, updatedAt: timestamp })
+      .where(and(eq(productOffers.apiConfigId, apiConfig.id), eq(productOffers.sourceId, sourceId)));
+    await repriceFromOffers(apiConfig, productId);
+    return;
+  }
+
+  await db.update(products).set({ isAvailable: false, discontinuedAt: timestamp }).where(eq(products.id, productId));
+}
+
+/**
+ * Write the approved parts of a pending changeset to the catalog. Items not
+ * listed are rejected. Removals hide the product rather than delete it, since
+ * orders and reviews still point at it.
+ */
+export async function applyChangeset(id: number, decidedById: number | null, approvals: ItemApproval[]): Promise<ApplyResult> {
+  const [changeset] = await db.select().from(syncChangesets).where(eq(syncChangesets.id, id)).limit(1);
+  if (!changeset) {
+    return { status: 'not_found' };
+  }
+  if (changeset.status !== 'pending') {
+    return { status: 'not_pending', changesetStatus: changeset.status };
+  }
+
+  const [apiConfig] = await db.select().from(apiConfigurations).where(eq(apiConfigurations.id, changeset.configId)).limit(1);
+  if (!apiConfig) {
+    return { status: 'not_found' };
+  }
+
+  // Claim the changeset first so a double submit can't apply it twice
+  const timestamp = new Date().toISOString();
+  const [claimed] = await db.update(syncChangesets)
+    .set({ status: 'applied', decidedById, decidedAt: timestamp })
+    .where(and(eq(syncChangesets.id, id), eq(syncChangesets.status, 'pending')))
+    .returning();
+  if (!claimed) {
+    return { status: 'not_pending', changesetStatus: 'applied' };
+  }
+
+  const rows = await db.select().from(syncChangeItems).where(eq(syncChangeItems.changesetId, id));
+  const approvalsById = new Map(approvals.map(a => [a.itemId, a]));
+  const restockedProductIds: number[] = [];
+  const errors: string[] = [];
+  let created = 0;
+  let updated = 0;
+  let removed = 0;
+
+  for (const row of rows) {
+    const approval = approvalsById.get(row.id);
+    const item = toChangeItem(row);
+    const changedFields = item.changes.map(c => c.field);
+    const fields = row.kind === 'update'
+      ? (approval?.fields ?? changedFields).filter(f => changedFields.includes(f))
+      : changedFields;
+
+    if (!approval || (row.kind === 'update' && fields.length === 0)) {
+      await db.update(syncChangeItems).set({ decision: 'rejected' }).where(eq(syncChangeItems.id, row.id));
+      continue;
+    }
+
+    try {
+      if (row.kind === 'create') {
+        await syncProduct(apiConfig, JSON.parse(row.payload!), undefined);
+        created++;
+      } else if (row.kind === 'update') {
+        await applyUpdate(apiConfig, row.productId!, JSON.parse(row.payload!), fields);
+        restockedProductIds.push(row.productId!);
+        updated++;
+      } else {
+        await applyRemoval(apiConfig, row.productId!, row.sourceId, timestamp);
+        removed++;
+      }
+
+      await db.update(syncChangeItems)
+        .set({
+          decision: fields.length < changedFields.length ? 'partial' : 'approved',
+          appliedFields: JSON.stringify(fields),
+        })
+        .where(eq(syncChangeItems.id, row.id));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      errors.push(`${row.name}: ${message}`);
+      await db.update(syncChangeItems).set({ decision: 'rejected', error: message }).where(eq(syncChangeItems.id, row.id));
+    }
+  }
+
+  const backInStockNotifications = await notifyBackInStock(restockedProductIds);
+  const priceAlerts = await countPriceAlertsSince(apiConfig.id, timestamp);
+  await notifyPriceAlerts(apiConfig, priceAlerts);
+
+  await db.update(syncChangesets)
+    .set({ appliedCount: created + updated + removed })
+    .where(eq(syncChangesets.id, id));
+
+  await db.update(apiConfigurations)
+    .set({ lastSyncedAt: timestamp })
+    .where(eq(apiConfigurations.id, apiConfig.id));
+
+  await db.insert(apiLogs).values({
+    configId: apiConfig.id,
+    action: 'apply',
+    status: errors.length > 0 ? 'warning' : 'success',
+    message: `Applied reviewed changes: ${created} new, ${updated} updated, ${removed} removed`,
+    details: JSON.stringify({ changesetId: id, errors, backInStockNotifications, priceAlerts }),
+    productsProcessed: created + updated + removed,
+    productsCreated: created,
+    productsUpdated: updated,
+    createdAt: new Date().toISOString(),
+  });
+
+  return { status: 'ok', created, updated, removed, errors };
+}
+
+export type DiscardResult =
+  | { status: 'ok' }
+  | { status: 'not_found' }
+  | { status: 'not_pending'; changesetStatus: string };
+
+export async function discardChangeset(id: number, decidedById: number | null): Promise<DiscardResult> {
+  const [changeset] = await db.select().from(syncChangesets).where(eq(syncChangesets.id, id)).limit(1);
+  if (!changeset) {
+    return { status: 'not_found' };
+  }
+  if (changeset.status !== 'pending') {
+    return { status: 'not_pending', changesetStatus: changeset.status };
+  }
+
+  await db.transaction(async (tx) => {
+    await tx.update(syncChangesets)
+      .set({ status: 'discarded', decidedById, decidedAt: new Date().toISOString() })
+      .where(eq(syncChangesets.id, id));
+    await tx.update(syncChangeItems)
+      .set({ decision: 'rejected' })
+      .where(eq(syncChangeItems.changesetId, id));
+  });
+
+  return { status: 'ok' };
+}
@@ -0,0 +1,90 @@
+/**
+ * Discontinued products
+ * Feeds hiccup, so a product or variant that drops out of its source isn't
+ * hidden on the first sync that misses it. Every sync stamps lastSeenAt on
+ * what it writes; once a sync has been through the whole feed, anything of
+ * that configuration not seen within the grace period (discontinueAfterHours,
+ * DEFAULT_DISCONTINUE_AFTER_HOURS when unset) is marked unavailable, and
+ * products also get discontinuedAt. The configuration's offers on other
+ * suppliers' products go unavailable the same way, and those products are
+ * repriced from the offers left. Turning up in the feed again brings them
+ * back through the normal sync write.
+ */
+
+import { db } from '@/db';
+import { apiConfigurations, products, productOffers, productVariants } from '@/db/schema';
+import { eq, and, lt, ne, inArray, isNull } from 'drizzle-orm';
+import { repriceFromOffers } from '@/lib/sync-writer';
+
+type ApiConfig = typeof apiConfigurations.$inferSelect;
+
+export const DEFAULT_DISCONTINUE_AFTER_HOURS = 24;
+
+export interface DiscontinuedCounts {
+  products: number;
+  variants: number;
+}
+
+/**
+ * Mark the configuration's products and variants that this sync didn't see
+ * (not seen since seenSince) and that have been missing for the grace period.
+ * Only call after a sync wrote the entire feed, never after a cancelled one.
+ */
+export async function markMissingDiscontinued(apiConfig: ApiConfig, seenSince: string): Promise<DiscontinuedCounts> {
+  const now = new Date();
+  const timestamp = now.toISOString();
+  const graceHours = apiConfig.discontinueAfterHours ?? DEFAULT_DISCONTINUE_AFTER_HOURS;
+  const graceCutoff = new Date(now.getTime() - graceHours * 60 * 60 * 1000).toISOString();
+  const cutoff = graceCutoff < seenSince ? graceCutoff : seenSince;
+
+  const configProductIds = db.select({ id: products.id })
+    .from(products)
+    .where(eq(products.apiConfigId, apiConfig.id));
+
+  // Rows from before seen-tracking existed start their grace period now
+  await db.update(products)
+    .set({ lastSeenAt: timestamp })
+    .where(and(eq(products.apiConfigId, apiConfig.id), isNull(products.lastSeenAt)));
+  await db.update(productVariants)
+    .set({ lastSeenAt: timestamp })
+    .where(and(inArray(productVariants.productId, configProductIds), isNull(productVariants.lastSeenAt)));
+
+  const discontinuedProducts = await db.update(products)
+    .set({ isAvailable: false, discontinuedAt: timestamp })
+    .where(and(
+      eq(products.apiConfigId, apiConfig.id),
+      isNull(products.discontinuedAt),
+      lt(products.lastSeenAt, cutoff)
+    ))
+    .returning({ id: products.id });
+
+  const discontinuedVariants = await db.update(productVariants)
+    .set({ isAvailable: false })
+    .where(and(
+      inArray(productVariants.productId, configProductIds),
+      eq(productVariants.isAvailable, true),
+      lt(productVariants.lastSeenAt, cutoff)
+    ))
+    .returning({ id: productVariants.id });
+
+  const withdrawnOffers = await db.update(productOffers)
+    .set({ isAvailable: false, stockQuantity: 0, variants: null })
+    .where(and(
+      eq(productOffers.apiConfigId, apiConfig.id),
+      eq(productOffers.isAvailable, true),
+      lt(productOffers.lastSeenAt, cutoff)
+    ))
+    .returning({ productId: productOffers.productId });
+
+  const repricedIds = new Set(withdrawnOffers.map(offer => offer.productId));
+  const linkedIds = repricedIds.size > 0
+    ? await db.select({ id: products.id })
+      .from(products)
+      .where(and(inArray(products.id, [...repricedIds]), ne(products.apiConfigId, apiConfig.id)))
+    : [];
+  for (const { id } of linkedIds) {
+    await repriceFromOffers(apiConfig, id);
+  }
+
+  return { products: discontinuedProducts.length, variants: discontinuedVariants.length };
+}
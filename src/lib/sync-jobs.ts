@@ -0,0 +1,394 @@
+/**
+ * Sync jobs
+ * Every product sync of an API configuration is a sync_jobs row that moves
+ * queued → running → succeeded | failed | cancelled. The runner checkpoints
+ * the row after each batch, so the admin progress dialog reads straight from
+ * it and a sync cut short by a crash or restart carries on from the last
+ * finished batch. Between checkpoints the runner heartbeats on a timer; a
+ * running job that stops heartbeating is treated as crashed.
+ * A runner only writes to the job while it still holds the claim it made.
+ */
+
+import { db } from '@/db';
+import { syncJobs } from '@/db/schema';
+import { eq, and, or, lt, desc, inArray, isNull } from 'drizzle-orm';
+import type { ParsedProduct } from '@/lib/api-parsers';
+
+export type SyncJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+export type SyncStage = 'fetching' | 'parsing' | 'processing' | 'complete' | 'error';
+export type SyncTrigger = 'manual' | 'auto';
+
+export const SYNC_BATCH_SIZE = 50;
+
+// A running job whose heartbeat is older than this is assumed to have died with its process
+export const STALE_JOB_MS = 2 * 60 * 1000;
+
+// How often a runner refreshes its heartbeat between checkpoints, well inside STALE_JOB_MS
+export const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+const ACTIVE_STATUSES: SyncJobStatus[] = ['queued', 'running'];
+
+type SyncJobRow = typeof syncJobs.$inferSelect;
+
+// Another runner reclaimed the job, or it was cancelled as crashed, so this runner must stop
+export class SyncJobLostError extends Error {
+  constructor(id: number) {
+    super(`Sync job ${id} is no longer held by this runner`);
+  }
+}
+
+// Matches the job only while it is running under the claim that set attempts to this count
+function heldBy(id: number, attempts: number) {
+  return and(eq(syncJobs.id, id), eq(syncJobs.attempts, attempts), eq(syncJobs.status, 'running'));
+}
+
+export interface SyncCurrentProduct {
+  name: string;
+  category: string;
+  action: 'create' | 'update';
+}
+
+export interface SyncJob {
+  id: number;
+  configId: number;
+  status: SyncJobStatus;
+  stage: SyncStage;
+  trigger: SyncTrigger;
+  totalProducts: number;
+  processedProducts: number;
+  createdProducts: number;
+  updatedProducts: number;
+  discontinuedProducts: number;
+  discontinuedVariants: number;
+  currentProduct: SyncCurrentProduct | null;
+  errors: string[];
+  warnings: string[];
+  message: string | null;
+  attempts: number;
+  cancelRequested: boolean;
+  stale: boolean;
+  logId: number | null;
+  heartbeatAt: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+function parseList<T>(value: string | null): T[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function staleCutoff(): string {
+  return new Date(Date.now() - STALE_JOB_MS).toISOString();
+}
+
+function isStale(row: SyncJobRow): boolean {
+  return row.status === 'running' && (!row.heartbeatAt || row.heartbeatAt < staleCutoff());
+}
+
+// The payload snapshot can be large, so it never leaves the server
+function toSyncJob(row: SyncJobRow): SyncJob {
+  return {
+    id: row.id,
+    configId: row.configId,
+    status: row.status as SyncJobStatus,
+    stage: row.stage as SyncStage,
+    trigger: row.trigger as SyncTrigger,
+    totalProducts: row.totalProducts,
+    processedProducts: row.processedProducts,
+    createdProducts: row.createdProducts,
+    updatedProducts: row.updatedProducts,
+    discontinuedProducts: row.discontinuedProducts,
+    discontinuedVariants: row.discontinuedVariants,
+    currentProduct: row.currentProduct ? JSON.parse(row.currentProduct) : null,
+    errors: parseList<string>(row.errors),
+    warnings: parseList<string>(row.warnings),
+    message: row.message,
+    attempts: row.attempts,
+    cancelRequested: !!row.cancelRequestedAt,
+    stale: isStale(row),
+    logId: row.logId,
+    heartbeatAt: row.heartbeatAt,
+    startedAt: row.startedAt,
+    finishedAt: row.finishedAt,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+export type EnqueueResult =
+  | { status: 'queued'; job: SyncJob }
+  | { status: 'already_active'; job: SyncJob };
+
+/**
+ * Queue a sync for a configuration. Only one job per configuration may be
+ * queued or running; asking again returns the one already in flight.
+ */
+export async function enqueueSyncJob(configId: number, trigger: SyncTrigger = 'manual'): Promise<EnqueueResult> {
+  return db.transaction(async (tx) => {
+    const [active] = await tx.select()
+      .from(syncJobs)
+      .where(and(eq(syncJobs.configId, configId), inArray(syncJobs.status, ACTIVE_STATUSES)))
+      .orderBy(desc(syncJobs.id))
+      .limit(1);
+
+    if (active) {
+      return { status: 'already_active' as const, job: toSyncJob(active) };
+    }
+
+    const timestamp = new Date().toISOString();
+    const [job] = await tx.insert(syncJobs).values({
+      configId,
+      status: 'queued',
+      stage: 'fetching',
+      trigger,
+      message: 'Waiting to start...',
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    }).returning();
+
+    return { status: 'queued' as const, job: toSyncJob(job) };
+  });
+}
+
+export async function getSyncJob(id: number): Promise<SyncJob | null> {
+  const [row] = await db.select().from(syncJobs).where(eq(syncJobs.id, id)).limit(1);
+  return row ? toSyncJob(row) : null;
+}
+
+export async function getLatestSyncJob(configId: number): Promise<SyncJob | null> {
+  const [row] = await db.select()
+    .from(syncJobs)
+    .where(eq(syncJobs.configId, configId))
+    .orderBy(desc(syncJobs.id))
+    .limit(1);
+  return row ? toSyncJob(row) : null;
+}
+
+export async function listSyncJobs(filters: { configId?: number; status?: SyncJobStatus; limit?: number }): Promise<SyncJob[]> {
+  const rows = await db.select()
+    .from(syncJobs)
+    .where(and(
+      filters.configId ? eq(syncJobs.configId, filters.configId) : undefined,
+      filters.status ? eq(syncJobs.status, filters.status) : undefined
+    ))
+    .orderBy(desc(syncJobs.id))
+    .limit(filters.limit ?? 20);
+  return rows.map(toSyncJob);
+}
+
+// Ids of jobs a runner may pick up: queued ones and running ones that went quiet
+export async function getRunnableSyncJobIds(): Promise<number[]> {
+  const rows = await db.select({ id: syncJobs.id })
+    .from(syncJobs)
+    .where(or(
+      eq(syncJobs.status, 'queued'),
+      and(
+        eq(syncJobs.status, 'running'),
+        or(isNull(syncJobs.heartbeatAt), lt(syncJobs.heartbeatAt, staleCutoff()))
+      )
+    ))
+    .orderBy(syncJobs.id);
+  return rows.map(r => r.id);
+}
+
+export interface ClaimedSyncJob {
+  job: SyncJob;
+  // Products captured once parsing finished; null until then, so a resume re-fetches
+  payload: ParsedProduct[] | null;
+  restockedProductIds: number[];
+}
+
+/**
+ * Take ownership of a queued job, or of a running one whose runner stopped
+ * heartbeating. The conditional update means two runners can't both win.
+ */
+export async function claimSyncJob(id: number): Promise<ClaimedSyncJob | null> {
+  const [current] = await db.select().from(syncJobs).where(eq(syncJobs.id, id)).limit(1);
+  if (!current || !(current.status === 'queued' || isStale(current))) {
+    return null;
+  }
+
+  const timestamp = new Date().toISOString();
+  const [claimed] = await db.update(syncJobs)
+    .set({
+      status: 'running',
+      attempts: current.attempts + 1,
+      heartbeatAt: timestamp,
+      startedAt: current.startedAt ?? timestamp,
+      message: current.status === 'running'
+        ? `Resuming after ${current.processedProducts} of ${current.totalProducts} products...`
+        : 'Starting sync...',
+      updatedAt: timestamp,
+    })
+    .where(and(eq(syncJobs.id, id), eq(syncJobs.attempts, current.attempts), eq(syncJobs.status, current.status)))
+    .returning();
+
+  if (!claimed) {
+    return null;
+  }
+
+  return {
+    job: toSyncJob(claimed),
+    payload: claimed.payload ? JSON.parse(claimed.payload) : null,
+    restockedProductIds: parseList<number>(claimed.restockedProductIds),
+  };
+}
+
+export interface SyncCheckpoint {
+  stage?: SyncStage;
+  payload?: ParsedProduct[];
+  totalProducts?: number;
+  processedProducts?: number;
+  createdProducts?: number;
+  updatedProducts?: number;
+  discontinuedProducts?: number;
+  discontinuedVariants?: number;
+  currentProduct?: SyncCurrentProduct | null;
+  errors?: string[];
+  warnings?: string[];
+  restockedProductIds?: number[];
+  message?: string;
+}
+
+function checkpointValues(checkpoint: SyncCheckpoint) {
+  return {
+    stage: checkpoint.stage,
+    payload: checkpoint.payload ? JSON.stringify(checkpoint.payload) : undefined,
+    totalProducts: checkpoint.totalProducts,
+    processedProducts: checkpoint.processedProducts,
+    createdProducts: checkpoint.createdProducts,
+    updatedProducts: checkpoint.updatedProducts,
+    discontinuedProducts: checkpoint.discontinuedProducts,
+    discontinuedVariants: checkpoint.discontinuedVariants,
+    currentProduct: checkpoint.currentProduct === undefined
+      ? undefined
+      : checkpoint.currentProduct && JSON.stringify(checkpoint.currentProduct),
+    errors: checkpoint.errors ? JSON.stringify(checkpoint.errors) : undefined,
+    warnings: checkpoint.warnings ? JSON.stringify(checkpoint.warnings) : undefined,
+    restockedProductIds: checkpoint.restockedProductIds ? JSON.stringify(checkpoint.restockedProductIds) : undefined,
+    message: checkpoint.message,
+  };
+}
+
+/**
+ * Save progress and refresh the heartbeat. Returns whether a cancel has been
+ * requested, so the runner can stop at the batch boundary it just reached.
+ * Throws SyncJobLostError once the runner's claim (attempts) is no longer current.
+ */
+export async function checkpointSyncJob(id: number, attempts: number, checkpoint: SyncCheckpoint): Promise<{ cancelRequested: boolean }> {
+  const timestamp = new Date().toISOString();
+  const [row] = await db.update(syncJobs)
+    .set({ ...checkpointValues(checkpoint), heartbeatAt: timestamp, updatedAt: timestamp })
+    .where(heldBy(id, attempts))
+    .returning({ cancelRequestedAt: syncJobs.cancelRequestedAt });
+
+  if (!row) {
+    throw new SyncJobLostError(id);
+  }
+
+  return { cancelRequested: !!row.cancelRequestedAt };
+}
+
+/**
+ * Refresh the heartbeat without saving progress, for stages that run a long
+ * time between checkpoints. Returns false once the runner's claim is gone.
+ */
+export async function heartbeatSyncJob(id: number, attempts: number): Promise<boolean> {
+  const [row] = await db.update(syncJobs)
+    .set({ heartbeatAt: new Date().toISOString() })
+    .where(heldBy(id, attempts))
+    .returning({ id: syncJobs.id });
+
+  return !!row;
+}
+
+// Like checkpointSyncJob, throws SyncJobLostError when the claim is no longer current
+export async function finishSyncJob(
+  id: number,
+  attempts: number,
+  status: 'succeeded' | 'failed' | 'cancelled',
+  checkpoint: SyncCheckpoint & { logId?: number | null }
+): Promise<void> {
+  const timestamp = new Date().toISOString();
+  const finished = await db.update(syncJobs)
+    .set({
+      ...checkpointValues(checkpoint),
+      status,
+      stage: checkpoint.stage ?? (status === 'succeeded' ? 'complete' : 'error'),
+      currentProduct: null,
+      // The snapshot only exists to resume from; finished jobs don't need it
+      payload: null,
+      logId: checkpoint.logId ?? null,
+      heartbeatAt: timestamp,
+      finishedAt: timestamp,
+      updatedAt: timestamp,
+    })
+    .where(heldBy(id, attempts))
+    .returning({ id: syncJobs.id });
+
+  if (finished.length === 0) {
+    throw new SyncJobLostError(id);
+  }
+}
+
+export type CancelResult =
+  | { status: 'cancelled'; job: SyncJob }
+  | { status: 'cancel_requested'; job: SyncJob }
+  | { status: 'not_found' }
+  | { status: 'not_active'; job: SyncJob };
+
+/**
+ * Queued jobs and crashed running jobs are cancelled on the spot; a live
+ * running job is flagged and stops after its current batch.
+ */
+export async function cancelSyncJob(id: number): Promise<CancelResult> {
+  const [row] = await db.select().from(syncJobs).where(eq(syncJobs.id, id)).limit(1);
+  if (!row) {
+    return { status: 'not_found' };
+  }
+  if (!ACTIVE_STATUSES.includes(row.status as SyncJobStatus)) {
+    return { status: 'not_active', job: toSyncJob(row) };
+  }
+
+  const timestamp = new Date().toISOString();
+
+  if (row.status === 'queued' || isStale(row)) {
+    const [cancelled] = await db.update(syncJobs)
+      .set({
+        status: 'cancelled',
+        stage: 'error',
+        cancelRequestedAt: timestamp,
+        currentProduct: null,
+        payload: null,
+        message: 'Sync cancelled',
+        finishedAt: timestamp,
+        updatedAt: timestamp,
+      })
+      .where(and(eq(syncJobs.id, id), eq(syncJobs.status, row.status), eq(syncJobs.attempts, row.attempts)))
+      .returning();
+
+    if (cancelled) {
+      return { status: 'cancelled', job: toSyncJob(cancelled) };
+    }
+  }
+
+  const [flagged] = await db.update(syncJobs)
+    .set({ cancelRequestedAt: timestamp, message: 'Cancelling after the current batch...', updatedAt: timestamp })
+    .where(and(eq(syncJobs.id, id), eq(syncJobs.status, 'running')))
+    .returning();
+
+  if (!flagged) {
+    const latest = await getSyncJob(id);
+    return latest ? { status: 'not_active', job: latest } : { status: 'not_found' };
+  }
+
+  return { status: 'cancel_requested', job: toSyncJob(flagged) };
+}
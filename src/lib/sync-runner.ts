@@ -0,0 +1,452 @@
+/**
+ * Sync runner
+ * Executes sync jobs inside the server process: fetch and parse the source
+ * once, recategorize it with the configuration's category mapping rules and
+ * re-apply admin product corrections, snapshot the normalized products onto
+ * the job, then write them in
+ * batches of SYNC_BATCH_SIZE with a checkpoint after each, heartbeating on a
+ * timer throughout. A resumed job
+ * skips straight to the first unfinished batch of its snapshot. A sync that
+ * got through the whole feed then discontinues what has been missing from it
+ * for too long. Configurations in test mode stop after parsing and store a
+ * changeset for review instead.
+ */
+
+import { db } from '@/db';
+import { apiConfigurations, apiLogs, products } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { notifyBackInStock } from '@/lib/stock-alerts';
+import { countPriceAlertsSince, notifyPriceAlerts } from '@/lib/price-history';
+import { syncProduct } from '@/lib/sync-writer';
+import { createChangeset } from '@/lib/sync-changesets';
+import { markMissingDiscontinued } from '@/lib/sync-discontinued';
+import { parseCategoryMappingRules, applyCategoryMappingRules, FetchedProductSample } from '@/lib/category-rules';
+import { applyProductCorrections } from '@/lib/product-corrections';
+import { parseJSONProducts, parseHTMLProducts, normalizeProducts, mergeDuplicateProducts, ParsedProduct } from '@/lib/api-parsers';
+import {
+  SYNC_BATCH_SIZE,
+  STALE_JOB_MS,
+  HEARTBEAT_INTERVAL_MS,
+  SyncCurrentProduct,
+  claimSyncJob,
+  checkpointSyncJob,
+  heartbeatSyncJob,
+  finishSyncJob,
+  getRunnableSyncJobIds,
+  SyncJobLostError,
+} from '@/lib/sync-jobs';
+
+type ApiConfig = typeof apiConfigurations.$inferSelect;
+
+// Jobs this process is already working on, so a second kick doesn't race the first
+const runningJobs = new Set<number>();
+
+// A source that hangs fails the job well before it would look crashed
+const SOURCE_FETCH_TIMEOUT_MS = STALE_JOB_MS / 2;
+
+async function fetchSourceData(apiConfig: ApiConfig): Promise<string> {
+  if (apiConfig.sourceType === 'url') {
+    if (!apiConfig.sourceUrl) {
+      throw new Error('Source URL is missing');
+    }
+    try {
+      const response = await fetch(apiConfig.sourceUrl, { signal: AbortSignal.timeout(SOURCE_FETCH_TIMEOUT_MS) });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch from URL: ${response.statusText}`);
+      }
+      return await response.text();
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new Error(`Source did not respond within ${SOURCE_FETCH_TIMEOUT_MS / 1000} seconds`);
+      }
+      throw error;
+    }
+  }
+
+  if (!apiConfig.sourceContent) {
+    throw new Error('Source content is missing');
+  }
+  return apiConfig.sourceContent;
+}
+
+function parseSourceData(apiConfig: ApiConfig, rawData: string, errors: string[], warnings: string[]): ParsedProduct[] {
+  let parseResult;
+  if (apiConfig.type === 'json') {
+    parseResult = parseJSONProducts(rawData);
+  } else if (apiConfig.type === 'html') {
+    parseResult = parseHTMLProducts(rawData);
+  } else {
+    throw new Error(`Unsupported data type: ${apiConfig.type}`);
+  }
+
+  errors.push(...parseResult.errors);
+  warnings.push(...parseResult.warnings);
+
+  if (parseResult.products.length === 0) {
+    throw new Error('No products found in the data');
+  }
+
+  let normalizedProducts = normalizeProducts(parseResult.products);
+
+  // Apply loadImages setting - if disabled, remove images
+  if (!apiConfig.loadImages) {
+    normalizedProducts = normalizedProducts.map(product => ({
+      ...product,
+      imageUrl: undefined,
+      images: undefined,
+    }));
+    warnings.push('Image loading disabled for this configuration');
+  }
+
+  if (apiConfig.enableDuplicateMerging) {
+    const beforeCount = normalizedProducts.length;
+    normalizedProducts = mergeDuplicateProducts(normalizedProducts);
+    warnings.push(`Duplicate merging: ${beforeCount} products merged into ${normalizedProducts.length} unique products`);
+  }
+
+  return normalizedProducts;
+}
+
+// Descriptions only need to be long enough for rules to match on in the editor preview
+const SAMPLE_DESCRIPTION_LENGTH = 500;
+
+// Keeps what the rule editor previews against, with the categories the parser detected on its own
+async function saveFetchedProducts(apiConfig: ApiConfig, parsedProducts: ParsedProduct[]): Promise<void> {
+  const sample: FetchedProductSample[] = parsedProducts.map(product => ({
+    sourceId: product.sourceId,
+    name: product.name,
+    description: product.description?.slice(0, SAMPLE_DESCRIPTION_LENGTH) ?? null,
+    brand: product.brand ?? null,
+    category: product.category ?? product.tags?.Type ?? null,
+    mainCategory: product.mainCategory,
+    subCategory: product.subCategory ?? null,
+  }));
+
+  await db.update(apiConfigurations)
+    .set({ lastFetchedProducts: JSON.stringify(sample), lastFetchedAt: new Date().toISOString() })
+    .where(eq(apiConfigurations.id, apiConfig.id));
+}
+
+// Rules come first; products they don't match keep the detected category
+function categorizeProducts(apiConfig: ApiConfig, parsedProducts: ParsedProduct[], warnings: string[]): ParsedProduct[] {
+  const parsed = parseCategoryMappingRules(apiConfig.categoryMappingRules);
+  if (!parsed.ok) {
+    warnings.push(`Invalid category mapping rules - ignored: ${parsed.error}`);
+    return parsedProducts;
+  }
+  if (parsed.rules.length === 0) {
+    return parsedProducts;
+  }
+
+  const { products: categorized, matched } = applyCategoryMappingRules(parsedProducts, parsed.rules);
+  warnings.push(`Category mapping rules: ${matched} of ${categorized.length} products categorized by ${parsed.rules.length} rules`);
+  return categorized;
+}
+
+/**
+ * Run a job to completion if this call manages to claim it. Never throws:
+ * failures are recorded on the job and in apiLogs. Stops without recording
+ * anything once another runner has reclaimed the job.
+ */
+export async function runSyncJob(jobId: number): Promise<void> {
+  if (runningJobs.has(jobId)) {
+    return;
+  }
+  runningJobs.add(jobId);
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  try {
+    const claimed = await claimSyncJob(jobId);
+    if (!claimed) {
+      return;
+    }
+
+    const { job } = claimed;
+
+    // Fetching, diffing a dry run or a slow batch can outlast STALE_JOB_MS between checkpoints
+    heartbeat = setInterval(() => {
+      heartbeatSyncJob(jobId, job.attempts)
+        .then(held => {
+          // The next checkpoint will notice too and stop the run
+          if (!held) clearInterval(heartbeat);
+        })
+        .catch(error => console.error(`Sync job ${jobId} heartbeat error:`, error));
+    }, HEARTBEAT_INTERVAL_MS);
+    const [apiConfig] = await db.select().from(apiConfigurations).where(eq(apiConfigurations.id, job.configId)).limit(1);
+
+    if (!apiConfig) {
+      await finishSyncJob(jobId, job.attempts, 'failed', { message: 'Configuration not found', errors: [...job.errors, 'Configuration not found'] });
+      return;
+    }
+
+    const action = apiConfig.isTestMode ? 'test' : 'sync';
+    const errors = [...job.errors];
+    const warnings = [...job.warnings];
+    const restockedProductIds = [...claimed.restockedProductIds];
+    let productsProcessed = job.processedProducts;
+    let productsCreated = job.createdProducts;
+    let productsUpdated = job.updatedProducts;
+
+    try {
+      let normalizedProducts = claimed.payload;
+
+      if (!normalizedProducts) {
+        await checkpointSyncJob(jobId, job.attempts, {
+          stage: 'fetching',
+          message: apiConfig.sourceType === 'url' ? `Fetching from ${apiConfig.sourceUrl}...` : 'Reading source content...',
+        });
+        const rawData = await fetchSourceData(apiConfig);
+
+        await checkpointSyncJob(jobId, job.attempts, { stage: 'parsing', message: 'Parsing product data...' });
+        const parsedProducts = parseSourceData(apiConfig, rawData, errors, warnings);
+        await saveFetchedProducts(apiConfig, parsedProducts);
+        const corrections = await applyProductCorrections(categorizeProducts(apiConfig, parsedProducts, warnings));
+        normalizedProducts = corrections.products;
+        if (corrections.corrected > 0) {
+          warnings.push(`Product corrections: applied to ${corrections.corrected} products`);
+        }
+        if (corrections.newConflicts > 0) {
+          warnings.push(`Product corrections: ${corrections.newConflicts} overridden fields changed in the feed - review them on the Product Corrections page`);
+        }
+
+        const { cancelRequested } = await checkpointSyncJob(jobId, job.attempts, {
+          stage: 'processing',
+          payload: normalizedProducts,
+          totalProducts: normalizedProducts.length,
+          errors,
+          warnings,
+          message: `Found ${normalizedProducts.length} products. Starting sync...`,
+        });
+
+        if (cancelRequested) {
+          await finishSyncJob(jobId, job.attempts, 'cancelled', { errors, warnings, message: 'Sync cancelled before any products were written' });
+          return;
+        }
+      }
+
+      // Test mode is a dry run: store what would change for review instead of writing it
+      if (apiConfig.isTestMode) {
+        const changeset = await createChangeset(apiConfig, jobId, normalizedProducts);
+        const message = `Dry run: ${changeset.createCount} new, ${changeset.updateCount} changed, ${changeset.removeCount} removed - review before applying`;
+
+        const [dryRunLog] = await db.insert(apiLogs).values({
+          configId: apiConfig.id,
+          action,
+          status: errors.length > 0 ? 'warning' : 'success',
+          message,
+          details: JSON.stringify({ jobId, changesetId: changeset.id, errors, warnings, testMode: true }),
+          productsProcessed: normalizedProducts.length,
+          productsCreated: 0,
+          productsUpdated: 0,
+          createdAt: new Date().toISOString()
+        }).returning();
+
+        await finishSyncJob(jobId, job.attempts, 'succeeded', {
+          stage: 'complete',
+          processedProducts: normalizedProducts.length,
+          errors,
+          warnings,
+          message,
+          logId: dryRunLog.id,
+        });
+        return;
+      }
+
+      const existingProducts = await db
+        .select()
+        .from(products)
+        .where(eq(products.apiConfigId, apiConfig.id));
+
+      const existingProductsMap = new Map(
+        existingProducts.map(p => [p.sourceId || '', p])
+      );
+
+      while (productsProcessed < normalizedProducts.length) {
+        const batch = normalizedProducts.slice(productsProcessed, productsProcessed + SYNC_BATCH_SIZE);
+        let currentProduct: SyncCurrentProduct | null = null;
+
+        for (const productData of batch) {
+          const existingProduct = existingProductsMap.get(productData.sourceId);
+          currentProduct = {
+            name: productData.name,
+            category: productData.mainCategory,
+            action: existingProduct ? 'update' : 'create',
+          };
+
+          try {
+            const result = await syncProduct(apiConfig, productData, existingProduct);
+            if (result.action === 'create') {
+              productsCreated++;
+            } else {
+              // An offer linked to another supplier's product updates that product
+              productsUpdated++;
+              restockedProductIds.push(result.productId);
+            }
+          } catch (productError) {
+            errors.push(`Error processing product ${productData.sourceId}: ${productError}`);
+          }
+        }
+
+        productsProcessed += batch.length;
+
+        const { cancelRequested } = await checkpointSyncJob(jobId, job.attempts, {
+          processedProducts: productsProcessed,
+          createdProducts: productsCreated,
+          updatedProducts: productsUpdated,
+          currentProduct,
+          errors,
+          warnings,
+          restockedProductIds,
+          message: `Processed ${productsProcessed} of ${normalizedProducts.length} products...`,
+        });
+
+        if (cancelRequested && productsProcessed < normalizedProducts.length) {
+          const message = `Sync cancelled after ${productsProcessed} of ${normalizedProducts.length} products`;
+          const priceAlerts = await countPriceAlertsSince(apiConfig.id, job.createdAt);
+          await notifyPriceAlerts(apiConfig, priceAlerts);
+
+          const [cancelLog] = await db.insert(apiLogs).values({
+            configId: apiConfig.id,
+            action,
+            status: 'warning',
+            message,
+            details: JSON.stringify({ jobId, productsProcessed, productsCreated, productsUpdated, priceAlerts, errors, warnings }),
+            productsProcessed,
+            productsCreated,
+            productsUpdated,
+            createdAt: new Date().toISOString()
+          }).returning();
+
+          await finishSyncJob(jobId, job.attempts, 'cancelled', { message, logId: cancelLog.id });
+          return;
+        }
+      }
+
+      // Only now is it certain what the feed left out
+      const discontinued = await markMissingDiscontinued(apiConfig, job.createdAt);
+
+      // Tell customers waiting on anything this sync brought back into stock
+      const backInStockNotifications = await notifyBackInStock(restockedProductIds);
+
+      // Counted from the price history so changes written before a resume are included
+      const priceAlerts = await countPriceAlertsSince(apiConfig.id, job.createdAt);
+      await notifyPriceAlerts(apiConfig, priceAlerts);
+
+      await db
+        .update(apiConfigurations)
+        .set({
+          lastSyncedAt: new Date().toISOString()
+        })
+        .where(eq(apiConfigurations.id, apiConfig.id));
+
+      const [successLog] = await db.insert(apiLogs).values({
+        configId: apiConfig.id,
+        action,
+        status: errors.length > 0 ? 'warning' : 'success',
+        message: discontinued.products > 0 || discontinued.variants > 0
+          ? `Sync completed successfully (${discontinued.products} products and ${discontinued.variants} variants discontinued)`
+          : 'Sync completed successfully',
+        details: JSON.stringify({
+          jobId,
+          sourceType: apiConfig.sourceType,
+          dataType: apiConfig.type,
+          productsProcessed,
+          productsCreated,
+          productsUpdated,
+          productsDiscontinued: discontinued.products,
+          variantsDiscontinued: discontinued.variants,
+          discontinueAfterHours: apiConfig.discontinueAfterHours,
+          errors,
+          warnings,
+          loadImages: apiConfig.loadImages,
+          duplicateMerging: apiConfig.enableDuplicateMerging,
+          backInStockNotifications,
+          priceAlerts,
+          attempts: job.attempts
+        }),
+        productsProcessed,
+        productsCreated,
+        productsUpdated,
+        productsDiscontinued: discontinued.products,
+        createdAt: new Date().toISOString()
+      }).returning();
+
+      await finishSyncJob(jobId, job.attempts, 'succeeded', {
+        stage: 'complete',
+        processedProducts: productsProcessed,
+        createdProducts: productsCreated,
+        updatedProducts: productsUpdated,
+        discontinuedProducts: discontinued.products,
+        discontinuedVariants: discontinued.variants,
+        errors,
+        warnings,
+        message: 'Sync completed successfully!',
+        logId: successLog.id,
+      });
+    } catch (syncError) {
+      // Whoever holds the job now records its outcome
+      if (syncError instanceof SyncJobLostError) {
+        throw syncError;
+      }
+
+      console.error('Sync error:', syncError);
+      const message = syncError instanceof Error ? syncError.message : 'Unknown sync error';
+
+      const [errorLog] = await db.insert(apiLogs).values({
+        configId: apiConfig.id,
+        action,
+        status: 'error',
+        message,
+        details: JSON.stringify({
+          jobId,
+          error: syncError instanceof Error ? syncError.stack : String(syncError),
+          sourceType: apiConfig.sourceType,
+          dataType: apiConfig.type,
+          productsProcessed,
+          productsCreated,
+          productsUpdated,
+          errors,
+          warnings,
+          testMode: apiConfig.isTestMode
+        }),
+        productsProcessed,
+        productsCreated,
+        productsUpdated,
+        createdAt: new Date().toISOString()
+      }).returning();
+
+      await finishSyncJob(jobId, job.attempts, 'failed', {
+        errors: [...errors, message],
+        warnings,
+        message: 'Sync failed with errors',
+        logId: errorLog.id,
+      });
+    }
+  } catch (error) {
+    if (error instanceof SyncJobLostError) {
+      console.warn(error.message);
+    } else {
+      console.error(`Sync job ${jobId} error:`, error);
+    }
+  } finally {
+    clearInterval(heartbeat);
+    runningJobs.delete(jobId);
+  }
+}
+
+// Starts a job in the background; the caller's request can return straight away
+export function startSyncJob(jobId: number): void {
+  void runSyncJob(jobId);
+}
+
+/**
+ * Pick up everything that should be running: queued jobs nobody started and
+ * running jobs whose process died. Returns the ids that were kicked off.
+ */
+export async function resumeSyncJobs(): Promise<number[]> {
+  const ids = await getRunnableSyncJobIds();
+  for (const id of ids) {
+    startSyncJob(id);
+  }
+  return ids;
+}
@@ -0,0 +1,153 @@
+/**
+ * Sync scheduler
+ * Runs inside the server process (started from instrumentation.ts). Once a
+ * minute it queues a sync job for every active configuration with auto-sync
+ * on whose nextSyncAt has arrived. nextSyncAt is the end of the sync interval,
+ * moved forward into the configuration's cron window when it has one. If the
+ * previous job for a configuration is still queued or running, that slot is
+ * skipped rather than stacking a second run behind it.
+ */
+
+import { db } from '@/db';
+import { apiConfigurations } from '@/db/schema';
+import { eq, and, or, isNotNull } from 'drizzle-orm';
+import { parseCronExpression, nextCronMatch } from '@/lib/cron';
+import { enqueueSyncJob } from '@/lib/sync-jobs';
+import { startSyncJob, resumeSyncJobs } from '@/lib/sync-runner';
+
+type ApiConfig = typeof apiConfigurations.$inferSelect;
+
+export const SCHEDULER_TICK_MS = 60 * 1000;
+
+export interface SchedulerTickResult {
+  queued: { configId: number; configName: string; jobId: number }[];
+  skipped: { configId: number; configName: string; jobId: number }[];
+  resumedJobIds: number[];
+}
+
+/**
+ * When a configuration should next sync: an interval after lastRunAt (or right
+ * away if it never ran), then into its window. Null when auto-sync is off, a
+ * one-off sync without an interval already ran, or the window never matches.
+ */
+export function computeNextSyncAt(
+  config: Pick<ApiConfig, 'isActive' | 'autoSyncEnabled' | 'syncIntervalMinutes' | 'syncWindow'>,
+  lastRunAt: Date | null,
+  now = new Date()
+): Date | null {
+  if (!config.isActive || !config.autoSyncEnabled) {
+    return null;
+  }
+
+  let earliest = now;
+  if (lastRunAt) {
+    if (!config.syncIntervalMinutes) {
+      return null;
+    }
+    const due = new Date(lastRunAt.getTime() + config.syncIntervalMinutes * 60 * 1000);
+    if (due > earliest) {
+      earliest = due;
+    }
+  }
+
+  if (!config.syncWindow) {
+    return earliest;
+  }
+
+  const parsed = parseCronExpression(config.syncWindow);
+  return parsed.ok ? nextCronMatch(parsed.schedule, earliest) : null;
+}
+
+// Recompute after a configuration's schedule settings change
+export async function refreshNextSyncAt(configId: number): Promise<string | null> {
+  const [config] = await db.select().from(apiConfigurations).where(eq(apiConfigurations.id, configId)).limit(1);
+  if (!config) {
+    return null;
+  }
+
+  const next = computeNextSyncAt(config, config.lastSyncedAt ? new Date(config.lastSyncedAt) : null);
+  const nextSyncAt = next ? next.toISOString() : null;
+
+  await db.update(apiConfigurations)
+    .set({ nextSyncAt })
+    .where(eq(apiConfigurations.id, configId));
+
+  return nextSyncAt;
+}
+
+/**
+ * One pass of the scheduler: resume interrupted jobs, then queue every due
+ * configuration and move its nextSyncAt on by an interval.
+ */
+export async function runSchedulerTick(now = new Date()): Promise<SchedulerTickResult> {
+  const result: SchedulerTickResult = { queued: [], skipped: [], resumedJobIds: await resumeSyncJobs() };
+
+  // Configurations switched off since the last tick shouldn't keep showing a next run
+  await db.update(apiConfigurations)
+    .set({ nextSyncAt: null })
+    .where(and(
+      isNotNull(apiConfigurations.nextSyncAt),
+      or(eq(apiConfigurations.isActive, false), eq(apiConfigurations.autoSyncEnabled, false))
+    ));
+
+  const configs = await db.select()
+    .from(apiConfigurations)
+    .where(and(eq(apiConfigurations.isActive, true), eq(apiConfigurations.autoSyncEnabled, true)));
+
+  for (const config of configs) {
+    let nextSyncAt = config.nextSyncAt;
+
+    if (!nextSyncAt) {
+      const next = computeNextSyncAt(config, config.lastSyncedAt ? new Date(config.lastSyncedAt) : null, now);
+      nextSyncAt = next ? next.toISOString() : null;
+      await db.update(apiConfigurations).set({ nextSyncAt }).where(eq(apiConfigurations.id, config.id));
+    }
+
+    if (!nextSyncAt || new Date(nextSyncAt) > now) {
+      continue;
+    }
+
+    const enqueued = await enqueueSyncJob(config.id, 'auto');
+    const entry = { configId: config.id, configName: config.name, jobId: enqueued.job.id };
+
+    if (enqueued.status === 'queued') {
+      startSyncJob(enqueued.job.id);
+      result.queued.push(entry);
+    } else {
+      result.skipped.push(entry);
+    }
+
+    const next = computeNextSyncAt(config, now, now);
+    await db.update(apiConfigurations)
+      .set({ nextSyncAt: next ? next.toISOString() : null })
+      .where(eq(apiConfigurations.id, config.id));
+  }
+
+  return result;
+}
+
+// Survives dev-server hot reloads, which re-evaluate this module
+const globalForScheduler = globalThis as unknown as { syncSchedulerTimer?: ReturnType<typeof setInterval> };
+
+export function startSyncScheduler(): void {
+  if (globalForScheduler.syncSchedulerTimer) {
+    return;
+  }
+
+  let ticking = false;
+  const tick = async () => {
+    // A slow tick (big resume, slow database) must not overlap the next one
+    if (ticking) return;
+    ticking = true;
+    try {
+      await runSchedulerTick();
+    } catch (error) {
+      console.error('Sync scheduler error:', error);
+    } finally {
+      ticking = false;
+    }
+  };
+
+  globalForScheduler.syncSchedulerTimer = setInterval(tick, SCHEDULER_TICK_MS);
+  void tick();
+}
@@ -0,0 +1,275 @@
+/**
+ * Sync writer
+ * Writes parsed source products into the catalog: the product row, its
+ * gallery, variants and bulk pricing tiers, with stock changes recorded in the
+ * inventory ledger and price changes in the price history. A listing that
+ * another supplier already provides is written as an offer on that product
+ * instead, and products with several offers take their price, stock and
+ * variants from the best ones. Shared by live syncs and by applying a
+ * reviewed dry-run changeset, which may write only some of these parts.
+ */
+
+import { db } from '@/db';
+import { apiConfigurations, products, productImages, productVariants, bulkPricingRules } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { recordStockChange } from '@/lib/inventory';
+import { recordPriceChange } from '@/lib/price-history';
+import { productMatchKey, ParsedProduct } from '@/lib/api-parsers';
+import { isHiddenByCorrection } from '@/lib/product-corrections';
+import { findOfferTarget, getProductOffers, recordOffer, selectBestOffers, toOfferPayload, toOfferPricing, withBestOffers } from '@/lib/product-offers';
+
+type ApiConfig = typeof apiConfigurations.$inferSelect;
+type ExistingProduct = typeof products.$inferSelect;
+
+export function toProductPayload(apiConfig: ApiConfig, productData: ParsedProduct) {
+  return {
+    name: productData.name,
+    description: productData.description || null,
+    price: productData.price,
+    imageUrl: productData.imageUrl || null,
+    category: productData.category || null,
+    mainCategory: productData.mainCategory,
+    subCategory: productData.subCategory || null,
+    brand: productData.brand || null,
+    volume: productData.volume || null,
+    stockQuantity: productData.stockQuantity,
+    isAvailable: productData.isAvailable,
+    sourceType: 'api',
+    sourceId: productData.sourceId,
+    apiConfigId: apiConfig.id,
+    isLocalOnly: false,
+    matchKey: productMatchKey(productData)
+  };
+}
+
+// Single images live on products.imageUrl; only galleries get product_images rows
+export async function writeProductImages(productId: number, images: string[], replace: boolean): Promise<void> {
+  if (replace) {
+    await db.delete(productImages)
+      .where(eq(productImages.productId, productId));
+  }
+
+  for (let i = 0; i < images.length; i++) {
+    await db.insert(productImages).values({
+      productId,
+      imageUrl: images[i],
+      isPrimary: i === 0,
+      displayOrder: i,
+      createdAt: new Date().toISOString()
+    });
+  }
+}
+
+export async function writeProductVariants(
+  apiConfig: ApiConfig,
+  productId: number,
+  productData: Pick<ParsedProduct, 'price' | 'variants'>,
+  replace: boolean,
+  previousBasePrice: number | null = null
+): Promise<void> {
+  // Variants are matched by type and name and updated in place, so carts, reservations and
+  // order items that hold a variant's id keep pointing at it across syncs
+  const variantKey = (v: { variantType: string; variantName: string }) => `${v.variantType}:${v.variantName}`;
+  const existing = new Map<string, typeof productVariants.$inferSelect>();
+  const seenAt = new Date().toISOString();
+
+  if (replace) {
+    // Variants missing from the source stay put until their discontinue grace period runs out
+    const rows = await db.select().from(productVariants).where(eq(productVariants.productId, productId));
+    for (const row of rows) {
+      existing.set(variantKey(row), row);
+    }
+  }
+
+  for (const variant of productData.variants ?? []) {
+    const old = existing.get(variantKey(variant));
+    const values = {
+      stockQuantity: variant.stockQuantity,
+      priceModifier: variant.price - productData.price,
+      isAvailable: variant.stockQuantity > 0,
+      lastSeenAt: seenAt,
+    };
+
+    const [written] = old
+      ? await db.update(productVariants).set(values).where(eq(productVariants.id, old.id)).returning()
+      : await db.insert(productVariants).values({
+        productId,
+        variantName: variant.variantName,
+        variantType: variant.variantType,
+        ...values,
+        createdAt: new Date().toISOString()
+      }).returning();
+
+    await recordStockChange(db, {
+      productId,
+      variantId: written.id,
+      before: old?.stockQuantity ?? 0,
+      after: variant.stockQuantity,
+      reason: 'sync',
+      note: `Sync from ${apiConfig.name}`,
+    });
+
+    await recordPriceChange(db, {
+      productId,
+      variantType: variant.variantType,
+      variantName: variant.variantName,
+      before: old && previousBasePrice !== null ? previousBasePrice + (old.priceModifier ?? 0) : null,
+      after: variant.price,
+      source: 'sync',
+      apiConfigId: apiConfig.id,
+      alertPercent: apiConfig.priceAlertPercent,
+    });
+  }
+}
+
+export async function writeBulkPricing(
+  productId: number,
+  productData: Pick<ParsedProduct, 'price' | 'bulkPricing'>,
+  replace: boolean
+): Promise<void> {
+  if (replace) {
+    await db.delete(bulkPricingRules)
+      .where(eq(bulkPricingRules.productId, productId));
+  }
+
+  for (const tier of productData.bulkPricing ?? []) {
+    await db.insert(bulkPricingRules).values({
+      productId,
+      minQuantity: tier.minQuantity,
+      discountType: 'fixed',
+      discountValue: productData.price - tier.price,
+      finalPrice: tier.price,
+      createdAt: new Date().toISOString()
+    });
+  }
+}
+
+/**
+ * Re-derive a product's price, stock and variants from all of its offers after
+ * one of them changed. Name, description, images and categories stay with the
+ * product's own source. The price and stock changes are credited to apiConfig.
+ */
+export async function repriceFromOffers(apiConfig: ApiConfig, productId: number): Promise<void> {
+  const [product] = await db.select().from(products).where(eq(products.id, productId)).limit(1);
+  const offers = await getProductOffers(productId);
+  if (!product || product.discontinuedAt || offers.length === 0) {
+    return;
+  }
+
+  const best = selectBestOffers(offers.map(toOfferPricing));
+  // Another supplier's stock doesn't bring back a product a correction hid
+  const isAvailable = best.isAvailable && !(await isHiddenByCorrection(product.sourceId));
+
+  await db.update(products)
+    .set({ price: best.price, stockQuantity: best.stockQuantity, isAvailable })
+    .where(eq(products.id, productId));
+
+  await recordStockChange(db, {
+    productId,
+    before: product.stockQuantity,
+    after: best.stockQuantity,
+    reason: 'sync',
+    note: `Sync from ${apiConfig.name}`,
+  });
+
+  await recordPriceChange(db, {
+    productId,
+    before: product.price,
+    after: best.price,
+    source: 'sync',
+    apiConfigId: apiConfig.id,
+    alertPercent: apiConfig.priceAlertPercent,
+  });
+
+  if (best.variants.length > 0) {
+    await writeProductVariants(apiConfig, productId, best, true, product.price);
+  }
+}
+
+/**
+ * Writes one product with its images, variants and bulk tiers, or links it to
+ * the product another supplier already lists it as. Returns what was done.
+ */
+export async function syncProduct(
+  apiConfig: ApiConfig,
+  productData: ParsedProduct,
+  existingProduct: ExistingProduct | undefined
+): Promise<{ action: 'create' | 'update' | 'link'; productId: number }> {
+  if (!existingProduct) {
+    const targetId = await findOfferTarget(apiConfig, productData);
+    if (targetId !== null) {
+      await recordOffer(apiConfig, targetId, productData);
+      await repriceFromOffers(apiConfig, targetId);
+      return { action: 'link', productId: targetId };
+    }
+  }
+
+  // Other suppliers' offers on this product compete with the feed's own price and stock
+  const otherOffers = existingProduct
+    ? (await getProductOffers(existingProduct.id))
+      .filter(offer => offer.apiConfigId !== apiConfig.id || offer.sourceId !== productData.sourceId)
+    : [];
+  const combined = otherOffers.length > 0
+    ? withBestOffers(productData, selectBestOffers([toOfferPayload(apiConfig, productData), ...otherOffers.map(toOfferPricing)]))
+    : productData;
+  // The feed was already corrected, so a hidden product arrives unavailable and must stay so
+  const listing = combined !== productData && await isHiddenByCorrection(productData.sourceId)
+    ? { ...combined, isAvailable: false }
+    : combined;
+
+  // Being in the feed is what keeps a product from being discontinued, and what brings it back
+  const productPayload = {
+    ...toProductPayload(apiConfig, listing),
+    lastSeenAt: new Date().toISOString(),
+    discontinuedAt: null,
+  };
+  let productId: number;
+
+  if (existingProduct) {
+    const updated = await db
+      .update(products)
+      .set(productPayload)
+      .where(eq(products.id, existingProduct.id))
+      .returning();
+    productId = updated[0].id;
+  } else {
+    const created = await db.insert(products).values({
+      ...productPayload,
+      createdAt: new Date().toISOString()
+    }).returning();
+    productId = created[0].id;
+  }
+
+  await recordStockChange(db, {
+    productId,
+    before: existingProduct ? existingProduct.stockQuantity : 0,
+    after: productPayload.stockQuantity,
+    reason: 'sync',
+    note: `Sync from ${apiConfig.name}`,
+  });
+
+  await recordPriceChange(db, {
+    productId,
+    before: existingProduct ? existingProduct.price : null,
+    after: productPayload.price,
+    source: 'sync',
+    apiConfigId: apiConfig.id,
+    alertPercent: apiConfig.priceAlertPercent,
+  });
+
+  if (productData.images && productData.images.length > 1) {
+    await writeProductImages(productId, productData.images, !!existingProduct);
+  }
+
+  if (listing.variants && listing.variants.length > 0) {
+    await writeProductVariants(apiConfig, productId, listing, !!existingProduct, existingProduct?.price ?? null);
+  }
+
+  if (productData.bulkPricing && productData.bulkPricing.length > 0) {
+    await writeBulkPricing(productId, productData, !!existingProduct);
+  }
+
+  await recordOffer(apiConfig, productId, productData);
+
+  return { action: existingProduct ? 'update' : 'create', productId };
+}
@@ -0,0 +1,197 @@
+/**
+ * Two-factor authentication
+ * Enrollment state lives on the users row (pending secret until the first code
+ * is verified), recovery codes and pending login challenges in their own tables.
+ */
+
+import { randomBytes } from 'crypto';
+import { db } from '@/db';
+import { users, recoveryCodes, twoFactorChallenges } from '@/db/schema';
+import { eq, and, isNull, lt } from 'drizzle-orm';
+import { verifyTotp } from '@/lib/totp';
+import { hashSessionToken, generateSessionToken } from '@/lib/auth';
+
+type User = typeof users.$inferSelect;
+
+export const TOTP_ISSUER = 'Secure Marketplace';
+export const RECOVERY_CODE_COUNT = 10;
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+function formatRecoveryCode(): string {
+  const hex = randomBytes(5).toString('hex');
+  return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.trim().toLowerCase().replace(/[^a-f0-9]/g, '');
+}
+
+// Replace any existing recovery codes; the plain codes are only ever returned here
+export async function regenerateRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, formatRecoveryCode);
+  const createdAt = new Date().toISOString();
+
+  await db.transaction(async (tx) => {
+    await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+    await tx.insert(recoveryCodes).values(codes.map(code => ({
+      userId,
+      codeHash: hashSessionToken(normalizeRecoveryCode(code)),
+      createdAt,
+    })));
+  });
+
+  return codes;
+}
+
+export async function countRemainingRecoveryCodes(userId: number): Promise<number> {
+  const remaining = await db.select({ id: recoveryCodes.id })
+    .from(recoveryCodes)
+    .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+
+  return remaining.length;
+}
+
+async function consumeRecoveryCode(userId: number, code: string): Promise<boolean> {
+  const used = await db.update(recoveryCodes)
+    .set({ usedAt: new Date().toISOString() })
+    .where(and(
+      eq(recoveryCodes.userId, userId),
+      eq(recoveryCodes.codeHash, hashSessionToken(normalizeRecoveryCode(code))),
+      isNull(recoveryCodes.usedAt)
+    ))
+    .returning({ id: recoveryCodes.id });
+
+  return used.length > 0;
+}
+
+/**
+ * Check a TOTP code against a secret, rejecting a code from a step that was
+ * already accepted so an intercepted code can't be replayed.
+ */
+export async function verifyUserTotp(user: User, secret: string, code: string): Promise<boolean> {
+  const step = verifyTotp(secret, code);
+
+  if (step === null || (user.totpLastUsedStep !== null && step <= user.totpLastUsedStep)) {
+    return false;
+  }
+
+  await db.update(users)
+    .set({ totpLastUsedStep: step })
+    .where(eq(users.id, user.id));
+
+  return true;
+}
+
+// Accepts either a code from the authenticator app or an unused recovery code
+export async function verifySecondFactor(user: User, code: string): Promise<boolean> {
+  if (!user.totpEnabled || !user.totpSecret) {
+    return false;
+  }
+
+  if (/^\s*\d{6}\s*$/.test(code)) {
+    return verifyUserTotp(user, user.totpSecret, code);
+  }
+
+  return consumeRecoveryCode(user.id, code);
+}
+
+export async function disableTwoFactor(userId: number): Promise<void> {
+  await db.transaction(async (tx) => {
+    await tx.update(users)
+      .set({
+        totpSecret: null,
+        totpPendingSecret: null,
+        totpEnabled: false,
+        totpLastUsedStep: null,
+      })
+      .where(eq(users.id, userId));
+    await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+  });
+}
+
+// Issued after the password check; exchanged for a session once the second factor passes
+export async function createTwoFactorChallenge(userId: number): Promise<{ token: string; expiresAt: number }> {
+  const token = generateSessionToken();
+  const now = new Date();
+  const expiresAt = now.getTime() + CHALLENGE_TTL_MS;
+
+  // Drop this user's stale challenges so the table doesn't grow unbounded
+  await db.delete(twoFactorChallenges)
+    .where(and(
+      eq(twoFactorChallenges.userId, userId),
+      lt(twoFactorChallenges.expiresAt, now.toISOString())
+    ));
+
+  await db.insert(twoFactorChallenges).values({
+    userId,
+    tokenHash: hashSessionToken(token),
+    expiresAt: new Date(expiresAt).toISOString(),
+    createdAt: now.toISOString(),
+  });
+
+  return { token, expiresAt };
+}
+
+/**
+ * The user a pending login challenge belongs to, without checking any code,
+ * so the login can be throttled before the second factor is tried. Null when
+ * the challenge is unknown, expired or out of attempts.
+ */
+export async function getChallengeUser(token: string): Promise<User | null> {
+  const rows = await db.select({ challenge: twoFactorChallenges, user: users })
+    .from(twoFactorChallenges)
+    .innerJoin(users, eq(twoFactorChallenges.userId, users.id))
+    .where(eq(twoFactorChallenges.tokenHash, hashSessionToken(token)))
+    .limit(1);
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const { challenge, user } = rows[0];
+  if (Date.now() > new Date(challenge.expiresAt).getTime() || challenge.attempts >= MAX_CHALLENGE_ATTEMPTS) {
+    return null;
+  }
+
+  return user;
+}
+
+export type ChallengeResult =
+  | { status: 'ok'; user: User }
+  | { status: 'invalid_challenge' }
+  | { status: 'invalid_code'; user: User };
+
+/**
+ * Verify the second factor for a pending login. The challenge is deleted on
+ * success, on expiry and after too many wrong codes.
+ */
+export async function completeTwoFactorChallenge(token: string, code: string): Promise<ChallengeResult> {
+  const rows = await db.select({ challenge: twoFactorChallenges, user: users })
+    .from(twoFactorChallenges)
+    .innerJoin(users, eq(twoFactorChallenges.userId, users.id))
+    .where(eq(twoFactorChallenges.tokenHash, hashSessionToken(token)))
+    .limit(1);
+
+  if (rows.length === 0) {
+    return { status: 'invalid_challenge' };
+  }
+
+  const { challenge, user } = rows[0];
+
+  if (Date.now() > new Date(challenge.expiresAt).getTime() || challenge.attempts >= MAX_CHALLENGE_ATTEMPTS) {
+    await db.delete(twoFactorChallenges).where(eq(twoFactorChallenges.id, challenge.id));
+    return { status: 'invalid_challenge' };
+  }
+
+  if (!(await verifySecondFactor(user, code))) {
+    await db.update(twoFactorChallenges)
+      .set({ attempts: challenge.attempts + 1 })
+      .where(eq(twoFactorChallenges.id, challenge.id));
+    return { status: 'invalid_code', user };
+  }
+
+  await db.delete(twoFactorChallenges).where(eq(twoFactorChallenges.id, challenge.id));
+  return { status: 'ok', user };
+}